@@ -1,7 +1,11 @@
 import { Request, Response, NextFunction } from "express";
+import { v4 as uuidv4 } from "uuid";
 import * as RoomService from "../services/RoomService";
+import {
+    getUserIdFromAuthHeader,
+    issueSessionToken,
+} from "../services/SessionService";
 import { getIO, hasIO } from "../utils/socketIO";
-import { badRequest } from "@family-games/shared";
 import {
     CreateRoomRequestSchema,
     JoinRoomRequestSchema,
@@ -35,6 +39,7 @@ export async function createRoom(
             roomId: room.id,
             userId: user.id,
             roomCode: room.code,
+            sessionToken: issueSessionToken(user.id),
         });
     } catch (err) {
         next(err);
@@ -55,7 +60,9 @@ export async function joinRoom(
         }
 
         const { playerName, roomCode } = result.data;
-        const userId = req.body.userId as string | undefined;
+        // Only a valid session token can reclaim an existing identity
+        const userId =
+            getUserIdFromAuthHeader(req.headers.authorization) ?? undefined;
 
         const { room, user } = RoomService.joinRoom(
             roomCode,
@@ -66,6 +73,7 @@ export async function joinRoom(
             roomId: room.id,
             userId: user.id,
             roomCode: room.code,
+            sessionToken: issueSessionToken(user.id),
         });
     } catch (err) {
         next(err);
@@ -82,7 +90,7 @@ export async function requestJoinRoom(
     next: NextFunction
 ) {
     try {
-        const { roomCode: rawRoomCode, requesterId, requesterName } = req.body;
+        const { roomCode: rawRoomCode, requesterName } = req.body;
 
         // Validate room code
         const roomCodeResult = RoomCodeSchema.safeParse(rawRoomCode);
@@ -116,12 +124,11 @@ export async function requestJoinRoom(
             return;
         }
 
-        if (!requesterId) {
-            throw badRequest("requesterId is required.");
-        }
-
         const roomCode = roomCodeResult.data;
         const validatedName = nameResult.data;
+        // Requesters without a session get a fresh identity, issued with the response
+        const requesterId =
+            getUserIdFromAuthHeader(req.headers.authorization) ?? uuidv4();
 
         // This will throw if rate-limited or room not found
         const { roomId } = RoomService.requestToJoinRoom(
@@ -144,6 +151,8 @@ export async function requestJoinRoom(
         res.status(200).json({
             success: true,
             message: "Join request sent to room leader.",
+            requesterId,
+            sessionToken: issueSessionToken(requesterId),
         });
     } catch (err) {
         next(err);
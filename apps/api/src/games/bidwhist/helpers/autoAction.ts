@@ -0,0 +1,83 @@
+// src/games/bidwhist/helpers/autoAction.ts
+
+/**
+ * Auto-action helpers for Bid Whist.
+ * Used when a player times out and the server needs to act on their behalf.
+ */
+
+import { BidWhistState, BidWhistBid, Card } from "@family-games/shared";
+import {
+    BotDeclaration,
+    getBotBid,
+    getBotCard,
+    getBotDeclaration,
+    getBotDiscard,
+} from "./bot";
+
+/**
+ * Get the auto-bid for a player who timed out during bidding.
+ * Bids like a hard bot, so usually passes unless the hand is strong
+ * (the dealer bids the minimum when everyone else has passed).
+ *
+ * @param state - The current game state
+ * @param playerId - The player who timed out
+ * @returns The bid to place, or null to pass
+ */
+export function getAutoBid(
+    state: BidWhistState,
+    playerId: string
+): BidWhistBid | null {
+    return getBotBid(state, playerId, "hard");
+}
+
+/**
+ * Get the kitty discards for a declarer who timed out: keeps trump and
+ * top cards, throwing the shortest side suits first.
+ *
+ * @param state - The current game state
+ * @param playerId - The declarer
+ * @returns The cards to discard
+ */
+export function getAutoDiscard(state: BidWhistState, playerId: string): Card[] {
+    return getBotDiscard(state, playerId, "hard");
+}
+
+/**
+ * Get the trump (or no-trump ranking) for a declarer who timed out.
+ *
+ * @param state - The current game state
+ * @param playerId - The declarer
+ * @returns The declaration the hand plays best under
+ */
+export function getAutoDeclaration(
+    state: BidWhistState,
+    playerId: string
+): BotDeclaration {
+    return getBotDeclaration(state, playerId, "hard");
+}
+
+/**
+ * Get the auto-play card for a player who timed out during playing.
+ * Plays like a hard bot: leaves a partner's winning trick alone and
+ * otherwise takes the trick as cheaply as it can.
+ *
+ * @param state - The current game state
+ * @param playerId - The player who timed out
+ * @returns The card to play, or null if no legal card (shouldn't happen)
+ */
+export function getAutoPlayCard(
+    state: BidWhistState,
+    playerId: string
+): Card | null {
+    return getBotCard(state, playerId, "hard");
+}
+
+/**
+ * Check if the game is in a state where a turn timer should be running:
+ * during the auction, the declarer's discard and trump call, and play.
+ */
+export function shouldTimerBeActive(state: BidWhistState): boolean {
+    return ["bidding", "discarding", "declaring", "playing"].includes(
+        state.phase
+    );
+}
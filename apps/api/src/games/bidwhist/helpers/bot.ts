@@ -0,0 +1,452 @@
+// src/games/bidwhist/helpers/bot.ts
+
+/**
+ * Bot strategy for Bid Whist.
+ *
+ * Bots count the books a hand should take for each way it could be
+ * played (a trump suit uptown or downtown, or no-trump), bid the best of
+ * them when it beats the table and pass otherwise. The declarer keeps
+ * trump and top cards when discarding, and names the suit the count
+ * liked best. Easy bots count roughly, never bid no-trump and play
+ * without tracking cards; hard bots leave a partner's bid alone, pull
+ * trump and cash cards nobody can beat.
+ */
+
+import {
+    BidWhistState,
+    BidWhistBid,
+    BidWhistRanking,
+    Card,
+    Rank,
+    Suit,
+    Trick,
+    TrickRules,
+    BotDifficulty,
+    STANDARD_RANK_ORDER,
+    STANDARD_SUITS,
+    BID_WHIST_BOOK_TRICKS,
+    BID_WHIST_KITTY_SIZE,
+    BID_WHIST_MAX_BID,
+    cardBeats,
+    getBidWhistRankValue,
+    getCardSuit,
+    getHighBid,
+    getPlayableCards,
+    getWinningPlay,
+    isHigherBid,
+    isTrumpCard,
+    isWhistJoker,
+    buildBidWhistDeck,
+} from "@family-games/shared";
+import { getPlayerTeamId, getTrickRules } from "./card";
+import { isSameCard } from "../../shared";
+
+// Books a bot expects from its partner and the kitty when bidding
+const EXPECTED_PARTNER_BOOKS = 3;
+const KITTY_BOOKS = 1;
+
+/**
+ * What the declarer will name: a trump suit, or no-trump (null).
+ */
+export interface BotDeclaration {
+    trumpSuit: Suit | null;
+    ranking: BidWhistRanking;
+}
+
+// ============================================================================
+// Hand Evaluation
+// ============================================================================
+
+/**
+ * Ranks from the top down: A K Q ... uptown, A 2 3 ... downtown.
+ */
+function getTopRanks(ranking: BidWhistRanking): Rank[] {
+    if (ranking === "uptown") return [...STANDARD_RANK_ORDER].reverse();
+    return [Rank.Ace, ...STANDARD_RANK_ORDER.slice(0, -1)];
+}
+
+/**
+ * Top cards held in a row from the highest rank, e.g. A-K-Q uptown is 3.
+ */
+function countTopSequence(
+    hand: Card[],
+    suit: Suit,
+    ranking: BidWhistRanking
+): number {
+    let count = 0;
+    for (const rank of getTopRanks(ranking)) {
+        if (!hand.some((c) => c.suit === suit && c.rank === rank)) break;
+        count++;
+    }
+    return count;
+}
+
+function suitLength(hand: Card[], suit: Suit): number {
+    return hand.filter((c) => !isWhistJoker(c) && c.suit === suit).length;
+}
+
+/**
+ * Books the hand should take on its own when played this way. Trump
+ * counts the jokers, top trumps and extra length; side suits count their
+ * top cards (at most two, since they'll be trumped after that). In
+ * no-trump the jokers are worthless and long suits run once they're led.
+ */
+function countWinners(hand: Card[], declaration: BotDeclaration): number {
+    const { trumpSuit, ranking } = declaration;
+    const jokers = hand.filter(isWhistJoker).length;
+    let winners = 0;
+
+    for (const suit of STANDARD_SUITS) {
+        const length = suitLength(hand, suit);
+        const top = countTopSequence(hand, suit, ranking);
+        if (suit === trumpSuit) {
+            const trumpLength = length + jokers;
+            winners +=
+                jokers + top + Math.max(0, trumpLength - jokers - top - 2);
+        } else if (trumpSuit === null) {
+            winners += top + (top > 0 ? Math.max(0, length - 4) : 0);
+        } else {
+            winners += Math.min(top, 2);
+        }
+    }
+    return winners;
+}
+
+/**
+ * Every way the hand could be declared.
+ */
+function getDeclarations(allowNoTrump: boolean): BotDeclaration[] {
+    const rankings: BidWhistRanking[] = ["uptown", "downtown"];
+    const suited = rankings.flatMap((ranking) =>
+        STANDARD_SUITS.map((trumpSuit) => ({ trumpSuit, ranking }))
+    );
+    const noTrump = rankings.map((ranking) => ({ trumpSuit: null, ranking }));
+    return allowNoTrump ? [...suited, ...noTrump] : suited;
+}
+
+/**
+ * The declaration with the most winners (longest trump breaks ties).
+ */
+function getBestDeclaration(
+    hand: Card[],
+    declarations: BotDeclaration[]
+): { declaration: BotDeclaration; winners: number } {
+    const scored = declarations.map((declaration) => ({
+        declaration,
+        winners: countWinners(hand, declaration),
+        length: declaration.trumpSuit
+            ? suitLength(hand, declaration.trumpSuit)
+            : 0,
+    }));
+    scored.sort((a, b) => b.winners - a.winners || b.length - a.length);
+    return scored[0];
+}
+
+// ============================================================================
+// Bidding
+// ============================================================================
+
+/**
+ * Books over six the hand is worth, and the direction to bid them in.
+ */
+function estimateBid(hand: Card[], difficulty: BotDifficulty): BidWhistBid {
+    const { declaration, winners } = getBestDeclaration(
+        hand,
+        getDeclarations(difficulty === "hard")
+    );
+    const books = winners + KITTY_BOOKS + EXPECTED_PARTNER_BOOKS;
+    return {
+        amount: Math.min(BID_WHIST_MAX_BID, books - BID_WHIST_BOOK_TRICKS),
+        direction:
+            declaration.trumpSuit === null ? "noTrump" : declaration.ranking,
+    };
+}
+
+/**
+ * The cheapest bid in this direction that beats the high bid.
+ */
+function getCheapestBid(
+    direction: BidWhistBid["direction"],
+    highBid: BidWhistBid | null,
+    minimumBid: number
+): BidWhistBid {
+    const amount = Math.max(minimumBid, highBid?.amount ?? 0);
+    const bid = { amount, direction };
+    return isHigherBid(bid, highBid) ? bid : { amount: amount + 1, direction };
+}
+
+/**
+ * Bid when the hand is worth more than the table, otherwise pass (null).
+ * The dealer can't pass when everyone else has.
+ */
+export function getBotBid(
+    state: BidWhistState,
+    playerId: string,
+    difficulty: BotDifficulty
+): BidWhistBid | null {
+    const hand = state.hands[playerId] || [];
+    const { minimumBid } = state.settings;
+    const high = getHighBid(state.bids);
+    const estimate = estimateBid(hand, difficulty);
+
+    const othersPassed = state.playOrder.every(
+        (id) => id === playerId || state.bids[id] === null
+    );
+    if (othersPassed) {
+        return { amount: minimumBid, direction: estimate.direction };
+    }
+
+    // Don't bid over a partner without a clearly stronger hand
+    const teamId = getPlayerTeamId(state, playerId);
+    if (
+        difficulty === "hard" &&
+        high &&
+        getPlayerTeamId(state, high.playerId) === teamId &&
+        estimate.amount < high.bid.amount + 2
+    ) {
+        return null;
+    }
+
+    const bid = getCheapestBid(
+        estimate.direction,
+        high?.bid ?? null,
+        minimumBid
+    );
+    return bid.amount <= estimate.amount && bid.amount <= BID_WHIST_MAX_BID
+        ? bid
+        : null;
+}
+
+// ============================================================================
+// Kitty and Trump
+// ============================================================================
+
+/**
+ * How to play the hand the declarer now holds.
+ */
+export function getBotDeclaration(
+    state: BidWhistState,
+    playerId: string,
+    difficulty: BotDifficulty
+): BotDeclaration {
+    const hand = state.hands[playerId] || [];
+    const direction = state.contract?.bid.direction ?? "uptown";
+
+    if (difficulty === "easy") {
+        if (direction === "noTrump") {
+            return { trumpSuit: null, ranking: "uptown" };
+        }
+        const longest = [...STANDARD_SUITS].sort(
+            (a, b) => suitLength(hand, b) - suitLength(hand, a)
+        )[0];
+        return { trumpSuit: longest, ranking: direction };
+    }
+
+    const declarations = getDeclarations(true).filter((d) =>
+        direction === "noTrump"
+            ? d.trumpSuit === null
+            : d.trumpSuit !== null && d.ranking === direction
+    );
+    return getBestDeclaration(hand, declarations).declaration;
+}
+
+/**
+ * Discard the cards least likely to take a book: never trump (or the
+ * jokers with a trump suit), shortest side suits first so the declarer
+ * can trump them. Easy bots just throw their lowest cards.
+ */
+export function getBotDiscard(
+    state: BidWhistState,
+    playerId: string,
+    difficulty: BotDifficulty
+): Card[] {
+    const hand = state.hands[playerId] || [];
+    const declaration = getBotDeclaration(state, playerId, difficulty);
+    const { trumpSuit, ranking } = declaration;
+
+    const keepValue = (card: Card): number => {
+        const rank = getBidWhistRankValue(card, ranking);
+        if (difficulty === "easy") return getBidWhistRankValue(card, "uptown");
+        if (isWhistJoker(card)) return trumpSuit === null ? -100 : 1000;
+        if (card.suit === trumpSuit) return 500 + rank;
+        const top = countTopSequence(hand, card.suit, ranking);
+        const isTopCard = getTopRanks(ranking)
+            .slice(0, top)
+            .includes(card.rank);
+        return rank + suitLength(hand, card.suit) * 5 + (isTopCard ? 100 : 0);
+    };
+
+    return [...hand]
+        .sort((a, b) => keepValue(a) - keepValue(b))
+        .slice(0, BID_WHIST_KITTY_SIZE);
+}
+
+// ============================================================================
+// Playing
+// ============================================================================
+
+/**
+ * Relative strength used to pick the "lowest" or "highest" card. Trump
+ * sorts above every side card so bots don't waste it; jokers in no-trump
+ * are worth nothing.
+ */
+function cardStrength(card: Card, rules: TrickRules): number {
+    if (rules.trumpSuit === null && isWhistJoker(card)) return -1;
+    return rules.getRankValue(card) + (isTrumpCard(card, rules) ? 100 : 0);
+}
+
+function lowestCard(cards: Card[], rules: TrickRules): Card {
+    return cards.reduce((low, card) =>
+        cardStrength(card, rules) < cardStrength(low, rules) ? card : low
+    );
+}
+
+function highestCard(cards: Card[], rules: TrickRules): Card {
+    return cards.reduce((high, card) =>
+        cardStrength(card, rules) > cardStrength(high, rules) ? card : high
+    );
+}
+
+/**
+ * Cards the bot can't see: not in its hand, not played this round and
+ * not among its own discards.
+ */
+function getUnseenCards(
+    state: BidWhistState,
+    playerId: string,
+    hand: Card[]
+): Card[] {
+    const seen = [
+        ...hand,
+        ...state.completedTricks.flatMap((trick) =>
+            trick.plays.map((play) => play.card)
+        ),
+        ...(state.currentTrick?.plays.map((play) => play.card) ?? []),
+        ...(state.contract?.declarerId === playerId ? state.discards : []),
+    ];
+    return buildBidWhistDeck().filter(
+        (card) => !seen.some((c) => isSameCard(c, card))
+    );
+}
+
+/**
+ * True if no unseen card of the same suit can beat this card.
+ */
+function isMasterCard(card: Card, unseen: Card[], rules: TrickRules): boolean {
+    const suit = getCardSuit(card, rules);
+    return !unseen.some(
+        (c) => getCardSuit(c, rules) === suit && cardBeats(c, card, suit, rules)
+    );
+}
+
+function getHardLead(
+    state: BidWhistState,
+    playerId: string,
+    legal: Card[],
+    hand: Card[],
+    rules: TrickRules
+): Card {
+    const unseen = getUnseenCards(state, playerId, hand);
+    const isDeclaringTeam =
+        getPlayerTeamId(state, playerId) === state.contract?.teamId;
+
+    // Pull trump while the opponents might still hold some
+    const trumps = legal.filter((card) => isTrumpCard(card, rules));
+    const trumpOut = unseen.some((card) => isTrumpCard(card, rules));
+    if (isDeclaringTeam && trumpOut && trumps.length > 0) {
+        const topTrump = highestCard(trumps, rules);
+        if (isMasterCard(topTrump, unseen, rules)) return topTrump;
+    }
+
+    // Cash a side card nobody can beat
+    const masters = legal.filter(
+        (card) =>
+            !isTrumpCard(card, rules) &&
+            !(rules.trumpSuit === null && isWhistJoker(card)) &&
+            isMasterCard(card, unseen, rules)
+    );
+    if (masters.length > 0) return highestCard(masters, rules);
+
+    // Otherwise lead low from the longest side suit
+    const side = legal.filter((card) => !isTrumpCard(card, rules));
+    const pool = side.length > 0 ? side : legal;
+    const longestSuit = [...pool].sort(
+        (a, b) =>
+            pool.filter((c) => c.suit === b.suit).length -
+            pool.filter((c) => c.suit === a.suit).length
+    )[0].suit;
+    return lowestCard(
+        pool.filter((card) => card.suit === longestSuit),
+        rules
+    );
+}
+
+function getHardFollow(
+    state: BidWhistState,
+    playerId: string,
+    legal: Card[],
+    hand: Card[],
+    trick: Trick,
+    rules: TrickRules
+): Card {
+    const winning = getWinningPlay(trick, rules)!;
+    const ledSuit = getCardSuit(trick.plays[0].card, rules);
+    const isLastToPlay = trick.plays.length === state.playOrder.length - 1;
+    const partnerWinning =
+        getPlayerTeamId(state, winning.playerId) ===
+        getPlayerTeamId(state, playerId);
+
+    // Leave a partner's trick alone once it's safe
+    if (
+        partnerWinning &&
+        (isLastToPlay ||
+            isMasterCard(
+                winning.card,
+                getUnseenCards(state, playerId, hand),
+                rules
+            ))
+    ) {
+        return lowestCard(legal, rules);
+    }
+
+    // Take the trick as cheaply as possible
+    const winners = legal.filter((card) =>
+        cardBeats(card, winning.card, ledSuit, rules)
+    );
+    if (winners.length > 0) return lowestCard(winners, rules);
+
+    return lowestCard(legal, rules);
+}
+
+/**
+ * Pick a legal card for the bot to play.
+ */
+export function getBotCard(
+    state: BidWhistState,
+    playerId: string,
+    difficulty: BotDifficulty
+): Card | null {
+    const hand = state.hands[playerId] || [];
+    const rules = getTrickRules(state);
+    const legal = getPlayableCards(hand, state.currentTrick, rules);
+    if (legal.length === 0) return null;
+
+    const trick = state.currentTrick;
+    const isLead = !trick || trick.plays.length === 0;
+
+    if (difficulty === "easy") {
+        if (isLead) return highestCard(legal, rules);
+        const winning = getWinningPlay(trick!, rules)!;
+        const ledSuit = getCardSuit(trick!.plays[0].card, rules);
+        const winners = legal.filter((card) =>
+            cardBeats(card, winning.card, ledSuit, rules)
+        );
+        return winners.length > 0
+            ? highestCard(winners, rules)
+            : lowestCard(legal, rules);
+    }
+
+    return isLead
+        ? getHardLead(state, playerId, legal, hand, rules)
+        : getHardFollow(state, playerId, legal, hand, trick!, rules);
+}
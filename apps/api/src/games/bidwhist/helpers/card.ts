@@ -0,0 +1,88 @@
+/* ------------------------------------------------------------------------
+   Card helpers – no game-state, no I/O
+   --------------------------------------------------------------------- */
+
+import {
+    BidWhistState,
+    Card,
+    Suit,
+    TrickRules,
+    getBidWhistRankValue,
+    getBidWhistTrickRules,
+    dealBidWhistRound,
+} from "@family-games/shared";
+import { sortHand } from "../../shared";
+
+/* ––––––––––––––––––––– CONSTANTS ––––––––––––––––––––– */
+
+// Hands show Diamonds, Clubs, Hearts, then Spades (jokers last)
+const HAND_SUIT_ORDER: Suit[] = [
+    Suit.Diamonds,
+    Suit.Clubs,
+    Suit.Hearts,
+    Suit.Spades,
+];
+
+/* ––––––––––––––––– DEALING –––––––––––––––––––– */
+
+/**
+ * Shuffle the 54-card deck and deal 12 cards each. The 6 left over are
+ * the kitty.
+ */
+export function dealBidWhistHands(
+    playOrder: string[],
+    rng: () => number
+): { hands: Record<string, Card[]>; kitty: Card[] } {
+    const { hands, undealt } = dealBidWhistRound(playOrder, rng);
+    return {
+        hands: Object.fromEntries(
+            Object.entries(hands).map(([playerId, hand]) => [
+                playerId,
+                sortBidWhistHand(hand),
+            ])
+        ),
+        kitty: undealt,
+    };
+}
+
+/**
+ * Sort a hand by suit, then rank (Ace high, jokers at the end).
+ */
+export function sortBidWhistHand(hand: Card[]): Card[] {
+    return sortHand(hand, HAND_SUIT_ORDER, (card) =>
+        getBidWhistRankValue(card, "uptown")
+    );
+}
+
+/* ––––––––––––––––  SMALL UTILITIES –––––––––––––––––– */
+
+/**
+ * Rules for the hand as declared (uptown until the declarer says otherwise).
+ */
+export function getTrickRules(
+    state: Pick<BidWhistState, "trumpSuit" | "ranking">
+): TrickRules {
+    return getBidWhistTrickRules(state.trumpSuit, state.ranking ?? "uptown");
+}
+
+/** Clockwise successor */
+export function nextPlayerIndex(state: BidWhistState): number {
+    return (state.currentTurnIndex + 1) % state.playOrder.length;
+}
+
+export function currentPlayerId(state: BidWhistState): string {
+    return state.playOrder[state.currentTurnIndex];
+}
+
+/**
+ * Team the player sits on, or undefined if they aren't seated.
+ */
+export function getPlayerTeamId(
+    state: Pick<BidWhistState, "teams">,
+    playerId: string
+): number | undefined {
+    const entry = Object.entries(state.teams).find(([, team]) =>
+        team.players.includes(playerId)
+    );
+    return entry ? Number(entry[0]) : undefined;
+}
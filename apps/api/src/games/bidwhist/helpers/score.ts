@@ -0,0 +1,78 @@
+import {
+    BidWhistScoreBreakdown,
+    BidWhistState,
+    BID_WHIST_BOOK_TRICKS,
+} from "@family-games/shared";
+
+interface ScoreResult {
+    teamScores: Record<number, number>;
+    scoreBreakdown: Record<number, BidWhistScoreBreakdown>;
+}
+
+/**
+ * Books each team has taken this hand. The declarer's discards count as
+ * the declaring team's first book.
+ */
+export function countBooks(state: BidWhistState): Record<number, number> {
+    const books: Record<number, number> = {};
+    for (const [teamId, team] of Object.entries(state.teams)) {
+        const tricks = team.players.reduce(
+            (sum, playerId) => sum + (state.roundTrickCounts[playerId] ?? 0),
+            0
+        );
+        const kitty = state.contract?.teamId === Number(teamId) ? 1 : 0;
+        books[Number(teamId)] = tricks + kitty;
+    }
+    return books;
+}
+
+/**
+ * Calculates scores for a completed Bid Whist hand. Only the declaring
+ * team scores: every book over six when they make their bid, or minus
+ * the bid when they're set. No-trump doubles both (when enabled).
+ * @param state The BidWhistState at end of hand
+ * @returns ScoreResult with new team scores and a breakdown for each team
+ */
+export function calculateBidWhistScores(state: BidWhistState): ScoreResult {
+    const { contract, settings } = state;
+    const books = countBooks(state);
+
+    const teamScores: Record<number, number> = {};
+    const scoreBreakdown: Record<number, BidWhistScoreBreakdown> = {};
+
+    for (const [id, team] of Object.entries(state.teams)) {
+        const teamId = Number(id);
+        const isDeclarer = contract?.teamId === teamId;
+        const booksNeeded =
+            isDeclarer && contract
+                ? BID_WHIST_BOOK_TRICKS + contract.bid.amount
+                : 0;
+        const made = isDeclarer && books[teamId] >= booksNeeded;
+        const doubled =
+            isDeclarer &&
+            contract?.bid.direction === "noTrump" &&
+            settings.noTrumpDoubles;
+        const multiplier = doubled ? 2 : 1;
+
+        let roundScore = 0;
+        if (isDeclarer && contract) {
+            roundScore = made
+                ? (books[teamId] - BID_WHIST_BOOK_TRICKS) * multiplier
+                : -contract.bid.amount * multiplier;
+        }
+
+        teamScores[teamId] = team.score + roundScore;
+        scoreBreakdown[teamId] = {
+            previousScore: team.score,
+            books: books[teamId],
+            isDeclarer,
+            booksNeeded,
+            made,
+            doubled,
+            roundScore,
+            newScore: teamScores[teamId],
+        };
+    }
+
+    return { teamScores, scoreBreakdown };
+}
@@ -0,0 +1,794 @@
+// src/games/bidwhist/index.ts
+import {
+    Room,
+    User,
+    BidWhistSettings,
+    DEFAULT_BID_WHIST_SETTINGS,
+    BID_WHIST_SETTINGS_DEFINITIONS,
+    BID_WHIST_TEAM_REQUIREMENTS,
+    BID_WHIST_TOTAL_PLAYERS,
+    BID_WHIST_KITTY_SIZE,
+    BID_WHIST_MAX_BID,
+    BidWhistBid,
+    BidWhistContract,
+    BidWhistPhase,
+    BidWhistRanking,
+    BidWhistScoreBreakdown,
+    BidWhistTeam,
+    Card,
+    Suit,
+    Trick,
+    BotDifficulty,
+    DealInfo,
+    STANDARD_SUITS,
+    getHighBid,
+    isHigherBid,
+    drawFirstDealer,
+} from "@family-games/shared";
+import { GameModule, GameState, GameAction } from "../../services/GameManager";
+import { v4 as uuidv4 } from "uuid";
+import {
+    currentPlayerId,
+    dealBidWhistHands,
+    getPlayerTeamId,
+    getTrickRules,
+    nextPlayerIndex,
+    sortBidWhistHand,
+} from "./helpers/card";
+import { calculateBidWhistScores } from "./helpers/score";
+import { omitFields } from "../../utils/omitFields";
+import {
+    handlePlayerReconnect,
+    handlePlayerDisconnect,
+    checkAllPlayersConnected,
+    createDeal,
+    withDealtHands,
+    getPublicDeals,
+    openContinueGate,
+    acknowledgeContinue,
+    assertCanForceContinue,
+    getOpposingPlayers,
+    trackUndo,
+    requestUndo,
+    respondToUndo,
+    ROUND_SUMMARY_CONTINUE_MS,
+    isSameCard,
+    playTrickCard,
+    isHandOver,
+    acknowledgeTrickResult,
+    continueAfterTrickResult,
+} from "../shared";
+import { turnTimerService } from "../../services/TurnTimerService";
+import {
+    getAutoBid,
+    getAutoDeclaration,
+    getAutoDiscard,
+    getAutoPlayCard,
+    shouldTimerBeActive,
+} from "./helpers/autoAction";
+import {
+    getBotBid,
+    getBotCard,
+    getBotDeclaration,
+    getBotDiscard,
+} from "./helpers/bot";
+
+const BID_WHIST_NAME = "bidwhist";
+const BID_WHIST_DISPLAY_NAME = "Bid Whist";
+// Plays a player can ask to take back (REQUEST_UNDO)
+const UNDOABLE_ACTIONS = ["PLAY_CARD"];
+
+const BID_WHIST_METADATA = {
+    type: BID_WHIST_NAME,
+    displayName: BID_WHIST_DISPLAY_NAME,
+    description:
+        "A partnership trick-taking game. Bid for the kitty uptown, downtown or no-trump, name trump, then take the books you bid!",
+    requiresTeams: true,
+    minPlayers: BID_WHIST_TOTAL_PLAYERS,
+    maxPlayers: BID_WHIST_TOTAL_PLAYERS,
+    numTeams: BID_WHIST_TEAM_REQUIREMENTS.numTeams,
+    playersPerTeam: BID_WHIST_TEAM_REQUIREMENTS.playersPerTeam,
+    settingsDefinitions: BID_WHIST_SETTINGS_DEFINITIONS,
+    defaultSettings: DEFAULT_BID_WHIST_SETTINGS,
+};
+
+export interface BidWhistState extends GameState {
+    teams: Record<number, BidWhistTeam>;
+    playOrder: string[]; // Partners sit across from each other
+    currentTurnIndex: number;
+    dealerIndex: number;
+
+    hands: Record<string, Card[]>;
+    kitty: Card[]; // Undealt until the declarer picks it up
+    discards: Card[]; // Declarer's discards - the declaring team's first book
+    bids: Record<string, BidWhistBid | null>; // null once a player passes
+
+    contract: BidWhistContract | null;
+    trumpSuit: Suit | null; // null when playing no-trump
+    ranking: BidWhistRanking | null; // null until declared
+
+    currentTrick: Trick | null;
+    completedTricks: Trick[];
+    phase: BidWhistPhase;
+    round: number;
+    deals: DealInfo[]; // Seed, commitment and hands for every round dealt so far
+    history: string[]; // Action history for debugging
+    settings: BidWhistSettings;
+    winnerTeamId?: number;
+    isTie?: boolean;
+
+    lastTrickWinnerId?: string;
+    lastTrickWinningCard?: Card;
+
+    roundTrickCounts: Record<string, number>;
+    roundTeamScores: Record<number, number>;
+    roundScoreBreakdown: Record<number, BidWhistScoreBreakdown>;
+
+    /** ISO timestamp when the current turn started (for turn timer) */
+    turnStartedAt?: string;
+}
+
+function init(
+    room: Room,
+    customSettings?: Partial<BidWhistSettings>
+): BidWhistState {
+    const players: Record<string, User> = Object.fromEntries(
+        room.users.map((user) => [user.id, user])
+    );
+    const settings: BidWhistSettings = {
+        ...DEFAULT_BID_WHIST_SETTINGS,
+        ...customSettings,
+    };
+    const teams: Record<number, BidWhistTeam> = Object.fromEntries(
+        room.teams?.map((team, index) => [
+            index,
+            { players: team, score: 0 },
+        ]) || []
+    );
+
+    // Partners sit across from each other: alternate the two teams
+    const playOrder: string[] = [];
+    for (let i = 0; i < BID_WHIST_TEAM_REQUIREMENTS.playersPerTeam; i++) {
+        for (let j = 0; j < BID_WHIST_TEAM_REQUIREMENTS.numTeams; j++) {
+            const playerId = teams[j]?.players[i];
+            if (playerId) playOrder.push(playerId);
+        }
+    }
+    if (playOrder.length !== BID_WHIST_TOTAL_PLAYERS) {
+        throw new Error(
+            `Bid Whist requires ${BID_WHIST_TEAM_REQUIREMENTS.numTeams} teams of ${BID_WHIST_TEAM_REQUIREMENTS.playersPerTeam} players.`
+        );
+    }
+
+    // The first dealer is drawn from the round's seed too
+    const { deal, rng } = createDeal(1);
+    const dealerIndex = drawFirstDealer(playOrder.length, rng);
+    const { hands, kitty } = dealBidWhistHands(playOrder, rng);
+
+    return {
+        id: uuidv4(),
+        roomId: room.id,
+        version: 0,
+        type: BID_WHIST_NAME,
+
+        players,
+        leaderId: room.leaderId ?? playOrder[dealerIndex],
+        teams,
+        playOrder,
+        dealerIndex,
+        // Bidding starts left of the dealer
+        currentTurnIndex: (dealerIndex + 1) % playOrder.length,
+
+        hands,
+        kitty,
+        discards: [],
+        bids: {},
+
+        contract: null,
+        trumpSuit: null,
+        ranking: null,
+
+        currentTrick: null,
+        completedTricks: [],
+        phase: "bidding",
+        round: 1,
+        deals: [withDealtHands(deal, hands)],
+        settings,
+        history: [],
+
+        roundTrickCounts: {},
+        roundTeamScores: {},
+        roundScoreBreakdown: {},
+
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+function reducer(state: BidWhistState, action: GameAction): BidWhistState {
+    logHistory(state, action);
+    switch (action.type) {
+        case "REQUEST_UNDO":
+            return requestUndo(
+                state,
+                action.userId,
+                getOpposingPlayers(state.playOrder, state.teams, action.userId)
+            );
+        case "RESPOND_UNDO":
+            return respondToUndo(
+                state,
+                action.userId,
+                action.payload?.approve === true
+            );
+        default:
+            return trackUndo(
+                state,
+                applyAction(state, action),
+                action,
+                UNDOABLE_ACTIONS
+            );
+    }
+}
+
+function applyAction(state: BidWhistState, action: GameAction): BidWhistState {
+    switch (action.type) {
+        case "PLACE_BID":
+            return handlePlaceBid(state, action.userId, action.payload.bid);
+        case "PASS":
+            return handlePass(state, action.userId);
+        case "DISCARD":
+            return handleDiscard(state, action.userId, action.payload.cards);
+        case "DECLARE_TRUMP":
+            return handleDeclareTrump(
+                state,
+                action.userId,
+                action.payload?.trumpSuit,
+                action.payload?.ranking
+            );
+        case "PLAY_CARD":
+            return handlePlayCard(state, action.userId, action.payload.card);
+        case "CONTINUE_AFTER_TRICK_RESULT":
+            return acknowledgeTrickResult(state, action.userId);
+        case "CONTINUE_AFTER_ROUND_SUMMARY": {
+            if (state.phase !== "round-summary") return state;
+            const continueGate = acknowledgeContinue(
+                state.continueGate,
+                action.userId
+            );
+            return continueGate
+                ? { ...state, continueGate }
+                : startNextRound(state);
+        }
+        case "FORCE_CONTINUE":
+            assertCanForceContinue(state, action.userId);
+            if (state.phase === "trick-result") {
+                return continueAfterTrickResult(state);
+            }
+            if (state.phase === "round-summary") {
+                return startNextRound(state);
+            }
+            return state;
+        default:
+            return state;
+    }
+}
+
+/**
+ * Leave the round summary: the deal passes left and a new auction starts.
+ */
+function startNextRound(state: BidWhistState): BidWhistState {
+    const round = state.round + 1;
+    const dealerIndex = (state.dealerIndex + 1) % state.playOrder.length;
+    const { deal, rng } = createDeal(round);
+    const { hands, kitty } = dealBidWhistHands(state.playOrder, rng);
+
+    return {
+        ...state,
+        hands,
+        kitty,
+        discards: [],
+        bids: {},
+        contract: null,
+        trumpSuit: null,
+        ranking: null,
+        currentTrick: null,
+        completedTricks: [],
+        currentTurnIndex: (dealerIndex + 1) % state.playOrder.length,
+        dealerIndex,
+        phase: "bidding",
+        round,
+        continueGate: null,
+        deals: [...state.deals, withDealtHands(deal, hands)],
+        lastTrickWinnerId: undefined,
+        lastTrickWinningCard: undefined,
+        roundTrickCounts: {},
+        roundTeamScores: {},
+        roundScoreBreakdown: {},
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+function getState(state: BidWhistState): Partial<BidWhistState> {
+    const publicState = omitFields(state, [
+        "hands",
+        "kitty",
+        "discards",
+        "undoSnapshot",
+    ]) as Partial<BidWhistState> & {
+        handsCounts?: Record<string, number>;
+        kittyCount?: number;
+        undoPlayerId?: string | null;
+        turnTimer?: { startedAt: number; duration: number; serverTime: number };
+    };
+    publicState.handsCounts = Object.fromEntries(
+        state.playOrder.map((id) => [id, state.hands[id]?.length || 0])
+    );
+    publicState.kittyCount = state.kitty.length;
+    publicState.undoPlayerId = state.undoSnapshot?.playerId ?? null;
+    // Reveal the round's seed once the round is over
+    publicState.deals = getPublicDeals(
+        state.deals,
+        ["round-summary", "finished"].includes(state.phase)
+    );
+
+    // Include turn timer info for client-side sync with latency compensation
+    const turnTimeLimit = state.settings?.turnTimeLimit;
+    if (turnTimeLimit && turnTimeLimit > 0) {
+        const timerState = turnTimerService.getTimerState(state.id);
+        const now = Date.now();
+
+        if (timerState && timerState.startedAt) {
+            publicState.turnTimer = {
+                startedAt: timerState.startedAt,
+                duration: turnTimeLimit * 1000,
+                serverTime: now,
+            };
+        } else if (state.turnStartedAt && shouldTimerBeActive(state)) {
+            const startTime = new Date(state.turnStartedAt).getTime();
+            publicState.turnTimer = {
+                startedAt: startTime,
+                duration: turnTimeLimit * 1000,
+                serverTime: now,
+            };
+        }
+    }
+
+    return publicState;
+}
+
+function getPlayerState(
+    state: BidWhistState,
+    playerId: string
+): { hand: Card[]; discards: Card[]; localOrdering: string[] } {
+    const idx = state.playOrder.indexOf(playerId);
+    const localOrdering = [
+        ...state.playOrder.slice(idx),
+        ...state.playOrder.slice(0, idx),
+    ];
+
+    return {
+        hand: state.hands[playerId] || [],
+        // Only the declarer knows what went into the kitty
+        discards: state.contract?.declarerId === playerId ? state.discards : [],
+        localOrdering,
+    };
+}
+
+export const bidWhistModule: GameModule = {
+    init,
+    reducer,
+    getState,
+    getPlayerState,
+    checkMinimumPlayers,
+    handlePlayerReconnect,
+    handlePlayerDisconnect,
+    getTimedPlayer,
+    getAutoAction,
+    getBotAction,
+    metadata: BID_WHIST_METADATA,
+};
+
+/**
+ * Check that it's this player's turn to bid.
+ */
+function assertCanBid(state: BidWhistState, playerId: string): void {
+    if (state.phase !== "bidding") {
+        throw new Error("Bids can only be placed during the bidding phase.");
+    }
+    if (!state.playOrder.includes(playerId)) {
+        throw new Error("You're not in this game.");
+    }
+    if (currentPlayerId(state) !== playerId) {
+        throw new Error("Not your turn to bid.");
+    }
+    if (state.players[playerId]?.isConnected === false) {
+        throw new Error("You've been disconnected. Please refresh to rejoin.");
+    }
+    if (playerId in state.bids) {
+        throw new Error("You've already bid this hand.");
+    }
+}
+
+/**
+ * Handles a bid in the auction. Each player bids once, starting left of
+ * the dealer, and must beat the bid before them.
+ * @param state Current BidWhistState
+ * @param playerId The player bidding
+ * @param bid The bid
+ * @returns Updated BidWhistState
+ */
+function handlePlaceBid(
+    state: BidWhistState,
+    playerId: string,
+    bid: BidWhistBid
+): BidWhistState {
+    assertCanBid(state, playerId);
+
+    const { minimumBid } = state.settings;
+    if (
+        !bid ||
+        !Number.isInteger(bid.amount) ||
+        bid.amount < minimumBid ||
+        bid.amount > BID_WHIST_MAX_BID
+    ) {
+        throw new Error(
+            `Bid must be between ${minimumBid} and ${BID_WHIST_MAX_BID} books.`
+        );
+    }
+    if (!["uptown", "downtown", "noTrump"].includes(bid.direction)) {
+        throw new Error(`Invalid bid direction: ${bid?.direction}`);
+    }
+    if (!isHigherBid(bid, getHighBid(state.bids)?.bid ?? null)) {
+        throw new Error(
+            "Your bid must beat the high bid (more books, or no-trump for the same books)."
+        );
+    }
+
+    return advanceAuction(state, {
+        ...state.bids,
+        [playerId]: { amount: bid.amount, direction: bid.direction },
+    });
+}
+
+/**
+ * Handles a pass. The dealer can't pass once everyone else has: they're
+ * stuck with the minimum bid.
+ * @param state Current BidWhistState
+ * @param playerId The player passing
+ * @returns Updated BidWhistState
+ */
+function handlePass(state: BidWhistState, playerId: string): BidWhistState {
+    assertCanBid(state, playerId);
+
+    if (
+        state.currentTurnIndex === state.dealerIndex &&
+        !getHighBid(state.bids)
+    ) {
+        throw new Error(
+            `Everyone else passed - the dealer must bid at least ${state.settings.minimumBid}.`
+        );
+    }
+
+    return advanceAuction(state, { ...state.bids, [playerId]: null });
+}
+
+/**
+ * Move the auction to the next bidder, or close it once everyone has
+ * bid (or nobody can beat the top bid). The winning bidder picks up the
+ * kitty and discards.
+ */
+function advanceAuction(
+    state: BidWhistState,
+    bids: Record<string, BidWhistBid | null>
+): BidWhistState {
+    const highBid = getHighBid(bids);
+    const isUnbeatable =
+        highBid?.bid.amount === BID_WHIST_MAX_BID &&
+        highBid.bid.direction === "noTrump";
+    const allBid = state.playOrder.every((id) => id in bids);
+
+    if (!highBid || (!allBid && !isUnbeatable)) {
+        return {
+            ...state,
+            bids,
+            currentTurnIndex: nextPlayerIndex(state),
+            turnStartedAt: new Date().toISOString(),
+        };
+    }
+
+    const declarerId = highBid.playerId;
+    return {
+        ...state,
+        bids,
+        contract: {
+            declarerId,
+            teamId: getPlayerTeamId(state, declarerId)!,
+            bid: highBid.bid,
+        },
+        hands: {
+            ...state.hands,
+            [declarerId]: sortBidWhistHand([
+                ...state.hands[declarerId],
+                ...state.kitty,
+            ]),
+        },
+        kitty: [],
+        phase: "discarding",
+        currentTurnIndex: state.playOrder.indexOf(declarerId),
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * The declarer discards six cards after picking up the kitty. They count
+ * as the declaring team's first book.
+ * @param state Current BidWhistState
+ * @param playerId The declarer
+ * @param cards The cards to discard
+ * @returns Updated BidWhistState
+ */
+function handleDiscard(
+    state: BidWhistState,
+    playerId: string,
+    cards: Card[]
+): BidWhistState {
+    if (state.phase !== "discarding") {
+        throw new Error("Cards can only be discarded after winning the bid.");
+    }
+    if (state.contract?.declarerId !== playerId) {
+        throw new Error("Only the player who won the bid can discard.");
+    }
+    if (state.players[playerId]?.isConnected === false) {
+        throw new Error("You've been disconnected. Please refresh to rejoin.");
+    }
+    if (!Array.isArray(cards) || cards.length !== BID_WHIST_KITTY_SIZE) {
+        throw new Error(`Choose ${BID_WHIST_KITTY_SIZE} cards to discard.`);
+    }
+
+    const hand = state.hands[playerId] || [];
+    const discards = cards.map((card) => {
+        const handCard = hand.find((c) => isSameCard(c, card));
+        if (!handCard) throw new Error("Card not in player's hand.");
+        return handCard;
+    });
+    if (discards.some((card, i) => discards.indexOf(card) !== i)) {
+        throw new Error(
+            `Choose ${BID_WHIST_KITTY_SIZE} different cards to discard.`
+        );
+    }
+
+    return {
+        ...state,
+        hands: {
+            ...state.hands,
+            [playerId]: hand.filter((card) => !discards.includes(card)),
+        },
+        discards,
+        phase: "declaring",
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * The declarer names trump for an uptown or downtown bid, or chooses
+ * uptown or downtown for a no-trump bid, then leads the first trick.
+ * @param state Current BidWhistState
+ * @param playerId The declarer
+ * @param trumpSuit The trump suit (uptown/downtown bids)
+ * @param ranking Uptown or downtown (no-trump bids)
+ * @returns Updated BidWhistState
+ */
+function handleDeclareTrump(
+    state: BidWhistState,
+    playerId: string,
+    trumpSuit: Suit | undefined,
+    ranking: BidWhistRanking | undefined
+): BidWhistState {
+    if (state.phase !== "declaring" || !state.contract) {
+        throw new Error("Trump can only be declared after discarding.");
+    }
+    if (state.contract.declarerId !== playerId) {
+        throw new Error("Only the player who won the bid can declare trump.");
+    }
+    if (state.players[playerId]?.isConnected === false) {
+        throw new Error("You've been disconnected. Please refresh to rejoin.");
+    }
+
+    const { direction } = state.contract.bid;
+    let declared: { trumpSuit: Suit | null; ranking: BidWhistRanking };
+    if (direction === "noTrump") {
+        if (ranking !== "uptown" && ranking !== "downtown") {
+            throw new Error("Choose uptown or downtown for a no-trump hand.");
+        }
+        declared = { trumpSuit: null, ranking };
+    } else {
+        if (!trumpSuit || !STANDARD_SUITS.includes(trumpSuit)) {
+            throw new Error("Choose a trump suit.");
+        }
+        declared = { trumpSuit, ranking: direction };
+    }
+
+    return {
+        ...state,
+        ...declared,
+        phase: "playing",
+        roundTrickCounts: Object.fromEntries(
+            state.playOrder.map((id) => [id, 0])
+        ),
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+function handlePlayCard(
+    state: BidWhistState,
+    playerId: string,
+    card: Card
+): BidWhistState {
+    const next = playTrickCard(state, playerId, card, getTrickRules(state));
+    return isHandOver(next) ? scoreRound(next) : next;
+}
+
+/**
+ * Score the hand once its last trick is played, then show the round
+ * summary - or finish the game once a team reaches the target, falls to
+ * minus the target, or the round limit is played.
+ */
+function scoreRound(state: BidWhistState): BidWhistState {
+    const { teamScores, scoreBreakdown } = calculateBidWhistScores(state);
+    const roundTeamScores: Record<number, number> = Object.fromEntries(
+        Object.entries(scoreBreakdown).map(([teamId, breakdown]) => [
+            Number(teamId),
+            breakdown.roundScore,
+        ])
+    );
+
+    const { winTarget, roundLimit } = state.settings;
+    const teamIds = Object.keys(teamScores).map(Number);
+    const reachedTarget = teamIds.find((id) => teamScores[id] >= winTarget);
+    const fellBelow = teamIds.find((id) => teamScores[id] <= -winTarget);
+
+    let winnerTeamId: number | undefined = undefined;
+    let isTie: boolean | undefined = undefined;
+    if (reachedTarget !== undefined) {
+        winnerTeamId = reachedTarget;
+    } else if (fellBelow !== undefined) {
+        winnerTeamId = teamIds.find((id) => id !== fellBelow);
+    } else if (roundLimit !== null && state.round >= roundLimit) {
+        const highScore = Math.max(...teamIds.map((id) => teamScores[id]));
+        const leaders = teamIds.filter((id) => teamScores[id] === highScore);
+        if (leaders.length === 1) {
+            winnerTeamId = leaders[0];
+        } else {
+            isTie = true;
+        }
+    }
+    const isGameOver = winnerTeamId !== undefined || isTie === true;
+
+    // Note: turnStartedAt is NOT set here - timer starts after the round summary
+    return {
+        ...state,
+        currentTrick: null,
+        phase: isGameOver ? "finished" : "round-summary",
+        continueGate: isGameOver
+            ? null
+            : openContinueGate(
+                  state,
+                  state.playOrder,
+                  ROUND_SUMMARY_CONTINUE_MS
+              ),
+        teams: Object.fromEntries(
+            Object.entries(state.teams).map(([teamId, team]) => [
+                Number(teamId),
+                { ...team, score: teamScores[Number(teamId)] },
+            ])
+        ),
+        winnerTeamId,
+        isTie,
+        lastTrickWinnerId: undefined,
+        lastTrickWinningCard: undefined,
+        roundTeamScores,
+        roundScoreBreakdown: scoreBreakdown,
+    };
+}
+
+function logHistory(state: BidWhistState, action: GameAction): void {
+    state.history.push(
+        `Action: ${action.type}, Player: ${action.userId}, Payload: ${JSON.stringify(action.payload)}`
+    );
+}
+
+/**
+ * Check if the game has minimum players connected to continue.
+ * For Bid Whist, every seated player must be connected to play.
+ */
+function checkMinimumPlayers(state: BidWhistState): boolean {
+    return checkAllPlayersConnected(state, state.playOrder.length);
+}
+
+/**
+ * Turn timer hook: the current player is timed while bidding and
+ * playing; the declarer while discarding and declaring.
+ */
+function getTimedPlayer(state: BidWhistState): string | null {
+    return shouldTimerBeActive(state) ? currentPlayerId(state) : null;
+}
+
+/**
+ * Build the action for the current phase from a bid, discard,
+ * declaration and card choice.
+ */
+function buildPhaseAction(
+    state: BidWhistState,
+    playerId: string,
+    choose: {
+        bid: () => BidWhistBid | null;
+        discard: () => Card[];
+        declaration: () => {
+            trumpSuit: Suit | null;
+            ranking: BidWhistRanking;
+        };
+        card: () => Card | null;
+    }
+): GameAction | null {
+    switch (state.phase) {
+        case "bidding": {
+            const bid = choose.bid();
+            return bid
+                ? { type: "PLACE_BID", userId: playerId, payload: { bid } }
+                : { type: "PASS", userId: playerId, payload: {} };
+        }
+        case "discarding":
+            return {
+                type: "DISCARD",
+                userId: playerId,
+                payload: { cards: choose.discard() },
+            };
+        case "declaring": {
+            const { trumpSuit, ranking } = choose.declaration();
+            return {
+                type: "DECLARE_TRUMP",
+                userId: playerId,
+                payload: trumpSuit ? { trumpSuit } : { ranking },
+            };
+        }
+        case "playing": {
+            const card = choose.card();
+            if (!card) return null;
+            return { type: "PLAY_CARD", userId: playerId, payload: { card } };
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Turn timer hook: bid or pass, discard, declare and play as a hard bot
+ * would.
+ */
+function getAutoAction(
+    state: BidWhistState,
+    playerId: string
+): GameAction | null {
+    return buildPhaseAction(state, playerId, {
+        bid: () => getAutoBid(state, playerId),
+        discard: () => getAutoDiscard(state, playerId),
+        declaration: () => getAutoDeclaration(state, playerId),
+        card: () => getAutoPlayCard(state, playerId),
+    });
+}
+
+/**
+ * Bot hook: bid from a count of the hand's books, then discard, declare
+ * and play strategically.
+ */
+function getBotAction(
+    state: BidWhistState,
+    playerId: string,
+    difficulty: BotDifficulty
+): GameAction | null {
+    return buildPhaseAction(state, playerId, {
+        bid: () => getBotBid(state, playerId, difficulty),
+        discard: () => getBotDiscard(state, playerId, difficulty),
+        declaration: () => getBotDeclaration(state, playerId, difficulty),
+        card: () => getBotCard(state, playerId, difficulty),
+    });
+}
@@ -0,0 +1,32 @@
+// src/games/crazyeights/helpers/autoAction.ts
+
+/**
+ * Auto-action helpers for Crazy Eights.
+ * Used when a player times out and the server needs to act on their behalf.
+ */
+
+import { CrazyEightsState } from "@family-games/shared";
+import { BotPlay, getBotPlay } from "./bot";
+
+/**
+ * Get the auto-play card for a player who timed out.
+ * Plays like a hard bot: keeps eights back and stays in the longest suit.
+ *
+ * @param state - The current game state
+ * @param playerId - The player who timed out
+ * @returns The card (and suit for an eight) to play, or null to draw or pass
+ */
+export function getAutoPlayCard(
+    state: CrazyEightsState,
+    playerId: string
+): BotPlay | null {
+    return getBotPlay(state, playerId, "hard");
+}
+
+/**
+ * Check if the game is in a state where a turn timer should be running.
+ * Timer only runs while cards are being played.
+ */
+export function shouldTimerBeActive(state: CrazyEightsState): boolean {
+    return state.phase === "playing";
+}
@@ -0,0 +1,106 @@
+// src/games/crazyeights/helpers/bot.ts
+
+/**
+ * Bot strategy for Crazy Eights.
+ *
+ * Easy bots play the first card they can and only fall back on an eight
+ * when nothing else goes. Hard bots hold their eights until they're
+ * needed, stay in (or switch to) their longest suit, shed high-scoring
+ * cards first, and save draw-twos and skips for a next player who's
+ * close to going out. An eight always names the suit the bot holds most.
+ */
+
+import {
+    Card,
+    CrazyEightsState,
+    Suit,
+    BotDifficulty,
+    STANDARD_SUITS,
+    getCrazyEightsAction,
+    getCrazyEightsCardPoints,
+    isWildEight,
+} from "@family-games/shared";
+import { getNextIndex, getPlayableCards } from "./card";
+
+/**
+ * A card to play, and the suit named when it's an eight.
+ */
+export interface BotPlay {
+    card: Card;
+    suit?: Suit;
+}
+
+// Cards left in the next player's hand before they're worth attacking
+const ATTACK_HAND_SIZE = 2;
+
+// ============================================================================
+// Card Helpers
+// ============================================================================
+
+function countSuit(hand: Card[], suit: Suit): number {
+    return hand.filter((card) => !isWildEight(card) && card.suit === suit)
+        .length;
+}
+
+/**
+ * The suit to name for an eight: the one the rest of the hand holds
+ * most of, or the suit already in play when only eights are left.
+ */
+function chooseSuit(state: CrazyEightsState, hand: Card[], eight: Card): Suit {
+    const rest = hand.filter((card) => card !== eight);
+    if (rest.every(isWildEight)) return state.currentSuit;
+    return STANDARD_SUITS.reduce((best, suit) =>
+        countSuit(rest, suit) > countSuit(rest, best) ? suit : best
+    );
+}
+
+function toPlay(state: CrazyEightsState, hand: Card[], card: Card): BotPlay {
+    return isWildEight(card)
+        ? { card, suit: chooseSuit(state, hand, card) }
+        : { card };
+}
+
+// ============================================================================
+// Playing
+// ============================================================================
+
+/**
+ * Hard bots rate each card they could play: staying in a long suit and
+ * shedding points help, an action card is worth more against a next
+ * player about to go out, and an eight is kept back.
+ */
+function rateCard(state: CrazyEightsState, hand: Card[], card: Card): number {
+    if (isWildEight(card)) return -100;
+
+    const nextId = state.playOrder[getNextIndex(state, state.currentTurnIndex)];
+    const nextHandSize = state.hands[nextId]?.length ?? 0;
+    const action = getCrazyEightsAction(card, state.settings);
+    const isThreat = nextHandSize <= ATTACK_HAND_SIZE;
+
+    let rating = countSuit(hand, card.suit) * 10;
+    rating += getCrazyEightsCardPoints(card);
+    if (action === "drawTwo" || action === "skip") {
+        rating += isThreat ? 50 : -5;
+    }
+    return rating;
+}
+
+export function getBotPlay(
+    state: CrazyEightsState,
+    playerId: string,
+    difficulty: BotDifficulty
+): BotPlay | null {
+    const hand = state.hands[playerId] || [];
+    const playable = getPlayableCards(state, playerId);
+    if (playable.length === 0) return null;
+
+    if (difficulty === "easy") {
+        const card = playable.find((c) => !isWildEight(c)) ?? playable[0];
+        return toPlay(state, hand, card);
+    }
+
+    const best = playable.reduce((top, card) =>
+        rateCard(state, hand, card) > rateCard(state, hand, top) ? card : top
+    );
+    return toPlay(state, hand, best);
+}
@@ -0,0 +1,182 @@
+/* ------------------------------------------------------------------------
+   Card helpers – no game-state, no I/O
+   --------------------------------------------------------------------- */
+
+import {
+    Card,
+    CrazyEightsState,
+    Rank,
+    Suit,
+    STANDARD_RANK_ORDER,
+    canPlayCrazyEightsCard,
+    isWildEight,
+    dealCrazyEightsRound,
+} from "@family-games/shared";
+import { createRoundRng, shuffle, sortHand } from "../../shared";
+
+type DrawState = Pick<
+    CrazyEightsState,
+    "hands" | "drawPile" | "discardPile" | "reshuffleCount"
+>;
+
+/* ––––––––––––––––––––– CONSTANTS ––––––––––––––––––––– */
+
+// Eights sort to the end of the hand, after every suit
+const WILD = "Wild";
+
+// Hands alternate colors: Spades, Hearts, Clubs, Diamonds, then the eights
+const HAND_SUIT_ORDER: string[] = [
+    Suit.Spades,
+    Suit.Hearts,
+    Suit.Clubs,
+    Suit.Diamonds,
+    WILD,
+];
+
+/* ––––––––––––––––– DEALING –––––––––––––––––––– */
+
+/**
+ * Shuffle a standard 52-card deck, deal the hands and turn up the
+ * starter card. An eight can't start the pile: any turned up first are
+ * buried at the bottom of the draw pile.
+ */
+export function dealCrazyEightsHands(
+    playOrder: string[],
+    rng: () => number
+): { hands: Record<string, Card[]>; drawPile: Card[]; starter: Card } {
+    const { hands, undealt } = dealCrazyEightsRound(playOrder, rng);
+    const starterIndex = undealt.findIndex((card) => !isWildEight(card));
+
+    return {
+        hands: Object.fromEntries(
+            Object.entries(hands).map(([playerId, hand]) => [
+                playerId,
+                sortCrazyEightsHand(hand),
+            ])
+        ),
+        drawPile: [
+            ...undealt.slice(starterIndex + 1),
+            ...undealt.slice(0, starterIndex),
+        ],
+        starter: undealt[starterIndex],
+    };
+}
+
+/**
+ * Sort a hand by suit, then rank (Ace low), with the eights kept together
+ * at the end.
+ */
+export function sortCrazyEightsHand(hand: Card[]): Card[] {
+    return sortHand(hand, HAND_SUIT_ORDER, getCardRankValue, (card) =>
+        isWildEight(card) ? WILD : card.suit
+    );
+}
+
+/**
+ * Take cards off the draw pile. When it runs short, the discards under
+ * the top card are shuffled back in first, so a draw only comes up short
+ * once both piles are spent.
+ */
+export function drawCards(
+    state: DrawState & Pick<CrazyEightsState, "deals">,
+    playerId: string,
+    count: number
+): DrawState {
+    const piles =
+        state.drawPile.length < count && state.discardPile.length > 1
+            ? reshuffleDiscards(state)
+            : state;
+    const drawn = piles.drawPile.slice(0, count);
+
+    return {
+        hands: {
+            ...state.hands,
+            [playerId]: sortCrazyEightsHand([
+                ...(state.hands[playerId] || []),
+                ...drawn,
+            ]),
+        },
+        drawPile: piles.drawPile.slice(drawn.length),
+        discardPile: piles.discardPile,
+        reshuffleCount: piles.reshuffleCount,
+    };
+}
+
+/**
+ * Keep the top discard and shuffle the rest under the draw pile. Each
+ * reshuffle is seeded from the round's deal, so it can be reproduced once
+ * the seed is revealed.
+ */
+function reshuffleDiscards(
+    state: DrawState & Pick<CrazyEightsState, "deals">
+): Pick<CrazyEightsState, "drawPile" | "discardPile" | "reshuffleCount"> {
+    const reshuffleCount = state.reshuffleCount + 1;
+    const rng = createRoundRng(
+        state.deals[state.deals.length - 1],
+        `reshuffle-${reshuffleCount}`
+    );
+
+    return {
+        drawPile: [
+            ...state.drawPile,
+            ...shuffle(state.discardPile.slice(0, -1), rng),
+        ],
+        discardPile: [getTopCard(state)],
+        reshuffleCount,
+    };
+}
+
+/* ––––––––––––––––  SMALL UTILITIES –––––––––––––––––– */
+
+// Ace low, below the 2 (it only scores 1)
+export function getCardRankValue(card: Card): number {
+    return card.rank === Rank.Ace
+        ? -1
+        : STANDARD_RANK_ORDER.indexOf(card.rank as Rank);
+}
+
+export function currentPlayerId(state: CrazyEightsState): string {
+    return state.playOrder[state.currentTurnIndex];
+}
+
+/**
+ * The seat `steps` places on from `index` in the direction of play.
+ */
+export function getNextIndex(
+    state: Pick<CrazyEightsState, "playOrder" | "direction">,
+    index: number,
+    steps: number = 1
+): number {
+    const seatCount = state.playOrder.length;
+    return (
+        (((index + state.direction * steps) % seatCount) + seatCount) %
+        seatCount
+    );
+}
+
+export function getTopCard(state: Pick<CrazyEightsState, "discardPile">): Card {
+    return state.discardPile[state.discardPile.length - 1];
+}
+
+/**
+ * Cards in a player's hand that can go on the discard pile.
+ */
+export function getPlayableCards(
+    state: CrazyEightsState,
+    playerId: string
+): Card[] {
+    const topCard = getTopCard(state);
+    return (state.hands[playerId] || []).filter((card) =>
+        canPlayCrazyEightsCard(card, topCard, state.currentSuit)
+    );
+}
+
+/**
+ * Whether there's anything to draw: the draw pile, or the discards under
+ * the top card that get shuffled back into it.
+ */
+export function canDraw(
+    state: Pick<CrazyEightsState, "drawPile" | "discardPile">
+): boolean {
+    return state.drawPile.length > 0 || state.discardPile.length > 1;
+}
@@ -0,0 +1,73 @@
+import {
+    Card,
+    CrazyEightsScoreBreakdown,
+    CrazyEightsState,
+    getCrazyEightsCardPoints,
+} from "@family-games/shared";
+
+interface ScoreResult {
+    scores: Record<string, number>;
+    scoreBreakdown: Record<string, CrazyEightsScoreBreakdown>;
+    roundWinnerId: string | null; // null when a blocked round is tied
+}
+
+/**
+ * Total points of the cards left in a hand.
+ */
+export function getHandPoints(hand: Card[]): number {
+    return hand.reduce((sum, card) => sum + getCrazyEightsCardPoints(card), 0);
+}
+
+/**
+ * Score the round. The player who went out scores the points left in
+ * everyone else's hands. In a blocked round the lowest hand wins instead
+ * and scores the difference to each other hand; a tie for lowest scores
+ * nothing.
+ * @param state The state at the end of the round
+ * @param winnerId The player who went out, or null if the round is blocked
+ */
+export function calculateCrazyEightsScores(
+    state: CrazyEightsState,
+    winnerId: string | null
+): ScoreResult {
+    const handPoints: Record<string, number> = Object.fromEntries(
+        state.playOrder.map((id) => [id, getHandPoints(state.hands[id] || [])])
+    );
+
+    let roundWinnerId = winnerId;
+    if (!roundWinnerId) {
+        const lowest = Math.min(...Object.values(handPoints));
+        const lowestIds = state.playOrder.filter(
+            (id) => handPoints[id] === lowest
+        );
+        roundWinnerId = lowestIds.length === 1 ? lowestIds[0] : null;
+    }
+
+    const winnerPoints = roundWinnerId ? handPoints[roundWinnerId] : 0;
+    const scores: Record<string, number> = {};
+    const scoreBreakdown: Record<string, CrazyEightsScoreBreakdown> = {};
+
+    for (const playerId of state.playOrder) {
+        const previousScore = state.scores[playerId] || 0;
+        const roundScore =
+            playerId === roundWinnerId
+                ? state.playOrder
+                      .filter((id) => id !== roundWinnerId)
+                      .reduce(
+                          (sum, id) => sum + handPoints[id] - winnerPoints,
+                          0
+                      )
+                : 0;
+
+        scores[playerId] = previousScore + roundScore;
+        scoreBreakdown[playerId] = {
+            previousScore,
+            cardsLeft: (state.hands[playerId] || []).length,
+            handPoints: handPoints[playerId],
+            roundScore,
+            newScore: scores[playerId],
+        };
+    }
+
+    return { scores, scoreBreakdown, roundWinnerId };
+}
@@ -0,0 +1,636 @@
+// src/games/crazyeights/index.ts
+import {
+    Room,
+    User,
+    CrazyEightsSettings,
+    DEFAULT_CRAZY_EIGHTS_SETTINGS,
+    CRAZY_EIGHTS_SETTINGS_DEFINITIONS,
+    CRAZY_EIGHTS_MIN_PLAYERS,
+    CRAZY_EIGHTS_MAX_PLAYERS,
+    CRAZY_EIGHTS_DRAW_TWO_COUNT,
+    CrazyEightsActionEffect,
+    CrazyEightsDirection,
+    CrazyEightsPhase,
+    CrazyEightsScoreBreakdown,
+    Card,
+    Suit,
+    BotDifficulty,
+    DealInfo,
+    STANDARD_SUITS,
+    canPlayCrazyEightsCard,
+    getCrazyEightsAction,
+    isWildEight,
+    drawFirstDealer,
+} from "@family-games/shared";
+import { GameModule, GameState, GameAction } from "../../services/GameManager";
+import { v4 as uuidv4 } from "uuid";
+import {
+    canDraw,
+    currentPlayerId,
+    dealCrazyEightsHands,
+    drawCards,
+    getNextIndex,
+    getPlayableCards,
+    getTopCard,
+} from "./helpers/card";
+import { calculateCrazyEightsScores } from "./helpers/score";
+import { omitFields } from "../../utils/omitFields";
+import {
+    handlePlayerReconnect,
+    handlePlayerDisconnect,
+    checkAllPlayersConnected,
+    createDeal,
+    withDealtHands,
+    getPublicDeals,
+    openContinueGate,
+    acknowledgeContinue,
+    assertCanForceContinue,
+    getOpposingPlayers,
+    trackUndo,
+    requestUndo,
+    respondToUndo,
+    ROUND_SUMMARY_CONTINUE_MS,
+    isSameCard,
+} from "../shared";
+import { turnTimerService } from "../../services/TurnTimerService";
+import { getAutoPlayCard, shouldTimerBeActive } from "./helpers/autoAction";
+import { BotPlay, getBotPlay } from "./helpers/bot";
+
+const CRAZY_EIGHTS_NAME = "crazyeights";
+const CRAZY_EIGHTS_DISPLAY_NAME = "Crazy Eights";
+// Plays a player can ask to take back (REQUEST_UNDO)
+const UNDOABLE_ACTIONS = ["PLAY_CARD"];
+
+const CRAZY_EIGHTS_METADATA = {
+    type: CRAZY_EIGHTS_NAME,
+    displayName: CRAZY_EIGHTS_DISPLAY_NAME,
+    description:
+        "Match the top card by suit or rank and be the first to empty your hand. Eights are wild! Add draw-twos, skips and reverses for 2 to 8 players.",
+    requiresTeams: false,
+    minPlayers: CRAZY_EIGHTS_MIN_PLAYERS,
+    maxPlayers: CRAZY_EIGHTS_MAX_PLAYERS,
+    settingsDefinitions: CRAZY_EIGHTS_SETTINGS_DEFINITIONS,
+    defaultSettings: DEFAULT_CRAZY_EIGHTS_SETTINGS,
+};
+
+export interface CrazyEightsState extends GameState {
+    playOrder: string[]; // Clockwise seat order; left is the next seat
+    currentTurnIndex: number;
+    dealerIndex: number;
+    direction: CrazyEightsDirection;
+
+    hands: Record<string, Card[]>;
+    drawPile: Card[]; // Face down; drawn from the front
+    discardPile: Card[]; // Face up; the last card is on top
+    reshuffleCount: number; // Discards shuffled back into the draw pile this round
+    currentSuit: Suit; // The top card's suit, or the suit named for an eight
+    lastEffect: CrazyEightsActionEffect | null;
+    consecutivePasses: number; // Everyone passing in a row blocks the round
+
+    phase: CrazyEightsPhase;
+    round: number;
+    deals: DealInfo[]; // Seed, commitment and hands for every round dealt so far
+    history: string[]; // Action history for debugging
+    settings: CrazyEightsSettings;
+
+    scores: Record<string, number>;
+    roundWinnerId?: string | null; // Null when a blocked round is tied
+    roundScoreBreakdown: Record<string, CrazyEightsScoreBreakdown>;
+    winnerIds?: string[]; // Highest score once the game is over
+
+    /** ISO timestamp when the current turn started (for turn timer) */
+    turnStartedAt?: string;
+}
+
+function init(
+    room: Room,
+    customSettings?: Partial<CrazyEightsSettings>
+): CrazyEightsState {
+    if (
+        room.users.length < CRAZY_EIGHTS_MIN_PLAYERS ||
+        room.users.length > CRAZY_EIGHTS_MAX_PLAYERS
+    ) {
+        throw new Error(
+            `Crazy Eights needs ${CRAZY_EIGHTS_MIN_PLAYERS} to ${CRAZY_EIGHTS_MAX_PLAYERS} players.`
+        );
+    }
+
+    const players: Record<string, User> = Object.fromEntries(
+        room.users.map((user) => [user.id, user])
+    );
+    const playOrder = room.users.map((user) => user.id);
+    const settings: CrazyEightsSettings = {
+        ...DEFAULT_CRAZY_EIGHTS_SETTINGS,
+        ...customSettings,
+    };
+    // The first dealer is drawn from the round's seed too
+    const { deal, rng } = createDeal(1);
+    const dealerIndex = drawFirstDealer(playOrder.length, rng);
+    const dealt = dealRound(playOrder, dealerIndex, 1, rng);
+
+    return {
+        id: uuidv4(),
+        roomId: room.id,
+        version: 0,
+        type: CRAZY_EIGHTS_NAME,
+
+        players,
+        leaderId: room.leaderId ?? playOrder[0],
+        playOrder,
+        scores: Object.fromEntries(playOrder.map((id) => [id, 0])),
+        settings,
+        history: [],
+        ...dealt,
+        deals: [withDealtHands(deal, dealt.hands)],
+    };
+}
+
+/**
+ * Deal a round: the hands, the starter card and the draw pile. The
+ * player to the dealer's left goes first and play runs clockwise.
+ */
+function dealRound(
+    playOrder: string[],
+    dealerIndex: number,
+    round: number,
+    rng: () => number
+): Pick<
+    CrazyEightsState,
+    | "dealerIndex"
+    | "currentTurnIndex"
+    | "direction"
+    | "hands"
+    | "drawPile"
+    | "discardPile"
+    | "reshuffleCount"
+    | "currentSuit"
+    | "lastEffect"
+    | "consecutivePasses"
+    | "phase"
+    | "round"
+    | "roundWinnerId"
+    | "roundScoreBreakdown"
+    | "turnStartedAt"
+> {
+    const { hands, drawPile, starter } = dealCrazyEightsHands(playOrder, rng);
+
+    return {
+        dealerIndex,
+        currentTurnIndex: (dealerIndex + 1) % playOrder.length,
+        direction: 1,
+        hands,
+        drawPile,
+        discardPile: [starter],
+        reshuffleCount: 0,
+        currentSuit: starter.suit,
+        lastEffect: null,
+        consecutivePasses: 0,
+        phase: "playing",
+        round,
+        roundWinnerId: undefined,
+        roundScoreBreakdown: {},
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+function reducer(
+    state: CrazyEightsState,
+    action: GameAction
+): CrazyEightsState {
+    logHistory(state, action);
+    switch (action.type) {
+        case "REQUEST_UNDO":
+            return requestUndo(
+                state,
+                action.userId,
+                getOpposingPlayers(state.playOrder, undefined, action.userId)
+            );
+        case "RESPOND_UNDO":
+            return respondToUndo(
+                state,
+                action.userId,
+                action.payload?.approve === true
+            );
+        default:
+            return trackUndo(
+                state,
+                applyAction(state, action),
+                action,
+                UNDOABLE_ACTIONS
+            );
+    }
+}
+
+function applyAction(
+    state: CrazyEightsState,
+    action: GameAction
+): CrazyEightsState {
+    switch (action.type) {
+        case "PLAY_CARD":
+            return handlePlayCard(
+                state,
+                action.userId,
+                action.payload.card,
+                action.payload.suit
+            );
+        case "DRAW_CARD":
+            return handleDrawCard(state, action.userId);
+        case "PASS":
+            return handlePass(state, action.userId);
+        case "CONTINUE_AFTER_ROUND_SUMMARY": {
+            if (state.phase !== "round-summary") return state;
+            const continueGate = acknowledgeContinue(
+                state.continueGate,
+                action.userId
+            );
+            return continueGate
+                ? { ...state, continueGate }
+                : startNextRound(state);
+        }
+        case "FORCE_CONTINUE":
+            assertCanForceContinue(state, action.userId);
+            return state.phase === "round-summary"
+                ? startNextRound(state)
+                : state;
+        default:
+            return state;
+    }
+}
+
+/**
+ * Leave the round summary: the deal passes to the left.
+ */
+function startNextRound(state: CrazyEightsState): CrazyEightsState {
+    const round = state.round + 1;
+    const dealerIndex = (state.dealerIndex + 1) % state.playOrder.length;
+    const { deal, rng } = createDeal(round);
+    const dealt = dealRound(state.playOrder, dealerIndex, round, rng);
+
+    return {
+        ...state,
+        ...dealt,
+        continueGate: null,
+        deals: [...state.deals, withDealtHands(deal, dealt.hands)],
+    };
+}
+
+function getState(state: CrazyEightsState): Partial<CrazyEightsState> {
+    const publicState = omitFields(state, [
+        "hands",
+        "drawPile",
+        "discardPile",
+        "undoSnapshot",
+    ]) as Partial<CrazyEightsState> & {
+        handsCounts?: Record<string, number>;
+        drawPileCount?: number;
+        discardCount?: number;
+        topCard?: Card;
+        undoPlayerId?: string | null;
+        turnTimer?: { startedAt: number; duration: number; serverTime: number };
+    };
+    publicState.handsCounts = Object.fromEntries(
+        state.playOrder.map((id) => [id, state.hands[id]?.length || 0])
+    );
+    publicState.drawPileCount = state.drawPile.length;
+    publicState.discardCount = state.discardPile.length;
+    publicState.topCard = getTopCard(state);
+    publicState.undoPlayerId = state.undoSnapshot?.playerId ?? null;
+    // Reveal the round's seed once the round is over
+    publicState.deals = getPublicDeals(
+        state.deals,
+        ["round-summary", "finished"].includes(state.phase)
+    );
+
+    // Include turn timer info for client-side sync with latency compensation
+    const turnTimeLimit = state.settings?.turnTimeLimit;
+    if (turnTimeLimit && turnTimeLimit > 0) {
+        const timerState = turnTimerService.getTimerState(state.id);
+        const now = Date.now();
+
+        if (timerState && timerState.startedAt) {
+            publicState.turnTimer = {
+                startedAt: timerState.startedAt,
+                duration: turnTimeLimit * 1000,
+                serverTime: now,
+            };
+        } else if (state.turnStartedAt && shouldTimerBeActive(state)) {
+            const startTime = new Date(state.turnStartedAt).getTime();
+            publicState.turnTimer = {
+                startedAt: startTime,
+                duration: turnTimeLimit * 1000,
+                serverTime: now,
+            };
+        }
+    }
+
+    return publicState;
+}
+
+function getPlayerState(
+    state: CrazyEightsState,
+    playerId: string
+): { hand: Card[]; localOrdering: string[] } {
+    const idx = state.playOrder.indexOf(playerId);
+    const localOrdering = [
+        ...state.playOrder.slice(idx),
+        ...state.playOrder.slice(0, idx),
+    ];
+
+    return {
+        hand: state.hands[playerId] || [],
+        localOrdering,
+    };
+}
+
+export const crazyEightsModule: GameModule = {
+    init,
+    reducer,
+    getState,
+    getPlayerState,
+    checkMinimumPlayers,
+    handlePlayerReconnect,
+    handlePlayerDisconnect,
+    getTimedPlayer,
+    getAutoAction,
+    getBotAction,
+    metadata: CRAZY_EIGHTS_METADATA,
+};
+
+/**
+ * Common checks before a player acts on their turn.
+ */
+function assertCanAct(state: CrazyEightsState, playerId: string): void {
+    if (state.phase !== "playing") {
+        throw new Error("Cards can only be played during the playing phase.");
+    }
+    if (currentPlayerId(state) !== playerId) {
+        throw new Error("It's not your turn.");
+    }
+    if (state.players[playerId]?.isConnected === false) {
+        throw new Error("You've been disconnected. Please refresh to rejoin.");
+    }
+}
+
+/**
+ * Play a card onto the discard pile. An eight names the suit to follow;
+ * an action card hits the next player. Emptying your hand ends the round.
+ * @param state Current CrazyEightsState
+ * @param playerId The player playing
+ * @param card The card to play
+ * @param suit The suit named for an eight
+ * @returns Updated CrazyEightsState
+ */
+function handlePlayCard(
+    state: CrazyEightsState,
+    playerId: string,
+    card: Card,
+    suit?: Suit
+): CrazyEightsState {
+    assertCanAct(state, playerId);
+
+    const hand = state.hands[playerId] || [];
+    const handCard = hand.find((c) => isSameCard(c, card));
+    if (!handCard) {
+        throw new Error("Card not in player's hand.");
+    }
+    if (
+        !canPlayCrazyEightsCard(handCard, getTopCard(state), state.currentSuit)
+    ) {
+        throw new Error(
+            "Match the suit or rank of the top card, or play an eight."
+        );
+    }
+    const isEight = isWildEight(handCard);
+    if (isEight && (!suit || !STANDARD_SUITS.includes(suit))) {
+        throw new Error("Name a suit for your eight.");
+    }
+
+    const played: CrazyEightsState = {
+        ...state,
+        hands: {
+            ...state.hands,
+            [playerId]: hand.filter((c) => c !== handCard),
+        },
+        discardPile: [...state.discardPile, handCard],
+        currentSuit: isEight && suit ? suit : handCard.suit,
+        lastEffect: null,
+        consecutivePasses: 0,
+        turnStartedAt: new Date().toISOString(),
+    };
+
+    if (played.hands[playerId].length === 0) {
+        return scoreRound(played, playerId);
+    }
+
+    const action = isEight
+        ? null
+        : getCrazyEightsAction(handCard, state.settings);
+    const nextIndex = getNextIndex(played, state.currentTurnIndex);
+    const nextId = played.playOrder[nextIndex];
+
+    switch (action) {
+        case "drawTwo": {
+            // The next player draws two and misses their turn
+            const drawn = drawCards(
+                played,
+                nextId,
+                CRAZY_EIGHTS_DRAW_TWO_COUNT
+            );
+            return {
+                ...played,
+                ...drawn,
+                currentTurnIndex: getNextIndex(played, nextIndex),
+                lastEffect: { type: action, playerId, targetId: nextId },
+            };
+        }
+        case "skip":
+            return {
+                ...played,
+                currentTurnIndex: getNextIndex(played, nextIndex),
+                lastEffect: { type: action, playerId, targetId: nextId },
+            };
+        case "reverse": {
+            // Heads-up, a reverse comes straight back round: a skip
+            const reversed: CrazyEightsState = {
+                ...played,
+                direction: -state.direction as CrazyEightsDirection,
+            };
+            const isHeadsUp = state.playOrder.length === 2;
+            return {
+                ...reversed,
+                currentTurnIndex: isHeadsUp
+                    ? state.currentTurnIndex
+                    : getNextIndex(reversed, state.currentTurnIndex),
+                lastEffect: {
+                    type: action,
+                    playerId,
+                    targetId: isHeadsUp ? nextId : undefined,
+                },
+            };
+        }
+        default:
+            return { ...played, currentTurnIndex: nextIndex };
+    }
+}
+
+/**
+ * Draw a card when nothing in hand can be played. The turn stays with
+ * the player so they can play it or draw again.
+ */
+function handleDrawCard(
+    state: CrazyEightsState,
+    playerId: string
+): CrazyEightsState {
+    assertCanAct(state, playerId);
+
+    if (getPlayableCards(state, playerId).length > 0) {
+        throw new Error("You can't draw while you have a card to play.");
+    }
+    if (!canDraw(state)) {
+        throw new Error("There are no cards left to draw.");
+    }
+
+    return {
+        ...state,
+        ...drawCards(state, playerId, 1),
+        lastEffect: null,
+        turnStartedAt: new Date().toISOString(), // Timer restarts after each draw
+    };
+}
+
+/**
+ * Pass once nothing can be played and there's nothing left to draw - the
+ * draw pile is empty and every discard but the top card is in hand. If
+ * everyone passes in a row the round is blocked.
+ */
+function handlePass(
+    state: CrazyEightsState,
+    playerId: string
+): CrazyEightsState {
+    assertCanAct(state, playerId);
+
+    if (getPlayableCards(state, playerId).length > 0) {
+        throw new Error("You can't pass while you have a card to play.");
+    }
+    if (canDraw(state)) {
+        throw new Error("You must draw before passing.");
+    }
+
+    const consecutivePasses = state.consecutivePasses + 1;
+    if (consecutivePasses >= state.playOrder.length) {
+        return scoreRound({ ...state, consecutivePasses }, null);
+    }
+
+    return {
+        ...state,
+        currentTurnIndex: getNextIndex(state, state.currentTurnIndex),
+        consecutivePasses,
+        lastEffect: null,
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Score the round once a player goes out (or everyone is blocked), then
+ * show the round summary - or finish the game once someone reaches the
+ * win target (or the round limit is played). Highest score wins.
+ */
+function scoreRound(
+    state: CrazyEightsState,
+    winnerId: string | null
+): CrazyEightsState {
+    const { scores, scoreBreakdown, roundWinnerId } =
+        calculateCrazyEightsScores(state, winnerId);
+
+    const { winTarget, roundLimit } = state.settings;
+    const isGameOver =
+        Object.values(scores).some((score) => score >= winTarget) ||
+        (roundLimit !== null && state.round >= roundLimit);
+    const highestScore = Math.max(...Object.values(scores));
+
+    // Note: turnStartedAt is NOT set here - timer starts after the round summary
+    return {
+        ...state,
+        phase: isGameOver ? "finished" : "round-summary",
+        continueGate: isGameOver
+            ? null
+            : openContinueGate(
+                  state,
+                  state.playOrder,
+                  ROUND_SUMMARY_CONTINUE_MS
+              ),
+        scores,
+        roundWinnerId,
+        roundScoreBreakdown: scoreBreakdown,
+        winnerIds: isGameOver
+            ? state.playOrder.filter((id) => scores[id] === highestScore)
+            : undefined,
+    };
+}
+
+function logHistory(state: CrazyEightsState, action: GameAction): void {
+    state.history.push(
+        `Action: ${action.type}, Player: ${action.userId}, Payload: ${JSON.stringify(action.payload)}`
+    );
+}
+
+/**
+ * Check if the game has minimum players connected to continue.
+ * For Crazy Eights, every seated player must be connected to play.
+ */
+function checkMinimumPlayers(state: CrazyEightsState): boolean {
+    return checkAllPlayersConnected(state, state.playOrder.length);
+}
+
+/**
+ * Turn timer hook: the current player is timed while cards are being played.
+ */
+function getTimedPlayer(state: CrazyEightsState): string | null {
+    return shouldTimerBeActive(state) ? currentPlayerId(state) : null;
+}
+
+/**
+ * Play the chosen card, otherwise draw - or pass once there's nothing
+ * left to draw. Drawing keeps the turn, so this is called again after
+ * each draw.
+ */
+function buildTurnAction(
+    state: CrazyEightsState,
+    playerId: string,
+    play: BotPlay | null
+): GameAction | null {
+    if (state.phase !== "playing") return null;
+
+    if (play) {
+        return { type: "PLAY_CARD", userId: playerId, payload: play };
+    }
+    if (canDraw(state)) {
+        return { type: "DRAW_CARD", userId: playerId, payload: {} };
+    }
+    return { type: "PASS", userId: playerId, payload: {} };
+}
+
+/**
+ * Turn timer hook: play like a hard bot, otherwise draw or pass.
+ */
+function getAutoAction(
+    state: CrazyEightsState,
+    playerId: string
+): GameAction | null {
+    return buildTurnAction(state, playerId, getAutoPlayCard(state, playerId));
+}
+
+/**
+ * Bot hook: play the bot's chosen card, otherwise draw or pass.
+ */
+function getBotAction(
+    state: CrazyEightsState,
+    playerId: string,
+    difficulty: BotDifficulty
+): GameAction | null {
+    return buildTurnAction(
+        state,
+        playerId,
+        getBotPlay(state, playerId, difficulty)
+    );
+}
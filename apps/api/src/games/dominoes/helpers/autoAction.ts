@@ -0,0 +1,48 @@
+// src/games/dominoes/helpers/autoAction.ts
+
+/**
+ * Auto-action helpers for Dominoes.
+ * Used when a player times out and the server needs to play on their behalf.
+ */
+
+import { BoardSide, DominoesState, Tile } from "@family-games/shared";
+import { BOARD_SIDES, canPlaceTile } from "./board";
+import { getTilePipCount } from "./score";
+
+/**
+ * Get the auto-play tile for a player who timed out.
+ * Plays the heaviest legal tile to shed as many pips as possible.
+ *
+ * @param state - The current game state
+ * @param playerId - The player who timed out
+ * @returns The tile and side to play, or null if no legal tile
+ */
+export function getAutoPlayTile(
+    state: DominoesState,
+    playerId: string
+): { tile: Tile; side: BoardSide } | null {
+    const hand = state.hands[playerId] || [];
+    let best: { tile: Tile; side: BoardSide } | null = null;
+
+    for (const tile of hand) {
+        if (best && getTilePipCount(tile) <= getTilePipCount(best.tile)) {
+            continue;
+        }
+        for (const side of BOARD_SIDES) {
+            if (canPlaceTile(tile, state.board, side)) {
+                best = { tile, side };
+                break;
+            }
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Check if the game is in a state where a turn timer should be running.
+ * Timer only runs while tiles are being played.
+ */
+export function shouldTimerBeActive(state: DominoesState): boolean {
+    return state.phase === "playing";
+}
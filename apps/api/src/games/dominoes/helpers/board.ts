@@ -1,6 +1,7 @@
 // src/games/dominoes/helpers/board.ts
 
-import { Tile, BoardEnd, BoardState } from "@family-games/shared";
+import { Tile, BoardEnd, BoardSide, BoardState } from "@family-games/shared";
+import { isDouble } from "./tile";
 
 // Re-export BoardState for convenience
 export type { BoardState };
@@ -16,20 +17,45 @@ export function initializeBoard(): BoardState {
     };
 }
 
+/**
+ * Every side a tile can be attached to, main line first
+ */
+export const BOARD_SIDES: BoardSide[] = ["left", "right", "up", "down"];
+
+/**
+ * The open end on one side of the board (up/down stay null until the
+ * spinner has tiles on both its left and right)
+ */
+export function getBoardEnd(
+    board: BoardState,
+    side: BoardSide
+): BoardEnd | null {
+    switch (side) {
+        case "left":
+            return board.leftEnd;
+        case "right":
+            return board.rightEnd;
+        case "up":
+            return board.upEnd ?? null;
+        case "down":
+            return board.downEnd ?? null;
+    }
+}
+
 /**
  * Check if a tile can be placed on the board at the specified side
  */
 export function canPlaceTile(
     tile: Tile,
     board: BoardState,
-    side: "left" | "right"
+    side: BoardSide
 ): boolean {
     // If board is empty, any tile can be placed
     if (board.tiles.length === 0) {
         return true;
     }
 
-    const end = side === "left" ? board.leftEnd : board.rightEnd;
+    const end = getBoardEnd(board, side);
     if (!end) return false;
 
     // Tile can be placed if either of its values matches the end value
@@ -37,13 +63,11 @@ export function canPlaceTile(
 }
 
 /**
- * Check if a tile from a hand can be played on either end of the board
+ * Check if a tile from a hand can be played on any end of the board
  */
 export function canPlayTile(tile: Tile, board: BoardState): boolean {
     if (board.tiles.length === 0) return true;
-    return (
-        canPlaceTile(tile, board, "left") || canPlaceTile(tile, board, "right")
-    );
+    return BOARD_SIDES.some((side) => canPlaceTile(tile, board, side));
 }
 
 /**
@@ -56,23 +80,30 @@ export function hasLegalMove(hand: Tile[], board: BoardState): boolean {
 /**
  * Place a tile on the board at the specified side
  * Returns the updated board state
+ *
+ * With `useSpinner` (All Fives), the first double played becomes the
+ * spinner; its up and down sides open once both its left and right are covered.
  */
 export function placeTileOnBoard(
     tile: Tile,
     board: BoardState,
-    side: "left" | "right"
+    side: BoardSide,
+    useSpinner: boolean = false
 ): BoardState {
     // If board is empty, place the first tile
     if (board.tiles.length === 0) {
-        return {
+        const firstBoard: BoardState = {
             tiles: [tile],
-            leftEnd: { value: tile.left, tileId: tile.id },
-            rightEnd: { value: tile.right, tileId: tile.id },
+            leftEnd: toEnd(tile.left, tile),
+            rightEnd: toEnd(tile.right, tile),
         };
+        return useSpinner && isDouble(tile)
+            ? { ...firstBoard, spinner: toEnd(tile.left, tile) }
+            : firstBoard;
     }
 
     // Determine which value of the tile should connect to the board
-    const end = side === "left" ? board.leftEnd : board.rightEnd;
+    const end = getBoardEnd(board, side);
     if (!end) {
         throw new Error("Invalid board state");
     }
@@ -95,20 +126,65 @@ export function placeTileOnBoard(
         throw new Error("Tile does not match board end");
     }
 
+    const newEnd = toEnd(newEndValue, tile);
+
+    // Spinner arms grow outward from the spinner
+    if (side === "up") {
+        return {
+            ...board,
+            upTiles: [...(board.upTiles ?? []), orientedTile],
+            upEnd: newEnd,
+        };
+    }
+    if (side === "down") {
+        return {
+            ...board,
+            downTiles: [...(board.downTiles ?? []), orientedTile],
+            downEnd: newEnd,
+        };
+    }
+
     // Update board state
     const newTiles =
         side === "left"
             ? [orientedTile, ...board.tiles]
             : [...board.tiles, orientedTile];
 
-    const newEnd: BoardEnd = {
-        value: newEndValue,
-        tileId: tile.id,
-    };
-
-    return {
+    const newBoard: BoardState = {
+        ...board,
         tiles: newTiles,
         leftEnd: side === "left" ? newEnd : board.leftEnd,
         rightEnd: side === "right" ? newEnd : board.rightEnd,
     };
+    if (useSpinner && !board.spinner && isDouble(tile)) {
+        newBoard.spinner = newEnd;
+    }
+    return openSpinner(newBoard);
+}
+
+function toEnd(value: number, tile: Tile): BoardEnd {
+    return { value, tileId: tile.id, isDouble: isDouble(tile) };
+}
+
+/**
+ * Open the spinner's up and down sides once it is no longer at either end
+ */
+function openSpinner(board: BoardState): BoardState {
+    const { spinner } = board;
+    if (
+        !spinner ||
+        board.upEnd ||
+        board.leftEnd?.tileId === spinner.tileId ||
+        board.rightEnd?.tileId === spinner.tileId
+    ) {
+        return board;
+    }
+
+    return {
+        ...board,
+        upTiles: [],
+        downTiles: [],
+        upEnd: spinner,
+        downEnd: spinner,
+    };
 }
@@ -0,0 +1,140 @@
+// src/games/dominoes/helpers/bot.ts
+
+/**
+ * Bot strategy for Dominoes.
+ *
+ * Easy bots play their heaviest legal tile.
+ * Hard bots also try to block: they favour moves that leave board ends
+ * their opponents are unlikely to match, while keeping their own hand playable.
+ * In All Fives they also go after points on the open ends.
+ */
+
+import {
+    DominoesState,
+    Tile,
+    BotDifficulty,
+    BoardSide,
+    buildDominoSet,
+} from "@family-games/shared";
+import {
+    BOARD_SIDES,
+    canPlaceTile,
+    getBoardEnd,
+    placeTileOnBoard,
+} from "./board";
+import { getEndsPoints, getEndsSum, getTilePipCount } from "./score";
+import { isDouble } from "./tile";
+import { getAutoPlayTile } from "./autoAction";
+
+interface BotMove {
+    tile: Tile;
+    side: BoardSide;
+}
+
+// Weights for scoring a move (hard bots)
+const PIP_WEIGHT = 1;
+const DOUBLE_BONUS = 2; // Doubles only match one number, so shed them early
+const OWN_FOLLOW_UP_WEIGHT = 1.5;
+const OPPONENT_OPTION_WEIGHT = 1;
+const ENDS_POINTS_WEIGHT = 1; // All Fives
+
+function matchesEnd(tile: Tile, value: number): boolean {
+    return tile.left === value || tile.right === value;
+}
+
+/**
+ * Every legal move for a hand (only one side on an empty board).
+ */
+function getLegalMoves(state: DominoesState, hand: Tile[]): BotMove[] {
+    const { board } = state;
+    const sides: BoardSide[] =
+        board.tiles.length === 0 ? ["left"] : BOARD_SIDES;
+
+    return hand.flatMap((tile) =>
+        sides
+            .filter((side) => canPlaceTile(tile, board, side))
+            .map((side) => ({ tile, side }))
+    );
+}
+
+/**
+ * Tiles the bot can't see: not in its hand and not on the board.
+ * (Opponents' hands and the boneyard.)
+ */
+function getUnseenTiles(state: DominoesState, hand: Tile[]): Tile[] {
+    const known = new Set([
+        ...hand.map((t) => t.id),
+        ...state.board.tiles.map((t) => t.id),
+        ...(state.board.upTiles ?? []).map((t) => t.id),
+        ...(state.board.downTiles ?? []).map((t) => t.id),
+    ]);
+    return buildDominoSet(state.settings.setSize).filter(
+        (tile) => !known.has(tile.id)
+    );
+}
+
+/**
+ * Score a move: heavy tiles are good to shed, open ends the bot can
+ * follow up on are good, open ends opponents can match are bad.
+ */
+function scoreMove(
+    state: DominoesState,
+    move: BotMove,
+    hand: Tile[],
+    unseen: Tile[]
+): number {
+    const isAllFives = state.settings.scoringMode === "allFives";
+    const board = placeTileOnBoard(
+        move.tile,
+        state.board,
+        move.side,
+        isAllFives
+    );
+    const ends = BOARD_SIDES.map((side) => getBoardEnd(board, side))
+        .filter((end) => end !== null)
+        .map((end) => end.value);
+    const canFollow = (tile: Tile) => ends.some((end) => matchesEnd(tile, end));
+
+    const remainingHand = hand.filter((t) => t.id !== move.tile.id);
+    const ownOptions = remainingHand.filter(canFollow).length;
+    const opponentOptions = unseen.filter(canFollow).length;
+
+    return (
+        getTilePipCount(move.tile) * PIP_WEIGHT +
+        (isDouble(move.tile) ? DOUBLE_BONUS : 0) +
+        ownOptions * OWN_FOLLOW_UP_WEIGHT -
+        opponentOptions * OPPONENT_OPTION_WEIGHT +
+        (isAllFives ? getEndsPoints(getEndsSum(board)) * ENDS_POINTS_WEIGHT : 0)
+    );
+}
+
+/**
+ * Choose a tile (and side) for a bot to play.
+ *
+ * @returns The move to make, or null if the bot has no legal tile
+ */
+export function getBotMove(
+    state: DominoesState,
+    playerId: string,
+    difficulty: BotDifficulty
+): BotMove | null {
+    if (difficulty === "easy") {
+        return getAutoPlayTile(state, playerId);
+    }
+
+    const hand = state.hands[playerId] || [];
+    const moves = getLegalMoves(state, hand);
+    if (moves.length === 0) return null;
+
+    const unseen = getUnseenTiles(state, hand);
+    let best = moves[0];
+    let bestScore = -Infinity;
+    for (const move of moves) {
+        const score = scoreMove(state, move, hand, unseen);
+        if (score > bestScore) {
+            best = move;
+            bestScore = score;
+        }
+    }
+    return best;
+}
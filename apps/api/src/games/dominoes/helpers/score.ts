@@ -1,6 +1,6 @@
 // src/games/dominoes/helpers/score.ts
 
-import { Tile } from "@family-games/shared";
+import { BoardEnd, BoardState, DominoesTeam, Tile } from "@family-games/shared";
 
 /**
  * Calculate the pip count (sum of dots) on a tile
@@ -16,6 +16,37 @@ export function getHandPipCount(hand: Tile[]): number {
     return hand.reduce((sum, tile) => sum + getTilePipCount(tile), 0);
 }
 
+/**
+ * All Fives: sum of the board's open ends. A double at an end counts both
+ * halves, a lone first tile counts all its pips, and the spinner's up and
+ * down sides only count once a tile has been played on them.
+ */
+export function getEndsSum(board: BoardState): number {
+    if (board.tiles.length === 0) return 0;
+    if (board.tiles.length === 1) return getTilePipCount(board.tiles[0]);
+
+    const spinnerId = board.spinner?.tileId;
+    const armEnds = [board.upEnd, board.downEnd].filter(
+        (end) => end && end.tileId !== spinnerId
+    );
+    return [board.leftEnd, board.rightEnd, ...armEnds].reduce(
+        (sum, end) => sum + getEndValue(end),
+        0
+    );
+}
+
+function getEndValue(end: BoardEnd | null | undefined): number {
+    if (!end) return 0;
+    return end.isDouble ? end.value * 2 : end.value;
+}
+
+/**
+ * All Fives: points for a play, the ends sum when it's a multiple of five
+ */
+export function getEndsPoints(endsSum: number): number {
+    return endsSum > 0 && endsSum % 5 === 0 ? endsSum : 0;
+}
+
 export interface RoundScoreResult {
     scores: Record<string, number>;
     pipCounts: Record<string, number>;
@@ -101,6 +132,105 @@ export function calculateRoundScores(
     };
 }
 
+export interface TeamRoundScoreResult {
+    teams: Record<number, DominoesTeam>;
+    pipCounts: Record<string, number>;
+    teamPipCounts: Record<number, number>;
+    roundWinningTeam: number | null;
+    isTie: boolean;
+}
+
+/**
+ * Find which team a player belongs to
+ */
+export function getPlayerTeamId(
+    teams: Record<number, DominoesTeam>,
+    playerId: string
+): number | null {
+    const entry = Object.entries(teams).find(([, team]) =>
+        team.players.includes(playerId)
+    );
+    return entry ? Number(entry[0]) : null;
+}
+
+/**
+ * Calculate team scores when a round ends (2v2 partner play)
+ * Pips are pooled by team: when a player dominoes, their team scores the
+ * opposing team's remaining pips (the partner's leftover tiles don't count)
+ *
+ * Blocked game: the team with the lowest pooled pip count scores the
+ * difference. If both teams tie, no one scores (Caribbean rule).
+ */
+export function calculateTeamRoundScores(
+    hands: Record<string, Tile[]>,
+    teams: Record<number, DominoesTeam>,
+    winnerId: string | null
+): TeamRoundScoreResult {
+    const pipCounts: Record<string, number> = {};
+    for (const [playerId, hand] of Object.entries(hands)) {
+        pipCounts[playerId] = getHandPipCount(hand);
+    }
+
+    const teamPipCounts: Record<number, number> = {};
+    for (const [teamId, team] of Object.entries(teams)) {
+        teamPipCounts[Number(teamId)] = team.players.reduce(
+            (sum, playerId) => sum + (pipCounts[playerId] || 0),
+            0
+        );
+    }
+
+    const awardPoints = (
+        winningTeam: number,
+        points: number
+    ): TeamRoundScoreResult => ({
+        teams: {
+            ...teams,
+            [winningTeam]: {
+                ...teams[winningTeam],
+                score: teams[winningTeam].score + points,
+            },
+        },
+        pipCounts,
+        teamPipCounts,
+        roundWinningTeam: winningTeam,
+        isTie: false,
+    });
+
+    // A player went out - their team takes the opponents' pooled pips
+    const dominoTeam =
+        winnerId && hands[winnerId].length === 0
+            ? getPlayerTeamId(teams, winnerId)
+            : null;
+    if (dominoTeam !== null) {
+        const points = Object.entries(teamPipCounts)
+            .filter(([id]) => Number(id) !== dominoTeam)
+            .reduce((sum, [, pips]) => sum + pips, 0);
+        return awardPoints(dominoTeam, points);
+    }
+
+    // Game is blocked - lowest pooled pip count wins
+    const lowestPipCount = Math.min(...Object.values(teamPipCounts));
+    const teamsWithLowestPips = Object.entries(teamPipCounts)
+        .filter(([, pips]) => pips === lowestPipCount)
+        .map(([teamId]) => Number(teamId));
+
+    if (teamsWithLowestPips.length > 1) {
+        return {
+            teams,
+            pipCounts,
+            teamPipCounts,
+            roundWinningTeam: null,
+            isTie: true,
+        };
+    }
+
+    const blockWinningTeam = teamsWithLowestPips[0];
+    const points = Object.entries(teamPipCounts)
+        .filter(([id]) => Number(id) !== blockWinningTeam)
+        .reduce((sum, [, pips]) => sum + (pips - lowestPipCount), 0);
+    return awardPoints(blockWinningTeam, points);
+}
+
 /**
  * Check if any player has reached the winning score
  */
@@ -1,84 +1,49 @@
 // src/games/dominoes/helpers/tile.ts
 
-import { Tile } from "@family-games/shared";
-import { GamePlayers } from "../../../services/GameManager";
-import { shuffle } from "../../shared";
+import {
+    Tile,
+    DominoesSettings,
+    TileDeal,
+    dealDominoesRound,
+    getDominoesHandSize,
+} from "@family-games/shared";
 
 /**
- * Generate a standard double-six domino set (28 tiles)
- * Tiles range from [0,0] to [6,6]
+ * Shuffle the set and deal every seat its starting hand for the table
+ * size and variant (see dealDominoesRound); anything left over goes to
+ * the boneyard. Hands are sorted.
  */
-export function buildDominoSet(): Tile[] {
-    const tiles: Tile[] = [];
-    let idCounter = 0;
-
-    for (let left = 0; left <= 6; left++) {
-        for (let right = left; right <= 6; right++) {
-            tiles.push({
-                left,
-                right,
-                id: `tile-${idCounter++}`,
-            });
-        }
-    }
-
-    return tiles;
-}
-
-/**
- * Shuffle tiles using shared Fisher-Yates implementation.
- */
-export function shuffleTiles(
-    tiles: Tile[],
-    rng: () => number = Math.random
-): Tile[] {
-    return shuffle(tiles, rng);
-}
-
-/**
- * Deal tiles to players. For 4 players, each gets 7 tiles.
- * Pre-condition: players.length === 4
- */
-export function dealTilesToPlayers(
-    tiles: Tile[],
-    players: GamePlayers
-): Record<string, Tile[]> {
-    const playerIds = Object.keys(players);
-    if (playerIds.length !== 4) {
-        throw new Error("Dominoes needs 4 players");
-    }
-
-    const hands: Record<string, Tile[]> = playerIds.reduce(
-        (acc, id) => {
-            acc[id] = [];
-            return acc;
-        },
-        {} as Record<string, Tile[]>
+export function dealDominoesHands(
+    playOrder: string[],
+    settings: DominoesSettings,
+    rng: () => number
+): TileDeal {
+    const handSize = getDominoesHandSize(
+        settings.setSize,
+        playOrder.length,
+        settings.drawFromBoneyard
     );
-
-    // Deal 7 tiles to each player (28 tiles total, 7 each)
-    if (tiles.length < 28) {
-        throw new Error("Not enough tiles to deal to 4 players");
-    }
-    tiles.forEach((tile, idx) => {
-        if (idx < 28) {
-            const playerId = playerIds[idx % 4];
-            hands[playerId].push(tile);
-        }
-    });
-
-    // Sort each hand by left value, then right value
-    for (const playerId of playerIds) {
-        hands[playerId] = sortHand(hands[playerId]);
-    }
-
-    return hands;
+    const { hands, boneyard } = dealDominoesRound(
+        playOrder,
+        settings.setSize,
+        handSize,
+        rng
+    );
+    return {
+        hands: Object.fromEntries(
+            Object.entries(hands).map(([playerId, hand]) => [
+                playerId,
+                sortHand(hand),
+            ])
+        ),
+        boneyard,
+    };
 }
 
 /**
  * Sort tiles in a hand for consistent ordering
  */
-function sortHand(hand: Tile[]): Tile[] {
+export function sortHand(hand: Tile[]): Tile[] {
     return hand.slice().sort((a, b) => {
         if (a.left !== b.left) {
             return a.left - b.left;
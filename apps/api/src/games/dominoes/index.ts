@@ -8,14 +8,23 @@ import {
     DOMINOES_SETTINGS_DEFINITIONS,
     Tile,
     DominoesPhase,
+    DominoesTeam,
+    DOMINOES_TEAM_REQUIREMENTS,
+    DOMINOES_MIN_PLAYERS,
+    DOMINOES_MAX_PLAYERS,
+    DOMINOES_SET_MAX_PLAYERS,
+    BotDifficulty,
+    ContinueGate,
+    DealInfo,
+    BoardSide,
+    DominoesPlayScore,
 } from "@family-games/shared";
 import { GameModule, GameState, GameAction } from "../../services/GameManager";
 import { v4 as uuidv4 } from "uuid";
 import {
-    buildDominoSet,
-    dealTilesToPlayers,
+    dealDominoesHands,
     findPlayerWithHighestDouble,
-    shuffleTiles,
+    sortHand,
 } from "./helpers/tile";
 import { omitFields } from "../../utils/omitFields";
 import {
@@ -25,25 +34,47 @@ import {
     initializeBoard,
     placeTileOnBoard,
 } from "./helpers/board";
-import { calculateRoundScores, checkWinCondition } from "./helpers/score";
+import {
+    calculateRoundScores,
+    calculateTeamRoundScores,
+    checkWinCondition,
+    getEndsPoints,
+    getEndsSum,
+    getPlayerTeamId,
+} from "./helpers/score";
 import {
     handlePlayerReconnect,
     handlePlayerDisconnect,
     checkAllPlayersConnected,
+    createDeal,
+    withDealtHands,
+    getPublicDeals,
+    openContinueGate,
+    acknowledgeContinue,
+    assertCanForceContinue,
+    getOpposingPlayers,
+    trackUndo,
+    requestUndo,
+    respondToUndo,
+    ROUND_SUMMARY_CONTINUE_MS,
 } from "../shared";
+import { turnTimerService } from "../../services/TurnTimerService";
+import { getAutoPlayTile, shouldTimerBeActive } from "./helpers/autoAction";
+import { getBotMove } from "./helpers/bot";
 
 const DOMINOES_NAME = "dominoes";
 const DOMINOES_DISPLAY_NAME = "Dominoes";
-const DOMINOES_TOTAL_PLAYERS = 4;
+// Plays a player can ask to take back (REQUEST_UNDO)
+const UNDOABLE_ACTIONS = ["PLACE_TILE"];
 
 const DOMINOES_METADATA = {
     type: DOMINOES_NAME,
     displayName: DOMINOES_DISPLAY_NAME,
     description:
-        "Classic Caribbean-style dominoes. Be the first to play all your tiles or have the lowest pip count when blocked!",
+        "Classic Caribbean-style dominoes. Be the first to play all your tiles or have the lowest pip count when blocked! Double-nine and double-twelve sets seat up to 8 players.",
     requiresTeams: false, // Individual play
-    minPlayers: DOMINOES_TOTAL_PLAYERS,
-    maxPlayers: DOMINOES_TOTAL_PLAYERS,
+    minPlayers: DOMINOES_MIN_PLAYERS,
+    maxPlayers: DOMINOES_MAX_PLAYERS,
     settingsDefinitions: DOMINOES_SETTINGS_DEFINITIONS,
     defaultSettings: DEFAULT_DOMINOES_SETTINGS,
 };
@@ -55,18 +86,29 @@ export interface DominoesState extends GameState {
 
     hands: Record<string, Tile[]>;
     handsCounts?: Record<string, number>; // For public state
+    boneyard: Tile[]; // Undealt tiles (hidden; only used in draw games)
+    boneyardCount?: number; // For public state
     board: BoardState;
 
     phase: DominoesPhase;
     round: number;
     consecutivePasses: number; // Track consecutive passes to detect blocked game
+    roundPlays?: DominoesPlayScore[]; // All Fives: every play this round
+    turnStartedAt?: string;
 
     playerScores: Record<string, number>; // Individual scores
     roundPipCounts?: Record<string, number>; // Pip counts at end of round
     roundWinner?: string | null; // Winner of the current round
     isRoundTie?: boolean; // True if round ended in a tie (blocked game, multiple lowest pip counts)
 
+    // Team mode only
+    teams?: Record<number, DominoesTeam>;
+    roundTeamPipCounts?: Record<number, number>; // Pooled pip counts per team at end of round
+    roundWinningTeam?: number | null; // Team that won the current round
+
     gameWinner?: string; // Overall game winner
+    winningTeam?: number; // Overall winning team (team mode)
+    deals: DealInfo[]; // Seed, commitment and hands for every round dealt so far
     history: string[]; // Action history for debugging
     settings: DominoesSettings;
 }
@@ -80,18 +122,38 @@ function init(
         room.users.map((user) => [user.id, user])
     );
 
-    const playOrder = room.users.map((user) => user.id);
     const settings: DominoesSettings = {
         ...DEFAULT_DOMINOES_SETTINGS,
         ...customSettings,
     };
 
-    // Generate and shuffle dominoes
-    const dominoSet = buildDominoSet();
-    const shuffledDominoes = shuffleTiles(dominoSet);
+    // Each set only has enough tiles for so many hands
+    const maxPlayers = DOMINOES_SET_MAX_PLAYERS[settings.setSize];
+    if (
+        room.users.length < DOMINOES_MIN_PLAYERS ||
+        room.users.length > maxPlayers
+    ) {
+        throw new Error(
+            `Double-${settings.setSize} dominoes needs ${DOMINOES_MIN_PLAYERS} to ${maxPlayers} players.`
+        );
+    }
 
-    // Deal tiles to players
-    const hands = dealTilesToPlayers(shuffledDominoes, players);
+    // Team mode seats partners across from each other
+    const teams =
+        settings.gameMode === "team" ? buildTeams(room.teams) : undefined;
+    const playOrder = teams
+        ? [
+              teams[0].players[0],
+              teams[1].players[0],
+              teams[0].players[1],
+              teams[1].players[1],
+          ]
+        : room.users.map((user) => user.id);
+
+    // Shuffle from the round's seed and deal tiles to players
+    // (the rest stay in the boneyard)
+    const { deal, rng } = createDeal(1);
+    const { hands, boneyard } = dealDominoesHands(playOrder, settings, rng);
 
     // Determine starting player (player with highest double)
     // If no player has a double, start with first player
@@ -109,6 +171,7 @@ function init(
     return {
         id: uuidv4(),
         roomId: room.id,
+        version: 0,
         type: DOMINOES_NAME,
 
         players,
@@ -118,21 +181,71 @@ function init(
         startingPlayerIndex,
 
         hands,
+        boneyard,
         board: initializeBoard(),
 
         phase: "playing",
         round: 1,
         consecutivePasses: 0,
+        turnStartedAt: new Date().toISOString(),
 
         playerScores,
+        teams,
+        deals: [withDealtHands(deal, hands)],
         settings,
         history: [],
     };
 }
 
+/**
+ * Build the two partnerships from the room's team assignment.
+ */
+function buildTeams(roomTeams?: string[][]): Record<number, DominoesTeam> {
+    const { numTeams, playersPerTeam } = DOMINOES_TEAM_REQUIREMENTS;
+    if (
+        !roomTeams ||
+        roomTeams.length !== numTeams ||
+        roomTeams.some((team) => team.filter(Boolean).length !== playersPerTeam)
+    ) {
+        throw new Error(
+            `Team mode requires ${numTeams} teams of ${playersPerTeam} players.`
+        );
+    }
+
+    return Object.fromEntries(
+        roomTeams.map((team, index) => [
+            index,
+            { players: team.filter(Boolean), score: 0 },
+        ])
+    );
+}
+
 function reducer(state: DominoesState, action: GameAction): DominoesState {
     logHistory(state, action);
+    switch (action.type) {
+        case "REQUEST_UNDO":
+            return requestUndo(
+                state,
+                action.userId,
+                getOpposingPlayers(state.playOrder, state.teams, action.userId)
+            );
+        case "RESPOND_UNDO":
+            return respondToUndo(
+                state,
+                action.userId,
+                action.payload?.approve === true
+            );
+        default:
+            return trackUndo(
+                state,
+                applyAction(state, action),
+                action,
+                UNDOABLE_ACTIONS
+            );
+    }
+}
 
+function applyAction(state: DominoesState, action: GameAction): DominoesState {
     switch (action.type) {
         case "PLACE_TILE":
             return handlePlaceTile(
@@ -143,18 +256,67 @@ function reducer(state: DominoesState, action: GameAction): DominoesState {
             );
         case "PASS":
             return handlePass(state, action.userId);
-        case "CONTINUE_AFTER_ROUND_SUMMARY":
-            return startNextRound(state);
+        case "DRAW_TILE":
+            return handleDrawTile(state, action.userId);
+        case "CONTINUE_AFTER_ROUND_SUMMARY": {
+            if (state.phase !== "round-summary") return state;
+            const continueGate = acknowledgeContinue(
+                state.continueGate,
+                action.userId
+            );
+            return continueGate
+                ? { ...state, continueGate }
+                : startNextRound(state);
+        }
+        case "FORCE_CONTINUE":
+            assertCanForceContinue(state, action.userId);
+            return state.phase === "round-summary"
+                ? startNextRound(state)
+                : state;
         default:
             return state;
     }
 }
 
 function getState(state: DominoesState): Partial<DominoesState> {
-    const publicState = omitFields(state, ["hands"]);
+    const publicState = omitFields(state, [
+        "hands",
+        "boneyard",
+        "undoSnapshot",
+    ]) as Partial<DominoesState> & {
+        undoPlayerId?: string | null;
+        turnTimer?: { startedAt: number; duration: number; serverTime: number };
+    };
     publicState.handsCounts = Object.fromEntries(
         state.playOrder.map((id) => [id, state.hands[id].length || 0])
     );
+    publicState.boneyardCount = state.boneyard.length;
+    publicState.undoPlayerId = state.undoSnapshot?.playerId ?? null;
+    // Reveal the round's seed once the round is over
+    publicState.deals = getPublicDeals(
+        state.deals,
+        state.phase === "round-summary" || state.phase === "finished"
+    );
+
+    // Include turn timer info for client-side sync with latency compensation
+    const turnTimeLimit = state.settings?.turnTimeLimit;
+    if (turnTimeLimit && turnTimeLimit > 0) {
+        const timerState = turnTimerService.getTimerState(state.id);
+        const startedAt =
+            timerState?.startedAt ??
+            (state.turnStartedAt && state.phase === "playing"
+                ? new Date(state.turnStartedAt).getTime()
+                : undefined);
+
+        if (startedAt) {
+            publicState.turnTimer = {
+                startedAt,
+                duration: turnTimeLimit * 1000,
+                serverTime: Date.now(),
+            };
+        }
+    }
+
     return publicState;
 }
 
@@ -183,6 +345,9 @@ export const dominoesModule: GameModule = {
     checkMinimumPlayers,
     handlePlayerReconnect,
     handlePlayerDisconnect,
+    getTimedPlayer,
+    getAutoAction,
+    getBotAction,
     metadata: DOMINOES_METADATA,
 };
 
@@ -193,7 +358,7 @@ function handlePlaceTile(
     state: DominoesState,
     playerId: string,
     tile: Tile,
-    side: "left" | "right"
+    side: BoardSide
 ): DominoesState {
     // Validate phase
     if (state.phase !== "playing") {
@@ -227,37 +392,103 @@ function handlePlaceTile(
     newHand.splice(tileIdx, 1);
     const newHands = { ...state.hands, [playerId]: newHand };
 
-    // Place tile on board
-    const newBoard = placeTileOnBoard(tile, state.board, side);
+    // Place tile on board (All Fives plays with a spinner)
+    const isAllFives = state.settings.scoringMode === "allFives";
+    const newBoard = placeTileOnBoard(tile, state.board, side, isAllFives);
 
     // Reset consecutive passes since a tile was played
     const consecutivePasses = 0;
 
+    let placedState: DominoesState = {
+        ...state,
+        hands: newHands,
+        board: newBoard,
+        consecutivePasses,
+    };
+
+    // All Fives: score the open ends straight away
+    if (isAllFives) {
+        placedState = scorePlay(placedState, playerId, tile);
+        if (placedState.phase === "finished") return placedState;
+    }
+
     // Check if player won the round (hand is empty)
     if (newHand.length === 0) {
-        return endRound(
-            {
-                ...state,
-                hands: newHands,
-                board: newBoard,
-                consecutivePasses,
-            },
-            playerId
-        );
+        return endRound(placedState, playerId);
     }
 
     // Move to next player
     const nextTurnIndex = (state.currentTurnIndex + 1) % state.playOrder.length;
 
     return {
-        ...state,
-        hands: newHands,
-        board: newBoard,
+        ...placedState,
         currentTurnIndex: nextTurnIndex,
-        consecutivePasses,
+        turnStartedAt: new Date().toISOString(),
     };
 }
 
+/**
+ * All Fives: record the play and award the ends sum when it's a multiple
+ * of five. Reaching the win target ends the game on the spot.
+ */
+function scorePlay(
+    state: DominoesState,
+    playerId: string,
+    tile: Tile
+): DominoesState {
+    const endsSum = getEndsSum(state.board);
+    const points = getEndsPoints(endsSum);
+    const roundPlays = [
+        ...(state.roundPlays ?? []),
+        { playerId, tileId: tile.id, endsSum, points },
+    ];
+    if (points === 0) {
+        return { ...state, roundPlays };
+    }
+
+    if (state.teams) {
+        const teamId = getPlayerTeamId(state.teams, playerId);
+        if (teamId === null) {
+            throw new Error("Player is not on a team.");
+        }
+        const teams = {
+            ...state.teams,
+            [teamId]: {
+                ...state.teams[teamId],
+                score: state.teams[teamId].score + points,
+            },
+        };
+        const playerScores = { ...state.playerScores };
+        for (const teamPlayerId of teams[teamId].players) {
+            playerScores[teamPlayerId] = teams[teamId].score;
+        }
+
+        const scored = { ...state, roundPlays, teams, playerScores };
+        return teams[teamId].score >= state.settings.winTarget
+            ? {
+                  ...scored,
+                  winningTeam: teamId,
+                  phase: "finished",
+                  continueGate: null,
+              }
+            : scored;
+    }
+
+    const playerScores = {
+        ...state.playerScores,
+        [playerId]: (state.playerScores[playerId] || 0) + points,
+    };
+    const scored = { ...state, roundPlays, playerScores };
+    return playerScores[playerId] >= state.settings.winTarget
+        ? {
+              ...scored,
+              gameWinner: playerId,
+              phase: "finished",
+              continueGate: null,
+          }
+        : scored;
+}
+
 /**
  * Handle a player passing their turn
  */
@@ -283,11 +514,16 @@ function handlePass(state: DominoesState, playerId: string): DominoesState {
         throw new Error("Cannot pass when you have a legal move.");
     }
 
+    // In a draw game, a player may only pass once the boneyard is empty
+    if (state.settings.drawFromBoneyard && state.boneyard.length > 0) {
+        throw new Error("You must draw from the boneyard before passing.");
+    }
+
     // Increment consecutive passes
     const consecutivePasses = state.consecutivePasses + 1;
 
-    // If all 4 players have passed consecutively, the game is blocked
-    if (consecutivePasses >= 4) {
+    // If every player has passed consecutively, the game is blocked
+    if (consecutivePasses >= state.playOrder.length) {
         return endRound(
             {
                 ...state,
@@ -304,6 +540,55 @@ function handlePass(state: DominoesState, playerId: string): DominoesState {
         ...state,
         currentTurnIndex: nextTurnIndex,
         consecutivePasses,
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Handle a player drawing a tile from the boneyard (draw games only).
+ * The turn stays with the player so they can play the drawn tile or draw again.
+ */
+function handleDrawTile(state: DominoesState, playerId: string): DominoesState {
+    // Validate variant
+    if (!state.settings.drawFromBoneyard) {
+        throw new Error("Drawing from the boneyard is disabled for this game.");
+    }
+
+    // Validate phase
+    if (state.phase !== "playing") {
+        throw new Error("Can only draw during the playing phase.");
+    }
+
+    // Validate turn
+    if (currentPlayerId(state) !== playerId) {
+        throw new Error("Not your turn to draw.");
+    }
+
+    // Check if player is connected
+    if (state.players[playerId]?.isConnected === false) {
+        throw new Error("Player is disconnected and cannot draw.");
+    }
+
+    // Drawing is only allowed when the player cannot play
+    const playerHand = state.hands[playerId] || [];
+    if (hasLegalMove(playerHand, state.board)) {
+        throw new Error("Cannot draw when you have a legal move.");
+    }
+
+    if (state.boneyard.length === 0) {
+        throw new Error("The boneyard is empty.");
+    }
+
+    const [drawnTile, ...boneyard] = state.boneyard;
+
+    return {
+        ...state,
+        hands: {
+            ...state.hands,
+            [playerId]: sortHand([...playerHand, drawnTile]),
+        },
+        boneyard,
+        turnStartedAt: new Date().toISOString(), // Timer restarts after each draw
     };
 }
 
@@ -314,6 +599,10 @@ function endRound(
     state: DominoesState,
     winnerId: string | null
 ): DominoesState {
+    if (state.teams) {
+        return endTeamRound(state, state.teams, winnerId);
+    }
+
     const { scores, pipCounts, roundWinner, isTie } = calculateRoundScores(
         state.hands,
         state.playerScores,
@@ -332,9 +621,68 @@ function endRound(
         isRoundTie: isTie,
         gameWinner,
         phase: gameWinner ? "finished" : "round-summary",
+        continueGate: gameWinner ? null : openRoundSummaryGate(state),
+    };
+}
+
+/**
+ * End the current round in team mode, pooling pips by partnership
+ */
+function endTeamRound(
+    state: DominoesState,
+    teams: Record<number, DominoesTeam>,
+    winnerId: string | null
+): DominoesState {
+    const {
+        teams: newTeams,
+        pipCounts,
+        teamPipCounts,
+        roundWinningTeam,
+        isTie,
+    } = calculateTeamRoundScores(state.hands, teams, winnerId);
+
+    // Each player's score mirrors their team's total
+    const playerScores: Record<string, number> = {};
+    for (const team of Object.values(newTeams)) {
+        for (const playerId of team.players) {
+            playerScores[playerId] = team.score;
+        }
+    }
+
+    const teamScores = Object.fromEntries(
+        Object.entries(newTeams).map(([teamId, team]) => [teamId, team.score])
+    );
+    const winningTeamId = checkWinCondition(
+        teamScores,
+        state.settings.winTarget
+    );
+    const winningTeam =
+        winningTeamId !== null ? Number(winningTeamId) : undefined;
+
+    return {
+        ...state,
+        teams: newTeams,
+        playerScores,
+        roundPipCounts: pipCounts,
+        roundTeamPipCounts: teamPipCounts,
+        roundWinner:
+            winnerId && state.hands[winnerId].length === 0 ? winnerId : null,
+        roundWinningTeam,
+        isRoundTie: isTie,
+        winningTeam,
+        phase: winningTeam !== undefined ? "finished" : "round-summary",
+        continueGate:
+            winningTeam !== undefined ? null : openRoundSummaryGate(state),
     };
 }
 
+/**
+ * Wait for everyone to be ready before the next round
+ */
+function openRoundSummaryGate(state: DominoesState): ContinueGate {
+    return openContinueGate(state, state.playOrder, ROUND_SUMMARY_CONTINUE_MS);
+}
+
 /**
  * Start the next round
  */
@@ -343,10 +691,13 @@ function startNextRound(state: DominoesState): DominoesState {
         throw new Error("Can only start next round from round-summary phase.");
     }
 
-    // Generate new tiles
-    const dominoSet = buildDominoSet();
-    const shuffledDominoes = shuffleTiles(dominoSet);
-    const newHands = dealTilesToPlayers(shuffledDominoes, state.players);
+    // Generate new tiles, shuffled from a fresh seed
+    const { deal, rng } = createDeal(state.round + 1);
+    const { hands: newHands, boneyard } = dealDominoesHands(
+        state.playOrder,
+        state.settings,
+        rng
+    );
 
     // Determine new starting player (player with highest double)
     const startingPlayerId = findPlayerWithHighestDouble(newHands);
@@ -357,15 +708,22 @@ function startNextRound(state: DominoesState): DominoesState {
     return {
         ...state,
         hands: newHands,
+        boneyard,
         board: initializeBoard(),
         currentTurnIndex: startingPlayerIndex,
         startingPlayerIndex,
         phase: "playing",
         round: state.round + 1,
+        continueGate: null,
+        deals: [...state.deals, withDealtHands(deal, newHands)],
         consecutivePasses: 0,
+        roundPlays: undefined,
+        turnStartedAt: new Date().toISOString(),
         roundPipCounts: undefined,
         roundWinner: undefined,
         isRoundTie: undefined,
+        roundTeamPipCounts: undefined,
+        roundWinningTeam: undefined,
     };
 }
 
@@ -381,8 +739,52 @@ function logHistory(state: DominoesState, action: GameAction): void {
 
 /**
  * Check if the game has minimum players connected to continue.
- * For Dominoes, all 4 players must be connected to play.
+ * For Dominoes, every seated player must be connected to play.
  */
 function checkMinimumPlayers(state: DominoesState): boolean {
-    return checkAllPlayersConnected(state, DOMINOES_TOTAL_PLAYERS);
+    return checkAllPlayersConnected(state, state.playOrder.length);
+}
+
+/**
+ * Turn timer hook: the current player is timed while tiles are being played.
+ */
+function getTimedPlayer(state: DominoesState): string | null {
+    return shouldTimerBeActive(state) ? currentPlayerId(state) : null;
+}
+
+/**
+ * Turn timer hook: play the heaviest legal tile, otherwise draw (draw games)
+ * or pass. Drawing keeps the turn, so this is called again after each draw.
+ */
+function getAutoAction(
+    state: DominoesState,
+    playerId: string
+): GameAction | null {
+    const autoTile = getAutoPlayTile(state, playerId);
+    if (autoTile) {
+        return { type: "PLACE_TILE", userId: playerId, payload: autoTile };
+    }
+
+    if (state.settings.drawFromBoneyard && state.boneyard.length > 0) {
+        return { type: "DRAW_TILE", userId: playerId, payload: {} };
+    }
+
+    return { type: "PASS", userId: playerId, payload: {} };
+}
+
+/**
+ * Bot hook: play the bot's chosen tile, otherwise draw or pass
+ * like a timed-out player.
+ */
+function getBotAction(
+    state: DominoesState,
+    playerId: string,
+    difficulty: BotDifficulty
+): GameAction | null {
+    const move = getBotMove(state, playerId, difficulty);
+    if (move) {
+        return { type: "PLACE_TILE", userId: playerId, payload: move };
+    }
+
+    return getAutoAction(state, playerId);
 }
@@ -0,0 +1,61 @@
+// src/games/euchre/helpers/autoAction.ts
+
+/**
+ * Auto-action helpers for Euchre.
+ * Used when a player times out and the server needs to act on their behalf.
+ */
+
+import { EuchreState, Card } from "@family-games/shared";
+import { BotCall, getBotCall, getBotCard, getBotDiscard } from "./bot";
+
+/**
+ * Get the trump call for a player who timed out while calling.
+ * Calls like a hard bot, so usually passes unless the hand is strong
+ * (a stuck dealer names their best suit).
+ *
+ * @param state - The current game state
+ * @param playerId - The player who timed out
+ * @returns The call to make, or null to pass
+ */
+export function getAutoCall(
+    state: EuchreState,
+    playerId: string
+): BotCall | null {
+    return getBotCall(state, playerId, "hard");
+}
+
+/**
+ * Get the discard for a dealer who timed out after picking up the
+ * upcard: the lowest side card, voiding a short suit when it can.
+ *
+ * @param state - The current game state
+ * @param playerId - The dealer
+ * @returns The card to discard
+ */
+export function getAutoDiscard(state: EuchreState, playerId: string): Card {
+    return getBotDiscard(state, playerId, "hard");
+}
+
+/**
+ * Get the auto-play card for a player who timed out during playing.
+ * Plays like a hard bot: leaves a partner's winning trick alone and
+ * otherwise takes the trick as cheaply as it can.
+ *
+ * @param state - The current game state
+ * @param playerId - The player who timed out
+ * @returns The card to play, or null if no legal card (shouldn't happen)
+ */
+export function getAutoPlayCard(
+    state: EuchreState,
+    playerId: string
+): Card | null {
+    return getBotCard(state, playerId, "hard");
+}
+
+/**
+ * Check if the game is in a state where a turn timer should be running:
+ * while calling trump, the dealer's discard, and play.
+ */
+export function shouldTimerBeActive(state: EuchreState): boolean {
+    return ["calling", "discarding", "playing"].includes(state.phase);
+}
@@ -0,0 +1,376 @@
+// src/games/euchre/helpers/bot.ts
+
+/**
+ * Bot strategy for Euchre.
+ *
+ * Bots weigh a hand for each suit it could call - the bowers and top
+ * trumps count most, off-suit aces and voids a little - and call when
+ * it's strong enough, going alone with a near-certain march. Ordering
+ * the upcard into the dealer's hand counts for whoever sits on the
+ * dealer's team. The dealer discards to void a short side suit. Easy
+ * bots only count trumps and never go alone; hard bots leave a
+ * partner's trick alone, pull trump and cash cards nobody can beat.
+ */
+
+import {
+    Card,
+    EuchreState,
+    Rank,
+    Suit,
+    Trick,
+    TrickRules,
+    BotDifficulty,
+    STANDARD_RANK_ORDER,
+    STANDARD_SUITS,
+    canCallTrump,
+    cardBeats,
+    getCardSuit,
+    getEuchreTrickRules,
+    getPlayableCards,
+    getWinningPlay,
+    isLeftBower,
+    isRightBower,
+    isTrumpCard,
+    buildEuchreDeck,
+} from "@family-games/shared";
+import { getPlayerTeamId, getTrickRules } from "./card";
+import { isSameCard } from "../../shared";
+
+// Hand strength needed to call trump, and to go alone
+const CALL_STRENGTH = 6;
+const ALONE_STRENGTH = 10;
+// Trumps an easy bot wants before calling
+const EASY_CALL_TRUMPS = 3;
+
+/**
+ * A trump call: the suit, and whether to play without a partner.
+ */
+export interface BotCall {
+    trumpSuit: Suit;
+    alone: boolean;
+}
+
+// ============================================================================
+// Hand Evaluation
+// ============================================================================
+
+/**
+ * How much a trump is worth: the bowers most, then Ace down to 9.
+ */
+function trumpValue(card: Card, trumpSuit: Suit): number {
+    if (isRightBower(card, trumpSuit)) return 3;
+    if (isLeftBower(card, trumpSuit)) return 2.5;
+    switch (card.rank) {
+        case Rank.Ace:
+            return 2;
+        case Rank.King:
+            return 1.5;
+        case Rank.Queen:
+            return 1.25;
+        default:
+            return 1;
+    }
+}
+
+/**
+ * Strength of a hand with this suit as trump. Trumps count by rank,
+ * off-suit aces count once, and each void side suit lets a trump ruff.
+ */
+function evaluateHand(hand: Card[], trumpSuit: Suit): number {
+    const rules = getEuchreTrickRules(trumpSuit);
+    const trumps = hand.filter((card) => isTrumpCard(card, rules));
+    let strength = trumps.reduce(
+        (sum, card) => sum + trumpValue(card, trumpSuit),
+        0
+    );
+
+    for (const suit of STANDARD_SUITS) {
+        if (suit === trumpSuit) continue;
+        const side = hand.filter((card) => getCardSuit(card, rules) === suit);
+        if (side.some((card) => card.rank === Rank.Ace)) strength += 1;
+        if (side.length === 0 && trumps.length > 0) strength += 0.5;
+    }
+    return strength;
+}
+
+function countTrumps(hand: Card[], trumpSuit: Suit): number {
+    const rules = getEuchreTrickRules(trumpSuit);
+    return hand.filter((card) => isTrumpCard(card, rules)).length;
+}
+
+/**
+ * The hand the dealer would keep after picking up the upcard.
+ */
+function withUpcard(hand: Card[], upcard: Card, trumpSuit: Suit): Card[] {
+    const full = [...hand, upcard];
+    const discard = chooseDiscard(full, trumpSuit);
+    return full.filter((card) => card !== discard);
+}
+
+// ============================================================================
+// Calling Trump
+// ============================================================================
+
+/**
+ * Strength of calling this suit from this seat. In the first round the
+ * upcard goes to the dealer: it counts for the dealer (and half for the
+ * dealer's partner), and against the dealer's opponents.
+ */
+function evaluateCall(
+    state: EuchreState,
+    playerId: string,
+    trumpSuit: Suit
+): number {
+    const hand = state.hands[playerId] || [];
+    if (state.callingRound === 2) return evaluateHand(hand, trumpSuit);
+
+    const dealerId = state.playOrder[state.dealerIndex];
+    if (dealerId === playerId) {
+        return evaluateHand(
+            withUpcard(hand, state.upcard, trumpSuit),
+            trumpSuit
+        );
+    }
+    const upcardValue = trumpValue(state.upcard, trumpSuit);
+    const sameTeam =
+        getPlayerTeamId(state, dealerId) === getPlayerTeamId(state, playerId);
+    return (
+        evaluateHand(hand, trumpSuit) +
+        (sameTeam ? upcardValue / 2 : -upcardValue / 2)
+    );
+}
+
+/**
+ * Call trump when the hand is strong enough, otherwise pass (null).
+ * A stuck dealer names their best suit.
+ */
+export function getBotCall(
+    state: EuchreState,
+    playerId: string,
+    difficulty: BotDifficulty
+): BotCall | null {
+    const hand = state.hands[playerId] || [];
+    const candidates = STANDARD_SUITS.filter((suit) =>
+        canCallTrump(suit, state.upcard.suit, state.callingRound)
+    );
+    const isStuck =
+        state.callingRound === 2 &&
+        state.settings.stickTheDealer &&
+        state.playOrder[state.dealerIndex] === playerId;
+
+    if (difficulty === "easy") {
+        const best = [...candidates].sort(
+            (a, b) => countTrumps(hand, b) - countTrumps(hand, a)
+        )[0];
+        return isStuck || countTrumps(hand, best) >= EASY_CALL_TRUMPS
+            ? { trumpSuit: best, alone: false }
+            : null;
+    }
+
+    const scored = candidates
+        .map((suit) => ({
+            suit,
+            strength: evaluateCall(state, playerId, suit),
+        }))
+        .sort((a, b) => b.strength - a.strength);
+    const { suit, strength } = scored[0];
+    if (!isStuck && strength < CALL_STRENGTH) return null;
+    return { trumpSuit: suit, alone: strength >= ALONE_STRENGTH };
+}
+
+// ============================================================================
+// Dealer Discard
+// ============================================================================
+
+/**
+ * The card the hand can best spare: never trump if there's a choice.
+ * A lone low card is thrown first to void its suit, otherwise the
+ * lowest side card. Aces are kept.
+ */
+function chooseDiscard(hand: Card[], trumpSuit: Suit): Card {
+    const rules = getEuchreTrickRules(trumpSuit);
+    const side = hand.filter((card) => !isTrumpCard(card, rules));
+    if (side.length === 0) return lowestCard(hand, rules);
+
+    const rank = (card: Card) => STANDARD_RANK_ORDER.indexOf(card.rank);
+    const suitLength = (card: Card) =>
+        side.filter((c) => c.suit === card.suit).length;
+    const discardValue = (card: Card) =>
+        (card.rank === Rank.Ace ? 100 : 0) + suitLength(card) * 10 + rank(card);
+
+    return side.reduce((low, card) =>
+        discardValue(card) < discardValue(low) ? card : low
+    );
+}
+
+/**
+ * The dealer's discard after picking up the upcard. Easy bots just
+ * throw their lowest card.
+ */
+export function getBotDiscard(
+    state: EuchreState,
+    playerId: string,
+    difficulty: BotDifficulty
+): Card {
+    const hand = state.hands[playerId] || [];
+    const rules = getTrickRules(state);
+    if (difficulty === "easy") return lowestCard(hand, rules);
+    return chooseDiscard(hand, state.trumpSuit!);
+}
+
+// ============================================================================
+// Playing
+// ============================================================================
+
+/**
+ * Relative strength used to pick the "lowest" or "highest" card. Trump
+ * sorts above every side card so bots don't waste it.
+ */
+function cardStrength(card: Card, rules: TrickRules): number {
+    return rules.getRankValue(card) + (isTrumpCard(card, rules) ? 200 : 0);
+}
+
+function lowestCard(cards: Card[], rules: TrickRules): Card {
+    return cards.reduce((low, card) =>
+        cardStrength(card, rules) < cardStrength(low, rules) ? card : low
+    );
+}
+
+function highestCard(cards: Card[], rules: TrickRules): Card {
+    return cards.reduce((high, card) =>
+        cardStrength(card, rules) > cardStrength(high, rules) ? card : high
+    );
+}
+
+/**
+ * Cards the bot can't see that might still be played: not in its hand,
+ * not played this round, and not the upcard once it was turned down.
+ */
+function getUnseenCards(state: EuchreState, hand: Card[]): Card[] {
+    const seen = [
+        ...hand,
+        ...state.completedTricks.flatMap((trick) =>
+            trick.plays.map((play) => play.card)
+        ),
+        ...(state.currentTrick?.plays.map((play) => play.card) ?? []),
+        ...(state.callingRound === 2 ? [state.upcard] : []),
+    ];
+    return buildEuchreDeck().filter(
+        (card) => !seen.some((c) => isSameCard(c, card))
+    );
+}
+
+/**
+ * True if no unseen card of the same suit can beat this card.
+ */
+function isMasterCard(card: Card, unseen: Card[], rules: TrickRules): boolean {
+    const suit = getCardSuit(card, rules);
+    return !unseen.some(
+        (c) => getCardSuit(c, rules) === suit && cardBeats(c, card, suit, rules)
+    );
+}
+
+function getHardLead(
+    state: EuchreState,
+    playerId: string,
+    legal: Card[],
+    hand: Card[],
+    rules: TrickRules
+): Card {
+    const unseen = getUnseenCards(state, hand);
+    const isMaker = getPlayerTeamId(state, playerId) === state.contract?.teamId;
+
+    // Makers pull trump while the defenders might still hold some
+    const trumps = legal.filter((card) => isTrumpCard(card, rules));
+    const trumpOut = unseen.some((card) => isTrumpCard(card, rules));
+    if (isMaker && trumpOut && trumps.length > 0) {
+        const topTrump = highestCard(trumps, rules);
+        if (isMasterCard(topTrump, unseen, rules)) return topTrump;
+    }
+
+    // Cash a side card nobody can beat
+    const masters = legal.filter(
+        (card) => !isTrumpCard(card, rules) && isMasterCard(card, unseen, rules)
+    );
+    if (masters.length > 0) return highestCard(masters, rules);
+
+    // Otherwise lead low from the shortest side suit, hoping to ruff it
+    const side = legal.filter((card) => !isTrumpCard(card, rules));
+    const pool = side.length > 0 ? side : legal;
+    const shortestSuit = [...pool].sort(
+        (a, b) =>
+            pool.filter((c) => c.suit === a.suit).length -
+            pool.filter((c) => c.suit === b.suit).length
+    )[0].suit;
+    return lowestCard(
+        pool.filter((card) => card.suit === shortestSuit),
+        rules
+    );
+}
+
+function getHardFollow(
+    state: EuchreState,
+    playerId: string,
+    legal: Card[],
+    hand: Card[],
+    trick: Trick,
+    rules: TrickRules
+): Card {
+    const winning = getWinningPlay(trick, rules)!;
+    const ledSuit = getCardSuit(trick.plays[0].card, rules);
+    const playersInHand = state.playOrder.length - state.sittingOut.length;
+    const isLastToPlay = trick.plays.length === playersInHand - 1;
+    const partnerWinning =
+        getPlayerTeamId(state, winning.playerId) ===
+        getPlayerTeamId(state, playerId);
+
+    // Leave a partner's trick alone once it's safe
+    if (
+        partnerWinning &&
+        (isLastToPlay ||
+            isMasterCard(winning.card, getUnseenCards(state, hand), rules))
+    ) {
+        return lowestCard(legal, rules);
+    }
+
+    // Take the trick as cheaply as possible
+    const winners = legal.filter((card) =>
+        cardBeats(card, winning.card, ledSuit, rules)
+    );
+    if (winners.length > 0) return lowestCard(winners, rules);
+
+    return lowestCard(legal, rules);
+}
+
+/**
+ * Pick a legal card for the bot to play.
+ */
+export function getBotCard(
+    state: EuchreState,
+    playerId: string,
+    difficulty: BotDifficulty
+): Card | null {
+    const hand = state.hands[playerId] || [];
+    const rules = getTrickRules(state);
+    const legal = getPlayableCards(hand, state.currentTrick, rules);
+    if (legal.length === 0) return null;
+
+    const trick = state.currentTrick;
+    const isLead = !trick || trick.plays.length === 0;
+
+    if (difficulty === "easy") {
+        if (isLead) return highestCard(legal, rules);
+        const winning = getWinningPlay(trick!, rules)!;
+        const ledSuit = getCardSuit(trick!.plays[0].card, rules);
+        const winners = legal.filter((card) =>
+            cardBeats(card, winning.card, ledSuit, rules)
+        );
+        return winners.length > 0
+            ? highestCard(winners, rules)
+            : lowestCard(legal, rules);
+    }
+
+    return isLead
+        ? getHardLead(state, playerId, legal, hand, rules)
+        : getHardFollow(state, playerId, legal, hand, trick!, rules);
+}
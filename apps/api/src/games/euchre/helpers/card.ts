@@ -0,0 +1,101 @@
+/* ------------------------------------------------------------------------
+   Card helpers – no game-state, no I/O
+   --------------------------------------------------------------------- */
+
+import {
+    Card,
+    EuchreState,
+    Suit,
+    TrickRules,
+    STANDARD_RANK_ORDER,
+    getCardSuit,
+    getEuchreTrickRules,
+    dealEuchreRound,
+} from "@family-games/shared";
+import { sortHand } from "../../shared";
+
+/* ––––––––––––––––––––– CONSTANTS ––––––––––––––––––––– */
+
+// Hands alternate colors: Diamonds, Clubs, Hearts, then Spades
+const HAND_SUIT_ORDER: Suit[] = [
+    Suit.Diamonds,
+    Suit.Clubs,
+    Suit.Hearts,
+    Suit.Spades,
+];
+
+/* ––––––––––––––––– DEALING –––––––––––––––––––– */
+
+/**
+ * Shuffle the deck and deal 5 cards each. The top card of the 4 left
+ * over is turned up; the rest stay face down in the kitty.
+ */
+export function dealEuchreHands(
+    playOrder: string[],
+    rng: () => number
+): { hands: Record<string, Card[]>; upcard: Card; kitty: Card[] } {
+    const { hands, undealt } = dealEuchreRound(playOrder, rng);
+    const [upcard, ...kitty] = undealt;
+    return {
+        hands: Object.fromEntries(
+            Object.entries(hands).map(([playerId, hand]) => [
+                playerId,
+                sortEuchreHand(hand, null),
+            ])
+        ),
+        upcard,
+        kitty,
+    };
+}
+
+/**
+ * Sort a hand by suit, then rank (Ace high). Once trump is called the
+ * left bower moves in with the trumps, below the right bower.
+ */
+export function sortEuchreHand(hand: Card[], trumpSuit: Suit | null): Card[] {
+    if (trumpSuit === null) {
+        return sortHand(hand, HAND_SUIT_ORDER, (card) =>
+            STANDARD_RANK_ORDER.indexOf(card.rank)
+        );
+    }
+    const rules = getEuchreTrickRules(trumpSuit);
+    return sortHand(hand, HAND_SUIT_ORDER, rules.getRankValue, (card) =>
+        getCardSuit(card, rules)
+    );
+}
+
+/* ––––––––––––––––  SMALL UTILITIES –––––––––––––––––– */
+
+/**
+ * Rules for the hand once trump is called.
+ */
+export function getTrickRules(
+    state: Pick<EuchreState, "trumpSuit">
+): TrickRules {
+    return getEuchreTrickRules(state.trumpSuit ?? "");
+}
+
+export function currentPlayerId(state: EuchreState): string {
+    return state.playOrder[state.currentTurnIndex];
+}
+
+/**
+ * The player sitting across the table.
+ */
+export function getPartnerId(state: EuchreState, playerId: string): string {
+    const idx = state.playOrder.indexOf(playerId);
+    return state.playOrder[(idx + 2) % state.playOrder.length];
+}
+
+/**
+ * Team the player sits on, or undefined if they aren't seated.
+ */
+export function getPlayerTeamId(
+    state: Pick<EuchreState, "teams">,
+    playerId: string
+): number | undefined {
+    const entry = Object.entries(state.teams).find(([, team]) =>
+        team.players.includes(playerId)
+    );
+    return entry ? Number(entry[0]) : undefined;
+}
@@ -0,0 +1,73 @@
+import {
+    EuchreScoreBreakdown,
+    EuchreState,
+    EUCHRE_HAND_SIZE,
+    EUCHRE_POINTS,
+    EUCHRE_TRICKS_TO_MAKE,
+} from "@family-games/shared";
+
+interface ScoreResult {
+    teamScores: Record<number, number>;
+    scoreBreakdown: Record<number, EuchreScoreBreakdown>;
+}
+
+/**
+ * Tricks each team has taken this hand.
+ */
+export function countTeamTricks(state: EuchreState): Record<number, number> {
+    return Object.fromEntries(
+        Object.entries(state.teams).map(([teamId, team]) => [
+            Number(teamId),
+            team.players.reduce(
+                (sum, playerId) =>
+                    sum + (state.roundTrickCounts[playerId] ?? 0),
+                0
+            ),
+        ])
+    );
+}
+
+/**
+ * Calculates scores for a completed Euchre hand. The makers score 1 for
+ * three or four tricks and 2 for a march (4 if they went alone); if
+ * they're euchred the defenders score 2.
+ * @param state The EuchreState at end of hand
+ * @returns ScoreResult with new team scores and a breakdown for each team
+ */
+export function calculateEuchreScores(state: EuchreState): ScoreResult {
+    const { contract } = state;
+    const tricks = countTeamTricks(state);
+    const makerTricks = contract ? tricks[contract.teamId] : 0;
+    const march = makerTricks === EUCHRE_HAND_SIZE;
+    const euchred = makerTricks < EUCHRE_TRICKS_TO_MAKE;
+
+    const teamScores: Record<number, number> = {};
+    const scoreBreakdown: Record<number, EuchreScoreBreakdown> = {};
+
+    for (const [id, team] of Object.entries(state.teams)) {
+        const teamId = Number(id);
+        const isMaker = contract?.teamId === teamId;
+
+        let roundScore = 0;
+        if (isMaker && !euchred) {
+            if (!march) roundScore = EUCHRE_POINTS.made;
+            else if (contract?.alone) roundScore = EUCHRE_POINTS.marchAlone;
+            else roundScore = EUCHRE_POINTS.march;
+        } else if (!isMaker && euchred) {
+            roundScore = EUCHRE_POINTS.euchre;
+        }
+
+        teamScores[teamId] = team.score + roundScore;
+        scoreBreakdown[teamId] = {
+            previousScore: team.score,
+            tricks: tricks[teamId],
+            isMaker,
+            march: isMaker && march,
+            euchred: isMaker && euchred,
+            roundScore,
+            newScore: teamScores[teamId],
+        };
+    }
+
+    return { teamScores, scoreBreakdown };
+}
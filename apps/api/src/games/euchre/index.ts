@@ -0,0 +1,722 @@
+// src/games/euchre/index.ts
+import {
+    Room,
+    User,
+    EuchreSettings,
+    DEFAULT_EUCHRE_SETTINGS,
+    EUCHRE_SETTINGS_DEFINITIONS,
+    EUCHRE_TEAM_REQUIREMENTS,
+    EUCHRE_TOTAL_PLAYERS,
+    EuchreCallingRound,
+    EuchreContract,
+    EuchrePhase,
+    EuchreScoreBreakdown,
+    EuchreTeam,
+    Card,
+    Suit,
+    Trick,
+    BotDifficulty,
+    DealInfo,
+    STANDARD_SUITS,
+    canCallTrump,
+    drawFirstDealer,
+} from "@family-games/shared";
+import { GameModule, GameState, GameAction } from "../../services/GameManager";
+import { v4 as uuidv4 } from "uuid";
+import {
+    currentPlayerId,
+    dealEuchreHands,
+    getPartnerId,
+    getPlayerTeamId,
+    getTrickRules,
+    sortEuchreHand,
+} from "./helpers/card";
+import { calculateEuchreScores } from "./helpers/score";
+import { omitFields } from "../../utils/omitFields";
+import {
+    handlePlayerReconnect,
+    handlePlayerDisconnect,
+    checkAllPlayersConnected,
+    createDeal,
+    withDealtHands,
+    getPublicDeals,
+    openContinueGate,
+    acknowledgeContinue,
+    assertCanForceContinue,
+    getOpposingPlayers,
+    trackUndo,
+    requestUndo,
+    respondToUndo,
+    ROUND_SUMMARY_CONTINUE_MS,
+    isSameCard,
+    playTrickCard,
+    isHandOver,
+    getNextActiveIndex,
+    acknowledgeTrickResult,
+    continueAfterTrickResult,
+} from "../shared";
+import { turnTimerService } from "../../services/TurnTimerService";
+import {
+    getAutoCall,
+    getAutoDiscard,
+    getAutoPlayCard,
+    shouldTimerBeActive,
+} from "./helpers/autoAction";
+import { BotCall, getBotCall, getBotCard, getBotDiscard } from "./helpers/bot";
+
+const EUCHRE_NAME = "euchre";
+const EUCHRE_DISPLAY_NAME = "Euchre";
+// Plays a player can ask to take back (REQUEST_UNDO)
+const UNDOABLE_ACTIONS = ["PLAY_CARD"];
+
+const EUCHRE_METADATA = {
+    type: EUCHRE_NAME,
+    displayName: EUCHRE_DISPLAY_NAME,
+    description:
+        "A fast partnership trick-taking game with a 24-card deck. Order up trump, watch out for the bowers, and go alone for a march!",
+    requiresTeams: true,
+    minPlayers: EUCHRE_TOTAL_PLAYERS,
+    maxPlayers: EUCHRE_TOTAL_PLAYERS,
+    numTeams: EUCHRE_TEAM_REQUIREMENTS.numTeams,
+    playersPerTeam: EUCHRE_TEAM_REQUIREMENTS.playersPerTeam,
+    settingsDefinitions: EUCHRE_SETTINGS_DEFINITIONS,
+    defaultSettings: DEFAULT_EUCHRE_SETTINGS,
+};
+
+export interface EuchreState extends GameState {
+    teams: Record<number, EuchreTeam>;
+    playOrder: string[]; // Partners sit across from each other
+    currentTurnIndex: number;
+    dealerIndex: number;
+
+    hands: Record<string, Card[]>;
+    kitty: Card[]; // The three undealt cards under the upcard
+    upcard: Card; // Turned up for the first calling round, then turned down
+    callingRound: EuchreCallingRound;
+    passes: string[]; // Players who have passed in the current calling round
+
+    contract: EuchreContract | null;
+    trumpSuit: Suit | null;
+    sittingOut: string[]; // The partner of a player going alone
+
+    currentTrick: Trick | null;
+    completedTricks: Trick[];
+    phase: EuchrePhase;
+    round: number;
+    deals: DealInfo[]; // Seed, commitment and hands for every deal, misdeals included
+    history: string[]; // Action history for debugging
+    settings: EuchreSettings;
+    winnerTeamId?: number;
+    isTie?: boolean;
+
+    lastTrickWinnerId?: string;
+    lastTrickWinningCard?: Card;
+
+    roundTrickCounts: Record<string, number>;
+    roundTeamScores: Record<number, number>;
+    roundScoreBreakdown: Record<number, EuchreScoreBreakdown>;
+
+    /** ISO timestamp when the current turn started (for turn timer) */
+    turnStartedAt?: string;
+}
+
+function init(
+    room: Room,
+    customSettings?: Partial<EuchreSettings>
+): EuchreState {
+    const players: Record<string, User> = Object.fromEntries(
+        room.users.map((user) => [user.id, user])
+    );
+    const settings: EuchreSettings = {
+        ...DEFAULT_EUCHRE_SETTINGS,
+        ...customSettings,
+    };
+    const teams: Record<number, EuchreTeam> = Object.fromEntries(
+        room.teams?.map((team, index) => [
+            index,
+            { players: team, score: 0 },
+        ]) || []
+    );
+
+    // Partners sit across from each other: alternate the two teams
+    const playOrder: string[] = [];
+    for (let i = 0; i < EUCHRE_TEAM_REQUIREMENTS.playersPerTeam; i++) {
+        for (let j = 0; j < EUCHRE_TEAM_REQUIREMENTS.numTeams; j++) {
+            const playerId = teams[j]?.players[i];
+            if (playerId) playOrder.push(playerId);
+        }
+    }
+    if (playOrder.length !== EUCHRE_TOTAL_PLAYERS) {
+        throw new Error(
+            `Euchre requires ${EUCHRE_TEAM_REQUIREMENTS.numTeams} teams of ${EUCHRE_TEAM_REQUIREMENTS.playersPerTeam} players.`
+        );
+    }
+
+    // The first dealer is drawn from the round's seed too
+    const { deal, rng } = createDeal(1);
+    const dealerIndex = drawFirstDealer(playOrder.length, rng);
+    const { hands, upcard, kitty } = dealEuchreHands(playOrder, rng);
+
+    return {
+        id: uuidv4(),
+        roomId: room.id,
+        version: 0,
+        type: EUCHRE_NAME,
+
+        players,
+        leaderId: room.leaderId ?? playOrder[dealerIndex],
+        teams,
+        playOrder,
+        dealerIndex,
+        // Calling starts left of the dealer
+        currentTurnIndex: (dealerIndex + 1) % playOrder.length,
+
+        hands,
+        kitty,
+        upcard,
+        callingRound: 1,
+        passes: [],
+
+        contract: null,
+        trumpSuit: null,
+        sittingOut: [],
+
+        currentTrick: null,
+        completedTricks: [],
+        phase: "calling",
+        round: 1,
+        deals: [withDealtHands(deal, hands)],
+        settings,
+        history: [],
+
+        roundTrickCounts: {},
+        roundTeamScores: {},
+        roundScoreBreakdown: {},
+
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+function reducer(state: EuchreState, action: GameAction): EuchreState {
+    logHistory(state, action);
+    switch (action.type) {
+        case "REQUEST_UNDO":
+            return requestUndo(
+                state,
+                action.userId,
+                getOpposingPlayers(state.playOrder, state.teams, action.userId)
+            );
+        case "RESPOND_UNDO":
+            return respondToUndo(
+                state,
+                action.userId,
+                action.payload?.approve === true
+            );
+        default:
+            return trackUndo(
+                state,
+                applyAction(state, action),
+                action,
+                UNDOABLE_ACTIONS
+            );
+    }
+}
+
+function applyAction(state: EuchreState, action: GameAction): EuchreState {
+    switch (action.type) {
+        case "CALL_TRUMP":
+            return handleCallTrump(
+                state,
+                action.userId,
+                action.payload?.trumpSuit,
+                action.payload?.alone === true
+            );
+        case "PASS":
+            return handlePass(state, action.userId);
+        case "DISCARD":
+            return handleDiscard(state, action.userId, action.payload.card);
+        case "PLAY_CARD":
+            return handlePlayCard(state, action.userId, action.payload.card);
+        case "CONTINUE_AFTER_TRICK_RESULT":
+            return acknowledgeTrickResult(state, action.userId);
+        case "CONTINUE_AFTER_ROUND_SUMMARY": {
+            if (state.phase !== "round-summary") return state;
+            const continueGate = acknowledgeContinue(
+                state.continueGate,
+                action.userId
+            );
+            return continueGate
+                ? { ...state, continueGate }
+                : startNextRound(state);
+        }
+        case "FORCE_CONTINUE":
+            assertCanForceContinue(state, action.userId);
+            if (state.phase === "trick-result") {
+                return continueAfterTrickResult(state);
+            }
+            if (state.phase === "round-summary") {
+                return startNextRound(state);
+            }
+            return state;
+        default:
+            return state;
+    }
+}
+
+/**
+ * Deal a new hand with the deal passed to the left. A thrown-in hand is
+ * redealt under the same round number.
+ */
+function dealHand(state: EuchreState, round: number): EuchreState {
+    const dealerIndex = (state.dealerIndex + 1) % state.playOrder.length;
+    const { deal, rng } = createDeal(round);
+    const { hands, upcard, kitty } = dealEuchreHands(state.playOrder, rng);
+
+    return {
+        ...state,
+        hands,
+        kitty,
+        upcard,
+        callingRound: 1,
+        passes: [],
+        contract: null,
+        trumpSuit: null,
+        sittingOut: [],
+        currentTrick: null,
+        completedTricks: [],
+        currentTurnIndex: (dealerIndex + 1) % state.playOrder.length,
+        dealerIndex,
+        phase: "calling",
+        round,
+        continueGate: null,
+        deals: [...state.deals, withDealtHands(deal, hands)],
+        lastTrickWinnerId: undefined,
+        lastTrickWinningCard: undefined,
+        roundTrickCounts: {},
+        roundTeamScores: {},
+        roundScoreBreakdown: {},
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Leave the round summary and deal the next hand.
+ */
+function startNextRound(state: EuchreState): EuchreState {
+    return dealHand(state, state.round + 1);
+}
+
+function getState(state: EuchreState): Partial<EuchreState> {
+    const publicState = omitFields(state, [
+        "hands",
+        "kitty",
+        "undoSnapshot",
+    ]) as Partial<EuchreState> & {
+        handsCounts?: Record<string, number>;
+        kittyCount?: number;
+        undoPlayerId?: string | null;
+        turnTimer?: { startedAt: number; duration: number; serverTime: number };
+    };
+    publicState.handsCounts = Object.fromEntries(
+        state.playOrder.map((id) => [id, state.hands[id]?.length || 0])
+    );
+    publicState.kittyCount = state.kitty.length;
+    publicState.undoPlayerId = state.undoSnapshot?.playerId ?? null;
+    // Reveal the round's seed once the round is over
+    publicState.deals = getPublicDeals(
+        state.deals,
+        ["round-summary", "finished"].includes(state.phase)
+    );
+
+    // Include turn timer info for client-side sync with latency compensation
+    const turnTimeLimit = state.settings?.turnTimeLimit;
+    if (turnTimeLimit && turnTimeLimit > 0) {
+        const timerState = turnTimerService.getTimerState(state.id);
+        const now = Date.now();
+
+        if (timerState && timerState.startedAt) {
+            publicState.turnTimer = {
+                startedAt: timerState.startedAt,
+                duration: turnTimeLimit * 1000,
+                serverTime: now,
+            };
+        } else if (state.turnStartedAt && shouldTimerBeActive(state)) {
+            const startTime = new Date(state.turnStartedAt).getTime();
+            publicState.turnTimer = {
+                startedAt: startTime,
+                duration: turnTimeLimit * 1000,
+                serverTime: now,
+            };
+        }
+    }
+
+    return publicState;
+}
+
+function getPlayerState(
+    state: EuchreState,
+    playerId: string
+): { hand: Card[]; localOrdering: string[] } {
+    const idx = state.playOrder.indexOf(playerId);
+    const localOrdering = [
+        ...state.playOrder.slice(idx),
+        ...state.playOrder.slice(0, idx),
+    ];
+
+    return {
+        hand: state.hands[playerId] || [],
+        localOrdering,
+    };
+}
+
+export const euchreModule: GameModule = {
+    init,
+    reducer,
+    getState,
+    getPlayerState,
+    checkMinimumPlayers,
+    handlePlayerReconnect,
+    handlePlayerDisconnect,
+    getTimedPlayer,
+    getAutoAction,
+    getBotAction,
+    metadata: EUCHRE_METADATA,
+};
+
+/**
+ * Check that it's this player's turn to call trump or pass.
+ */
+function assertCanCall(state: EuchreState, playerId: string): void {
+    if (state.phase !== "calling") {
+        throw new Error("Trump can only be called before the hand is played.");
+    }
+    if (!state.playOrder.includes(playerId)) {
+        throw new Error("You're not in this game.");
+    }
+    if (currentPlayerId(state) !== playerId) {
+        throw new Error("Not your turn to call trump.");
+    }
+    if (state.players[playerId]?.isConnected === false) {
+        throw new Error("You've been disconnected. Please refresh to rejoin.");
+    }
+}
+
+/**
+ * Handles a trump call. The first time round a player can only order
+ * up the upcard, which goes to the dealer; after that they can name any
+ * other suit. Going alone sits the caller's partner out for the hand.
+ * @param state Current EuchreState
+ * @param playerId The player calling
+ * @param trumpSuit The suit called
+ * @param alone Whether the caller plays without their partner
+ * @returns Updated EuchreState
+ */
+function handleCallTrump(
+    state: EuchreState,
+    playerId: string,
+    trumpSuit: Suit | undefined,
+    alone: boolean
+): EuchreState {
+    assertCanCall(state, playerId);
+
+    if (!trumpSuit || !STANDARD_SUITS.includes(trumpSuit)) {
+        throw new Error("Choose a trump suit.");
+    }
+    if (!canCallTrump(trumpSuit, state.upcard.suit, state.callingRound)) {
+        throw new Error(
+            state.callingRound === 1
+                ? `Only ${state.upcard.suit} can be ordered up - pass to name another suit.`
+                : `${state.upcard.suit} was turned down - name another suit.`
+        );
+    }
+
+    const sittingOut = alone ? [getPartnerId(state, playerId)] : [];
+    const hands = Object.fromEntries(
+        Object.entries(state.hands).map(([id, hand]) => [
+            id,
+            sortEuchreHand(hand, trumpSuit),
+        ])
+    );
+    const called: EuchreState = {
+        ...state,
+        hands,
+        contract: {
+            makerId: playerId,
+            teamId: getPlayerTeamId(state, playerId)!,
+            trumpSuit,
+            alone,
+        },
+        trumpSuit,
+        sittingOut,
+        passes: [],
+    };
+
+    // Ordered up: the dealer takes the upcard and discards, unless
+    // they're sitting out for a partner going alone
+    const dealerId = state.playOrder[state.dealerIndex];
+    if (state.callingRound === 1 && !sittingOut.includes(dealerId)) {
+        return {
+            ...called,
+            hands: {
+                ...hands,
+                [dealerId]: sortEuchreHand(
+                    [...hands[dealerId], state.upcard],
+                    trumpSuit
+                ),
+            },
+            phase: "discarding",
+            currentTurnIndex: state.dealerIndex,
+            turnStartedAt: new Date().toISOString(),
+        };
+    }
+    return startPlay(called);
+}
+
+/**
+ * Handles a pass. Once everyone passes the upcard is turned down for a
+ * second round of calling; if everyone passes again the hand is thrown
+ * in, unless the dealer is stuck with naming trump.
+ * @param state Current EuchreState
+ * @param playerId The player passing
+ * @returns Updated EuchreState
+ */
+function handlePass(state: EuchreState, playerId: string): EuchreState {
+    assertCanCall(state, playerId);
+
+    const isDealer = state.currentTurnIndex === state.dealerIndex;
+    if (state.callingRound === 2 && isDealer && state.settings.stickTheDealer) {
+        throw new Error("Stick the dealer - you must name trump.");
+    }
+
+    const passes = [...state.passes, playerId];
+    if (passes.length < state.playOrder.length) {
+        return {
+            ...state,
+            passes,
+            currentTurnIndex:
+                (state.currentTurnIndex + 1) % state.playOrder.length,
+            turnStartedAt: new Date().toISOString(),
+        };
+    }
+
+    if (state.callingRound === 2) return dealHand(state, state.round);
+
+    return {
+        ...state,
+        callingRound: 2,
+        passes: [],
+        currentTurnIndex: (state.dealerIndex + 1) % state.playOrder.length,
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * The dealer discards one card after picking up the upcard.
+ * @param state Current EuchreState
+ * @param playerId The dealer
+ * @param card The card to discard
+ * @returns Updated EuchreState
+ */
+function handleDiscard(
+    state: EuchreState,
+    playerId: string,
+    card: Card
+): EuchreState {
+    if (state.phase !== "discarding") {
+        throw new Error(
+            "Cards can only be discarded after picking up the upcard."
+        );
+    }
+    if (state.playOrder[state.dealerIndex] !== playerId) {
+        throw new Error("Only the dealer can discard.");
+    }
+    if (state.players[playerId]?.isConnected === false) {
+        throw new Error("You've been disconnected. Please refresh to rejoin.");
+    }
+
+    const hand = state.hands[playerId] || [];
+    const discard = card && hand.find((c) => isSameCard(c, card));
+    if (!discard) throw new Error("Card not in player's hand.");
+
+    return startPlay({
+        ...state,
+        hands: {
+            ...state.hands,
+            [playerId]: hand.filter((c) => c !== discard),
+        },
+        kitty: [...state.kitty, discard],
+    });
+}
+
+/**
+ * Trump is set: the first player left of the dealer who isn't sitting
+ * out leads.
+ */
+function startPlay(state: EuchreState): EuchreState {
+    return {
+        ...state,
+        phase: "playing",
+        currentTurnIndex: getNextActiveIndex(state, state.dealerIndex),
+        roundTrickCounts: Object.fromEntries(
+            state.playOrder.map((id) => [id, 0])
+        ),
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+function handlePlayCard(
+    state: EuchreState,
+    playerId: string,
+    card: Card
+): EuchreState {
+    const next = playTrickCard(state, playerId, card, getTrickRules(state));
+    return isHandOver(next) ? scoreRound(next) : next;
+}
+
+/**
+ * Score the hand once its last trick is played, then show the round
+ * summary - or finish the game once a team reaches the target or the
+ * round limit is played.
+ */
+function scoreRound(state: EuchreState): EuchreState {
+    const { teamScores, scoreBreakdown } = calculateEuchreScores(state);
+    const roundTeamScores: Record<number, number> = Object.fromEntries(
+        Object.entries(scoreBreakdown).map(([teamId, breakdown]) => [
+            Number(teamId),
+            breakdown.roundScore,
+        ])
+    );
+
+    const { winTarget, roundLimit } = state.settings;
+    const teamIds = Object.keys(teamScores).map(Number);
+    const highScore = Math.max(...teamIds.map((id) => teamScores[id]));
+    const leaders = teamIds.filter((id) => teamScores[id] === highScore);
+
+    let winnerTeamId: number | undefined = undefined;
+    let isTie: boolean | undefined = undefined;
+    if (highScore >= winTarget) {
+        // Only one team scores a hand, so only one can reach the target
+        winnerTeamId = leaders[0];
+    } else if (roundLimit !== null && state.round >= roundLimit) {
+        if (leaders.length === 1) {
+            winnerTeamId = leaders[0];
+        } else {
+            isTie = true;
+        }
+    }
+    const isGameOver = winnerTeamId !== undefined || isTie === true;
+
+    // Note: turnStartedAt is NOT set here - timer starts after the round summary
+    return {
+        ...state,
+        currentTrick: null,
+        phase: isGameOver ? "finished" : "round-summary",
+        continueGate: isGameOver
+            ? null
+            : openContinueGate(
+                  state,
+                  state.playOrder,
+                  ROUND_SUMMARY_CONTINUE_MS
+              ),
+        teams: Object.fromEntries(
+            Object.entries(state.teams).map(([teamId, team]) => [
+                Number(teamId),
+                { ...team, score: teamScores[Number(teamId)] },
+            ])
+        ),
+        winnerTeamId,
+        isTie,
+        lastTrickWinnerId: undefined,
+        lastTrickWinningCard: undefined,
+        roundTeamScores,
+        roundScoreBreakdown: scoreBreakdown,
+    };
+}
+
+function logHistory(state: EuchreState, action: GameAction): void {
+    state.history.push(
+        `Action: ${action.type}, Player: ${action.userId}, Payload: ${JSON.stringify(action.payload)}`
+    );
+}
+
+/**
+ * Check if the game has minimum players connected to continue.
+ * For Euchre, every seated player must be connected to play.
+ */
+function checkMinimumPlayers(state: EuchreState): boolean {
+    return checkAllPlayersConnected(state, state.playOrder.length);
+}
+
+/**
+ * Turn timer hook: the current player is timed while calling and
+ * playing; the dealer while discarding.
+ */
+function getTimedPlayer(state: EuchreState): string | null {
+    return shouldTimerBeActive(state) ? currentPlayerId(state) : null;
+}
+
+/**
+ * Build the action for the current phase from a trump call, discard
+ * and card choice.
+ */
+function buildPhaseAction(
+    state: EuchreState,
+    playerId: string,
+    choose: {
+        call: () => BotCall | null;
+        discard: () => Card;
+        card: () => Card | null;
+    }
+): GameAction | null {
+    switch (state.phase) {
+        case "calling": {
+            const call = choose.call();
+            return call
+                ? { type: "CALL_TRUMP", userId: playerId, payload: call }
+                : { type: "PASS", userId: playerId, payload: {} };
+        }
+        case "discarding":
+            return {
+                type: "DISCARD",
+                userId: playerId,
+                payload: { card: choose.discard() },
+            };
+        case "playing": {
+            const card = choose.card();
+            if (!card) return null;
+            return { type: "PLAY_CARD", userId: playerId, payload: { card } };
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Turn timer hook: call or pass, discard and play as a hard bot would.
+ */
+function getAutoAction(
+    state: EuchreState,
+    playerId: string
+): GameAction | null {
+    return buildPhaseAction(state, playerId, {
+        call: () => getAutoCall(state, playerId),
+        discard: () => getAutoDiscard(state, playerId),
+        card: () => getAutoPlayCard(state, playerId),
+    });
+}
+
+/**
+ * Bot hook: call trump from the strength of the hand, then discard and
+ * play strategically.
+ */
+function getBotAction(
+    state: EuchreState,
+    playerId: string,
+    difficulty: BotDifficulty
+): GameAction | null {
+    return buildPhaseAction(state, playerId, {
+        call: () => getBotCall(state, playerId, difficulty),
+        discard: () => getBotDiscard(state, playerId, difficulty),
+        card: () => getBotCard(state, playerId, difficulty),
+    });
+}
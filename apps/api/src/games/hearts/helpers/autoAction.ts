@@ -0,0 +1,46 @@
+// src/games/hearts/helpers/autoAction.ts
+
+/**
+ * Auto-action helpers for Hearts.
+ * Used when a player times out and the server needs to act on their behalf.
+ */
+
+import { HeartsState, Card } from "@family-games/shared";
+import { getBotCard, getBotPass } from "./bot";
+
+/**
+ * Get the cards to pass for a player who timed out during passing.
+ * Passes like a hard bot: the Q♠, high spades and high hearts first.
+ *
+ * @param state - The current game state
+ * @param playerId - The player who timed out
+ * @returns The cards to pass
+ */
+export function getAutoPass(state: HeartsState, playerId: string): Card[] {
+    return getBotPass(state, playerId, "hard");
+}
+
+/**
+ * Get the auto-play card for a player who timed out during playing.
+ * Plays like a hard bot: ducks under the winning card where it can and
+ * dumps the Q♠ and high hearts when void in the led suit.
+ *
+ * @param state - The current game state
+ * @param playerId - The player who timed out
+ * @returns The card to play, or null if no legal card (shouldn't happen)
+ */
+export function getAutoPlayCard(
+    state: HeartsState,
+    playerId: string
+): Card | null {
+    return getBotCard(state, playerId, "hard");
+}
+
+/**
+ * The player the passing phase waits on. Everyone passes at once, so
+ * bots go first and then each remaining player is timed in seat order.
+ */
+export function getWaitingPasser(state: HeartsState): string | null {
+    const waiting = state.playOrder.filter((id) => !state.passedCards[id]);
+    return waiting.find((id) => state.players[id]?.isBot) ?? waiting[0] ?? null;
+}
@@ -0,0 +1,174 @@
+// src/games/hearts/helpers/bot.ts
+
+/**
+ * Bot strategy for Hearts.
+ *
+ * Easy bots pass their highest cards and always play their lowest legal
+ * card. Hard bots pass the Q♠, high spades and high hearts, duck under the
+ * winning card whenever they can, and dump the Q♠ and high hearts when
+ * they can't follow suit. Neither tries to shoot the moon.
+ */
+
+import {
+    HeartsState,
+    Card,
+    Rank,
+    Suit,
+    Trick,
+    BotDifficulty,
+    HEARTS_PASS_COUNT,
+    canPlayCard,
+    getWinningPlay,
+    isPointCard,
+    isQueenOfSpades,
+} from "@family-games/shared";
+import { getCardRankValue, getTrickRules } from "./card";
+
+// ============================================================================
+// Card Helpers
+// ============================================================================
+
+function lowestCard(cards: Card[]): Card {
+    return cards.reduce((low, card) =>
+        getCardRankValue(card) < getCardRankValue(low) ? card : low
+    );
+}
+
+function highestCard(cards: Card[]): Card {
+    return cards.reduce((high, card) =>
+        getCardRankValue(card) > getCardRankValue(high) ? card : high
+    );
+}
+
+function isHighSpade(card: Card): boolean {
+    return (
+        card.suit === Suit.Spades &&
+        (card.rank === Rank.Ace || card.rank === Rank.King)
+    );
+}
+
+/**
+ * True while the Q♠ is in someone else's hand.
+ */
+function isQueenOfSpadesOut(state: HeartsState, hand: Card[]): boolean {
+    const played = [
+        ...state.completedTricks.flatMap((trick) => trick.plays),
+        ...(state.currentTrick?.plays ?? []),
+    ].map((play) => play.card);
+    return ![...hand, ...played].some(isQueenOfSpades);
+}
+
+// ============================================================================
+// Passing
+// ============================================================================
+
+/**
+ * How much the bot wants to get rid of a card: the Q♠ first, then the
+ * A♠/K♠ that could catch it, then high hearts, then high cards in short
+ * suits. Low spades stay to guard against the queen.
+ */
+function passPriority(card: Card, hand: Card[]): number {
+    const rank = getCardRankValue(card);
+    if (isQueenOfSpades(card)) return 100;
+    if (isHighSpade(card)) return 80;
+    if (card.suit === Suit.Spades) return rank - 20;
+    if (card.suit === Suit.Hearts) return rank + 20;
+    const suitLength = hand.filter((c) => c.suit === card.suit).length;
+    return rank + (suitLength <= HEARTS_PASS_COUNT ? 5 : 0);
+}
+
+export function getBotPass(
+    state: HeartsState,
+    playerId: string,
+    difficulty: BotDifficulty
+): Card[] {
+    const hand = state.hands[playerId] || [];
+    const score = (card: Card) =>
+        difficulty === "easy"
+            ? getCardRankValue(card)
+            : passPriority(card, hand);
+    return [...hand]
+        .sort((a, b) => score(b) - score(a))
+        .slice(0, HEARTS_PASS_COUNT);
+}
+
+// ============================================================================
+// Playing
+// ============================================================================
+
+/**
+ * Lead the lowest card, keeping the Q♠ (and the A♠/K♠ while it's out)
+ * back so the bot doesn't win its own queen.
+ */
+function getHardLead(state: HeartsState, legal: Card[], hand: Card[]): Card {
+    const queenOut = isQueenOfSpadesOut(state, hand);
+    const safe = legal.filter(
+        (card) => !isQueenOfSpades(card) && !(queenOut && isHighSpade(card))
+    );
+    return lowestCard(safe.length > 0 ? safe : legal);
+}
+
+function getHardFollow(
+    state: HeartsState,
+    legal: Card[],
+    hand: Card[],
+    trick: Trick
+): Card {
+    const rules = getTrickRules(state);
+    const winning = getWinningPlay(trick, rules)!.card;
+    const ledSuit = trick.leadSuit;
+
+    // Void in the led suit: dump the most dangerous card
+    if (!legal.some((card) => card.suit === ledSuit)) {
+        const queen = legal.find(isQueenOfSpades);
+        if (queen) return queen;
+        const highSpades = legal.filter(isHighSpade);
+        if (highSpades.length > 0 && isQueenOfSpadesOut(state, hand)) {
+            return highestCard(highSpades);
+        }
+        const hearts = legal.filter((card) => card.suit === Suit.Hearts);
+        return highestCard(hearts.length > 0 ? hearts : legal);
+    }
+
+    // Duck with the highest card that still loses
+    const ducks = legal.filter(
+        (card) => getCardRankValue(card) < getCardRankValue(winning)
+    );
+    if (ducks.length > 0) return highestCard(ducks);
+
+    // Can't duck: shed the highest card (never the queen) while the trick
+    // is clean or nobody is left to play, otherwise stay low and hope a
+    // later player takes the points
+    const isLastToPlay = trick.plays.length === state.playOrder.length - 1;
+    const safe = legal.filter((card) => !isQueenOfSpades(card));
+    const options = safe.length > 0 ? safe : legal;
+    const hasPoints = trick.plays.some((play) => isPointCard(play.card));
+    return isLastToPlay || !hasPoints
+        ? highestCard(options)
+        : lowestCard(options);
+}
+
+export function getBotCard(
+    state: HeartsState,
+    playerId: string,
+    difficulty: BotDifficulty
+): Card | null {
+    const hand = state.hands[playerId] || [];
+    const trick: Trick = state.currentTrick || {
+        leaderId: playerId,
+        plays: [],
+        leadSuit: null,
+    };
+    const rules = getTrickRules(state);
+    const legal = hand.filter((card) => canPlayCard(card, hand, trick, rules));
+    if (legal.length === 0) return null;
+    if (legal.length === 1) return legal[0];
+
+    if (difficulty === "easy") {
+        return lowestCard(legal);
+    }
+
+    return trick.plays.length === 0
+        ? getHardLead(state, legal, hand)
+        : getHardFollow(state, legal, hand, trick);
+}
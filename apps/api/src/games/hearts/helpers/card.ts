@@ -0,0 +1,107 @@
+/* ------------------------------------------------------------------------
+   Card helpers – no game-state, no I/O
+   --------------------------------------------------------------------- */
+
+import {
+    HeartsPassDirection,
+    HeartsState,
+    Card,
+    Rank,
+    Suit,
+    STANDARD_RANK_ORDER,
+    TrickRules,
+    getHeartsTrickRules,
+    isTwoOfClubs,
+    dealHeartsRound,
+} from "@family-games/shared";
+import { sortHand } from "../../shared";
+
+/* ––––––––––––––––––––– CONSTANTS ––––––––––––––––––––– */
+
+// Hands show Clubs, Diamonds, Spades, then Hearts
+const HAND_SUIT_ORDER: Suit[] = [
+    Suit.Clubs,
+    Suit.Diamonds,
+    Suit.Spades,
+    Suit.Hearts,
+];
+
+// Seats from the passer to the receiver (seats run clockwise, left is next)
+const PASS_OFFSETS: Record<HeartsPassDirection, number> = {
+    left: 1,
+    across: 2,
+    right: 3,
+    hold: 0,
+};
+
+/* ––––––––––––––––– DEALING –––––––––––––––––––– */
+
+/**
+ * Shuffle a standard 52-card deck and deal all of it, 13 cards each.
+ */
+export function dealHeartsHands(
+    playOrder: string[],
+    rng: () => number
+): Record<string, Card[]> {
+    const { hands } = dealHeartsRound(playOrder, rng);
+    return Object.fromEntries(
+        Object.entries(hands).map(([playerId, hand]) => [
+            playerId,
+            sortHeartsHand(hand),
+        ])
+    );
+}
+
+/**
+ * Sort a hand by suit, then rank (Ace high).
+ */
+export function sortHeartsHand(hand: Card[]): Card[] {
+    return sortHand(hand, HAND_SUIT_ORDER, getCardRankValue);
+}
+
+/* ––––––––––––––––  SMALL UTILITIES –––––––––––––––––– */
+
+export function getCardRankValue(card: Card): number {
+    return STANDARD_RANK_ORDER.indexOf(card.rank as Rank);
+}
+
+/**
+ * The player who receives this player's passed cards.
+ */
+export function getPassTarget(
+    playOrder: string[],
+    playerId: string,
+    direction: HeartsPassDirection
+): string {
+    const idx = playOrder.indexOf(playerId);
+    return playOrder[(idx + PASS_OFFSETS[direction]) % playOrder.length];
+}
+
+/**
+ * Seat holding the 2♣, who leads the first trick.
+ */
+export function findTwoOfClubsIndex(
+    playOrder: string[],
+    hands: Record<string, Card[]>
+): number {
+    const idx = playOrder.findIndex((id) =>
+        (hands[id] || []).some(isTwoOfClubs)
+    );
+    return Math.max(idx, 0);
+}
+
+/**
+ * Rules for the current trick (the first trick and hearts broken matter).
+ */
+export function getTrickRules(
+    state: Pick<HeartsState, "heartsBroken" | "completedTricks">
+): TrickRules {
+    return getHeartsTrickRules(
+        state.heartsBroken,
+        state.completedTricks.length === 0
+    );
+}
+
+export function currentPlayerId(state: HeartsState): string {
+    return state.playOrder[state.currentTurnIndex];
+}
@@ -0,0 +1,79 @@
+import {
+    HeartsScoreBreakdown,
+    HeartsState,
+    Suit,
+    Trick,
+    HEARTS_MOON_POINTS,
+    getHeartsCardPoints,
+    isQueenOfSpades,
+} from "@family-games/shared";
+
+interface ScoreResult {
+    scores: Record<string, number>;
+    scoreBreakdown: Record<string, HeartsScoreBreakdown>;
+    moonShooterId?: string; // player who took every point
+}
+
+/**
+ * Points each player has taken in tricks so far this hand.
+ */
+export function countPointsTaken(
+    playOrder: string[],
+    completedTricks: Trick[]
+): Record<string, number> {
+    const points: Record<string, number> = Object.fromEntries(
+        playOrder.map((id) => [id, 0])
+    );
+    for (const trick of completedTricks) {
+        if (!trick.winnerId) continue;
+        for (const play of trick.plays) {
+            points[trick.winnerId] += getHeartsCardPoints(play.card);
+        }
+    }
+    return points;
+}
+
+/**
+ * Calculates scores for a completed Hearts hand. Taking every point
+ * shoots the moon: everyone else takes 26, or the shooter takes 26 off
+ * their own score, depending on the settings.
+ * @param state The HeartsState at end of hand
+ * @returns ScoreResult with new scores and a breakdown for each player
+ */
+export function calculateHeartsScores(state: HeartsState): ScoreResult {
+    const { playOrder, completedTricks, scores, settings } = state;
+    const points = countPointsTaken(playOrder, completedTricks);
+    const moonShooterId = playOrder.find(
+        (id) => points[id] === HEARTS_MOON_POINTS
+    );
+
+    const newScores: Record<string, number> = {};
+    const scoreBreakdown: Record<string, HeartsScoreBreakdown> = {};
+
+    playOrder.forEach((playerId) => {
+        const taken = completedTricks
+            .filter((trick) => trick.winnerId === playerId)
+            .flatMap((trick) => trick.plays.map((play) => play.card));
+
+        let roundScore = points[playerId];
+        if (moonShooterId && settings.shootTheMoon === "subtractFromSelf") {
+            roundScore = playerId === moonShooterId ? -HEARTS_MOON_POINTS : 0;
+        } else if (moonShooterId) {
+            roundScore = playerId === moonShooterId ? 0 : HEARTS_MOON_POINTS;
+        }
+
+        const previousScore = scores[playerId] ?? 0;
+        newScores[playerId] = previousScore + roundScore;
+        scoreBreakdown[playerId] = {
+            previousScore,
+            hearts: taken.filter((card) => card.suit === Suit.Hearts).length,
+            queenOfSpades: taken.some(isQueenOfSpades),
+            points: points[playerId],
+            shotTheMoon: playerId === moonShooterId,
+            roundScore,
+            newScore: newScores[playerId],
+        };
+    });
+
+    return { scores: newScores, scoreBreakdown, moonShooterId };
+}
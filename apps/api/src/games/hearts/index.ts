@@ -0,0 +1,584 @@
+// src/games/hearts/index.ts
+import {
+    Room,
+    User,
+    HeartsSettings,
+    DEFAULT_HEARTS_SETTINGS,
+    HEARTS_SETTINGS_DEFINITIONS,
+    HEARTS_TOTAL_PLAYERS,
+    HEARTS_PASS_COUNT,
+    HEARTS_PASS_ROTATION,
+    HeartsPhase,
+    HeartsPassDirection,
+    HeartsScoreBreakdown,
+    Card,
+    Suit,
+    Trick,
+    BotDifficulty,
+    DealInfo,
+    drawFirstDealer,
+} from "@family-games/shared";
+import { GameModule, GameState, GameAction } from "../../services/GameManager";
+import { v4 as uuidv4 } from "uuid";
+import {
+    currentPlayerId,
+    dealHeartsHands,
+    findTwoOfClubsIndex,
+    getPassTarget,
+    getTrickRules,
+    sortHeartsHand,
+} from "./helpers/card";
+import { calculateHeartsScores, countPointsTaken } from "./helpers/score";
+import { omitFields } from "../../utils/omitFields";
+import {
+    handlePlayerReconnect,
+    handlePlayerDisconnect,
+    checkAllPlayersConnected,
+    createDeal,
+    withDealtHands,
+    getPublicDeals,
+    openContinueGate,
+    acknowledgeContinue,
+    assertCanForceContinue,
+    getOpposingPlayers,
+    trackUndo,
+    requestUndo,
+    respondToUndo,
+    ROUND_SUMMARY_CONTINUE_MS,
+    isSameCard,
+    playTrickCard,
+    isHandOver,
+    acknowledgeTrickResult,
+    continueAfterTrickResult,
+} from "../shared";
+import { turnTimerService } from "../../services/TurnTimerService";
+import {
+    getAutoPass,
+    getAutoPlayCard,
+    getWaitingPasser,
+} from "./helpers/autoAction";
+import { getBotCard, getBotPass } from "./helpers/bot";
+
+const HEARTS_NAME = "hearts";
+const HEARTS_DISPLAY_NAME = "Hearts";
+// Plays a player can ask to take back (REQUEST_UNDO)
+const UNDOABLE_ACTIONS = ["PLAY_CARD"];
+
+const HEARTS_METADATA = {
+    type: HEARTS_NAME,
+    displayName: HEARTS_DISPLAY_NAME,
+    description:
+        "Pass three cards, then avoid taking hearts and the Queen of Spades. Take them all to shoot the moon! Lowest score when someone hits the point limit wins.",
+    requiresTeams: false,
+    minPlayers: HEARTS_TOTAL_PLAYERS,
+    maxPlayers: HEARTS_TOTAL_PLAYERS,
+    settingsDefinitions: HEARTS_SETTINGS_DEFINITIONS,
+    defaultSettings: DEFAULT_HEARTS_SETTINGS,
+};
+
+export interface HeartsState extends GameState {
+    playOrder: string[]; // Clockwise seat order; left is the next seat
+    currentTurnIndex: number;
+    dealerIndex: number;
+
+    hands: Record<string, Card[]>;
+    passDirection: HeartsPassDirection;
+    passedCards: Record<string, Card[]>; // Cards each player has chosen to pass
+    receivedCards: Record<string, Card[]>; // Cards each player was passed
+
+    heartsBroken: boolean;
+    currentTrick: Trick | null;
+    completedTricks: Trick[];
+    phase: HeartsPhase;
+    round: number;
+    deals: DealInfo[]; // Seed, commitment and hands for every round dealt so far
+    history: string[]; // Action history for debugging
+    settings: HeartsSettings;
+
+    scores: Record<string, number>;
+    roundPoints: Record<string, number>; // Points taken in tricks this round
+    roundScoreBreakdown: Record<string, HeartsScoreBreakdown>;
+    moonShooterId?: string;
+    winnerIds?: string[]; // Lowest score once the game is over
+
+    lastTrickWinnerId?: string;
+    lastTrickWinningCard?: Card;
+    roundTrickCounts: Record<string, number>;
+
+    /** ISO timestamp when the current turn started (for turn timer) */
+    turnStartedAt?: string;
+}
+
+function init(
+    room: Room,
+    customSettings?: Partial<HeartsSettings>
+): HeartsState {
+    if (room.users.length !== HEARTS_TOTAL_PLAYERS) {
+        throw new Error(`Hearts requires ${HEARTS_TOTAL_PLAYERS} players.`);
+    }
+
+    const players: Record<string, User> = Object.fromEntries(
+        room.users.map((user) => [user.id, user])
+    );
+    const playOrder = room.users.map((user) => user.id);
+    const settings: HeartsSettings = {
+        ...DEFAULT_HEARTS_SETTINGS,
+        ...customSettings,
+    };
+    // The first dealer is drawn from the round's seed too
+    const { deal, rng } = createDeal(1);
+    const dealerIndex = drawFirstDealer(playOrder.length, rng);
+    const hands = dealHeartsHands(playOrder, rng);
+
+    return {
+        id: uuidv4(),
+        roomId: room.id,
+        version: 0,
+        type: HEARTS_NAME,
+
+        players,
+        leaderId: room.leaderId ?? playOrder[0],
+        playOrder,
+        dealerIndex,
+        currentTurnIndex: dealerIndex,
+
+        hands,
+        passDirection: HEARTS_PASS_ROTATION[0],
+        passedCards: {},
+        receivedCards: {},
+
+        heartsBroken: false,
+        currentTrick: null,
+        completedTricks: [],
+        phase: "passing",
+        round: 1,
+        deals: [withDealtHands(deal, hands)],
+        settings,
+        history: [],
+
+        scores: Object.fromEntries(playOrder.map((id) => [id, 0])),
+        roundPoints: {},
+        roundScoreBreakdown: {},
+        roundTrickCounts: {},
+
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+function reducer(state: HeartsState, action: GameAction): HeartsState {
+    logHistory(state, action);
+    switch (action.type) {
+        case "REQUEST_UNDO":
+            return requestUndo(
+                state,
+                action.userId,
+                getOpposingPlayers(state.playOrder, undefined, action.userId)
+            );
+        case "RESPOND_UNDO":
+            return respondToUndo(
+                state,
+                action.userId,
+                action.payload?.approve === true
+            );
+        default:
+            return trackUndo(
+                state,
+                applyAction(state, action),
+                action,
+                UNDOABLE_ACTIONS
+            );
+    }
+}
+
+function applyAction(state: HeartsState, action: GameAction): HeartsState {
+    switch (action.type) {
+        case "PASS_CARDS":
+            return handlePassCards(state, action.userId, action.payload.cards);
+        case "PLAY_CARD":
+            return handlePlayCard(state, action.userId, action.payload.card);
+        case "CONTINUE_AFTER_TRICK_RESULT":
+            return acknowledgeTrickResult(state, action.userId);
+        case "CONTINUE_AFTER_ROUND_SUMMARY": {
+            if (state.phase !== "round-summary") return state;
+            const continueGate = acknowledgeContinue(
+                state.continueGate,
+                action.userId
+            );
+            return continueGate
+                ? { ...state, continueGate }
+                : startNextRound(state);
+        }
+        case "FORCE_CONTINUE":
+            assertCanForceContinue(state, action.userId);
+            if (state.phase === "trick-result") {
+                return continueAfterTrickResult(state);
+            }
+            if (state.phase === "round-summary") {
+                return startNextRound(state);
+            }
+            return state;
+        default:
+            return state;
+    }
+}
+
+/**
+ * Leave the round summary: deal the next round, passing in the next
+ * direction of the rotation.
+ */
+function startNextRound(state: HeartsState): HeartsState {
+    const round = state.round + 1;
+    const dealerIndex = (state.dealerIndex + 1) % state.playOrder.length;
+    const { deal, rng } = createDeal(round);
+    const hands = dealHeartsHands(state.playOrder, rng);
+    const passDirection =
+        HEARTS_PASS_ROTATION[(round - 1) % HEARTS_PASS_ROTATION.length];
+
+    const next: HeartsState = {
+        ...state,
+        hands,
+        passDirection,
+        passedCards: {},
+        receivedCards: {},
+        heartsBroken: false,
+        currentTrick: null,
+        completedTricks: [],
+        currentTurnIndex: dealerIndex,
+        dealerIndex,
+        phase: "passing",
+        round,
+        continueGate: null,
+        deals: [...state.deals, withDealtHands(deal, hands)],
+        roundPoints: {},
+        roundScoreBreakdown: {},
+        moonShooterId: undefined,
+        lastTrickWinnerId: undefined,
+        lastTrickWinningCard: undefined,
+        roundTrickCounts: {},
+        turnStartedAt: new Date().toISOString(),
+    };
+    return passDirection === "hold" ? startPlay(next) : next;
+}
+
+/**
+ * Begin the hand: the holder of the 2♣ leads the first trick.
+ */
+function startPlay(state: HeartsState): HeartsState {
+    return {
+        ...state,
+        phase: "playing",
+        currentTurnIndex: findTwoOfClubsIndex(state.playOrder, state.hands),
+        roundPoints: Object.fromEntries(state.playOrder.map((id) => [id, 0])),
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
+function getState(state: HeartsState): Partial<HeartsState> {
+    const publicState = omitFields(state, [
+        "hands",
+        "passedCards",
+        "receivedCards",
+        "undoSnapshot",
+    ]) as Partial<HeartsState> & {
+        handsCounts?: Record<string, number>;
+        passedPlayerIds?: string[];
+        undoPlayerId?: string | null;
+        turnTimer?: { startedAt: number; duration: number; serverTime: number };
+    };
+    publicState.handsCounts = Object.fromEntries(
+        state.playOrder.map((id) => [id, state.hands[id]?.length || 0])
+    );
+    publicState.passedPlayerIds = state.playOrder.filter(
+        (id) => state.passedCards[id]
+    );
+    publicState.undoPlayerId = state.undoSnapshot?.playerId ?? null;
+    // Reveal the round's seed once the round is over
+    publicState.deals = getPublicDeals(
+        state.deals,
+        ["round-summary", "finished"].includes(state.phase)
+    );
+
+    // Include turn timer info for client-side sync with latency compensation
+    const turnTimeLimit = state.settings?.turnTimeLimit;
+    if (turnTimeLimit && turnTimeLimit > 0) {
+        const timerState = turnTimerService.getTimerState(state.id);
+        const now = Date.now();
+
+        if (timerState && timerState.startedAt) {
+            publicState.turnTimer = {
+                startedAt: timerState.startedAt,
+                duration: turnTimeLimit * 1000,
+                serverTime: now,
+            };
+        } else if (
+            state.turnStartedAt &&
+            (state.phase === "passing" || state.phase === "playing")
+        ) {
+            const startTime = new Date(state.turnStartedAt).getTime();
+            publicState.turnTimer = {
+                startedAt: startTime,
+                duration: turnTimeLimit * 1000,
+                serverTime: now,
+            };
+        }
+    }
+
+    return publicState;
+}
+
+function getPlayerState(
+    state: HeartsState,
+    playerId: string
+): {
+    hand: Card[];
+    passedCards: Card[];
+    receivedCards: Card[];
+    localOrdering: string[];
+} {
+    const idx = state.playOrder.indexOf(playerId);
+    const localOrdering = [
+        ...state.playOrder.slice(idx),
+        ...state.playOrder.slice(0, idx),
+    ];
+
+    return {
+        hand: state.hands[playerId] || [],
+        passedCards: state.passedCards[playerId] || [],
+        receivedCards: state.receivedCards[playerId] || [],
+        localOrdering,
+    };
+}
+
+export const heartsModule: GameModule = {
+    init,
+    reducer,
+    getState,
+    getPlayerState,
+    checkMinimumPlayers,
+    handlePlayerReconnect,
+    handlePlayerDisconnect,
+    getTimedPlayer,
+    getAutoAction,
+    getBotAction,
+    isSimultaneousAction,
+    metadata: HEARTS_METADATA,
+};
+
+/**
+ * Set aside the cards a player passes. Once everyone has chosen, the
+ * cards change hands and the holder of the 2♣ leads.
+ * @param state Current HeartsState
+ * @param playerId The player passing
+ * @param cards The cards to pass
+ * @returns Updated HeartsState
+ */
+function handlePassCards(
+    state: HeartsState,
+    playerId: string,
+    cards: Card[]
+): HeartsState {
+    if (state.phase !== "passing") {
+        throw new Error("Cards can only be passed during the passing phase.");
+    }
+    if (!state.playOrder.includes(playerId)) {
+        throw new Error("You're not in this game.");
+    }
+    if (state.players[playerId]?.isConnected === false) {
+        throw new Error("You've been disconnected. Please refresh to rejoin.");
+    }
+    if (state.passedCards[playerId]) {
+        throw new Error("You've already passed your cards.");
+    }
+    if (!Array.isArray(cards) || cards.length !== HEARTS_PASS_COUNT) {
+        throw new Error(`Choose ${HEARTS_PASS_COUNT} cards to pass.`);
+    }
+
+    const hand = state.hands[playerId] || [];
+    const passed = cards.map((card) => {
+        const handCard = hand.find((c) => isSameCard(c, card));
+        if (!handCard) throw new Error("Card not in player's hand.");
+        return handCard;
+    });
+    if (passed.some((card, i) => passed.indexOf(card) !== i)) {
+        throw new Error(`Choose ${HEARTS_PASS_COUNT} different cards to pass.`);
+    }
+
+    const next: HeartsState = {
+        ...state,
+        hands: {
+            ...state.hands,
+            [playerId]: hand.filter((card) => !passed.includes(card)),
+        },
+        passedCards: { ...state.passedCards, [playerId]: passed },
+        turnStartedAt: new Date().toISOString(),
+    };
+
+    return state.playOrder.every((id) => next.passedCards[id])
+        ? exchangePassedCards(next)
+        : next;
+}
+
+/**
+ * Give every player the cards passed to them, then start play.
+ */
+function exchangePassedCards(state: HeartsState): HeartsState {
+    const hands = { ...state.hands };
+    const receivedCards: Record<string, Card[]> = {};
+    for (const playerId of state.playOrder) {
+        const targetId = getPassTarget(
+            state.playOrder,
+            playerId,
+            state.passDirection
+        );
+        receivedCards[targetId] = state.passedCards[playerId];
+    }
+    for (const playerId of state.playOrder) {
+        hands[playerId] = sortHeartsHand([
+            ...hands[playerId],
+            ...receivedCards[playerId],
+        ]);
+    }
+
+    return startPlay({ ...state, hands, receivedCards });
+}
+
+function handlePlayCard(
+    state: HeartsState,
+    playerId: string,
+    card: Card
+): HeartsState {
+    const played = playTrickCard(state, playerId, card, getTrickRules(state));
+    const next: HeartsState = {
+        ...played,
+        heartsBroken: state.heartsBroken || card.suit === Suit.Hearts,
+        roundPoints: countPointsTaken(played.playOrder, played.completedTricks),
+    };
+
+    return isHandOver(next) ? scoreRound(next) : next;
+}
+
+/**
+ * Score the hand once its last trick is played, then show the round
+ * summary - or finish the game once someone reaches the point limit
+ * (or the round limit is played). Lowest score wins.
+ */
+function scoreRound(state: HeartsState): HeartsState {
+    const { scores, scoreBreakdown, moonShooterId } =
+        calculateHeartsScores(state);
+
+    const { winTarget, roundLimit } = state.settings;
+    const isGameOver =
+        Object.values(scores).some((score) => score >= winTarget) ||
+        (roundLimit !== null && state.round >= roundLimit);
+    const lowestScore = Math.min(...Object.values(scores));
+
+    // Note: turnStartedAt is NOT set here - timer starts after the round summary
+    return {
+        ...state,
+        currentTrick: null,
+        phase: isGameOver ? "finished" : "round-summary",
+        continueGate: isGameOver
+            ? null
+            : openContinueGate(
+                  state,
+                  state.playOrder,
+                  ROUND_SUMMARY_CONTINUE_MS
+              ),
+        scores,
+        roundScoreBreakdown: scoreBreakdown,
+        moonShooterId,
+        winnerIds: isGameOver
+            ? state.playOrder.filter((id) => scores[id] === lowestScore)
+            : undefined,
+        lastTrickWinnerId: undefined,
+        lastTrickWinningCard: undefined,
+    };
+}
+
+function logHistory(state: HeartsState, action: GameAction): void {
+    state.history.push(
+        `Action: ${action.type}, Player: ${action.userId}, Payload: ${JSON.stringify(action.payload)}`
+    );
+}
+
+/**
+ * Check if the game has minimum players connected to continue.
+ * For Hearts, every seated player must be connected to play.
+ */
+function checkMinimumPlayers(state: HeartsState): boolean {
+    return checkAllPlayersConnected(state, state.playOrder.length);
+}
+
+/**
+ * Turn timer hook: while passing, one player who hasn't passed yet is
+ * timed at a time; while playing, the current player.
+ */
+function getTimedPlayer(state: HeartsState): string | null {
+    if (state.phase === "passing") return getWaitingPasser(state);
+    if (state.phase === "playing") return currentPlayerId(state);
+    return null;
+}
+
+/**
+ * Turn timer hook: pass the most dangerous cards, or play a legal card.
+ */
+function getAutoAction(
+    state: HeartsState,
+    playerId: string
+): GameAction | null {
+    if (state.phase === "passing") {
+        return {
+            type: "PASS_CARDS",
+            userId: playerId,
+            payload: { cards: getAutoPass(state, playerId) },
+        };
+    }
+
+    if (state.phase === "playing") {
+        const card = getAutoPlayCard(state, playerId);
+        if (!card) return null;
+        return {
+            type: "PLAY_CARD",
+            userId: playerId,
+            payload: { card },
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Bot hook: pass, then play to avoid points.
+ */
+function getBotAction(
+    state: HeartsState,
+    playerId: string,
+    difficulty: BotDifficulty
+): GameAction | null {
+    if (state.phase === "passing") {
+        return {
+            type: "PASS_CARDS",
+            userId: playerId,
+            payload: { cards: getBotPass(state, playerId, difficulty) },
+        };
+    }
+
+    if (state.phase === "playing") {
+        const card = getBotCard(state, playerId, difficulty);
+        if (!card) return null;
+        return {
+            type: "PLAY_CARD",
+            userId: playerId,
+            payload: { card },
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Everyone passes at once, so other players' passes don't make a pass stale.
+ */
+function isSimultaneousAction(state: HeartsState, action: GameAction): boolean {
+    return state.phase === "passing" && action.type === "PASS_CARDS";
+}
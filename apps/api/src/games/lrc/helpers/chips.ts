@@ -0,0 +1,130 @@
+// src/games/lrc/helpers/chips.ts
+
+import {
+    LRCChipMovement,
+    LRCDieFace,
+    LRCSettlementEntry,
+} from "@family-games/shared";
+
+/**
+ * Seat to the roller's left. Play moves clockwise, so this is the next seat.
+ */
+export function leftOf(playOrder: string[], index: number): string {
+    return playOrder[(index + 1) % playOrder.length];
+}
+
+/**
+ * Seat to the roller's right (previous seat in play order).
+ */
+export function rightOf(playOrder: string[], index: number): string {
+    return playOrder[(index - 1 + playOrder.length) % playOrder.length];
+}
+
+/**
+ * Translate a roll into chip movements. Each L, R or C moves one chip.
+ */
+export function calculateChipMovements(
+    playOrder: string[],
+    rollerIndex: number,
+    dice: LRCDieFace[]
+): LRCChipMovement[] {
+    const rollerId = playOrder[rollerIndex];
+    const movements: LRCChipMovement[] = [];
+
+    for (const face of dice) {
+        if (face === "DOT") continue;
+
+        const toPlayerId =
+            face === "L"
+                ? leftOf(playOrder, rollerIndex)
+                : face === "R"
+                  ? rightOf(playOrder, rollerIndex)
+                  : "center";
+
+        movements.push({ fromPlayerId: rollerId, toPlayerId, count: 1 });
+    }
+
+    return movements;
+}
+
+/**
+ * Apply chip movements to the ledger. Returns the new chip counts
+ * and the number of chips added to the center pot.
+ */
+export function applyChipMovements(
+    chips: Record<string, number>,
+    movements: LRCChipMovement[]
+): { chips: Record<string, number>; toCenter: number } {
+    const newChips = { ...chips };
+    let toCenter = 0;
+
+    for (const move of movements) {
+        newChips[move.fromPlayerId] =
+            (newChips[move.fromPlayerId] ?? 0) - move.count;
+
+        if (move.toPlayerId === "center") {
+            toCenter += move.count;
+        } else {
+            newChips[move.toPlayerId] =
+                (newChips[move.toPlayerId] ?? 0) + move.count;
+        }
+    }
+
+    return { chips: newChips, toCenter };
+}
+
+/**
+ * The game ends when exactly one player still holds chips.
+ * Returns that player's ID, or null if the game continues.
+ */
+export function findWinner(
+    playOrder: string[],
+    chips: Record<string, number>
+): string | null {
+    const holders = playOrder.filter((id) => (chips[id] ?? 0) > 0);
+    return holders.length === 1 ? holders[0] : null;
+}
+
+/**
+ * Find the next seat (after `currentIndex`) whose player holds chips.
+ * Players with no chips are skipped but stay in the game.
+ */
+export function findNextPlayerWithChips(
+    playOrder: string[],
+    chips: Record<string, number>,
+    currentIndex: number
+): number {
+    for (let step = 1; step <= playOrder.length; step++) {
+        const index = (currentIndex + step) % playOrder.length;
+        if ((chips[playOrder[index]] ?? 0) > 0) return index;
+    }
+    return currentIndex;
+}
+
+/**
+ * Build the end-of-game ledger. The winner collects the center pot;
+ * net earnings are measured against each player's starting stack.
+ */
+export function calculateSettlement(
+    playOrder: string[],
+    chips: Record<string, number>,
+    centerPot: number,
+    winnerId: string,
+    startingChips: number,
+    chipValue: number
+): LRCSettlementEntry[] {
+    return playOrder.map((playerId) => {
+        const finalChips =
+            (chips[playerId] ?? 0) + (playerId === winnerId ? centerPot : 0);
+        const netChips = finalChips - startingChips;
+
+        return {
+            playerId,
+            startingChips,
+            finalChips,
+            netChips,
+            // Round to cents to avoid floating point drift (e.g. 0.1 * 3)
+            netEarnings: Math.round(netChips * chipValue * 100) / 100,
+        };
+    });
+}
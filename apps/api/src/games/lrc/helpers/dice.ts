@@ -0,0 +1,36 @@
+// src/games/lrc/helpers/dice.ts
+
+import { LRCDieFace, LRC_MAX_DICE } from "@family-games/shared";
+
+/**
+ * Map a standard d6 value to an LRC face.
+ * 1-3 = DOT (keep), 4 = L, 5 = C, 6 = R
+ */
+export function faceForValue(value: number): LRCDieFace {
+    if (value === 4) return "L";
+    if (value === 5) return "C";
+    if (value === 6) return "R";
+    return "DOT";
+}
+
+/**
+ * Roll the given number of LRC dice.
+ * Keep randomness *only* here so the rest of the engine is replayable.
+ */
+export function rollDice(
+    count: number,
+    rng: () => number = Math.random
+): LRCDieFace[] {
+    const dice: LRCDieFace[] = [];
+    for (let i = 0; i < count; i++) {
+        dice.push(faceForValue(Math.floor(rng() * 6) + 1));
+    }
+    return dice;
+}
+
+/**
+ * A player rolls one die per chip held, up to three.
+ */
+export function getDiceCount(chips: number): number {
+    return Math.max(0, Math.min(chips, LRC_MAX_DICE));
+}
@@ -0,0 +1,249 @@
+// src/games/lrc/index.ts
+
+import {
+    Room,
+    User,
+    LRCSettings,
+    DEFAULT_LRC_SETTINGS,
+    LRC_SETTINGS_DEFINITIONS,
+    LRC_MIN_PLAYERS,
+    LRC_MAX_PLAYERS,
+    LRCPhase,
+    LRCRoll,
+    LRCSettlementEntry,
+} from "@family-games/shared";
+import { GameModule, GameState, GameAction } from "../../services/GameManager";
+import { v4 as uuidv4 } from "uuid";
+import { getDiceCount, rollDice } from "./helpers/dice";
+import {
+    applyChipMovements,
+    calculateChipMovements,
+    calculateSettlement,
+    findNextPlayerWithChips,
+    findWinner,
+} from "./helpers/chips";
+import {
+    handlePlayerReconnect,
+    handlePlayerDisconnect,
+    checkAllPlayersConnected,
+    createSeed,
+    createSeededRng,
+} from "../shared";
+
+const LRC_NAME = "lrc";
+const LRC_DISPLAY_NAME = "Left Right Center";
+
+const LRC_METADATA = {
+    type: LRC_NAME,
+    displayName: LRC_DISPLAY_NAME,
+    description:
+        "Roll the dice and pass your chips left, right, or into the center pot. Last player holding chips takes the pot!",
+    requiresTeams: false,
+    minPlayers: LRC_MIN_PLAYERS,
+    maxPlayers: LRC_MAX_PLAYERS,
+    settingsDefinitions: LRC_SETTINGS_DEFINITIONS,
+    defaultSettings: DEFAULT_LRC_SETTINGS,
+};
+
+export interface LRCState extends GameState {
+    playOrder: string[]; // Clockwise seat order; left is the next seat, right the previous
+    currentTurnIndex: number;
+
+    chips: Record<string, number>;
+    centerPot: number;
+
+    phase: LRCPhase;
+    rollCount: number;
+    lastRoll: LRCRoll | null; // Most recent roll, used by clients to animate
+
+    winnerId?: string;
+    settlement?: LRCSettlementEntry[]; // End-of-game ledger
+    history: string[]; // Action history for debugging
+    settings: LRCSettings;
+}
+
+function init(room: Room, customSettings?: Partial<LRCSettings>): LRCState {
+    if (
+        room.users.length < LRC_MIN_PLAYERS ||
+        room.users.length > LRC_MAX_PLAYERS
+    ) {
+        throw new Error(
+            `Left Right Center requires ${LRC_MIN_PLAYERS}-${LRC_MAX_PLAYERS} players.`
+        );
+    }
+
+    const players: Record<string, User> = Object.fromEntries(
+        room.users.map((user) => [user.id, user])
+    );
+
+    const playOrder = room.users.map((user) => user.id);
+    const settings: LRCSettings = {
+        ...DEFAULT_LRC_SETTINGS,
+        ...customSettings,
+    };
+
+    const chips: Record<string, number> = Object.fromEntries(
+        playOrder.map((id) => [id, settings.startingChips])
+    );
+
+    return {
+        id: uuidv4(),
+        roomId: room.id,
+        version: 0,
+        type: LRC_NAME,
+
+        players,
+        leaderId: room.leaderId ?? playOrder[0],
+        playOrder,
+        currentTurnIndex: 0,
+
+        chips,
+        centerPot: 0,
+
+        phase: "playing",
+        rollCount: 0,
+        lastRoll: null,
+
+        settings,
+        history: [],
+    };
+}
+
+function reducer(state: LRCState, action: GameAction): LRCState {
+    logHistory(state, action);
+
+    switch (action.type) {
+        case "ROLL_DICE":
+            return handleRollDice(state, action.userId);
+        default:
+            return state;
+    }
+}
+
+function getState(state: LRCState): Partial<LRCState> {
+    // Everything in LRC is public
+    return { ...state };
+}
+
+function getPlayerState(
+    state: LRCState,
+    playerId: string
+): { localOrdering: string[] } {
+    const idx = Math.max(0, state.playOrder.indexOf(playerId));
+    const localOrdering = [
+        ...state.playOrder.slice(idx),
+        ...state.playOrder.slice(0, idx),
+    ];
+
+    return { localOrdering };
+}
+
+export const lrcModule: GameModule = {
+    init,
+    reducer,
+    getState,
+    getPlayerState,
+    checkMinimumPlayers,
+    handlePlayerReconnect,
+    handlePlayerDisconnect,
+    metadata: LRC_METADATA,
+};
+
+/**
+ * Handle the current player rolling the dice and passing chips
+ */
+function handleRollDice(state: LRCState, playerId: string): LRCState {
+    if (state.phase !== "playing") {
+        throw new Error("Dice can only be rolled while the game is playing.");
+    }
+
+    if (currentPlayerId(state) !== playerId) {
+        throw new Error("Not your turn to roll.");
+    }
+
+    if (state.players[playerId]?.isConnected === false) {
+        throw new Error("Player is disconnected and cannot roll.");
+    }
+
+    const diceCount = getDiceCount(state.chips[playerId] ?? 0);
+    if (diceCount === 0) {
+        throw new Error("You have no chips to roll for.");
+    }
+
+    // Rolled from a fresh seed, so the roll replays the same from the log
+    const dice = rollDice(diceCount, createSeededRng(createSeed()));
+    const movements = calculateChipMovements(
+        state.playOrder,
+        state.currentTurnIndex,
+        dice
+    );
+    const { chips, toCenter } = applyChipMovements(state.chips, movements);
+    const centerPot = state.centerPot + toCenter;
+    const rollCount = state.rollCount + 1;
+
+    const rolledState: LRCState = {
+        ...state,
+        chips,
+        centerPot,
+        rollCount,
+        lastRoll: { rollNumber: rollCount, playerId, dice, movements },
+    };
+
+    const winnerId = findWinner(state.playOrder, chips);
+    if (winnerId) {
+        return endGame(rolledState, winnerId);
+    }
+
+    return {
+        ...rolledState,
+        currentTurnIndex: findNextPlayerWithChips(
+            state.playOrder,
+            chips,
+            state.currentTurnIndex
+        ),
+    };
+}
+
+/**
+ * Award the center pot to the last player holding chips and settle up
+ */
+function endGame(state: LRCState, winnerId: string): LRCState {
+    const settlement = calculateSettlement(
+        state.playOrder,
+        state.chips,
+        state.centerPot,
+        winnerId,
+        state.settings.startingChips,
+        state.settings.chipValue
+    );
+
+    return {
+        ...state,
+        chips: {
+            ...state.chips,
+            [winnerId]: state.chips[winnerId] + state.centerPot,
+        },
+        centerPot: 0,
+        phase: "finished",
+        winnerId,
+        settlement,
+    };
+}
+
+function currentPlayerId(state: LRCState): string {
+    return state.playOrder[state.currentTurnIndex];
+}
+
+function logHistory(state: LRCState, action: GameAction): void {
+    state.history.push(
+        `Action: ${action.type}, Player: ${action.userId}, Payload: ${JSON.stringify(action.payload)}`
+    );
+}
+
+/**
+ * Check if the game has minimum players connected to continue.
+ * Every seat passes chips, so all seated players must be connected.
+ */
+function checkMinimumPlayers(state: LRCState): boolean {
+    return checkAllPlayersConnected(state, state.playOrder.length);
+}
@@ -0,0 +1,24 @@
+// src/games/shared/cards.ts
+import { Card } from "@family-games/shared";
+
+// Decks and dealing live in the shared package so clients can rebuild deals
+export { isSameCard, buildDeck, dealCards } from "@family-games/shared";
+export type { DeckOptions, DealOptions } from "@family-games/shared";
+
+/**
+ * Sort a hand by suit (in the given order) then by rank. Cards can be
+ * grouped by the suit they play as, e.g. a left bower with trump.
+ */
+export function sortHand(
+    hand: Card[],
+    suitOrder: string[],
+    getRankValue: (card: Card) => number,
+    getSuit: (card: Card) => string = (card) => card.suit
+): Card[] {
+    return hand.slice().sort((a, b) => {
+        const suitComparison =
+            suitOrder.indexOf(getSuit(a)) - suitOrder.indexOf(getSuit(b));
+        if (suitComparison !== 0) return suitComparison;
+        return getRankValue(a) - getRankValue(b);
+    });
+}
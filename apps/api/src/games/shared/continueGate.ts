@@ -0,0 +1,57 @@
+// src/games/shared/continueGate.ts
+import { ContinueGate } from "@family-games/shared";
+import { GameState } from "../../services/GameManager";
+import { getConnectedHumans } from "./playerState";
+
+/** How long a trick result stays up before the server moves on */
+export const TRICK_RESULT_CONTINUE_MS = 3000;
+
+/** How long a round summary stays up before the server moves on */
+export const ROUND_SUMMARY_CONTINUE_MS = 20000;
+
+/**
+ * Open a "ready to continue" gate over the given players.
+ * Bots and disconnected players are not waited on.
+ */
+export function openContinueGate(
+    state: GameState,
+    playerIds: string[],
+    durationMs: number
+): ContinueGate {
+    return {
+        acknowledged: [],
+        waitingOn: getConnectedHumans(state, playerIds),
+        autoContinueAt: Date.now() + durationMs,
+    };
+}
+
+/**
+ * Record a player as ready.
+ * Returns the updated gate, or null once nobody is left to wait on
+ * (also for states from before gates existed, so they continue directly).
+ */
+export function acknowledgeContinue(
+    gate: ContinueGate | null | undefined,
+    userId: string
+): ContinueGate | null {
+    if (!gate) return null;
+    if (!gate.waitingOn.includes(userId)) return gate;
+
+    const waitingOn = gate.waitingOn.filter((id) => id !== userId);
+    if (waitingOn.length === 0) return null;
+    return {
+        ...gate,
+        acknowledged: [...gate.acknowledged, userId],
+        waitingOn,
+    };
+}
+
+/**
+ * Only the leader (or the server's auto-continue, acting as the leader)
+ * can continue without waiting for everyone.
+ */
+export function assertCanForceContinue(state: GameState, userId: string): void {
+    if (userId !== state.leaderId) {
+        throw new Error("Only the leader can continue for everyone.");
+    }
+}
@@ -0,0 +1,55 @@
+// src/games/shared/deal.ts
+import { DealInfo, DealtItem } from "@family-games/shared";
+import { createSeed, createSeededRng, hashSeed } from "./shuffle";
+
+/**
+ * Start a round's deal: draw a seed, commit to it, and return the
+ * deterministic PRNG to shuffle with.
+ *
+ * @param seed - Deal from a known seed (e.g. to reproduce a reported deal)
+ */
+export function createDeal(
+    round: number,
+    seed: string = createSeed()
+): { deal: DealInfo; rng: () => number } {
+    return {
+        deal: { round, commitment: hashSeed(seed), seed },
+        rng: createSeededRng(seed),
+    };
+}
+
+/**
+ * Keep a copy of the hands dealt with the deal, so they can be revealed
+ * with the seed. Copied so changes to the live hands can't reach it.
+ */
+export function withDealtHands(
+    deal: DealInfo,
+    hands: Record<string, DealtItem[]>
+): DealInfo {
+    return { ...deal, hands: JSON.parse(JSON.stringify(hands)) };
+}
+
+/**
+ * A further PRNG for a round already dealt, e.g. to reshuffle mid-round.
+ * Keyed from the round's seed, so it can be reproduced once the seed is
+ * revealed, but independent of the deal's own sequence.
+ */
+export function createRoundRng(deal: DealInfo, purpose: string): () => number {
+    if (!deal.seed) throw new Error("The round's seed isn't known.");
+    return createSeededRng(`${deal.seed}:${purpose}`);
+}
+
+/**
+ * Deals as sent to clients: the current round's seed and hands stay
+ * hidden until the round is over. Earlier rounds are always revealed.
+ */
+export function getPublicDeals(
+    deals: DealInfo[],
+    isRoundOver: boolean
+): DealInfo[] {
+    return deals.map((deal, index) =>
+        index === deals.length - 1 && !isRoundOver
+            ? { round: deal.round, commitment: deal.commitment }
+            : deal
+    );
+}
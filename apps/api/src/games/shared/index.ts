@@ -1,9 +1,47 @@
 // src/games/shared/index.ts
 // Barrel export for shared game utilities
 
-export { shuffle } from "./shuffle";
+export {
+    shuffle,
+    createSeed,
+    createSeededRng,
+    recordSeeds,
+    replaySeeds,
+} from "./shuffle";
+export {
+    createDeal,
+    withDealtHands,
+    createRoundRng,
+    getPublicDeals,
+} from "./deal";
 export {
     handlePlayerReconnect,
     handlePlayerDisconnect,
+    removePlayer,
+    transferPlayer,
     checkAllPlayersConnected,
 } from "./playerState";
+export {
+    TRICK_RESULT_CONTINUE_MS,
+    ROUND_SUMMARY_CONTINUE_MS,
+    openContinueGate,
+    acknowledgeContinue,
+    assertCanForceContinue,
+} from "./continueGate";
+export {
+    getOpposingPlayers,
+    trackUndo,
+    requestUndo,
+    respondToUndo,
+} from "./undo";
+export { isSameCard, buildDeck, dealCards, sortHand } from "./cards";
+export type { DeckOptions, DealOptions } from "./cards";
+export {
+    countTricksWon,
+    isHandOver,
+    getNextActiveIndex,
+    playTrickCard,
+    acknowledgeTrickResult,
+    continueAfterTrickResult,
+} from "./tricks";
+export type { TrickTakingState } from "./tricks";
@@ -48,6 +48,42 @@ export function handlePlayerDisconnect<T extends GameState>(
     return state;
 }
 
+/**
+ * Take a player out of the game for good (they left it).
+ * The undo snapshot and any undo vote go too, since they may involve them.
+ */
+export function removePlayer<T extends GameState>(state: T, userId: string): T {
+    const { [userId]: _removed, ...players } = state.players;
+    return { ...state, players, undoSnapshot: null, undoRequest: null };
+}
+
+/**
+ * Hand a disconnected player's slot to a new player, who inherits the old
+ * player's game state (hand, score, etc.).
+ */
+export function transferPlayer<T extends GameState>(
+    state: T,
+    oldUserId: string,
+    newUserId: string,
+    newUserName: string
+): T {
+    const { [oldUserId]: _old, ...players } = state.players;
+    return {
+        ...state,
+        players: {
+            ...players,
+            [newUserId]: {
+                id: newUserId,
+                name: newUserName,
+                isConnected: true,
+            },
+        },
+        // The undo snapshot still has the old player's ID
+        undoSnapshot: null,
+        undoRequest: null,
+    };
+}
+
 /**
  * Check if all required players are connected.
  */
@@ -60,3 +96,17 @@ export function checkAllPlayersConnected<T extends GameState>(
     );
     return connectedPlayers.length >= requiredPlayerCount;
 }
+
+/**
+ * Keep the players who can answer a prompt: bots and disconnected
+ * players are never waited on.
+ */
+export function getConnectedHumans<T extends GameState>(
+    state: T,
+    playerIds: string[]
+): string[] {
+    return playerIds.filter((id) => {
+        const player = state.players[id];
+        return player && !player.isBot && player.isConnected !== false;
+    });
+}
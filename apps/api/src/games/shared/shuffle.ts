@@ -1,15 +1,71 @@
 // src/games/shared/shuffle.ts
+import { createHash, randomBytes } from "crypto";
+import { createSfc32Rng } from "@family-games/shared";
+
+// Same Fisher-Yates the client uses to rebuild a deal
+export { shuffle } from "@family-games/shared";
+
+// Seeds drawn while recording an action, and seeds handed out again while
+// replaying one (see recordSeeds / replaySeeds)
+let recordedSeeds: string[] | null = null;
+let seedsToReplay: string[] | null = null;
 
 /**
- * Fisher-Yates shuffle (unbiased, O(n)).
- * Generic implementation that works with any array type.
- * Keep randomness *only* here so the rest of the engine is replayable.
+ * Generate a fresh random seed (128 bits, hex).
+ * While an action is replayed, the seeds it drew are handed out instead.
  */
-export function shuffle<T>(items: T[], rng: () => number = Math.random): T[] {
-    const copy = [...items];
-    for (let i = copy.length - 1; i > 0; i--) {
-        const j = Math.floor(rng() * (i + 1));
-        [copy[i], copy[j]] = [copy[j], copy[i]];
+export function createSeed(): string {
+    if (seedsToReplay) {
+        const seed = seedsToReplay.shift();
+        if (seed === undefined) throw new Error("No recorded seed to replay.");
+        return seed;
     }
-    return copy;
+
+    const seed = randomBytes(16).toString("hex");
+    recordedSeeds?.push(seed);
+    return seed;
+}
+
+/**
+ * Run `fn` and collect every seed it draws, so the run can be replayed
+ * exactly (e.g. a reducer that deals the next round).
+ */
+export function recordSeeds<T>(fn: () => T): { result: T; seeds: string[] } {
+    const seeds: string[] = [];
+    recordedSeeds = seeds;
+    try {
+        return { result: fn(), seeds };
+    } finally {
+        recordedSeeds = null;
+    }
+}
+
+/**
+ * Run `fn` with createSeed handing out the seeds recorded for it.
+ */
+export function replaySeeds<T>(seeds: string[], fn: () => T): T {
+    seedsToReplay = [...seeds];
+    try {
+        return fn();
+    } finally {
+        seedsToReplay = null;
+    }
+}
+
+/**
+ * Commitment for a seed: its SHA-256 hash (hex).
+ * Publishing this before the seed proves the seed wasn't changed afterwards.
+ */
+export function hashSeed(seed: string): string {
+    return createHash("sha256").update(seed).digest("hex");
+}
+
+/**
+ * Deterministic PRNG (sfc32) keyed from a seed.
+ * The same seed always produces the same sequence, so a deal can be
+ * reproduced from its seed. The key is derived separately from the
+ * commitment so the commitment reveals nothing about the sequence.
+ */
+export function createSeededRng(seed: string): () => number {
+    return createSfc32Rng(createHash("sha256").update(`${seed}:rng`).digest());
 }
@@ -0,0 +1,207 @@
+// src/games/shared/tricks.ts
+import {
+    Card,
+    Suit,
+    Trick,
+    TrickRules,
+    canPlayCard,
+    getCardSuit,
+    getWinningPlay,
+} from "@family-games/shared";
+import { GameState } from "../../services/GameManager";
+import {
+    TRICK_RESULT_CONTINUE_MS,
+    acknowledgeContinue,
+    openContinueGate,
+} from "./continueGate";
+import { isSameCard } from "./cards";
+
+/**
+ * State every trick-taking game keeps. Play runs in the "playing" phase;
+ * each completed trick is shown in the "trick-result" phase before its
+ * winner leads the next one.
+ */
+export interface TrickTakingState extends GameState {
+    phase: string;
+    playOrder: string[];
+    currentTurnIndex: number;
+    hands: Record<string, Card[]>;
+    currentTrick: Trick | null;
+    completedTricks: Trick[];
+    roundTrickCounts: Record<string, number>;
+    /** Players who sit the hand out (e.g. the partner of a lone hand) */
+    sittingOut?: string[];
+    lastTrickWinnerId?: string;
+    lastTrickWinningCard?: Card;
+    turnStartedAt?: string;
+}
+
+/**
+ * Tricks won by each player this hand.
+ */
+export function countTricksWon(
+    playOrder: string[],
+    completedTricks: Trick[]
+): Record<string, number> {
+    const counts: Record<string, number> = Object.fromEntries(
+        playOrder.map((id) => [id, 0])
+    );
+    for (const trick of completedTricks) {
+        if (trick.winnerId) counts[trick.winnerId] += 1;
+    }
+    return counts;
+}
+
+/**
+ * True once every card of the hand has been played.
+ */
+export function isHandOver(state: TrickTakingState): boolean {
+    const sittingOut = state.sittingOut ?? [];
+    return Object.entries(state.hands).every(
+        ([playerId, hand]) => sittingOut.includes(playerId) || hand.length === 0
+    );
+}
+
+/**
+ * Seat of the next player in the hand after the given seat, skipping
+ * anyone sitting out.
+ */
+export function getNextActiveIndex(
+    state: TrickTakingState,
+    index: number
+): number {
+    const sittingOut = state.sittingOut ?? [];
+    let next = (index + 1) % state.playOrder.length;
+    while (sittingOut.includes(state.playOrder[next]) && next !== index) {
+        next = (next + 1) % state.playOrder.length;
+    }
+    return next;
+}
+
+/**
+ * Play a card to the current trick, checked against the game's rules.
+ * Completing the trick resolves its winner, who leads next, and shows the
+ * trick result; the trick stays in currentTrick until play continues.
+ * The game handles the end of the hand (see isHandOver).
+ */
+export function playTrickCard<S extends TrickTakingState>(
+    state: S,
+    playerId: string,
+    card: Card,
+    rules: TrickRules
+): S {
+    if (state.phase !== "playing") {
+        throw new Error("Cards can only be played during the playing phase.");
+    }
+    if (state.playOrder[state.currentTurnIndex] !== playerId) {
+        throw new Error("Not your turn to play a card.");
+    }
+    if (state.players[playerId]?.isConnected === false) {
+        throw new Error("Player is disconnected and cannot play a card.");
+    }
+
+    const playerHand = state.hands[playerId] || [];
+    const cardIdx = playerHand.findIndex((c) => isSameCard(c, card));
+    if (cardIdx === -1) {
+        throw new Error("Card not in player's hand.");
+    }
+    // Use the card from the hand, not the one sent by the client
+    const handCard = playerHand[cardIdx];
+
+    const trick: Trick = state.currentTrick || {
+        leaderId: playerId,
+        plays: [],
+        leadSuit: null,
+    };
+    if (!canPlayCard(handCard, playerHand, trick, rules)) {
+        throw new Error(
+            "Illegal card play (must follow suit, or that card can't lead yet)."
+        );
+    }
+
+    const newHand = [...playerHand];
+    newHand.splice(cardIdx, 1);
+    const hands = { ...state.hands, [playerId]: newHand };
+
+    const newTrick: Trick = {
+        ...trick,
+        plays: [...trick.plays, { playerId, card: handCard }],
+        leadSuit: trick.leadSuit ?? (getCardSuit(handCard, rules) as Suit),
+    };
+
+    const playersInHand =
+        state.playOrder.length - (state.sittingOut?.length ?? 0);
+    if (newTrick.plays.length < playersInHand) {
+        return {
+            ...state,
+            hands,
+            currentTrick: newTrick,
+            currentTurnIndex: getNextActiveIndex(state, state.currentTurnIndex),
+            lastTrickWinnerId: undefined,
+            lastTrickWinningCard: undefined,
+            // Reset turn timer for next player
+            turnStartedAt: new Date().toISOString(),
+        };
+    }
+
+    // Trick complete: keep it visible during the trick result
+    // Note: turnStartedAt is NOT set here - timer starts after the trick result
+    const winningPlay = getWinningPlay(newTrick, rules)!;
+    const completedTricks = [
+        ...state.completedTricks,
+        { ...newTrick, winnerId: winningPlay.playerId },
+    ];
+    return {
+        ...state,
+        hands,
+        currentTrick: newTrick,
+        completedTricks,
+        currentTurnIndex: state.playOrder.indexOf(winningPlay.playerId),
+        phase: "trick-result",
+        continueGate: openContinueGate(
+            state,
+            state.playOrder,
+            TRICK_RESULT_CONTINUE_MS
+        ),
+        lastTrickWinnerId: winningPlay.playerId,
+        lastTrickWinningCard: winningPlay.card,
+        roundTrickCounts: countTricksWon(state.playOrder, completedTricks),
+    };
+}
+
+/**
+ * Record a player as ready to leave the trick result; play continues
+ * once nobody is left to wait on.
+ */
+export function acknowledgeTrickResult<S extends TrickTakingState>(
+    state: S,
+    userId: string
+): S {
+    if (state.phase !== "trick-result") return state;
+    const continueGate = acknowledgeContinue(state.continueGate, userId);
+    return continueGate
+        ? { ...state, continueGate }
+        : continueAfterTrickResult(state);
+}
+
+/**
+ * Leave the trick result: the winner leads the next trick.
+ */
+export function continueAfterTrickResult<S extends TrickTakingState>(
+    state: S
+): S {
+    const lastTrick = state.completedTricks[state.completedTricks.length - 1];
+    const winnerId = lastTrick?.winnerId;
+    return {
+        ...state,
+        phase: "playing",
+        continueGate: null,
+        currentTurnIndex: winnerId
+            ? state.playOrder.indexOf(winnerId)
+            : state.currentTurnIndex,
+        currentTrick: null,
+        lastTrickWinnerId: undefined,
+        lastTrickWinningCard: undefined,
+        turnStartedAt: new Date().toISOString(),
+    };
+}
@@ -0,0 +1,130 @@
+// src/games/shared/undo.ts
+import { GameAction, GameState } from "../../services/GameManager";
+import { getConnectedHumans } from "./playerState";
+
+/**
+ * Players who vote on an undo: the other teams, or everyone else
+ * when playing individually.
+ */
+export function getOpposingPlayers(
+    playerIds: string[],
+    teams: Record<number, { players: string[] }> | undefined,
+    userId: string
+): string[] {
+    const ownTeam = Object.values(teams ?? {}).find((team) =>
+        team.players.includes(userId)
+    );
+    return playerIds.filter(
+        (id) => id !== userId && !ownTeam?.players.includes(id)
+    );
+}
+
+/**
+ * Keep the state before an undoable play so it can be taken back.
+ * Any other change (the next player acting) makes the play final.
+ * Plays that end the game can't be taken back.
+ */
+export function trackUndo<T extends GameState>(
+    previous: T,
+    next: T,
+    action: GameAction,
+    undoableActions: string[]
+): T {
+    if (next === previous) return next;
+
+    const isFinished =
+        (next as GameState & { phase?: string }).phase === "finished";
+    if (!undoableActions.includes(action.type) || isFinished) {
+        return { ...next, undoSnapshot: null, undoRequest: null };
+    }
+
+    // Deep copy so in-place changes to the live state can't reach it
+    const state = JSON.parse(
+        JSON.stringify({
+            ...previous,
+            history: [],
+            undoSnapshot: null,
+            undoRequest: null,
+        })
+    ) as GameState;
+    return {
+        ...next,
+        undoSnapshot: { playerId: action.userId, state },
+        undoRequest: null,
+    };
+}
+
+/**
+ * Ask opponents to let the player take back their last play.
+ * With nobody to ask (only bots), the play is taken back right away.
+ *
+ * @throws Error if the player's last play is already final
+ */
+export function requestUndo<T extends GameState>(
+    state: T,
+    userId: string,
+    opponentIds: string[]
+): T {
+    if (state.undoSnapshot?.playerId !== userId) {
+        throw new Error("You have no play to take back.");
+    }
+    if (state.undoRequest) {
+        throw new Error("An undo request is already open.");
+    }
+
+    const waitingOn = getConnectedHumans(state, opponentIds);
+    if (waitingOn.length === 0) return restoreUndoSnapshot(state);
+    return {
+        ...state,
+        undoRequest: { requesterId: userId, approvals: [], waitingOn },
+    };
+}
+
+/**
+ * Record an opponent's answer. One refusal makes the play final;
+ * once everyone agreed, the play is taken back.
+ *
+ * @throws Error if the player wasn't asked
+ */
+export function respondToUndo<T extends GameState>(
+    state: T,
+    userId: string,
+    approve: boolean
+): T {
+    const request = state.undoRequest;
+    if (!request?.waitingOn.includes(userId)) {
+        throw new Error("There is no undo request waiting on you.");
+    }
+
+    if (!approve) {
+        return { ...state, undoSnapshot: null, undoRequest: null };
+    }
+
+    const waitingOn = request.waitingOn.filter((id) => id !== userId);
+    if (waitingOn.length === 0) return restoreUndoSnapshot(state);
+    return {
+        ...state,
+        undoRequest: {
+            ...request,
+            approvals: [...request.approvals, userId],
+            waitingOn,
+        },
+    };
+}
+
+/**
+ * Go back to the state before the play. Who is connected, the leader and
+ * the debug history are kept from the current state.
+ */
+function restoreUndoSnapshot<T extends GameState>(state: T): T {
+    const snapshot = state.undoSnapshot!.state as T;
+    return {
+        ...snapshot,
+        players: state.players,
+        leaderId: state.leaderId,
+        history: state.history,
+        version: state.version,
+        undoSnapshot: null,
+        undoRequest: null,
+    };
+}
@@ -5,32 +5,31 @@
  * Used when a player times out and the server needs to play on their behalf.
  */
 
-import { SpadesState, Trick, Card, Bid } from "@family-games/shared";
-import { canPlayCard } from "./player";
+import { SpadesState, Card, Bid } from "@family-games/shared";
+import { getBotCard, getEstimatedBid } from "./bot";
 
 /**
  * Get the auto-bid for a player who timed out during bidding.
- * Returns the lowest legal bid value.
+ * Bids the tricks the hand is likely to take. Never bids nil, since the
+ * player would then have to protect a bid they didn't choose.
  *
  * @param state - The current game state
  * @param playerId - The player who timed out
  * @returns The bid to place
  */
-export function getAutoBid(state: SpadesState, _playerId: string): Bid {
-    // If nil is allowed, bid 0 (nil)
-    // Otherwise bid 1 (minimum non-nil bid)
-    const nilAllowed = state.settings.allowNil;
-
+export function getAutoBid(state: SpadesState, playerId: string): Bid {
     return {
-        amount: nilAllowed ? 0 : 1,
-        type: nilAllowed ? "nil" : "normal",
+        amount: getEstimatedBid(state, playerId),
+        type: "normal",
         isBlind: false,
     };
 }
 
 /**
  * Get the auto-play card for a player who timed out during playing.
- * Returns the first legal card from their hand.
+ * Plays like a hard bot: follows partner low instead of overtaking,
+ * covers a nil-bidding partner, protects the player's own nil, and dumps
+ * the lowest card when the trick is lost.
  *
  * @param state - The current game state
  * @param playerId - The player who timed out
@@ -46,13 +45,9 @@ export function getAutoPlayCard(
         return null;
     }
 
-    const trick = state.currentTrick || createEmptyTrick(playerId);
-
-    // Find the first legal card
-    for (const card of hand) {
-        if (canPlayCard(card, hand, trick, state.spadesBroken)) {
-            return card;
-        }
+    const card = getBotCard(state, playerId, "hard");
+    if (card) {
+        return card;
     }
 
     // Fallback: just play the first card (shouldn't happen if game logic is correct)
@@ -62,17 +57,6 @@ export function getAutoPlayCard(
     return hand[0];
 }
 
-/**
- * Create an empty trick for the first player.
- */
-function createEmptyTrick(leaderId: string): Trick {
-    return {
-        leaderId,
-        plays: [],
-        leadSuit: null,
-    };
-}
-
 /**
  * Check if a player is the current turn player.
  */
@@ -0,0 +1,470 @@
+// src/games/spades/helpers/bot.ts
+
+/**
+ * Bot strategy for Spades.
+ *
+ * Easy bots bid their obvious winners and try to take every trick cheaply.
+ * Hard bots estimate tricks from honors, spade length and short suits,
+ * bid nil on weak hands, play with their partner and avoid overtricks (bags)
+ * once their team's bid is made.
+ */
+
+import {
+    SpadesState,
+    SpadesSettings,
+    Card,
+    Bid,
+    Rank,
+    Suit,
+    Trick,
+    BotDifficulty,
+    canPlayCard,
+    buildSpadesDeck,
+} from "@family-games/shared";
+import { cardBeats, getCardRankValue } from "./card";
+import { getMinimumBid, getTrickRules, resolveTrick } from "./player";
+import { isSameCard } from "../../shared";
+
+const SIDE_SUITS: Suit[] = [Suit.Hearts, Suit.Clubs, Suit.Diamonds];
+
+// ============================================================================
+// Card Helpers
+// ============================================================================
+
+/**
+ * Relative strength used to pick the "lowest" or "highest" card.
+ * Spades sort above every side suit card so bots don't waste trump.
+ */
+function cardStrength(card: Card, settings: SpadesSettings): number {
+    const spadeBonus = card.suit === Suit.Spades ? 100 : 0;
+    return getCardRankValue(card, settings) + spadeBonus;
+}
+
+function lowestCard(cards: Card[], settings: SpadesSettings): Card {
+    return cards.reduce((low, card) =>
+        cardStrength(card, settings) < cardStrength(low, settings) ? card : low
+    );
+}
+
+function highestCard(cards: Card[], settings: SpadesSettings): Card {
+    return cards.reduce((high, card) =>
+        cardStrength(card, settings) > cardStrength(high, settings)
+            ? card
+            : high
+    );
+}
+
+function cardsOfSuit(hand: Card[], suit: Suit): Card[] {
+    return hand.filter((card) => card.suit === suit);
+}
+
+/**
+ * Cards the bot can't see: not in its hand and not played this round.
+ */
+function getUnseenCards(state: SpadesState, hand: Card[]): Card[] {
+    const played = [
+        ...state.completedTricks.flatMap((trick) => trick.plays),
+        ...(state.currentTrick?.plays ?? []),
+    ].map((play) => play.card);
+
+    return buildSpadesDeck(state.settings.jokersEnabled).filter(
+        (card) =>
+            !hand.some((c) => isSameCard(c, card)) &&
+            !played.some((c) => isSameCard(c, card))
+    );
+}
+
+/**
+ * True if no unseen card of the same suit can beat this card.
+ */
+function isMasterCard(
+    card: Card,
+    unseen: Card[],
+    settings: SpadesSettings
+): boolean {
+    return !unseen.some(
+        (other) =>
+            other.suit === card.suit &&
+            cardBeats(other, card, card.suit, settings)
+    );
+}
+
+// ============================================================================
+// Team Helpers
+// ============================================================================
+
+function getPartnerId(state: SpadesState, playerId: string): string | null {
+    const team = Object.values(state.teams).find((t) =>
+        t.players.includes(playerId)
+    );
+    return team?.players.find((id) => id !== playerId) ?? null;
+}
+
+function isNilBid(bid: Bid | undefined): boolean {
+    return bid?.type === "nil" || bid?.type === "blind-nil";
+}
+
+/**
+ * Tricks the bot's team still needs to make its (non-nil) bids.
+ */
+function getTeamTricksNeeded(state: SpadesState, playerId: string): number {
+    const partnerId = getPartnerId(state, playerId);
+    const teamIds = partnerId ? [playerId, partnerId] : [playerId];
+    const contractIds = teamIds.filter((id) => !isNilBid(state.bids[id]));
+
+    const bid = contractIds.reduce(
+        (sum, id) => sum + (state.bids[id]?.amount ?? 0),
+        0
+    );
+    const taken = contractIds.reduce(
+        (sum, id) => sum + (state.roundTrickCounts[id] ?? 0),
+        0
+    );
+    return bid - taken;
+}
+
+// ============================================================================
+// Bidding
+// ============================================================================
+
+/**
+ * Count the tricks a hand should take on its own.
+ */
+function estimateTricks(hand: Card[], settings: SpadesSettings): number {
+    let tricks = 0;
+
+    // Side suits: aces, protected kings and well-guarded queens
+    for (const suit of SIDE_SUITS) {
+        const cards = cardsOfSuit(hand, suit);
+        const has = (rank: Rank) => cards.some((c) => c.rank === rank);
+        const length = cards.length;
+
+        if (has(Rank.Ace)) tricks += 1;
+        if (has(Rank.King) && length >= 2 && length <= 5) {
+            tricks += has(Rank.Ace) ? 0.9 : 0.7;
+        }
+        if (has(Rank.Queen) && length >= 3 && length <= 4) {
+            tricks += has(Rank.Ace) || has(Rank.King) ? 0.5 : 0.25;
+        }
+    }
+
+    // Spades: honors win, length wins late in the hand
+    const spades = cardsOfSuit(hand, Suit.Spades);
+    const spadeValues = spades
+        .map((card) => getCardRankValue(card, settings))
+        .sort((a, b) => b - a);
+    const aceValue = getCardRankValue(
+        { rank: Rank.Ace, suit: Suit.Spades },
+        settings
+    );
+    spadeValues.forEach((value, i) => {
+        if (value >= aceValue) tricks += 1;
+        else if (value === aceValue - 1) tricks += i >= 1 ? 0.9 : 0.5;
+        else if (value === aceValue - 2) tricks += i >= 2 ? 0.6 : 0.2;
+        else if (i >= 3) tricks += 0.8;
+    });
+
+    // Short side suits let spare spades ruff
+    let spareSpades = Math.max(0, spades.length - 2);
+    for (const suit of SIDE_SUITS) {
+        if (spareSpades === 0) break;
+        const length = cardsOfSuit(hand, suit).length;
+        if (length === 0) {
+            tricks += 0.8;
+            spareSpades--;
+        } else if (length === 1) {
+            tricks += 0.5;
+            spareSpades--;
+        }
+    }
+
+    return tricks;
+}
+
+/**
+ * A hand is a nil candidate if it has no high spades and few honors.
+ */
+function isNilHand(hand: Card[], settings: SpadesSettings): boolean {
+    const spades = cardsOfSuit(hand, Suit.Spades);
+    const queenValue = getCardRankValue(
+        { rank: Rank.Queen, suit: Suit.Spades },
+        settings
+    );
+    const hasHighSpade = spades.some(
+        (card) => getCardRankValue(card, settings) >= queenValue
+    );
+    return (
+        !hasHighSpade &&
+        spades.length <= 3 &&
+        estimateTricks(hand, settings) < 1
+    );
+}
+
+/**
+ * Easy bid: count aces and high spades.
+ */
+function getEasyBid(hand: Card[], settings: SpadesSettings): number {
+    const aces = hand.filter(
+        (card) => card.rank === Rank.Ace && card.suit !== Suit.Spades
+    ).length;
+    const kingValue = getCardRankValue(
+        { rank: Rank.King, suit: Suit.Spades },
+        settings
+    );
+    const highSpades = cardsOfSuit(hand, Suit.Spades).filter(
+        (card) => getCardRankValue(card, settings) >= kingValue
+    ).length;
+    return aces + highSpades;
+}
+
+/**
+ * Choose a bid for a bot.
+ */
+export function getBotBid(
+    state: SpadesState,
+    playerId: string,
+    difficulty: BotDifficulty
+): Bid {
+    const hand = state.hands[playerId] || [];
+    const { settings } = state;
+
+    if (difficulty === "easy") {
+        const amount = Math.min(
+            hand.length,
+            Math.max(getMinimumBid(state, playerId), getEasyBid(hand, settings))
+        );
+        return { amount, type: "normal", isBlind: false };
+    }
+
+    const partnerId = getPartnerId(state, playerId);
+    const partnerBid = partnerId ? state.bids[partnerId] : undefined;
+
+    // Go nil on weak hands, unless partner already did
+    if (
+        settings.allowNil &&
+        !isNilBid(partnerBid) &&
+        isNilHand(hand, settings)
+    ) {
+        return { amount: 0, type: "nil", isBlind: false };
+    }
+
+    return {
+        amount: getEstimatedBid(state, playerId),
+        type: "normal",
+        isBlind: false,
+    };
+}
+
+/**
+ * Estimate a normal (non-nil) bid for a hand, taking partner's bid into account.
+ * Also used for timeout auto-bids.
+ *
+ * @returns A bid amount between 1 and the number of tricks in the round
+ */
+export function getEstimatedBid(state: SpadesState, playerId: string): number {
+    const hand = state.hands[playerId] || [];
+    const partnerId = getPartnerId(state, playerId);
+    const partnerBid = partnerId ? state.bids[partnerId] : undefined;
+
+    let amount = estimateTricks(hand, state.settings);
+    // Bid up to cover a nil partner, who won't be taking tricks
+    amount = isNilBid(partnerBid) ? Math.ceil(amount) : Math.round(amount);
+    // Don't push the team past the round's tricks (one per card dealt)
+    const tricksPerRound = hand.length;
+    if (partnerBid && !isNilBid(partnerBid)) {
+        amount = Math.min(amount, tricksPerRound - partnerBid.amount);
+    }
+
+    // Make up the team's shortfall under the four-bid minimum
+    return Math.min(
+        tricksPerRound,
+        Math.max(getMinimumBid(state, playerId), amount)
+    );
+}
+
+// ============================================================================
+// Card Play
+// ============================================================================
+
+/**
+ * Easy play: lead winners (or low cards), and take tricks as cheaply as possible.
+ */
+function getEasyCard(
+    legal: Card[],
+    trick: Trick,
+    settings: SpadesSettings
+): Card {
+    if (trick.plays.length === 0) {
+        const aces = legal.filter((card) => card.rank === Rank.Ace);
+        return aces.length > 0 ? aces[0] : lowestCard(legal, settings);
+    }
+
+    const winnerId = resolveTrick(trick, settings);
+    const winningCard = trick.plays.find((p) => p.playerId === winnerId)!.card;
+    const leadSuit = trick.leadSuit ?? trick.plays[0].card.suit;
+    const winners = legal.filter((card) =>
+        cardBeats(card, winningCard, leadSuit, settings)
+    );
+    return winners.length > 0
+        ? lowestCard(winners, settings)
+        : lowestCard(legal, settings);
+}
+
+/**
+ * Hard play when the bot bid nil: never take a trick if it can be avoided.
+ */
+function getNilCard(
+    legal: Card[],
+    trick: Trick,
+    settings: SpadesSettings
+): Card {
+    if (trick.plays.length === 0) return lowestCard(legal, settings);
+
+    const winnerId = resolveTrick(trick, settings);
+    const winningCard = trick.plays.find((p) => p.playerId === winnerId)!.card;
+    const leadSuit = trick.leadSuit ?? trick.plays[0].card.suit;
+    const losers = legal.filter(
+        (card) => !cardBeats(card, winningCard, leadSuit, settings)
+    );
+    // Shed the highest card that still loses; if forced to win, win big
+    return losers.length > 0
+        ? highestCard(losers, settings)
+        : highestCard(legal, settings);
+}
+
+/**
+ * Hard play when leading a trick.
+ */
+function getHardLead(
+    state: SpadesState,
+    legal: Card[],
+    hand: Card[],
+    unseen: Card[],
+    needTricks: boolean
+): Card {
+    const { settings } = state;
+
+    if (!needTricks) return lowestCard(legal, settings);
+
+    // Cash side-suit winners first, then pull trump with master spades
+    const masters = legal.filter((card) =>
+        isMasterCard(card, unseen, settings)
+    );
+    const sideMasters = masters.filter((card) => card.suit !== Suit.Spades);
+    if (sideMasters.length > 0) return highestCard(sideMasters, settings);
+    if (masters.length > 0) return highestCard(masters, settings);
+
+    // Otherwise lead low from the longest side suit to set up later tricks
+    const sideCards = legal.filter((card) => card.suit !== Suit.Spades);
+    if (sideCards.length === 0) return lowestCard(legal, settings);
+    const longestSuit = SIDE_SUITS.reduce((best, suit) =>
+        cardsOfSuit(hand, suit).length > cardsOfSuit(hand, best).length &&
+        cardsOfSuit(sideCards, suit).length > 0
+            ? suit
+            : best
+    );
+    const fromLongest = cardsOfSuit(sideCards, longestSuit);
+    return lowestCard(
+        fromLongest.length > 0 ? fromLongest : sideCards,
+        settings
+    );
+}
+
+/**
+ * Hard play when following to a trick.
+ */
+function getHardFollow(
+    state: SpadesState,
+    playerId: string,
+    legal: Card[],
+    trick: Trick,
+    unseen: Card[],
+    needTricks: boolean
+): Card {
+    const { settings } = state;
+    const partnerId = getPartnerId(state, playerId);
+    const partnerNil = partnerId ? isNilBid(state.bids[partnerId]) : false;
+
+    const winnerId = resolveTrick(trick, settings);
+    const winningCard = trick.plays.find((p) => p.playerId === winnerId)!.card;
+    const leadSuit = trick.leadSuit ?? trick.plays[0].card.suit;
+    const winners = legal.filter((card) =>
+        cardBeats(card, winningCard, leadSuit, settings)
+    );
+    const losers = legal.filter((card) => !winners.includes(card));
+    const safeWinners = winners.filter((card) =>
+        isMasterCard(card, unseen, settings)
+    );
+    const isLastToPlay = trick.plays.length === state.playOrder.length - 1;
+
+    // Cover a nil partner who is currently winning
+    if (partnerNil && winnerId === partnerId) {
+        return winners.length > 0
+            ? highestCard(winners, settings)
+            : lowestCard(legal, settings);
+    }
+
+    // Trick is lost - dump the lowest card
+    if (winners.length === 0) return lowestCard(legal, settings);
+
+    // Partner has the trick - only take over to lock it in against
+    // an opponent who could still beat partner's card
+    if (winnerId === partnerId) {
+        const partnerSafe =
+            isLastToPlay || isMasterCard(winningCard, unseen, settings);
+        return !partnerSafe && needTricks && safeWinners.length > 0
+            ? lowestCard(safeWinners, settings)
+            : lowestCard(legal, settings);
+    }
+
+    if (needTricks || partnerNil) {
+        if (isLastToPlay) return lowestCard(winners, settings);
+        // Later players may still overtake, so prefer a card that can't be beaten
+        return lowestCard(
+            safeWinners.length > 0 ? safeWinners : winners,
+            settings
+        );
+    }
+
+    // Bid already made - duck under the winning card to avoid bags
+    return losers.length > 0
+        ? highestCard(losers, settings)
+        : lowestCard(winners, settings);
+}
+
+/**
+ * Choose a card for a bot to play.
+ *
+ * @returns A legal card, or null if the bot has no cards
+ */
+export function getBotCard(
+    state: SpadesState,
+    playerId: string,
+    difficulty: BotDifficulty
+): Card | null {
+    const hand = state.hands[playerId] || [];
+    const trick: Trick = state.currentTrick || {
+        leaderId: playerId,
+        plays: [],
+        leadSuit: null,
+    };
+    const rules = getTrickRules(state);
+    const legal = hand.filter((card) => canPlayCard(card, hand, trick, rules));
+    if (legal.length === 0) return null;
+    if (legal.length === 1) return legal[0];
+
+    if (difficulty === "easy") {
+        return getEasyCard(legal, trick, state.settings);
+    }
+
+    if (isNilBid(state.bids[playerId])) {
+        return getNilCard(legal, trick, state.settings);
+    }
+
+    const unseen = getUnseenCards(state, hand);
+    const needTricks = getTeamTricksNeeded(state, playerId) > 0;
+
+    return trick.plays.length === 0
+        ? getHardLead(state, legal, hand, unseen, needTricks)
+        : getHardFollow(state, playerId, legal, trick, unseen, needTricks);
+}
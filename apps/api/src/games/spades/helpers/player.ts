@@ -1,60 +1,51 @@
-import { CardPlay, Trick, Card, Suit, SpadesSettings } from "@family-games/shared";
-import { cardBeats } from "./card";
-
-/*─────────────────────────  FOLLOW-SUIT RULE  ──────────────────────────*/
-function mustFollowSuit(
-    card: Card,
-    playerHand: Card[],
-    ledSuit: Suit | null
-): boolean {
-    if (!ledSuit) return true; // first card of trick – any suit allowed
-    if (card.suit === ledSuit) return true; // followed
-    // Has at least one of the led suit? then illegal to slough
-    return !playerHand.some((c) => c.suit === ledSuit);
-}
+import {
+    Trick,
+    TrickRules,
+    SpadesSettings,
+    SpadesState,
+    SPADES_TEAM_BID_MINIMUM,
+    getSpadesTrickRules,
+    getWinningPlay,
+} from "@family-games/shared";
+
+/*─────────────────────────  TRICK RULES  ───────────────────────────────*/
 
-/*─────────────────────────  SPADE BREAK RULE  ──────────────────────────*/
-function canLeadSuit(
-    card: Card,
-    spadesBroken: boolean,
-    playerHand: Card[],
-    ledSuit: Suit | null
-): boolean {
-    // non-leader always allowed; check only when trick empty
-    if (ledSuit) return true;
-    if (card.suit !== Suit.Spades) return true;
-    if (spadesBroken) return true;
-    // if the player ONLY has spades, permit leading them
-    return playerHand.every((c) => c.suit === Suit.Spades);
+/**
+ * Rules for the current hand (spades can't lead until broken).
+ */
+export function getTrickRules(
+    state: Pick<SpadesState, "settings" | "spadesBroken">
+): TrickRules {
+    return getSpadesTrickRules(state.settings, state.spadesBroken);
 }
 
 /*─────────────────────────  TRICK WINNER  ──────────────────────────────*/
 
 export function resolveTrick(trick: Trick, settings: SpadesSettings): string {
-    const ledSuit = trick.leadSuit || trick.plays[0]?.card.suit;
-    const winningPlay = trick.plays.reduce(
-        (winner, play) => {
-            if (!winner) return play; // first play is always the winner
-            if (cardBeats(play.card, winner.card, ledSuit, settings))
-                return play;
-            return winner;
-        },
-        null as CardPlay | null
-    );
-    return winningPlay?.playerId || "";
+    const rules = getSpadesTrickRules(settings, true);
+    return getWinningPlay(trick, rules)?.playerId || "";
 }
 
-export function canPlayCard(
-    card: Card,
-    playerHand: Card[],
-    trick: Trick,
-    spadesBroken: boolean
-): boolean {
-    if (trick.plays.length === 0) {
-        // first play of the trick
-        return canLeadSuit(card, spadesBroken, playerHand, trick.leadSuit);
-    } else {
-        // subsequent plays
-        return mustFollowSuit(card, playerHand, trick.leadSuit);
-    }
+/*─────────────────────────  TEAM BID MINIMUM  ──────────────────────────*/
+
+/**
+ * Lowest normal (or blind) bid the player may make. With the four-bid
+ * minimum, the last player on a team to bid makes up the team's shortfall;
+ * nil bids are always allowed. Cutthroat players have no team to make up.
+ */
+export function getMinimumBid(state: SpadesState, playerId: string): number {
+    if (!state.settings.fourBidMinimum) return 1;
+
+    const team = Object.values(state.teams).find((t) =>
+        t.players.includes(playerId)
+    );
+    const teammates = team?.players.filter((id) => id !== playerId) ?? [];
+    if (teammates.length === 0) return 1;
+    if (teammates.some((id) => !state.bids[id])) return 1;
+
+    const teammatesBid = teammates.reduce(
+        (sum, id) => sum + state.bids[id].amount,
+        0
+    );
+    return Math.max(1, SPADES_TEAM_BID_MINIMUM - teammatesBid);
 }
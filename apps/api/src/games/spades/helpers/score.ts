@@ -1,22 +1,13 @@
-import { SpadesState, Trick, Bid } from "@family-games/shared";
-
-interface TeamScoreBreakdown {
-    previousScore: number;
-    tricksWon: number;
-    bid: number;
-    basePoints: number; // bid * 10 (or negative if failed)
-    bags: number; // overtricks this round
-    bagPoints: number; // +1 per bag
-    bagPenalty: number; // -100 if accumulated 10+ bags
-    nilBonus: number; // +100 per successful nil
-    nilPenalty: number; // -100 per failed nil
-    blindBonus: number; // Extra points from successful blind bid (2x normal)
-    blindPenalty: number; // Extra penalty from failed blind bid (2x normal)
-    blindNilBonus: number; // +200 for successful blind nil
-    blindNilPenalty: number; // -200 for failed blind nil
-    roundScore: number; // total points gained/lost this round
-    newScore: number; // final score after round
-}
+import {
+    SpadesState,
+    Trick,
+    Bid,
+    TeamScoreBreakdown,
+    DEFAULT_SPADES_SETTINGS,
+} from "@family-games/shared";
+
+// Points for taking every trick when the Boston rule is "bonus"
+const BOSTON_BONUS = 200;
 
 interface ScoreResult {
     teamScores: Record<number, number>;
@@ -27,6 +18,7 @@ interface ScoreResult {
         nilSuccess: Record<number, boolean>;
     };
     scoreBreakdown: Record<number, TeamScoreBreakdown>;
+    bostonTeamId?: number; // team that took every trick
 }
 
 /**
@@ -35,7 +27,9 @@ interface ScoreResult {
  * @returns ScoreResult with team scores, bags, and detailed breakdown
  */
 export function calculateSpadesScores(state: SpadesState): ScoreResult {
-    const { teams, completedTricks, bids, settings } = state;
+    const { teams, completedTricks, bids } = state;
+    // Games started before a rule existed play it with its default
+    const settings = { ...DEFAULT_SPADES_SETTINGS, ...state.settings };
 
     // Initialize per-team tracking
     const tricksWon: Record<number, number> = {};
@@ -47,8 +41,9 @@ export function calculateSpadesScores(state: SpadesState): ScoreResult {
     const playerTeam: Record<string, number> = {};
     Object.entries(teams).forEach(([teamId, team]) => {
         const numId = Number(teamId);
-        playerTeam[team.players[0]] = numId;
-        playerTeam[team.players[1]] = numId;
+        team.players.forEach((playerId) => {
+            playerTeam[playerId] = numId;
+        });
 
         tricksWon[numId] = 0;
         teamBids[numId] = 0;
@@ -59,6 +54,7 @@ export function calculateSpadesScores(state: SpadesState): ScoreResult {
             previousScore: team.score,
             tricksWon: 0,
             bid: 0,
+            minimumBidApplied: false,
             basePoints: 0,
             bags: 0,
             bagPoints: 0,
@@ -69,6 +65,8 @@ export function calculateSpadesScores(state: SpadesState): ScoreResult {
             blindPenalty: 0,
             blindNilBonus: 0,
             blindNilPenalty: 0,
+            tenForTwoHundredBonus: 0,
+            bostonBonus: 0,
             roundScore: 0,
             newScore: team.score,
         };
@@ -91,20 +89,20 @@ export function calculateSpadesScores(state: SpadesState): ScoreResult {
 
         if (bid.type === "nil") {
             if (playerTricks === 0) {
-                // Successful nil: +100 points
-                scoreBreakdown[teamId].nilBonus += 100;
+                // Successful nil: + nil value
+                scoreBreakdown[teamId].nilBonus += settings.nilValue;
             } else {
-                // Failed nil: -100 points
-                scoreBreakdown[teamId].nilPenalty += 100;
+                // Failed nil: - nil value
+                scoreBreakdown[teamId].nilPenalty += settings.nilValue;
                 nilSuccess[teamId] = false;
             }
         } else if (bid.type === "blind-nil") {
             if (playerTricks === 0) {
-                // Successful blind nil: +200 points
-                scoreBreakdown[teamId].blindNilBonus += 200;
+                // Successful blind nil: + double the nil value
+                scoreBreakdown[teamId].blindNilBonus += settings.nilValue * 2;
             } else {
-                // Failed blind nil: -200 points
-                scoreBreakdown[teamId].blindNilPenalty += 200;
+                // Failed blind nil: - double the nil value
+                scoreBreakdown[teamId].blindNilPenalty += settings.nilValue * 2;
                 nilSuccess[teamId] = false;
             }
         } else if (bid.type === "blind") {
@@ -116,6 +114,21 @@ export function calculateSpadesScores(state: SpadesState): ScoreResult {
         }
     });
 
+    // Teams bidding under the minimum are scored as if they bid it
+    // (nil-only teams have no contract, cutthroat players aren't teams)
+    const minimumTeamBid = settings.minimumTeamBid ?? 0;
+    Object.keys(teams).forEach((teamIdStr) => {
+        const teamId = Number(teamIdStr);
+        if (
+            teams[teamId].players.length > 1 &&
+            teamBids[teamId] > 0 &&
+            teamBids[teamId] < minimumTeamBid
+        ) {
+            teamBids[teamId] = minimumTeamBid;
+            scoreBreakdown[teamId].minimumBidApplied = true;
+        }
+    });
+
     // Update breakdown with bid totals and tricks
     Object.keys(teams).forEach((teamIdStr) => {
         const teamId = Number(teamIdStr);
@@ -147,6 +160,11 @@ export function calculateSpadesScores(state: SpadesState): ScoreResult {
                     scoreBreakdown[teamId].blindBonus = basePoints; // Extra 1x for 2x total
                 }
 
+                // 10 for 200: made bids of 10+ score double
+                if (settings.tenForTwoHundred && bid >= 10) {
+                    scoreBreakdown[teamId].tenForTwoHundredBonus = basePoints;
+                }
+
                 const bags = tricks - bid;
                 scoreBreakdown[teamId].bags = bags;
                 scoreBreakdown[teamId].bagPoints = bags; // +1 per bag
@@ -165,12 +183,24 @@ export function calculateSpadesScores(state: SpadesState): ScoreResult {
 
         // Track cumulative bags and apply penalty
         const currentBags = teams[teamId].accumulatedBags + teamBags[teamId];
-        if (currentBags >= 10) {
+        if (currentBags >= settings.bagsThreshold) {
             scoreBreakdown[teamId].bagPenalty = Math.abs(settings.bagsPenalty);
             // Note: The actual bag reset will happen when we update team state
         }
     });
 
+    // Boston: one team took every trick
+    const bostonTeamId = Object.keys(teams)
+        .map(Number)
+        .find(
+            (teamId) =>
+                completedTricks.length > 0 &&
+                tricksWon[teamId] === completedTricks.length
+        );
+    if (bostonTeamId !== undefined && settings.bostonRule === "bonus") {
+        scoreBreakdown[bostonTeamId].bostonBonus = BOSTON_BONUS;
+    }
+
     // Calculate final scores
     const teamScores: Record<number, number> = {};
     Object.keys(teams).forEach((teamIdStr) => {
@@ -185,7 +215,9 @@ export function calculateSpadesScores(state: SpadesState): ScoreResult {
             breakdown.blindBonus -
             breakdown.blindPenalty +
             breakdown.blindNilBonus -
-            breakdown.blindNilPenalty -
+            breakdown.blindNilPenalty +
+            breakdown.tenForTwoHundredBonus +
+            breakdown.bostonBonus -
             breakdown.bagPenalty;
 
         breakdown.newScore = breakdown.previousScore + breakdown.roundScore;
@@ -201,5 +233,6 @@ export function calculateSpadesScores(state: SpadesState): ScoreResult {
             nilSuccess,
         },
         scoreBreakdown,
+        bostonTeamId,
     };
 }
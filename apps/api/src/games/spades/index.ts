@@ -3,57 +3,73 @@ import {
     Room,
     User,
     SpadesSettings,
+    SpadesGameMode,
     DEFAULT_SPADES_SETTINGS,
+    SPADES_CUTTHROAT_MIN_PLAYERS,
+    SPADES_CUTTHROAT_MAX_PLAYERS,
+    SPADES_TEAM_BID_MINIMUM,
     SPADES_SETTINGS_DEFINITIONS,
     Bid,
     Card,
     Suit,
+    Trick,
+    BotDifficulty,
+    DealInfo,
+    TeamScoreBreakdown,
+    drawFirstDealer,
 } from "@family-games/shared";
 import { GameModule, GameState, GameAction } from "../../services/GameManager";
 import { v4 as uuidv4 } from "uuid";
 import {
-    buildDeck,
     currentPlayerId,
-    dealCardsToPlayers,
+    dealSpadesHands,
     nextPlayerIndex,
-    shuffleDeck,
 } from "./helpers/card";
 import { omitFields } from "../../utils/omitFields";
-import { canPlayCard, resolveTrick } from "./helpers/player";
+import { getMinimumBid, getTrickRules } from "./helpers/player";
 import { calculateSpadesScores } from "./helpers/score";
 import {
     handlePlayerReconnect,
     handlePlayerDisconnect,
     checkAllPlayersConnected,
+    createDeal,
+    withDealtHands,
+    getPublicDeals,
+    openContinueGate,
+    acknowledgeContinue,
+    assertCanForceContinue,
+    getOpposingPlayers,
+    trackUndo,
+    requestUndo,
+    respondToUndo,
+    ROUND_SUMMARY_CONTINUE_MS,
+    playTrickCard,
+    isHandOver,
+    acknowledgeTrickResult,
+    continueAfterTrickResult,
 } from "../shared";
 import { turnTimerService } from "../../services/TurnTimerService";
 
-// Export auto-action helpers for TurnTimerService
-export {
+import {
     getAutoBid,
     getAutoPlayCard,
     shouldTimerBeActive,
 } from "./helpers/autoAction";
+import { getBotBid, getBotCard } from "./helpers/bot";
 
 const SPADES_NAME = "spades";
 const SPADES_DISPLAY_NAME = "Spades";
-export const spadesTeamRequirements = {
-    numTeams: 2,
-    playersPerTeam: 2,
-};
-const SPADES_TOTAL_PLAYERS =
-    spadesTeamRequirements.numTeams * spadesTeamRequirements.playersPerTeam;
+// Plays a player can ask to take back (REQUEST_UNDO)
+const UNDOABLE_ACTIONS = ["PLAY_CARD"];
 
 const SPADES_METADATA = {
     type: SPADES_NAME,
     displayName: SPADES_DISPLAY_NAME,
     description:
-        "A trick-taking card game played in teams of two. Bid on how many tricks you'll win, then play to make your bid!",
-    requiresTeams: true,
-    minPlayers: SPADES_TOTAL_PLAYERS,
-    maxPlayers: SPADES_TOTAL_PLAYERS,
-    numTeams: spadesTeamRequirements.numTeams,
-    playersPerTeam: spadesTeamRequirements.playersPerTeam,
+        "A trick-taking card game. Bid on how many tricks you'll win, then play to make your bid! Play in teams of two, or cutthroat with 3 to 5 players.",
+    requiresTeams: false, // Only partnerships use teams (see gameMode)
+    minPlayers: SPADES_CUTTHROAT_MIN_PLAYERS,
+    maxPlayers: SPADES_CUTTHROAT_MAX_PLAYERS,
     settingsDefinitions: SPADES_SETTINGS_DEFINITIONS,
     defaultSettings: DEFAULT_SPADES_SETTINGS,
 };
@@ -65,18 +81,6 @@ interface Team {
     nil?: boolean;
 }
 
-export interface CardPlay {
-    playerId: string;
-    card: Card;
-}
-
-export interface Trick {
-    leaderId: string;
-    plays: CardPlay[];
-    leadSuit: Suit | null; // suit of the first card played
-    winnerId?: string;
-}
-
 type SpadesPhases =
     | "bidding"
     | "playing"
@@ -100,6 +104,7 @@ export interface SpadesState extends GameState {
     completedTricks: Trick[];
     phase: SpadesPhases;
     round: number;
+    deals: DealInfo[]; // Seed, commitment and hands for every round dealt so far
     history: string[]; // Action history for debugging
     settings: SpadesSettings;
     winnerTeamId?: number;
@@ -110,7 +115,7 @@ export interface SpadesState extends GameState {
 
     roundTrickCounts: Record<string, number>;
     roundTeamScores: Record<number, number>; // scores for each team for the round.
-    roundScoreBreakdown: Record<number, any>; // detailed breakdown for each team (e.g., bags, nil, bonuses, penalties).
+    roundScoreBreakdown: Record<number, TeamScoreBreakdown>; // detailed breakdown for each team (e.g., bags, nil, bonuses, penalties).
     teamEligibleForBlind: Record<number, boolean>; // which teams are eligible for blind bids (100+ behind)
 
     /** ISO timestamp when the current turn started (for turn timer) */
@@ -125,16 +130,14 @@ function init(
     const players: Record<string, User> = Object.fromEntries(
         room.users.map((user) => [user.id, user])
     );
-    const teams: Record<number, Team> = Object.fromEntries(
-        room.teams?.map((team, index) => [
-            index,
-            { players: team, score: 0, accumulatedBags: 0 },
-        ]) || []
-    );
+    const settings: SpadesSettings = {
+        ...DEFAULT_SPADES_SETTINGS,
+        ...customSettings,
+    };
+    const teams = buildTeams(room, settings.gameMode);
 
     const numTeams = Object.keys(teams).length;
     const playersPerTeam = teams[0]?.players.length || 0;
-    const dealerIndex = Math.floor(Math.random() * (playersPerTeam * numTeams));
     const playOrder: string[] = [];
     for (let i = 0; i < playersPerTeam; i++) {
         for (let j = 0; j < numTeams; j++) {
@@ -142,17 +145,16 @@ function init(
             if (playerId) playOrder.push(playerId);
         }
     }
+    // The first dealer is drawn from the round's seed too
+    const { deal, rng } = createDeal(1);
+    const dealerIndex = drawFirstDealer(playOrder.length, rng);
 
-    const settings: SpadesSettings = {
-        ...DEFAULT_SPADES_SETTINGS,
-        ...customSettings,
-    };
-    const deck = buildDeck(settings.jokersEnabled);
-    const shuffledDeck = shuffleDeck(deck);
+    const hands = dealSpadesHands(playOrder, settings, rng);
 
     return {
         id: uuidv4(),
         roomId: room.id,
+        version: 0,
         type: SPADES_NAME,
 
         players,
@@ -162,7 +164,7 @@ function init(
         dealerIndex,
         currentTurnIndex: dealerIndex,
 
-        hands: dealCardsToPlayers(shuffledDeck, players, settings),
+        hands,
         bids: {},
 
         spadesBroken: false,
@@ -170,6 +172,7 @@ function init(
         completedTricks: [],
         phase: "bidding",
         round: 1,
+        deals: [withDealtHands(deal, hands)],
         settings,
         history: [],
 
@@ -187,6 +190,40 @@ function init(
     };
 }
 
+/**
+ * Partnerships come from the room's team assignment. In cutthroat every
+ * player is a team of one, so bidding and scoring stay per team.
+ */
+function buildTeams(
+    room: Room,
+    gameMode: SpadesGameMode
+): Record<number, Team> {
+    if (gameMode === "cutthroat") {
+        const count = room.users.length;
+        if (
+            count < SPADES_CUTTHROAT_MIN_PLAYERS ||
+            count > SPADES_CUTTHROAT_MAX_PLAYERS
+        ) {
+            throw new Error(
+                `Cutthroat Spades needs ${SPADES_CUTTHROAT_MIN_PLAYERS} to ${SPADES_CUTTHROAT_MAX_PLAYERS} players.`
+            );
+        }
+        return Object.fromEntries(
+            room.users.map((user, index) => [
+                index,
+                { players: [user.id], score: 0, accumulatedBags: 0 },
+            ])
+        );
+    }
+
+    return Object.fromEntries(
+        room.teams?.map((team, index) => [
+            index,
+            { players: team, score: 0, accumulatedBags: 0 },
+        ]) || []
+    );
+}
+
 /**
  * Calculate which teams are eligible for blind bids (100+ points behind leader)
  */
@@ -210,90 +247,126 @@ function calculateTeamEligibility(
 
 function reducer(state: SpadesState, action: GameAction): SpadesState {
     logHistory(state, action);
+    switch (action.type) {
+        case "REQUEST_UNDO":
+            return requestUndo(
+                state,
+                action.userId,
+                getOpposingPlayers(state.playOrder, state.teams, action.userId)
+            );
+        case "RESPOND_UNDO":
+            return respondToUndo(
+                state,
+                action.userId,
+                action.payload?.approve === true
+            );
+        default:
+            return trackUndo(
+                state,
+                applyAction(state, action),
+                action,
+                UNDOABLE_ACTIONS
+            );
+    }
+}
+
+function applyAction(state: SpadesState, action: GameAction): SpadesState {
     switch (action.type) {
         case "PLACE_BID":
             return handlePlaceBid(state, action.userId, action.payload.bid);
         case "PLAY_CARD":
             return handlePlayCard(state, action.userId, action.payload.card);
-        case "CONTINUE_AFTER_TRICK_RESULT": {
-            // Only process if phase is 'trick-result'
-            if (state.phase !== "trick-result") return state;
-            // Advance to next trick
-            // Find last trick winner
-            const lastTrick =
-                state.completedTricks[state.completedTricks.length - 1];
-            const winnerId = lastTrick?.winnerId;
-            // Set currentTurnIndex to winner
-            const newCurrentTurnIndex = winnerId
-                ? state.playOrder.findIndex((pid) => pid === winnerId)
-                : state.currentTurnIndex;
-            return {
-                ...state,
-                phase: "playing",
-                currentTurnIndex: newCurrentTurnIndex,
-                currentTrick: null, // reset here
-                lastTrickWinnerId: undefined,
-                lastTrickWinningCard: undefined,
-                turnStartedAt: new Date().toISOString(),
-            };
-        }
+        case "CONTINUE_AFTER_TRICK_RESULT":
+            return acknowledgeTrickResult(state, action.userId);
         case "SCORE_ROUND":
             // Example: handle scoring
             return { ...state, phase: "scoring" };
         case "CONTINUE_AFTER_ROUND_SUMMARY": {
             // Only process if phase is 'round-summary'
             if (state.phase !== "round-summary") return state;
-            // Advance to next round
-            // Advance dealer index
-            const nextDealerIndex =
-                (state.dealerIndex + 1) % state.playOrder.length;
-            // Shuffle and deal new hands
-            const deck = buildDeck(state.settings.jokersEnabled);
-            const shuffledDeck = shuffleDeck(deck);
-            const newHandsForNextRound = dealCardsToPlayers(
-                shuffledDeck,
-                state.players,
-                state.settings
+            const continueGate = acknowledgeContinue(
+                state.continueGate,
+                action.userId
             );
-            // Calculate team eligibility for blind bids (100+ points behind)
-            const teamEligibleForBlind = calculateTeamEligibility(state.teams);
-
-            // Reset bids, tricks, spadesBroken, etc.
-            return {
-                ...state,
-                hands: newHandsForNextRound,
-                bids: {},
-                currentTrick: null,
-                completedTricks: [],
-                spadesBroken: false,
-                currentTurnIndex: nextDealerIndex,
-                dealerIndex: nextDealerIndex,
-                phase: "bidding",
-                round: state.round + 1,
-                winnerTeamId: undefined,
-                isTie: undefined,
-                lastTrickWinnerId: undefined,
-                lastTrickWinningCard: undefined,
-                roundTrickCounts: {},
-                roundTeamScores: {},
-                roundScoreBreakdown: {},
-                teamEligibleForBlind,
-                turnStartedAt: new Date().toISOString(),
-            };
+            return continueGate
+                ? { ...state, continueGate }
+                : startNextRound(state);
         }
+        case "FORCE_CONTINUE":
+            assertCanForceContinue(state, action.userId);
+            if (state.phase === "trick-result") {
+                return continueAfterTrickResult(state);
+            }
+            if (state.phase === "round-summary") {
+                return startNextRound(state);
+            }
+            return state;
         default:
             return state;
     }
 }
 
+/**
+ * Leave the round summary: deal the next round
+ */
+function startNextRound(state: SpadesState): SpadesState {
+    // Advance to next round
+    // Advance dealer index
+    const nextDealerIndex = (state.dealerIndex + 1) % state.playOrder.length;
+    // Shuffle and deal new hands from a fresh seed
+    const { deal, rng } = createDeal(state.round + 1);
+    const newHandsForNextRound = dealSpadesHands(
+        state.playOrder,
+        state.settings,
+        rng
+    );
+    // Calculate team eligibility for blind bids (100+ points behind)
+    const teamEligibleForBlind = calculateTeamEligibility(state.teams);
+
+    // Reset bids, tricks, spadesBroken, etc.
+    return {
+        ...state,
+        hands: newHandsForNextRound,
+        bids: {},
+        currentTrick: null,
+        completedTricks: [],
+        spadesBroken: false,
+        currentTurnIndex: nextDealerIndex,
+        dealerIndex: nextDealerIndex,
+        phase: "bidding",
+        round: state.round + 1,
+        continueGate: null,
+        deals: [...state.deals, withDealtHands(deal, newHandsForNextRound)],
+        winnerTeamId: undefined,
+        isTie: undefined,
+        lastTrickWinnerId: undefined,
+        lastTrickWinningCard: undefined,
+        roundTrickCounts: {},
+        roundTeamScores: {},
+        roundScoreBreakdown: {},
+        teamEligibleForBlind,
+        turnStartedAt: new Date().toISOString(),
+    };
+}
+
 function getState(state: SpadesState): Partial<SpadesState> {
-    const publicState = omitFields(state, ["hands"]) as Partial<SpadesState> & {
+    const publicState = omitFields(state, [
+        "hands",
+        "undoSnapshot",
+    ]) as Partial<SpadesState> & {
         handsCounts?: Record<string, number>;
+        undoPlayerId?: string | null;
         turnTimer?: { startedAt: number; duration: number; serverTime: number };
     };
     publicState.handsCounts = Object.fromEntries(
         state.playOrder.map((id) => [id, state.hands[id].length || 0])
     );
+    publicState.undoPlayerId = state.undoSnapshot?.playerId ?? null;
+    // Reveal the round's seed once the round is over
+    publicState.deals = getPublicDeals(
+        state.deals,
+        ["scoring", "round-summary", "finished"].includes(state.phase)
+    );
 
     // Include turn timer info for client-side sync with latency compensation
     const turnTimeLimit = state.settings?.turnTimeLimit;
@@ -350,6 +423,9 @@ export const spadesModule: GameModule = {
     checkMinimumPlayers,
     handlePlayerReconnect,
     handlePlayerDisconnect,
+    getTimedPlayer,
+    getAutoAction,
+    getBotAction,
     metadata: SPADES_METADATA,
 };
 
@@ -380,9 +456,14 @@ function handlePlaceBid(
     if (state.players[playerId]?.isConnected === false) {
         throw new Error("You've been disconnected. Please refresh to rejoin.");
     }
-    // Validate bid (must be a number between 0 and 13, as there are only 13 tricks possible)
-    if (typeof bid.amount !== "number" || bid.amount < 0 || bid.amount > 13) {
-        throw new Error("Bid must be between 0 and 13 tricks.");
+    // Validate bid (between 0 and the number of tricks, one per card in hand)
+    const tricksPerRound = state.hands[playerId]?.length ?? 0;
+    if (
+        typeof bid.amount !== "number" ||
+        bid.amount < 0 ||
+        bid.amount > tricksPerRound
+    ) {
+        throw new Error(`Bid must be between 0 and ${tricksPerRound} tricks.`);
     }
 
     // Find player's team
@@ -466,6 +547,16 @@ function handlePlaceBid(
         throw new Error(`Invalid bid type: ${bid.type}`);
     }
 
+    // Four-bid minimum: the team's bids must add up to at least 4
+    if (bid.type === "normal" || bid.type === "blind") {
+        const minimumBid = getMinimumBid(state, playerId);
+        if (bid.amount < minimumBid) {
+            throw new Error(
+                `Your team must bid at least ${SPADES_TEAM_BID_MINIMUM} combined. Bid ${minimumBid} or more.`
+            );
+        }
+    }
+
     // Prevent duplicate bids
     if (state.bids[playerId]) {
         throw new Error("Player has already placed a bid.");
@@ -491,236 +582,131 @@ function handlePlayCard(
     playerId: string,
     card: Card
 ): SpadesState {
-    // 1. Validate phase
-    if (state.phase !== "playing") {
-        throw new Error("Cards can only be played during the playing phase.");
-    }
-
-    // 2. Validate turn
-    if (currentPlayerId(state) !== playerId) {
-        throw new Error("Not your turn to play a card.");
-    }
-
-    // 3. Check if player is connected
-    if (state.players[playerId]?.isConnected === false) {
-        throw new Error("Player is disconnected and cannot play a card.");
-    }
-
-    // 4. Validate card is in hand
-    const playerHand = state.hands[playerId] || [];
-    const cardIdx = playerHand.findIndex(
-        (c) => c.suit === card.suit && c.rank === card.rank
-    );
-    if (cardIdx === -1) {
-        throw new Error("Card not in player's hand.");
-    }
-
-    // 5. Validate play is legal (follow suit, spades broken, etc.)
-    const trick = state.currentTrick || {
-        leaderId: playerId,
-        plays: [],
-        leadSuit: null,
+    // Leading a spade doesn't break spades; playing one to another suit does
+    const isLead = !state.currentTrick || state.currentTrick.plays.length === 0;
+    const played = playTrickCard(state, playerId, card, getTrickRules(state));
+    const next: SpadesState = {
+        ...played,
+        spadesBroken:
+            state.spadesBroken || (card.suit === Suit.Spades && !isLead),
     };
-    if (!canPlayCard(card, playerHand, trick, state.spadesBroken)) {
-        throw new Error(
-            "Illegal card play (must follow suit or spades not broken)."
-        );
-    }
 
-    // 6. Remove card from hand
-    const newHand = [...playerHand];
-    newHand.splice(cardIdx, 1);
-    const newHands = { ...state.hands, [playerId]: newHand };
-
-    // 7. Add play to trick
-    const isFirstPlay = trick.plays.length === 0;
-    const leadSuit = isFirstPlay ? card.suit : trick.leadSuit;
-    const newTrick: Trick = {
-        ...trick,
-        plays: [...trick.plays, { playerId, card }],
-        leadSuit: leadSuit || null,
-    };
+    return isHandOver(next) ? scoreRound(next) : next;
+}
 
-    // 8. Update spadesBroken if a spade is played (and not the first trick)
-    const spadesBroken =
-        state.spadesBroken ||
-        (card.suit === "Spades" &&
-            !(
-                isFirstPlay &&
-                card.suit === "Spades" &&
-                trick.leadSuit === null
-            ));
-
-    // 9. If trick is complete, resolve winner and show result
-    const newCurrentTrick: Trick | null = newTrick;
-    let newCompletedTricks = state.completedTricks;
-    let newCurrentTurnIndex = nextPlayerIndex(state);
-    const newPhase: SpadesPhases = state.phase;
-    let lastTrickWinnerId: string | undefined = undefined;
-    let lastTrickWinningCard: Card | undefined = undefined;
-    if (newTrick.plays.length === state.playOrder.length) {
-        // Trick complete
-        const winnerId = resolveTrick(newTrick, state.settings);
-        newCompletedTricks = [
-            ...state.completedTricks,
-            { ...newTrick, winnerId },
-        ];
-        // Do not reset currentTrick here; keep it visible during trick-result phase
-        // Find the winning card
-        const winningPlay = newTrick.plays.find((p) => p.playerId === winnerId);
-        lastTrickWinnerId = winnerId;
-        lastTrickWinningCard = winningPlay?.card;
-        // Update current turn index to the winner of the trick
-        newCurrentTurnIndex = state.playOrder.findIndex(
-            (pid) => pid === winnerId
-        );
+/**
+ * Score the hand once its last trick is played, then show the round
+ * summary (or finish the game).
+ */
+function scoreRound(state: SpadesState): SpadesState {
+    // Calculate scores and update team scores
+    const scoreResult = calculateSpadesScores(state);
+    const { teamScores, bostonTeamId } = scoreResult;
+    // Use scoreResult.scoreBreakdown if available, else fallback to teamScores
+    const scoreBreakdown = scoreResult.scoreBreakdown ?? {};
+
+    // Calculate team scores for the round
+    const roundTeamScores: Record<number, number> = {};
+    Object.keys(teamScores).forEach((teamId) => {
+        const numericTeamId = Number(teamId);
+        roundTeamScores[numericTeamId] =
+            scoreBreakdown[numericTeamId]?.roundScore ??
+            teamScores[numericTeamId];
+    });
 
-        // Calculate tricks won per player (for live display during round)
-        const roundTrickCounts: Record<string, number> = {};
-        state.playOrder.forEach((playerId) => {
-            roundTrickCounts[playerId] = 0;
-        });
-        newCompletedTricks.forEach((trick) => {
-            if (trick.winnerId) {
-                roundTrickCounts[trick.winnerId] += 1;
-            }
-        });
+    // Check for win condition - has any team reached winTarget?
+    const winTarget = state.settings.winTarget;
+    const teamsAtOrAboveTarget = Object.entries(teamScores)
+        .filter(([, score]) => score >= winTarget)
+        .map(([teamId, score]) => ({ teamId: Number(teamId), score }));
+
+    let finalPhase: SpadesPhases = "round-summary";
+    let winnerTeamId: number | undefined = undefined;
+    let isTie: boolean | undefined = undefined;
+
+    if (teamsAtOrAboveTarget.length > 0) {
+        // At least one team has reached the win target
+        if (teamsAtOrAboveTarget.length === 1) {
+            // Clear winner
+            finalPhase = "finished";
+            winnerTeamId = teamsAtOrAboveTarget[0].teamId;
+        } else {
+            // Multiple teams at or above target - check for tie
+            const maxScore = Math.max(
+                ...teamsAtOrAboveTarget.map((t) => t.score)
+            );
+            const teamsWithMaxScore = teamsAtOrAboveTarget.filter(
+                (t) => t.score === maxScore
+            );
 
-        // If all tricks complete, advance phase
-        const allHandsEmpty = Object.values(newHands).every(
-            (h) => h.length === 0
-        );
-        if (allHandsEmpty) {
-            // Calculate scores and update team scores
-            const scoreResult = calculateSpadesScores({
-                ...state,
-                hands: newHands,
-                completedTricks: newCompletedTricks,
-            });
-            const { teamScores } = scoreResult;
-            // Use scoreResult.scoreBreakdown if available, else fallback to teamScores
-            const scoreBreakdown = scoreResult.scoreBreakdown ?? {};
-
-            // Calculate team scores for the round
-            const roundTeamScores: Record<number, number> = {};
-            Object.keys(teamScores).forEach((teamId) => {
-                const numericTeamId = Number(teamId);
-                roundTeamScores[numericTeamId] =
-                    scoreBreakdown[numericTeamId]?.roundScore ??
-                    teamScores[numericTeamId];
-            });
-
-            // Check for win condition - has any team reached winTarget?
-            const winTarget = state.settings.winTarget;
-            const teamsAtOrAboveTarget = Object.entries(teamScores)
-                .filter(([, score]) => score >= winTarget)
-                .map(([teamId, score]) => ({ teamId: Number(teamId), score }));
-
-            let finalPhase: SpadesPhases = "round-summary";
-            let winnerTeamId: number | undefined = undefined;
-            let isTie: boolean | undefined = undefined;
-
-            if (teamsAtOrAboveTarget.length > 0) {
-                // At least one team has reached the win target
-                if (teamsAtOrAboveTarget.length === 1) {
-                    // Clear winner
-                    finalPhase = "finished";
-                    winnerTeamId = teamsAtOrAboveTarget[0].teamId;
-                } else {
-                    // Multiple teams at or above target - check for tie
-                    const maxScore = Math.max(
-                        ...teamsAtOrAboveTarget.map((t) => t.score)
-                    );
-                    const teamsWithMaxScore = teamsAtOrAboveTarget.filter(
-                        (t) => t.score === maxScore
-                    );
-
-                    if (teamsWithMaxScore.length === 1) {
-                        // Higher score wins
-                        finalPhase = "finished";
-                        winnerTeamId = teamsWithMaxScore[0].teamId;
-                    } else {
-                        // Exact tie - both teams have same score at or above target
-                        finalPhase = "finished";
-                        isTie = true;
-                    }
-                }
+            if (teamsWithMaxScore.length === 1) {
+                // Higher score wins
+                finalPhase = "finished";
+                winnerTeamId = teamsWithMaxScore[0].teamId;
+            } else {
+                // Exact tie - both teams have same score at or above target
+                finalPhase = "finished";
+                isTie = true;
             }
-
-            // Set round summary phase and expose breakdowns
-            // Note: turnStartedAt is NOT set here - timer starts after CONTINUE_AFTER_ROUND_SUMMARY
-            return {
-                ...state,
-                hands: newHands,
-                currentTrick: null,
-                completedTricks: newCompletedTricks,
-                spadesBroken,
-                currentTurnIndex: newCurrentTurnIndex,
-                phase: finalPhase,
-                teams: {
-                    ...state.teams,
-                    ...Object.keys(teamScores).reduce(
-                        (acc, teamId) => {
-                            const numericTeamId = Number(teamId);
-                            const currentBags =
-                                state.teams[numericTeamId].accumulatedBags;
-                            const newBags =
-                                scoreResult.bags[numericTeamId] || 0;
-                            let updatedAccumulatedBags = currentBags + newBags;
-
-                            // If bag penalty was applied (10+ bags), reset to remainder
-                            if (updatedAccumulatedBags >= 10) {
-                                updatedAccumulatedBags =
-                                    updatedAccumulatedBags % 10;
-                            }
-
-                            acc[numericTeamId] = {
-                                ...state.teams[numericTeamId],
-                                score: teamScores[numericTeamId],
-                                accumulatedBags: updatedAccumulatedBags,
-                            };
-                            return acc;
-                        },
-                        {} as Record<number, Team>
-                    ),
-                },
-                winnerTeamId,
-                isTie,
-                lastTrickWinnerId: undefined,
-                lastTrickWinningCard: undefined,
-                roundTrickCounts,
-                roundTeamScores,
-                roundScoreBreakdown: scoreBreakdown,
-            };
         }
-        // Show trick result before advancing
-        // Note: turnStartedAt is NOT set here - timer starts after CONTINUE_AFTER_TRICK_RESULT
-        return {
-            ...state,
-            hands: newHands,
-            currentTrick: newTrick, // keep visible during trick-result
-            completedTricks: newCompletedTricks,
-            spadesBroken,
-            currentTurnIndex: newCurrentTurnIndex,
-            phase: "trick-result",
-            lastTrickWinnerId,
-            lastTrickWinningCard,
-            roundTrickCounts, // Include live trick counts for display
-        };
     }
 
+    // Boston as an instant win: taking every trick ends the game
+    if (bostonTeamId !== undefined && state.settings.bostonRule === "win") {
+        finalPhase = "finished";
+        winnerTeamId = bostonTeamId;
+        isTie = undefined;
+    }
+
+    // Set round summary phase and expose breakdowns
+    // Note: turnStartedAt is NOT set here - timer starts after the round summary
     return {
         ...state,
-        hands: newHands,
-        currentTrick: newCurrentTrick,
-        completedTricks: newCompletedTricks,
-        spadesBroken,
-        currentTurnIndex: newCurrentTurnIndex,
-        phase: newPhase,
+        currentTrick: null,
+        phase: finalPhase,
+        continueGate:
+            finalPhase === "round-summary"
+                ? openContinueGate(
+                      state,
+                      state.playOrder,
+                      ROUND_SUMMARY_CONTINUE_MS
+                  )
+                : null,
+        teams: {
+            ...state.teams,
+            ...Object.keys(teamScores).reduce(
+                (acc, teamId) => {
+                    const numericTeamId = Number(teamId);
+                    const currentBags =
+                        state.teams[numericTeamId].accumulatedBags;
+                    const newBags = scoreResult.bags[numericTeamId] || 0;
+                    let updatedAccumulatedBags = currentBags + newBags;
+
+                    // If bag penalty was applied, reset to remainder
+                    const bagsThreshold =
+                        state.settings.bagsThreshold ??
+                        DEFAULT_SPADES_SETTINGS.bagsThreshold;
+                    if (updatedAccumulatedBags >= bagsThreshold) {
+                        updatedAccumulatedBags =
+                            updatedAccumulatedBags % bagsThreshold;
+                    }
+
+                    acc[numericTeamId] = {
+                        ...state.teams[numericTeamId],
+                        score: teamScores[numericTeamId],
+                        accumulatedBags: updatedAccumulatedBags,
+                    };
+                    return acc;
+                },
+                {} as Record<number, Team>
+            ),
+        },
+        winnerTeamId,
+        isTie,
         lastTrickWinnerId: undefined,
         lastTrickWinningCard: undefined,
-        // Reset turn timer for next player
-        turnStartedAt: new Date().toISOString(),
+        roundTeamScores,
+        roundScoreBreakdown: scoreBreakdown,
     };
 }
 
@@ -734,8 +720,72 @@ function logHistory(state: SpadesState, action: GameAction): void {
 
 /**
  * Check if the game has minimum players connected to continue.
- * For Spades, all 4 players must be connected to play.
+ * For Spades, every seated player must be connected to play.
  */
 function checkMinimumPlayers(state: SpadesState): boolean {
-    return checkAllPlayersConnected(state, SPADES_TOTAL_PLAYERS);
+    return checkAllPlayersConnected(state, state.playOrder.length);
+}
+
+/**
+ * Turn timer hook: the current player is timed during bidding and playing.
+ */
+function getTimedPlayer(state: SpadesState): string | null {
+    return shouldTimerBeActive(state) ? currentPlayerId(state) : null;
+}
+
+/**
+ * Turn timer hook: auto-bid during bidding, auto-play a legal card otherwise.
+ */
+function getAutoAction(
+    state: SpadesState,
+    playerId: string
+): GameAction | null {
+    if (state.phase === "bidding") {
+        return {
+            type: "PLACE_BID",
+            userId: playerId,
+            payload: { bid: getAutoBid(state, playerId) },
+        };
+    }
+
+    if (state.phase === "playing") {
+        const autoCard = getAutoPlayCard(state, playerId);
+        if (!autoCard) return null;
+        return {
+            type: "PLAY_CARD",
+            userId: playerId,
+            payload: { card: autoCard },
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Bot hook: bid from an estimate of the hand, then play strategically.
+ */
+function getBotAction(
+    state: SpadesState,
+    playerId: string,
+    difficulty: BotDifficulty
+): GameAction | null {
+    if (state.phase === "bidding") {
+        return {
+            type: "PLACE_BID",
+            userId: playerId,
+            payload: { bid: getBotBid(state, playerId, difficulty) },
+        };
+    }
+
+    if (state.phase === "playing") {
+        const card = getBotCard(state, playerId, difficulty);
+        if (!card) return null;
+        return {
+            type: "PLAY_CARD",
+            userId: playerId,
+            payload: { card },
+        };
+    }
+
+    return null;
 }
@@ -2,7 +2,7 @@
 import dotenv from "dotenv";
 import app from "./config/app";
 import { createServer } from "http";
-import { Server as SocketIOServer, Socket } from "socket.io";
+import { Server as SocketIOServer } from "socket.io";
 import { emitRoomEvent, setSocketServer } from "./webhooks/roomWebhooks";
 import {
     closeRoom,
@@ -27,23 +27,52 @@ import {
     requestToJoinRoom,
     acceptJoinRequest,
     rejectJoinRequest,
+    getAllRooms,
+    restoreRooms,
+    addBot,
+    removeBot,
 } from "./services/RoomService";
 import { GameAction, gameManager } from "./services/GameManager";
+import {
+    getActionOutcome,
+    rememberActionOutcome,
+} from "./services/ActionDedupeService";
 import { spadesModule } from "./games/spades";
 import { dominoesModule } from "./games/dominoes";
+import { lrcModule } from "./games/lrc";
+import { heartsModule } from "./games/hearts";
+import { bidWhistModule } from "./games/bidwhist";
+import { euchreModule } from "./games/euchre";
+import { crazyEightsModule } from "./games/crazyeights";
 import {
+    emitFullGameState,
     emitGameEvent,
     emitPlayerGameEvent,
+    emitSpectatorState,
     setGameSocketServer,
 } from "./webhooks/gameWebhooks";
 import { socketRateLimiter } from "./utils/rateLimiter";
-import { setIO } from "./utils/socketIO";
+import { setIO, TypedServer, TypedSocket } from "./utils/socketIO";
 import {
     setTurnTimerSocketServer,
     handleActionDispatched,
     initializeGameTimer,
     cleanupGameTimers,
 } from "./services/GameTurnTimer";
+import {
+    flushPersistence,
+    initPersistence,
+    snapshotRoom,
+    startPersistence,
+} from "./services/PersistenceService";
+import { cancelBotTurn, scheduleBotTurn } from "./services/BotService";
+import { verifySessionToken } from "./services/SessionService";
+import {
+    ClientEventSchemas,
+    safeParseWithErrors,
+    unauthorized,
+    z,
+} from "@family-games/shared";
 
 const IS_DEBUG_LOGGING = process.env.NODE_ENV === "development";
 
@@ -54,18 +83,35 @@ const PORT = process.env.PORT || DEFAULT_PORT;
 
 gameManager.registerGameModule("spades", spadesModule);
 gameManager.registerGameModule("dominoes", dominoesModule);
+gameManager.registerGameModule("lrc", lrcModule);
+gameManager.registerGameModule("hearts", heartsModule);
+gameManager.registerGameModule("bidwhist", bidWhistModule);
+gameManager.registerGameModule("euchre", euchreModule);
+gameManager.registerGameModule("crazyeights", crazyEightsModule);
 
-function handleSocketError(socket: Socket, err: any) {
+function handleSocketError(socket: TypedSocket, err: any) {
     console.error(err);
     socket.emit("error", {
         error: err.message || "Internal Server Error",
     });
 }
 
+/**
+ * The userId bound to this socket by its session token.
+ * Handlers act as this user and ignore any userId in the payload.
+ */
+function getSocketUserId(socket: TypedSocket): string {
+    const userId = socket.data.userId;
+    if (!userId) {
+        throw unauthorized("Join a room before sending this event.");
+    }
+    return userId;
+}
+
 function startServer() {
     const httpServer = createServer(app);
 
-    const io = new SocketIOServer(httpServer, {
+    const io: TypedServer = new SocketIOServer(httpServer, {
         cors: {
             origin: "*",
         },
@@ -77,6 +123,20 @@ function startServer() {
     setGameSocketServer(io);
     setTurnTimerSocketServer(io);
 
+    // Resolve the session token once per connection. Connections without a
+    // token are allowed (e.g. waiting on a join request) but can't act as anyone.
+    io.use((socket, next) => {
+        const token = socket.handshake.auth?.token;
+        if (!token) return next();
+
+        const userId = verifySessionToken(token);
+        if (!userId) {
+            return next(new Error("Invalid session token"));
+        }
+        socket.data.userId = userId;
+        next();
+    });
+
     io.on("connection", (socket) => {
         // Client should join a room by roomId after connecting
         console.log(`New client connected: ${socket.id}`);
@@ -101,6 +161,36 @@ function startServer() {
             next();
         });
 
+        // Validate every payload against its schema before it reaches a handler.
+        // Handlers receive the parsed payload (unknown keys stripped).
+        socket.use((packet, next) => {
+            const [event, payload] = packet;
+            // Own keys only: inherited names like "constructor" aren't schemas
+            if (
+                !Object.prototype.hasOwnProperty.call(ClientEventSchemas, event)
+            ) {
+                return next();
+            }
+
+            const schema: z.ZodType =
+                ClientEventSchemas[event as keyof typeof ClientEventSchemas];
+            const result = safeParseWithErrors(schema, payload);
+            if (!result.success) {
+                console.warn(
+                    `Invalid ${event} payload from socket ${socket.id}:`,
+                    result.errors
+                );
+                socket.emit("error", {
+                    error: `Invalid ${event} payload.`,
+                    code: "INVALID_PAYLOAD",
+                    errors: result.errors,
+                });
+                return; // Don't call next() - drop the event
+            }
+            packet[1] = result.data;
+            next();
+        });
+
         // Clean up rate limiter entry when socket disconnects
         socket.on("disconnect", () => {
             socketRateLimiter.remove(socket.id);
@@ -116,11 +206,12 @@ function startServer() {
             });
         });
 
-        socket.on("join_room", ({ roomId, userId }) => {
+        socket.on("join_room", ({ roomId }) => {
             try {
-                if (!roomId || !userId) {
+                const userId = getSocketUserId(socket);
+                if (!roomId) {
                     throw new Error(
-                        `join_room missing roomId or userId for socket ${socket.id}`
+                        `join_room missing roomId for socket ${socket.id}`
                     );
                 }
                 const result = registerSocketUser(socket.id, roomId, userId);
@@ -151,11 +242,12 @@ function startServer() {
             }
         });
 
-        socket.on("get_game_state", ({ roomId, userId }) => {
+        socket.on("get_game_state", ({ roomId }) => {
             try {
-                if (!roomId || !userId) {
+                getSocketUserId(socket);
+                if (!roomId) {
                     throw new Error(
-                        `get_game_state missing roomId or userId for socket ${socket.id}`
+                        `get_game_state missing roomId for socket ${socket.id}`
                     );
                 }
 
@@ -163,14 +255,15 @@ function startServer() {
                 if (!room) {
                     throw new Error("Room not found");
                 }
-                emitGameEvent(room, "sync");
+                emitFullGameState(socket, room);
             } catch (err) {
                 handleSocketError(socket, err);
             }
         });
 
-        socket.on("get_player_state", ({ roomId, userId }) => {
+        socket.on("get_player_state", ({ roomId }) => {
             try {
+                const userId = getSocketUserId(socket);
                 const room = getRoom(roomId);
                 if (!room) {
                     throw new Error("Room not found");
@@ -182,31 +275,35 @@ function startServer() {
             }
         });
 
-        socket.on("toggle_ready", ({ roomId, userId }) => {
+        socket.on("toggle_ready", ({ roomId }) => {
             try {
+                const userId = getSocketUserId(socket);
                 toggleReadyState(roomId, userId);
             } catch (err) {
                 handleSocketError(socket, err);
             }
         });
-        socket.on("promote_leader", ({ roomId, userId, newLeaderId }) => {
+        socket.on("promote_leader", ({ roomId, newLeaderId }) => {
             try {
+                const userId = getSocketUserId(socket);
                 promoteLeader(roomId, userId, newLeaderId);
             } catch (err) {
                 handleSocketError(socket, err);
             }
         });
 
-        socket.on("select_game", ({ roomId, userId, gameType }) => {
+        socket.on("select_game", ({ roomId, gameType }) => {
             try {
+                const userId = getSocketUserId(socket);
                 selectGame(roomId, userId, gameType);
             } catch (err) {
                 handleSocketError(socket, err);
             }
         });
 
-        socket.on("kick_user", ({ roomId, userId, targetUserId }) => {
+        socket.on("kick_user", ({ roomId, targetUserId }) => {
             try {
+                const userId = getSocketUserId(socket);
                 const { kickedSocketId } = kickUser(
                     roomId,
                     userId,
@@ -228,16 +325,18 @@ function startServer() {
             }
         });
 
-        socket.on("set_teams", ({ roomId, userId, teams }) => {
+        socket.on("set_teams", ({ roomId, teams }) => {
             try {
+                const userId = getSocketUserId(socket);
                 setTeams(roomId, userId, teams);
             } catch (err) {
                 handleSocketError(socket, err);
             }
         });
 
-        socket.on("randomize_teams", ({ roomId, userId }) => {
+        socket.on("randomize_teams", ({ roomId }) => {
             try {
+                const userId = getSocketUserId(socket);
                 const teams = randomizeTeams(roomId, userId);
                 setTeams(roomId, userId, teams);
             } catch (err) {
@@ -245,47 +344,68 @@ function startServer() {
             }
         });
 
-        socket.on("update_room_settings", ({ roomId, userId, settings }) => {
+        socket.on("add_bot", ({ roomId, difficulty }) => {
+            try {
+                const userId = getSocketUserId(socket);
+                addBot(roomId, userId, difficulty);
+            } catch (err) {
+                handleSocketError(socket, err);
+            }
+        });
+
+        socket.on("remove_bot", ({ roomId, botId }) => {
+            try {
+                const userId = getSocketUserId(socket);
+                removeBot(roomId, userId, botId);
+            } catch (err) {
+                handleSocketError(socket, err);
+            }
+        });
+
+        socket.on("update_room_settings", ({ roomId, settings }) => {
             try {
+                const userId = getSocketUserId(socket);
                 updateRoomSettings(roomId, userId, settings);
             } catch (err) {
                 handleSocketError(socket, err);
             }
         });
 
-        socket.on(
-            "update_game_settings",
-            ({ roomId, userId, gameSettings }) => {
-                try {
-                    updateGameSettings(roomId, userId, gameSettings);
-                } catch (err) {
-                    handleSocketError(socket, err);
-                }
+        socket.on("update_game_settings", ({ roomId, gameSettings }) => {
+            try {
+                const userId = getSocketUserId(socket);
+                updateGameSettings(roomId, userId, gameSettings);
+            } catch (err) {
+                handleSocketError(socket, err);
             }
-        );
+        });
 
-        socket.on(
-            "start_game",
-            ({ roomId, userId, gameType, gameSettings }) => {
-                try {
-                    startGame(roomId, userId, gameType, gameSettings);
+        socket.on("start_game", ({ roomId, gameType, gameSettings }) => {
+            try {
+                const userId = getSocketUserId(socket);
+                startGame(roomId, userId, gameType, gameSettings);
 
-                    // Initialize turn timer for the new game
-                    const room = getRoom(roomId);
-                    if (room?.gameId) {
-                        initializeGameTimer(room.gameId, room);
-                    }
-                } catch (err) {
-                    handleSocketError(socket, err);
+                // Initialize turn timer for the new game
+                const room = getRoom(roomId);
+                if (room?.gameId) {
+                    initializeGameTimer(room.gameId, room);
+                    scheduleBotTurn(room.gameId, room);
                 }
+            } catch (err) {
+                handleSocketError(socket, err);
             }
-        );
+        });
 
         socket.on(
             "game_action",
-            ({ roomId, action }: { roomId: string; action: GameAction }) => {
-                const actionId = (action as any).actionId;
+            ({ roomId, action: { actionId, expectedVersion, ...input } }) => {
+                let gameId: string | null = null;
                 try {
+                    // Always act as the socket's user
+                    const action: GameAction = {
+                        ...input,
+                        userId: getSocketUserId(socket),
+                    };
                     const room = getRoom(roomId);
                     if (!room) {
                         throw new Error("Room not found");
@@ -295,14 +415,61 @@ function startServer() {
                             "Game is paused. Waiting for players to rejoin."
                         );
                     }
-                    const gameId = room.gameId ?? null;
-                    const newState = gameManager.dispatch(gameId, action);
+                    gameId = room.gameId ?? null;
+                    const game = gameManager.getGame(gameId);
+                    if (!gameId || !game) {
+                        throw new Error("No game in progress");
+                    }
 
-                    // Handle turn timer after action
-                    if (gameId) {
-                        handleActionDispatched(gameId, room, newState, action);
+                    // A repeated actionId gets its original outcome instead of running twice
+                    const previous = actionId
+                        ? getActionOutcome(gameId, action.userId, actionId)
+                        : undefined;
+                    if (actionId && previous) {
+                        socket.emit("action_ack", {
+                            actionId,
+                            ...previous,
+                            reason: "duplicate",
+                        });
+                        return;
+                    }
+
+                    // Another player acted after this action was made
+                    if (
+                        gameManager.isStaleAction(
+                            gameId,
+                            action,
+                            expectedVersion
+                        )
+                    ) {
+                        console.warn(
+                            `Ignoring stale ${action.type} from ${action.userId} (v${expectedVersion}, actions at ${JSON.stringify(game.actionVersions)})`
+                        );
+                        if (actionId) {
+                            socket.emit("action_ack", {
+                                actionId,
+                                success: false,
+                                error: "The game changed before your action arrived.",
+                                reason: "stale",
+                            });
+                        }
+                        return;
                     }
 
+                    const newState = gameManager.dispatch(gameId, action);
+                    if (actionId) {
+                        rememberActionOutcome(gameId, action.userId, actionId, {
+                            success: true,
+                        });
+                    }
+
+                    // Handle turn timer after action, and let any bot take its turn
+                    handleActionDispatched(gameId, room, newState, action);
+                    scheduleBotTurn(gameId, room);
+
+                    // Snapshot so the game survives a server restart
+                    snapshotRoom(room);
+
                     emitGameEvent(room, "sync");
                     emitPlayerGameEvent(
                         socket,
@@ -321,13 +488,26 @@ function startServer() {
                 } catch (err) {
                     // Send error acknowledgement
                     if (actionId) {
-                        socket.emit("action_ack", {
-                            actionId,
+                        const outcome = {
                             success: false,
                             error:
                                 err instanceof Error
                                     ? err.message
                                     : "Action failed",
+                        };
+                        const userId = socket.data.userId;
+                        if (gameId && userId) {
+                            rememberActionOutcome(
+                                gameId,
+                                userId,
+                                actionId,
+                                outcome
+                            );
+                        }
+                        socket.emit("action_ack", {
+                            actionId,
+                            ...outcome,
+                            reason: "rejected",
                         });
                     }
                     handleSocketError(socket, err);
@@ -335,12 +515,14 @@ function startServer() {
             }
         );
 
-        socket.on("close_room", ({ roomId, userId }) => {
+        socket.on("close_room", ({ roomId }) => {
             try {
+                const userId = getSocketUserId(socket);
                 // Clean up timer before closing
                 const room = getRoom(roomId);
                 if (room?.gameId) {
                     cleanupGameTimers(room.gameId);
+                    cancelBotTurn(room.gameId);
                 }
                 closeRoom(roomId, userId);
             } catch (err) {
@@ -348,20 +530,23 @@ function startServer() {
             }
         });
 
-        socket.on("leave_game", ({ roomId, userId }) => {
+        socket.on("leave_game", ({ roomId }) => {
             try {
+                const userId = getSocketUserId(socket);
                 leaveGame(roomId, userId);
             } catch (err) {
                 handleSocketError(socket, err);
             }
         });
 
-        socket.on("abort_game", ({ roomId, userId }) => {
+        socket.on("abort_game", ({ roomId }) => {
             try {
+                const userId = getSocketUserId(socket);
                 // Clean up timer before aborting
                 const room = getRoom(roomId);
                 if (room?.gameId) {
                     cleanupGameTimers(room.gameId);
+                    cancelBotTurn(room.gameId);
                 }
                 abortGame(roomId, userId);
             } catch (err) {
@@ -374,14 +559,13 @@ function startServer() {
             "spectate_game",
             ({
                 roomCode,
-                userId,
                 userName,
             }: {
                 roomCode: string;
-                userId: string;
                 userName: string;
             }) => {
                 try {
+                    const userId = getSocketUserId(socket);
                     const result = addSpectator(roomCode, userName, userId);
                     const { room, user } = result;
 
@@ -398,12 +582,7 @@ function startServer() {
 
                     // Send initial game state (neutral view for spectators)
                     if (room.gameId) {
-                        const gameState = gameManager.getGameState(room.gameId);
-                        socket.emit("spectator_state", {
-                            gameState,
-                            room,
-                            isSpectator: true,
-                        });
+                        emitSpectatorState(socket, room);
                     }
                 } catch (err) {
                     handleSocketError(socket, err);
@@ -411,36 +590,35 @@ function startServer() {
             }
         );
 
-        socket.on(
-            "return_to_lobby",
-            ({ roomId, userId }: { roomId: string; userId: string }) => {
-                try {
-                    moveToSpectators(roomId, userId);
-                } catch (err) {
-                    handleSocketError(socket, err);
-                }
+        socket.on("return_to_lobby", ({ roomId }: { roomId: string }) => {
+            try {
+                const userId = getSocketUserId(socket);
+                moveToSpectators(roomId, userId);
+            } catch (err) {
+                handleSocketError(socket, err);
             }
-        );
+        });
 
         socket.on(
             "claim_player_slot",
             ({
                 roomId,
-                userId,
                 targetSlotUserId,
             }: {
                 roomId: string;
-                userId: string;
                 targetSlotUserId: string;
             }) => {
                 try {
+                    const userId = getSocketUserId(socket);
                     const result = claimPlayerSlot(
                         roomId,
                         userId,
                         targetSlotUserId
                     );
                     if (!result.success) {
-                        socket.emit("error", { error: result.error });
+                        socket.emit("error", {
+                            error: result.error ?? "Could not claim slot",
+                        });
                     }
                 } catch (err) {
                     handleSocketError(socket, err);
@@ -462,14 +640,13 @@ function startServer() {
             "request_join",
             ({
                 roomCode,
-                requesterId,
                 requesterName,
             }: {
                 roomCode: string;
-                requesterId: string;
                 requesterName: string;
             }) => {
                 try {
+                    const requesterId = getSocketUserId(socket);
                     const { roomId } = requestToJoinRoom(
                         roomCode,
                         requesterId,
@@ -506,18 +683,17 @@ function startServer() {
             "respond_join_request",
             ({
                 roomId,
-                leaderId,
                 requesterId,
                 requesterName,
                 accepted,
             }: {
                 roomId: string;
-                leaderId: string;
                 requesterId: string;
                 requesterName: string;
                 accepted: boolean;
             }) => {
                 try {
+                    const leaderId = getSocketUserId(socket);
                     if (accepted) {
                         // Accept the request and join the user
                         const { room } = acceptJoinRequest(
@@ -569,4 +745,22 @@ function startServer() {
     });
 }
 
-startServer();
+/**
+ * Restore persisted rooms and games, then start accepting connections.
+ */
+async function bootstrap() {
+    const snapshot = await initPersistence();
+    restoreRooms(snapshot.rooms, snapshot.games);
+    startPersistence(getAllRooms);
+
+    // Flush pending snapshots before shutting down (e.g. on redeploy)
+    for (const signal of ["SIGTERM", "SIGINT"] as const) {
+        process.once(signal, () => {
+            flushPersistence().finally(() => process.exit(0));
+        });
+    }
+
+    startServer();
+}
+
+bootstrap();
@@ -2,6 +2,11 @@
 import express from "express";
 import { gameManager } from "../services/GameManager";
 import { configService } from "../services/ConfigService";
+import {
+    getReplay,
+    hasRecording,
+    isRecordingComplete,
+} from "../services/ReplayService";
 
 const router = express.Router();
 
@@ -49,4 +54,34 @@ router.get("/games/:type/settings", (req, res) => {
     res.json(settingsData);
 });
 
+/**
+ * GET /games/:gameId/replay
+ * Returns the recorded action log of a game, with the public state and every
+ * player's hand at each step. Only available once the game is over.
+ */
+router.get("/games/:gameId/replay", (req, res) => {
+    const { gameId } = req.params;
+
+    if (!hasRecording(gameId)) {
+        return res.status(404).json({
+            error: `Replay for game '${gameId}' not found`,
+        });
+    }
+
+    if (!isRecordingComplete(gameId)) {
+        return res.status(409).json({
+            error: "Replay is available once the game is over",
+        });
+    }
+
+    const replay = getReplay(gameId, (type) => gameManager.getGameModule(type));
+    if (!replay) {
+        return res.status(404).json({
+            error: `Replay for game '${gameId}' not found`,
+        });
+    }
+
+    res.json(replay);
+});
+
 export default router;
@@ -0,0 +1,69 @@
+// src/services/ActionDedupeService.ts
+
+/**
+ * Action Deduplication
+ *
+ * Makes game actions idempotent per actionId. It handles:
+ * - Remembering the outcome of each player's recent actions
+ * - Answering a repeated actionId (e.g. an emit the client re-sent after
+ *   reconnecting) with the original outcome instead of applying it again
+ * - Forgetting a game's actions when the game is removed
+ */
+
+import { ActionAckPayload } from "@family-games/shared";
+
+export type ActionOutcome = Pick<ActionAckPayload, "success" | "error">;
+
+// How many actionIds are remembered per player
+const MAX_ACTIONS_PER_PLAYER = 50;
+
+// gameId -> userId -> actionId -> outcome (Maps keep insertion order)
+const outcomes: Map<
+    string,
+    Map<string, Map<string, ActionOutcome>>
+> = new Map();
+
+/**
+ * Get the outcome of an action the player already sent, if it's recent.
+ */
+export function getActionOutcome(
+    gameId: string,
+    userId: string,
+    actionId: string
+): ActionOutcome | undefined {
+    return outcomes.get(gameId)?.get(userId)?.get(actionId);
+}
+
+/**
+ * Remember an action's outcome, evicting the player's oldest if needed.
+ */
+export function rememberActionOutcome(
+    gameId: string,
+    userId: string,
+    actionId: string,
+    outcome: ActionOutcome
+): void {
+    let players = outcomes.get(gameId);
+    if (!players) {
+        players = new Map();
+        outcomes.set(gameId, players);
+    }
+    let actions = players.get(userId);
+    if (!actions) {
+        actions = new Map();
+        players.set(userId, actions);
+    }
+
+    actions.set(actionId, outcome);
+    if (actions.size > MAX_ACTIONS_PER_PLAYER) {
+        const oldest = actions.keys().next().value;
+        if (oldest !== undefined) actions.delete(oldest);
+    }
+}
+
+/**
+ * Forget every action of a game (called when the game is removed).
+ */
+export function forgetGameActions(gameId: string): void {
+    outcomes.delete(gameId);
+}
@@ -0,0 +1,152 @@
+// src/services/BotService.ts
+
+/**
+ * Bot Players
+ *
+ * Drives computer-controlled players (users with `isBot` set).
+ * It handles:
+ * - Creating bot users to fill empty seats from the lobby
+ * - Scheduling a bot's move whenever it holds the turn
+ * - Dispatching the move through the GameManager like any player action
+ *
+ * Bots act on the same turns the turn timer tracks (GameModule.getTimedPlayer),
+ * and ask the game module what to play via GameModule.getBotAction.
+ */
+
+import { Room, User, BotDifficulty } from "@family-games/shared";
+import { v4 as uuidv4 } from "uuid";
+import { gameManager, GameAction, GameModule, GameState } from "./GameManager";
+import { handleActionDispatched } from "./GameTurnTimer";
+import { snapshotRoom } from "./PersistenceService";
+import { emitGameEvent } from "../webhooks/gameWebhooks";
+
+const BOT_NAMES = [
+    "Ada",
+    "Byte",
+    "Chip",
+    "Dot",
+    "Echo",
+    "Gizmo",
+    "Pixel",
+    "Sprocket",
+];
+
+/** Bots wait a moment before moving so players can follow along */
+const BOT_MIN_THINK_MS = 800;
+const BOT_MAX_THINK_MS = 1600;
+
+// Pending bot move per game
+const botTimers: Map<string, NodeJS.Timeout> = new Map();
+
+/**
+ * Create a bot user with a name that isn't already taken in the room.
+ */
+export function createBotUser(room: Room, difficulty: BotDifficulty): User {
+    const takenNames = new Set(room.users.map((u) => u.name));
+    const name =
+        BOT_NAMES.find((n) => !takenNames.has(n)) ??
+        `Bot ${room.users.filter((u) => u.isBot).length + 1}`;
+
+    return {
+        id: `bot-${uuidv4()}`,
+        name,
+        isConnected: true,
+        isBot: true,
+        botDifficulty: difficulty,
+    };
+}
+
+/**
+ * Get the action a bot takes, falling back to the timeout auto-action
+ * so a bot can never stall the game.
+ */
+function getBotAction(
+    module: GameModule,
+    state: GameState,
+    bot: User
+): GameAction | null {
+    try {
+        const action = module.getBotAction?.(
+            state,
+            bot.id,
+            bot.botDifficulty ?? "easy"
+        );
+        if (action) return action;
+    } catch (err) {
+        console.error(`Error choosing bot action for ${bot.name}:`, err);
+    }
+    return module.getAutoAction?.(state, bot.id) ?? null;
+}
+
+/**
+ * Play a bot's turn if it still holds the turn.
+ */
+function playBotTurn(gameId: string, room: Room, bot: User): void {
+    if (room.isPaused || room.gameId !== gameId) return;
+
+    const state = gameManager.getGame(gameId);
+    const module = state ? gameManager.getGameModule(state.type) : undefined;
+    if (!state || !module?.getTimedPlayer) return;
+    if (module.getTimedPlayer(state) !== bot.id) return;
+
+    const action = getBotAction(module, state, bot);
+    if (!action) return;
+
+    let newState: GameState;
+    try {
+        console.log(`🤖 Bot ${bot.name} dispatching ${action.type}`);
+        newState = gameManager.dispatch(gameId, action);
+    } catch (err) {
+        console.error(`Error dispatching bot action for ${bot.name}:`, err);
+        return;
+    }
+
+    handleActionDispatched(gameId, room, newState, action);
+
+    // Snapshot so the game survives a server restart
+    snapshotRoom(room);
+
+    emitGameEvent(room, "sync");
+
+    // Bots can take consecutive turns (e.g. drawing, or the next seat is a bot)
+    scheduleBotTurn(gameId, room);
+}
+
+/**
+ * Schedule a move if a bot holds the turn.
+ * Safe to call after any state change - replaces any pending move.
+ */
+export function scheduleBotTurn(gameId: string, room: Room): void {
+    cancelBotTurn(gameId);
+    if (room.isPaused) return;
+
+    const state = gameManager.getGame(gameId);
+    const module = state ? gameManager.getGameModule(state.type) : undefined;
+    if (!state || !module?.getTimedPlayer) return;
+    // Wait for an open undo vote - answering it reschedules the bot
+    if (state.undoRequest) return;
+
+    const playerId = module.getTimedPlayer(state);
+    const bot = room.users.find((u) => u.id === playerId && u.isBot);
+    if (!bot) return;
+
+    const delay =
+        BOT_MIN_THINK_MS +
+        Math.random() * (BOT_MAX_THINK_MS - BOT_MIN_THINK_MS);
+    const timer = setTimeout(() => {
+        botTimers.delete(gameId);
+        playBotTurn(gameId, room, bot);
+    }, delay);
+    botTimers.set(gameId, timer);
+}
+
+/**
+ * Cancel a pending bot move (e.g. when a game is aborted or closed).
+ */
+export function cancelBotTurn(gameId: string): void {
+    const timer = botTimers.get(gameId);
+    if (timer) {
+        clearTimeout(timer);
+        botTimers.delete(gameId);
+    }
+}
@@ -0,0 +1,88 @@
+// apps/api/src/services/FilePersistenceStore.ts
+// File-based persistence store for local development
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Room } from "@family-games/shared";
+import type {
+    PersistedGame,
+    PersistenceSnapshot,
+    PersistenceStore,
+} from "./PersistenceService";
+
+// Directory for snapshots (default: .data in the API's working directory)
+const PERSISTENCE_DIR = path.resolve(process.env.PERSISTENCE_DIR ?? ".data");
+
+/**
+ * Read every JSON file in a directory. Unreadable files are skipped.
+ */
+async function readAll<T>(dir: string): Promise<T[]> {
+    let files: string[];
+    try {
+        files = await fs.readdir(dir);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+    }
+
+    const records: T[] = [];
+    for (const file of files.filter((f) => f.endsWith(".json"))) {
+        try {
+            const raw = await fs.readFile(path.join(dir, file), "utf8");
+            records.push(JSON.parse(raw) as T);
+        } catch (error) {
+            console.warn(
+                `[FilePersistenceStore] Skipping unreadable snapshot ${file}:`,
+                error
+            );
+        }
+    }
+    return records;
+}
+
+/**
+ * Write a record atomically (temp file + rename) so a crash mid-write
+ * never leaves a truncated snapshot behind.
+ */
+async function writeRecord(
+    dir: string,
+    id: string,
+    data: unknown
+): Promise<void> {
+    await fs.mkdir(dir, { recursive: true });
+    const target = path.join(dir, `${id}.json`);
+    const temp = `${target}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(data), "utf8");
+    await fs.rename(temp, target);
+}
+
+async function removeRecord(dir: string, id: string): Promise<void> {
+    await fs.rm(path.join(dir, `${id}.json`), { force: true });
+}
+
+/**
+ * Create a store that keeps one JSON file per room and per game.
+ * Layout: <PERSISTENCE_DIR>/rooms/<roomId>.json, <PERSISTENCE_DIR>/games/<gameId>.json
+ */
+export function createFilePersistenceStore(
+    baseDir: string = PERSISTENCE_DIR
+): PersistenceStore {
+    const roomsDir = path.join(baseDir, "rooms");
+    const gamesDir = path.join(baseDir, "games");
+
+    return {
+        name: `files (${baseDir})`,
+
+        async load(): Promise<PersistenceSnapshot> {
+            return {
+                rooms: await readAll<Room>(roomsDir),
+                games: await readAll<PersistedGame>(gamesDir),
+            };
+        },
+
+        saveRoom: (room) => writeRecord(roomsDir, room.id, room),
+        deleteRoom: (roomId) => removeRecord(roomsDir, roomId),
+        saveGame: (game) => writeRecord(gamesDir, game.id, game),
+        deleteGame: (gameId) => removeRecord(gamesDir, gameId),
+    };
+}
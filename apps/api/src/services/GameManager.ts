@@ -5,7 +5,20 @@ import {
     SettingDefinition,
     BaseGameSettings,
     PartialGameSettings,
+    BotDifficulty,
+    ContinueGate,
+    UndoRequest,
 } from "@family-games/shared";
+import {
+    recordAction,
+    recordPlayerEvent,
+    restoreReplayLog,
+    startRecording,
+    stopRecording,
+} from "./ReplayService";
+import type { PersistedGame } from "./PersistenceService";
+import { forgetGameActions } from "./ActionDedupeService";
+import { recordSeeds, removePlayer, transferPlayer } from "../games/shared";
 
 export interface GameModule {
     init(room: Room, customSettings?: PartialGameSettings): GameState;
@@ -15,6 +28,14 @@ export interface GameModule {
     checkMinimumPlayers?(state: GameState): boolean; // Optional: Check if enough players are connected
     handlePlayerReconnect?(state: GameState, userId: string): GameState; // Optional: Handle player reconnection
     handlePlayerDisconnect?(state: GameState, userId: string): GameState; // Optional: Handle player disconnection
+    getTimedPlayer?(state: GameState): string | null; // Optional: Player whose turn is timed (null = no timer)
+    getAutoAction?(state: GameState, playerId: string): GameAction | null; // Optional: Action to dispatch on timeout
+    getBotAction?(
+        state: GameState,
+        playerId: string,
+        difficulty: BotDifficulty
+    ): GameAction | null; // Optional: Action a bot takes on its turn
+    isSimultaneousAction?(state: GameState, action: GameAction): boolean; // Optional: Action players take at the same time, so others' actions don't make it stale
     metadata: {
         type: string;
         displayName: string;
@@ -39,9 +60,19 @@ export interface GameState {
     players: GamePlayers;
     history?: string[]; // Optional history for game actions
     leaderId: string;
+    version: number; // Bumped on every change (see bumpVersion)
+    actionVersions?: Record<string, number>; // Version of each player's last dispatched action (presence changes don't move them)
+    continueGate?: ContinueGate | null; // Open while waiting for players to continue
+    undoSnapshot?: UndoSnapshot | null; // Server-only: state before the last undoable play
+    undoRequest?: UndoRequest | null; // Open while opponents vote on an undo
     // ...other game-specific state
 }
 
+export interface UndoSnapshot {
+    playerId: string; // Player who made the play
+    state: GameState; // State just before it
+}
+
 // Re-export for backwards compatibility
 export type GameSettings = PartialGameSettings;
 
@@ -51,10 +82,28 @@ export interface GameAction {
     userId: string;
 }
 
+// Actions that only answer a prompt; they never depend on what changed
+const ACKNOWLEDGEMENT_ACTIONS = [
+    "CONTINUE_AFTER_TRICK_RESULT",
+    "CONTINUE_AFTER_ROUND_SUMMARY",
+    "FORCE_CONTINUE",
+    "RESPOND_UNDO",
+];
+
 class GameManager {
     private games: Map<string, GameState> = new Map();
     private modules: Map<string, GameModule> = new Map();
 
+    /**
+     * Store a changed state under the next version.
+     * Clients use the version to apply incremental syncs in order.
+     */
+    private bumpVersion(gameId: string, state: GameState): void {
+        const previous = this.games.get(gameId)?.version ?? 0;
+        state.version = Math.max(previous, state.version) + 1;
+        this.games.set(gameId, state);
+    }
+
     public getAllModules(): Map<string, GameModule> {
         return this.modules;
     }
@@ -100,6 +149,7 @@ class GameManager {
 
         const gameState = module.init(room, customSettings);
         this.games.set(gameState.id, gameState);
+        startRecording(gameState);
         return gameState.id;
     }
 
@@ -142,13 +192,85 @@ class GameManager {
             throw new Error(
                 `Game module for type '${gameState.type}' not found`
             );
-        const newState = module.reducer(gameState, action);
-        this.games.set(gameId, newState);
+        // Seeds drawn by the reducer are logged so the replay deals the same
+        const { result: newState, seeds } = recordSeeds(() =>
+            module.reducer(gameState, action)
+        );
+        this.bumpVersion(gameId, newState);
+        newState.actionVersions = {
+            ...gameState.actionVersions,
+            [action.userId]: newState.version,
+        };
+        recordAction(gameId, action, seeds, newState);
         return newState;
     }
 
+    /**
+     * Whether an action made against `expectedVersion` conflicts with what
+     * happened since. Only other players' dispatched actions count (not the
+     * sender's own queued actions, or players connecting or disconnecting),
+     * and acknowledgements or simultaneous actions
+     * (see GameModule.isSimultaneousAction) never conflict.
+     */
+    isStaleAction(
+        gameId: string,
+        action: GameAction,
+        expectedVersion: number
+    ): boolean {
+        const gameState = this.games.get(gameId);
+        if (!gameState) return false;
+        const othersActedSince = Object.entries(
+            gameState.actionVersions ?? {}
+        ).some(
+            ([userId, version]) =>
+                userId !== action.userId && version > expectedVersion
+        );
+        if (!othersActedSince) return false;
+        if (ACKNOWLEDGEMENT_ACTIONS.includes(action.type)) return false;
+
+        const module = this.modules.get(gameState.type);
+        return !module?.isSimultaneousAction?.(gameState, action);
+    }
+
     removeGame(gameId: string): void {
         this.games.delete(gameId);
+        stopRecording(gameId);
+        forgetGameActions(gameId);
+    }
+
+    /**
+     * Get every game currently held in memory (used for persistence snapshots).
+     */
+    getAllGames(): GameState[] {
+        return Array.from(this.games.values());
+    }
+
+    /**
+     * Put a previously persisted game (and its replay log) back into memory.
+     * Returns false if the game's module is not registered.
+     */
+    restoreGame(gameState: PersistedGame): boolean {
+        if (!this.modules.has(gameState.type)) return false;
+        // Snapshots taken before versioning existed
+        gameState.version ??= 0;
+        // The log is held by the replay service, not sent with the state
+        const { replayLog } = gameState;
+        delete gameState.replayLog;
+        this.games.set(gameState.id, gameState);
+
+        if (replayLog) {
+            restoreReplayLog(replayLog);
+            // No sockets survive a restart, so every human starts disconnected
+            for (const player of Object.values(gameState.players)) {
+                if (!player.isBot) {
+                    recordPlayerEvent(gameState.id, {
+                        type: "disconnect",
+                        userId: player.id,
+                    });
+                }
+            }
+        }
+        return true;
     }
 
     handlePlayerDisconnect(gameId: string | null, userId: string): void {
@@ -164,10 +286,11 @@ class GameManager {
         }
 
         // Call module-specific disconnect handler if available
-        if (module.handlePlayerDisconnect) {
-            const newState = module.handlePlayerDisconnect(gameState, userId);
-            this.games.set(gameId, newState);
-        }
+        const newState = module.handlePlayerDisconnect
+            ? module.handlePlayerDisconnect(gameState, userId)
+            : gameState;
+        this.bumpVersion(gameId, newState);
+        recordPlayerEvent(gameId, { type: "disconnect", userId });
     }
 
     handlePlayerReconnect(gameId: string | null, userId: string): void {
@@ -183,10 +306,11 @@ class GameManager {
         }
 
         // Call module-specific reconnect handler if available
-        if (module.handlePlayerReconnect) {
-            const newState = module.handlePlayerReconnect(gameState, userId);
-            this.games.set(gameId, newState);
-        }
+        const newState = module.handlePlayerReconnect
+            ? module.handlePlayerReconnect(gameState, userId)
+            : gameState;
+        this.bumpVersion(gameId, newState);
+        recordPlayerEvent(gameId, { type: "reconnect", userId });
     }
 
     /**
@@ -200,7 +324,8 @@ class GameManager {
 
         // Remove the player from the game state
         if (gameState.players[userId]) {
-            delete gameState.players[userId];
+            this.bumpVersion(gameId, removePlayer(gameState, userId));
+            recordPlayerEvent(gameId, { type: "remove", userId });
             console.log(`🗑️ Removed player ${userId} from game ${gameId}`);
         }
     }
@@ -259,19 +384,17 @@ class GameManager {
         if (!oldPlayer) return false;
         if (oldPlayer.isConnected !== false) return false;
 
-        // Create new player entry with old player's data but new identity
-        const newPlayer: User = {
-            id: newUserId,
-            name: newUserName,
-            isConnected: true,
-        };
-
-        // Remove old player and add new one
-        delete gameState.players[oldUserId];
-        gameState.players[newUserId] = newPlayer;
-
-        // Update the game in storage
-        this.games.set(gameId, gameState);
+        // Swap in the new player and update the game in storage
+        this.bumpVersion(
+            gameId,
+            transferPlayer(gameState, oldUserId, newUserId, newUserName)
+        );
+        recordPlayerEvent(gameId, {
+            type: "transfer",
+            userId: oldUserId,
+            newUserId,
+            newUserName,
+        });
         return true;
     }
 }
@@ -9,171 +9,203 @@
  * - Cancelling timers when actions are received
  * - Dispatching auto-actions when timeouts occur
  * - Emitting turn_timeout events to clients
+ * - Continuing past "ready to continue" gates when their time runs out
  */
 
-import { Server as SocketIOServer } from "socket.io";
-import { Room } from "@family-games/shared";
-import { gameManager, GameAction, GameState } from "./GameManager";
+import { Room, TurnTimeoutPayload } from "@family-games/shared";
+import { gameManager, GameAction, GameModule, GameState } from "./GameManager";
 import { turnTimerService } from "./TurnTimerService";
+import { snapshotRoom } from "./PersistenceService";
+import { scheduleBotTurn } from "./BotService";
+import { emitGameEvent } from "../webhooks/gameWebhooks";
+import { TypedServer } from "../utils/socketIO";
 
-// Type imports for game-specific logic
-import {
-    getAutoBid,
-    getAutoPlayCard,
-    shouldTimerBeActive,
-} from "../games/spades";
-import { SpadesState } from "../games/spades";
+let io: TypedServer | null = null;
 
-let io: SocketIOServer | null = null;
+// Pending auto-continue per game (see GameState.continueGate)
+const continueTimers: Map<string, NodeJS.Timeout> = new Map();
 
 /**
  * Set the Socket.IO server instance for emitting events.
  */
-export function setTurnTimerSocketServer(server: SocketIOServer): void {
+export function setTurnTimerSocketServer(server: TypedServer): void {
     io = server;
 }
 
-/**
- * Interface for timeout event payload sent to clients.
- */
-interface TurnTimeoutPayload {
-    playerId: string;
-    playerName: string;
-    action: "auto-bid" | "auto-play";
-    gameId: string;
-}
-
 /**
  * Emit a turn timeout event to all clients in a room.
  */
 function emitTurnTimeout(
-    roomId: string,
-    payload: TurnTimeoutPayload,
-    gameState: GameState
+    room: Room,
+    payload: Omit<TurnTimeoutPayload, "timestamp">
 ): void {
     if (!io) {
         console.warn("Socket.IO not initialized for turn timer events");
         return;
     }
 
-    io.to(roomId).emit("turn_timeout", {
+    io.to(room.id).emit("turn_timeout", {
         ...payload,
         timestamp: new Date().toISOString(),
     });
 
     // Also emit a game sync event with updated state
-    io.to(roomId).emit("game_event", {
-        event: "sync",
-        gameState: gameManager.getGameState(gameState.id),
-        timestamp: new Date().toISOString(),
-    });
+    emitGameEvent(room, "sync");
 }
 
+/** Safety cap on repeated auto-actions within a single timed-out turn */
+const MAX_AUTO_ACTIONS_PER_TURN = 50;
+
 /**
- * Handle a timeout for a Spades game.
- * Dispatches the appropriate auto-action based on game phase.
+ * Handle a turn timeout for any module that implements the timer hooks.
+ * Auto-actions repeat while the same player still holds the turn
+ * (e.g. drawing from the boneyard until a tile can be played).
  */
-function handleSpadesTimeout(
+function handleTimeout(
     gameId: string,
     room: Room,
-    state: SpadesState
+    state: GameState,
+    module: GameModule
 ): void {
-    const currentPlayerId = state.playOrder[state.currentTurnIndex];
-    const player = state.players[currentPlayerId];
-    const playerName = player?.name || "Unknown";
-
-    console.log(
-        `⏰ Handling Spades timeout for ${playerName} in ${state.phase} phase`
-    );
-
-    let action: GameAction | null = null;
-    let actionType: "auto-bid" | "auto-play" = "auto-bid";
-
-    if (state.phase === "bidding") {
-        const autoBid = getAutoBid(state, currentPlayerId);
-        action = {
-            type: "PLACE_BID",
-            userId: currentPlayerId,
-            payload: { bid: autoBid },
-        };
-        actionType = "auto-bid";
-        console.log(`🤖 Auto-bidding ${autoBid.amount} for ${playerName}`);
-    } else if (state.phase === "playing") {
-        const autoCard = getAutoPlayCard(state, currentPlayerId);
-        if (autoCard) {
-            action = {
-                type: "PLAY_CARD",
-                userId: currentPlayerId,
-                payload: { card: autoCard },
-            };
-            actionType = "auto-play";
-            console.log(
-                `🤖 Auto-playing ${autoCard.rank} of ${autoCard.suit} for ${playerName}`
-            );
+    const playerId = module.getTimedPlayer?.(state);
+    if (!playerId || !module.getAutoAction) return;
+
+    const playerName = state.players[playerId]?.name || "Unknown";
+    console.log(`⏰ Handling ${state.type} timeout for ${playerName}`);
+
+    let newState = state;
+    let lastAction: GameAction | null = null;
+
+    try {
+        for (let i = 0; i < MAX_AUTO_ACTIONS_PER_TURN; i++) {
+            const action = module.getAutoAction(newState, playerId);
+            if (!action) break;
+
+            console.log(`🤖 Auto-dispatching ${action.type} for ${playerName}`);
+            newState = gameManager.dispatch(gameId, action);
+            lastAction = action;
+
+            if (module.getTimedPlayer?.(newState) !== playerId) break;
         }
+    } catch (err) {
+        console.error("Error dispatching auto-action:", err);
     }
 
-    if (action) {
-        try {
-            // Dispatch the auto-action
-            const newState = gameManager.dispatch(gameId, action);
-
-            // Emit timeout event to clients
-            emitTurnTimeout(
-                room.id,
-                {
-                    playerId: currentPlayerId,
-                    playerName,
-                    action: actionType,
-                    gameId,
-                },
-                newState
-            );
-
-            // Check if we need to start a new timer for the next player
-            maybeStartTimer(gameId, room, newState as SpadesState);
-        } catch (err) {
-            console.error("Error dispatching auto-action:", err);
-        }
+    if (!lastAction) return;
+
+    // Snapshot so the game survives a server restart
+    snapshotRoom(room);
+
+    // Emit timeout event to clients
+    emitTurnTimeout(room, {
+        playerId,
+        playerName,
+        actionType: lastAction.type,
+        gameId,
+    });
+
+    // Check if we need to start a new timer for the next player
+    maybeStartTimer(gameId, room, newState);
+
+    // The next player may be a bot
+    scheduleBotTurn(gameId, room);
+}
+
+/**
+ * Continue past an open gate for everyone, as the leader would.
+ */
+function autoContinue(gameId: string, room: Room): void {
+    if (room.isPaused || room.gameId !== gameId) return;
+    const state = gameManager.getGame(gameId);
+    if (!state?.continueGate) return;
+    // Wait for an open undo vote - answering it reschedules this
+    if (state.undoRequest) return;
+
+    let newState: GameState;
+    try {
+        newState = gameManager.dispatch(gameId, {
+            type: "FORCE_CONTINUE",
+            userId: state.leaderId,
+        });
+    } catch (err) {
+        console.error("Error auto-continuing:", err);
+        return;
+    }
+
+    // Snapshot so the game survives a server restart
+    snapshotRoom(room);
+    emitGameEvent(room, "sync");
+
+    maybeStartTimer(gameId, room, newState);
+    scheduleBotTurn(gameId, room);
+}
+
+/**
+ * Schedule the auto-continue for an open gate (none if the gate is closed).
+ * Waiting always has a time limit, even without a turn time limit.
+ */
+function scheduleAutoContinue(
+    gameId: string,
+    room: Room,
+    state: GameState
+): void {
+    cancelAutoContinue(gameId);
+    if (!state.continueGate) return;
+
+    const delay = Math.max(0, state.continueGate.autoContinueAt - Date.now());
+    const timer = setTimeout(() => {
+        continueTimers.delete(gameId);
+        autoContinue(gameId, room);
+    }, delay);
+    continueTimers.set(gameId, timer);
+}
+
+function cancelAutoContinue(gameId: string): void {
+    const timer = continueTimers.get(gameId);
+    if (timer) {
+        clearTimeout(timer);
+        continueTimers.delete(gameId);
     }
 }
 
 /**
  * Maybe start a timer based on the current game state.
- * Only starts if the phase requires a timer (bidding or playing).
+ * Only starts if the module reports a timed player (e.g. bidding or playing),
+ * or an auto-continue if the game is waiting for players to continue.
  */
 export function maybeStartTimer(
     gameId: string,
     room: Room,
     state: GameState
 ): void {
-    // Currently only Spades is supported
-    if (state.type !== "spades") {
+    scheduleAutoContinue(gameId, room, state);
+
+    // Only modules that implement the timer hooks are supported
+    const module = gameManager.getGameModule(state.type);
+    if (!module?.getTimedPlayer || !module.getAutoAction) {
         return;
     }
 
-    const spadesState = state as SpadesState;
-    const turnTimeLimit = spadesState.settings?.turnTimeLimit;
+    const turnTimeLimit = state.settings?.turnTimeLimit;
 
     // Check if timer should be active
     if (!turnTimeLimit || turnTimeLimit <= 0) {
         return; // No time limit configured
     }
 
-    if (!shouldTimerBeActive(spadesState)) {
+    const timedPlayerId = module.getTimedPlayer(state);
+    if (!timedPlayerId) {
         // Phase doesn't require timer (trick-result, round-summary, finished)
         turnTimerService.cancelTurn(gameId);
         return;
     }
 
-    const currentPlayerId = spadesState.playOrder[spadesState.currentTurnIndex];
-
     // Start the timer
-    turnTimerService.startTurn(gameId, currentPlayerId, turnTimeLimit, () => {
+    turnTimerService.startTurn(gameId, timedPlayerId, turnTimeLimit, () => {
         // Timeout callback - get fresh state and handle timeout
         const freshState = gameManager.getGame(gameId);
-        if (freshState && freshState.type === "spades") {
-            handleSpadesTimeout(gameId, room, freshState as SpadesState);
+        if (freshState) {
+            handleTimeout(gameId, room, freshState, module);
         }
     });
 }
@@ -192,6 +224,8 @@ export function cancelTimer(gameId: string): void {
  */
 export function pauseTimer(gameId: string): void {
     turnTimerService.pauseTurn(gameId);
+    // Rescheduled from the gate's deadline on resume
+    cancelAutoContinue(gameId);
 }
 
 /**
@@ -205,6 +239,7 @@ export function resumeTimer(gameId: string, room: Room): void {
     // If timer was paused, resume it
     if (turnTimerService.isTimerPaused(gameId)) {
         turnTimerService.resumeTurn(gameId);
+        scheduleAutoContinue(gameId, room, state);
     } else {
         // Otherwise, maybe start a fresh timer
         maybeStartTimer(gameId, room, state);
@@ -216,6 +251,7 @@ export function resumeTimer(gameId: string, room: Room): void {
  */
 export function cleanupGameTimers(gameId: string): void {
     turnTimerService.cleanupGame(gameId);
+    cancelAutoContinue(gameId);
 }
 
 /**
@@ -0,0 +1,239 @@
+// apps/api/src/services/PersistenceService.ts
+// Snapshots rooms and in-progress games so they survive a server restart
+
+import { Room } from "@family-games/shared";
+import { gameManager, GameState } from "./GameManager";
+import { getReplayLog, ReplayLog } from "./ReplayService";
+import { createFilePersistenceStore } from "./FilePersistenceStore";
+import { createSupabasePersistenceStore } from "./SupabasePersistenceStore";
+import { isSupabaseConfigured } from "../config/supabase";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A game as stored: its state plus the action log its replay is rebuilt from.
+ */
+export interface PersistedGame extends GameState {
+    replayLog?: ReplayLog;
+}
+
+/**
+ * Everything needed to rebuild the server's in-memory state on boot.
+ */
+export interface PersistenceSnapshot {
+    rooms: Room[];
+    games: PersistedGame[];
+}
+
+/**
+ * A storage backend for room and game snapshots.
+ * Implementations only need to store JSON-serializable records by ID.
+ */
+export interface PersistenceStore {
+    name: string;
+    load(): Promise<PersistenceSnapshot>;
+    saveRoom(room: Room): Promise<void>;
+    deleteRoom(roomId: string): Promise<void>;
+    saveGame(game: PersistedGame): Promise<void>;
+    deleteGame(gameId: string): Promise<void>;
+}
+
+type PersistenceDriver = "none" | "file" | "supabase";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Which store to use: "file", "supabase" or "none" (default: in-memory only)
+const PERSISTENCE_DRIVER = (process.env.PERSISTENCE_DRIVER ??
+    "none") as PersistenceDriver;
+// How often to flush rooms/games that changed outside of game actions
+const PERSISTENCE_FLUSH_INTERVAL_MS: number = Number(
+    process.env.PERSISTENCE_FLUSH_INTERVAL_MS ?? 2000
+);
+
+// ============================================================================
+// State
+// ============================================================================
+
+let store: PersistenceStore | null = null;
+let flushTimer: NodeJS.Timeout | null = null;
+let getRooms: () => Room[] = () => [];
+
+// Last serialized snapshot per ID, so unchanged records aren't rewritten
+const savedRooms: Map<string, string> = new Map();
+const savedGames: Map<string, string> = new Map();
+
+// Pending writes per record, so writes for the same record stay in order
+const pendingWrites: Map<string, Promise<void>> = new Map();
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+function createStore(driver: PersistenceDriver): PersistenceStore | null {
+    switch (driver) {
+        case "file":
+            return createFilePersistenceStore();
+        case "supabase":
+            if (!isSupabaseConfigured()) {
+                console.warn(
+                    "[PersistenceService] Supabase not configured, persistence disabled"
+                );
+                return null;
+            }
+            return createSupabasePersistenceStore();
+        case "none":
+            return null;
+        default:
+            console.warn(
+                `[PersistenceService] Unknown PERSISTENCE_DRIVER '${driver}', persistence disabled`
+            );
+            return null;
+    }
+}
+
+/**
+ * Queue a write for a record behind any earlier write for the same record.
+ * Failures are logged and never thrown into game logic.
+ */
+function enqueue(key: string, write: () => Promise<void>): Promise<void> {
+    const previous = pendingWrites.get(key) ?? Promise.resolve();
+    const next = previous
+        .then(write)
+        .catch((error) =>
+            console.error(
+                `[PersistenceService] Failed to persist ${key}:`,
+                error
+            )
+        )
+        .finally(() => {
+            if (pendingWrites.get(key) === next) pendingWrites.delete(key);
+        });
+    pendingWrites.set(key, next);
+    return next;
+}
+
+function saveRoomIfChanged(room: Room): void {
+    if (!store) return;
+    const activeStore = store;
+    const json = JSON.stringify(room);
+    if (savedRooms.get(room.id) === json) return;
+
+    savedRooms.set(room.id, json);
+    const snapshot = JSON.parse(json) as Room;
+    enqueue(`room:${room.id}`, () => activeStore.saveRoom(snapshot));
+}
+
+function saveGameIfChanged(game: GameState): void {
+    if (!store) return;
+    const activeStore = store;
+    const record: PersistedGame = { ...game, replayLog: getReplayLog(game.id) };
+    const json = JSON.stringify(record);
+    if (savedGames.get(game.id) === json) return;
+
+    savedGames.set(game.id, json);
+    const snapshot = JSON.parse(json) as PersistedGame;
+    enqueue(`game:${game.id}`, () => activeStore.saveGame(snapshot));
+}
+
+/**
+ * Save every changed room and game, and remove ones that no longer exist.
+ */
+function flush(): void {
+    if (!store) return;
+    const activeStore = store;
+
+    const rooms = getRooms();
+    const roomIds = new Set(rooms.map((room) => room.id));
+    rooms.forEach(saveRoomIfChanged);
+    for (const roomId of savedRooms.keys()) {
+        if (!roomIds.has(roomId)) {
+            savedRooms.delete(roomId);
+            enqueue(`room:${roomId}`, () => activeStore.deleteRoom(roomId));
+        }
+    }
+
+    const games = gameManager.getAllGames();
+    const gameIds = new Set(games.map((game) => game.id));
+    games.forEach(saveGameIfChanged);
+    for (const gameId of savedGames.keys()) {
+        if (!gameIds.has(gameId)) {
+            savedGames.delete(gameId);
+            enqueue(`game:${gameId}`, () => activeStore.deleteGame(gameId));
+        }
+    }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * Select the configured store and load the last snapshot.
+ * Returns an empty snapshot when persistence is disabled or loading fails.
+ */
+export async function initPersistence(): Promise<PersistenceSnapshot> {
+    store = createStore(PERSISTENCE_DRIVER);
+    if (!store) {
+        return { rooms: [], games: [] };
+    }
+
+    try {
+        const snapshot = await store.load();
+        snapshot.rooms.forEach((room) =>
+            savedRooms.set(room.id, JSON.stringify(room))
+        );
+        snapshot.games.forEach((game) =>
+            savedGames.set(game.id, JSON.stringify(game))
+        );
+        console.log(
+            `[PersistenceService] Loaded ${snapshot.rooms.length} room(s) and ${snapshot.games.length} game(s) from ${store.name}`
+        );
+        return snapshot;
+    } catch (error) {
+        console.error(
+            `[PersistenceService] Failed to load snapshot from ${store.name}, starting fresh:`,
+            error
+        );
+        return { rooms: [], games: [] };
+    }
+}
+
+/**
+ * Start periodically flushing changed rooms and games.
+ * Lobby changes (joins, settings, teams) are picked up here.
+ */
+export function startPersistence(roomSource: () => Room[]): void {
+    getRooms = roomSource;
+    if (!store || flushTimer) return;
+
+    flushTimer = setInterval(flush, PERSISTENCE_FLUSH_INTERVAL_MS);
+    flushTimer.unref();
+}
+
+/**
+ * Snapshot a room and its current game right away.
+ * Called after every dispatched game action.
+ */
+export function snapshotRoom(room: Room): void {
+    if (!store) return;
+
+    saveRoomIfChanged(room);
+    const game = gameManager.getGame(room.gameId);
+    if (game) {
+        saveGameIfChanged(game);
+    }
+}
+
+/**
+ * Flush everything and wait for pending writes (used on shutdown).
+ */
+export async function flushPersistence(): Promise<void> {
+    if (!store) return;
+
+    flush();
+    await Promise.all(pendingWrites.values());
+}
@@ -0,0 +1,276 @@
+// src/services/ReplayService.ts
+
+/**
+ * Game Replays
+ *
+ * Records every game as a structured action log so it can be stepped
+ * through once it's over. It handles:
+ * - Recording the opening state (the deal) when a game is created
+ * - Recording every dispatched action with a timestamp and the seeds it drew
+ * - Recording players disconnecting, reconnecting, leaving or being replaced,
+ *   since those change what later actions do
+ * - Keeping finished logs around for a while after the game is removed
+ * - Rebuilding the per-step public and per-player views served to clients
+ *
+ * States aren't kept per step: they're rebuilt on demand by running the log
+ * through the game's reducer. Rounds dealt mid-game draw their seed inside
+ * the reducer, so each action's seeds are logged and handed out again.
+ */
+
+import { GameReplay, ReplayStep } from "@family-games/shared";
+import type { GameAction, GameModule, GameState } from "./GameManager";
+import {
+    handlePlayerDisconnect,
+    handlePlayerReconnect,
+    removePlayer,
+    replaySeeds,
+    transferPlayer,
+} from "../games/shared";
+
+/**
+ * A change to a game that isn't an action: players coming and going.
+ */
+export type PlayerEvent =
+    | { type: "disconnect" | "reconnect" | "remove"; userId: string }
+    | {
+          type: "transfer";
+          userId: string;
+          newUserId: string;
+          newUserName: string;
+      };
+
+export type ReplayLogEntry = { timestamp: number } & (
+    | { type: "action"; action: GameAction; seeds: string[] }
+    | PlayerEvent
+);
+
+/**
+ * Everything needed to replay a game. Persisted with the game's snapshot.
+ */
+export interface ReplayLog {
+    gameId: string;
+    gameType: string;
+    roomId: string;
+    startedAt: number;
+    endedAt: number | null;
+    isFinished: boolean; // The game reached its "finished" phase
+    initialState: GameState; // The opening deal
+    entries: ReplayLogEntry[];
+}
+
+// How long a log is kept once its game is removed from the server
+const REPLAY_RETENTION_MS: number = Number(
+    process.env.REPLAY_RETENTION_MS ?? 6 * 60 * 60 * 1000
+);
+
+const logs: Map<string, ReplayLog> = new Map();
+
+/**
+ * Deep-copy a state. The debug history is dropped - it grows with every
+ * action and the log already holds the actions themselves. So is the undo
+ * snapshot, which is just the previous step again.
+ */
+function snapshotState(state: GameState): GameState {
+    const snapshot = JSON.parse(JSON.stringify(state)) as GameState;
+    if (snapshot.history) snapshot.history = [];
+    if (snapshot.undoSnapshot) snapshot.undoSnapshot = null;
+    return snapshot;
+}
+
+function isFinished(state: GameState): boolean {
+    return (state as GameState & { phase?: string }).phase === "finished";
+}
+
+function appendEntry(gameId: string, entry: ReplayLogEntry): void {
+    const log = logs.get(gameId);
+    if (!log || log.endedAt !== null) return;
+    log.entries.push(entry);
+}
+
+/**
+ * Apply a logged entry to a state, the same way the game manager did.
+ */
+function applyEntry(
+    module: GameModule,
+    state: GameState,
+    entry: ReplayLogEntry
+): GameState {
+    switch (entry.type) {
+        case "action":
+            return replaySeeds(entry.seeds, () =>
+                module.reducer(state, entry.action)
+            );
+        case "disconnect":
+            return (module.handlePlayerDisconnect ?? handlePlayerDisconnect)(
+                state,
+                entry.userId
+            );
+        case "reconnect":
+            return (module.handlePlayerReconnect ?? handlePlayerReconnect)(
+                state,
+                entry.userId
+            );
+        case "remove":
+            return removePlayer(state, entry.userId);
+        case "transfer":
+            return transferPlayer(
+                state,
+                entry.userId,
+                entry.newUserId,
+                entry.newUserName
+            );
+    }
+}
+
+/**
+ * Start recording a newly created game.
+ */
+export function startRecording(state: GameState): void {
+    logs.set(state.id, {
+        gameId: state.id,
+        gameType: state.type,
+        roomId: state.roomId,
+        startedAt: Date.now(),
+        endedAt: null,
+        isFinished: isFinished(state),
+        initialState: snapshotState(state),
+        entries: [],
+    });
+}
+
+/**
+ * Record an action, the seeds it drew and the state it produced.
+ */
+export function recordAction(
+    gameId: string,
+    action: GameAction,
+    seeds: string[],
+    state: GameState
+): void {
+    const log = logs.get(gameId);
+    if (!log || log.endedAt !== null) return;
+
+    appendEntry(gameId, {
+        type: "action",
+        action: {
+            type: action.type,
+            payload: action.payload,
+            userId: action.userId,
+        },
+        seeds,
+        timestamp: Date.now(),
+    });
+    log.isFinished = isFinished(state);
+}
+
+/**
+ * Record a player disconnecting, reconnecting, leaving or being replaced.
+ */
+export function recordPlayerEvent(gameId: string, event: PlayerEvent): void {
+    appendEntry(gameId, { ...event, timestamp: Date.now() });
+}
+
+/**
+ * Stop recording a game that was removed from the server.
+ * The log expires after REPLAY_RETENTION_MS.
+ */
+export function stopRecording(gameId: string): void {
+    const log = logs.get(gameId);
+    if (!log || log.endedAt !== null) return;
+
+    log.endedAt = Date.now();
+    setTimeout(() => logs.delete(gameId), REPLAY_RETENTION_MS).unref();
+}
+
+/**
+ * Get a game's log (used for persistence snapshots).
+ */
+export function getReplayLog(gameId: string): ReplayLog | undefined {
+    return logs.get(gameId);
+}
+
+/**
+ * Put a persisted log back, so a restored game keeps its replay.
+ */
+export function restoreReplayLog(log: ReplayLog): void {
+    logs.set(log.gameId, log);
+}
+
+/**
+ * Whether a recording exists for a game.
+ */
+export function hasRecording(gameId: string): boolean {
+    return logs.has(gameId);
+}
+
+/**
+ * Whether a recorded game is over (finished, or removed from the server).
+ * Replays of games still in play aren't served, since they reveal every hand.
+ */
+export function isRecordingComplete(gameId: string): boolean {
+    const log = logs.get(gameId);
+    if (!log) return false;
+    return log.endedAt !== null || log.isFinished;
+}
+
+/**
+ * Build the replay for a game: the public state and every player's
+ * private state at each step, rebuilt by replaying the log.
+ */
+export function getReplay(
+    gameId: string,
+    getModule: (type: string) => GameModule | undefined
+): GameReplay | undefined {
+    const log = logs.get(gameId);
+    const module = log ? getModule(log.gameType) : undefined;
+    if (!log || !module) return undefined;
+
+    const toStep = (
+        action: GameAction | null,
+        timestamp: number,
+        state: GameState
+    ): ReplayStep => {
+        const view = snapshotState(state);
+        // No turn timers or continue countdowns in a replay
+        const {
+            turnTimer: _turnTimer,
+            continueGate: _continueGate,
+            ...gameState
+        } = module.getState(view);
+        const playerStates = Object.fromEntries(
+            Object.keys(view.players).map((playerId) => [
+                playerId,
+                module.getPlayerState(view, playerId),
+            ])
+        );
+        return { action, timestamp, gameState, playerStates };
+    };
+
+    let state = snapshotState(log.initialState);
+    const steps: ReplayStep[] = [toStep(null, log.startedAt, state)];
+    for (const entry of log.entries) {
+        try {
+            state = applyEntry(module, state, entry);
+        } catch (error) {
+            // e.g. the game's rules changed since it was recorded
+            console.error(
+                `[ReplayService] Replay of game ${gameId} stopped at a ${entry.type} entry:`,
+                error
+            );
+            break;
+        }
+        if (entry.type === "action") {
+            steps.push(toStep(entry.action, entry.timestamp, state));
+        }
+    }
+
+    return {
+        gameId: log.gameId,
+        gameType: log.gameType,
+        roomId: log.roomId,
+        players: state.players,
+        startedAt: log.startedAt,
+        endedAt: log.endedAt,
+        steps,
+    };
+}
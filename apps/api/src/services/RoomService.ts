@@ -1,9 +1,19 @@
-import { Room, User, PartialGameSettings } from "@family-games/shared";
-import { validateTeamsForGame } from "@family-games/shared";
+import {
+    Room,
+    User,
+    PartialGameSettings,
+    BotDifficulty,
+    RoomSettings,
+} from "@family-games/shared";
+import {
+    getTeamRequirements,
+    validateTeamsForGame,
+} from "@family-games/shared";
 import { v4 as uuidv4 } from "uuid";
 import { emitRoomEvent } from "../webhooks/roomWebhooks";
 import { emitGameEvent } from "../webhooks/gameWebhooks";
 import { gameManager } from "./GameManager";
+import type { PersistedGame } from "./PersistenceService";
 import {
     notFound,
     forbidden,
@@ -12,6 +22,7 @@ import {
     badRequest,
 } from "@family-games/shared";
 import { pauseTimer, resumeTimer as resumeTurnTimer } from "./GameTurnTimer";
+import { createBotUser, scheduleBotTurn } from "./BotService";
 
 const rooms: Map<string, Room> = new Map();
 const roomCodeToId: Map<string, string> = new Map();
@@ -327,6 +338,34 @@ function removeUserFromTeams(room: Room, userId: string): boolean {
     return modified;
 }
 
+/**
+ * Reset ready states when returning to the lobby.
+ * Bots are always ready.
+ */
+function resetReadyStates(room: Room): void {
+    room.users.forEach((user) => {
+        room.readyStates[user.id] = !!user.isBot;
+    });
+}
+
+/**
+ * Find the human user to promote when the leader leaves.
+ * Prefers connected users. Bots never lead a room.
+ */
+function findNextLeader(room: Room): User | undefined {
+    const humans = room.users.filter((u) => !u.isBot);
+    return humans.find((u) => u.isConnected !== false) ?? humans[0];
+}
+
+/**
+ * Remove any bots once the last human has left, so the room can be cleaned up.
+ */
+function removeBotsIfNoHumans(room: Room): void {
+    if (room.users.some((u) => !u.isBot)) return;
+    room.users.forEach((bot) => delete room.readyStates[bot.id]);
+    room.users = [];
+}
+
 function scheduleRoomDeletionIfEmpty(roomId: string): void {
     // Avoid double-scheduling
     if (roomDeletionTimers.has(roomId)) return;
@@ -411,9 +450,7 @@ function abortGameDueToTimeout(roomId: string): void {
     room.pausedAt = undefined;
 
     // Reset ready states for all users
-    room.users.forEach((user) => {
-        room.readyStates[user.id] = false;
-    });
+    resetReadyStates(room);
 
     emitRoomEvent<{ reason: string }>(room, "game_aborted", {
         reason: "reconnect_timeout",
@@ -422,7 +459,9 @@ function abortGameDueToTimeout(roomId: string): void {
     reconnectTimeoutTimers.delete(roomId);
 
     // Check if all users are disconnected - if so, schedule room deletion
-    const connectedUsers = room.users.filter((u) => u.isConnected !== false);
+    const connectedUsers = room.users.filter(
+        (u) => u.isConnected !== false && !u.isBot
+    );
     if (connectedUsers.length === 0) {
         // Remove disconnected users since game is over
         room.users = [];
@@ -567,9 +606,10 @@ export function registerSocketUser(
                 room.timeoutAt = undefined;
                 cancelReconnectTimeout(room.id);
 
-                // Resume turn timer when game resumes
+                // Resume turn timer (and any bot turn) when game resumes
                 if (room.gameId) {
                     resumeTurnTimer(room.gameId, room);
+                    scheduleBotTurn(room.gameId, room);
                 }
 
                 emitRoomEvent<{ userName?: string }>(room, "game_resumed", {
@@ -787,7 +827,7 @@ export function handleUserDisconnect(socketId: string): void {
         // Auto-promote leader if the disconnected user was the leader
         if (room.leaderId === userId) {
             const connectedUsers = room.users.filter(
-                (u) => u.isConnected !== false
+                (u) => u.isConnected !== false && !u.isBot
             );
             if (connectedUsers.length > 0) {
                 const newLeader = connectedUsers[0];
@@ -819,16 +859,18 @@ export function handleUserDisconnect(socketId: string): void {
 
             // Remove from team assignments
             removeUserFromTeams(room, userId);
+            removeBotsIfNoHumans(room);
 
             // If user was leader, assign new leader if possible
-            if (room.leaderId === userId && room.users.length > 0) {
-                room.leaderId = room.users[0].id;
+            const newLeader = findNextLeader(room);
+            if (room.leaderId === userId && newLeader) {
+                room.leaderId = newLeader.id;
                 emitRoomEvent<{ newLeaderId: string; newLeaderName: string }>(
                     room,
                     "leader_promoted",
                     {
-                        newLeaderId: room.users[0].id,
-                        newLeaderName: room.users[0].name,
+                        newLeaderId: newLeader.id,
+                        newLeaderName: newLeader.name,
                     }
                 );
             }
@@ -901,13 +943,17 @@ export function promoteLeader(
     if (!room) throw notFound("Room not found.");
     if (room.leaderId !== userId)
         throw forbidden("Only the current leader can promote a new leader.");
-    if (!room.users.find((u) => u.id === newLeaderId))
+    const newLeader = room.users.find((u) => u.id === newLeaderId);
+    if (!newLeader)
         throw badRequest("New leader must be a participant in the room.");
+    if (newLeader.isBot) throw badRequest("Bots can't lead the room.");
 
     room.leaderId = newLeaderId;
-    emitRoomEvent<{ newLeaderId: string }>(room, "leader_promoted", {
-        newLeaderId,
-    });
+    emitRoomEvent<{ newLeaderId: string; newLeaderName: string }>(
+        room,
+        "leader_promoted",
+        { newLeaderId, newLeaderName: newLeader.name }
+    );
 }
 
 export function selectGame(
@@ -937,11 +983,7 @@ export function selectGame(
 export function updateRoomSettings(
     roomId: string,
     userId: string,
-    settings: {
-        maxPlayers?: number;
-        pauseTimeoutSeconds?: number;
-        isPrivate?: boolean;
-    }
+    settings: RoomSettings
 ): void {
     const room = getRoom(roomId);
     if (!room) throw notFound("Room not found.");
@@ -1047,9 +1089,7 @@ export function kickUser(
             room.timeoutAt = undefined;
 
             // Reset ready states for remaining users
-            room.users.forEach((user) => {
-                room.readyStates[user.id] = false;
-            });
+            resetReadyStates(room);
 
             emitRoomEvent<{ userId: string; userName?: string }>(
                 room,
@@ -1109,6 +1149,7 @@ export function kickUser(
     }
 
     // If kicking resulted in an empty room, schedule deletion
+    removeBotsIfNoHumans(room);
     if (room.users.length === 0) {
         scheduleRoomDeletionIfEmpty(roomId);
     }
@@ -1128,7 +1169,13 @@ export function setTeams(
 
     // Validate teams using per-game logic (partial assignments allowed)
     const allUserIds = room.users.map((u) => u.id);
-    validateTeamsForGame(room.selectedGameType, teams, allUserIds, false);
+    validateTeamsForGame(
+        room.selectedGameType,
+        teams,
+        allUserIds,
+        false,
+        room.gameSettings
+    );
 
     room.teams = teams;
     emitRoomEvent<{ teams: string[][] }>(room, "teams_set", { teams });
@@ -1144,7 +1191,11 @@ export function randomizeTeams(roomId: string, userId: string): string[][] {
     const module = gameManager.getGameModule(room.selectedGameType);
     if (!module) throw notFound("Game module not found.");
 
-    const requirements = {
+    // Shared requirements also cover settings-driven teams (e.g. dominoes team mode)
+    const requirements = getTeamRequirements(
+        room.selectedGameType,
+        room.gameSettings
+    ) ?? {
         numTeams: module.metadata.numTeams ?? 0,
         playersPerTeam: module.metadata.playersPerTeam ?? 0,
     };
@@ -1183,15 +1234,20 @@ export function startGame(
         throw badRequest("Not all players are ready.");
 
     // Validate teams are complete for team-based games
+    // (including games that only use teams in some modes)
     const module = gameManager.getGameModule(gameType);
-    if (module && module.metadata.numTeams && module.metadata.numTeams > 0) {
+    const settings = { ...room.gameSettings, ...customSettings };
+    if (
+        (module && module.metadata.numTeams && module.metadata.numTeams > 0) ||
+        getTeamRequirements(gameType, settings)
+    ) {
         if (!room.teams || room.teams.length === 0) {
             throw badRequest(
                 "Teams must be assigned before starting the game."
             );
         }
         const allUserIds = room.users.map((u) => u.id);
-        validateTeamsForGame(gameType, room.teams, allUserIds, true);
+        validateTeamsForGame(gameType, room.teams, allUserIds, true, settings);
     }
 
     // Mark all users as connected when starting the game
@@ -1207,8 +1263,8 @@ export function startGame(
     room.pausedAt = undefined;
     room.timeoutAt = undefined;
 
-    // Optionally, emit initial game state
-    const gameState = gameManager.getGame(gameId);
+    // Emit the public initial state (hands and the deal seed stay private)
+    const gameState = gameManager.getGameState(gameId);
     emitRoomEvent(room, "game_started", { gameId, gameState, gameType });
 }
 
@@ -1257,12 +1313,8 @@ export function leaveGame(roomId: string, userId: string): void {
         removeUserFromTeams(room, userId);
 
         // Handle leader promotion if leaving user was leader
-        if (room.leaderId === userId && room.users.length > 0) {
-            const connectedUsers = room.users.filter(
-                (u) => u.isConnected !== false
-            );
-            const newLeader =
-                connectedUsers.length > 0 ? connectedUsers[0] : room.users[0];
+        const newLeader = findNextLeader(room);
+        if (room.leaderId === userId && newLeader) {
             room.leaderId = newLeader.id;
             emitRoomEvent<{ newLeaderId: string; newLeaderName: string }>(
                 room,
@@ -1304,6 +1356,7 @@ export function leaveGame(roomId: string, userId: string): void {
         }
 
         // If room is now empty, schedule deletion
+        removeBotsIfNoHumans(room);
         if (room.users.length === 0) {
             scheduleRoomDeletionIfEmpty(roomId);
         }
@@ -1316,16 +1369,18 @@ export function leaveGame(roomId: string, userId: string): void {
 
         // Remove from team assignments
         removeUserFromTeams(room, userId);
+        removeBotsIfNoHumans(room);
 
         // Handle leader promotion
-        if (room.leaderId === userId && room.users.length > 0) {
-            room.leaderId = room.users[0].id;
+        const newLeader = findNextLeader(room);
+        if (room.leaderId === userId && newLeader) {
+            room.leaderId = newLeader.id;
             emitRoomEvent<{ newLeaderId: string; newLeaderName: string }>(
                 room,
                 "leader_promoted",
                 {
-                    newLeaderId: room.users[0].id,
-                    newLeaderName: room.users[0].name,
+                    newLeaderId: newLeader.id,
+                    newLeaderName: newLeader.name,
                 }
             );
         }
@@ -1369,9 +1424,7 @@ export function abortGame(roomId: string, userId: string): void {
     room.timeoutAt = undefined;
 
     // Reset ready states for all users
-    room.users.forEach((user) => {
-        room.readyStates[user.id] = false;
-    });
+    resetReadyStates(room);
 
     // Emit game_aborted with "leader_ended" reason
     emitRoomEvent<{ reason: string }>(room, "game_aborted", {
@@ -1599,3 +1652,149 @@ export function getAvailableSlots(
         return { userId: u.id, userName: u.name, teamIndex };
     });
 }
+
+// ============================================================================
+// Bot Players
+// ============================================================================
+
+/**
+ * Add a computer-controlled player to fill an empty seat.
+ * Only the leader can add bots, and only from the lobby.
+ */
+export function addBot(
+    roomId: string,
+    userId: string,
+    difficulty: BotDifficulty = "easy"
+): User {
+    const room = getRoom(roomId);
+    if (!room) throw notFound("Room not found.");
+    if (room.leaderId !== userId)
+        throw forbidden("Only the current leader can add bots.");
+    if (isActiveGame(room))
+        throw conflict("Bots can only be added from the lobby.");
+    if (difficulty !== "easy" && difficulty !== "hard")
+        throw badRequest(`Invalid bot difficulty: ${difficulty}`);
+
+    const maxPlayers = room.settings?.maxPlayers;
+    if (maxPlayers && room.users.length >= maxPlayers) {
+        throw conflict(`Room is full (max ${maxPlayers} players).`);
+    }
+    const metadata = room.selectedGameType
+        ? gameManager.getGameModule(room.selectedGameType)?.metadata
+        : undefined;
+    if (metadata && room.users.length >= metadata.maxPlayers) {
+        throw conflict(
+            `${metadata.displayName} supports at most ${metadata.maxPlayers} players.`
+        );
+    }
+
+    const bot = createBotUser(room, difficulty);
+    room.users.push(bot);
+    room.readyStates[bot.id] = true;
+
+    emitRoomEvent<{ userId: string; userName: string }>(room, "bot_added", {
+        userId: bot.id,
+        userName: bot.name,
+    });
+    return bot;
+}
+
+/**
+ * Remove a bot from the lobby.
+ */
+export function removeBot(roomId: string, userId: string, botId: string): void {
+    const room = getRoom(roomId);
+    if (!room) throw notFound("Room not found.");
+    if (room.leaderId !== userId)
+        throw forbidden("Only the current leader can remove bots.");
+    if (isActiveGame(room))
+        throw conflict("Bots can only be removed from the lobby.");
+
+    const bot = room.users.find((u) => u.id === botId);
+    if (!bot?.isBot) throw notFound("Bot not found in room.");
+
+    room.users = room.users.filter((u) => u.id !== botId);
+    delete room.readyStates[botId];
+    removeUserFromTeams(room, botId);
+
+    emitRoomEvent<{ userId: string; userName: string }>(room, "bot_removed", {
+        userId: bot.id,
+        userName: bot.name,
+    });
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Get every room currently held in memory (used for persistence snapshots).
+ */
+export function getAllRooms(): Room[] {
+    return Array.from(rooms.values());
+}
+
+/**
+ * Rebuild rooms and games from a persisted snapshot on boot.
+ * No sockets survive a restart, so every human starts disconnected and
+ * in-progress games are paused until players rejoin (or the reconnect
+ * timeout aborts them). Outside a game, disconnected users are removed
+ * just as handleUserDisconnect does, and empty rooms are scheduled for
+ * deletion.
+ */
+export function restoreRooms(savedRooms: Room[], savedGames: PersistedGame[]) {
+    const gamesById = new Map(savedGames.map((game) => [game.id, game]));
+
+    for (const room of savedRooms) {
+        // Dates come back from JSON as strings
+        room.createdAt = new Date(room.createdAt);
+        room.pausedAt = undefined;
+        room.timeoutAt = undefined;
+        room.isPaused = false;
+        room.users.forEach((user) => {
+            user.isConnected = !!user.isBot;
+        });
+
+        const game = room.gameId ? gamesById.get(room.gameId) : undefined;
+        if (room.state === "in-game" && game && gameManager.restoreGame(game)) {
+            // Game players share User objects with the room
+            for (const user of room.users) {
+                if (game.players[user.id]) {
+                    game.players[user.id] = user;
+                }
+            }
+
+            room.isPaused = true;
+            room.pausedAt = new Date();
+            room.timeoutAt = new Date(
+                room.pausedAt.getTime() + RECONNECT_TIMEOUT_MINUTES * 60 * 1000
+            );
+            scheduleReconnectTimeout(room.id);
+        } else if (room.state === "in-game") {
+            // The game could not be restored - send the room back to the lobby
+            room.state = "lobby";
+            room.gameId = null;
+            resetReadyStates(room);
+        }
+
+        if (!isActiveGame(room)) {
+            // Lobby users are removed once their socket is gone; players
+            // rejoin the room the same way they would after leaving it
+            for (const user of room.users.filter((u) => !u.isBot)) {
+                room.users = room.users.filter((u) => u.id !== user.id);
+                delete room.readyStates[user.id];
+                removeUserFromTeams(room, user.id);
+            }
+            removeBotsIfNoHumans(room);
+        }
+
+        rooms.set(room.id, room);
+        roomCodeToId.set(room.code, room.id);
+
+        if (room.users.length === 0) {
+            scheduleRoomDeletionIfEmpty(room.id);
+        }
+    }
+
+    console.log(`Restored ${rooms.size} room(s) from snapshot`);
+}
@@ -0,0 +1,91 @@
+// src/services/SessionService.ts
+
+/**
+ * Session Tokens
+ *
+ * Binds a client to its userId without trusting anything it sends later.
+ * It handles:
+ * - Issuing a signed token when a room is created or joined
+ * - Verifying tokens presented to the REST API (Authorization header)
+ *   and the Socket.IO handshake (auth.token)
+ *
+ * Tokens are `<payload>.<signature>`, both base64url, signed with
+ * HMAC-SHA256 using SESSION_SECRET. Without SESSION_SECRET a random secret
+ * is generated per process, so every token is invalidated on restart.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+interface SessionPayload {
+    userId: string;
+    issuedAt: number;
+}
+
+let secret: Buffer | null = null;
+
+function getSecret(): Buffer {
+    if (!secret) {
+        if (process.env.SESSION_SECRET) {
+            secret = Buffer.from(process.env.SESSION_SECRET);
+        } else {
+            console.warn(
+                "SESSION_SECRET is not set - using a random secret. Sessions won't survive a restart."
+            );
+            secret = randomBytes(32);
+        }
+    }
+    return secret;
+}
+
+function sign(payload: string): Buffer {
+    return createHmac("sha256", getSecret()).update(payload).digest();
+}
+
+/**
+ * Issue a session token for a user.
+ */
+export function issueSessionToken(userId: string): string {
+    const payload: SessionPayload = { userId, issuedAt: Date.now() };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    return `${encoded}.${sign(encoded).toString("base64url")}`;
+}
+
+/**
+ * Resolve a session token to its userId.
+ * Returns null if the token is malformed or its signature doesn't match.
+ */
+export function verifySessionToken(token: unknown): string | null {
+    if (typeof token !== "string") return null;
+
+    const [encoded, signature, ...rest] = token.split(".");
+    if (!encoded || !signature || rest.length > 0) return null;
+
+    const expected = sign(encoded);
+    const actual = Buffer.from(signature, "base64url");
+    if (
+        actual.length !== expected.length ||
+        !timingSafeEqual(actual, expected)
+    ) {
+        return null;
+    }
+
+    try {
+        const payload = JSON.parse(
+            Buffer.from(encoded, "base64url").toString()
+        ) as Partial<SessionPayload>;
+        return typeof payload.userId === "string" ? payload.userId : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Resolve the userId from an `Authorization: Bearer <token>` header.
+ * Returns null when there is no header or the token is invalid.
+ */
+export function getUserIdFromAuthHeader(
+    authorization: string | undefined
+): string | null {
+    const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+    return match ? verifySessionToken(match[1]) : null;
+}
@@ -0,0 +1,92 @@
+// apps/api/src/services/SupabasePersistenceStore.ts
+// Supabase-backed persistence store for deployed environments
+
+import { getSupabaseClient } from "../config/supabase";
+import { Room } from "@family-games/shared";
+import type {
+    PersistedGame,
+    PersistenceSnapshot,
+    PersistenceStore,
+} from "./PersistenceService";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Database row type for the snapshot tables.
+ *
+ * Expected schema (same for both tables):
+ *   create table room_snapshots (
+ *       id text primary key,
+ *       data jsonb not null,
+ *       updated_at timestamptz not null default now()
+ *   );
+ *   create table game_snapshots ( ...same columns... );
+ */
+interface SnapshotRow<T> {
+    id: string;
+    data: T;
+    updated_at: string;
+}
+
+const ROOMS_TABLE = "room_snapshots";
+const GAMES_TABLE = "game_snapshots";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function selectAll<T>(table: string): Promise<T[]> {
+    const { data, error } = await getSupabaseClient()
+        .from(table)
+        .select("id, data");
+
+    if (error) throw error;
+    return (data as Pick<SnapshotRow<T>, "id" | "data">[]).map(
+        (row) => row.data
+    );
+}
+
+async function upsert(table: string, id: string, data: unknown): Promise<void> {
+    const row: SnapshotRow<unknown> = {
+        id,
+        data,
+        updated_at: new Date().toISOString(),
+    };
+    const { error } = await getSupabaseClient().from(table).upsert(row);
+    if (error) throw error;
+}
+
+async function remove(table: string, id: string): Promise<void> {
+    const { error } = await getSupabaseClient()
+        .from(table)
+        .delete()
+        .eq("id", id);
+    if (error) throw error;
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * Create a store that keeps snapshots in Supabase (one row per room/game).
+ */
+export function createSupabasePersistenceStore(): PersistenceStore {
+    return {
+        name: "supabase",
+
+        async load(): Promise<PersistenceSnapshot> {
+            return {
+                rooms: await selectAll<Room>(ROOMS_TABLE),
+                games: await selectAll<PersistedGame>(GAMES_TABLE),
+            };
+        },
+
+        saveRoom: (room) => upsert(ROOMS_TABLE, room.id, room),
+        deleteRoom: (roomId) => remove(ROOMS_TABLE, roomId),
+        saveGame: (game) => upsert(GAMES_TABLE, game.id, game),
+        deleteGame: (gameId) => remove(GAMES_TABLE, gameId),
+    };
+}
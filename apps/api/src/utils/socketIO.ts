@@ -1,14 +1,40 @@
 // src/utils/socketIO.ts
 // Utility to store and access the Socket.IO server instance
 
-import { Server } from "socket.io";
+import { Server, Socket } from "socket.io";
+import {
+    ClientToServerEvents,
+    InterServerEvents,
+    ServerToClientEvents,
+    SocketData,
+} from "@family-games/shared";
 
-let ioInstance: Server | null = null;
+/**
+ * Socket.IO server typed with the shared event contracts.
+ */
+export type TypedServer = Server<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData
+>;
+
+/**
+ * A single client connection typed with the shared event contracts.
+ */
+export type TypedSocket = Socket<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData
+>;
+
+let ioInstance: TypedServer | null = null;
 
 /**
  * Set the Socket.IO server instance
  */
-export function setIO(io: Server): void {
+export function setIO(io: TypedServer): void {
     ioInstance = io;
 }
 
@@ -16,7 +42,7 @@ export function setIO(io: Server): void {
  * Get the Socket.IO server instance
  * @throws Error if IO has not been initialized
  */
-export function getIO(): Server {
+export function getIO(): TypedServer {
     if (!ioInstance) {
         throw new Error("Socket.IO has not been initialized");
     }
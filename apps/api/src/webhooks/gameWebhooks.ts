@@ -1,55 +1,131 @@
-import { Room } from "@family-games/shared";
-import { Socket, Server as SocketIOServer } from "socket.io";
-import { gameManager, GameState } from "../services/GameManager";
+import {
+    createJsonPatch,
+    GameData,
+    GameEventPayload,
+    JsonPatchOperation,
+    PlayerData,
+    Room,
+} from "@family-games/shared";
+import { gameManager } from "../services/GameManager";
+import { TypedServer, TypedSocket } from "../utils/socketIO";
+import { toLobbyData } from "./roomWebhooks";
 
-let io: SocketIOServer | null = null;
+let io: TypedServer | null = null;
 
-export function setGameSocketServer(server: SocketIOServer) {
+export function setGameSocketServer(server: TypedServer) {
     io = server;
 }
 
-export type GameEventPayload<T = {}> = {
-    event: string;
-    gameState: GameState | null;
-    timestamp: string;
-} & T;
+/**
+ * A game's public state as sent to clients.
+ * Modules build this view from their own state types, which mirror
+ * the shared client-facing game data.
+ */
+export function getGameData(gameId: string | null): GameData {
+    return gameManager.getGameState(gameId) as unknown as GameData;
+}
 
-export type PlayerGameEvent<_T = {}> = {
-    event: string;
-    playerState: any | null; // TODO: add type safety for player state
-    timestamp: string;
-};
+/**
+ * A deep copy of the public state, detached from the live game state
+ * (which is partly mutated in place) so it can serve as a patch base.
+ */
+function snapshotGameData(gameId: string | null): GameData {
+    return JSON.parse(JSON.stringify(getGameData(gameId))) as GameData;
+}
 
-export function emitGameEvent<T = {}>(
-    room: Room,
-    event: string,
-    customData?: T
+/**
+ * Send a public state to one socket, as a patch against the state it was
+ * last sent when that's for the same game, otherwise in full.
+ * Socket.IO delivers in order per connection, so the last state sent is
+ * the client's base unless it asks for a resync (get_game_state).
+ *
+ * @param patches - Patches already built in this broadcast, by base state
+ */
+function sendGameState(
+    socket: TypedSocket,
+    gameState: GameData,
+    timestamp: string,
+    patches: Map<GameData, JsonPatchOperation[]> = new Map()
 ): void {
+    const base = socket.data.syncedGame;
+    socket.data.syncedGame = gameState;
+
+    if (!base || base.id !== gameState.id) {
+        socket.emit("game_event", { event: "sync", gameState, timestamp });
+        return;
+    }
+
+    let patch = patches.get(base);
+    if (!patch) {
+        patch = createJsonPatch(base, gameState);
+        patches.set(base, patch);
+    }
+    socket.emit("game_event", {
+        event: "patch",
+        baseVersion: base.version,
+        version: gameState.version,
+        patch,
+        timestamp,
+    });
+}
+
+/**
+ * Broadcast the game's public state to everyone in the room.
+ * Clients that are already in sync only receive the changes.
+ */
+export function emitGameEvent(room: Room, event: "sync"): void {
     if (!io) return;
-    const gameState = gameManager.getGameState(room.gameId) ?? null;
-    const payload: GameEventPayload = {
-        event,
+    const gameState = snapshotGameData(room.gameId);
+    const timestamp = new Date().toISOString();
+    const patches = new Map<GameData, JsonPatchOperation[]>();
+
+    console.log(
+        `Emitting game event: ${event} v${gameState.version} for room ${room.id}`
+    );
+    for (const socketId of io.sockets.adapter.rooms.get(room.id) ?? []) {
+        const socket = io.sockets.sockets.get(socketId);
+        if (socket) sendGameState(socket, gameState, timestamp, patches);
+    }
+}
+
+/**
+ * Send the full public state to one socket, e.g. when its client asks
+ * for a resync after missing a version.
+ */
+export function emitFullGameState(socket: TypedSocket, room: Room): void {
+    socket.data.syncedGame = undefined;
+    sendGameState(
+        socket,
+        snapshotGameData(room.gameId),
+        new Date().toISOString()
+    );
+}
+
+/**
+ * Send a new spectator the neutral game view along with the room.
+ */
+export function emitSpectatorState(socket: TypedSocket, room: Room): void {
+    const gameState = snapshotGameData(room.gameId);
+    socket.data.syncedGame = gameState;
+    socket.emit("spectator_state", {
         gameState,
-        timestamp: new Date().toISOString(),
-        ...(customData || {}),
-    };
-    console.log(`Emitting game event: ${event} for room ${room.id}`);
-    io.to(room.id).emit("game_event", payload);
+        room: toLobbyData(room),
+        isSpectator: true,
+    });
 }
 
-export function emitPlayerGameEvent<T = {}>(
-    socket: Socket,
+export function emitPlayerGameEvent(
+    socket: TypedSocket,
     room: Room,
-    event: string,
-    userId: string,
-    customData?: T
+    event: "player_sync",
+    userId: string
 ): void {
-    const playerState = gameManager.getPlayerState(room.gameId, userId) ?? null;
-    const payload: PlayerGameEvent = {
+    const playerState: PlayerData | null =
+        gameManager.getPlayerState(room.gameId, userId) ?? null;
+    const payload: GameEventPayload<GameData, PlayerData> = {
         event,
         playerState,
         timestamp: new Date().toISOString(),
-        ...(customData || {}),
     };
     socket.emit("game_event", payload);
 }
@@ -1,29 +1,49 @@
-import { Room } from "@family-games/shared";
-import { Server as SocketIOServer } from "socket.io";
+import { LobbyData, Room, RoomEventPayload } from "@family-games/shared";
+import { TypedServer } from "../utils/socketIO";
 
-let io: SocketIOServer | null = null;
+let io: TypedServer | null = null;
 
-export function setSocketServer(server: SocketIOServer) {
+export function setSocketServer(server: TypedServer) {
     io = server;
 }
 
-export type RoomEventPayload<T = {}> = {
-    event: string;
-    roomState: Room;
-    timestamp: string;
-} & T;
+/**
+ * The client-facing view of a room.
+ * Leaves out server-only fields (game ID, kicked users) and sends dates as ISO strings.
+ */
+export function toLobbyData(room: Room): LobbyData {
+    return {
+        roomId: room.id,
+        code: room.code,
+        name: room.name,
+        createdAt: new Date(room.createdAt).toISOString(),
+        state: room.state,
+        readyStates: room.readyStates,
+        users: room.users,
+        leaderId: room.leaderId,
+        selectedGameType: room.selectedGameType,
+        teams: room.teams,
+        settings: room.settings,
+        gameSettings: room.gameSettings,
+        isPaused: room.isPaused,
+        pausedAt: room.pausedAt && new Date(room.pausedAt).toISOString(),
+        timeoutAt: room.timeoutAt && new Date(room.timeoutAt).toISOString(),
+        spectators: room.spectators,
+    };
+}
 
 export function emitRoomEvent<T = {}>(
     room: Room,
-    event: string,
+    event: RoomEventPayload["event"],
     customData?: T
 ): void {
     if (!io) return;
-    const payload: RoomEventPayload = {
+    const payload = {
         event,
-        roomState: room,
+        roomState: toLobbyData(room),
         timestamp: new Date().toISOString(),
         ...(customData || {}),
     };
-    io.to(room.id).emit("room_event", payload);
+    // The event name is checked above; its custom data is trusted to match
+    io.to(room.id).emit("room_event", payload as RoomEventPayload);
 }
@@ -2,13 +2,22 @@
 
 import { useWebSocket } from "@/contexts/WebSocketContext";
 import { useSession } from "@/contexts/SessionContext";
-import React, { useEffect, useState, useCallback } from "react";
+import React, { useEffect, useState, useCallback, useRef } from "react";
 import GamePausedOverlay from "@/components/games/GamePausedOverlay";
 import SpectatorBanner from "@/components/games/SpectatorBanner";
 import { getGameComponent } from "@/components/games/registry";
 import { GameSkeleton } from "@/components/skeletons";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
-import { GameData, GameEventPayload, PlayerData, User } from "@shared/types";
+import {
+    ActionAckPayload,
+    GameData,
+    GameEventPayload,
+    PlayerData,
+    SpectatorStatePayload,
+    TurnTimeoutPayload,
+    User,
+} from "@shared/types";
+import { applyJsonPatch } from "@shared/utils";
 import { toast } from "sonner";
 import { useRouter, useParams } from "next/navigation";
 import { useRoomEvents } from "@/hooks/useRoomEvents";
@@ -23,6 +32,9 @@ export default function GamePage() {
     const { socket, connected, emit } = useWebSocket();
     const { roomCode }: { roomCode: string } = useParams();
     const [gameData, setGameData] = useState<GameData | null>(null);
+    // Last state confirmed by the server. Patches apply to this rather than
+    // to gameData, which may hold optimistic updates.
+    const serverGameDataRef = useRef<GameData | null>(null);
     const [playerData, setPlayerData] = useState<PlayerData | null>(null);
     const [isPaused, setIsPaused] = useState(false);
     const [timeoutAt, setTimeoutAt] = useState<string | null>(null);
@@ -57,6 +69,7 @@ export default function GamePage() {
         playerData,
         setGameData,
         setPlayerData,
+        getServerVersion: () => serverGameDataRef.current?.version ?? null,
         optimisticReducer: optimisticGameReducer,
         onRollback: (reason) => {
             toast.error(`Action reverted: ${reason}`);
@@ -120,22 +133,51 @@ export default function GamePage() {
         },
     });
 
+    // Take a new server state and refresh everything derived from it
+    const applyServerGameData = useCallback(
+        (data: GameData) => {
+            serverGameDataRef.current = data;
+            setGameData(data);
+            setLeaderId(data.leaderId);
+            // Update disconnected players from game state
+            const disconnected = Object.values(data.players).filter(
+                (p) => p.isConnected === false
+            );
+            setDisconnectedPlayers(disconnected);
+            // Request player-specific state
+            emit("get_player_state", { roomId });
+        },
+        [emit, roomId]
+    );
+
     // Handle game-specific events
     const handleGameEvent = useCallback(
         (payload: GameEventPayload<GameData, PlayerData>) => {
             console.log("📨 Game event:", payload);
             switch (payload.event) {
                 case "sync":
-                    setGameData(payload.gameState);
-                    setLeaderId(payload.gameState.leaderId);
-                    // Update disconnected players from game state
-                    const disconnected = Object.values(
-                        payload.gameState.players
-                    ).filter((p) => p.isConnected === false);
-                    setDisconnectedPlayers(disconnected);
-                    // Request player-specific state
-                    emit("get_player_state", { roomId, userId });
+                    applyServerGameData(payload.gameState);
+                    break;
+                case "patch": {
+                    const base = serverGameDataRef.current;
+                    // Missed or out-of-order update - ask for the full state
+                    if (!base || base.version !== payload.baseVersion) {
+                        console.warn(
+                            `Game state v${base?.version} can't take patch from v${payload.baseVersion}, resyncing`
+                        );
+                        emit("get_game_state", { roomId });
+                        break;
+                    }
+                    try {
+                        applyServerGameData(
+                            applyJsonPatch(base, payload.patch)
+                        );
+                    } catch (err) {
+                        console.warn("Failed to apply game state patch:", err);
+                        emit("get_game_state", { roomId });
+                    }
                     break;
+                }
                 case "player_sync":
                     setPlayerData(payload.playerState);
                     break;
@@ -178,7 +220,7 @@ export default function GamePage() {
                     break;
             }
         },
-        [emit, roomId, userId]
+        [emit, roomId, applyServerGameData]
     );
 
     // Set up game event listeners
@@ -190,17 +232,22 @@ export default function GamePage() {
         sock.on("game_event", handleGameEvent);
 
         // Handle turn timeout events
-        function handleTurnTimeout(payload: {
-            playerId: string;
-            playerName: string;
-            action: "auto-bid" | "auto-play";
-            gameId: string;
-            timestamp: string;
-        }) {
+        function handleTurnTimeout(payload: TurnTimeoutPayload) {
             const actionText =
-                payload.action === "auto-bid"
+                payload.actionType === "PLACE_BID"
                     ? "auto-bidding"
-                    : "auto-playing a card";
+                    : payload.actionType === "PASS" ||
+                        payload.actionType === "PASS_CARDS"
+                      ? "auto-passing"
+                      : payload.actionType === "DISCARD"
+                        ? "auto-discarding"
+                        : payload.actionType === "DECLARE_TRUMP"
+                          ? "auto-declaring trump"
+                          : payload.actionType === "CALL_TRUMP"
+                            ? "auto-calling trump"
+                            : payload.actionType === "DRAW_CARD"
+                              ? "auto-drawing"
+                              : "auto-playing";
             toast.warning(
                 `${payload.playerName} ran out of time - ${actionText}`,
                 {
@@ -214,11 +261,8 @@ export default function GamePage() {
         function handleSpectatorState({
             gameState,
             isSpectator: spectatorFlag,
-        }: {
-            gameState: GameData;
-            room: unknown;
-            isSpectator: boolean;
-        }) {
+        }: SpectatorStatePayload) {
+            serverGameDataRef.current = gameState;
             setGameData(gameState);
             setLeaderId(gameState.leaderId);
             setIsSpectator(spectatorFlag);
@@ -229,10 +273,10 @@ export default function GamePage() {
 
         // Request game state when connected
         const requestGameState = () => {
-            sock.emit("get_game_state", { roomId, userId });
+            sock.emit("get_game_state", { roomId });
             // Only request player state if not a spectator
             if (!isSpectator) {
-                sock.emit("get_player_state", { roomId, userId });
+                sock.emit("get_player_state", { roomId });
             }
         };
 
@@ -258,17 +302,34 @@ export default function GamePage() {
             actionId,
             success,
             error,
-        }: {
-            actionId: string;
-            success: boolean;
-            error?: string;
-        }) => {
+            reason,
+        }: ActionAckPayload) => {
             if (success) {
-                // Pass actionId to confirm the specific action (handles out-of-order acks)
+                // Pass actionId to confirm the specific action (handles out-of-order acks).
+                // A duplicate that succeeded the first time is confirmed too.
                 optimisticAction.confirm(actionId);
-            } else if (error) {
-                console.error(`Action ${actionId} failed:`, error);
-                optimisticAction.rollback(error);
+                return;
+            }
+
+            console.error(`Action ${actionId} failed (${reason}):`, error);
+            // Undo this action and any queued behind it right away
+            const rolledBack = optimisticAction.rollback(
+                actionId,
+                error ?? "Action failed"
+            );
+            // System actions have nothing to roll back - say why nothing happened
+            if (!rolledBack) {
+                toast.error(error ?? "Action failed");
+            }
+            // The snapshot may predate states received since - show the server's
+            if (serverGameDataRef.current) {
+                setGameData(serverGameDataRef.current);
+            }
+            // The action was made against an outdated view - fetch the latest
+            // so the player can try again against what actually happened
+            if (reason === "stale") {
+                emit("get_game_state", { roomId });
+                emit("get_player_state", { roomId });
             }
         };
 
@@ -277,19 +338,19 @@ export default function GamePage() {
         return () => {
             sock.off("action_ack", handleActionAck);
         };
-    }, [optimisticAction]);
+    }, [optimisticAction, emit, roomId]);
 
     function handleKickPlayer(targetUserId: string) {
-        emit("kick_user", { roomId, userId, targetUserId });
+        emit("kick_user", { roomId, targetUserId });
     }
 
     function handleLeaveGame() {
-        emit("leave_game", { roomId, userId });
+        emit("leave_game", { roomId });
         router.push(`/lobby/${roomCode}`);
     }
 
     function handleClaimSlot(targetSlotUserId: string) {
-        emit("claim_player_slot", { roomId, userId, targetSlotUserId });
+        emit("claim_player_slot", { roomId, targetSlotUserId });
         toast.info("Claiming player slot...");
     }
 
@@ -299,7 +360,7 @@ export default function GamePage() {
             router.push(`/lobby/${roomCode}`);
         } else {
             // Active players use return_to_lobby to move to spectators
-            emit("return_to_lobby", { roomId, userId });
+            emit("return_to_lobby", { roomId });
         }
     }
 
@@ -100,7 +100,7 @@ export default function LobbyPage() {
 
         setIsJoining(true);
         try {
-            const res = await joinRoom(userName, roomCode, userId);
+            const res = await joinRoom(userName, roomCode);
             if (res.roomId !== roomId) {
                 setRoomId(res.roomId);
             }
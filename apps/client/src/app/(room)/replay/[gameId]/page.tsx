@@ -0,0 +1,50 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { GameData, GameReplay, PlayerData } from "@shared/types";
+import ReplayViewer from "@/components/games/ReplayViewer";
+import { GameSkeleton } from "@/components/skeletons";
+import { Button } from "@/components/ui/button";
+import { getGameReplay } from "@/services/replay";
+
+export default function ReplayPage() {
+    const { gameId }: { gameId: string } = useParams();
+    const router = useRouter();
+    const [replay, setReplay] = useState<GameReplay<
+        GameData,
+        PlayerData
+    > | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getGameReplay(gameId)
+            .then((data) => {
+                if (!cancelled) setReplay(data);
+            })
+            .catch((err: Error) => {
+                if (!cancelled) setError(err.message);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [gameId]);
+
+    if (error) {
+        return (
+            <main className="flex flex-col items-center justify-center min-h-screen gap-4 bg-zinc-50 dark:bg-zinc-950 p-4 text-center">
+                <p className="text-zinc-700 dark:text-zinc-300">{error}</p>
+                <Button variant="outline" onClick={() => router.push("/")}>
+                    Back to Home
+                </Button>
+            </main>
+        );
+    }
+
+    if (!replay) {
+        return <GameSkeleton />;
+    }
+
+    return <ReplayViewer replay={replay} />;
+}
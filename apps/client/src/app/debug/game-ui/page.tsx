@@ -29,6 +29,7 @@ import {
     DominoesData,
     DominoesPlayerData,
     Tile as TileType,
+    BoardSide,
 } from "@shared/types";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
@@ -336,7 +337,7 @@ interface DominoesDebugPanelProps {
     activePlayerIndex: number;
     selectedTile: TileType | null;
     onTileSelect: (tile: TileType | null) => void;
-    onPlaceTile: (side: "left" | "right") => void;
+    onPlaceTile: (side: BoardSide) => void;
     showDebugGrid: boolean;
 }
 
@@ -902,8 +903,15 @@ export default function GameUIDebugPage() {
     }, []);
 
     const handlePlaceTile = useCallback(
-        (side: "left" | "right") => {
-            if (!selectedTile || !dominoesGameData || !dominoesPlayerData)
+        (side: BoardSide) => {
+            // The debug board is a plain line without a spinner
+            if (
+                !selectedTile ||
+                !dominoesGameData ||
+                !dominoesPlayerData ||
+                side === "up" ||
+                side === "down"
+            )
                 return;
 
             // Remove tile from hand
@@ -524,28 +524,18 @@ export default function Home() {
         }
 
         setLoadingJoin(true);
-        // Pass existing userId from localStorage to maintain identity (important for kick enforcement)
-        const existingUserId = localStorage.getItem("userId") || undefined;
-
         try {
-            const res = await joinRoom(name, roomCode, existingUserId);
+            // Our session token (if any) keeps the same identity (important for kick enforcement)
+            const res = await joinRoom(name, roomCode);
             handleSuccess(res, name);
             toast.success("Joined room successfully!");
         } catch (err) {
             if (err instanceof PrivateRoomError) {
                 // Room is private - send a join request
-                const requesterId = existingUserId || crypto.randomUUID();
-                // Store the userId for when the request is accepted
-                if (!existingUserId) {
-                    localStorage.setItem("userId", requesterId);
-                }
-
-                const result = await sendJoinRequest(
-                    roomCode,
-                    requesterId,
-                    name
-                );
-                if (result.success) {
+                const result = await sendJoinRequest(roomCode, name);
+                if (result.success && result.requesterId) {
+                    // Our userId once the request is accepted
+                    setSessionData({ userId: result.requesterId });
                     setWaitingForApproval(true);
                     toast.info(
                         "This room is private. Your request has been sent to the room leader.",
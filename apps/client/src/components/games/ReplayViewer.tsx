@@ -0,0 +1,242 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+    ChevronLeft,
+    ChevronRight,
+    Pause,
+    Play,
+    SkipBack,
+    SkipForward,
+} from "lucide-react";
+import { GameData, GameReplay, PlayerData } from "@shared/types";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { getGameDisplayName, getReplayTable } from "./registry";
+
+/** Delay between steps while auto-playing */
+const AUTOPLAY_INTERVAL_MS = 1000;
+
+interface ReplayViewerProps {
+    replay: GameReplay<GameData, PlayerData>;
+}
+
+function getRound(gameState: GameData): number | undefined {
+    return (gameState as { round?: number }).round;
+}
+
+/**
+ * ReplayViewer - Steps through a finished game with every hand revealed.
+ *
+ * Renders the game's replay table for the current step, with controls to
+ * step forward and back, jump between hands (rounds) and auto-play.
+ */
+export default function ReplayViewer({ replay }: ReplayViewerProps) {
+    const { steps, players } = replay;
+    const lastIndex = steps.length - 1;
+    const [stepIndex, setStepIndex] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [viewerId, setViewerId] = useState<string>(
+        () => Object.keys(steps[0]?.playerStates ?? players)[0] ?? ""
+    );
+
+    const ReplayTable = getReplayTable(replay.gameType);
+    const step = steps[stepIndex];
+
+    // Step index where each hand (round) starts
+    const roundStarts = useMemo(
+        () =>
+            steps
+                .map((s, index) => ({ index, round: getRound(s.gameState) }))
+                .filter(
+                    ({ index, round }) =>
+                        index === 0 ||
+                        round !== getRound(steps[index - 1].gameState)
+                )
+                .map(({ index }) => index),
+        [steps]
+    );
+
+    const goTo = useCallback(
+        (index: number) =>
+            setStepIndex(Math.max(0, Math.min(lastIndex, index))),
+        [lastIndex]
+    );
+
+    const goToPreviousHand = useCallback(() => {
+        const start = [...roundStarts].reverse().find((i) => i < stepIndex);
+        goTo(start ?? 0);
+    }, [roundStarts, stepIndex, goTo]);
+
+    const goToNextHand = useCallback(() => {
+        const start = roundStarts.find((i) => i > stepIndex);
+        goTo(start ?? lastIndex);
+    }, [roundStarts, stepIndex, lastIndex, goTo]);
+
+    // Auto-play until the last step
+    useEffect(() => {
+        if (!isPlaying) return;
+        if (stepIndex >= lastIndex) {
+            setIsPlaying(false);
+            return;
+        }
+        const timer = setTimeout(
+            () => setStepIndex((i) => i + 1),
+            AUTOPLAY_INTERVAL_MS
+        );
+        return () => clearTimeout(timer);
+    }, [isPlaying, stepIndex, lastIndex]);
+
+    // Arrow keys step through the replay
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "ArrowLeft") goTo(stepIndex - 1);
+            if (e.key === "ArrowRight") goTo(stepIndex + 1);
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [stepIndex, goTo]);
+
+    if (!step) {
+        return (
+            <div className="flex h-screen items-center justify-center text-white/70">
+                This replay has no recorded steps.
+            </div>
+        );
+    }
+
+    if (!ReplayTable) {
+        return (
+            <div className="flex h-screen items-center justify-center text-white/70">
+                Replays aren&apos;t available for{" "}
+                {getGameDisplayName(replay.gameType)} yet.
+            </div>
+        );
+    }
+
+    const playerData =
+        step.playerStates[viewerId] ?? Object.values(step.playerStates)[0];
+    const actionLabel = step.action
+        ? `${players[step.action.userId]?.name ?? "Server"}: ${step.action.type
+              .toLowerCase()
+              .replace(/_/g, " ")}`
+        : "Opening deal";
+
+    return (
+        <div className="h-screen w-full overflow-hidden flex flex-col bg-slate-900">
+            <div className="flex-1 min-h-0">
+                <ReplayTable
+                    gameData={step.gameState}
+                    playerData={playerData}
+                    playerStates={step.playerStates}
+                />
+            </div>
+
+            {/* Playback controls */}
+            <div className="bg-slate-950/95 border-t border-white/10 text-white px-4 py-3">
+                <div className="max-w-4xl mx-auto flex flex-col gap-3">
+                    <div className="flex items-center justify-between gap-4 text-sm">
+                        <span className="font-medium">
+                            {getGameDisplayName(replay.gameType)} replay
+                        </span>
+                        <span className="text-white/70 truncate">
+                            {actionLabel}
+                        </span>
+                        <span className="text-white/50 tabular-nums">
+                            {stepIndex + 1} / {steps.length}
+                        </span>
+                    </div>
+
+                    <Slider
+                        value={[stepIndex]}
+                        min={0}
+                        max={lastIndex}
+                        step={1}
+                        onValueChange={([value]) => goTo(value)}
+                    />
+
+                    <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-1">
+                            <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={goToPreviousHand}
+                                disabled={stepIndex === 0}
+                                aria-label="Previous hand"
+                            >
+                                <SkipBack className="w-4 h-4" />
+                            </Button>
+                            <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => goTo(stepIndex - 1)}
+                                disabled={stepIndex === 0}
+                                aria-label="Previous step"
+                            >
+                                <ChevronLeft className="w-4 h-4" />
+                            </Button>
+                            <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => setIsPlaying((p) => !p)}
+                                disabled={stepIndex === lastIndex}
+                                aria-label={isPlaying ? "Pause" : "Play"}
+                            >
+                                {isPlaying ? (
+                                    <Pause className="w-4 h-4" />
+                                ) : (
+                                    <Play className="w-4 h-4" />
+                                )}
+                            </Button>
+                            <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => goTo(stepIndex + 1)}
+                                disabled={stepIndex === lastIndex}
+                                aria-label="Next step"
+                            >
+                                <ChevronRight className="w-4 h-4" />
+                            </Button>
+                            <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={goToNextHand}
+                                disabled={stepIndex === lastIndex}
+                                aria-label="Next hand"
+                            >
+                                <SkipForward className="w-4 h-4" />
+                            </Button>
+                        </div>
+
+                        {/* Seat the table is viewed from */}
+                        <Select value={viewerId} onValueChange={setViewerId}>
+                            <SelectTrigger className="w-44 bg-white/10 border-white/20">
+                                <SelectValue placeholder="View from..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {Object.keys(step.playerStates).map(
+                                    (playerId) => (
+                                        <SelectItem
+                                            key={playerId}
+                                            value={playerId}
+                                        >
+                                            {players[playerId]?.name ??
+                                                playerId}
+                                        </SelectItem>
+                                    )
+                                )}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
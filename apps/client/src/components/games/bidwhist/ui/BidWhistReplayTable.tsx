@@ -0,0 +1,36 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { BidWhistData, BidWhistPlayerData } from "@shared/types";
+import BidWhistGameTable from "./BidWhistGameTable";
+import type { ReplayTableProps } from "@/components/games/registry";
+
+/**
+ * BidWhistReplayTable - Read-only Bid Whist table for replays, with every hand face up.
+ */
+export default function BidWhistReplayTable({
+    gameData,
+    playerData,
+    playerStates,
+}: ReplayTableProps<BidWhistData, BidWhistPlayerData>) {
+    const revealedHands = useMemo(
+        () =>
+            Object.fromEntries(
+                Object.entries(playerStates).map(([playerId, state]) => [
+                    playerId,
+                    state.hand,
+                ])
+            ),
+        [playerStates]
+    );
+
+    return (
+        <BidWhistGameTable
+            gameData={gameData}
+            playerData={playerData}
+            isMyTurn={false}
+            onCardPlay={() => {}}
+            revealedHands={revealedHands}
+        />
+    );
+}
@@ -0,0 +1,118 @@
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Crown, ArrowUp, ArrowDown } from "lucide-react";
+import React from "react";
+import {
+    BidWhistBid,
+    BidWhistRanking,
+    PlayingCard,
+    STANDARD_SUITS,
+} from "@shared/types";
+import { DIRECTION_LABELS, SUIT_SYMBOLS, formatBid } from "./bids";
+
+const SUIT_COLORS: Record<PlayingCard["suit"], string> = {
+    Spades: "text-slate-100",
+    Hearts: "text-red-400",
+    Diamonds: "text-red-400",
+    Clubs: "text-slate-100",
+};
+
+export default function DeclareTrumpModal({
+    isOpen,
+    setIsOpen,
+    bid,
+    onDeclareTrump,
+    onDeclareRanking,
+    isSubmitting,
+}: {
+    isOpen: boolean;
+    setIsOpen: React.Dispatch<React.SetStateAction<boolean>>;
+    /** The winning bid - no-trump chooses a ranking instead of a suit */
+    bid: BidWhistBid;
+    onDeclareTrump: (trumpSuit: PlayingCard["suit"]) => void;
+    onDeclareRanking: (ranking: BidWhistRanking) => void;
+    isSubmitting?: boolean;
+}) {
+    const isNoTrump = bid.direction === "noTrump";
+
+    return (
+        <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogContent className="flex flex-col items-center gap-3 sm:gap-5 max-w-[95vw] sm:max-w-sm bg-slate-900 border-white/10 text-white p-3 sm:p-6">
+                <DialogTitle className="flex items-center gap-2 text-base sm:text-xl font-bold text-white">
+                    <Crown className="w-5 h-5 sm:w-6 sm:h-6 text-amber-400" />
+                    {isNoTrump ? "Uptown or Downtown?" : "Name Trump"}
+                </DialogTitle>
+
+                <DialogDescription className="text-xs sm:text-sm text-white/60 text-center -mt-1 sm:-mt-2">
+                    {isNoTrump
+                        ? `You won the bid at ${formatBid(bid)}. Choose whether high or low cards win.`
+                        : `You won the bid at ${formatBid(bid)}. The jokers are the two highest trumps.`}
+                </DialogDescription>
+
+                {isNoTrump ? (
+                    <div className="grid grid-cols-2 gap-2 w-full">
+                        {(["uptown", "downtown"] as BidWhistRanking[]).map(
+                            (ranking) => (
+                                <Button
+                                    key={ranking}
+                                    variant="outline"
+                                    onClick={() => {
+                                        onDeclareRanking(ranking);
+                                        setIsOpen(false);
+                                    }}
+                                    disabled={isSubmitting}
+                                    className="h-auto flex-col gap-1 py-3 rounded-xl border-white/20 bg-slate-800 text-white hover:bg-slate-700 hover:text-white"
+                                >
+                                    <span className="flex items-center gap-1 font-semibold">
+                                        {ranking === "uptown" ? (
+                                            <ArrowUp className="w-4 h-4" />
+                                        ) : (
+                                            <ArrowDown className="w-4 h-4" />
+                                        )}
+                                        {DIRECTION_LABELS[ranking]}
+                                    </span>
+                                    <span className="text-[10px] text-white/50">
+                                        {ranking === "uptown"
+                                            ? "A K Q ... 2"
+                                            : "A 2 3 ... K"}
+                                    </span>
+                                </Button>
+                            )
+                        )}
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-4 gap-2 w-full">
+                        {STANDARD_SUITS.map((suit) => (
+                            <Button
+                                key={suit}
+                                variant="outline"
+                                onClick={() => {
+                                    onDeclareTrump(suit);
+                                    setIsOpen(false);
+                                }}
+                                disabled={isSubmitting}
+                                aria-label={`${suit} trump`}
+                                className={`h-14 text-3xl rounded-xl border-white/20 bg-slate-800 hover:bg-slate-700 ${SUIT_COLORS[suit]}`}
+                            >
+                                {SUIT_SYMBOLS[suit]}
+                            </Button>
+                        ))}
+                    </div>
+                )}
+
+                <Button
+                    variant="ghost"
+                    className="w-full h-8 sm:h-10 text-sm text-white/60 hover:text-white hover:bg-white/10"
+                    onClick={() => setIsOpen(false)}
+                >
+                    Hide
+                </Button>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,245 @@
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { motion } from "motion/react";
+import { Target, ArrowUp, ArrowDown, Ban } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import {
+    BidWhistBid,
+    BidWhistBidDirection,
+    BID_WHIST_BOOK_TRICKS,
+    BID_WHIST_MAX_BID,
+} from "@shared/types";
+import { isHigherBid } from "@shared/validation";
+import { DIRECTION_LABELS, formatBid } from "./bids";
+
+const DIRECTIONS: {
+    direction: BidWhistBidDirection;
+    icon: React.ReactNode;
+    hint: string;
+}[] = [
+    {
+        direction: "uptown",
+        icon: <ArrowUp className="w-4 h-4" />,
+        hint: "Ace high",
+    },
+    {
+        direction: "downtown",
+        icon: <ArrowDown className="w-4 h-4" />,
+        hint: "Low cards high",
+    },
+    {
+        direction: "noTrump",
+        icon: <Ban className="w-4 h-4" />,
+        hint: "No trump suit",
+    },
+];
+
+/**
+ * The cheapest bid that beats the high bid, if any can.
+ */
+function getOpeningBid(
+    minimumBid: number,
+    highBid: BidWhistBid | null
+): BidWhistBid | null {
+    for (let amount = minimumBid; amount <= BID_WHIST_MAX_BID; amount++) {
+        for (const { direction } of DIRECTIONS) {
+            const bid = { amount, direction };
+            if (isHigherBid(bid, highBid)) return bid;
+        }
+    }
+    return null;
+}
+
+export default function PlaceBidModal({
+    bidModalOpen,
+    setBidModalOpen,
+    minimumBid,
+    highBid,
+    canPass,
+    onBid,
+    onPass,
+    isSubmitting,
+}: {
+    bidModalOpen: boolean;
+    setBidModalOpen: React.Dispatch<React.SetStateAction<boolean>>;
+    /** Fewest books over six anyone may bid (a game setting) */
+    minimumBid: number;
+    /** The bid to beat, or null if nobody has bid yet */
+    highBid: BidWhistBid | null;
+    /** False for the dealer once everyone else has passed */
+    canPass: boolean;
+    onBid: (bid: BidWhistBid) => void;
+    onPass: () => void;
+    isSubmitting?: boolean;
+}) {
+    const [bid, setBid] = useState<BidWhistBid | null>(() =>
+        getOpeningBid(minimumBid, highBid)
+    );
+
+    // Start from the cheapest legal bid whenever the high bid changes
+    useEffect(() => {
+        setBid(getOpeningBid(minimumBid, highBid));
+    }, [minimumBid, highBid]);
+
+    const amounts = Array.from(
+        { length: BID_WHIST_MAX_BID - minimumBid + 1 },
+        (_, i) => minimumBid + i
+    );
+    const canSubmit = !!bid && isHigherBid(bid, highBid);
+
+    return (
+        <Dialog open={bidModalOpen} onOpenChange={setBidModalOpen}>
+            <DialogContent className="flex flex-col items-center gap-3 sm:gap-5 max-w-[95vw] sm:max-w-sm max-h-[85vh] sm:max-h-[90vh] overflow-y-auto bg-slate-900 border-white/10 text-white p-3 sm:p-6">
+                <DialogTitle className="flex items-center gap-2 text-base sm:text-xl font-bold text-white">
+                    <Target className="w-5 h-5 sm:w-6 sm:h-6 text-amber-400" />
+                    Bid for the Kitty
+                </DialogTitle>
+
+                <DialogDescription className="text-xs sm:text-sm text-white/60 text-center -mt-1 sm:-mt-2">
+                    {highBid
+                        ? `Beat ${formatBid(highBid)}, or pass.`
+                        : "How many books over six can your team take?"}
+                </DialogDescription>
+
+                {/* Books over six */}
+                <div className="flex-col justify-center items-center text-white/70 space-y-1 sm:space-y-2">
+                    <p className="text-center text-xs sm:text-base">Books</p>
+                    <div
+                        className="flex gap-1.5 sm:gap-2 flex-wrap justify-center"
+                        role="group"
+                        aria-label="Books to bid"
+                    >
+                        {amounts.map((amount) => {
+                            const isSelected = bid?.amount === amount;
+                            const isPossible = DIRECTIONS.some(
+                                ({ direction }) =>
+                                    isHigherBid({ amount, direction }, highBid)
+                            );
+                            return (
+                                <Button
+                                    key={amount}
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => {
+                                        // Keep the direction when it still beats the high bid
+                                        const same = bid && {
+                                            amount,
+                                            direction: bid.direction,
+                                        };
+                                        setBid(
+                                            same && isHigherBid(same, highBid)
+                                                ? same
+                                                : getOpeningBid(amount, highBid)
+                                        );
+                                    }}
+                                    disabled={!isPossible}
+                                    aria-pressed={isSelected}
+                                    aria-label={`Bid ${amount} books`}
+                                    className={`h-9 w-9 sm:h-10 sm:w-10 rounded-full text-sm sm:text-base ${
+                                        isSelected
+                                            ? "bg-amber-500/30 text-amber-400"
+                                            : "text-white/60 hover:text-white hover:bg-white/10"
+                                    }`}
+                                >
+                                    {amount}
+                                </Button>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                {/* Uptown, downtown or no-trump */}
+                <div className="grid grid-cols-3 gap-2 w-full">
+                    {DIRECTIONS.map(({ direction, icon, hint }) => {
+                        const amount = bid?.amount ?? minimumBid;
+                        const isSelected = bid?.direction === direction;
+                        return (
+                            <Button
+                                key={direction}
+                                variant="outline"
+                                onClick={() => setBid({ amount, direction })}
+                                disabled={
+                                    !isHigherBid({ amount, direction }, highBid)
+                                }
+                                aria-pressed={isSelected}
+                                className={`h-auto flex-col gap-0.5 py-2 rounded-xl text-xs sm:text-sm ${
+                                    isSelected
+                                        ? "bg-amber-500/30 border-amber-400 text-amber-300 hover:bg-amber-500/40 hover:text-amber-200"
+                                        : "border-white/20 bg-slate-800 text-white/80 hover:bg-slate-700 hover:text-white"
+                                }`}
+                            >
+                                <span className="flex items-center gap-1 font-semibold">
+                                    {icon}
+                                    {DIRECTION_LABELS[direction]}
+                                </span>
+                                <span className="text-[10px] text-white/50">
+                                    {hint}
+                                </span>
+                            </Button>
+                        );
+                    })}
+                </div>
+
+                {bid && (
+                    <motion.div
+                        key={formatBid(bid)}
+                        initial={{ scale: 1.1 }}
+                        animate={{ scale: 1 }}
+                        className="px-5 py-2 rounded-xl bg-gradient-to-br from-amber-500 to-orange-600 shadow-lg text-center"
+                    >
+                        <div className="text-xl sm:text-2xl font-bold text-white">
+                            {formatBid(bid)}
+                        </div>
+                        <div className="text-xs text-white/80">
+                            Take {BID_WHIST_BOOK_TRICKS + bid.amount} books
+                            (kitty counts as one)
+                        </div>
+                    </motion.div>
+                )}
+
+                <Button
+                    className="mt-1 w-full h-10 sm:h-12 text-sm sm:text-base font-semibold rounded-xl bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 text-white shadow-lg"
+                    onClick={() => {
+                        if (!bid) return;
+                        onBid(bid);
+                        setBidModalOpen(false);
+                    }}
+                    disabled={isSubmitting || !canSubmit}
+                >
+                    {isSubmitting ? "Submitting..." : "Submit Bid"}
+                </Button>
+
+                {canPass ? (
+                    <Button
+                        variant="outline"
+                        className="w-full h-10 text-sm font-semibold rounded-xl border-white/20 bg-transparent text-white/80 hover:bg-white/10 hover:text-white"
+                        onClick={() => {
+                            onPass();
+                            setBidModalOpen(false);
+                        }}
+                        disabled={isSubmitting}
+                    >
+                        Pass
+                    </Button>
+                ) : (
+                    <p className="text-xs text-amber-300/80 text-center">
+                        Everyone else passed - the dealer has to bid.
+                    </p>
+                )}
+
+                <Button
+                    variant="ghost"
+                    className="w-full h-8 sm:h-10 text-sm text-white/60 hover:text-white hover:bg-white/10"
+                    onClick={() => setBidModalOpen(false)}
+                >
+                    Hide
+                </Button>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,43 @@
+// src/components/games/bidwhist/ui/bids.ts
+// Bid and trump labels shared by the bid whist panels
+
+import {
+    BidWhistBid,
+    BidWhistBidDirection,
+    BidWhistData,
+    PlayingCard,
+} from "@shared/types";
+
+export const DIRECTION_LABELS: Record<BidWhistBidDirection, string> = {
+    uptown: "Uptown",
+    downtown: "Downtown",
+    noTrump: "No Trump",
+};
+
+export const SUIT_SYMBOLS: Record<PlayingCard["suit"], string> = {
+    Spades: "♠",
+    Hearts: "♥",
+    Diamonds: "♦",
+    Clubs: "♣",
+};
+
+/**
+ * "4 Uptown", "5 No Trump".
+ */
+export function formatBid(bid: BidWhistBid): string {
+    return `${bid.amount} ${DIRECTION_LABELS[bid.direction]}`;
+}
+
+/**
+ * What the hand is being played as once trump is declared, e.g.
+ * "♥ Uptown" or "No Trump Downtown".
+ */
+export function formatDeclaration(
+    gameData: Pick<BidWhistData, "trumpSuit" | "ranking">
+): string | null {
+    if (!gameData.ranking) return null;
+    const trump = gameData.trumpSuit
+        ? SUIT_SYMBOLS[gameData.trumpSuit]
+        : "No Trump";
+    return `${trump} ${DIRECTION_LABELS[gameData.ranking]}`;
+}
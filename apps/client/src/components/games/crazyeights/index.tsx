@@ -0,0 +1,160 @@
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import React, { useCallback } from "react";
+import { useSession } from "@/contexts/SessionContext";
+import CrazyEightsGameTable from "./ui/CrazyEightsGameTable";
+import {
+    GameScoreboard,
+    GameMenu,
+    GameSettingToggle,
+    useGameSetting,
+    UndoControls,
+} from "@/components/games/shared";
+import {
+    CrazyEightsData,
+    CrazyEightsPlayerData,
+    PlayingCard,
+} from "@shared/types";
+import RoundSummaryModal from "./ui/RoundSummaryModal";
+import GameSummaryModal from "./ui/GameSummaryModal";
+import { Lightbulb } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+
+export default function CrazyEights({
+    gameData,
+    playerData,
+    dispatchOptimisticAction,
+    roomCode,
+}: {
+    gameData: CrazyEightsData;
+    playerData: CrazyEightsPlayerData;
+    dispatchOptimisticAction?: (type: string, payload: unknown) => void;
+    roomCode?: string;
+}) {
+    const { socket, connected } = useWebSocket();
+    const { roomId, userId } = useSession();
+
+    const sendGameAction = React.useCallback(
+        (type: string, payload: unknown) => {
+            // Use optimistic action dispatcher if available, otherwise fallback to direct emit
+            if (dispatchOptimisticAction) {
+                dispatchOptimisticAction(type, payload);
+            } else {
+                if (!socket || !connected) return;
+                const action = {
+                    type,
+                    payload,
+                    expectedVersion: gameData.version,
+                };
+                socket.emit("game_action", { roomId, action });
+            }
+        },
+        [dispatchOptimisticAction, socket, connected, gameData.version, roomId]
+    );
+
+    // For non-player system actions (CONTINUE_AFTER_ROUND_SUMMARY)
+    // These don't need optimistic updates and shouldn't block player actions
+    const sendSystemAction = React.useCallback(
+        (type: string, payload: unknown) => {
+            if (!socket || !connected) return;
+            const action = {
+                type,
+                payload,
+                // Acked like optimistic actions, so a failure isn't silent
+                actionId: `${userId}-${uuidv4()}`,
+                expectedVersion: gameData.version,
+            };
+            socket.emit("game_action", { roomId, action });
+        },
+        [socket, connected, gameData.version, roomId, userId]
+    );
+
+    const isMyTurn = gameData.playOrder[gameData.currentTurnIndex] === userId;
+    const isLeader = userId === gameData.leaderId;
+    const showHints = useGameSetting("crazyeights.showHints", false);
+
+    function handleReturnToLobby() {
+        if (!socket || !connected) return;
+        socket.emit("abort_game", { roomId });
+    }
+
+    const handleCardPlay = useCallback(
+        (card: PlayingCard, suit?: PlayingCard["suit"]) => {
+            if (!isMyTurn) return;
+            sendGameAction("PLAY_CARD", { card, suit });
+        },
+        [isMyTurn, sendGameAction]
+    );
+
+    const handleDraw = useCallback(() => {
+        if (!isMyTurn) return;
+        sendGameAction("DRAW_CARD", {});
+    }, [isMyTurn, sendGameAction]);
+
+    const handlePass = useCallback(() => {
+        if (!isMyTurn) return;
+        sendGameAction("PASS", {});
+    }, [isMyTurn, sendGameAction]);
+
+    // Every player scores alone
+    const playerScores = gameData.playOrder.map((playerId) => {
+        const name = gameData.players[playerId]?.name || playerId;
+        return {
+            teamId: playerId,
+            teamName: name,
+            players: [name],
+            score: gameData.scores[playerId] ?? 0,
+        };
+    });
+
+    return (
+        <div className="h-screen w-full overflow-hidden">
+            <CrazyEightsGameTable
+                gameData={gameData}
+                playerData={playerData}
+                isMyTurn={isMyTurn}
+                onCardPlay={handleCardPlay}
+                onDraw={handleDraw}
+                onPass={handlePass}
+                showHints={showHints}
+            />
+
+            {/* Game Menu */}
+            <GameMenu isLeader={isLeader} roomCode={roomCode || roomId}>
+                <GameSettingToggle
+                    storageKey="crazyeights.showHints"
+                    label="Show Valid Moves"
+                    icon={<Lightbulb className="h-4 w-4" />}
+                    defaultValue={false}
+                />
+            </GameMenu>
+
+            {/* Scoreboard */}
+            <GameScoreboard
+                teams={playerScores}
+                round={gameData.round}
+                phase={gameData.phase}
+                winTarget={gameData.settings?.winTarget}
+            />
+
+            {/* Take back the last play */}
+            <UndoControls
+                players={gameData.players}
+                undoPlayerId={gameData.undoPlayerId}
+                undoRequest={gameData.undoRequest}
+                sendGameAction={sendGameAction}
+            />
+
+            {/* Round Summary Modal */}
+            <RoundSummaryModal
+                gameData={gameData}
+                sendGameAction={sendSystemAction}
+            />
+
+            {/* Game Summary Modal */}
+            <GameSummaryModal
+                gameData={gameData}
+                onReturnToLobby={handleReturnToLobby}
+            />
+        </div>
+    );
+}
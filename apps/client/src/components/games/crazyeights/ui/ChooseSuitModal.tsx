@@ -0,0 +1,68 @@
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Sparkles } from "lucide-react";
+import React from "react";
+import { PlayingCard as PlayingCardType, STANDARD_SUITS } from "@shared/types";
+import { PlayingCard } from "@/components/games/shared";
+import { SUIT_COLORS, SUIT_SYMBOLS } from "./suits";
+
+export default function ChooseSuitModal({
+    eight,
+    onChooseSuit,
+    onCancel,
+}: {
+    /** The eight being played - the modal is open while one is set */
+    eight: PlayingCardType | null;
+    onChooseSuit: (suit: PlayingCardType["suit"]) => void;
+    onCancel: () => void;
+}) {
+    return (
+        <Dialog
+            open={eight !== null}
+            onOpenChange={(open) => {
+                if (!open) onCancel();
+            }}
+        >
+            <DialogContent className="flex flex-col items-center gap-3 sm:gap-5 max-w-[95vw] sm:max-w-sm bg-slate-900 border-white/10 text-white p-3 sm:p-6">
+                <DialogTitle className="flex items-center gap-2 text-base sm:text-xl font-bold text-white">
+                    <Sparkles className="w-5 h-5 sm:w-6 sm:h-6 text-amber-400" />
+                    Crazy Eight!
+                </DialogTitle>
+
+                <DialogDescription className="text-xs sm:text-sm text-white/60 text-center -mt-1 sm:-mt-2">
+                    Eights are wild. Name the suit the next player has to
+                    follow.
+                </DialogDescription>
+
+                {eight && <PlayingCard card={eight} size="md" />}
+
+                <div className="grid grid-cols-4 gap-2 w-full">
+                    {STANDARD_SUITS.map((suit) => (
+                        <Button
+                            key={suit}
+                            variant="outline"
+                            onClick={() => onChooseSuit(suit)}
+                            aria-label={`Name ${suit}`}
+                            className={`h-14 text-3xl rounded-xl border-white/20 bg-slate-800 hover:bg-slate-700 ${SUIT_COLORS[suit]}`}
+                        >
+                            {SUIT_SYMBOLS[suit]}
+                        </Button>
+                    ))}
+                </div>
+
+                <Button
+                    variant="ghost"
+                    className="w-full h-8 sm:h-10 text-sm text-white/60 hover:text-white hover:bg-white/10"
+                    onClick={onCancel}
+                >
+                    Cancel
+                </Button>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,449 @@
+"use client";
+
+import React, {
+    useState,
+    useCallback,
+    useEffect,
+    useRef,
+    useMemo,
+} from "react";
+import { motion, AnimatePresence, LayoutGroup } from "motion/react";
+import { toast } from "sonner";
+import {
+    CrazyEightsData,
+    CrazyEightsPlayerData,
+    PlayingCard as PlayingCardType,
+} from "@shared/types";
+import {
+    GameTable,
+    TableCenter,
+    EdgeRegion,
+    CardHand,
+    CardDeck,
+    PlayerInfo,
+    PlayingCard,
+    ActionConfirmationBar,
+    getEdgeSeat,
+} from "@/components/games/shared";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { canPlayCrazyEightsCard, isWildEight } from "@shared/validation";
+import { useTurnTimer } from "@/hooks";
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import { playTimerStartSound, initializeAudioOnInteraction } from "@/lib/audio";
+import ChooseSuitModal from "./ChooseSuitModal";
+import { SUIT_COLORS, SUIT_SYMBOLS, describeEffect } from "./suits";
+
+interface CrazyEightsGameTableProps {
+    gameData: CrazyEightsData;
+    playerData: CrazyEightsPlayerData;
+    isMyTurn: boolean;
+    /** Plays a card, naming a suit when it's an eight */
+    onCardPlay: (card: PlayingCardType, suit?: PlayingCardType["suit"]) => void;
+    onDraw: () => void;
+    onPass: () => void;
+    showHints?: boolean;
+    /** Every player's hand, shown face up (replays) */
+    revealedHands?: Record<string, PlayingCardType[]>;
+}
+
+function CrazyEightsGameTable({
+    gameData,
+    playerData,
+    isMyTurn,
+    onCardPlay,
+    onDraw,
+    onPass,
+    showHints = false,
+    revealedHands,
+}: CrazyEightsGameTableProps) {
+    const [selectedCardIndex, setSelectedCardIndex] = useState<number | null>(
+        null
+    );
+    const [pendingEight, setPendingEight] = useState<PlayingCardType | null>(
+        null
+    );
+    const [isHeroHandSpread, setIsHeroHandSpread] = useState(false);
+    const { clockOffset } = useWebSocket();
+
+    const localOrdering = playerData.localOrdering || gameData.playOrder;
+    const playerCount = localOrdering.length;
+    const hand = useMemo(() => playerData.hand || [], [playerData.hand]);
+    const currentPlayerId = gameData.playOrder[gameData.currentTurnIndex];
+    const isPlaying = gameData.phase === "playing";
+    const canAct = isMyTurn && isPlaying;
+
+    // Initialize audio on first user interaction
+    useEffect(() => {
+        initializeAudioOnInteraction();
+    }, []);
+
+    // Turn timer - only play the audio cue on the local player's turn
+    const turnTimeLimit = gameData.settings?.turnTimeLimit ?? 0;
+    const isMyTurnRef = useRef(isMyTurn);
+    useEffect(() => {
+        isMyTurnRef.current = isMyTurn;
+    }, [isMyTurn]);
+
+    const handleTimerStart = useCallback(() => {
+        if (isMyTurnRef.current) {
+            playTimerStartSound();
+        }
+    }, []);
+
+    const { isActive: timerIsActive } = useTurnTimer(
+        gameData.turnTimer,
+        clockOffset,
+        handleTimerStart
+    );
+
+    const timerProps = useMemo(() => {
+        if (
+            turnTimeLimit <= 0 ||
+            !isPlaying ||
+            !timerIsActive ||
+            !gameData.turnTimer?.startedAt
+        ) {
+            return undefined;
+        }
+        return {
+            totalMs: turnTimeLimit * 1000,
+            startedAt: gameData.turnTimer.startedAt,
+            clockOffset,
+        };
+    }, [
+        turnTimeLimit,
+        isPlaying,
+        timerIsActive,
+        gameData.turnTimer?.startedAt,
+        clockOffset,
+    ]);
+
+    // Cards that can't go on the discard pile
+    const unplayableIndices = useMemo(
+        () =>
+            hand.flatMap((card, index) =>
+                canPlayCrazyEightsCard(
+                    card,
+                    gameData.topCard,
+                    gameData.currentSuit
+                )
+                    ? []
+                    : [index]
+            ),
+        [hand, gameData.topCard, gameData.currentSuit]
+    );
+
+    const disabledCardIndices = showHints && canAct ? unplayableIndices : [];
+
+    // Nothing to play: draw until something goes, then pass once both piles
+    // are spent (the discards under the top card are reshuffled to draw)
+    const hasNoMove = canAct && unplayableIndices.length === hand.length;
+    const mustDraw =
+        hasNoMove && (gameData.drawPileCount > 0 || gameData.discardCount > 1);
+    const mustPass = hasNoMove && !mustDraw;
+
+    // An eight asks for a suit before it's played
+    const playCard = useCallback(
+        (card: PlayingCardType) => {
+            setSelectedCardIndex(null);
+            setIsHeroHandSpread(false);
+            if (isWildEight(card)) {
+                setPendingEight(card);
+            } else {
+                onCardPlay(card);
+            }
+        },
+        [onCardPlay]
+    );
+
+    // Handle card selection (two-step: select, then confirm)
+    const handleCardSelect = useCallback(
+        (index: number, card: PlayingCardType) => {
+            if (selectedCardIndex === index) {
+                playCard(card);
+            } else {
+                setSelectedCardIndex(index);
+            }
+        },
+        [selectedCardIndex, playCard]
+    );
+
+    // Handle play button click
+    const handlePlayCard = useCallback(() => {
+        if (selectedCardIndex !== null && hand[selectedCardIndex]) {
+            playCard(hand[selectedCardIndex]);
+        }
+    }, [selectedCardIndex, hand, playCard]);
+
+    const handleChooseSuit = useCallback(
+        (suit: PlayingCardType["suit"]) => {
+            if (pendingEight) {
+                onCardPlay(pendingEight, suit);
+            }
+            setPendingEight(null);
+        },
+        [pendingEight, onCardPlay]
+    );
+
+    // Handle cancel selection
+    const handleCancelSelection = useCallback(() => {
+        setSelectedCardIndex(null);
+        setPendingEight(null);
+    }, []);
+
+    // Reset selections when the turn, phase or round changes
+    useEffect(() => {
+        setSelectedCardIndex(null);
+        setPendingEight(null);
+        setIsHeroHandSpread(false);
+    }, [gameData.currentTurnIndex, gameData.phase, gameData.round]);
+
+    // Show toast when it's the player's turn
+    useEffect(() => {
+        if (!canAct) return;
+        if (mustDraw) {
+            toast.warning("No playable cards — draw from the pile", {
+                id: "crazyeights-your-turn",
+                duration: 4000,
+            });
+        } else if (mustPass) {
+            toast.warning("No playable cards and nothing to draw — pass", {
+                id: "crazyeights-your-turn",
+                duration: 4000,
+            });
+        } else {
+            toast.info("Your turn! Match the suit or rank, or play an eight", {
+                id: "crazyeights-your-turn",
+                duration: 4000,
+                dismissible: true,
+            });
+        }
+    }, [canAct, mustDraw, mustPass, gameData.currentTurnIndex]);
+
+    // Handle table click to collapse spread hands
+    const handleTableClick = useCallback(() => {
+        if (isHeroHandSpread) {
+            setIsHeroHandSpread(false);
+        }
+    }, [isHeroHandSpread]);
+
+    const effectMessage = describeEffect(gameData);
+    // The named suit only needs calling out when an eight is on top
+    const isSuitNamed = isWildEight(gameData.topCard);
+
+    return (
+        <div className="h-full w-full">
+            <LayoutGroup>
+                <GameTable
+                    playerCount={playerCount}
+                    isDealing={false}
+                    feltGradient="from-sky-900 via-cyan-800 to-teal-900"
+                    onTableClick={handleTableClick}
+                >
+                    {/* Player Edge Regions */}
+                    {localOrdering.map((playerId, index) => {
+                        const isLocal = index === 0;
+                        const player = gameData.players[playerId];
+                        const isCurrentTurn = currentPlayerId === playerId;
+                        const seat = getEdgeSeat(index, playerCount);
+                        const cardCount = gameData.handsCounts[playerId] ?? 0;
+
+                        return (
+                            <EdgeRegion
+                                key={playerId}
+                                position={seat.position}
+                                isHero={isLocal}
+                                className={seat.className}
+                            >
+                                <PlayerInfo
+                                    playerId={playerId}
+                                    playerName={player?.name || "Unknown"}
+                                    isCurrentTurn={isCurrentTurn && isPlaying}
+                                    isLocalPlayer={isLocal}
+                                    seatPosition={seat.position}
+                                    connected={player?.isConnected !== false}
+                                    turnTimer={
+                                        isCurrentTurn ? timerProps : undefined
+                                    }
+                                    customStats={() => (
+                                        <div className="flex gap-1 items-center">
+                                            <Badge
+                                                variant="outline"
+                                                className="text-[10px] px-1.5 py-0 bg-black/30 border-white/20 text-white/80"
+                                            >
+                                                Score:{" "}
+                                                {gameData.scores[playerId] ?? 0}
+                                            </Badge>
+                                            {cardCount === 1 && isPlaying && (
+                                                <Badge className="text-[10px] px-1.5 py-0 bg-amber-500 text-amber-950 border-amber-300">
+                                                    LAST CARD
+                                                </Badge>
+                                            )}
+                                        </div>
+                                    )}
+                                />
+                                <CardHand
+                                    cards={
+                                        isLocal
+                                            ? hand
+                                            : (revealedHands?.[playerId] ?? [])
+                                    }
+                                    cardCount={cardCount}
+                                    isLocalPlayer={isLocal}
+                                    revealCards={!!revealedHands}
+                                    interactive={isLocal && canAct}
+                                    selectedIndex={
+                                        isLocal ? selectedCardIndex : null
+                                    }
+                                    disabledIndices={
+                                        isLocal ? disabledCardIndices : []
+                                    }
+                                    onCardClick={
+                                        isLocal ? handleCardSelect : undefined
+                                    }
+                                    playerId={playerId}
+                                    isSpreadControlled={
+                                        isLocal ? isHeroHandSpread : undefined
+                                    }
+                                    onSpreadChange={
+                                        isLocal
+                                            ? setIsHeroHandSpread
+                                            : undefined
+                                    }
+                                />
+                            </EdgeRegion>
+                        );
+                    })}
+
+                    {/* Center Area - draw and discard piles */}
+                    <TableCenter className="flex flex-col items-center gap-4">
+                        {/* Round and direction of play */}
+                        <div className="bg-black/30 backdrop-blur-sm rounded-full px-4 py-1">
+                            <span className="text-white/80 text-sm font-medium">
+                                Round {gameData.round} •{" "}
+                                {gameData.direction === 1
+                                    ? "↻ Clockwise"
+                                    : "↺ Counter-clockwise"}
+                            </span>
+                        </div>
+
+                        <div className="flex items-end gap-6">
+                            {/* Draw pile */}
+                            <div className="flex flex-col items-center gap-1">
+                                {gameData.drawPileCount > 0 ? (
+                                    <CardDeck
+                                        cardCount={gameData.drawPileCount}
+                                    />
+                                ) : (
+                                    <div className="w-[52px] h-[73px] rounded-lg border-2 border-dashed border-white/20" />
+                                )}
+                                <span className="text-white/60 text-xs">
+                                    Draw: {gameData.drawPileCount}
+                                </span>
+                            </div>
+
+                            {/* Discard pile */}
+                            <div className="flex flex-col items-center gap-1">
+                                <AnimatePresence mode="popLayout">
+                                    <motion.div
+                                        key={`${gameData.topCard.suit}-${gameData.topCard.rank}-${gameData.discardCount}`}
+                                        initial={{
+                                            opacity: 0,
+                                            scale: 0.8,
+                                            y: -20,
+                                        }}
+                                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                                        exit={{ opacity: 0 }}
+                                        transition={{
+                                            type: "spring",
+                                            stiffness: 300,
+                                            damping: 25,
+                                        }}
+                                    >
+                                        <PlayingCard
+                                            card={gameData.topCard}
+                                            size="md"
+                                        />
+                                    </motion.div>
+                                </AnimatePresence>
+                                <span className="text-white/60 text-xs">
+                                    Discards: {gameData.discardCount}
+                                </span>
+                            </div>
+                        </div>
+
+                        {/* Suit named for an eight */}
+                        {isSuitNamed && (
+                            <div className="flex items-center gap-2 bg-black/40 backdrop-blur-sm rounded-full px-4 py-1">
+                                <span className="text-white/80 text-sm">
+                                    Suit to follow
+                                </span>
+                                <span
+                                    className={`text-2xl leading-none ${SUIT_COLORS[gameData.currentSuit]}`}
+                                >
+                                    {SUIT_SYMBOLS[gameData.currentSuit]}
+                                </span>
+                            </div>
+                        )}
+
+                        {/* What the last action card did */}
+                        <AnimatePresence>
+                            {effectMessage && isPlaying && (
+                                <motion.div
+                                    key={`${gameData.discardCount}-${effectMessage}`}
+                                    className="bg-amber-500/90 backdrop-blur-sm rounded-xl px-5 py-2 shadow-lg"
+                                    initial={{ opacity: 0, scale: 0.8, y: 20 }}
+                                    animate={{ opacity: 1, scale: 1, y: 0 }}
+                                    exit={{ opacity: 0, scale: 0.8, y: -20 }}
+                                    transition={{
+                                        type: "spring",
+                                        stiffness: 300,
+                                        damping: 25,
+                                    }}
+                                >
+                                    <span className="text-amber-950 font-semibold text-sm">
+                                        {effectMessage}
+                                    </span>
+                                </motion.div>
+                            )}
+                        </AnimatePresence>
+
+                        {/* Draw or pass when nothing can be played */}
+                        {mustDraw && (
+                            <Button onClick={onDraw} className="shadow-lg">
+                                Draw a Card
+                            </Button>
+                        )}
+                        {mustPass && (
+                            <Button
+                                variant="destructive"
+                                onClick={onPass}
+                                className="shadow-lg"
+                            >
+                                Pass (No Moves)
+                            </Button>
+                        )}
+                    </TableCenter>
+                </GameTable>
+            </LayoutGroup>
+
+            {/* Play card confirmation bar */}
+            <ActionConfirmationBar
+                isVisible={selectedCardIndex !== null && canAct}
+                onConfirm={handlePlayCard}
+                onCancel={handleCancelSelection}
+                confirmLabel="Play Card"
+            />
+
+            {/* Name a suit for an eight */}
+            <ChooseSuitModal
+                eight={pendingEight}
+                onChooseSuit={handleChooseSuit}
+                onCancel={handleCancelSelection}
+            />
+        </div>
+    );
+}
+
+export default CrazyEightsGameTable;
@@ -0,0 +1,38 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { CrazyEightsData, CrazyEightsPlayerData } from "@shared/types";
+import CrazyEightsGameTable from "./CrazyEightsGameTable";
+import type { ReplayTableProps } from "@/components/games/registry";
+
+/**
+ * CrazyEightsReplayTable - Read-only Crazy Eights table for replays, with every hand face up.
+ */
+export default function CrazyEightsReplayTable({
+    gameData,
+    playerData,
+    playerStates,
+}: ReplayTableProps<CrazyEightsData, CrazyEightsPlayerData>) {
+    const revealedHands = useMemo(
+        () =>
+            Object.fromEntries(
+                Object.entries(playerStates).map(([playerId, state]) => [
+                    playerId,
+                    state.hand,
+                ])
+            ),
+        [playerStates]
+    );
+
+    return (
+        <CrazyEightsGameTable
+            gameData={gameData}
+            playerData={playerData}
+            isMyTurn={false}
+            onCardPlay={() => {}}
+            onDraw={() => {}}
+            onPass={() => {}}
+            revealedHands={revealedHands}
+        />
+    );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { useSession } from "@/contexts/SessionContext";
+import { CrazyEightsData } from "@shared/types";
+import { motion, AnimatePresence } from "motion/react";
+import { Trophy, Crown, Home, History } from "lucide-react";
+import React from "react";
+
+export default function GameSummaryModal({
+    gameData,
+    onReturnToLobby,
+}: {
+    gameData: CrazyEightsData;
+    onReturnToLobby: () => void;
+}) {
+    const { userId } = useSession();
+    const isLeader = userId === gameData.leaderId;
+    const isOpen = gameData.phase === "finished";
+
+    // Highest score first
+    const standings = [...gameData.playOrder].sort(
+        (a, b) => (gameData.scores[b] ?? 0) - (gameData.scores[a] ?? 0)
+    );
+    const winnerIds = gameData.winnerIds ?? standings.slice(0, 1);
+    const isWinner = winnerIds.includes(userId);
+
+    return (
+        <Dialog open={isOpen}>
+            <DialogContent className="flex flex-col items-center gap-4 sm:gap-6 max-w-[95vw] sm:max-w-lg max-h-[85vh] sm:max-h-[90vh] overflow-y-auto bg-slate-900 border-white/10 text-white p-4 sm:p-8">
+                {/* Hidden but accessible title for screen readers */}
+                <DialogTitle className="sr-only">Game Over</DialogTitle>
+                <AnimatePresence>
+                    {isOpen && (
+                        <>
+                            {/* Celebration Header */}
+                            <motion.div
+                                initial={{ opacity: 0, scale: 0.8, y: -20 }}
+                                animate={{ opacity: 1, scale: 1, y: 0 }}
+                                transition={{
+                                    type: "spring",
+                                    stiffness: 200,
+                                    damping: 15,
+                                }}
+                                className="flex flex-col items-center gap-3"
+                            >
+                                <Trophy className="w-12 h-12 sm:w-16 sm:h-16 text-amber-400" />
+                                <p
+                                    className="text-2xl sm:text-3xl font-bold text-center"
+                                    aria-hidden="true"
+                                >
+                                    Game Over!
+                                </p>
+                                <p className="text-lg text-white/70">
+                                    {isWinner
+                                        ? "🎉 Congratulations! You won! 🎉"
+                                        : "Better luck next time!"}
+                                </p>
+                            </motion.div>
+
+                            {/* Final Standings */}
+                            <div className="w-full space-y-2">
+                                {standings.map((playerId, index) => {
+                                    const isWinningPlayer =
+                                        winnerIds.includes(playerId);
+
+                                    return (
+                                        <motion.div
+                                            key={playerId}
+                                            initial={{ opacity: 0, x: -30 }}
+                                            animate={{ opacity: 1, x: 0 }}
+                                            transition={{
+                                                delay: 0.2 + index * 0.15,
+                                            }}
+                                            className={`flex items-center justify-between rounded-xl p-3 sm:p-4 border ${
+                                                isWinningPlayer
+                                                    ? "bg-gradient-to-br from-amber-500/30 to-yellow-600/20 border-amber-400/50"
+                                                    : "bg-white/5 border-white/10"
+                                            }`}
+                                        >
+                                            <div className="flex items-center gap-3 min-w-0">
+                                                {isWinningPlayer ? (
+                                                    <Crown className="w-6 h-6 text-amber-400" />
+                                                ) : (
+                                                    <span className="w-6 text-center text-white/50">
+                                                        #{index + 1}
+                                                    </span>
+                                                )}
+                                                <span className="font-bold text-lg truncate">
+                                                    {gameData.players[playerId]
+                                                        ?.name || playerId}
+                                                </span>
+                                            </div>
+                                            <span
+                                                className={`text-2xl font-bold ${
+                                                    isWinningPlayer
+                                                        ? "text-amber-400"
+                                                        : "text-white"
+                                                }`}
+                                            >
+                                                {gameData.scores[playerId] ?? 0}
+                                            </span>
+                                        </motion.div>
+                                    );
+                                })}
+                            </div>
+
+                            <p className="text-sm text-white/60">
+                                {gameData.round} rounds • Playing to{" "}
+                                {gameData.settings.winTarget}
+                            </p>
+
+                            {/* Watch Replay (opens in a new tab) */}
+                            <Button
+                                asChild
+                                variant="outline"
+                                size="lg"
+                                className="w-full bg-transparent border-white/20 text-white hover:bg-white/10 hover:text-white"
+                            >
+                                <a
+                                    href={`/replay/${gameData.id}`}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                >
+                                    <History className="w-5 h-5 mr-2" />
+                                    Watch Replay
+                                </a>
+                            </Button>
+
+                            {/* Return to Lobby Button (Leader only) */}
+                            {isLeader ? (
+                                <Button
+                                    onClick={onReturnToLobby}
+                                    size="lg"
+                                    className="w-full bg-gradient-to-r from-fuchsia-600 to-pink-700 hover:from-fuchsia-700 hover:to-pink-800 text-white font-semibold"
+                                >
+                                    <Home className="w-5 h-5 mr-2" />
+                                    Return to Lobby
+                                </Button>
+                            ) : (
+                                <p className="text-white/60 text-sm">
+                                    Waiting for room leader to return to
+                                    lobby...
+                                </p>
+                            )}
+                        </>
+                    )}
+                </AnimatePresence>
+            </DialogContent>
+        </Dialog>
+    );
+}
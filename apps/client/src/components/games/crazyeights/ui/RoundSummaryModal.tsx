@@ -0,0 +1,118 @@
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { CrazyEightsData } from "@shared/types";
+import {
+    ContinueGateStatus,
+    DealVerification,
+} from "@/components/games/shared";
+import { motion } from "motion/react";
+import { Trophy, Ban } from "lucide-react";
+import React from "react";
+
+export default function RoundSummaryModal({
+    gameData,
+    sendGameAction,
+}: {
+    gameData: CrazyEightsData;
+    sendGameAction: (type: string, payload: unknown) => void;
+}) {
+    const isOpen = gameData.phase === "round-summary";
+    const winnerId = gameData.roundWinnerId;
+    const winnerName = winnerId
+        ? gameData.players[winnerId]?.name || "Unknown"
+        : null;
+    // A blocked round ends with nobody out; the lowest hand takes it
+    const isBlocked =
+        !winnerId ||
+        (gameData.roundScoreBreakdown?.[winnerId]?.cardsLeft ?? 0) > 0;
+
+    return (
+        <Dialog open={isOpen}>
+            <DialogContent className="flex flex-col items-center gap-4 sm:gap-6 max-w-[95vw] sm:max-w-lg max-h-[85vh] sm:max-h-[90vh] overflow-y-auto bg-slate-900 border-white/10 text-white p-4 sm:p-6">
+                <DialogTitle className="flex items-center gap-2 text-xl sm:text-2xl font-bold text-white">
+                    <Trophy className="w-6 h-6 sm:w-7 sm:h-7 text-amber-400" />
+                    Round {gameData.round} Complete
+                </DialogTitle>
+
+                <motion.div
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    className={`flex items-center gap-2 rounded-full px-4 py-1.5 font-semibold ${
+                        isBlocked
+                            ? "bg-slate-500/20 text-slate-300"
+                            : "bg-emerald-500/20 text-emerald-300"
+                    }`}
+                >
+                    {isBlocked && <Ban className="w-4 h-4" />}
+                    {!isBlocked
+                        ? `${winnerName} went out!`
+                        : winnerName
+                          ? `Blocked - ${winnerName} has the lowest hand`
+                          : "Blocked - tied for the lowest hand, no score"}
+                </motion.div>
+
+                <div className="w-full space-y-2">
+                    {gameData.playOrder.map((playerId, index) => {
+                        const breakdown =
+                            gameData.roundScoreBreakdown?.[playerId];
+                        const roundScore = breakdown?.roundScore ?? 0;
+                        const cardsLeft = breakdown?.cardsLeft ?? 0;
+
+                        return (
+                            <motion.div
+                                key={playerId}
+                                initial={{ opacity: 0, y: 20 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                transition={{ delay: index * 0.1 }}
+                                className="flex items-center justify-between rounded-xl bg-white/5 border border-white/10 px-3 sm:px-4 py-3"
+                            >
+                                <div className="min-w-0">
+                                    <div className="font-bold truncate">
+                                        {gameData.players[playerId]?.name ||
+                                            playerId}
+                                    </div>
+                                    <div className="text-xs text-white/60">
+                                        {cardsLeft === 0
+                                            ? "Out"
+                                            : `${cardsLeft} card${cardsLeft === 1 ? "" : "s"} left • ${breakdown?.handPoints ?? 0} pts`}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2 sm:gap-3">
+                                    <div
+                                        className={`px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-medium ${
+                                            roundScore > 0
+                                                ? "bg-emerald-500/20 text-emerald-400"
+                                                : "bg-white/10 text-white/50"
+                                        }`}
+                                    >
+                                        {roundScore > 0 ? "+" : ""}
+                                        {roundScore}
+                                    </div>
+                                    <div className="text-xl sm:text-2xl font-bold">
+                                        {gameData.scores[playerId] ?? 0}
+                                    </div>
+                                </div>
+                            </motion.div>
+                        );
+                    })}
+                </div>
+
+                <p className="text-xs text-white/50">
+                    Game ends when a player reaches{" "}
+                    {gameData.settings.winTarget} points. Highest score wins.
+                </p>
+
+                {/* Seed for this round's deal, checked against its commitment */}
+                <DealVerification game={gameData} />
+
+                <ContinueGateStatus
+                    gate={gameData.continueGate}
+                    players={gameData.players}
+                    leaderId={gameData.leaderId}
+                    continueAction="CONTINUE_AFTER_ROUND_SUMMARY"
+                    sendGameAction={sendGameAction}
+                    className="mt-2 text-white"
+                />
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,42 @@
+// src/components/games/crazyeights/ui/suits.ts
+// Suit symbols and action card call-outs shared by the crazy eights panels
+
+import { CrazyEightsData, PlayingCard } from "@shared/types";
+
+export const SUIT_SYMBOLS: Record<PlayingCard["suit"], string> = {
+    Spades: "♠",
+    Hearts: "♥",
+    Diamonds: "♦",
+    Clubs: "♣",
+};
+
+export const SUIT_COLORS: Record<PlayingCard["suit"], string> = {
+    Spades: "text-slate-100",
+    Hearts: "text-red-400",
+    Diamonds: "text-red-400",
+    Clubs: "text-slate-100",
+};
+
+/**
+ * What the last action card did, e.g. "Sam draws two and misses a turn".
+ * Null when the last play was a plain card.
+ */
+export function describeEffect(gameData: CrazyEightsData): string | null {
+    const effect = gameData.lastEffect;
+    if (!effect) return null;
+
+    const nameOf = (playerId: string | undefined) =>
+        (playerId && gameData.players[playerId]?.name) || "Unknown";
+
+    switch (effect.type) {
+        case "drawTwo":
+            return `${nameOf(effect.targetId)} draws two and misses a turn`;
+        case "skip":
+            return `${nameOf(effect.targetId)} is skipped`;
+        case "reverse":
+            // Heads-up, a reverse skips the opponent
+            return effect.targetId
+                ? `${nameOf(effect.playerId)} reversed - and goes again`
+                : `${nameOf(effect.playerId)} reversed the direction of play`;
+    }
+}
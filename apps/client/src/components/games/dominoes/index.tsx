@@ -4,6 +4,7 @@ import React, { useCallback } from "react";
 import { useWebSocket } from "@/contexts/WebSocketContext";
 import { useSession } from "@/contexts/SessionContext";
 import {
+    BoardSide,
     DominoesData,
     DominoesPlayerData,
     Tile as TileType,
@@ -11,9 +12,11 @@ import {
 import DominoesGameTable from "./ui/DominoesGameTable";
 import RoundSummaryModal from "./ui/RoundSummaryModal";
 import {
+    GameScoreboard,
     GameMenu,
     GameSettingToggle,
     useGameSetting,
+    UndoControls,
 } from "@/components/games/shared";
 import { Lightbulb } from "lucide-react";
 
@@ -44,12 +47,12 @@ export default function Dominoes({
                 const action = {
                     type,
                     payload,
-                    userId,
+                    expectedVersion: gameData.version,
                 };
                 socket.emit("game_action", { roomId, action });
             }
         },
-        [dispatchOptimisticAction, socket, connected, userId, roomId]
+        [dispatchOptimisticAction, socket, connected, gameData.version, roomId]
     );
 
     // Derived state
@@ -58,9 +61,21 @@ export default function Dominoes({
     const isLeader = userId === gameData.leaderId;
     const showHints = useGameSetting("dominoes.showHints", false);
 
+    // Team totals for the scoreboard (team mode only)
+    const teamScores = Object.entries(gameData.teams ?? {}).map(
+        ([teamId, team]) => ({
+            teamId,
+            teamName: `Team ${Number(teamId) + 1}`,
+            players: team.players.map(
+                (pid) => gameData.players[pid]?.name || pid
+            ),
+            score: team.score,
+        })
+    );
+
     // Handle placing a tile
     const handlePlaceTile = useCallback(
-        (tile: TileType, side: "left" | "right") => {
+        (tile: TileType, side: BoardSide) => {
             sendGameAction("PLACE_TILE", { tile, side });
         },
         [sendGameAction]
@@ -71,6 +86,11 @@ export default function Dominoes({
         sendGameAction("PASS", {});
     }, [sendGameAction]);
 
+    // Handle drawing from the boneyard (draw game)
+    const handleDrawTile = useCallback(() => {
+        sendGameAction("DRAW_TILE", {});
+    }, [sendGameAction]);
+
     return (
         <div className="h-screen w-full overflow-hidden">
             <DominoesGameTable
@@ -80,6 +100,7 @@ export default function Dominoes({
                 showHints={showHints}
                 onPlaceTile={handlePlaceTile}
                 onPass={handlePass}
+                onDraw={handleDrawTile}
             />
 
             {/* Game Menu */}
@@ -92,6 +113,24 @@ export default function Dominoes({
                 />
             </GameMenu>
 
+            {/* Scoreboard (team mode) */}
+            {teamScores.length > 0 && (
+                <GameScoreboard
+                    teams={teamScores}
+                    round={gameData.round}
+                    phase={gameData.phase}
+                    winTarget={gameData.settings?.winTarget}
+                />
+            )}
+
+            {/* Take back the last play */}
+            <UndoControls
+                players={gameData.players}
+                undoPlayerId={gameData.undoPlayerId}
+                undoRequest={gameData.undoRequest}
+                sendGameAction={sendGameAction}
+            />
+
             {/* Round Summary Modal */}
             <RoundSummaryModal
                 gameData={gameData}
@@ -2,7 +2,7 @@
 
 import React, { useRef, useEffect, useState } from "react";
 import { cn } from "@/lib/utils";
-import { BoardState, Tile as TileType } from "@shared/types";
+import { BoardSide, BoardState, Tile as TileType } from "@shared/types";
 import Tile from "./Tile";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, ChevronRight } from "lucide-react";
@@ -13,8 +13,15 @@ interface BoardProps {
     isMyTurn: boolean;
     canPlaceLeft: boolean;
     canPlaceRight: boolean;
-    onPlaceTile: (side: "left" | "right") => void;
-    lastPlayedSide?: "left" | "right" | null;
+    /** Spinner sides (All Fives) */
+    canPlaceUp?: boolean;
+    canPlaceDown?: boolean;
+    onPlaceTile: (side: BoardSide) => void;
+    lastPlayedSide?: BoardSide | null;
+    /** All Fives: sum of the open ends (undefined = block game) */
+    endsSum?: number;
+    /** All Fives: this round's scoring plays, oldest first */
+    scoringPlays?: { id: string; playerName: string; points: number }[];
     className?: string;
 }
 
@@ -24,8 +31,12 @@ export default function Board({
     isMyTurn,
     canPlaceLeft,
     canPlaceRight,
+    canPlaceUp = false,
+    canPlaceDown = false,
     onPlaceTile,
     lastPlayedSide,
+    endsSum,
+    scoringPlays = [],
     className,
 }: BoardProps) {
     const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -45,7 +56,13 @@ export default function Board({
     // Auto-scroll to the side where the last tile was played
     useEffect(() => {
         const container = scrollContainerRef.current;
-        if (!container || !lastPlayedSide) return;
+        // Spinner plays (up/down) don't move the ends of the line
+        if (
+            !container ||
+            (lastPlayedSide !== "left" && lastPlayedSide !== "right")
+        ) {
+            return;
+        }
 
         // Wait for DOM update
         setTimeout(() => {
@@ -86,19 +103,55 @@ export default function Board({
     }
 
     const isEmpty = board.tiles.length === 0;
+    const tileCount =
+        board.tiles.length +
+        (board.upTiles?.length ?? 0) +
+        (board.downTiles?.length ?? 0);
+    const endsScore = endsSum !== undefined && endsSum > 0 && endsSum % 5 === 0;
+    const showPlaceUp = !!selectedTile && isMyTurn && canPlaceUp;
+    const showPlaceDown = !!selectedTile && isMyTurn && canPlaceDown;
 
     return (
         <div className={cn("relative w-full", className)}>
             {/* Board label */}
             <div className="mb-2 text-sm font-medium text-zinc-600 dark:text-zinc-400 flex items-center justify-between">
-                <span>Board ({board.tiles.length} tiles)</span>
-                {board.leftEnd && board.rightEnd && (
-                    <span className="text-xs">
-                        Ends: {board.leftEnd.value} — {board.rightEnd.value}
-                    </span>
-                )}
+                <span>Board ({tileCount} tiles)</span>
+                <div className="flex items-center gap-2">
+                    {board.leftEnd && board.rightEnd && (
+                        <span className="text-xs">
+                            Ends: {board.leftEnd.value} — {board.rightEnd.value}
+                        </span>
+                    )}
+                    {/* All Fives: what the open ends add up to */}
+                    {endsSum !== undefined && (
+                        <span
+                            className={cn(
+                                "text-xs font-semibold rounded-full px-2 py-0.5",
+                                endsScore
+                                    ? "bg-emerald-500/20 text-emerald-600 dark:text-emerald-400"
+                                    : "bg-zinc-500/10"
+                            )}
+                        >
+                            Sum: {endsSum}
+                        </span>
+                    )}
+                </div>
             </div>
 
+            {/* All Fives: points scored by recent plays */}
+            {scoringPlays.length > 0 && (
+                <div className="mb-2 flex flex-wrap gap-1">
+                    {scoringPlays.map((play) => (
+                        <span
+                            key={play.id}
+                            className="text-xs rounded-full px-2 py-0.5 bg-emerald-500/20 text-emerald-700 dark:text-emerald-300"
+                        >
+                            +{play.points} {play.playerName}
+                        </span>
+                    ))}
+                </div>
+            )}
+
             {/* Board container */}
             <div className="relative bg-green-800 dark:bg-green-900 rounded-xl p-4 min-h-[140px] shadow-inner">
                 {/* Left scroll arrow */}
@@ -160,15 +213,73 @@ export default function Board({
                                     : "Waiting for first tile..."}
                             </div>
                         ) : (
-                            board.tiles.map((tile) => (
-                                <div key={tile.id} className="snap-center">
-                                    <Tile
-                                        tile={tile}
-                                        isHorizontal={true}
-                                        size="sm"
-                                    />
-                                </div>
-                            ))
+                            board.tiles.map((tile) =>
+                                tile.id === board.spinner?.tileId ? (
+                                    // Spinner: its arms grow up and down, kept centred on the line
+                                    <div
+                                        key={tile.id}
+                                        className="snap-center grid grid-rows-[1fr_auto_1fr] justify-items-center gap-1"
+                                    >
+                                        <div className="flex flex-col items-center justify-end gap-1">
+                                            {showPlaceUp && (
+                                                <Button
+                                                    className="bg-yellow-500 hover:bg-yellow-600 text-black font-semibold shadow-lg animate-pulse"
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        onPlaceTile("up")
+                                                    }
+                                                >
+                                                    Place Here
+                                                </Button>
+                                            )}
+                                            {[...(board.upTiles ?? [])]
+                                                .reverse()
+                                                .map((armTile) => (
+                                                    <Tile
+                                                        key={armTile.id}
+                                                        tile={{
+                                                            ...armTile,
+                                                            left: armTile.right,
+                                                            right: armTile.left,
+                                                        }}
+                                                        size="sm"
+                                                    />
+                                                ))}
+                                        </div>
+                                        <Tile tile={tile} size="sm" />
+                                        <div className="flex flex-col items-center justify-start gap-1">
+                                            {(board.downTiles ?? []).map(
+                                                (armTile) => (
+                                                    <Tile
+                                                        key={armTile.id}
+                                                        tile={armTile}
+                                                        size="sm"
+                                                    />
+                                                )
+                                            )}
+                                            {showPlaceDown && (
+                                                <Button
+                                                    className="bg-yellow-500 hover:bg-yellow-600 text-black font-semibold shadow-lg animate-pulse"
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        onPlaceTile("down")
+                                                    }
+                                                >
+                                                    Place Here
+                                                </Button>
+                                            )}
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div key={tile.id} className="snap-center">
+                                        <Tile
+                                            tile={tile}
+                                            isHorizontal={true}
+                                            size="sm"
+                                        />
+                                    </div>
+                                )
+                            )
                         )}
                     </div>
                 </div>
@@ -1,9 +1,16 @@
 "use client";
 
-import React, { useState, useCallback, useMemo } from "react";
+import React, {
+    useState,
+    useCallback,
+    useMemo,
+    useEffect,
+    useRef,
+} from "react";
 import { LayoutGroup } from "motion/react";
 import { toast } from "sonner";
 import {
+    BoardSide,
     DominoesData,
     DominoesPlayerData,
     Tile as TileType,
@@ -11,6 +18,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import TileHand from "./TileHand";
+import Tile from "./Tile";
 import Board from "./Board";
 import {
     GameTable,
@@ -18,35 +26,26 @@ import {
     EdgeRegion,
     PlayerInfo,
     ActionConfirmationBar,
-    EdgePosition,
+    getEdgeSeat,
 } from "@/components/games/shared";
+import { useTurnTimer } from "@/hooks";
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import { playTimerStartSound } from "@/lib/audio";
 
 interface DominoesGameTableProps {
     gameData: DominoesData;
     playerData: DominoesPlayerData;
     isMyTurn: boolean;
     showHints?: boolean;
-    onPlaceTile: (tile: TileType, side: "left" | "right") => void;
+    onPlaceTile: (tile: TileType, side: BoardSide) => void;
     onPass: () => void;
+    onDraw: () => void;
+    /** Every player's hand, shown face up (replays) */
+    revealedHands?: Record<string, TileType[]>;
 }
 
-// Helper function to map player index to edge position
-function getEdgePosition(index: number, playerCount: number): EdgePosition {
-    if (playerCount === 2) {
-        return index === 0 ? "bottom" : "top";
-    }
-    if (playerCount === 3) {
-        if (index === 0) return "bottom";
-        if (index === 1) return "left";
-        return "right";
-    }
-    // 4 players
-    if (index === 0) return "bottom";
-    if (index === 1) return "left";
-    if (index === 2) return "top";
-    if (index === 3) return "right";
-    return "top";
-}
+// Spinner sides (up/down) only have an end once the spinner opens
+const BOARD_SIDES: BoardSide[] = ["left", "right", "up", "down"];
 
 /**
  * Check if a tile can be placed on a specific side of the board
@@ -54,13 +53,18 @@ function getEdgePosition(index: number, playerCount: number): EdgePosition {
 function canPlaceTileOnSide(
     tile: TileType,
     board: DominoesData["board"],
-    side: "left" | "right"
+    side: BoardSide
 ): boolean {
     if (board.tiles.length === 0) {
         return true;
     }
 
-    const end = side === "left" ? board.leftEnd : board.rightEnd;
+    const end = {
+        left: board.leftEnd,
+        right: board.rightEnd,
+        up: board.upEnd,
+        down: board.downEnd,
+    }[side];
     if (!end) return false;
 
     return tile.left === end.value || tile.right === end.value;
@@ -75,10 +79,8 @@ function hasLegalMove(
 ): boolean {
     if (board.tiles.length === 0) return tiles.length > 0;
 
-    return tiles.some(
-        (tile) =>
-            canPlaceTileOnSide(tile, board, "left") ||
-            canPlaceTileOnSide(tile, board, "right")
+    return tiles.some((tile) =>
+        BOARD_SIDES.some((side) => canPlaceTileOnSide(tile, board, side))
     );
 }
 
@@ -94,11 +96,13 @@ function DominoesGameTable({
     showHints = false,
     onPlaceTile,
     onPass,
+    onDraw,
+    revealedHands,
 }: DominoesGameTableProps) {
     const [selectedTile, setSelectedTile] = useState<TileType | null>(null);
-    const [lastPlayedSide, setLastPlayedSide] = useState<
-        "left" | "right" | null
-    >(null);
+    const [lastPlayedSide, setLastPlayedSide] = useState<BoardSide | null>(
+        null
+    );
 
     const playerCount =
         playerData.localOrdering?.length || gameData.playOrder.length;
@@ -106,42 +110,97 @@ function DominoesGameTable({
     const hand = useMemo(() => playerData.hand || [], [playerData.hand]);
     const currentPlayerId = gameData.playOrder[gameData.currentTurnIndex];
     const isPlaying = gameData.phase === "playing";
+    const { clockOffset } = useWebSocket();
 
-    // Calculate if selected tile can be placed on each side
-    const canPlaceLeft = useMemo(
-        () =>
-            selectedTile !== null &&
-            canPlaceTileOnSide(selectedTile, gameData.board, "left"),
-        [selectedTile, gameData.board]
+    // Turn timer - only play the audio cue on the local player's turn
+    const turnTimeLimit = gameData.settings.turnTimeLimit ?? 0;
+    const isMyTurnRef = useRef(isMyTurn);
+    useEffect(() => {
+        isMyTurnRef.current = isMyTurn;
+    }, [isMyTurn]);
+
+    const handleTimerStart = useCallback(() => {
+        if (isMyTurnRef.current) {
+            playTimerStartSound();
+        }
+    }, []);
+
+    const { isActive: timerIsActive } = useTurnTimer(
+        gameData.turnTimer,
+        clockOffset,
+        handleTimerStart
     );
 
-    const canPlaceRight = useMemo(
+    const timerProps = useMemo(() => {
+        if (
+            turnTimeLimit <= 0 ||
+            !isPlaying ||
+            !timerIsActive ||
+            !gameData.turnTimer?.startedAt
+        ) {
+            return undefined;
+        }
+        return {
+            totalMs: turnTimeLimit * 1000,
+            startedAt: gameData.turnTimer.startedAt,
+            clockOffset,
+        };
+    }, [
+        turnTimeLimit,
+        isPlaying,
+        timerIsActive,
+        gameData.turnTimer?.startedAt,
+        clockOffset,
+    ]);
+
+    // Calculate which sides the selected tile can be placed on
+    const placeableSides = useMemo(
         () =>
-            selectedTile !== null &&
-            canPlaceTileOnSide(selectedTile, gameData.board, "right"),
+            selectedTile === null
+                ? []
+                : BOARD_SIDES.filter((side) =>
+                      canPlaceTileOnSide(selectedTile, gameData.board, side)
+                  ),
         [selectedTile, gameData.board]
     );
 
-    // Check if player must pass
-    const mustPass = useMemo(
+    // All Fives: ends sum after the latest play, and who has scored this round
+    const isAllFives = gameData.settings.scoringMode === "allFives";
+    const roundPlays = gameData.roundPlays ?? [];
+    const endsSum = isAllFives
+        ? (roundPlays[roundPlays.length - 1]?.endsSum ?? 0)
+        : undefined;
+    const scoringPlays = roundPlays
+        .filter((play) => play.points > 0)
+        .map((play) => ({
+            id: play.tileId,
+            playerName: gameData.players[play.playerId]?.name || "Unknown",
+            points: play.points,
+        }));
+
+    // Draw game: the boneyard is only available when the setting is on
+    const isDrawGame = gameData.settings.drawFromBoneyard;
+    const boneyardCount = gameData.boneyardCount ?? 0;
+
+    // Check if player has no legal move (must draw or pass)
+    const hasNoMove = useMemo(
         () => isMyTurn && isPlaying && !hasLegalMove(hand, gameData.board),
         [isMyTurn, isPlaying, hand, gameData.board]
     );
+    const mustDraw = hasNoMove && isDrawGame && boneyardCount > 0;
+    const mustPass = hasNoMove && !mustDraw;
 
     // Can auto-place (only one valid side)
     const canAutoPlace = useMemo(() => {
         if (!selectedTile || !isMyTurn || !isPlaying) return false;
         if (gameData.board.tiles.length === 0) return true;
-        return (
-            (canPlaceLeft && !canPlaceRight) || (canPlaceRight && !canPlaceLeft)
-        );
+        return placeableSides.length === 1;
     }, [
         selectedTile,
         isMyTurn,
         isPlaying,
         gameData.board.tiles.length,
-        canPlaceLeft,
-        canPlaceRight,
+        placeableSides,
     ]);
 
     // Handle tile selection
@@ -155,7 +214,7 @@ function DominoesGameTable({
 
     // Handle placing a tile
     const handlePlaceTile = useCallback(
-        (side: "left" | "right") => {
+        (side: BoardSide) => {
             if (!selectedTile || !isMyTurn || !isPlaying) return;
 
             onPlaceTile(selectedTile, side);
@@ -171,16 +230,13 @@ function DominoesGameTable({
 
         if (gameData.board.tiles.length === 0) {
             handlePlaceTile("left"); // Default to left for first tile
-        } else if (canPlaceLeft && !canPlaceRight) {
-            handlePlaceTile("left");
-        } else if (canPlaceRight && !canPlaceLeft) {
-            handlePlaceTile("right");
+        } else if (placeableSides.length === 1) {
+            handlePlaceTile(placeableSides[0]);
         }
     }, [
         selectedTile,
         gameData.board.tiles.length,
-        canPlaceLeft,
-        canPlaceRight,
+        placeableSides,
         handlePlaceTile,
     ]);
 
@@ -192,7 +248,12 @@ function DominoesGameTable({
     // Show toast when it's the player's turn
     React.useEffect(() => {
         if (isMyTurn && isPlaying) {
-            if (mustPass) {
+            if (mustDraw) {
+                toast.warning("No playable tiles — draw from the boneyard", {
+                    id: "dominoes-must-pass",
+                    duration: 4000,
+                });
+            } else if (mustPass) {
                 toast.warning("No playable tiles — you must pass", {
                     id: "dominoes-must-pass",
                     duration: 4000,
@@ -205,7 +266,7 @@ function DominoesGameTable({
                 });
             }
         }
-    }, [isMyTurn, isPlaying, mustPass, gameData.currentTurnIndex]);
+    }, [isMyTurn, isPlaying, mustPass, mustDraw, gameData.currentTurnIndex]);
 
     // Create customStats render function for dominoes
     const createDominoesStats = (playerId: string) => {
@@ -247,16 +308,15 @@ function DominoesGameTable({
                         const isLocal = index === 0;
                         const player = gameData.players[playerId];
                         const isCurrentTurn = currentPlayerId === playerId;
-                        const edgePosition = getEdgePosition(
-                            index,
-                            playerCount
-                        );
+                        const seat = getEdgeSeat(index, playerCount);
+                        const edgePosition = seat.position;
 
                         return (
                             <EdgeRegion
                                 key={playerId}
                                 position={edgePosition}
                                 isHero={isLocal}
+                                className={seat.className}
                             >
                                 <PlayerInfo
                                     playerId={playerId}
@@ -265,6 +325,9 @@ function DominoesGameTable({
                                     isLocalPlayer={isLocal}
                                     seatPosition={edgePosition}
                                     connected={player?.isConnected !== false}
+                                    turnTimer={
+                                        isCurrentTurn ? timerProps : undefined
+                                    }
                                     customStats={createDominoesStats(playerId)}
                                 />
 
@@ -277,8 +340,27 @@ function DominoesGameTable({
                                         isMyTurn={isMyTurn && isPlaying}
                                         onTileSelect={handleTileSelect}
                                         showHints={showHints}
+                                        boneyardCount={
+                                            isDrawGame
+                                                ? boneyardCount
+                                                : undefined
+                                        }
+                                        onDraw={onDraw}
                                     />
                                 )}
+
+                                {/* Opponents' tiles, face up (replays) */}
+                                {!isLocal && revealedHands?.[playerId] && (
+                                    <div className="flex flex-wrap justify-center gap-1 max-w-xs">
+                                        {revealedHands[playerId].map((tile) => (
+                                            <Tile
+                                                key={tile.id}
+                                                tile={tile}
+                                                size="sm"
+                                            />
+                                        ))}
+                                    </div>
+                                )}
                             </EdgeRegion>
                         );
                     })}
@@ -290,6 +372,11 @@ function DominoesGameTable({
                             <span className="text-white/80 text-sm font-medium">
                                 Round {gameData.round}
                             </span>
+                            {isDrawGame && (
+                                <span className="text-white/60 text-sm ml-2">
+                                    · Boneyard: {boneyardCount}
+                                </span>
+                            )}
                         </div>
 
                         {/* Dominoes Board */}
@@ -297,10 +384,14 @@ function DominoesGameTable({
                             board={gameData.board}
                             selectedTile={selectedTile}
                             isMyTurn={isMyTurn && isPlaying}
-                            canPlaceLeft={canPlaceLeft}
-                            canPlaceRight={canPlaceRight}
+                            canPlaceLeft={placeableSides.includes("left")}
+                            canPlaceRight={placeableSides.includes("right")}
+                            canPlaceUp={placeableSides.includes("up")}
+                            canPlaceDown={placeableSides.includes("down")}
                             onPlaceTile={handlePlaceTile}
                             lastPlayedSide={lastPlayedSide}
+                            endsSum={endsSum}
+                            scoringPlays={scoringPlays}
                             className="w-full"
                         />
 
@@ -0,0 +1,38 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { DominoesData, DominoesPlayerData } from "@shared/types";
+import DominoesGameTable from "./DominoesGameTable";
+import type { ReplayTableProps } from "@/components/games/registry";
+
+/**
+ * DominoesReplayTable - Read-only Dominoes table for replays, with every hand face up.
+ */
+export default function DominoesReplayTable({
+    gameData,
+    playerData,
+    playerStates,
+}: ReplayTableProps<DominoesData, DominoesPlayerData>) {
+    const revealedHands = useMemo(
+        () =>
+            Object.fromEntries(
+                Object.entries(playerStates).map(([playerId, state]) => [
+                    playerId,
+                    state.hand,
+                ])
+            ),
+        [playerStates]
+    );
+
+    return (
+        <DominoesGameTable
+            gameData={gameData}
+            playerData={playerData}
+            isMyTurn={false}
+            onPlaceTile={() => {}}
+            onPass={() => {}}
+            onDraw={() => {}}
+            revealedHands={revealedHands}
+        />
+    );
+}
@@ -5,8 +5,12 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { useSession } from "@/contexts/SessionContext";
 import { DominoesData } from "@shared/types";
+import {
+    ContinueGateStatus,
+    DealVerification,
+} from "@/components/games/shared";
 import { cn } from "@/lib/utils";
-import { Trophy, Crown } from "lucide-react";
+import { Trophy, Crown, History } from "lucide-react";
 
 interface RoundSummaryModalProps {
     gameData: DominoesData;
@@ -30,11 +34,26 @@ export default function RoundSummaryModal({
     const playerScores = gameData.playerScores;
     const roundPipCounts = gameData.roundPipCounts || {};
 
+    // Team mode
+    const teams = gameData.teams;
+    const roundTeamPipCounts = gameData.roundTeamPipCounts || {};
+    const roundWinningTeam = gameData.roundWinningTeam;
+    const winningTeam = gameData.winningTeam;
+    const teamLabel = (teamId: number) =>
+        `Team ${teamId + 1} (${(teams?.[teamId]?.players ?? [])
+            .map((pid) => players[pid]?.name || "Unknown")
+            .join(" & ")})`;
+
     // Sort players by score (descending)
     const sortedPlayers = Object.keys(playerScores).sort(
         (a, b) => playerScores[b] - playerScores[a]
     );
 
+    // Sort teams by score (descending)
+    const sortedTeamIds = Object.keys(teams ?? {})
+        .map(Number)
+        .sort((a, b) => (teams?.[b].score ?? 0) - (teams?.[a].score ?? 0));
+
     return (
         <Dialog open={isOpen}>
             <DialogContent className="flex flex-col items-center gap-4 max-w-md">
@@ -56,6 +75,18 @@ export default function RoundSummaryModal({
                     )}
                 </DialogTitle>
 
+                {/* Winning team announcement */}
+                {isFinished && teams && winningTeam !== undefined && (
+                    <div className="text-center mb-4">
+                        <div className="text-lg font-semibold text-green-600 dark:text-green-400">
+                            🎉 {teamLabel(winningTeam)} wins! 🎉
+                        </div>
+                        <div className="text-sm text-zinc-500 dark:text-zinc-400">
+                            Final Score: {teams[winningTeam]?.score} points
+                        </div>
+                    </div>
+                )}
+
                 {/* Game winner announcement */}
                 {isFinished && gameWinner && (
                     <div className="text-center mb-4">
@@ -68,8 +99,27 @@ export default function RoundSummaryModal({
                     </div>
                 )}
 
+                {/* Round winner announcement (team mode) */}
+                {isRoundSummary && teams && (
+                    <div className="text-center mb-2">
+                        {roundWinningTeam !== null &&
+                        roundWinningTeam !== undefined ? (
+                            <div className="text-lg font-semibold text-cyan-600 dark:text-cyan-400">
+                                {roundWinner
+                                    ? `${players[roundWinner]?.name || "Unknown"} dominoes! `
+                                    : "Blocked game - "}
+                                {teamLabel(roundWinningTeam)} wins this round!
+                            </div>
+                        ) : (
+                            <div className="text-lg font-semibold text-amber-600 dark:text-amber-400">
+                                It&apos;s a tie! No points awarded.
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* Round winner announcement */}
-                {isRoundSummary && (
+                {isRoundSummary && !teams && (
                     <div className="text-center mb-2">
                         {roundWinner ? (
                             <div className="text-lg font-semibold text-cyan-600 dark:text-cyan-400">
@@ -135,55 +185,149 @@ export default function RoundSummaryModal({
                                 );
                             })()}
                         </div>
+                        {teams && (
+                            <div className="grid grid-cols-2 gap-2 mt-2 pt-2 border-t border-zinc-200 dark:border-zinc-700">
+                                {Object.entries(roundTeamPipCounts).map(
+                                    ([teamId, pips]) => (
+                                        <div
+                                            key={teamId}
+                                            className={cn(
+                                                "flex justify-between items-center px-2 py-1 rounded",
+                                                Number(teamId) ===
+                                                    roundWinningTeam
+                                                    ? "bg-green-100 dark:bg-green-900/30"
+                                                    : "bg-white dark:bg-zinc-700"
+                                            )}
+                                        >
+                                            <span className="text-sm font-medium">
+                                                Team {Number(teamId) + 1}
+                                            </span>
+                                            <span className="font-bold text-zinc-700 dark:text-zinc-300">
+                                                {pips}
+                                            </span>
+                                        </div>
+                                    )
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Team scoreboard */}
+                {teams && (
+                    <div className="w-full">
+                        <div className="text-sm font-medium text-zinc-600 dark:text-zinc-400 mb-2">
+                            {isFinished ? "Final Standings" : "Team Scores"}
+                        </div>
+                        <div className="space-y-2">
+                            {sortedTeamIds.map((teamId, index) => (
+                                <div
+                                    key={teamId}
+                                    className={cn(
+                                        "flex justify-between items-center px-3 py-2 rounded-lg",
+                                        index === 0 && isFinished
+                                            ? "bg-yellow-100 dark:bg-yellow-900/30 ring-2 ring-yellow-400"
+                                            : "bg-zinc-100 dark:bg-zinc-800"
+                                    )}
+                                >
+                                    <div className="flex items-center gap-2 min-w-0">
+                                        <span className="text-sm font-medium text-zinc-500 dark:text-zinc-400">
+                                            #{index + 1}
+                                        </span>
+                                        <span className="font-medium truncate">
+                                            {teamLabel(teamId)}
+                                        </span>
+                                        {userId &&
+                                            teams[teamId]?.players.includes(
+                                                userId
+                                            ) && (
+                                                <span className="text-xs text-blue-500">
+                                                    (You)
+                                                </span>
+                                            )}
+                                    </div>
+                                    <span className="font-bold text-lg">
+                                        {teams[teamId]?.score}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
                     </div>
                 )}
 
                 {/* Scoreboard */}
-                <div className="w-full">
-                    <div className="text-sm font-medium text-zinc-600 dark:text-zinc-400 mb-2">
-                        {isFinished ? "Final Standings" : "Current Scores"}
-                    </div>
-                    <div className="space-y-2">
-                        {sortedPlayers.map((playerId, index) => (
-                            <div
-                                key={playerId}
-                                className={cn(
-                                    "flex justify-between items-center px-3 py-2 rounded-lg",
-                                    index === 0 && isFinished
-                                        ? "bg-yellow-100 dark:bg-yellow-900/30 ring-2 ring-yellow-400"
-                                        : "bg-zinc-100 dark:bg-zinc-800"
-                                )}
-                            >
-                                <div className="flex items-center gap-2">
-                                    <span className="text-sm font-medium text-zinc-500 dark:text-zinc-400">
-                                        #{index + 1}
-                                    </span>
-                                    <span className="font-medium">
-                                        {players[playerId]?.name || "Unknown"}
-                                    </span>
-                                    {playerId === userId && (
-                                        <span className="text-xs text-blue-500">
-                                            (You)
-                                        </span>
+                {!teams && (
+                    <div className="w-full">
+                        <div className="text-sm font-medium text-zinc-600 dark:text-zinc-400 mb-2">
+                            {isFinished ? "Final Standings" : "Current Scores"}
+                        </div>
+                        <div className="space-y-2">
+                            {sortedPlayers.map((playerId, index) => (
+                                <div
+                                    key={playerId}
+                                    className={cn(
+                                        "flex justify-between items-center px-3 py-2 rounded-lg",
+                                        index === 0 && isFinished
+                                            ? "bg-yellow-100 dark:bg-yellow-900/30 ring-2 ring-yellow-400"
+                                            : "bg-zinc-100 dark:bg-zinc-800"
                                     )}
+                                >
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-sm font-medium text-zinc-500 dark:text-zinc-400">
+                                            #{index + 1}
+                                        </span>
+                                        <span className="font-medium">
+                                            {players[playerId]?.name ||
+                                                "Unknown"}
+                                        </span>
+                                        {playerId === userId && (
+                                            <span className="text-xs text-blue-500">
+                                                (You)
+                                            </span>
+                                        )}
+                                    </div>
+                                    <span className="font-bold text-lg">
+                                        {playerScores[playerId]}
+                                    </span>
                                 </div>
-                                <span className="font-bold text-lg">
-                                    {playerScores[playerId]}
-                                </span>
-                            </div>
-                        ))}
+                            ))}
+                        </div>
                     </div>
-                </div>
+                )}
+
+                {/* Seed for this round's deal, checked against its commitment */}
+                <DealVerification
+                    game={gameData}
+                    className="mt-2 text-zinc-500 dark:text-zinc-400"
+                />
 
-                {/* Continue button (leader only, round summary only) */}
-                {isRoundSummary && userId === gameData.leaderId && (
+                {/* Ready votes (round summary only) */}
+                {isRoundSummary && (
+                    <ContinueGateStatus
+                        gate={gameData.continueGate}
+                        players={players}
+                        leaderId={gameData.leaderId}
+                        continueAction="CONTINUE_AFTER_ROUND_SUMMARY"
+                        sendGameAction={sendGameAction}
+                        className="mt-4"
+                    />
+                )}
+
+                {/* Watch Replay (opens in a new tab) */}
+                {isFinished && (
                     <Button
-                        className="mt-4 w-full text-base font-semibold py-3 rounded-lg shadow-md"
-                        onClick={() =>
-                            sendGameAction("CONTINUE_AFTER_ROUND_SUMMARY", {})
-                        }
+                        asChild
+                        variant="outline"
+                        className="mt-4 w-full text-base font-semibold py-3 rounded-lg"
                     >
-                        Start Next Round
+                        <a
+                            href={`/replay/${gameData.id}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                        >
+                            <History className="w-4 h-4 mr-2" />
+                            Watch Replay
+                        </a>
                     </Button>
                 )}
 
@@ -14,8 +14,10 @@ interface TileProps {
     className?: string;
 }
 
-// Pip positions for each value (0-6)
-// Positions are relative to a 3x3 grid within each half
+// Pip positions for each value (0-12)
+// Positions are [row, col] on a 3x3 grid within each half; 8 and up
+// use four rows (0, 2/3, 4/3, 2) to fit the extra pips
+const FOUR_ROWS = [0, 2 / 3, 4 / 3, 2];
 const PIP_POSITIONS: Record<number, [number, number][]> = {
     0: [],
     1: [[1, 1]], // center
@@ -49,8 +51,51 @@ const PIP_POSITIONS: Record<number, [number, number][]> = {
         [2, 0],
         [2, 2],
     ], // two columns of 3
+    7: [
+        [0, 0],
+        [0, 2],
+        [1, 0],
+        [1, 1],
+        [1, 2],
+        [2, 0],
+        [2, 2],
+    ], // two columns of 3 + center
+    8: FOUR_ROWS.flatMap((row) => [
+        [row, 0],
+        [row, 2],
+    ]) as [number, number][], // two columns of 4
+    9: [0, 1, 2].flatMap((row) => [
+        [row, 0],
+        [row, 1],
+        [row, 2],
+    ]) as [number, number][], // full 3x3
+    10: [
+        ...FOUR_ROWS.flatMap((row) => [
+            [row, 0],
+            [row, 2],
+        ]),
+        [2 / 3, 1],
+        [4 / 3, 1],
+    ] as [number, number][], // two columns of 4 + two in the middle
+    11: [
+        ...FOUR_ROWS.flatMap((row) => [
+            [row, 0],
+            [row, 2],
+        ]),
+        [0, 1],
+        [1, 1],
+        [2, 1],
+    ] as [number, number][], // two columns of 4 + middle column of 3
+    12: FOUR_ROWS.flatMap((row) => [
+        [row, 0],
+        [row, 1],
+        [row, 2],
+    ]) as [number, number][], // three columns of 4
 };
 
+// Pips shrink a little once a half holds more than nine
+const CROWDED_PIP_SCALE = 0.8;
+
 const SIZE_CONFIG = {
     sm: { width: 28, height: 56, pipSize: 4, gap: 2 },
     md: { width: 40, height: 80, pipSize: 6, gap: 3 },
@@ -72,6 +117,7 @@ function PipHalf({
     const positions = PIP_POSITIONS[value] || [];
     const padding = pipSize * 0.8;
     const gridSize = (halfHeight - 2 * padding) / 2;
+    const radius = (value > 9 ? pipSize * CROWDED_PIP_SCALE : pipSize) / 2;
 
     return (
         <>
@@ -83,7 +129,7 @@ function PipHalf({
                         key={idx}
                         cx={cx}
                         cy={cy}
-                        r={pipSize / 2}
+                        r={radius}
                         className="fill-zinc-800 dark:fill-zinc-100"
                     />
                 );
@@ -3,6 +3,7 @@
 import React from "react";
 import { cn } from "@/lib/utils";
 import { Tile as TileType, BoardState } from "@shared/types";
+import { Button } from "@/components/ui/button";
 import Tile from "./Tile";
 
 interface TileHandProps {
@@ -13,10 +14,14 @@ interface TileHandProps {
     onTileSelect: (tile: TileType | null) => void;
     className?: string;
     showHints?: boolean;
+    /** Draw game: number of tiles left in the boneyard (undefined = block game) */
+    boneyardCount?: number;
+    /** Called when the player draws from the boneyard */
+    onDraw?: () => void;
 }
 
 /**
- * Check if a tile can be played on either end of the board
+ * Check if a tile can be played on any open end of the board
  */
 function canPlayTile(tile: TileType, board: BoardState): boolean {
     // If board is empty, any tile can be played
@@ -24,15 +29,17 @@ function canPlayTile(tile: TileType, board: BoardState): boolean {
         return true;
     }
 
-    const leftValue = board.leftEnd?.value;
-    const rightValue = board.rightEnd?.value;
+    // Spinner ends (All Fives) are only set once the spinner opens
+    const endValues = [
+        board.leftEnd,
+        board.rightEnd,
+        board.upEnd,
+        board.downEnd,
+    ].map((end) => end?.value);
 
-    // Tile can be played if either side matches either board end
-    return (
-        tile.left === leftValue ||
-        tile.right === leftValue ||
-        tile.left === rightValue ||
-        tile.right === rightValue
+    // Tile can be played if either side matches any board end
+    return endValues.some(
+        (value) => tile.left === value || tile.right === value
     );
 }
 
@@ -44,7 +51,13 @@ export default function TileHand({
     onTileSelect,
     className,
     showHints = false,
+    boneyardCount,
+    onDraw,
 }: TileHandProps) {
+    const hasPlayableTile = tiles.some((t) => canPlayTile(t, board));
+    const canDraw =
+        isMyTurn && !hasPlayableTile && !!onDraw && (boneyardCount ?? 0) > 0;
+
     return (
         <div className={cn("w-full", className)}>
             {/* Hand label */}
@@ -93,12 +106,21 @@ export default function TileHand({
                 )}
             </div>
 
+            {/* Draw button (draw game, no playable tiles) */}
+            {canDraw && (
+                <Button onClick={onDraw} size="sm" className="mt-2 shadow-lg">
+                    Draw Tile ({boneyardCount} left)
+                </Button>
+            )}
+
             {/* Playable tiles hint */}
             {isMyTurn && (
                 <div className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
-                    {tiles.filter((t) => canPlayTile(t, board)).length > 0
+                    {hasPlayableTile
                         ? "Tap a tile to select, then choose where to place it"
-                        : "No playable tiles — you must pass"}
+                        : canDraw
+                          ? "No playable tiles — draw from the boneyard"
+                          : "No playable tiles — you must pass"}
                 </div>
             )}
         </div>
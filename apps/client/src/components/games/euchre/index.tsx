@@ -0,0 +1,213 @@
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import React, { useEffect, useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { useSession } from "@/contexts/SessionContext";
+import EuchreGameTable from "./ui/EuchreGameTable";
+import {
+    GameScoreboard,
+    GameMenu,
+    GameSettingToggle,
+    useGameSetting,
+    UndoControls,
+} from "@/components/games/shared";
+import { EuchreData, EuchrePlayerData, PlayingCard } from "@shared/types";
+import CallTrumpModal from "./ui/CallTrumpModal";
+import RoundSummaryModal from "./ui/RoundSummaryModal";
+import GameSummaryModal from "./ui/GameSummaryModal";
+import { getTeamName } from "./ui/teams";
+import { Lightbulb } from "lucide-react";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
+
+export default function Euchre({
+    gameData,
+    playerData,
+    dispatchOptimisticAction,
+    roomCode,
+}: {
+    gameData: EuchreData;
+    playerData: EuchrePlayerData;
+    dispatchOptimisticAction?: (type: string, payload: unknown) => void;
+    roomCode?: string;
+}) {
+    const { socket, connected } = useWebSocket();
+    const { roomId, userId } = useSession();
+
+    const sendGameAction = React.useCallback(
+        (type: string, payload: unknown) => {
+            // Use optimistic action dispatcher if available, otherwise fallback to direct emit
+            if (dispatchOptimisticAction) {
+                dispatchOptimisticAction(type, payload);
+            } else {
+                if (!socket || !connected) return;
+                const action = {
+                    type,
+                    payload,
+                    expectedVersion: gameData.version,
+                };
+                socket.emit("game_action", { roomId, action });
+            }
+        },
+        [dispatchOptimisticAction, socket, connected, gameData.version, roomId]
+    );
+
+    // For non-player system actions (CONTINUE_AFTER_TRICK_RESULT, CONTINUE_AFTER_ROUND_SUMMARY)
+    // These don't need optimistic updates and shouldn't block player actions
+    const sendSystemAction = React.useCallback(
+        (type: string, payload: unknown) => {
+            if (!socket || !connected) return;
+            const action = {
+                type,
+                payload,
+                // Acked like optimistic actions, so a failure isn't silent
+                actionId: `${userId}-${uuidv4()}`,
+                expectedVersion: gameData.version,
+            };
+            socket.emit("game_action", { roomId, action });
+        },
+        [socket, connected, gameData.version, roomId, userId]
+    );
+
+    const isCallingPhase = gameData.phase === "calling";
+    const isMyTurn = gameData.playOrder[gameData.currentTurnIndex] === userId;
+    const isLeader = userId === gameData.leaderId;
+    const showHints = useGameSetting("euchre.showHints", false);
+    const [callModalOpen, setCallModalOpen] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const isDealer = gameData.currentTurnIndex === gameData.dealerIndex;
+    // With stick the dealer, the dealer can't pass the second time round
+    const isStuck =
+        isDealer &&
+        gameData.callingRound === 2 &&
+        gameData.settings.stickTheDealer;
+
+    // Open the trump modal when it's my turn to call
+    useEffect(() => {
+        setCallModalOpen(isMyTurn && isCallingPhase);
+    }, [isMyTurn, isCallingPhase, gameData.callingRound]);
+
+    // Submit once, then unlock after a moment in case the server rejects it
+    function submit(type: string, payload: unknown) {
+        if (!isMyTurn) {
+            toast.error("It's not your turn!");
+            return;
+        }
+        if (isSubmitting) return;
+
+        setIsSubmitting(true);
+        sendGameAction(type, payload);
+        setTimeout(() => setIsSubmitting(false), 500);
+    }
+
+    function handleReturnToLobby() {
+        if (!socket || !connected) return;
+        socket.emit("abort_game", { roomId });
+    }
+
+    const handleCardPlay = useCallback(
+        (card: PlayingCard) => {
+            if (!isMyTurn) return;
+            sendGameAction("PLAY_CARD", { card });
+        },
+        [isMyTurn, sendGameAction]
+    );
+
+    const handleDiscard = useCallback(
+        (card: PlayingCard) => {
+            sendGameAction("DISCARD", { card });
+        },
+        [sendGameAction]
+    );
+
+    // Build team scores for scoreboard
+    const teamScores = Object.entries(gameData.teams).map(([teamId, team]) => ({
+        teamId,
+        teamName: getTeamName(teamId),
+        players: team.players.map((pid) => gameData.players[pid]?.name || pid),
+        score: team.score,
+        roundScore: gameData.roundTeamScores?.[Number(teamId)],
+    }));
+
+    return (
+        <div className="h-screen w-full overflow-hidden">
+            <EuchreGameTable
+                gameData={gameData}
+                playerData={playerData}
+                isMyTurn={isMyTurn}
+                onCardPlay={handleCardPlay}
+                onDiscard={handleDiscard}
+                showHints={showHints}
+                onContinue={() =>
+                    sendSystemAction("CONTINUE_AFTER_TRICK_RESULT", {})
+                }
+            />
+
+            {/* Game Menu */}
+            <GameMenu isLeader={isLeader} roomCode={roomCode || roomId}>
+                <GameSettingToggle
+                    storageKey="euchre.showHints"
+                    label="Show Valid Moves"
+                    icon={<Lightbulb className="h-4 w-4" />}
+                    defaultValue={false}
+                />
+            </GameMenu>
+
+            {/* Scoreboard */}
+            <GameScoreboard
+                teams={teamScores}
+                round={gameData.round}
+                phase={gameData.phase}
+                winTarget={gameData.settings?.winTarget}
+            />
+
+            {/* Reopen a hidden trump modal */}
+            <Button
+                className="fixed bottom-6 right-6 z-40 px-4 py-2 rounded-lg shadow-md bg-cyan-600 text-white hover:bg-cyan-700 transition-colors"
+                onClick={() => setCallModalOpen(true)}
+                style={{
+                    display:
+                        isMyTurn && isCallingPhase && !callModalOpen
+                            ? "block"
+                            : "none",
+                }}
+            >
+                {gameData.callingRound === 1 ? "Order Up?" : "Name Trump"}
+            </Button>
+
+            <CallTrumpModal
+                isOpen={callModalOpen}
+                setIsOpen={setCallModalOpen}
+                upcard={gameData.upcard}
+                callingRound={gameData.callingRound}
+                isDealer={isDealer}
+                canPass={!isStuck}
+                onCallTrump={(trumpSuit, alone) =>
+                    submit("CALL_TRUMP", { trumpSuit, alone })
+                }
+                onPass={() => submit("PASS", {})}
+                isSubmitting={isSubmitting}
+            />
+
+            {/* Take back the last play */}
+            <UndoControls
+                players={gameData.players}
+                undoPlayerId={gameData.undoPlayerId}
+                undoRequest={gameData.undoRequest}
+                sendGameAction={sendGameAction}
+            />
+
+            {/* Round Summary Modal */}
+            <RoundSummaryModal
+                gameData={gameData}
+                sendGameAction={sendSystemAction}
+            />
+
+            {/* Game Summary Modal */}
+            <GameSummaryModal
+                gameData={gameData}
+                onReturnToLobby={handleReturnToLobby}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,149 @@
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Crown } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import {
+    EuchreCallingRound,
+    PlayingCard as PlayingCardType,
+    STANDARD_SUITS,
+} from "@shared/types";
+import { canCallTrump } from "@shared/validation";
+import { PlayingCard } from "@/components/games/shared";
+import { SUIT_COLORS, SUIT_SYMBOLS } from "./suits";
+
+export default function CallTrumpModal({
+    isOpen,
+    setIsOpen,
+    upcard,
+    callingRound,
+    isDealer,
+    canPass,
+    onCallTrump,
+    onPass,
+    isSubmitting,
+}: {
+    isOpen: boolean;
+    setIsOpen: React.Dispatch<React.SetStateAction<boolean>>;
+    /** The turned-up card - ordered up first time round, then turned down */
+    upcard: PlayingCardType;
+    callingRound: EuchreCallingRound;
+    /** The dealer picks the upcard up rather than ordering it up */
+    isDealer: boolean;
+    /** False for a stuck dealer once everyone has passed twice */
+    canPass: boolean;
+    onCallTrump: (trumpSuit: PlayingCardType["suit"], alone: boolean) => void;
+    onPass: () => void;
+    isSubmitting?: boolean;
+}) {
+    const [alone, setAlone] = useState(false);
+
+    // Start each call with a partner
+    useEffect(() => {
+        if (isOpen) setAlone(false);
+    }, [isOpen, callingRound]);
+
+    const isFirstRound = callingRound === 1;
+    const upcardSymbol = SUIT_SYMBOLS[upcard.suit];
+
+    function call(trumpSuit: PlayingCardType["suit"]) {
+        onCallTrump(trumpSuit, alone);
+        setIsOpen(false);
+    }
+
+    return (
+        <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogContent className="flex flex-col items-center gap-3 sm:gap-5 max-w-[95vw] sm:max-w-sm bg-slate-900 border-white/10 text-white p-3 sm:p-6">
+                <DialogTitle className="flex items-center gap-2 text-base sm:text-xl font-bold text-white">
+                    <Crown className="w-5 h-5 sm:w-6 sm:h-6 text-amber-400" />
+                    {isFirstRound ? "Order Up?" : "Name Trump"}
+                </DialogTitle>
+
+                <DialogDescription className="text-xs sm:text-sm text-white/60 text-center -mt-1 sm:-mt-2">
+                    {isFirstRound
+                        ? isDealer
+                            ? `Pick up the upcard to make ${upcardSymbol} trump, then discard a card.`
+                            : `Make ${upcardSymbol} trump - the dealer picks up the upcard.`
+                        : `The upcard was turned down. Name any suit but ${upcardSymbol}.`}
+                </DialogDescription>
+
+                <PlayingCard card={upcard} size="md" disabled={!isFirstRound} />
+
+                {isFirstRound ? (
+                    <Button
+                        className="w-full h-10 sm:h-12 text-sm sm:text-base font-semibold rounded-xl bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 text-white shadow-lg"
+                        onClick={() => call(upcard.suit)}
+                        disabled={isSubmitting}
+                    >
+                        {isDealer ? "Pick It Up" : "Order It Up"}
+                    </Button>
+                ) : (
+                    <div className="grid grid-cols-3 gap-2 w-full">
+                        {STANDARD_SUITS.filter((suit) =>
+                            canCallTrump(suit, upcard.suit, callingRound)
+                        ).map((suit) => (
+                            <Button
+                                key={suit}
+                                variant="outline"
+                                onClick={() => call(suit)}
+                                disabled={isSubmitting}
+                                aria-label={`${suit} trump`}
+                                className={`h-14 text-3xl rounded-xl border-white/20 bg-slate-800 hover:bg-slate-700 ${SUIT_COLORS[suit]}`}
+                            >
+                                {SUIT_SYMBOLS[suit]}
+                            </Button>
+                        ))}
+                    </div>
+                )}
+
+                {/* Going alone sits the caller's partner out */}
+                <div className="flex items-center gap-2 self-start">
+                    <Switch
+                        id="euchre-go-alone"
+                        checked={alone}
+                        onCheckedChange={setAlone}
+                    />
+                    <Label
+                        htmlFor="euchre-go-alone"
+                        className="text-xs sm:text-sm text-white/80"
+                    >
+                        Go alone (partner sits out, march scores 4)
+                    </Label>
+                </div>
+
+                {canPass ? (
+                    <Button
+                        variant="outline"
+                        className="w-full h-10 text-sm font-semibold rounded-xl border-white/20 bg-transparent text-white/80 hover:bg-white/10 hover:text-white"
+                        onClick={() => {
+                            onPass();
+                            setIsOpen(false);
+                        }}
+                        disabled={isSubmitting}
+                    >
+                        Pass
+                    </Button>
+                ) : (
+                    <p className="text-xs text-amber-300/80 text-center">
+                        Everyone passed - stick the dealer! You have to name
+                        trump.
+                    </p>
+                )}
+
+                <Button
+                    variant="ghost"
+                    className="w-full h-8 sm:h-10 text-sm text-white/60 hover:text-white hover:bg-white/10"
+                    onClick={() => setIsOpen(false)}
+                >
+                    Hide
+                </Button>
+            </DialogContent>
+        </Dialog>
+    );
+}
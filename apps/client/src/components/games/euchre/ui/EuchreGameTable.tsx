@@ -0,0 +1,656 @@
+"use client";
+
+import React, {
+    useState,
+    useCallback,
+    useEffect,
+    useRef,
+    useMemo,
+} from "react";
+import { motion, AnimatePresence, LayoutGroup } from "motion/react";
+import { toast } from "sonner";
+import {
+    EuchreData,
+    EuchrePlayerData,
+    PlayingCard as PlayingCardType,
+    EUCHRE_DECK_SIZE,
+    EUCHRE_HAND_SIZE,
+} from "@shared/types";
+import {
+    GameTable,
+    TableCenter,
+    EdgeRegion,
+    CardHand,
+    CardDeck,
+    PlayerInfo,
+    PlayingCard,
+    TrickPile,
+    EdgePosition,
+    ActionConfirmationBar,
+    DealingOverlay,
+    DealingItem,
+} from "@/components/games/shared";
+import { Badge } from "@/components/ui/badge";
+import { Crown } from "lucide-react";
+import {
+    getEuchreTrickRules,
+    getUnplayableCardIndices,
+} from "@shared/validation";
+import { useTurnTimer } from "@/hooks";
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import { useSession } from "@/contexts/SessionContext";
+import { playTimerStartSound, initializeAudioOnInteraction } from "@/lib/audio";
+import { SUIT_SYMBOLS, formatContract } from "./suits";
+import { getPlayerTeamId, getTeamStyle } from "./teams";
+
+interface EuchreGameTableProps {
+    gameData: EuchreData;
+    playerData: EuchrePlayerData;
+    isMyTurn: boolean;
+    onCardPlay: (card: PlayingCardType) => void;
+    /** Sends the dealer's discard after picking up the upcard */
+    onDiscard?: (card: PlayingCardType) => void;
+    showHints?: boolean;
+    /** Every player's hand, shown face up (replays) */
+    revealedHands?: Record<string, PlayingCardType[]>;
+    /** Marks the current player ready to move past the trick result */
+    onContinue?: () => void;
+}
+
+// Seats clockwise from the local player - partners sit across
+const EDGE_POSITIONS: EdgePosition[] = ["bottom", "left", "top", "right"];
+
+function EuchreGameTable({
+    gameData,
+    playerData,
+    isMyTurn,
+    onCardPlay,
+    onDiscard,
+    showHints = false,
+    revealedHands,
+    onContinue,
+}: EuchreGameTableProps) {
+    const [selectedCardIndex, setSelectedCardIndex] = useState<number | null>(
+        null
+    );
+    const [isHeroHandSpread, setIsHeroHandSpread] = useState(false);
+    const { clockOffset } = useWebSocket();
+    const { userId } = useSession();
+
+    const { contract } = gameData;
+    const isCalling = gameData.phase === "calling";
+    // The dealer picks up the upcard and discards on their turn
+    const canDiscard =
+        gameData.phase === "discarding" && isMyTurn && !!onDiscard;
+
+    // Ready-to-continue gate while the trick result is shown
+    const trickGate =
+        gameData.phase === "trick-result" ? gameData.continueGate : null;
+    const isWaitingOnMe =
+        !!onContinue && !!userId && !!trickGate?.waitingOn.includes(userId);
+
+    // Deal animation state
+    const [isDealing, setIsDealing] = useState(false);
+    const [dealingCards, setDealingCards] = useState<DealingItem[]>([]);
+    const [visibleCardCounts, setVisibleCardCounts] = useState<
+        Record<string, number>
+    >({});
+    const previousDealRef = useRef<number | null>(null);
+    const hasDealtRef = useRef(false);
+
+    const playerCount = playerData.localOrdering.length;
+
+    // Initialize audio on first user interaction
+    useEffect(() => {
+        initializeAudioOnInteraction();
+    }, []);
+
+    const turnTimeLimit = gameData.settings?.turnTimeLimit ?? 0;
+
+    // Track isMyTurn in a ref so the callback always has the latest value
+    const isMyTurnRef = useRef(isMyTurn);
+    useEffect(() => {
+        isMyTurnRef.current = isMyTurn;
+    }, [isMyTurn]);
+
+    // Only play audio cue when it's the local player's turn
+    const handleTimerStart = useCallback(() => {
+        if (isMyTurnRef.current) {
+            playTimerStartSound();
+        }
+    }, []);
+
+    const { isActive: timerIsActive } = useTurnTimer(
+        gameData.turnTimer,
+        clockOffset,
+        handleTimerStart
+    );
+
+    // Don't show timer during trick-result phase or dealing
+    const timerPropsCache = useMemo(() => {
+        if (
+            turnTimeLimit <= 0 ||
+            isDealing ||
+            gameData.phase === "trick-result" ||
+            !timerIsActive ||
+            !gameData.turnTimer?.startedAt
+        ) {
+            return undefined;
+        }
+        return {
+            totalMs: turnTimeLimit * 1000,
+            startedAt: gameData.turnTimer.startedAt,
+            clockOffset,
+        };
+    }, [
+        turnTimeLimit,
+        isDealing,
+        gameData.phase,
+        timerIsActive,
+        gameData.turnTimer?.startedAt,
+        clockOffset,
+    ]);
+
+    // Memoize unplayable card indices for performance
+    const unplayableIndices = useMemo(
+        () =>
+            getUnplayableCardIndices(
+                playerData.hand,
+                gameData.currentTrick,
+                getEuchreTrickRules(gameData.trumpSuit ?? "")
+            ),
+        [playerData.hand, gameData.currentTrick, gameData.trumpSuit]
+    );
+
+    // Calculate which cards are unplayable when hints are enabled
+    const disabledCardIndices =
+        showHints && isMyTurn && gameData.phase === "playing"
+            ? unplayableIndices
+            : [];
+
+    // Handle card selection (two-step: select, then confirm)
+    const handleCardSelect = useCallback(
+        (index: number, card: PlayingCardType) => {
+            if (selectedCardIndex === index) {
+                // Clear selection and spread FIRST to prevent visual glitch
+                setSelectedCardIndex(null);
+                setIsHeroHandSpread(false);
+                onCardPlay(card);
+            } else {
+                setSelectedCardIndex(index);
+            }
+        },
+        [selectedCardIndex, onCardPlay]
+    );
+
+    // Handle play button click
+    const handlePlayCard = useCallback(() => {
+        if (selectedCardIndex !== null && playerData.hand[selectedCardIndex]) {
+            const card = playerData.hand[selectedCardIndex];
+            setSelectedCardIndex(null);
+            setIsHeroHandSpread(false);
+            onCardPlay(card);
+        }
+    }, [selectedCardIndex, playerData.hand, onCardPlay]);
+
+    // Handle discard button click
+    const handleDiscard = useCallback(() => {
+        if (selectedCardIndex !== null && playerData.hand[selectedCardIndex]) {
+            const card = playerData.hand[selectedCardIndex];
+            setSelectedCardIndex(null);
+            setIsHeroHandSpread(false);
+            onDiscard?.(card);
+        }
+    }, [selectedCardIndex, playerData.hand, onDiscard]);
+
+    // Handle cancel selection
+    const handleCancelSelection = useCallback(() => {
+        setSelectedCardIndex(null);
+    }, []);
+
+    // Track if we've shown the turn toast for this turn
+    const turnToastShownRef = useRef<number | null>(null);
+
+    // Deal animation effect - trigger on every new deal (a thrown-in hand
+    // is redealt under the same round number)
+    const dealCount = gameData.deals?.length ?? 0;
+    useEffect(() => {
+        const currentDeal = dealCount;
+
+        // Detect a new deal (deal count changed or first load with cards)
+        const isNewDeal =
+            previousDealRef.current !== null &&
+            previousDealRef.current !== currentDeal;
+        const isFirstLoad =
+            previousDealRef.current === null &&
+            playerData.hand.length === EUCHRE_HAND_SIZE &&
+            !hasDealtRef.current;
+
+        if (isNewDeal || isFirstLoad) {
+            hasDealtRef.current = true;
+
+            const runDealAnimation = async () => {
+                setIsDealing(true);
+                setVisibleCardCounts({});
+                setDealingCards([]);
+
+                // Brief pause before dealing
+                await new Promise((resolve) => setTimeout(resolve, 300));
+
+                // Build deal sequence - cycle through players like a real dealer
+                const dealSequence: {
+                    playerId: string;
+                    position: EdgePosition;
+                }[] = [];
+                for (let round = 0; round < EUCHRE_HAND_SIZE; round++) {
+                    for (let p = 0; p < playerCount; p++) {
+                        dealSequence.push({
+                            playerId: playerData.localOrdering[p],
+                            position: EDGE_POSITIONS[p],
+                        });
+                    }
+                }
+
+                const CARD_INTERVAL = 25; // Fast dealing
+                for (let i = 0; i < dealSequence.length; i++) {
+                    const { playerId, position } = dealSequence[i];
+
+                    // Show flying card
+                    setDealingCards([
+                        {
+                            id: `deal-${currentDeal}-${i}`,
+                            targetPosition: position,
+                            delay: 0,
+                        },
+                    ]);
+
+                    await new Promise((resolve) =>
+                        setTimeout(resolve, CARD_INTERVAL - 8)
+                    );
+
+                    setVisibleCardCounts((prev) => ({
+                        ...prev,
+                        [playerId]: (prev[playerId] || 0) + 1,
+                    }));
+                    setDealingCards([]);
+
+                    await new Promise((resolve) => setTimeout(resolve, 8));
+                }
+
+                setIsDealing(false);
+            };
+
+            runDealAnimation();
+        }
+
+        previousDealRef.current = currentDeal;
+    }, [
+        dealCount,
+        playerData.hand.length,
+        playerData.localOrdering,
+        playerCount,
+    ]);
+
+    // Reset selections when the turn, phase or deal changes
+    useEffect(() => {
+        setSelectedCardIndex(null);
+        setIsHeroHandSpread(false);
+    }, [gameData.currentTurnIndex, gameData.phase, dealCount]);
+
+    // Show toast when it's the player's turn
+    useEffect(() => {
+        if (
+            isMyTurn &&
+            gameData.phase === "playing" &&
+            turnToastShownRef.current !== gameData.currentTurnIndex
+        ) {
+            turnToastShownRef.current = gameData.currentTurnIndex;
+            toast.info("Your turn! Select a card to play", {
+                id: "your-turn-toast",
+                duration: 4000,
+                dismissible: true,
+            });
+        }
+    }, [isMyTurn, gameData.phase, gameData.currentTurnIndex]);
+
+    // Handle table click to collapse spread hands
+    const handleTableClick = useCallback(() => {
+        if (isHeroHandSpread) {
+            setIsHeroHandSpread(false);
+        }
+    }, [isHeroHandSpread]);
+
+    // Get trick plays for display
+    const trickPlays =
+        gameData.currentTrick?.plays.map((play) => ({
+            playerId: play.playerId,
+            card: play.card,
+            playerName: gameData.players[play.playerId]?.name,
+        })) ?? [];
+
+    // The upcard sits on the kitty while trump is called
+    const showUpcard = !isDealing && isCalling;
+
+    // Calculate cards to show during dealing animation
+    const getCardsToShow = (
+        playerId: string,
+        isLocal: boolean
+    ): PlayingCardType[] => {
+        const hand = isLocal
+            ? playerData.hand
+            : (revealedHands?.[playerId] ?? []);
+        if (!isDealing) {
+            return hand;
+        }
+        const visibleCount = visibleCardCounts[playerId] || 0;
+        return hand.slice(0, visibleCount);
+    };
+
+    const getCardCountToShow = (playerId: string): number => {
+        if (!isDealing) {
+            return gameData.handsCounts?.[playerId] ?? 0;
+        }
+        return visibleCardCounts[playerId] || 0;
+    };
+
+    // What the center banner says about the hand so far
+    const getStatusText = (): string => {
+        if (isCalling) {
+            return gameData.callingRound === 1
+                ? "Order up or pass"
+                : "Name trump or pass";
+        }
+        if (!contract) return "";
+        if (gameData.phase === "discarding") {
+            const dealerName =
+                gameData.players[gameData.playOrder[gameData.dealerIndex]]
+                    ?.name || "Unknown";
+            return `${dealerName} is discarding`;
+        }
+        return `Trick ${gameData.completedTricks.length + 1}`;
+    };
+
+    return (
+        <div className="h-full w-full">
+            <LayoutGroup>
+                <GameTable
+                    playerCount={playerCount}
+                    isDealing={isDealing}
+                    showDebugGrid={false}
+                    onTableClick={handleTableClick}
+                >
+                    {/* Player Edge Regions */}
+                    {playerData.localOrdering.map((playerId, index) => {
+                        const isLocal = index === 0;
+                        const player = gameData.players[playerId];
+                        const isCurrentTurn =
+                            gameData.playOrder[gameData.currentTurnIndex] ===
+                            playerId;
+                        const hasPassed = gameData.passes.includes(playerId);
+                        const isMaker = contract?.makerId === playerId;
+                        const isSittingOut =
+                            gameData.sittingOut.includes(playerId);
+                        const isDealer =
+                            gameData.playOrder[gameData.dealerIndex] ===
+                            playerId;
+                        const tricksWon =
+                            gameData.roundTrickCounts?.[playerId] ?? 0;
+                        const edgePosition = EDGE_POSITIONS[index];
+                        const teamId = getPlayerTeamId(gameData, playerId);
+
+                        return (
+                            <EdgeRegion
+                                key={playerId}
+                                position={edgePosition}
+                                isHero={isLocal}
+                                isDealing={isDealing}
+                            >
+                                <PlayerInfo
+                                    playerId={playerId}
+                                    playerName={player?.name || "Unknown"}
+                                    isCurrentTurn={isCurrentTurn && !isDealing}
+                                    isLocalPlayer={isLocal}
+                                    seatPosition={edgePosition}
+                                    teamColor={
+                                        teamId !== undefined
+                                            ? getTeamStyle(teamId).color
+                                            : undefined
+                                    }
+                                    turnTimer={
+                                        isCurrentTurn && timerPropsCache
+                                            ? timerPropsCache
+                                            : undefined
+                                    }
+                                    customStats={() => (
+                                        <div className="flex gap-1 items-center">
+                                            {isDealer && (
+                                                <Badge
+                                                    variant="outline"
+                                                    className="text-[10px] px-1.5 py-0 bg-black/30 border-white/20 text-white/80"
+                                                >
+                                                    Dealer
+                                                </Badge>
+                                            )}
+                                            {isCalling && hasPassed && (
+                                                <Badge
+                                                    variant="outline"
+                                                    className="text-[10px] px-1.5 py-0 bg-black/30 border-white/20 text-white/80"
+                                                >
+                                                    Pass
+                                                </Badge>
+                                            )}
+                                            {isMaker && contract && (
+                                                <Badge className="text-[10px] px-1.5 py-0 bg-amber-600 text-white border-amber-400 flex items-center gap-0.5">
+                                                    <Crown className="w-2.5 h-2.5" />
+                                                    {formatContract(contract)}
+                                                </Badge>
+                                            )}
+                                            {isSittingOut ? (
+                                                <Badge
+                                                    variant="outline"
+                                                    className="text-[10px] px-1.5 py-0 bg-black/30 border-white/20 text-white/50"
+                                                >
+                                                    Sitting out
+                                                </Badge>
+                                            ) : (
+                                                !isCalling && (
+                                                    <Badge
+                                                        variant="outline"
+                                                        className="text-[10px] px-1.5 py-0 bg-black/30 border-white/20 text-white/80"
+                                                    >
+                                                        Tricks: {tricksWon}
+                                                    </Badge>
+                                                )
+                                            )}
+                                        </div>
+                                    )}
+                                />
+                                <CardHand
+                                    cards={getCardsToShow(playerId, isLocal)}
+                                    cardCount={getCardCountToShow(playerId)}
+                                    isLocalPlayer={isLocal}
+                                    revealCards={!!revealedHands}
+                                    interactive={
+                                        isLocal &&
+                                        !isDealing &&
+                                        (canDiscard ||
+                                            (isMyTurn &&
+                                                gameData.phase === "playing"))
+                                    }
+                                    selectedIndex={
+                                        isLocal ? selectedCardIndex : null
+                                    }
+                                    disabledIndices={
+                                        isLocal ? disabledCardIndices : []
+                                    }
+                                    onCardClick={
+                                        isLocal
+                                            ? canDiscard
+                                                ? setSelectedCardIndex
+                                                : handleCardSelect
+                                            : undefined
+                                    }
+                                    playerId={playerId}
+                                    isDealing={isDealing}
+                                    isSpreadControlled={
+                                        isLocal ? isHeroHandSpread : undefined
+                                    }
+                                    onSpreadChange={
+                                        isLocal
+                                            ? setIsHeroHandSpread
+                                            : undefined
+                                    }
+                                />
+                            </EdgeRegion>
+                        );
+                    })}
+
+                    {/* Center Area */}
+                    <TableCenter className="flex flex-col items-center gap-4">
+                        {/* Deal animation - deck and flying cards */}
+                        {isDealing && (
+                            <>
+                                <CardDeck
+                                    cardCount={
+                                        EUCHRE_DECK_SIZE -
+                                        dealingCards.length * playerCount
+                                    }
+                                />
+                                <DealingOverlay dealingItems={dealingCards} />
+                            </>
+                        )}
+
+                        {/* Round indicator - hide during dealing */}
+                        {!isDealing && (
+                            <motion.div
+                                className="bg-black/30 backdrop-blur-sm rounded-full px-4 py-1"
+                                initial={{ opacity: 0, y: -10 }}
+                                animate={{ opacity: 1, y: 0 }}
+                            >
+                                <span className="text-white/80 text-sm font-medium">
+                                    Round {gameData.round} • {getStatusText()}
+                                    {gameData.trumpSuit &&
+                                        ` • ${SUIT_SYMBOLS[gameData.trumpSuit]} trump`}
+                                </span>
+                            </motion.div>
+                        )}
+
+                        {/* The kitty with the upcard on top - turned down
+                            (dimmed) once everyone passes on it */}
+                        {showUpcard && (
+                            <div className="flex items-center gap-3">
+                                <CardDeck cardCount={gameData.kittyCount} />
+                                <div className="flex flex-col items-center gap-1">
+                                    <PlayingCard
+                                        card={gameData.upcard}
+                                        size="md"
+                                        disabled={gameData.callingRound === 2}
+                                    />
+                                    <span className="text-white/60 text-xs">
+                                        {gameData.callingRound === 1
+                                            ? "Upcard"
+                                            : "Turned down"}
+                                    </span>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Discarding instructions */}
+                        {!isDealing && gameData.phase === "discarding" && (
+                            <div className="bg-black/40 backdrop-blur-sm rounded-xl px-5 py-3 text-center text-white/90 text-sm">
+                                {canDiscard
+                                    ? "You picked up the upcard. Choose a card to discard."
+                                    : "Waiting for the dealer to discard"}
+                            </div>
+                        )}
+
+                        {/* Trick pile - hide during dealing and calling */}
+                        {!isDealing && gameData.trumpSuit && (
+                            <TrickPile
+                                plays={trickPlays}
+                                winningPlayerId={gameData.lastTrickWinnerId}
+                                winningCard={
+                                    gameData.phase === "trick-result"
+                                        ? gameData.lastTrickWinningCard
+                                        : undefined
+                                }
+                            />
+                        )}
+
+                        {/* Trick result message */}
+                        <AnimatePresence>
+                            {!isDealing &&
+                                gameData.phase === "trick-result" &&
+                                gameData.lastTrickWinnerId && (
+                                    <motion.div
+                                        className={`bg-amber-500/90 backdrop-blur-sm rounded-xl px-6 py-3 shadow-lg ${
+                                            isWaitingOnMe
+                                                ? "cursor-pointer"
+                                                : ""
+                                        }`}
+                                        onClick={
+                                            isWaitingOnMe
+                                                ? onContinue
+                                                : undefined
+                                        }
+                                        initial={{
+                                            opacity: 0,
+                                            scale: 0.8,
+                                            y: 20,
+                                        }}
+                                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                                        exit={{
+                                            opacity: 0,
+                                            scale: 0.8,
+                                            y: -20,
+                                        }}
+                                        transition={{
+                                            type: "spring",
+                                            stiffness: 300,
+                                            damping: 25,
+                                        }}
+                                    >
+                                        <span className="text-amber-900 font-semibold">
+                                            {gameData.players[
+                                                gameData.lastTrickWinnerId
+                                            ]?.name || "Unknown"}{" "}
+                                            took the trick!
+                                        </span>
+                                        {trickGate && (
+                                            <span className="block text-center text-xs text-amber-900/70">
+                                                {isWaitingOnMe
+                                                    ? "Tap when ready"
+                                                    : `Waiting on ${trickGate.waitingOn.length}`}
+                                            </span>
+                                        )}
+                                    </motion.div>
+                                )}
+                        </AnimatePresence>
+                    </TableCenter>
+                </GameTable>
+            </LayoutGroup>
+
+            {/* Play card confirmation bar */}
+            <ActionConfirmationBar
+                isVisible={
+                    selectedCardIndex !== null &&
+                    isMyTurn &&
+                    gameData.phase === "playing"
+                }
+                onConfirm={handlePlayCard}
+                onCancel={handleCancelSelection}
+                confirmLabel="Play Card"
+            />
+
+            {/* Dealer discard confirmation bar */}
+            <ActionConfirmationBar
+                isVisible={canDiscard && selectedCardIndex !== null}
+                onConfirm={handleDiscard}
+                onCancel={handleCancelSelection}
+                confirmLabel="Discard"
+            />
+        </div>
+    );
+}
+
+export default EuchreGameTable;
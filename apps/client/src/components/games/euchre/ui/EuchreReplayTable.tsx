@@ -0,0 +1,36 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { EuchreData, EuchrePlayerData } from "@shared/types";
+import EuchreGameTable from "./EuchreGameTable";
+import type { ReplayTableProps } from "@/components/games/registry";
+
+/**
+ * EuchreReplayTable - Read-only Euchre table for replays, with every hand face up.
+ */
+export default function EuchreReplayTable({
+    gameData,
+    playerData,
+    playerStates,
+}: ReplayTableProps<EuchreData, EuchrePlayerData>) {
+    const revealedHands = useMemo(
+        () =>
+            Object.fromEntries(
+                Object.entries(playerStates).map(([playerId, state]) => [
+                    playerId,
+                    state.hand,
+                ])
+            ),
+        [playerStates]
+    );
+
+    return (
+        <EuchreGameTable
+            gameData={gameData}
+            playerData={playerData}
+            isMyTurn={false}
+            onCardPlay={() => {}}
+            revealedHands={revealedHands}
+        />
+    );
+}
@@ -0,0 +1,172 @@
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { EuchreData, EuchreScoreBreakdown } from "@shared/types";
+import {
+    ContinueGateStatus,
+    DealVerification,
+} from "@/components/games/shared";
+import { motion } from "motion/react";
+import { Trophy, TrendingUp, Users, Layers } from "lucide-react";
+import React from "react";
+import { getTeamName, getTeamStyle } from "./teams";
+import { formatContract } from "./suits";
+
+/**
+ * How the team did this hand, e.g. "5 tricks - march!".
+ */
+function describeTricks(breakdown: EuchreScoreBreakdown | undefined): string {
+    if (!breakdown) return "";
+    const tricks = `${breakdown.tricks} trick${breakdown.tricks === 1 ? "" : "s"}`;
+    if (!breakdown.isMaker) return `${tricks} - defending`;
+    if (breakdown.euchred) return `${tricks} - euchred`;
+    return breakdown.march ? `${tricks} - march!` : `${tricks} - made it`;
+}
+
+export default function RoundSummaryModal({
+    gameData,
+    sendGameAction,
+}: {
+    gameData: EuchreData;
+    sendGameAction: (type: string, payload: unknown) => void;
+}) {
+    const isOpen = gameData.phase === "round-summary";
+    const { contract } = gameData;
+
+    return (
+        <Dialog open={isOpen}>
+            <DialogContent className="flex flex-col items-center gap-4 sm:gap-6 max-w-[95vw] sm:max-w-lg max-h-[85vh] sm:max-h-[90vh] overflow-y-auto bg-slate-900 border-white/10 text-white p-4 sm:p-6">
+                <DialogTitle className="flex items-center gap-2 text-xl sm:text-2xl font-bold text-white">
+                    <Trophy className="w-6 h-6 sm:w-7 sm:h-7 text-amber-400" />
+                    Round {gameData.round} Complete
+                </DialogTitle>
+
+                {contract && (
+                    <div className="text-sm text-white/70 text-center -mt-2">
+                        {gameData.players[contract.makerId]?.name || "Unknown"}{" "}
+                        called {formatContract(contract)}
+                    </div>
+                )}
+
+                <div className="w-full space-y-4">
+                    {Object.entries(gameData.teams).map(
+                        ([teamId, team], index) => {
+                            const breakdown =
+                                gameData.roundScoreBreakdown?.[Number(teamId)];
+                            const roundScore = breakdown?.roundScore ?? 0;
+                            const isPositive = roundScore >= 0;
+
+                            return (
+                                <motion.div
+                                    key={teamId}
+                                    initial={{ opacity: 0, y: 20 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    transition={{ delay: index * 0.1 }}
+                                    className={`rounded-xl p-4 ${
+                                        getTeamStyle(index).card
+                                    }`}
+                                >
+                                    <div className="flex items-center justify-between mb-3">
+                                        <div className="flex items-center gap-2">
+                                            <Users
+                                                className={`w-5 h-5 ${
+                                                    getTeamStyle(index).text
+                                                }`}
+                                            />
+                                            <span className="font-bold text-base sm:text-lg">
+                                                {getTeamName(teamId)}
+                                            </span>
+                                        </div>
+                                        <div className="flex items-center gap-2 sm:gap-3">
+                                            <motion.div
+                                                className={`flex items-center gap-1 px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-medium ${
+                                                    isPositive
+                                                        ? "bg-emerald-500/20 text-emerald-400"
+                                                        : "bg-red-500/20 text-red-400"
+                                                }`}
+                                                initial={{ scale: 0.8 }}
+                                                animate={{ scale: 1 }}
+                                                transition={{
+                                                    delay: 0.3 + index * 0.1,
+                                                }}
+                                            >
+                                                <TrendingUp
+                                                    className={`w-4 h-4 ${
+                                                        !isPositive &&
+                                                        "rotate-180"
+                                                    }`}
+                                                />
+                                                {isPositive ? "+" : ""}
+                                                {roundScore}
+                                            </motion.div>
+                                            <div className="text-xl sm:text-2xl font-bold">
+                                                {team.score}
+                                            </div>
+                                        </div>
+                                    </div>
+
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                        {team.players.map((pid) => (
+                                            <div
+                                                key={pid}
+                                                className="flex items-center justify-between bg-white/5 rounded-lg px-2 sm:px-3 py-2"
+                                            >
+                                                <span className="font-medium text-white/90 truncate max-w-[120px] sm:max-w-[100px] text-sm">
+                                                    {gameData.players[pid]
+                                                        ?.name || pid}
+                                                </span>
+                                                <span className="text-xs sm:text-sm text-white/60">
+                                                    {gameData.sittingOut.includes(
+                                                        pid
+                                                    ) ? (
+                                                        "Sat out"
+                                                    ) : (
+                                                        <>
+                                                            <Layers className="w-3 h-3 inline mr-1" />
+                                                            {gameData
+                                                                .roundTrickCounts[
+                                                                pid
+                                                            ] ?? 0}
+                                                        </>
+                                                    )}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    <div
+                                        className={`mt-3 text-xs ${
+                                            breakdown?.isMaker
+                                                ? breakdown.euchred
+                                                    ? "text-red-400"
+                                                    : "text-emerald-400"
+                                                : "text-white/60"
+                                        }`}
+                                    >
+                                        {describeTricks(breakdown)}
+                                    </div>
+                                </motion.div>
+                            );
+                        }
+                    )}
+                </div>
+
+                <p className="text-xs text-white/50 text-center">
+                    Makers score 1 for three tricks, 2 for a march (4 alone). A
+                    euchre scores 2 for the defenders. Game ends at{" "}
+                    {gameData.settings.winTarget} points.
+                </p>
+
+                {/* Seed for this round's deal, checked against its commitment */}
+                <DealVerification game={gameData} />
+
+                <ContinueGateStatus
+                    gate={gameData.continueGate}
+                    players={gameData.players}
+                    leaderId={gameData.leaderId}
+                    continueAction="CONTINUE_AFTER_ROUND_SUMMARY"
+                    sendGameAction={sendGameAction}
+                    className="mt-2 text-white"
+                />
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,26 @@
+// src/components/games/euchre/ui/suits.ts
+// Suit and trump labels shared by the euchre panels
+
+import { EuchreContract, PlayingCard } from "@shared/types";
+
+export const SUIT_SYMBOLS: Record<PlayingCard["suit"], string> = {
+    Spades: "♠",
+    Hearts: "♥",
+    Diamonds: "♦",
+    Clubs: "♣",
+};
+
+export const SUIT_COLORS: Record<PlayingCard["suit"], string> = {
+    Spades: "text-slate-100",
+    Hearts: "text-red-400",
+    Diamonds: "text-red-400",
+    Clubs: "text-slate-100",
+};
+
+/**
+ * "♥ trump", or "♥ trump alone" when the maker's partner sits out.
+ */
+export function formatContract(contract: EuchreContract): string {
+    const trump = `${SUIT_SYMBOLS[contract.trumpSuit]} trump`;
+    return contract.alone ? `${trump} alone` : trump;
+}
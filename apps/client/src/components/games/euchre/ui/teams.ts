@@ -0,0 +1,41 @@
+// src/components/games/euchre/ui/teams.ts
+// Team labels and colors shared by the euchre panels
+
+import { EuchreData } from "@shared/types";
+
+/**
+ * Team card styles in team order - blue vs red, as in Spades.
+ */
+export const TEAM_STYLES = [
+    {
+        card: "bg-gradient-to-br from-blue-500/20 to-blue-600/10 border border-blue-500/30",
+        text: "text-blue-400",
+        color: "#3b82f6",
+    },
+    {
+        card: "bg-gradient-to-br from-red-500/20 to-red-600/10 border border-red-500/30",
+        text: "text-red-400",
+        color: "#ef4444",
+    },
+];
+
+export function getTeamStyle(index: number) {
+    return TEAM_STYLES[index % TEAM_STYLES.length];
+}
+
+export function getTeamName(teamId: string | number): string {
+    return `Team ${Number(teamId) + 1}`;
+}
+
+/**
+ * The team a player sits on, or undefined if they aren't seated.
+ */
+export function getPlayerTeamId(
+    gameData: EuchreData,
+    playerId: string
+): number | undefined {
+    const entry = Object.entries(gameData.teams).find(([, team]) =>
+        team.players.includes(playerId)
+    );
+    return entry ? Number(entry[0]) : undefined;
+}
@@ -0,0 +1,689 @@
+"use client";
+
+import React, {
+    useState,
+    useCallback,
+    useEffect,
+    useRef,
+    useMemo,
+} from "react";
+import { motion, AnimatePresence, LayoutGroup } from "motion/react";
+import { toast } from "sonner";
+import {
+    HeartsData,
+    HeartsPlayerData,
+    PlayingCard as PlayingCardType,
+    HEARTS_DECK_SIZE,
+    HEARTS_PASS_COUNT,
+} from "@shared/types";
+import {
+    GameTable,
+    TableCenter,
+    EdgeRegion,
+    CardHand,
+    CardDeck,
+    PlayerInfo,
+    PlayingCard,
+    TrickPile,
+    EdgePosition,
+    ActionConfirmationBar,
+    DealingOverlay,
+    DealingItem,
+} from "@/components/games/shared";
+import { Badge } from "@/components/ui/badge";
+import { Heart } from "lucide-react";
+import {
+    getHeartsTrickRules,
+    getUnplayableCardIndices,
+} from "@shared/validation";
+import { useTurnTimer } from "@/hooks";
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import { useSession } from "@/contexts/SessionContext";
+import { playTimerStartSound, initializeAudioOnInteraction } from "@/lib/audio";
+import { getPassSeatOffset, PASS_DIRECTION_LABELS } from "./passing";
+
+interface HeartsGameTableProps {
+    gameData: HeartsData;
+    playerData: HeartsPlayerData;
+    isMyTurn: boolean;
+    onCardPlay: (card: PlayingCardType) => void;
+    /** Sends the cards chosen for this round's pass */
+    onPassCards?: (cards: PlayingCardType[]) => void;
+    showHints?: boolean;
+    /** Every player's hand, shown face up (replays) */
+    revealedHands?: Record<string, PlayingCardType[]>;
+    /** Marks the current player ready to move past the trick result */
+    onContinue?: () => void;
+}
+
+// Seats clockwise from the local player (left is the next seat)
+const EDGE_POSITIONS: EdgePosition[] = ["bottom", "left", "top", "right"];
+
+function HeartsGameTable({
+    gameData,
+    playerData,
+    isMyTurn,
+    onCardPlay,
+    onPassCards,
+    showHints = false,
+    revealedHands,
+    onContinue,
+}: HeartsGameTableProps) {
+    const [selectedCardIndex, setSelectedCardIndex] = useState<number | null>(
+        null
+    );
+    const [selectedPassIndices, setSelectedPassIndices] = useState<number[]>(
+        []
+    );
+    const [isHeroHandSpread, setIsHeroHandSpread] = useState(false);
+    const { clockOffset } = useWebSocket();
+    const { userId } = useSession();
+
+    // Everyone chooses their pass at once
+    const isPassing = gameData.phase === "passing";
+    const hasPassed = gameData.passedPlayerIds.includes(
+        playerData.localOrdering[0]
+    );
+    const canPass = isPassing && !hasPassed && !!onPassCards;
+
+    // Ready-to-continue gate while the trick result is shown
+    const trickGate =
+        gameData.phase === "trick-result" ? gameData.continueGate : null;
+    const isWaitingOnMe =
+        !!onContinue && !!userId && !!trickGate?.waitingOn.includes(userId);
+
+    // Deal animation state
+    const [isDealing, setIsDealing] = useState(false);
+    const [dealingCards, setDealingCards] = useState<DealingItem[]>([]);
+    const [visibleCardCounts, setVisibleCardCounts] = useState<
+        Record<string, number>
+    >({});
+    const previousRoundRef = useRef<number | null>(null);
+    const hasDealtRef = useRef(false);
+
+    const playerCount = playerData.localOrdering.length;
+
+    // Initialize audio on first user interaction
+    useEffect(() => {
+        initializeAudioOnInteraction();
+    }, []);
+
+    const turnTimeLimit = gameData.settings?.turnTimeLimit ?? 0;
+
+    // Track whether the local player is up in a ref for the timer callback
+    const isMyMoveRef = useRef(isMyTurn || canPass);
+    useEffect(() => {
+        isMyMoveRef.current = isMyTurn || canPass;
+    }, [isMyTurn, canPass]);
+
+    // Only play audio cue when it's the local player's move
+    const handleTimerStart = useCallback(() => {
+        if (isMyMoveRef.current) {
+            playTimerStartSound();
+        }
+    }, []);
+
+    const { isActive: timerIsActive } = useTurnTimer(
+        gameData.turnTimer,
+        clockOffset,
+        handleTimerStart
+    );
+
+    // Don't show timer during trick-result phase or dealing
+    const timerPropsCache = useMemo(() => {
+        if (
+            turnTimeLimit <= 0 ||
+            isDealing ||
+            gameData.phase === "trick-result" ||
+            !timerIsActive ||
+            !gameData.turnTimer?.startedAt
+        ) {
+            return undefined;
+        }
+        return {
+            totalMs: turnTimeLimit * 1000,
+            startedAt: gameData.turnTimer.startedAt,
+            clockOffset,
+        };
+    }, [
+        turnTimeLimit,
+        isDealing,
+        gameData.phase,
+        timerIsActive,
+        gameData.turnTimer?.startedAt,
+        clockOffset,
+    ]);
+
+    // While passing the server times one player at a time: bots first,
+    // then whoever hasn't passed in seat order
+    const timedPlayerId = useMemo(() => {
+        if (!isPassing) {
+            return gameData.playOrder[gameData.currentTurnIndex];
+        }
+        const waiting = gameData.playOrder.filter(
+            (id) => !gameData.passedPlayerIds.includes(id)
+        );
+        return waiting.find((id) => gameData.players[id]?.isBot) ?? waiting[0];
+    }, [
+        isPassing,
+        gameData.playOrder,
+        gameData.currentTurnIndex,
+        gameData.passedPlayerIds,
+        gameData.players,
+    ]);
+
+    // Memoize unplayable card indices for performance
+    const unplayableIndices = useMemo(
+        () =>
+            getUnplayableCardIndices(
+                playerData.hand,
+                gameData.currentTrick,
+                getHeartsTrickRules(
+                    gameData.heartsBroken,
+                    gameData.completedTricks.length === 0
+                )
+            ),
+        [
+            playerData.hand,
+            gameData.currentTrick,
+            gameData.heartsBroken,
+            gameData.completedTricks.length,
+        ]
+    );
+
+    // Calculate which cards are unplayable when hints are enabled
+    const disabledCardIndices =
+        showHints && isMyTurn && gameData.phase === "playing"
+            ? unplayableIndices
+            : [];
+
+    // Handle card selection (two-step: select, then confirm)
+    const handleCardSelect = useCallback(
+        (index: number, card: PlayingCardType) => {
+            if (selectedCardIndex === index) {
+                // Clear selection and spread FIRST to prevent visual glitch
+                setSelectedCardIndex(null);
+                setIsHeroHandSpread(false);
+                onCardPlay(card);
+            } else {
+                setSelectedCardIndex(index);
+            }
+        },
+        [selectedCardIndex, onCardPlay]
+    );
+
+    // Toggle a card in or out of the pass (up to the pass count)
+    const handlePassSelect = useCallback((index: number) => {
+        setSelectedPassIndices((prev) => {
+            if (prev.includes(index)) {
+                return prev.filter((i) => i !== index);
+            }
+            return prev.length < HEARTS_PASS_COUNT ? [...prev, index] : prev;
+        });
+    }, []);
+
+    // Handle play button click
+    const handlePlayCard = useCallback(() => {
+        if (selectedCardIndex !== null && playerData.hand[selectedCardIndex]) {
+            const card = playerData.hand[selectedCardIndex];
+            setSelectedCardIndex(null);
+            setIsHeroHandSpread(false);
+            onCardPlay(card);
+        }
+    }, [selectedCardIndex, playerData.hand, onCardPlay]);
+
+    // Handle pass button click
+    const handlePassCards = useCallback(() => {
+        if (selectedPassIndices.length !== HEARTS_PASS_COUNT) return;
+        const cards = selectedPassIndices.map((i) => playerData.hand[i]);
+        setSelectedPassIndices([]);
+        setIsHeroHandSpread(false);
+        onPassCards?.(cards);
+    }, [selectedPassIndices, playerData.hand, onPassCards]);
+
+    // Handle cancel selection
+    const handleCancelSelection = useCallback(() => {
+        setSelectedCardIndex(null);
+        setSelectedPassIndices([]);
+    }, []);
+
+    // Track if we've shown the turn toast for this turn
+    const turnToastShownRef = useRef<number | null>(null);
+
+    // Deal animation effect - trigger when round changes
+    useEffect(() => {
+        const currentRound = gameData.round;
+        const cardsPerPlayer = Math.floor(HEARTS_DECK_SIZE / playerCount);
+
+        // Detect new round (round changed or first load with cards)
+        const isNewRound =
+            previousRoundRef.current !== null &&
+            previousRoundRef.current !== currentRound;
+        const isFirstLoad =
+            previousRoundRef.current === null &&
+            playerData.hand.length === cardsPerPlayer &&
+            !hasDealtRef.current;
+
+        if (isNewRound || isFirstLoad) {
+            hasDealtRef.current = true;
+
+            const runDealAnimation = async () => {
+                setIsDealing(true);
+                setVisibleCardCounts({});
+                setDealingCards([]);
+
+                // Brief pause before dealing
+                await new Promise((resolve) => setTimeout(resolve, 300));
+
+                // Build deal sequence - cycle through players like a real dealer
+                const dealSequence: {
+                    playerId: string;
+                    position: EdgePosition;
+                }[] = [];
+                for (let round = 0; round < cardsPerPlayer; round++) {
+                    for (let p = 0; p < playerCount; p++) {
+                        dealSequence.push({
+                            playerId: playerData.localOrdering[p],
+                            position: EDGE_POSITIONS[p],
+                        });
+                    }
+                }
+
+                const CARD_INTERVAL = 25; // Fast dealing
+                for (let i = 0; i < dealSequence.length; i++) {
+                    const { playerId, position } = dealSequence[i];
+
+                    // Show flying card
+                    setDealingCards([
+                        {
+                            id: `deal-${currentRound}-${i}`,
+                            targetPosition: position,
+                            delay: 0,
+                        },
+                    ]);
+
+                    await new Promise((resolve) =>
+                        setTimeout(resolve, CARD_INTERVAL - 8)
+                    );
+
+                    setVisibleCardCounts((prev) => ({
+                        ...prev,
+                        [playerId]: (prev[playerId] || 0) + 1,
+                    }));
+                    setDealingCards([]);
+
+                    await new Promise((resolve) => setTimeout(resolve, 8));
+                }
+
+                setIsDealing(false);
+            };
+
+            runDealAnimation();
+        }
+
+        previousRoundRef.current = currentRound;
+    }, [
+        gameData.round,
+        playerData.hand.length,
+        playerData.localOrdering,
+        playerCount,
+    ]);
+
+    // Reset selections when the turn, phase or round changes
+    useEffect(() => {
+        setSelectedCardIndex(null);
+        setSelectedPassIndices([]);
+        setIsHeroHandSpread(false);
+    }, [gameData.currentTurnIndex, gameData.phase, gameData.round]);
+
+    // Show toast when it's the player's turn
+    useEffect(() => {
+        if (
+            isMyTurn &&
+            gameData.phase === "playing" &&
+            turnToastShownRef.current !== gameData.currentTurnIndex
+        ) {
+            turnToastShownRef.current = gameData.currentTurnIndex;
+            toast.info("Your turn! Select a card to play", {
+                id: "your-turn-toast",
+                duration: 4000,
+                dismissible: true,
+            });
+        }
+    }, [isMyTurn, gameData.phase, gameData.currentTurnIndex]);
+
+    // Handle table click to collapse spread hands
+    const handleTableClick = useCallback(() => {
+        if (isHeroHandSpread) {
+            setIsHeroHandSpread(false);
+        }
+    }, [isHeroHandSpread]);
+
+    // Get trick plays for display
+    const trickPlays =
+        gameData.currentTrick?.plays.map((play) => ({
+            playerId: play.playerId,
+            card: play.card,
+            playerName: gameData.players[play.playerId]?.name,
+        })) ?? [];
+
+    // Who this player passes to, and who passed to them
+    const passOffset = getPassSeatOffset(gameData.passDirection);
+    const passTargetId = playerData.localOrdering[passOffset];
+    const passSourceId =
+        playerData.localOrdering[(playerCount - passOffset) % playerCount];
+    // Cards passed in are shown until the first trick is taken
+    const showReceivedCards =
+        !isDealing &&
+        playerData.receivedCards.length > 0 &&
+        gameData.phase === "playing" &&
+        gameData.completedTricks.length === 0;
+
+    // Calculate cards to show during dealing animation
+    const getCardsToShow = (
+        playerId: string,
+        isLocal: boolean
+    ): PlayingCardType[] => {
+        const hand = isLocal
+            ? playerData.hand
+            : (revealedHands?.[playerId] ?? []);
+        if (!isDealing) {
+            return hand;
+        }
+        const visibleCount = visibleCardCounts[playerId] || 0;
+        return hand.slice(0, visibleCount);
+    };
+
+    const getCardCountToShow = (playerId: string): number => {
+        if (!isDealing) {
+            return gameData.handsCounts?.[playerId] ?? 0;
+        }
+        return visibleCardCounts[playerId] || 0;
+    };
+
+    return (
+        <div className="h-full w-full">
+            <LayoutGroup>
+                <GameTable
+                    playerCount={playerCount}
+                    isDealing={isDealing}
+                    showDebugGrid={false}
+                    onTableClick={handleTableClick}
+                >
+                    {/* Player Edge Regions */}
+                    {playerData.localOrdering.map((playerId, index) => {
+                        const isLocal = index === 0;
+                        const player = gameData.players[playerId];
+                        const isCurrentTurn = isPassing
+                            ? !gameData.passedPlayerIds.includes(playerId)
+                            : gameData.playOrder[gameData.currentTurnIndex] ===
+                              playerId;
+                        const points = gameData.roundPoints?.[playerId] ?? 0;
+                        const edgePosition = EDGE_POSITIONS[index];
+
+                        return (
+                            <EdgeRegion
+                                key={playerId}
+                                position={edgePosition}
+                                isHero={isLocal}
+                                isDealing={isDealing}
+                            >
+                                <PlayerInfo
+                                    playerId={playerId}
+                                    playerName={player?.name || "Unknown"}
+                                    isCurrentTurn={isCurrentTurn && !isDealing}
+                                    isLocalPlayer={isLocal}
+                                    seatPosition={edgePosition}
+                                    turnTimer={
+                                        playerId === timedPlayerId &&
+                                        timerPropsCache
+                                            ? timerPropsCache
+                                            : undefined
+                                    }
+                                    customStats={() => (
+                                        <div className="flex gap-1 items-center">
+                                            <Badge
+                                                variant="outline"
+                                                className="text-[10px] px-1.5 py-0 bg-black/30 border-white/20 text-white/80"
+                                            >
+                                                Score:{" "}
+                                                {gameData.scores[playerId] ?? 0}
+                                            </Badge>
+                                            {isPassing ? (
+                                                gameData.passedPlayerIds.includes(
+                                                    playerId
+                                                ) && (
+                                                    <Badge className="text-[10px] px-1.5 py-0 bg-emerald-600 text-white border-emerald-400">
+                                                        PASSED
+                                                    </Badge>
+                                                )
+                                            ) : (
+                                                <Badge
+                                                    variant="outline"
+                                                    className={`text-[10px] px-1.5 py-0 border-white/20 flex items-center gap-0.5 ${
+                                                        points > 0
+                                                            ? "bg-red-500/30 text-red-300"
+                                                            : "bg-black/30 text-white/80"
+                                                    }`}
+                                                >
+                                                    <Heart className="w-2.5 h-2.5" />
+                                                    {points}
+                                                </Badge>
+                                            )}
+                                        </div>
+                                    )}
+                                />
+                                <CardHand
+                                    cards={getCardsToShow(playerId, isLocal)}
+                                    cardCount={getCardCountToShow(playerId)}
+                                    isLocalPlayer={isLocal}
+                                    revealCards={!!revealedHands}
+                                    interactive={
+                                        isLocal &&
+                                        !isDealing &&
+                                        (canPass ||
+                                            (isMyTurn &&
+                                                gameData.phase === "playing"))
+                                    }
+                                    selectedIndex={
+                                        isLocal ? selectedCardIndex : null
+                                    }
+                                    selectedIndices={
+                                        isLocal && canPass
+                                            ? selectedPassIndices
+                                            : undefined
+                                    }
+                                    disabledIndices={
+                                        isLocal ? disabledCardIndices : []
+                                    }
+                                    onCardClick={
+                                        isLocal
+                                            ? canPass
+                                                ? handlePassSelect
+                                                : handleCardSelect
+                                            : undefined
+                                    }
+                                    playerId={playerId}
+                                    isDealing={isDealing}
+                                    isSpreadControlled={
+                                        isLocal ? isHeroHandSpread : undefined
+                                    }
+                                    onSpreadChange={
+                                        isLocal
+                                            ? setIsHeroHandSpread
+                                            : undefined
+                                    }
+                                />
+                            </EdgeRegion>
+                        );
+                    })}
+
+                    {/* Center Area */}
+                    <TableCenter className="flex flex-col items-center gap-4">
+                        {/* Deal animation - deck and flying cards */}
+                        {isDealing && (
+                            <>
+                                <CardDeck
+                                    cardCount={
+                                        HEARTS_DECK_SIZE -
+                                        dealingCards.length * playerCount
+                                    }
+                                />
+                                <DealingOverlay dealingItems={dealingCards} />
+                            </>
+                        )}
+
+                        {/* Round indicator - hide during dealing */}
+                        {!isDealing && (
+                            <motion.div
+                                className="bg-black/30 backdrop-blur-sm rounded-full px-4 py-1"
+                                initial={{ opacity: 0, y: -10 }}
+                                animate={{ opacity: 1, y: 0 }}
+                            >
+                                <span className="text-white/80 text-sm font-medium">
+                                    Round {gameData.round} •{" "}
+                                    {isPassing
+                                        ? `Pass ${PASS_DIRECTION_LABELS[gameData.passDirection]}`
+                                        : `Trick ${gameData.completedTricks.length + 1}`}
+                                    {gameData.heartsBroken && " • ♥ broken"}
+                                </span>
+                            </motion.div>
+                        )}
+
+                        {/* Passing instructions */}
+                        {!isDealing && isPassing && (
+                            <div className="bg-black/40 backdrop-blur-sm rounded-xl px-5 py-3 text-center text-white/90 text-sm">
+                                {canPass ? (
+                                    <>
+                                        Choose {HEARTS_PASS_COUNT} cards to pass{" "}
+                                        {
+                                            PASS_DIRECTION_LABELS[
+                                                gameData.passDirection
+                                            ]
+                                        }{" "}
+                                        to{" "}
+                                        <span className="font-semibold">
+                                            {gameData.players[passTargetId]
+                                                ?.name || "Unknown"}
+                                        </span>
+                                    </>
+                                ) : (
+                                    `Waiting on ${
+                                        gameData.playOrder.length -
+                                        gameData.passedPlayerIds.length
+                                    } to pass`
+                                )}
+                            </div>
+                        )}
+
+                        {/* Cards passed to this player */}
+                        {showReceivedCards && (
+                            <div className="flex flex-col items-center gap-1 bg-black/30 backdrop-blur-sm rounded-xl px-3 py-2">
+                                <span className="text-white/70 text-xs">
+                                    From{" "}
+                                    {gameData.players[passSourceId]?.name ||
+                                        "Unknown"}
+                                </span>
+                                <div className="flex gap-1">
+                                    {playerData.receivedCards.map((card) => (
+                                        <PlayingCard
+                                            key={`${card.suit}-${card.rank}`}
+                                            card={card}
+                                            size="xs"
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Trick pile - hide during dealing and passing */}
+                        {!isDealing && !isPassing && (
+                            <TrickPile
+                                plays={trickPlays}
+                                winningPlayerId={gameData.lastTrickWinnerId}
+                                winningCard={
+                                    gameData.phase === "trick-result"
+                                        ? gameData.lastTrickWinningCard
+                                        : undefined
+                                }
+                            />
+                        )}
+
+                        {/* Trick result message */}
+                        <AnimatePresence>
+                            {!isDealing &&
+                                gameData.phase === "trick-result" &&
+                                gameData.lastTrickWinnerId && (
+                                    <motion.div
+                                        className={`bg-amber-500/90 backdrop-blur-sm rounded-xl px-6 py-3 shadow-lg ${
+                                            isWaitingOnMe
+                                                ? "cursor-pointer"
+                                                : ""
+                                        }`}
+                                        onClick={
+                                            isWaitingOnMe
+                                                ? onContinue
+                                                : undefined
+                                        }
+                                        initial={{
+                                            opacity: 0,
+                                            scale: 0.8,
+                                            y: 20,
+                                        }}
+                                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                                        exit={{
+                                            opacity: 0,
+                                            scale: 0.8,
+                                            y: -20,
+                                        }}
+                                        transition={{
+                                            type: "spring",
+                                            stiffness: 300,
+                                            damping: 25,
+                                        }}
+                                    >
+                                        <span className="text-amber-900 font-semibold">
+                                            {gameData.players[
+                                                gameData.lastTrickWinnerId
+                                            ]?.name || "Unknown"}{" "}
+                                            took the trick!
+                                        </span>
+                                        {trickGate && (
+                                            <span className="block text-center text-xs text-amber-900/70">
+                                                {isWaitingOnMe
+                                                    ? "Tap when ready"
+                                                    : `Waiting on ${trickGate.waitingOn.length}`}
+                                            </span>
+                                        )}
+                                    </motion.div>
+                                )}
+                        </AnimatePresence>
+                    </TableCenter>
+                </GameTable>
+            </LayoutGroup>
+
+            {/* Play card confirmation bar */}
+            <ActionConfirmationBar
+                isVisible={
+                    selectedCardIndex !== null &&
+                    isMyTurn &&
+                    gameData.phase === "playing"
+                }
+                onConfirm={handlePlayCard}
+                onCancel={handleCancelSelection}
+                confirmLabel="Play Card"
+            />
+
+            {/* Pass confirmation bar */}
+            <ActionConfirmationBar
+                isVisible={canPass && selectedPassIndices.length > 0}
+                onConfirm={handlePassCards}
+                onCancel={handleCancelSelection}
+                confirmLabel={`Pass ${selectedPassIndices.length}/${HEARTS_PASS_COUNT} ${PASS_DIRECTION_LABELS[gameData.passDirection]}`}
+                disabled={selectedPassIndices.length !== HEARTS_PASS_COUNT}
+            />
+        </div>
+    );
+}
+
+export default HeartsGameTable;
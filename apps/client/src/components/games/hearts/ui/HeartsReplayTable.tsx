@@ -0,0 +1,36 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { HeartsData, HeartsPlayerData } from "@shared/types";
+import HeartsGameTable from "./HeartsGameTable";
+import type { ReplayTableProps } from "@/components/games/registry";
+
+/**
+ * HeartsReplayTable - Read-only Hearts table for replays, with every hand face up.
+ */
+export default function HeartsReplayTable({
+    gameData,
+    playerData,
+    playerStates,
+}: ReplayTableProps<HeartsData, HeartsPlayerData>) {
+    const revealedHands = useMemo(
+        () =>
+            Object.fromEntries(
+                Object.entries(playerStates).map(([playerId, state]) => [
+                    playerId,
+                    state.hand,
+                ])
+            ),
+        [playerStates]
+    );
+
+    return (
+        <HeartsGameTable
+            gameData={gameData}
+            playerData={playerData}
+            isMyTurn={false}
+            onCardPlay={() => {}}
+            revealedHands={revealedHands}
+        />
+    );
+}
@@ -0,0 +1,22 @@
+// src/components/games/hearts/ui/passing.ts
+// Pass direction labels and seats shared by the hearts panels
+
+import { HeartsPassDirection } from "@shared/types";
+
+export const PASS_DIRECTION_LABELS: Record<HeartsPassDirection, string> = {
+    left: "left",
+    right: "right",
+    across: "across",
+    hold: "none",
+};
+
+/**
+ * Seats clockwise from the passer to the player receiving the cards
+ * (0 on hold rounds).
+ */
+export function getPassSeatOffset(direction: HeartsPassDirection): number {
+    if (direction === "left") return 1;
+    if (direction === "across") return 2;
+    if (direction === "right") return 3;
+    return 0;
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import React, { useCallback } from "react";
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import { useSession } from "@/contexts/SessionContext";
+import { LRCData, LRCPlayerData } from "@shared/types";
+import LRCGameTable from "./ui/LRCGameTable";
+import SettlementModal from "./ui/SettlementModal";
+import { GameMenu } from "@/components/games/shared";
+
+interface LRCProps {
+    gameData: LRCData;
+    playerData: LRCPlayerData | null;
+    dispatchOptimisticAction?: (type: string, payload: unknown) => void;
+    roomCode?: string;
+}
+
+export default function LRC({
+    gameData,
+    playerData,
+    dispatchOptimisticAction,
+    roomCode,
+}: LRCProps) {
+    const { socket, connected } = useWebSocket();
+    const { roomId, userId } = useSession();
+
+    const sendGameAction = useCallback(
+        (type: string, payload: unknown) => {
+            // Use optimistic action dispatcher if available, otherwise fallback to direct emit
+            if (dispatchOptimisticAction) {
+                dispatchOptimisticAction(type, payload);
+            } else {
+                // Fallback for backwards compatibility
+                if (!socket || !connected) return;
+                const action = {
+                    type,
+                    payload,
+                    expectedVersion: gameData.version,
+                };
+                socket.emit("game_action", { roomId, action });
+            }
+        },
+        [dispatchOptimisticAction, socket, connected, gameData.version, roomId]
+    );
+
+    // Derived state
+    const currentPlayerId = gameData.playOrder[gameData.currentTurnIndex];
+    const isMyTurn = currentPlayerId === userId;
+    const isLeader = userId === gameData.leaderId;
+
+    const handleRollDice = useCallback(() => {
+        sendGameAction("ROLL_DICE", {});
+    }, [sendGameAction]);
+
+    function handleReturnToLobby() {
+        if (!socket || !connected) return;
+        socket.emit("abort_game", { roomId });
+    }
+
+    return (
+        <div className="h-screen w-full overflow-hidden">
+            <LRCGameTable
+                gameData={gameData}
+                playerData={playerData}
+                isMyTurn={isMyTurn}
+                onRollDice={handleRollDice}
+            />
+
+            {/* Game Menu */}
+            <GameMenu isLeader={isLeader} roomCode={roomCode || roomId} />
+
+            {/* End-of-game settlement */}
+            <SettlementModal
+                gameData={gameData}
+                onReturnToLobby={handleReturnToLobby}
+            />
+        </div>
+    );
+}
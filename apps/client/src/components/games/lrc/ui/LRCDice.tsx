@@ -0,0 +1,160 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { motion } from "motion/react";
+import { cn } from "@/lib/utils";
+import { LRCDieFace, LRCRoll } from "@shared/types";
+
+const ROLL_ANIMATION_MS = 900;
+const TUMBLE_FACES: LRCDieFace[] = ["L", "DOT", "C", "R", "DOT", "L"];
+
+const FACE_STYLES: Record<LRCDieFace, string> = {
+    L: "text-blue-600",
+    C: "text-amber-600",
+    R: "text-red-600",
+    DOT: "text-slate-400",
+};
+
+/**
+ * A single LRC die. DOT faces render as a pip (keep your chip).
+ */
+export function LRCDie({
+    face,
+    size = "md",
+}: {
+    face: LRCDieFace;
+    size?: "sm" | "md";
+}) {
+    return (
+        <div
+            className={cn(
+                "flex items-center justify-center rounded-xl bg-white shadow-lg border border-slate-200 font-black select-none",
+                size === "md" ? "w-14 h-14 text-2xl" : "w-9 h-9 text-base",
+                FACE_STYLES[face]
+            )}
+        >
+            {face === "DOT" ? (
+                <span
+                    className={cn(
+                        "rounded-full bg-slate-400",
+                        size === "md" ? "w-3 h-3" : "w-2 h-2"
+                    )}
+                />
+            ) : (
+                face
+            )}
+        </div>
+    );
+}
+
+/**
+ * Describe a roll in plain words, e.g. "1 left, 1 center, kept 1".
+ */
+export function describeRoll(dice: LRCDieFace[]): string {
+    const count = (face: LRCDieFace) => dice.filter((d) => d === face).length;
+    const parts = [
+        count("L") > 0 && `${count("L")} left`,
+        count("R") > 0 && `${count("R")} right`,
+        count("C") > 0 && `${count("C")} center`,
+        count("DOT") > 0 && `kept ${count("DOT")}`,
+    ].filter(Boolean);
+    return parts.join(", ");
+}
+
+/**
+ * DiceTray - Shows the most recent roll, tumbling briefly whenever
+ * a new roll arrives from the server.
+ */
+export default function LRCDiceTray({
+    lastRoll,
+    rollerName,
+}: {
+    lastRoll: LRCRoll | null;
+    rollerName?: string;
+}) {
+    const rollNumber = lastRoll?.rollNumber ?? 0;
+    const [isTumbling, setIsTumbling] = useState(false);
+    const [tumbleStep, setTumbleStep] = useState(0);
+
+    // Tumble for a moment each time a new roll comes in
+    useEffect(() => {
+        if (rollNumber === 0) return;
+
+        setIsTumbling(true);
+        const interval = setInterval(() => {
+            setTumbleStep((prev) => prev + 1);
+        }, 90);
+        const timeout = setTimeout(() => {
+            clearInterval(interval);
+            setIsTumbling(false);
+        }, ROLL_ANIMATION_MS);
+
+        return () => {
+            clearInterval(interval);
+            clearTimeout(timeout);
+        };
+    }, [rollNumber]);
+
+    if (!lastRoll) {
+        return (
+            <div className="text-white/60 text-sm">
+                Waiting for the first roll...
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex flex-col items-center gap-2">
+            <div className="flex gap-3">
+                {lastRoll.dice.map((face, index) => (
+                    <motion.div
+                        key={`${rollNumber}-${index}`}
+                        initial={{ y: -40, rotate: -180, opacity: 0 }}
+                        animate={
+                            isTumbling
+                                ? {
+                                      y: [0, -12, 0],
+                                      rotate: [0, 90, 180],
+                                      opacity: 1,
+                                  }
+                                : { y: 0, rotate: 0, opacity: 1 }
+                        }
+                        transition={
+                            isTumbling
+                                ? {
+                                      duration: 0.3,
+                                      repeat: Infinity,
+                                      delay: index * 0.05,
+                                  }
+                                : {
+                                      type: "spring",
+                                      stiffness: 300,
+                                      damping: 15,
+                                  }
+                        }
+                    >
+                        <LRCDie
+                            face={
+                                isTumbling
+                                    ? TUMBLE_FACES[
+                                          (tumbleStep + index) %
+                                              TUMBLE_FACES.length
+                                      ]
+                                    : face
+                            }
+                        />
+                    </motion.div>
+                ))}
+            </div>
+            {!isTumbling && (
+                <motion.span
+                    className="text-white/80 text-xs sm:text-sm"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                >
+                    {rollerName ?? "Player"}: {describeRoll(lastRoll.dice)}
+                </motion.span>
+            )}
+        </div>
+    );
+}
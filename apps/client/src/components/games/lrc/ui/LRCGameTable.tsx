@@ -0,0 +1,217 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { motion, AnimatePresence } from "motion/react";
+import { toast } from "sonner";
+import { Dices } from "lucide-react";
+import { LRCData, LRCPlayerData } from "@shared/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { usePlayerPositions } from "@/hooks";
+import {
+    GameTable,
+    TableCenter,
+    PlayerInfo,
+    useGameTable,
+} from "@/components/games/shared";
+import LRCDiceTray from "./LRCDice";
+import { formatMoney } from "./money";
+
+interface LRCGameTableProps {
+    gameData: LRCData;
+    playerData: LRCPlayerData | null;
+    isMyTurn: boolean;
+    onRollDice: () => void;
+}
+
+/**
+ * A small pile of chips. Shows at most `max` chip discs.
+ */
+function ChipPile({ count, max = 5 }: { count: number; max?: number }) {
+    return (
+        <div className="flex -space-x-2 min-h-4">
+            <AnimatePresence initial={false}>
+                {Array.from({ length: Math.min(count, max) }).map((_, i) => (
+                    <motion.span
+                        key={i}
+                        className="w-4 h-4 rounded-full bg-gradient-to-br from-yellow-300 to-amber-500 border-2 border-white/80 shadow"
+                        initial={{ scale: 0, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        exit={{ scale: 0, opacity: 0 }}
+                    />
+                ))}
+            </AnimatePresence>
+        </div>
+    );
+}
+
+/**
+ * Seats players around an ellipse so left/right passing reads naturally.
+ * The local player sits at the bottom; play moves clockwise to their left.
+ */
+function SeatRing({
+    gameData,
+    localOrdering,
+    localPlayerId,
+}: {
+    gameData: LRCData;
+    localOrdering: string[];
+    localPlayerId: string | undefined;
+}) {
+    const { dimensions } = useGameTable();
+    const positions = usePlayerPositions(localOrdering.length, dimensions);
+    const currentPlayerId = gameData.playOrder[gameData.currentTurnIndex];
+    const isPlaying = gameData.phase === "playing";
+    const lastRoll = gameData.lastRoll;
+
+    return (
+        <div className="absolute inset-0 pointer-events-none">
+            {localOrdering.map((playerId, index) => {
+                const position = positions[index];
+                if (!position) return null;
+
+                const player = gameData.players[playerId];
+                const chips = gameData.chips[playerId] ?? 0;
+                const received =
+                    lastRoll?.movements.filter((m) => m.toPlayerId === playerId)
+                        .length ?? 0;
+
+                return (
+                    <div
+                        key={playerId}
+                        className={cn(
+                            "absolute -translate-x-1/2 -translate-y-1/2 flex flex-col items-center gap-1 pointer-events-auto",
+                            chips === 0 && isPlaying && "opacity-60"
+                        )}
+                        style={{ left: position.x, top: position.y }}
+                    >
+                        <PlayerInfo
+                            playerId={playerId}
+                            playerName={player?.name || "Unknown"}
+                            isCurrentTurn={
+                                isPlaying && currentPlayerId === playerId
+                            }
+                            isLocalPlayer={playerId === localPlayerId}
+                            seatPosition={position.seatPosition}
+                            connected={player?.isConnected !== false}
+                            customStats={() => (
+                                <div className="flex gap-1 items-center flex-wrap">
+                                    <Badge
+                                        variant="outline"
+                                        className="text-[10px] px-1.5 py-0 bg-black/30 border-white/20 text-white/80"
+                                    >
+                                        Chips: {chips}
+                                    </Badge>
+                                    {received > 0 && (
+                                        <motion.span
+                                            key={`${lastRoll?.rollNumber}-${playerId}`}
+                                            className="text-[10px] font-bold text-emerald-300"
+                                            initial={{ opacity: 0, y: 6 }}
+                                            animate={{ opacity: 1, y: 0 }}
+                                        >
+                                            +{received}
+                                        </motion.span>
+                                    )}
+                                </div>
+                            )}
+                        />
+                        <ChipPile count={chips} />
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+export default function LRCGameTable({
+    gameData,
+    playerData,
+    isMyTurn,
+    onRollDice,
+}: LRCGameTableProps) {
+    const localOrdering = playerData?.localOrdering ?? gameData.playOrder;
+    const localPlayerId = playerData?.localOrdering[0];
+    const currentPlayerId = gameData.playOrder[gameData.currentTurnIndex];
+    const currentPlayerName =
+        gameData.players[currentPlayerId]?.name || "Unknown";
+    const isPlaying = gameData.phase === "playing";
+    const { chipValue } = gameData.settings;
+    const rollerName = gameData.lastRoll
+        ? gameData.players[gameData.lastRoll.playerId]?.name
+        : undefined;
+
+    // Notify when it's the local player's turn
+    useEffect(() => {
+        if (isMyTurn && isPlaying) {
+            toast.info("Your turn! Roll the dice", {
+                id: "lrc-your-turn",
+                duration: 3000,
+                dismissible: true,
+            });
+        }
+    }, [isMyTurn, isPlaying, gameData.rollCount]);
+
+    return (
+        <div className="h-full w-full">
+            <GameTable
+                playerCount={localOrdering.length}
+                feltGradient="from-emerald-900 via-green-800 to-emerald-900"
+            >
+                <SeatRing
+                    gameData={gameData}
+                    localOrdering={localOrdering}
+                    localPlayerId={localPlayerId}
+                />
+
+                {/* Center Area - Pot and Dice */}
+                <TableCenter className="flex flex-col items-center gap-4">
+                    {/* Center pot */}
+                    <div className="flex flex-col items-center gap-1 bg-black/30 backdrop-blur-sm rounded-2xl px-5 py-3">
+                        <span className="text-white/60 text-xs uppercase tracking-wide">
+                            Center Pot
+                        </span>
+                        <ChipPile count={gameData.centerPot} max={10} />
+                        <span className="text-white font-bold text-lg">
+                            {gameData.centerPot} chips
+                            {chipValue > 0 && (
+                                <span className="text-emerald-300 text-sm font-medium ml-2">
+                                    {formatMoney(
+                                        gameData.centerPot * chipValue
+                                    )}
+                                </span>
+                            )}
+                        </span>
+                    </div>
+
+                    <LRCDiceTray
+                        lastRoll={gameData.lastRoll}
+                        rollerName={rollerName}
+                    />
+
+                    {isPlaying &&
+                        (isMyTurn ? (
+                            <Button
+                                onClick={onRollDice}
+                                className="shadow-lg bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700 text-white font-semibold"
+                            >
+                                <Dices className="w-4 h-4 mr-2" />
+                                Roll{" "}
+                                {Math.min(
+                                    gameData.chips[localPlayerId ?? ""] ?? 0,
+                                    3
+                                )}{" "}
+                                Dice
+                            </Button>
+                        ) : (
+                            <div className="bg-black/30 backdrop-blur-sm rounded-full px-4 py-1">
+                                <span className="text-white/80 text-sm">
+                                    Waiting for {currentPlayerName} to roll...
+                                </span>
+                            </div>
+                        ))}
+                </TableCenter>
+            </GameTable>
+        </div>
+    );
+}
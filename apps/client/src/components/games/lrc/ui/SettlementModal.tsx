@@ -0,0 +1,156 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { useSession } from "@/contexts/SessionContext";
+import { LRCData } from "@shared/types";
+import { motion } from "motion/react";
+import { Trophy, Crown, Home, TrendingUp } from "lucide-react";
+import React from "react";
+import { cn } from "@/lib/utils";
+import { formatMoney, formatNetMoney } from "./money";
+
+export default function SettlementModal({
+    gameData,
+    onReturnToLobby,
+}: {
+    gameData: LRCData;
+    onReturnToLobby: () => void;
+}) {
+    const { userId } = useSession();
+    const isLeader = userId === gameData.leaderId;
+    const isOpen = gameData.phase === "finished";
+    const { chipValue } = gameData.settings;
+    const showMoney = chipValue > 0;
+
+    const winnerName = gameData.winnerId
+        ? gameData.players[gameData.winnerId]?.name || "Unknown"
+        : "Unknown";
+    const isWinner = userId === gameData.winnerId;
+
+    // Biggest winners first
+    const ledger = [...(gameData.settlement ?? [])].sort(
+        (a, b) => b.netChips - a.netChips
+    );
+
+    return (
+        <Dialog open={isOpen}>
+            <DialogContent className="flex flex-col items-center gap-4 sm:gap-6 max-w-[95vw] sm:max-w-lg max-h-[85vh] sm:max-h-[90vh] overflow-y-auto bg-slate-900 border-white/10 text-white p-4 sm:p-6">
+                <DialogTitle className="flex items-center gap-2 text-xl sm:text-2xl font-bold text-white">
+                    <Trophy className="w-6 h-6 sm:w-7 sm:h-7 text-amber-400" />
+                    Settle Up
+                </DialogTitle>
+
+                <motion.div
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    transition={{ type: "spring", stiffness: 200, damping: 15 }}
+                    className="flex flex-col items-center gap-1 text-center"
+                >
+                    <p className="text-lg sm:text-xl font-bold">
+                        {isWinner
+                            ? "🎉 You take the pot! 🎉"
+                            : `${winnerName} takes the pot!`}
+                    </p>
+                    <p className="text-sm text-white/60">
+                        Last player holding chips wins everything in the center.
+                    </p>
+                </motion.div>
+
+                {/* Ledger */}
+                <div className="w-full space-y-2">
+                    <div className="grid grid-cols-[1fr_auto_auto] gap-3 px-3 text-xs text-white/50">
+                        <span>Player</span>
+                        <span className="text-right">Chips</span>
+                        <span className="text-right w-20">
+                            {showMoney ? "Net" : "Net Chips"}
+                        </span>
+                    </div>
+                    {ledger.map((entry, index) => {
+                        const isEntryWinner =
+                            entry.playerId === gameData.winnerId;
+                        const isPositive = entry.netChips > 0;
+                        const isNegative = entry.netChips < 0;
+
+                        return (
+                            <motion.div
+                                key={entry.playerId}
+                                initial={{ opacity: 0, x: -20 }}
+                                animate={{ opacity: 1, x: 0 }}
+                                transition={{ delay: 0.2 + index * 0.08 }}
+                                className={cn(
+                                    "grid grid-cols-[1fr_auto_auto] items-center gap-3 rounded-lg px-3 py-2",
+                                    isEntryWinner
+                                        ? "bg-gradient-to-br from-amber-500/30 to-yellow-600/20 border border-amber-400/50"
+                                        : "bg-white/5"
+                                )}
+                            >
+                                <span className="flex items-center gap-2 font-medium truncate">
+                                    {isEntryWinner && (
+                                        <Crown className="w-4 h-4 text-amber-400 flex-shrink-0" />
+                                    )}
+                                    <span className="truncate">
+                                        {gameData.players[entry.playerId]
+                                            ?.name || entry.playerId}
+                                        {entry.playerId === userId && " (You)"}
+                                    </span>
+                                </span>
+                                <span className="text-right text-white/70 text-sm">
+                                    {entry.startingChips} → {entry.finalChips}
+                                </span>
+                                <span
+                                    className={cn(
+                                        "flex items-center justify-end gap-1 w-20 text-sm font-semibold",
+                                        isPositive && "text-emerald-400",
+                                        isNegative && "text-red-400",
+                                        !isPositive &&
+                                            !isNegative &&
+                                            "text-white/60"
+                                    )}
+                                >
+                                    <TrendingUp
+                                        className={cn(
+                                            "w-3 h-3",
+                                            isNegative && "rotate-180"
+                                        )}
+                                    />
+                                    {showMoney
+                                        ? formatNetMoney(entry.netEarnings)
+                                        : `${isPositive ? "+" : ""}${entry.netChips}`}
+                                </span>
+                            </motion.div>
+                        );
+                    })}
+                </div>
+
+                {showMoney && (
+                    <p className="text-xs text-white/50 text-center">
+                        Chips valued at {formatMoney(chipValue)} each.
+                        {ledger.length > 0 &&
+                            ` Total pot: ${formatMoney(
+                                ledger.reduce(
+                                    (sum, e) => sum + e.startingChips,
+                                    0
+                                ) * chipValue
+                            )}.`}
+                    </p>
+                )}
+
+                {isLeader ? (
+                    <Button
+                        onClick={onReturnToLobby}
+                        size="lg"
+                        className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-semibold"
+                    >
+                        <Home className="w-5 h-5 mr-2" />
+                        Return to Lobby
+                    </Button>
+                ) : (
+                    <p className="text-xs sm:text-sm text-white/50 text-center">
+                        Waiting for room leader to return to lobby...
+                    </p>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
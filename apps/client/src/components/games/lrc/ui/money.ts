@@ -0,0 +1,22 @@
+// src/components/games/lrc/ui/money.ts
+// Currency helpers for chip values
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+});
+
+/**
+ * Format a dollar amount, e.g. 0.75 -> "$0.75".
+ */
+export function formatMoney(amount: number): string {
+    return currencyFormatter.format(amount);
+}
+
+/**
+ * Format a net amount with an explicit sign, e.g. "+$1.50" / "-$0.75".
+ */
+export function formatNetMoney(amount: number): string {
+    if (amount === 0) return formatMoney(0);
+    return `${amount > 0 ? "+" : "-"}${formatMoney(Math.abs(amount))}`;
+}
@@ -8,6 +8,18 @@ import {
     DominoesData,
     DominoesPlayerData,
     Tile,
+    LRCData,
+    LRCPlayerData,
+    LRCDieFace,
+    HeartsData,
+    HeartsPlayerData,
+    BidWhistData,
+    BidWhistPlayerData,
+    EuchreData,
+    EuchrePlayerData,
+    CrazyEightsData,
+    CrazyEightsPlayerData,
+    Suit,
 } from "@shared/types";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -204,6 +216,7 @@ export function generateSpadesMockData(options: SpadesMockOptions = {}): {
     const gameData: SpadesData = {
         id: "mock-game-id",
         roomId: "mock-room",
+        version: 0,
         type: "spades",
         players,
         leaderId: localPlayerId,
@@ -217,6 +230,7 @@ export function generateSpadesMockData(options: SpadesMockOptions = {}): {
         completedTricks: [],
         phase,
         round,
+        deals: [],
         settings: {
             allowNil: true,
             bagsPenalty: 100,
@@ -275,6 +289,7 @@ export interface DominoesMockOptions {
     round?: number;
     currentTurnIndex?: number;
     boardTileCount?: number;
+    teamMode?: boolean;
 }
 
 export function generateDominoesMockData(options: DominoesMockOptions = {}): {
@@ -287,6 +302,7 @@ export function generateDominoesMockData(options: DominoesMockOptions = {}): {
         round = 1,
         currentTurnIndex = 0,
         boardTileCount = 0,
+        teamMode = false,
     } = options;
 
     const allTiles = shuffle(generateDominoSet());
@@ -309,6 +325,25 @@ export function generateDominoesMockData(options: DominoesMockOptions = {}): {
         playerScores[playerId] = Math.floor(Math.random() * 50);
     });
 
+    // Team mode: partners sit across (seats 0 & 2, 1 & 3)
+    const teams: DominoesData["teams"] = teamMode
+        ? {
+              0: {
+                  players: [playOrder[0], playOrder[2]],
+                  score: Math.floor(Math.random() * 50),
+              },
+              1: {
+                  players: [playOrder[1], playOrder[3]],
+                  score: Math.floor(Math.random() * 50),
+              },
+          }
+        : undefined;
+    if (teams) {
+        Object.values(teams).forEach((team) =>
+            team.players.forEach((pid) => (playerScores[pid] = team.score))
+        );
+    }
+
     // Generate board state
     const boardTiles = allTiles.slice(
         playerCount * 7,
@@ -332,6 +367,7 @@ export function generateDominoesMockData(options: DominoesMockOptions = {}): {
     const gameData: DominoesData = {
         id: "mock-game-id",
         roomId: "mock-room",
+        version: 0,
         type: "dominoes",
         players,
         leaderId: localPlayerId,
@@ -339,14 +375,18 @@ export function generateDominoesMockData(options: DominoesMockOptions = {}): {
         currentTurnIndex,
         startingPlayerIndex: 0,
         handsCounts,
+        boneyardCount: 0,
         board,
         phase,
         round,
         consecutivePasses: 0,
+        deals: [],
         playerScores,
+        teams,
         settings: {
             winTarget: 100,
             drawFromBoneyard: false,
+            gameMode: teamMode ? "team" : "individual",
         },
     };
 
@@ -358,6 +398,529 @@ export function generateDominoesMockData(options: DominoesMockOptions = {}): {
     return { gameData, playerData };
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// LRC Mock Data
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface LRCMockOptions {
+    playerCount?: number;
+    phase?: LRCData["phase"];
+    currentTurnIndex?: number;
+    startingChips?: number;
+    chipValue?: number;
+}
+
+export function generateLRCMockData(options: LRCMockOptions = {}): {
+    gameData: LRCData;
+    playerData: LRCPlayerData;
+} {
+    const {
+        playerCount = 5,
+        phase = "playing",
+        currentTurnIndex = 0,
+        startingChips = 3,
+        chipValue = 0.25,
+    } = options;
+
+    const playOrder = Array.from({ length: playerCount }, (_, i) =>
+        generatePlayerId(i)
+    );
+    const players = generatePlayers(playerCount);
+    const localPlayerId = generatePlayerId(0);
+    const totalChips = playerCount * startingChips;
+
+    // Scatter chips randomly, keeping some in the center pot
+    const chips: Record<string, number> = {};
+    let centerPot = 0;
+    if (phase === "finished") {
+        playOrder.forEach((id) => (chips[id] = 0));
+        chips[localPlayerId] = totalChips;
+    } else {
+        let remaining = totalChips;
+        playOrder.forEach((id) => {
+            const held = Math.min(
+                remaining,
+                Math.floor(Math.random() * (startingChips + 2))
+            );
+            chips[id] = held;
+            remaining -= held;
+        });
+        centerPot = remaining;
+    }
+
+    const faces: LRCDieFace[] = ["L", "C", "R", "DOT"];
+    const dice = Array.from(
+        { length: 3 },
+        () => faces[Math.floor(Math.random() * faces.length)]
+    );
+
+    const gameData: LRCData = {
+        id: "mock-game-id",
+        roomId: "mock-room",
+        version: 0,
+        type: "lrc",
+        players,
+        leaderId: localPlayerId,
+        playOrder,
+        currentTurnIndex,
+        chips,
+        centerPot,
+        phase,
+        rollCount: 1,
+        lastRoll: {
+            rollNumber: 1,
+            playerId: playOrder[playerCount - 1],
+            dice,
+            movements: [],
+        },
+        winnerId: phase === "finished" ? localPlayerId : undefined,
+        settlement:
+            phase === "finished"
+                ? playOrder.map((playerId) => {
+                      const netChips = chips[playerId] - startingChips;
+                      return {
+                          playerId,
+                          startingChips,
+                          finalChips: chips[playerId],
+                          netChips,
+                          netEarnings: netChips * chipValue,
+                      };
+                  })
+                : undefined,
+        settings: {
+            startingChips,
+            chipValue,
+        },
+    };
+
+    const playerData: LRCPlayerData = {
+        localOrdering: playOrder,
+    };
+
+    return { gameData, playerData };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Hearts Mock Data
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface HeartsMockOptions {
+    phase?: HeartsData["phase"];
+    round?: number;
+    currentTurnIndex?: number;
+    includeCurrentTrick?: boolean;
+}
+
+export function generateHeartsMockData(options: HeartsMockOptions = {}): {
+    gameData: HeartsData;
+    playerData: HeartsPlayerData;
+} {
+    const {
+        phase = "playing",
+        round = 1,
+        currentTurnIndex = 0,
+        includeCurrentTrick = false,
+    } = options;
+
+    const playerCount = 4;
+    const deck = shuffle(generateDeck());
+    const hands = dealCards(deck, playerCount);
+    const playOrder = Array.from({ length: playerCount }, (_, i) =>
+        generatePlayerId(i)
+    );
+    const players = generatePlayers(playerCount);
+    const localPlayerId = generatePlayerId(0);
+
+    const handsCounts: Record<string, number> = {};
+    const scores: Record<string, number> = {};
+    const roundPoints: Record<string, number> = {};
+    const roundTrickCounts: Record<string, number> = {};
+    playOrder.forEach((playerId, idx) => {
+        handsCounts[playerId] = hands[idx]?.length || 0;
+        scores[playerId] = Math.floor(Math.random() * 60);
+        roundPoints[playerId] = Math.floor(Math.random() * 5);
+        roundTrickCounts[playerId] = Math.floor(Math.random() * 4);
+    });
+
+    // Optional current trick
+    let currentTrick: HeartsData["currentTrick"] = null;
+    if (includeCurrentTrick && phase === "playing") {
+        const tricksPlayed = Math.floor(Math.random() * 3) + 1;
+        const plays = playOrder.slice(0, tricksPlayed).map((playerId) => ({
+            playerId,
+            card: hands[playOrder.indexOf(playerId)]?.[0] || {
+                suit: "Clubs" as const,
+                rank: "2" as const,
+            },
+        }));
+        currentTrick = {
+            leaderId: playOrder[0],
+            plays,
+            leadSuit: plays[0].card.suit,
+        };
+    }
+
+    const gameData: HeartsData = {
+        id: "mock-game-id",
+        roomId: "mock-room",
+        version: 0,
+        type: "hearts",
+        players,
+        leaderId: localPlayerId,
+        playOrder,
+        dealerIndex: 0,
+        currentTurnIndex,
+        handsCounts,
+        passDirection: "left",
+        passedPlayerIds: [],
+        heartsBroken: false,
+        currentTrick,
+        completedTricks: [],
+        phase,
+        round,
+        deals: [],
+        settings: {
+            winTarget: 100,
+            roundLimit: null,
+            shootTheMoon: "addToOthers",
+        },
+        history: [],
+        scores,
+        roundPoints,
+        roundScoreBreakdown: {},
+        roundTrickCounts,
+    };
+
+    const playerData: HeartsPlayerData = {
+        localOrdering: playOrder,
+        hand: hands[0] || [],
+        passedCards: [],
+        receivedCards: [],
+    };
+
+    return { gameData, playerData };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Bid Whist Mock Data
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface BidWhistMockOptions {
+    phase?: BidWhistData["phase"];
+    round?: number;
+    currentTurnIndex?: number;
+    includeCurrentTrick?: boolean;
+}
+
+export function generateBidWhistMockData(options: BidWhistMockOptions = {}): {
+    gameData: BidWhistData;
+    playerData: BidWhistPlayerData;
+} {
+    const {
+        phase = "playing",
+        round = 1,
+        currentTurnIndex = 0,
+        includeCurrentTrick = false,
+    } = options;
+
+    const playerCount = 4;
+    // 12 cards each from the standard deck; the rest stand in for the kitty
+    const deck = shuffle(generateDeck());
+    const hands = dealCards(deck.slice(0, 48), playerCount);
+    const playOrder = Array.from({ length: playerCount }, (_, i) =>
+        generatePlayerId(i)
+    );
+    const players = generatePlayers(playerCount);
+    const localPlayerId = generatePlayerId(0);
+    const isAuction = phase === "bidding";
+
+    const handsCounts: Record<string, number> = {};
+    const roundTrickCounts: Record<string, number> = {};
+    playOrder.forEach((playerId, idx) => {
+        handsCounts[playerId] = hands[idx]?.length || 0;
+        roundTrickCounts[playerId] = isAuction
+            ? 0
+            : Math.floor(Math.random() * 3);
+    });
+
+    // Optional current trick
+    let currentTrick: BidWhistData["currentTrick"] = null;
+    if (includeCurrentTrick && phase === "playing") {
+        const tricksPlayed = Math.floor(Math.random() * 3) + 1;
+        const plays = playOrder.slice(0, tricksPlayed).map((playerId) => ({
+            playerId,
+            card: hands[playOrder.indexOf(playerId)]?.[0] || {
+                suit: "Clubs" as const,
+                rank: "2" as const,
+            },
+        }));
+        currentTrick = {
+            leaderId: playOrder[0],
+            plays,
+            leadSuit: plays[0].card.suit,
+        };
+    }
+
+    const bid = { amount: 4, direction: "uptown" as const };
+    const gameData: BidWhistData = {
+        id: "mock-game-id",
+        roomId: "mock-room",
+        version: 0,
+        type: "bidwhist",
+        players,
+        leaderId: localPlayerId,
+        // Partners sit across: seats 0 and 2, 1 and 3
+        teams: {
+            0: { players: [playOrder[0], playOrder[2]], score: 3 },
+            1: { players: [playOrder[1], playOrder[3]], score: -1 },
+        },
+        playOrder,
+        dealerIndex: 3,
+        currentTurnIndex,
+        handsCounts,
+        kittyCount: isAuction ? 6 : 0,
+        bids: isAuction
+            ? {}
+            : {
+                  [playOrder[0]]: null,
+                  [playOrder[1]]: bid,
+                  [playOrder[2]]: null,
+                  [playOrder[3]]: null,
+              },
+        contract: isAuction
+            ? null
+            : { declarerId: playOrder[1], teamId: 1, bid },
+        trumpSuit: isAuction ? null : "Hearts",
+        ranking: isAuction ? null : "uptown",
+        currentTrick,
+        completedTricks: [],
+        phase,
+        round,
+        deals: [],
+        settings: {
+            winTarget: 7,
+            roundLimit: null,
+            minimumBid: 3,
+            noTrumpDoubles: true,
+        },
+        history: [],
+        roundTrickCounts,
+        roundTeamScores: {},
+        roundScoreBreakdown: {},
+    };
+
+    const playerData: BidWhistPlayerData = {
+        localOrdering: playOrder,
+        hand: hands[0] || [],
+        discards: [],
+    };
+
+    return { gameData, playerData };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Euchre Mock Data
+// ─────────────────────────────────────────────────────────────────────────────
+
+const EUCHRE_RANKS = ["9", "10", "J", "Q", "K", "A"];
+
+export interface EuchreMockOptions {
+    phase?: EuchreData["phase"];
+    round?: number;
+    currentTurnIndex?: number;
+    includeCurrentTrick?: boolean;
+}
+
+export function generateEuchreMockData(options: EuchreMockOptions = {}): {
+    gameData: EuchreData;
+    playerData: EuchrePlayerData;
+} {
+    const {
+        phase = "playing",
+        round = 1,
+        currentTurnIndex = 0,
+        includeCurrentTrick = false,
+    } = options;
+
+    const playerCount = 4;
+    // 5 cards each from the 9-to-Ace deck; one more is the upcard
+    const deck = shuffle(
+        generateDeck().filter((card) => EUCHRE_RANKS.includes(card.rank))
+    );
+    const hands = dealCards(deck.slice(0, 20), playerCount);
+    const upcard = deck[20];
+    const playOrder = Array.from({ length: playerCount }, (_, i) =>
+        generatePlayerId(i)
+    );
+    const players = generatePlayers(playerCount);
+    const localPlayerId = generatePlayerId(0);
+    const isCalling = phase === "calling";
+
+    const handsCounts: Record<string, number> = {};
+    const roundTrickCounts: Record<string, number> = {};
+    playOrder.forEach((playerId, idx) => {
+        handsCounts[playerId] = hands[idx]?.length || 0;
+        roundTrickCounts[playerId] = isCalling
+            ? 0
+            : Math.floor(Math.random() * 2);
+    });
+
+    // Optional current trick
+    let currentTrick: EuchreData["currentTrick"] = null;
+    if (includeCurrentTrick && phase === "playing") {
+        const tricksPlayed = Math.floor(Math.random() * 3) + 1;
+        const plays = playOrder.slice(0, tricksPlayed).map((playerId) => ({
+            playerId,
+            card: hands[playOrder.indexOf(playerId)]?.[0] || {
+                suit: "Clubs" as const,
+                rank: "9" as const,
+            },
+        }));
+        currentTrick = {
+            leaderId: playOrder[0],
+            plays,
+            leadSuit: plays[0].card.suit,
+        };
+    }
+
+    const gameData: EuchreData = {
+        id: "mock-game-id",
+        roomId: "mock-room",
+        version: 0,
+        type: "euchre",
+        players,
+        leaderId: localPlayerId,
+        // Partners sit across: seats 0 and 2, 1 and 3
+        teams: {
+            0: { players: [playOrder[0], playOrder[2]], score: 4 },
+            1: { players: [playOrder[1], playOrder[3]], score: 6 },
+        },
+        playOrder,
+        dealerIndex: 3,
+        currentTurnIndex,
+        handsCounts,
+        upcard,
+        kittyCount: 3,
+        callingRound: 1,
+        passes: [],
+        contract: isCalling
+            ? null
+            : {
+                  makerId: playOrder[1],
+                  teamId: 1,
+                  trumpSuit: Suit.Hearts,
+                  alone: false,
+              },
+        trumpSuit: isCalling ? null : "Hearts",
+        sittingOut: [],
+        currentTrick,
+        completedTricks: [],
+        phase,
+        round,
+        deals: [],
+        settings: {
+            winTarget: 10,
+            roundLimit: null,
+            stickTheDealer: false,
+        },
+        history: [],
+        roundTrickCounts,
+        roundTeamScores: {},
+        roundScoreBreakdown: {},
+    };
+
+    const playerData: EuchrePlayerData = {
+        localOrdering: playOrder,
+        hand: hands[0] || [],
+    };
+
+    return { gameData, playerData };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Crazy Eights Mock Data
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CrazyEightsMockOptions {
+    playerCount?: number;
+    phase?: CrazyEightsData["phase"];
+    round?: number;
+    currentTurnIndex?: number;
+}
+
+export function generateCrazyEightsMockData(
+    options: CrazyEightsMockOptions = {}
+): {
+    gameData: CrazyEightsData;
+    playerData: CrazyEightsPlayerData;
+} {
+    const {
+        playerCount = 6,
+        phase = "playing",
+        round = 1,
+        currentTurnIndex = 0,
+    } = options;
+
+    // 7 cards each heads-up, 5 each with more players; a few already played
+    const handSize = playerCount === 2 ? 7 : 5;
+    const deck = shuffle(generateDeck());
+    const playOrder = Array.from({ length: playerCount }, (_, i) =>
+        generatePlayerId(i)
+    );
+    const players = generatePlayers(playerCount);
+    const localPlayerId = generatePlayerId(0);
+
+    const handsCounts: Record<string, number> = {};
+    const scores: Record<string, number> = {};
+    const hands = playOrder.map((playerId, idx) => {
+        const count = Math.max(1, handSize - Math.floor(Math.random() * 3));
+        handsCounts[playerId] = count;
+        scores[playerId] = Math.floor(Math.random() * 4) * 10;
+        return deck.slice(idx * handSize, idx * handSize + count);
+    });
+    const topCard = deck[playerCount * handSize];
+
+    const gameData: CrazyEightsData = {
+        id: "mock-game-id",
+        roomId: "mock-room",
+        version: 0,
+        type: "crazyeights",
+        players,
+        leaderId: localPlayerId,
+        playOrder,
+        dealerIndex: playerCount - 1,
+        currentTurnIndex,
+        direction: 1,
+        handsCounts,
+        drawPileCount: deck.length - playerCount * handSize - 1,
+        discardCount: 1 + Math.floor(Math.random() * 6),
+        topCard,
+        currentSuit: topCard.suit,
+        lastEffect: null,
+        consecutivePasses: 0,
+        phase,
+        round,
+        deals: [],
+        settings: {
+            winTarget: 100,
+            roundLimit: null,
+            drawTwos: true,
+            skips: true,
+            reverses: true,
+        },
+        history: [],
+        scores,
+        roundScoreBreakdown: {},
+    };
+
+    const playerData: CrazyEightsPlayerData = {
+        localOrdering: playOrder,
+        hand: hands[0] || [],
+    };
+
+    return { gameData, playerData };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Export Types
 // ─────────────────────────────────────────────────────────────────────────────
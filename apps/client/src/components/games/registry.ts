@@ -4,12 +4,33 @@
 import { ComponentType } from "react";
 import Dominoes from "./dominoes";
 import Spades from "./spades";
+import LRC from "./lrc";
+import Hearts from "./hearts";
+import BidWhist from "./bidwhist";
+import Euchre from "./euchre";
+import CrazyEights from "./crazyeights";
+import SpadesReplayTable from "./spades/ui/SpadesReplayTable";
+import DominoesReplayTable from "./dominoes/ui/DominoesReplayTable";
+import HeartsReplayTable from "./hearts/ui/HeartsReplayTable";
+import BidWhistReplayTable from "./bidwhist/ui/BidWhistReplayTable";
+import EuchreReplayTable from "./euchre/ui/EuchreReplayTable";
+import CrazyEightsReplayTable from "./crazyeights/ui/CrazyEightsReplayTable";
 import { GameData, PlayerData } from "@shared/types";
 import {
     generateSpadesMockData,
     generateDominoesMockData,
+    generateLRCMockData,
+    generateHeartsMockData,
+    generateBidWhistMockData,
+    generateEuchreMockData,
+    generateCrazyEightsMockData,
     SpadesMockOptions,
     DominoesMockOptions,
+    LRCMockOptions,
+    HeartsMockOptions,
+    BidWhistMockOptions,
+    EuchreMockOptions,
+    CrazyEightsMockOptions,
 } from "./mockData";
 
 /**
@@ -34,6 +55,20 @@ export interface GameComponentProps<
     roomCode?: string;
 }
 
+/**
+ * Props for a game's read-only replay table
+ */
+export interface ReplayTableProps<
+    TGameData extends GameData = GameData,
+    TPlayerData extends PlayerData = PlayerData,
+> {
+    gameData: TGameData;
+    /** Private state of the seat the table is viewed from */
+    playerData: TPlayerData;
+    /** Every player's private state (all hands revealed) */
+    playerStates: Record<string, TPlayerData>;
+}
+
 /**
  * Mock data generator function type
  */
@@ -58,6 +93,9 @@ interface GameRegistryEntry {
     generateMockData?: MockDataGenerator<Record<string, unknown>>;
     /** Default options for mock data generation */
     defaultMockOptions?: Record<string, unknown>;
+    /** Read-only table for stepping through replays */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    replayTable?: ComponentType<ReplayTableProps<any, any>>;
 }
 
 /**
@@ -76,6 +114,7 @@ export const GAME_REGISTRY: Record<string, GameRegistryEntry> = {
             round: 1,
             boardTileCount: 5,
         },
+        replayTable: DominoesReplayTable,
     },
     spades: {
         component: Spades,
@@ -88,6 +127,67 @@ export const GAME_REGISTRY: Record<string, GameRegistryEntry> = {
             round: 1,
             includeCurrentTrick: true,
         },
+        replayTable: SpadesReplayTable,
+    },
+    hearts: {
+        component: Hearts,
+        displayName: "Hearts",
+        generateMockData:
+            generateHeartsMockData as MockDataGenerator<HeartsMockOptions>,
+        defaultMockOptions: {
+            phase: "playing",
+            round: 1,
+            includeCurrentTrick: true,
+        },
+        replayTable: HeartsReplayTable,
+    },
+    bidwhist: {
+        component: BidWhist,
+        displayName: "Bid Whist",
+        generateMockData:
+            generateBidWhistMockData as MockDataGenerator<BidWhistMockOptions>,
+        defaultMockOptions: {
+            phase: "playing",
+            round: 1,
+            includeCurrentTrick: true,
+        },
+        replayTable: BidWhistReplayTable,
+    },
+    euchre: {
+        component: Euchre,
+        displayName: "Euchre",
+        generateMockData:
+            generateEuchreMockData as MockDataGenerator<EuchreMockOptions>,
+        defaultMockOptions: {
+            phase: "playing",
+            round: 1,
+            includeCurrentTrick: true,
+        },
+        replayTable: EuchreReplayTable,
+    },
+    crazyeights: {
+        component: CrazyEights,
+        displayName: "Crazy Eights",
+        generateMockData:
+            generateCrazyEightsMockData as MockDataGenerator<CrazyEightsMockOptions>,
+        defaultMockOptions: {
+            playerCount: 6,
+            phase: "playing",
+            round: 1,
+        },
+        replayTable: CrazyEightsReplayTable,
+    },
+    lrc: {
+        component: LRC,
+        displayName: "Left Right Center",
+        generateMockData:
+            generateLRCMockData as MockDataGenerator<LRCMockOptions>,
+        defaultMockOptions: {
+            playerCount: 5,
+            phase: "playing",
+            startingChips: 3,
+            chipValue: 0.25,
+        },
     },
 };
 
@@ -102,6 +202,17 @@ export function getGameComponent(
     return GAME_REGISTRY[gameType]?.component ?? null;
 }
 
+/**
+ * Get the replay table for a given game type.
+ * Returns null if the game type doesn't support replays.
+ */
+export function getReplayTable(
+    gameType: string
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): ComponentType<ReplayTableProps<any, any>> | null {
+    return GAME_REGISTRY[gameType]?.replayTable ?? null;
+}
+
 /**
  * Check if a game type is registered.
  */
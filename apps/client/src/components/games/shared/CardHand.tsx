@@ -22,6 +22,8 @@ interface CardHandProps {
     cardCount?: number;
     /** Whether this is the local player's hand */
     isLocalPlayer?: boolean;
+    /** Show an opponent's cards face up (e.g. in replays) */
+    revealCards?: boolean;
     /** Orientation of the fan */
     orientation?: FanOrientation;
     /** Card size */
@@ -30,6 +32,8 @@ interface CardHandProps {
     interactive?: boolean;
     /** Currently selected card index */
     selectedIndex?: number | null;
+    /** Selected card indices when several cards are chosen at once (e.g. passing) */
+    selectedIndices?: number[];
     /** Indices of disabled cards */
     disabledIndices?: number[];
     /** Callback when a card is clicked */
@@ -310,10 +314,12 @@ function CardHand({
     cards,
     cardCount,
     isLocalPlayer = false,
+    revealCards = false,
     orientation,
     size,
     interactive = false,
     selectedIndex = null,
+    selectedIndices,
     disabledIndices = [],
     onCardClick,
     playerId,
@@ -403,7 +409,12 @@ function CardHand({
 
     // For opponents in badge mode, render CardBadge instead
     const effectiveCardCount = cardCount ?? cards.length;
-    if (!isLocalPlayer && layoutConfig.useBadgeMode && effectiveCardCount > 0) {
+    if (
+        !isLocalPlayer &&
+        !revealCards &&
+        layoutConfig.useBadgeMode &&
+        effectiveCardCount > 0
+    ) {
         return (
             <CardBadge
                 cardCount={effectiveCardCount}
@@ -505,9 +516,11 @@ function CardHand({
                         // In spread mode, the tapped card is highlighted
                         const isHighlighted =
                             isSpread && spreadTappedIndex === index;
-                        // Use spread-tap highlighting OR normal selection
-                        const effectivelySelected =
-                            isHighlighted || selectedIndex === index;
+                        // Multi-select shows exactly the chosen cards,
+                        // otherwise spread-tap highlighting OR normal selection
+                        const effectivelySelected = selectedIndices
+                            ? selectedIndices.includes(index)
+                            : isHighlighted || selectedIndex === index;
 
                         return (
                             <CardInHand
@@ -519,7 +532,7 @@ function CardHand({
                                 card={card}
                                 index={index}
                                 totalCards={displayCards.length}
-                                isHidden={!isLocalPlayer}
+                                isHidden={!isLocalPlayer && !revealCards}
                                 isSelected={effectivelySelected}
                                 isDisabled={disabledIndices.includes(index)}
                                 isInteractive={
@@ -0,0 +1,108 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Check, Clock } from "lucide-react";
+import { ContinueGate, Players } from "@shared/types";
+import { Button } from "@/components/ui/button";
+import { useSession } from "@/contexts/SessionContext";
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import { cn } from "@/lib/utils";
+
+interface ContinueGateStatusProps {
+    /** The server's gate (null/undefined when nothing is being waited on) */
+    gate?: ContinueGate | null;
+    players: Players;
+    leaderId: string;
+    /** Action that marks the current player as ready */
+    continueAction: string;
+    sendGameAction: (type: string, payload: unknown) => void;
+    className?: string;
+}
+
+/**
+ * ContinueGateStatus - "Ready to continue" controls for a gated transition.
+ * Shows who the server is still waiting on and when it moves on by itself;
+ * the leader can continue for everyone.
+ */
+export default function ContinueGateStatus({
+    gate,
+    players,
+    leaderId,
+    continueAction,
+    sendGameAction,
+    className,
+}: ContinueGateStatusProps) {
+    const { userId } = useSession();
+    const { clockOffset } = useWebSocket();
+    const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+    useEffect(() => {
+        if (!gate) {
+            setSecondsLeft(null);
+            return;
+        }
+        const update = () => {
+            const remainingMs =
+                gate.autoContinueAt - (Date.now() + clockOffset);
+            setSecondsLeft(Math.max(0, Math.ceil(remainingMs / 1000)));
+        };
+        update();
+        const interval = setInterval(update, 1000);
+        return () => clearInterval(interval);
+    }, [gate, clockOffset]);
+
+    if (!gate) return null;
+
+    const isLeader = userId === leaderId;
+    const isWaitingOnMe = !!userId && gate.waitingOn.includes(userId);
+    const waitingNames = gate.waitingOn
+        .filter((id) => id !== userId)
+        .map((id) => players[id]?.name || "Unknown");
+
+    return (
+        <div className={cn("w-full flex flex-col gap-2", className)}>
+            <div className="flex items-center justify-between gap-2 text-xs sm:text-sm opacity-70">
+                <span className="truncate">
+                    {waitingNames.length > 0
+                        ? `Waiting on ${waitingNames.join(", ")}`
+                        : isWaitingOnMe
+                          ? "Everyone else is ready"
+                          : "Starting soon"}
+                </span>
+                {secondsLeft !== null && (
+                    <span className="flex items-center gap-1 shrink-0 tabular-nums">
+                        <Clock className="w-3.5 h-3.5" />
+                        {secondsLeft}s
+                    </span>
+                )}
+            </div>
+
+            {isWaitingOnMe ? (
+                <Button
+                    className="w-full h-10 sm:h-12 text-sm sm:text-base font-semibold rounded-xl bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 text-white shadow-lg"
+                    onClick={() => sendGameAction(continueAction, {})}
+                >
+                    Ready
+                </Button>
+            ) : (
+                userId &&
+                gate.acknowledged.includes(userId) && (
+                    <div className="flex items-center justify-center gap-1 text-sm text-emerald-500">
+                        <Check className="w-4 h-4" />
+                        You&apos;re ready
+                    </div>
+                )
+            )}
+
+            {isLeader && (
+                <Button
+                    variant="outline"
+                    className="w-full text-sm rounded-xl"
+                    onClick={() => sendGameAction("FORCE_CONTINUE", {})}
+                >
+                    Continue now
+                </Button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ShieldAlert, ShieldCheck, Shield } from "lucide-react";
+import { GameData } from "@shared/types";
+import { DealCheck, verifyDeal } from "@/lib/dealVerification";
+import { cn } from "@/lib/utils";
+
+interface DealVerificationProps {
+    /** The game; its latest deal is checked once the round is over */
+    game: GameData;
+    className?: string;
+}
+
+/**
+ * DealVerification - Shows whether the latest round's revealed seed matches
+ * the commitment published when the cards were dealt, and rebuilds the deal
+ * from the seed to check it matches the hands that were dealt.
+ */
+export default function DealVerification({
+    game,
+    className,
+}: DealVerificationProps) {
+    const [check, setCheck] = useState<DealCheck | null>(null);
+    const deals = "deals" in game ? game.deals : [];
+    const dealIndex = deals.length - 1;
+    const deal = deals[dealIndex];
+
+    useEffect(() => {
+        if (!deal?.seed) {
+            setCheck(null);
+            return;
+        }
+        let cancelled = false;
+        verifyDeal(game, dealIndex).then((result) => {
+            if (!cancelled) setCheck(result);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [game, deal?.seed, dealIndex]);
+
+    if (!deal) return null;
+
+    const shortCommitment = deal.commitment.slice(0, 12);
+    const details = deal.seed
+        ? `Seed: ${deal.seed}\nCommitment: ${deal.commitment}`
+        : `Commitment: ${deal.commitment}`;
+
+    return (
+        <div
+            className={cn(
+                "flex items-center gap-1.5 text-xs text-white/50",
+                className
+            )}
+            title={details}
+        >
+            {check === "verified" ? (
+                <>
+                    <ShieldCheck className="w-3.5 h-3.5 text-emerald-400" />
+                    <span>Fair deal verified (seed {deal.seed})</span>
+                </>
+            ) : check === "seed-only" ? (
+                <>
+                    <ShieldCheck className="w-3.5 h-3.5" />
+                    <span>Seed matches commitment (seed {deal.seed})</span>
+                </>
+            ) : check === "seed-mismatch" ? (
+                <>
+                    <ShieldAlert className="w-3.5 h-3.5 text-red-400" />
+                    <span className="text-red-300">
+                        Deal seed doesn&apos;t match its commitment
+                    </span>
+                </>
+            ) : check === "deal-mismatch" ? (
+                <>
+                    <ShieldAlert className="w-3.5 h-3.5 text-red-400" />
+                    <span className="text-red-300">
+                        Cards dealt don&apos;t match the deal seed
+                    </span>
+                </>
+            ) : (
+                <>
+                    <Shield className="w-3.5 h-3.5" />
+                    <span>Deal commitment {shortCommitment}…</span>
+                </>
+            )}
+        </div>
+    );
+}
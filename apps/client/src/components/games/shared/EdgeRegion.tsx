@@ -72,6 +72,72 @@ const EDGE_LAYOUTS: Record<EdgePosition, EdgeLayout> = {
     },
 };
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Seat assignment for tables with more than four players
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface EdgeSeat {
+    /** Which edge the player sits on */
+    position: EdgePosition;
+    /** Pushes players sharing an edge apart along it */
+    className?: string;
+}
+
+// Opponents per side edge: one each, two each once the table fills up
+function getSideSeatCount(playerCount: number): number {
+    if (playerCount >= 7) return 2;
+    return playerCount >= 3 ? 1 : 0;
+}
+
+/**
+ * Map a player index (0 = local player) to an edge, going clockwise:
+ * up the left edge, across the top, down the right. Players sharing an
+ * edge are pushed apart along it.
+ */
+export function getEdgeSeat(index: number, playerCount: number): EdgeSeat {
+    if (index === 0) return { position: "bottom" };
+
+    const sideCount = getSideSeatCount(playerCount);
+    const topCount = playerCount - 1 - 2 * sideCount;
+    const seat = index - 1;
+
+    if (seat < sideCount) {
+        return {
+            position: "left",
+            className:
+                sideCount > 1
+                    ? seat === 0
+                        ? "self-end"
+                        : "self-start"
+                    : undefined,
+        };
+    }
+    if (seat < sideCount + topCount) {
+        const topSeat = seat - sideCount;
+        return {
+            position: "top",
+            className:
+                topCount > 1
+                    ? topSeat === 0
+                        ? "justify-self-start"
+                        : topSeat === topCount - 1
+                          ? "justify-self-end"
+                          : "justify-self-center"
+                    : undefined,
+        };
+    }
+    const rightSeat = seat - sideCount - topCount;
+    return {
+        position: "right",
+        className:
+            sideCount > 1
+                ? rightSeat === 0
+                    ? "self-start"
+                    : "self-end"
+                : undefined,
+    };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // EdgeRegion Component
 // ─────────────────────────────────────────────────────────────────────────────
@@ -175,7 +175,7 @@ export default function GameMenu({
     // Leave game (individual player) - returns to lobby, game pauses for replacement
     const handleLeaveGame = useCallback(() => {
         if (socket && roomId && userId) {
-            socket.emit("leave_game", { roomId, userId });
+            socket.emit("leave_game", { roomId });
         }
         // Clear room session to force proper rejoin flow when returning
         clearRoomSession();
@@ -186,7 +186,7 @@ export default function GameMenu({
     // End game for all (leader only) - returns everyone to lobby
     const handleEndGameForAll = useCallback(() => {
         if (socket && isLeader && roomId && userId) {
-            socket.emit("abort_game", { roomId, userId });
+            socket.emit("abort_game", { roomId });
         }
         setEndGameDialogOpen(false);
         // Navigation happens via game_aborted event handler in useRoomEvents
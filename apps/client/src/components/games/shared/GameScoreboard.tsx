@@ -39,6 +39,20 @@ interface GameScoreboardProps {
     className?: string;
 }
 
+// Team colors in order - two teams are blue vs red, individual players
+// (cutthroat) continue through the list
+const TEAM_STYLES = [
+    { text: "text-blue-400", bg: "bg-blue-500/20" },
+    { text: "text-red-400", bg: "bg-red-500/20" },
+    { text: "text-emerald-400", bg: "bg-emerald-500/20" },
+    { text: "text-amber-400", bg: "bg-amber-500/20" },
+    { text: "text-purple-400", bg: "bg-purple-500/20" },
+];
+
+function getTeamStyle(index: number) {
+    return TEAM_STYLES[index % TEAM_STYLES.length];
+}
+
 // Score display with animated changes
 function AnimatedScore({
     score,
@@ -93,13 +107,16 @@ function DesktopScoreboard({
                     >
                         <Trophy className="w-3.5 h-3.5 text-amber-400" />
                         <div className="flex items-center gap-1.5 text-sm font-medium">
-                            <span className="text-blue-400">
-                                {teams[0]?.score ?? 0}
-                            </span>
-                            <span className="text-white/40">-</span>
-                            <span className="text-red-400">
-                                {teams[1]?.score ?? 0}
-                            </span>
+                            {teams.map((team, index) => (
+                                <React.Fragment key={team.teamId}>
+                                    {index > 0 && (
+                                        <span className="text-white/40">-</span>
+                                    )}
+                                    <span className={getTeamStyle(index).text}>
+                                        {team.score}
+                                    </span>
+                                </React.Fragment>
+                            ))}
                         </div>
                         <ChevronDown className="w-3 h-3 text-white/50" />
                     </motion.button>
@@ -145,18 +162,19 @@ function DesktopScoreboard({
                                         key={team.teamId}
                                         className={cn(
                                             "flex items-center justify-between p-2.5 rounded-lg",
-                                            index === 0
-                                                ? "bg-blue-500/20"
-                                                : "bg-red-500/20"
+                                            getTeamStyle(index).bg
                                         )}
                                     >
                                         <div className="flex flex-col">
                                             <span className="text-sm font-medium text-white">
                                                 {team.teamName}
                                             </span>
-                                            <span className="text-xs text-white/60">
-                                                {team.players.join(" & ")}
-                                            </span>
+                                            {/* Solo players are named by teamName */}
+                                            {team.players.length > 1 && (
+                                                <span className="text-xs text-white/60">
+                                                    {team.players.join(" & ")}
+                                                </span>
+                                            )}
                                         </div>
                                         <div className="flex flex-col items-end">
                                             <AnimatedScore
@@ -257,15 +275,18 @@ function MobileScoreboard({
                 <div className="overflow-y-auto flex-1 p-4 space-y-5 pb-6">
                     {/* Team scores */}
                     {/* Team scores */}
-                    <div className="grid grid-cols-2 gap-3">
+                    <div
+                        className={cn(
+                            "grid gap-3",
+                            teams.length > 2 ? "grid-cols-3" : "grid-cols-2"
+                        )}
+                    >
                         {teams.map((team, index) => (
                             <div
                                 key={team.teamId}
                                 className={cn(
                                     "p-4 rounded-xl",
-                                    index === 0
-                                        ? "bg-blue-500/20"
-                                        : "bg-red-500/20"
+                                    getTeamStyle(index).bg
                                 )}
                             >
                                 <div className="text-sm font-medium text-white/80 mb-1">
@@ -77,7 +77,8 @@ function getLayoutConfig(
         default:
             return {
                 layoutMode: mode,
-                useBadgeMode: false,
+                // Past four players opponents share edges, so fans won't fit
+                useBadgeMode: playerCount > 4,
                 heroCardSize: "lg",
                 opponentCardSize: "sm",
             };
@@ -138,6 +139,9 @@ interface GameTableProps {
  *   .     top    .
  *   left  center right
  *   .     bottom .
+ *
+ * With more players, several share the top and side areas (see
+ * getEdgeSeat in EdgeRegion).
  */
 function GameTable({
     playerCount,
@@ -0,0 +1,98 @@
+"use client";
+
+import React from "react";
+import { Undo2 } from "lucide-react";
+import { Players, UndoRequest } from "@shared/types";
+import { Button } from "@/components/ui/button";
+import { useSession } from "@/contexts/SessionContext";
+import { cn } from "@/lib/utils";
+
+interface UndoControlsProps {
+    players: Players;
+    /** Player who can still take back their last play */
+    undoPlayerId?: string | null;
+    undoRequest?: UndoRequest | null;
+    sendGameAction: (type: string, payload: unknown) => void;
+    className?: string;
+}
+
+/**
+ * UndoControls - Take back your last play, with your opponents' approval.
+ * Shows the "Undo" button to the player who just played, and the vote to
+ * the opponents the server is waiting on.
+ */
+export default function UndoControls({
+    players,
+    undoPlayerId,
+    undoRequest,
+    sendGameAction,
+    className,
+}: UndoControlsProps) {
+    const { userId } = useSession();
+
+    const nameOf = (id: string) => players[id]?.name || "Unknown";
+
+    if (undoRequest) {
+        const isVoter = !!userId && undoRequest.waitingOn.includes(userId);
+        const waitingNames = undoRequest.waitingOn.map(nameOf).join(", ");
+
+        return (
+            <div
+                className={cn(
+                    "fixed bottom-6 left-6 z-40 max-w-[calc(100vw-3rem)] rounded-lg bg-slate-900/90 text-white shadow-md px-4 py-3 flex flex-col gap-2",
+                    className
+                )}
+            >
+                <span className="text-sm">
+                    {undoRequest.requesterId === userId
+                        ? `Asking ${waitingNames} to undo your play...`
+                        : isVoter
+                          ? `${nameOf(undoRequest.requesterId)} wants to take back their last play`
+                          : `${nameOf(undoRequest.requesterId)} asked to undo - waiting on ${waitingNames}`}
+                </span>
+                {isVoter && (
+                    <div className="flex gap-2">
+                        <Button
+                            size="sm"
+                            className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white"
+                            onClick={() =>
+                                sendGameAction("RESPOND_UNDO", {
+                                    approve: true,
+                                })
+                            }
+                        >
+                            Allow
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            className="flex-1 text-slate-900"
+                            onClick={() =>
+                                sendGameAction("RESPOND_UNDO", {
+                                    approve: false,
+                                })
+                            }
+                        >
+                            Decline
+                        </Button>
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    if (!userId || undoPlayerId !== userId) return null;
+
+    return (
+        <Button
+            className={cn(
+                "fixed bottom-6 left-6 z-40 px-4 py-2 rounded-lg shadow-md bg-slate-700 text-white hover:bg-slate-800 transition-colors",
+                className
+            )}
+            onClick={() => sendGameAction("REQUEST_UNDO", {})}
+        >
+            <Undo2 className="w-4 h-4 mr-2" />
+            Undo
+        </Button>
+    );
+}
@@ -12,8 +12,16 @@ export {
 // V2 Components - CSS Grid-based responsive layout
 export { default as GameTable, TableCenter, useGameTable } from "./GameTable";
 export type { LayoutMode } from "./GameTable";
-export { default as EdgeRegion, useEdgeRegion } from "./EdgeRegion";
-export type { EdgePosition, EdgeRegionContextValue } from "./EdgeRegion";
+export {
+    default as EdgeRegion,
+    useEdgeRegion,
+    getEdgeSeat,
+} from "./EdgeRegion";
+export type {
+    EdgePosition,
+    EdgeRegionContextValue,
+    EdgeSeat,
+} from "./EdgeRegion";
 export { default as CardHand } from "./CardHand";
 export type { FanOrientation } from "./CardHand";
 export { default as CardDeck } from "./CardDeck";
@@ -43,3 +51,12 @@ export {
 
 // Turn timer for time-limited games
 export { TurnTimer } from "./TurnTimer";
+
+// Seeded deal verification
+export { default as DealVerification } from "./DealVerification";
+
+// Server-tracked "ready to continue" votes
+export { default as ContinueGateStatus } from "./ContinueGateStatus";
+
+// Take-back requests voted on by opponents
+export { default as UndoControls } from "./UndoControls";
@@ -8,15 +8,23 @@ import {
     GameMenu,
     GameSettingToggle,
     useGameSetting,
+    UndoControls,
 } from "@/components/games/shared";
-import { SpadesData, SpadesPlayerData, PlayingCard } from "@shared/types";
+import {
+    SpadesData,
+    SpadesPlayerData,
+    PlayingCard,
+    SPADES_DECK_SIZE,
+    SPADES_TEAM_BID_MINIMUM,
+} from "@shared/types";
 import PlaceBidModal from "./ui/PlaceBidModal";
 import BlindBidModal from "./ui/BlindBidModal";
 import RoundSummaryModal from "./ui/RoundSummaryModal";
 import GameSummaryModal from "./ui/GameSummaryModal";
+import { getTeamName } from "./ui/teams";
 import { Lightbulb } from "lucide-react";
 import { toast } from "sonner";
-import { useWebSocketError } from "@/hooks";
+import { v4 as uuidv4 } from "uuid";
 
 // Wrapper component for BlindBidModal to properly use hooks
 function BlindBidModalWrapper({
@@ -25,6 +33,7 @@ function BlindBidModalWrapper({
     canBlindNil,
     canBlindBid,
     teamScoreDeficit,
+    maxBid,
     onChooseBlindNil,
     onChooseBlindBid,
 }: {
@@ -33,6 +42,7 @@ function BlindBidModalWrapper({
     canBlindNil: boolean;
     canBlindBid: boolean;
     teamScoreDeficit: number;
+    maxBid: number;
     onChooseBlindNil: () => void;
     onChooseBlindBid: (amount: number) => void;
 }) {
@@ -43,6 +53,7 @@ function BlindBidModalWrapper({
             canBlindNil={canBlindNil}
             canBlindBid={canBlindBid}
             teamScoreDeficit={teamScoreDeficit}
+            maxBid={maxBid}
             onChooseBlindNil={onChooseBlindNil}
             onChooseBlindBid={onChooseBlindBid}
         />
@@ -63,9 +74,6 @@ export default function Spades({
     const { socket, connected } = useWebSocket();
     const { roomId, userId } = useSession();
 
-    // Enable WebSocket error handling with toasts
-    useWebSocketError();
-
     const sendGameAction = React.useCallback(
         (type: string, payload: unknown) => {
             // Use optimistic action dispatcher if available, otherwise fallback to direct emit
@@ -77,12 +85,12 @@ export default function Spades({
                 const action = {
                     type,
                     payload,
-                    userId,
+                    expectedVersion: gameData.version,
                 };
                 socket.emit("game_action", { roomId, action });
             }
         },
-        [dispatchOptimisticAction, socket, connected, userId, roomId]
+        [dispatchOptimisticAction, socket, connected, gameData.version, roomId]
     );
 
     // For non-player system actions (CONTINUE_AFTER_TRICK_RESULT, CONTINUE_AFTER_ROUND_SUMMARY)
@@ -93,11 +101,13 @@ export default function Spades({
             const action = {
                 type,
                 payload,
-                userId,
+                // Acked like optimistic actions, so a failure isn't silent
+                actionId: `${userId}-${uuidv4()}`,
+                expectedVersion: gameData.version,
             };
             socket.emit("game_action", { roomId, action });
         },
-        [socket, connected, userId, roomId]
+        [socket, connected, gameData.version, roomId, userId]
     );
 
     // Assume gameData has phase, players, currentIndex, and bids fields
@@ -110,6 +120,30 @@ export default function Spades({
     const [blindBidModalOpen, setBlindBidModalOpen] = useState(false);
     const [hasSeenCards, setHasSeenCards] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    // One trick per card in hand - 13 with 4 players (cutthroat deals 10-17)
+    const maxBid = Math.floor(SPADES_DECK_SIZE / gameData.playOrder.length);
+
+    // Four-bid minimum: the last partner to bid makes up the team's shortfall
+    const minBid = useMemo(() => {
+        if (!gameData.settings.fourBidMinimum) return 1;
+        const team = Object.values(gameData.teams).find((t) =>
+            t.players.includes(userId)
+        );
+        const partners = team?.players.filter((id) => id !== userId) ?? [];
+        if (partners.length === 0) return 1;
+        if (partners.some((id) => !gameData.bids[id])) return 1;
+        const partnersBid = partners.reduce(
+            (sum, id) => sum + gameData.bids[id].amount,
+            0
+        );
+        return Math.max(1, SPADES_TEAM_BID_MINIMUM - partnersBid);
+    }, [
+        gameData.settings.fourBidMinimum,
+        gameData.teams,
+        gameData.bids,
+        userId,
+    ]);
+    const shownBid = Math.max(bid, minBid);
 
     // Calculate blind bid eligibility
     const blindBidEligibility = useMemo(() => {
@@ -193,7 +227,9 @@ export default function Spades({
 
     function handleBidChange(delta: number) {
         // Minimum bid is 1 (0 requires Nil bid)
-        setBid((prev: number) => Math.max(1, Math.min(13, prev + delta)));
+        setBid((prev: number) =>
+            Math.max(minBid, Math.min(maxBid, Math.max(prev, minBid) + delta))
+        );
     }
 
     function handleSubmitBid(isNil: boolean) {
@@ -205,7 +241,7 @@ export default function Spades({
 
         setIsSubmitting(true);
         const bidData = {
-            amount: isNil ? 0 : bid,
+            amount: isNil ? 0 : shownBid,
             type: isNil ? "nil" : "normal",
             isBlind: false,
         };
@@ -249,7 +285,7 @@ export default function Spades({
 
     function handleReturnToLobby() {
         if (!socket || !connected) return;
-        socket.emit("abort_game", { roomId, userId });
+        socket.emit("abort_game", { roomId });
     }
 
     const handleCardPlay = useCallback(
@@ -263,7 +299,7 @@ export default function Spades({
     // Build team scores for scoreboard
     const teamScores = Object.entries(gameData.teams).map(([teamId, team]) => ({
         teamId,
-        teamName: `Team ${Number(teamId) + 1}`,
+        teamName: getTeamName(gameData, teamId),
         players: team.players.map((pid) => gameData.players[pid]?.name || pid),
         score: team.score,
         roundScore: gameData.roundTeamScores?.[Number(teamId)],
@@ -283,32 +319,7 @@ export default function Spades({
         } else {
             setBidModalOpen(false);
         }
-        if (gameData.phase === "trick-result" && userId === gameData.leaderId) {
-            const timer = setTimeout(() => {
-                sendSystemAction("CONTINUE_AFTER_TRICK_RESULT", {});
-            }, 3000); // 3 seconds
-
-            return () => clearTimeout(timer);
-        }
-        // Auto-continue from round-summary after timeout (includes on refresh/mount)
-        if (
-            gameData.phase === "round-summary" &&
-            userId === gameData.leaderId
-        ) {
-            const timer = setTimeout(() => {
-                sendSystemAction("CONTINUE_AFTER_ROUND_SUMMARY", {});
-            }, 10000); // 10 seconds to allow viewing the summary
-
-            return () => clearTimeout(timer);
-        }
-    }, [
-        gameData.phase,
-        isMyTurn,
-        isBiddingPhase,
-        userId,
-        gameData.leaderId,
-        sendSystemAction,
-    ]);
+    }, [isMyTurn, isBiddingPhase]);
 
     return (
         <div className="h-screen w-full overflow-hidden">
@@ -318,6 +329,9 @@ export default function Spades({
                 isMyTurn={isMyTurn}
                 onCardPlay={handleCardPlay}
                 showHints={showHints}
+                onContinue={() =>
+                    sendSystemAction("CONTINUE_AFTER_TRICK_RESULT", {})
+                }
             />
 
             {/* Game Menu */}
@@ -359,24 +373,35 @@ export default function Spades({
                 canBlindNil={blindBidEligibility.canBlindNil}
                 canBlindBid={blindBidEligibility.canBlindBid}
                 teamScoreDeficit={blindBidEligibility.teamScoreDeficit}
+                maxBid={maxBid}
                 onChooseBlindNil={handleBlindNil}
                 onChooseBlindBid={handleBlindBid}
             />
 
             <PlaceBidModal
-                bid={bid}
+                bid={shownBid}
                 bidModalOpen={bidModalOpen && hasSeenCards}
                 setBidModalOpen={setBidModalOpen}
                 handleBidChange={handleBidChange}
                 handleSubmitBid={handleSubmitBid}
+                minBid={minBid}
+                maxBid={maxBid}
                 allowNil={gameData.settings.allowNil}
                 isSubmitting={isSubmitting}
             />
 
+            {/* Take back the last play */}
+            <UndoControls
+                players={gameData.players}
+                undoPlayerId={gameData.undoPlayerId}
+                undoRequest={gameData.undoRequest}
+                sendGameAction={sendGameAction}
+            />
+
             {/* Round Summary Modal */}
             <RoundSummaryModal
                 gameData={gameData}
-                sendGameAction={sendGameAction}
+                sendGameAction={sendSystemAction}
             />
 
             {/* Game Summary Modal */}
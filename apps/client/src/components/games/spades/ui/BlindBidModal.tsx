@@ -16,6 +16,7 @@ export default function BlindBidModal({
     canBlindNil,
     canBlindBid,
     teamScoreDeficit,
+    maxBid = 13,
     onChooseBlindNil,
     onChooseBlindBid,
 }: {
@@ -24,6 +25,8 @@ export default function BlindBidModal({
     canBlindNil: boolean;
     canBlindBid: boolean;
     teamScoreDeficit: number;
+    /** Tricks in the round (13 unless cutthroat) */
+    maxBid?: number;
     onChooseBlindNil: () => void;
     onChooseBlindBid: (amount: number) => void;
 }) {
@@ -133,8 +136,8 @@ export default function BlindBidModal({
                                             </span>
                                         </div>
                                         <p className="text-xs text-white/90">
-                                            Make a bid (4-13) without seeing
-                                            your cards
+                                            Make a bid (4-{maxBid}) without
+                                            seeing your cards
                                         </p>
                                         <div className="text-sm font-semibold text-green-300">
                                             Earn DOUBLE points if successful!
@@ -195,10 +198,10 @@ export default function BlindBidModal({
                                             variant="outline"
                                             onClick={() =>
                                                 setBlindBidAmount((prev) =>
-                                                    Math.min(13, prev + 1)
+                                                    Math.min(maxBid, prev + 1)
                                                 )
                                             }
-                                            disabled={blindBidAmount >= 13}
+                                            disabled={blindBidAmount >= maxBid}
                                             className="h-10 w-10 rounded-full border-amber-400/30 bg-slate-800 hover:bg-slate-700 text-white disabled:opacity-30"
                                         >
                                             <Plus className="w-5 h-5" />
@@ -5,8 +5,9 @@ import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { useSession } from "@/contexts/SessionContext";
 import { SpadesData } from "@shared/types";
 import { motion, AnimatePresence } from "motion/react";
-import { Trophy, Crown, Users, Award, Home } from "lucide-react";
+import { Trophy, Crown, Users, Award, Home, History } from "lucide-react";
 import React from "react";
+import { getTeamName, getTeamStyle } from "./teams";
 
 export default function GameSummaryModal({
     gameData,
@@ -21,7 +22,15 @@ export default function GameSummaryModal({
 
     // Find winning team
     const teams = Object.entries(gameData.teams);
-    const sortedTeams = [...teams].sort((a, b) => b[1].score - a[1].score);
+    // The server's winner goes first (a Boston win can beat a higher score)
+    const isWinnerTeam = (teamId: string) =>
+        gameData.winnerTeamId !== undefined &&
+        Number(teamId) === gameData.winnerTeamId;
+    const sortedTeams = [...teams].sort(
+        (a, b) =>
+            Number(isWinnerTeam(b[0])) - Number(isWinnerTeam(a[0])) ||
+            b[1].score - a[1].score
+    );
     const [winningTeamId, winningTeam] = sortedTeams[0] || [];
 
     // Check if current user is on winning team
@@ -29,6 +38,8 @@ export default function GameSummaryModal({
         team.players.includes(userId)
     )?.[0];
     const isWinner = currentUserTeamId === winningTeamId;
+    // Cutthroat players are their own team
+    const isSolo = winningTeam?.players.length === 1;
 
     return (
         <Dialog open={isOpen}>
@@ -70,7 +81,9 @@ export default function GameSummaryModal({
                                 </p>
                                 <p className="text-lg text-white/70">
                                     {isWinner
-                                        ? "🎉 Congratulations! Your team won! 🎉"
+                                        ? isSolo
+                                            ? "🎉 Congratulations! You won! 🎉"
+                                            : "🎉 Congratulations! Your team won! 🎉"
                                         : "Better luck next time!"}
                                 </p>
                             </motion.div>
@@ -78,7 +91,6 @@ export default function GameSummaryModal({
                             {/* Final Standings */}
                             <div className="w-full space-y-3">
                                 {sortedTeams.map(([teamId, team], index) => {
-                                    const teamNumber = Number(teamId) + 1;
                                     const isWinningTeam = index === 0;
 
                                     return (
@@ -95,9 +107,9 @@ export default function GameSummaryModal({
                                             className={`rounded-xl p-4 border ${
                                                 isWinningTeam
                                                     ? "bg-gradient-to-br from-amber-500/30 to-yellow-600/20 border-amber-400/50 shadow-lg shadow-amber-500/20"
-                                                    : index === 0
-                                                      ? "bg-gradient-to-br from-blue-500/20 to-blue-600/10 border-blue-500/30"
-                                                      : "bg-gradient-to-br from-red-500/20 to-red-600/10 border-red-500/30"
+                                                    : getTeamStyle(
+                                                          Number(teamId)
+                                                      ).card
                                             }`}
                                         >
                                             <div className="flex items-center justify-between">
@@ -123,14 +135,19 @@ export default function GameSummaryModal({
                                                         className={`w-5 h-5 ${
                                                             isWinningTeam
                                                                 ? "text-amber-400"
-                                                                : index === 0
-                                                                  ? "text-blue-400"
-                                                                  : "text-red-400"
+                                                                : getTeamStyle(
+                                                                      Number(
+                                                                          teamId
+                                                                      )
+                                                                  ).text
                                                         }`}
                                                     />
                                                     <div>
                                                         <div className="font-bold text-lg">
-                                                            Team {teamNumber}
+                                                            {getTeamName(
+                                                                gameData,
+                                                                teamId
+                                                            )}
                                                         </div>
                                                         <div className="text-sm text-white/60">
                                                             {team.players
@@ -227,6 +244,30 @@ export default function GameSummaryModal({
                                 </div>
                             </motion.div>
 
+                            {/* Watch Replay (opens in a new tab) */}
+                            <motion.div
+                                initial={{ opacity: 0, y: 20 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                transition={{ delay: 0.7 }}
+                                className="w-full"
+                            >
+                                <Button
+                                    asChild
+                                    variant="outline"
+                                    size="lg"
+                                    className="w-full bg-transparent border-white/20 text-white hover:bg-white/10 hover:text-white"
+                                >
+                                    <a
+                                        href={`/replay/${gameData.id}`}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                    >
+                                        <History className="w-5 h-5 mr-2" />
+                                        Watch Replay
+                                    </a>
+                                </Button>
+                            </motion.div>
+
                             {/* Return to Lobby Button (Leader only) */}
                             {isLeader && (
                                 <motion.div
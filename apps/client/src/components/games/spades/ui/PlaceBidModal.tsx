@@ -15,6 +15,8 @@ export default function PlaceBidModal({
     setBidModalOpen,
     handleBidChange,
     handleSubmitBid,
+    minBid = 1,
+    maxBid = 13,
     allowNil,
     isSubmitting,
 }: {
@@ -23,6 +25,10 @@ export default function PlaceBidModal({
     setBidModalOpen: React.Dispatch<React.SetStateAction<boolean>>;
     handleBidChange: (delta: number) => void;
     handleSubmitBid: (isNil: boolean) => void;
+    /** Lowest normal bid allowed (four-bid minimum) */
+    minBid?: number;
+    /** Tricks in the round (13 unless cutthroat) */
+    maxBid?: number;
     allowNil: boolean;
     isSubmitting?: boolean;
 }) {
@@ -71,7 +77,7 @@ export default function PlaceBidModal({
                         size="icon"
                         variant="outline"
                         onClick={() => handleBidChange(-1)}
-                        disabled={bid <= 1}
+                        disabled={bid <= minBid}
                         aria-label="Decrease bid by 1"
                         className="h-10 w-10 sm:h-14 sm:w-14 rounded-full border-white/20 bg-slate-800 hover:bg-slate-700 text-white text-xl sm:text-2xl disabled:opacity-30"
                     >
@@ -93,7 +99,7 @@ export default function PlaceBidModal({
                         size="icon"
                         variant="outline"
                         onClick={() => handleBidChange(1)}
-                        disabled={bid >= 13}
+                        disabled={bid >= maxBid}
                         aria-label="Increase bid by 1"
                         className="h-10 w-10 sm:h-14 sm:w-14 rounded-full border-white/20 bg-slate-800 hover:bg-slate-700 text-white text-xl sm:text-2xl disabled:opacity-30"
                     >
@@ -118,7 +124,7 @@ export default function PlaceBidModal({
                                 variant="ghost"
                                 size="sm"
                                 onClick={() => handleBidChange(quickBid - bid)}
-                                disabled={isNilBid}
+                                disabled={isNilBid || quickBid < minBid}
                                 aria-pressed={bid === quickBid && !isNilBid}
                                 aria-label={`Bid ${quickBid} tricks`}
                                 className={`h-7 w-7 sm:h-8 sm:w-8 rounded-full text-xs sm:text-sm ${
@@ -1,12 +1,42 @@
-import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
-import { useSession } from "@/contexts/SessionContext";
-import { SpadesData } from "@shared/types";
+import { SpadesData, TeamScoreBreakdown } from "@shared/types";
+import {
+    ContinueGateStatus,
+    DealVerification,
+} from "@/components/games/shared";
 import { motion } from "motion/react";
 import { Trophy, Target, TrendingUp, Users } from "lucide-react";
-import React, { useEffect, useState } from "react";
+import React from "react";
+import { getTeamName, getTeamStyle } from "./teams";
 
-const AUTO_CONTINUE_SECONDS = 10;
+/**
+ * Scoring lines worth showing for a team (non-zero entries only).
+ */
+function getBreakdownLines(
+    breakdown: TeamScoreBreakdown | undefined
+): { label: string; points: number }[] {
+    if (!breakdown) return [];
+    const bidLabel = breakdown.minimumBidApplied
+        ? `Bid ${breakdown.bid} (minimum)`
+        : `Bid ${breakdown.bid}`;
+    const lines = [
+        { label: bidLabel, points: breakdown.basePoints },
+        { label: `Bags (${breakdown.bags})`, points: breakdown.bagPoints },
+        { label: "Bags penalty", points: -breakdown.bagPenalty },
+        { label: "Nil", points: breakdown.nilBonus - breakdown.nilPenalty },
+        {
+            label: "Blind",
+            points: breakdown.blindBonus - breakdown.blindPenalty,
+        },
+        {
+            label: "Blind nil",
+            points: breakdown.blindNilBonus - breakdown.blindNilPenalty,
+        },
+        { label: "10 for 200", points: breakdown.tenForTwoHundredBonus ?? 0 },
+        { label: "Boston", points: breakdown.bostonBonus ?? 0 },
+    ];
+    return lines.filter((line) => line.points !== 0);
+}
 
 export default function RoundSummaryModal({
     gameData,
@@ -15,26 +45,8 @@ export default function RoundSummaryModal({
     gameData: SpadesData;
     sendGameAction: (type: string, payload: unknown) => void;
 }) {
-    const { userId } = useSession();
-    const isLeader = userId === gameData.leaderId;
     const isOpen = gameData.phase === "round-summary";
 
-    // Countdown timer for auto-continue
-    const [countdown, setCountdown] = useState(AUTO_CONTINUE_SECONDS);
-
-    useEffect(() => {
-        if (!isOpen || !isLeader) {
-            setCountdown(AUTO_CONTINUE_SECONDS);
-            return;
-        }
-
-        const interval = setInterval(() => {
-            setCountdown((prev) => Math.max(0, prev - 1));
-        }, 1000);
-
-        return () => clearInterval(interval);
-    }, [isOpen, isLeader]);
-
     return (
         <Dialog open={isOpen}>
             <DialogContent className="flex flex-col items-center gap-4 sm:gap-6 max-w-[95vw] sm:max-w-lg max-h-[85vh] sm:max-h-[90vh] overflow-y-auto bg-slate-900 border-white/10 text-white p-4 sm:p-6">
@@ -57,22 +69,18 @@ export default function RoundSummaryModal({
                                     animate={{ opacity: 1, y: 0 }}
                                     transition={{ delay: index * 0.1 }}
                                     className={`rounded-xl p-4 ${
-                                        index === 0
-                                            ? "bg-gradient-to-br from-blue-500/20 to-blue-600/10 border border-blue-500/30"
-                                            : "bg-gradient-to-br from-red-500/20 to-red-600/10 border border-red-500/30"
+                                        getTeamStyle(index).card
                                     }`}
                                 >
                                     <div className="flex items-center justify-between mb-3">
                                         <div className="flex items-center gap-2">
                                             <Users
                                                 className={`w-5 h-5 ${
-                                                    index === 0
-                                                        ? "text-blue-400"
-                                                        : "text-red-400"
+                                                    getTeamStyle(index).text
                                                 }`}
                                             />
                                             <span className="font-bold text-base sm:text-lg">
-                                                Team {Number(teamId) + 1}
+                                                {getTeamName(gameData, teamId)}
                                             </span>
                                         </div>
                                         <div className="flex items-center gap-2 sm:gap-3">
@@ -140,27 +148,46 @@ export default function RoundSummaryModal({
                                             </div>
                                         ))}
                                     </div>
+
+                                    {/* How the round score was made up */}
+                                    <div className="flex flex-wrap gap-x-3 gap-y-1 mt-3 text-xs text-white/60">
+                                        {getBreakdownLines(
+                                            gameData.roundScoreBreakdown?.[
+                                                Number(teamId)
+                                            ]
+                                        ).map((line) => (
+                                            <span key={line.label}>
+                                                {line.label}:{" "}
+                                                <span
+                                                    className={
+                                                        line.points > 0
+                                                            ? "text-emerald-400"
+                                                            : "text-red-400"
+                                                    }
+                                                >
+                                                    {line.points > 0 ? "+" : ""}
+                                                    {line.points}
+                                                </span>
+                                            </span>
+                                        ))}
+                                    </div>
                                 </motion.div>
                             );
                         }
                     )}
                 </div>
-                {isLeader && (
-                    <Button
-                        className="mt-2 w-full h-10 sm:h-12 text-sm sm:text-base font-semibold rounded-xl bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 text-white shadow-lg"
-                        onClick={() =>
-                            sendGameAction("CONTINUE_AFTER_ROUND_SUMMARY", {})
-                        }
-                    >
-                        Continue {countdown > 0 && `(${countdown}s)`}
-                    </Button>
-                )}
 
-                {!isLeader && (
-                    <p className="text-xs sm:text-sm text-white/50 text-center">
-                        Waiting for the host to continue...
-                    </p>
-                )}
+                {/* Seed for this round's deal, checked against its commitment */}
+                <DealVerification game={gameData} />
+
+                <ContinueGateStatus
+                    gate={gameData.continueGate}
+                    players={gameData.players}
+                    leaderId={gameData.leaderId}
+                    continueAction="CONTINUE_AFTER_ROUND_SUMMARY"
+                    sendGameAction={sendGameAction}
+                    className="mt-2 text-white"
+                />
             </DialogContent>
         </Dialog>
     );
@@ -13,6 +13,7 @@ import {
     SpadesData,
     SpadesPlayerData,
     PlayingCard as PlayingCardType,
+    SPADES_DECK_SIZE,
 } from "@shared/types";
 import {
     GameTable,
@@ -29,9 +30,13 @@ import {
 } from "@/components/games/shared";
 import { Badge } from "@/components/ui/badge";
 import { Zap, Ban } from "lucide-react";
-import { getUnplayableCardIndices } from "@/lib/spadesValidation";
+import {
+    getSpadesTrickRules,
+    getUnplayableCardIndices,
+} from "@shared/validation";
 import { useTurnTimer } from "@/hooks";
 import { useWebSocket } from "@/contexts/WebSocketContext";
+import { useSession } from "@/contexts/SessionContext";
 import { playTimerStartSound, initializeAudioOnInteraction } from "@/lib/audio";
 
 interface SpadesGameTableProps {
@@ -40,8 +45,15 @@ interface SpadesGameTableProps {
     isMyTurn: boolean;
     onCardPlay: (card: PlayingCardType) => void;
     showHints?: boolean;
+    /** Every player's hand, shown face up (replays) */
+    revealedHands?: Record<string, PlayingCardType[]>;
+    /** Marks the current player ready to move past the trick result */
+    onContinue?: () => void;
 }
 
+// Team colors - partnerships are blue vs red, cutthroat players get their own
+const TEAM_COLORS = ["#3b82f6", "#ef4444", "#22c55e", "#eab308", "#a855f7"];
+
 // Helper function to map player index to edge position
 function getEdgePosition(index: number, playerCount: number): EdgePosition {
     if (playerCount === 2) {
@@ -52,6 +64,13 @@ function getEdgePosition(index: number, playerCount: number): EdgePosition {
         if (index === 1) return "left";
         return "right";
     }
+    // 5 players (cutthroat) - two opponents share the top edge
+    if (playerCount === 5) {
+        if (index === 0) return "bottom";
+        if (index === 1) return "left";
+        if (index === 4) return "right";
+        return "top";
+    }
     // 4 players (standard for Spades)
     if (index === 0) return "bottom";
     if (index === 1) return "left";
@@ -60,18 +79,38 @@ function getEdgePosition(index: number, playerCount: number): EdgePosition {
     return "top";
 }
 
+// Keep players that share an edge apart (5 players)
+function getEdgeClassName(
+    index: number,
+    playerCount: number
+): string | undefined {
+    if (playerCount !== 5) return undefined;
+    if (index === 2) return "justify-self-start";
+    if (index === 3) return "justify-self-end";
+    return undefined;
+}
+
 function SpadesGameTable({
     gameData,
     playerData,
     isMyTurn,
     onCardPlay,
     showHints = false,
+    revealedHands,
+    onContinue,
 }: SpadesGameTableProps) {
     const [selectedCardIndex, setSelectedCardIndex] = useState<number | null>(
         null
     );
     const [isHeroHandSpread, setIsHeroHandSpread] = useState(false);
     const { clockOffset } = useWebSocket();
+    const { userId } = useSession();
+
+    // Ready-to-continue gate while the trick result is shown
+    const trickGate =
+        gameData.phase === "trick-result" ? gameData.continueGate : null;
+    const isWaitingOnMe =
+        !!onContinue && !!userId && !!trickGate?.waitingOn.includes(userId);
 
     // Deal animation state
     const [isDealing, setIsDealing] = useState(false);
@@ -149,9 +188,14 @@ function SpadesGameTable({
             getUnplayableCardIndices(
                 playerData.hand,
                 gameData.currentTrick,
-                gameData.spadesBroken
+                getSpadesTrickRules(gameData.settings, gameData.spadesBroken)
             ),
-        [playerData.hand, gameData.currentTrick, gameData.spadesBroken]
+        [
+            playerData.hand,
+            gameData.currentTrick,
+            gameData.settings,
+            gameData.spadesBroken,
+        ]
     );
 
     // Calculate which cards are unplayable when hints are enabled
@@ -200,7 +244,8 @@ function SpadesGameTable({
     // Deal animation effect - trigger when round changes
     useEffect(() => {
         const currentRound = gameData.round;
-        const cardsPerPlayer = 13; // Standard spades deal
+        // 13 each with 4 players; 3 or 5 players split the deck evenly
+        const cardsPerPlayer = Math.floor(SPADES_DECK_SIZE / playerCount);
 
         // Detect new round (round changed or first load with cards)
         const isNewRound =
@@ -325,15 +370,15 @@ function SpadesGameTable({
         playerId: string,
         isLocal: boolean
     ): PlayingCardType[] => {
+        const hand = isLocal
+            ? playerData.hand
+            : (revealedHands?.[playerId] ?? []);
         if (!isDealing) {
-            return isLocal ? playerData.hand : [];
+            return hand;
         }
         // During dealing, show cards up to the visible count
         const visibleCount = visibleCardCounts[playerId] || 0;
-        if (isLocal) {
-            return playerData.hand.slice(0, visibleCount);
-        }
-        return [];
+        return hand.slice(0, visibleCount);
     };
 
     const getCardCountToShow = (playerId: string): number => {
@@ -375,7 +420,9 @@ function SpadesGameTable({
                             ([teamId, team]) => {
                                 if (team.players.includes(playerId)) {
                                     teamColor =
-                                        teamId === "0" ? "#3b82f6" : "#ef4444";
+                                        TEAM_COLORS[
+                                            Number(teamId) % TEAM_COLORS.length
+                                        ];
                                 }
                             }
                         );
@@ -386,6 +433,7 @@ function SpadesGameTable({
                                 position={edgePosition}
                                 isHero={isLocal}
                                 isDealing={isDealing}
+                                className={getEdgeClassName(index, playerCount)}
                             >
                                 <PlayerInfo
                                     playerId={playerId}
@@ -449,6 +497,7 @@ function SpadesGameTable({
                                     cards={getCardsToShow(playerId, isLocal)}
                                     cardCount={getCardCountToShow(playerId)}
                                     isLocalPlayer={isLocal}
+                                    revealCards={!!revealedHands}
                                     interactive={
                                         isLocal &&
                                         isMyTurn &&
@@ -485,7 +534,10 @@ function SpadesGameTable({
                         {isDealing && (
                             <>
                                 <CardDeck
-                                    cardCount={52 - dealingCards.length * 4}
+                                    cardCount={
+                                        SPADES_DECK_SIZE -
+                                        dealingCards.length * playerCount
+                                    }
                                 />
                                 <DealingOverlay dealingItems={dealingCards} />
                             </>
@@ -524,7 +576,16 @@ function SpadesGameTable({
                                 gameData.phase === "trick-result" &&
                                 gameData.lastTrickWinnerId && (
                                     <motion.div
-                                        className="bg-amber-500/90 backdrop-blur-sm rounded-xl px-6 py-3 shadow-lg"
+                                        className={`bg-amber-500/90 backdrop-blur-sm rounded-xl px-6 py-3 shadow-lg ${
+                                            isWaitingOnMe
+                                                ? "cursor-pointer"
+                                                : ""
+                                        }`}
+                                        onClick={
+                                            isWaitingOnMe
+                                                ? onContinue
+                                                : undefined
+                                        }
                                         initial={{
                                             opacity: 0,
                                             scale: 0.8,
@@ -548,6 +609,13 @@ function SpadesGameTable({
                                             ]?.name || "Unknown"}{" "}
                                             won the trick!
                                         </span>
+                                        {trickGate && (
+                                            <span className="block text-center text-xs text-amber-900/70">
+                                                {isWaitingOnMe
+                                                    ? "Tap when ready"
+                                                    : `Waiting on ${trickGate.waitingOn.length}`}
+                                            </span>
+                                        )}
                                     </motion.div>
                                 )}
                         </AnimatePresence>
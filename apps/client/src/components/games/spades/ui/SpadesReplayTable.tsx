@@ -0,0 +1,36 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { SpadesData, SpadesPlayerData } from "@shared/types";
+import SpadesGameTable from "./SpadesGameTable";
+import type { ReplayTableProps } from "@/components/games/registry";
+
+/**
+ * SpadesReplayTable - Read-only Spades table for replays, with every hand face up.
+ */
+export default function SpadesReplayTable({
+    gameData,
+    playerData,
+    playerStates,
+}: ReplayTableProps<SpadesData, SpadesPlayerData>) {
+    const revealedHands = useMemo(
+        () =>
+            Object.fromEntries(
+                Object.entries(playerStates).map(([playerId, state]) => [
+                    playerId,
+                    state.hand,
+                ])
+            ),
+        [playerStates]
+    );
+
+    return (
+        <SpadesGameTable
+            gameData={gameData}
+            playerData={playerData}
+            isMyTurn={false}
+            onCardPlay={() => {}}
+            revealedHands={revealedHands}
+        />
+    );
+}
@@ -0,0 +1,46 @@
+// src/components/games/spades/ui/teams.ts
+// Team labels and colors shared by the spades panels
+
+import { SpadesData } from "@shared/types";
+
+/**
+ * Team card styles in team order - partnerships are blue vs red,
+ * cutthroat players continue through the list.
+ */
+export const TEAM_STYLES = [
+    {
+        card: "bg-gradient-to-br from-blue-500/20 to-blue-600/10 border border-blue-500/30",
+        text: "text-blue-400",
+    },
+    {
+        card: "bg-gradient-to-br from-red-500/20 to-red-600/10 border border-red-500/30",
+        text: "text-red-400",
+    },
+    {
+        card: "bg-gradient-to-br from-emerald-500/20 to-emerald-600/10 border border-emerald-500/30",
+        text: "text-emerald-400",
+    },
+    {
+        card: "bg-gradient-to-br from-amber-500/20 to-amber-600/10 border border-amber-500/30",
+        text: "text-amber-400",
+    },
+    {
+        card: "bg-gradient-to-br from-purple-500/20 to-purple-600/10 border border-purple-500/30",
+        text: "text-purple-400",
+    },
+];
+
+export function getTeamStyle(index: number) {
+    return TEAM_STYLES[index % TEAM_STYLES.length];
+}
+
+/**
+ * "Team 1", or the player's name when they play alone (cutthroat).
+ */
+export function getTeamName(gameData: SpadesData, teamId: string): string {
+    const players = gameData.teams[teamId]?.players ?? [];
+    if (players.length === 1) {
+        return gameData.players[players[0]]?.name || players[0];
+    }
+    return `Team ${Number(teamId) + 1}`;
+}
@@ -10,6 +10,10 @@ import { motion, AnimatePresence } from "motion/react";
 import {
     Gamepad2Icon,
     SpadeIcon,
+    HeartIcon,
+    ClubIcon,
+    DiamondIcon,
+    SparklesIcon,
     DicesIcon,
     UsersIcon,
     CheckCircle2Icon,
@@ -22,6 +26,14 @@ function getGameIcon(gameType: string) {
     switch (gameType.toLowerCase()) {
         case "spades":
             return SpadeIcon;
+        case "hearts":
+            return HeartIcon;
+        case "bidwhist":
+            return ClubIcon;
+        case "euchre":
+            return DiamondIcon;
+        case "crazyeights":
+            return SparklesIcon;
         case "dominoes":
             return DicesIcon;
         case "lrc":
@@ -37,6 +49,14 @@ function getGameGradient(gameType: string, isSelected: boolean) {
     switch (gameType.toLowerCase()) {
         case "spades":
             return "from-indigo-500 to-purple-600";
+        case "hearts":
+            return "from-rose-500 to-red-600";
+        case "bidwhist":
+            return "from-sky-500 to-blue-600";
+        case "euchre":
+            return "from-teal-500 to-emerald-600";
+        case "crazyeights":
+            return "from-fuchsia-500 to-pink-600";
         case "dominoes":
             return "from-amber-500 to-orange-600";
         case "lrc":
@@ -56,7 +76,7 @@ export default function AvailableGamesCard({
     isPartyLeader: boolean;
 }) {
     const { socket, connected } = useWebSocket();
-    const { userId, roomId } = useSession();
+    const { roomId } = useSession();
 
     function handleSelectGame(gameType: string) {
         if (!socket || !connected) {
@@ -64,7 +84,7 @@ export default function AvailableGamesCard({
             return;
         }
 
-        socket.emit("select_game", { roomId, userId, gameType });
+        socket.emit("select_game", { roomId, gameType });
     }
 
     return (
@@ -52,8 +52,7 @@ export default function GameInProgressBanner({
                 // Call rejoin to trigger server-side socket re-registration and resume logic
                 await attemptDirectGameRejoin(
                     lobbyData.code,
-                    userName || "Player",
-                    userId
+                    userName || "Player"
                 );
                 router.push(`/game/${lobbyData.code}`);
             } catch (error) {
@@ -67,7 +66,6 @@ export default function GameInProgressBanner({
         if (hasOpenSlots && isSpectator && disconnectedPlayers[0]) {
             socket?.emit("claim_player_slot", {
                 roomId: lobbyData.roomId,
-                userId,
                 targetSlotUserId: disconnectedPlayers[0].id,
             });
             toast.success(`Claiming ${disconnectedPlayers[0].name}'s slot...`);
@@ -77,7 +75,6 @@ export default function GameInProgressBanner({
     function handleSpectate() {
         socket?.emit("spectate_game", {
             roomCode: lobbyData.code,
-            userId,
             userName: userName || "Spectator",
         });
         router.push(`/game/${lobbyData.code}?spectate=true`);
@@ -93,7 +90,6 @@ export default function GameInProgressBanner({
         if (confirmed) {
             socket?.emit("abort_game", {
                 roomId: lobbyData.roomId,
-                userId,
             });
             toast.info("Ending game...");
         }
@@ -67,6 +67,10 @@ function getGameDisplayName(gameType: string): string {
     const names: Record<string, string> = {
         dominoes: "Dominoes",
         spades: "Spades",
+        hearts: "Hearts",
+        bidwhist: "Bid Whist",
+        euchre: "Euchre",
+        crazyeights: "Crazy Eights",
         lrc: "Left Right Center",
     };
     return names[gameType] || gameType;
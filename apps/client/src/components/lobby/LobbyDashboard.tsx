@@ -9,6 +9,7 @@ import {
     LobbyData,
     PartialGameSettings,
 } from "@shared/types";
+import { getTeamRequirements } from "@shared/validation";
 import { motion } from "motion/react";
 import {
     Card,
@@ -36,31 +37,19 @@ export default function LobbyDashboard({
     const [gameSettings, setGameSettings] = useState<PartialGameSettings>(
         lobbyData.gameSettings ?? {}
     );
-    const selectedGameMetadata = availableGames.find(
-        (g) => g.type === selectedGame
-    );
 
     // Compute effective team configuration
-    // For games like dominoes that conditionally require teams based on settings
+    // Shared requirements also cover games that only use teams in some modes
+    // (spades partnership, dominoes team mode)
     const effectiveTeamConfig = useMemo(() => {
-        // Check if game requires teams statically
-        if (selectedGameMetadata?.requiresTeams) {
-            return {
-                requiresTeams: true,
-                numTeams: selectedGameMetadata.numTeams ?? 2,
-                playersPerTeam: selectedGameMetadata.playersPerTeam ?? 2,
-            };
-        }
-        // Check if dominoes is in team mode
-        if (selectedGame === "dominoes" && gameSettings.gameMode === "team") {
-            return {
-                requiresTeams: true,
-                numTeams: 2,
-                playersPerTeam: 2,
-            };
+        const requirements = selectedGame
+            ? getTeamRequirements(selectedGame, gameSettings)
+            : undefined;
+        if (requirements) {
+            return { requiresTeams: true, ...requirements };
         }
         return { requiresTeams: false, numTeams: 0, playersPerTeam: 0 };
-    }, [selectedGameMetadata, selectedGame, gameSettings.gameMode]);
+    }, [selectedGame, gameSettings]);
 
     // Get session and socket context
     const { userId, roomId } = useSession();
@@ -106,11 +95,10 @@ export default function LobbyDashboard({
             setGameSettings(newSettings);
             socket.emit("update_game_settings", {
                 roomId,
-                userId,
                 gameSettings: newSettings,
             });
         },
-        [socket, connected, roomId, userId, isPartyLeader]
+        [socket, connected, roomId, isPartyLeader]
     );
 
     const containerVariants = {
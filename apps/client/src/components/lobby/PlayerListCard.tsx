@@ -6,7 +6,15 @@ import { Badge } from "../ui/badge";
 import { Avatar, AvatarFallback } from "../ui/avatar";
 import { Tooltip, TooltipContent, TooltipTrigger } from "../ui/tooltip";
 import { ConfirmDialog } from "../ui/confirm-dialog";
-import { User } from "@shared/types";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "../ui/dropdown-menu";
+import { BotDifficulty, User } from "@shared/types";
 import { useSession } from "@/contexts/SessionContext";
 import { useWebSocket } from "@/contexts/WebSocketContext";
 import { toast } from "sonner";
@@ -19,6 +27,9 @@ import {
     UserXIcon,
     ShieldPlusIcon,
     UsersIcon,
+    BotIcon,
+    PlusIcon,
+    XIcon,
 } from "lucide-react";
 
 export default function PlayerListCard({
@@ -48,7 +59,7 @@ export default function PlayerListCard({
             return;
         }
 
-        socket.emit("toggle_ready", { roomId, userId });
+        socket.emit("toggle_ready", { roomId });
         setIsReady((prev) => !prev);
     }
 
@@ -64,19 +75,34 @@ export default function PlayerListCard({
         if (kickTarget) {
             socket.emit("kick_user", {
                 roomId,
-                userId,
                 targetUserId: kickTarget.id,
             });
             setKickTarget(null);
         }
     }
 
+    function handleAddBot(difficulty: BotDifficulty) {
+        if (!socket || !connected) {
+            toast.error("Not connected to the server");
+            return;
+        }
+        socket.emit("add_bot", { roomId, difficulty });
+    }
+
+    function handleRemoveBot(botId: string) {
+        if (!socket || !connected) {
+            toast.error("Not connected to the server");
+            return;
+        }
+        socket.emit("remove_bot", { roomId, botId });
+    }
+
     function handlePromote(newLeaderId: string) {
         if (!socket || !connected) {
             toast.error("Not connected to the server");
             return;
         }
-        socket.emit("promote_leader", { roomId, userId, newLeaderId });
+        socket.emit("promote_leader", { roomId, newLeaderId });
         toast(
             `Promoted ${
                 users.find((u) => u.id === newLeaderId)?.name
@@ -94,9 +120,43 @@ export default function PlayerListCard({
                         </div>
                         Players
                     </CardTitle>
-                    <Badge variant="secondary" className="text-xs">
-                        {users.length} online
-                    </Badge>
+                    <div className="flex items-center gap-2">
+                        <Badge variant="secondary" className="text-xs">
+                            {users.length} online
+                        </Badge>
+                        {isPartyLeader && (
+                            <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="h-7 gap-1 px-2 text-xs"
+                                    >
+                                        <PlusIcon className="w-3.5 h-3.5" />
+                                        Add bot
+                                    </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                    <DropdownMenuLabel>
+                                        Bot difficulty
+                                    </DropdownMenuLabel>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem
+                                        onClick={() => handleAddBot("easy")}
+                                    >
+                                        <BotIcon className="mr-2 h-4 w-4" />
+                                        Easy
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem
+                                        onClick={() => handleAddBot("hard")}
+                                    >
+                                        <BotIcon className="mr-2 h-4 w-4" />
+                                        Hard
+                                    </DropdownMenuItem>
+                                </DropdownMenuContent>
+                            </DropdownMenu>
+                        )}
+                    </div>
                 </div>
             </CardHeader>
             <CardContent className="flex flex-col gap-2">
@@ -105,6 +165,8 @@ export default function PlayerListCard({
                         const ready = readyStates[user.id];
                         const isCurrentUser = user.id === userId;
                         const isLeader = user.id === leaderId;
+                        const canModerate =
+                            isPartyLeader && !isCurrentUser && !user.isBot;
 
                         return (
                             <motion.div
@@ -151,6 +213,17 @@ export default function PlayerListCard({
                                                 You
                                             </Badge>
                                         )}
+                                        {user.isBot && (
+                                            <Badge
+                                                variant="outline"
+                                                className="text-xs py-0 px-1.5 gap-1 border-violet-300 dark:border-violet-700 text-violet-600 dark:text-violet-400"
+                                            >
+                                                <BotIcon className="w-3 h-3" />
+                                                {user.botDifficulty === "hard"
+                                                    ? "Hard bot"
+                                                    : "Easy bot"}
+                                            </Badge>
+                                        )}
                                     </div>
                                     <div className="flex items-center gap-1 mt-0.5">
                                         {ready ? (
@@ -185,7 +258,26 @@ export default function PlayerListCard({
                                             {isReady ? "Unready" : "Ready"}
                                         </Button>
                                     )}
-                                    {!isCurrentUser && isPartyLeader && (
+                                    {user.isBot && isPartyLeader && (
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <Button
+                                                    size="icon"
+                                                    variant="ghost"
+                                                    className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-100 dark:text-red-400 dark:hover:bg-red-900/30"
+                                                    onClick={() =>
+                                                        handleRemoveBot(user.id)
+                                                    }
+                                                >
+                                                    <XIcon className="w-4 h-4" />
+                                                </Button>
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                Remove bot
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    )}
+                                    {canModerate && (
                                         <>
                                             <Tooltip>
                                                 <TooltipTrigger asChild>
@@ -32,7 +32,7 @@ export default function RoomControlsCard({
     gameSettings,
 }: RoomControlsCardProps) {
     const { socket, connected } = useWebSocket();
-    const { userId, roomId } = useSession();
+    const { roomId } = useSession();
 
     const [showCloseConfirm, setShowCloseConfirm] = useState(false);
     const [localMaxPlayers, setLocalMaxPlayers] = useState<number | undefined>(
@@ -51,7 +51,7 @@ export default function RoomControlsCard({
             toast.error("Not connected to the server");
             return;
         }
-        socket.emit("close_room", { roomId, userId });
+        socket.emit("close_room", { roomId });
         toast.warning("Room closed");
         setShowCloseConfirm(false);
     }
@@ -64,8 +64,7 @@ export default function RoomControlsCard({
 
         socket.emit("start_game", {
             roomId,
-            userId,
-            gameType: selectedGame,
+            gameType: selectedGame ?? undefined,
             gameSettings,
         });
     }
@@ -76,11 +75,10 @@ export default function RoomControlsCard({
             if (!socket || !connected || !isPartyLeader) return;
             socket.emit("update_room_settings", {
                 roomId,
-                userId,
                 settings: { maxPlayers: value },
             });
         },
-        [socket, connected, roomId, userId, isPartyLeader]
+        [socket, connected, roomId, isPartyLeader]
     );
 
     const handlePrivateChange = useCallback(
@@ -89,11 +87,10 @@ export default function RoomControlsCard({
             if (!socket || !connected || !isPartyLeader) return;
             socket.emit("update_room_settings", {
                 roomId,
-                userId,
                 settings: { isPrivate: checked },
             });
         },
-        [socket, connected, roomId, userId, isPartyLeader]
+        [socket, connected, roomId, isPartyLeader]
     );
 
     return (
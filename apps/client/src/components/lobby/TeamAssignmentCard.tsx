@@ -25,7 +25,7 @@ export default function TeamAssignmentCard({
     isPartyLeader,
 }: TeamAssignmentCardProps) {
     const { socket, connected } = useWebSocket();
-    const { userId, roomId } = useSession();
+    const { roomId } = useSession();
 
     if (numTeams === 0) {
         return null;
@@ -65,7 +65,6 @@ export default function TeamAssignmentCard({
                             }
                             socket.emit("set_teams", {
                                 roomId,
-                                userId,
                                 teams: newTeams,
                             });
                         }}
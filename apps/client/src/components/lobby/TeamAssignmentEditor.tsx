@@ -47,7 +47,7 @@ export default function TeamAssignmentEditor({
 
     // Socket/context for randomize
     const { socket, connected } = useWebSocket();
-    const { roomId, userId } = useSession();
+    const { roomId } = useSession();
 
     // Compute assigned and unassigned users
     const assigned = new Set(localTeams.flat().filter(Boolean));
@@ -139,7 +139,7 @@ export default function TeamAssignmentEditor({
             toast.error("Not connected to the server");
             return;
         }
-        socket.emit("randomize_teams", { roomId, userId });
+        socket.emit("randomize_teams", { roomId });
     }
 
     // Sync local state when props change (from server updates)
@@ -7,6 +7,7 @@ import React, {
     useRef,
     ReactNode,
 } from "react";
+import { clearSessionToken } from "@/lib/sessionToken";
 
 interface SessionContextValue {
     roomId: string;
@@ -129,6 +130,7 @@ export function SessionProvider({ children }: { children: ReactNode }) {
         sessionStorage.removeItem("roomId");
         localStorage.removeItem("userId");
         localStorage.removeItem("userName");
+        clearSessionToken();
     };
 
     // Clear room-specific session data but preserve userName and userId
@@ -145,6 +147,7 @@ export function SessionProvider({ children }: { children: ReactNode }) {
         setUserIdState("");
         sessionStorage.removeItem("roomId");
         localStorage.removeItem("userId");
+        clearSessionToken();
     };
 
     return (
@@ -12,20 +12,28 @@ import React, {
     useRef,
     ReactNode,
 } from "react";
-import { Socket } from "socket.io-client";
+import type { ClientToServerEvents } from "@shared/types";
 import { useSession } from "./SessionContext";
-import { getSocket, connectSocket, disconnectSocket } from "@/lib/socket";
+import {
+    ClientSocket,
+    getSocket,
+    connectSocket,
+    disconnectSocket,
+} from "@/lib/socket";
 
 /** Clock sync interval in milliseconds (re-sync every 60 seconds) */
 const CLOCK_SYNC_INTERVAL_MS = 60000;
 
 interface WebSocketContextValue {
-    socket: Socket | null;
+    socket: ClientSocket | null;
     connected: boolean;
     reconnecting: boolean;
     /** Offset in ms between server and client clocks (serverTime - clientTime) */
     clockOffset: number;
-    emit: <T>(event: string, payload: T) => void;
+    emit: <E extends keyof ClientToServerEvents>(
+        event: E,
+        ...args: Parameters<ClientToServerEvents[E]>
+    ) => void;
 }
 
 const WebSocketContext = createContext<WebSocketContextValue | undefined>(
@@ -158,12 +166,18 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
         };
     }, []);
 
-    const emit = useCallback(<T,>(event: string, payload: T) => {
-        const socket = getSocket();
-        if (socket.connected) {
-            socket.emit(event, payload);
-        }
-    }, []);
+    const emit = useCallback(
+        <E extends keyof ClientToServerEvents>(
+            event: E,
+            ...args: Parameters<ClientToServerEvents[E]>
+        ) => {
+            const socket = getSocket();
+            if (socket.connected) {
+                socket.emit(event, ...args);
+            }
+        },
+        []
+    );
 
     const socket = roomId && userId ? getSocket() : null;
 
@@ -1,8 +1,6 @@
 export { useContainerDimensions } from "./useContainerDimensions";
 export type { ContainerDimensions } from "./useContainerDimensions";
 
-export { useWebSocketError } from "./useWebSocketError";
-
 export { usePlayerPositions } from "./usePlayerPositions";
 export type {
     PlayerPosition,
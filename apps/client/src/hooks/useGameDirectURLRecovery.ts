@@ -25,8 +25,7 @@ interface UseGameDirectURLRecoveryResult {
 export function useGameDirectURLRecovery(
     options?: UseGameDirectURLRecoveryOptions
 ): UseGameDirectURLRecoveryResult {
-    const { roomId, userId, userName, setSessionData, clearRoomSession } =
-        useSession();
+    const { roomId, userName, setSessionData, clearRoomSession } = useSession();
     const router = useRouter();
     const { roomCode } = useParams<{ roomCode: string }>();
     const [isRecovering, setIsRecovering] = useState(false);
@@ -44,11 +43,10 @@ export function useGameDirectURLRecovery(
             setIsRecovering(true);
 
             try {
-                // Attempt to rejoin with existing userId (if available)
+                // Attempt to rejoin as our existing session (if any)
                 const result = await attemptDirectGameRejoin(
                     roomCode,
-                    nameToUse,
-                    userId
+                    nameToUse
                 );
 
                 if (result) {
@@ -80,7 +78,7 @@ export function useGameDirectURLRecovery(
                 setHasValidated(true);
             }
         },
-        [roomCode, userId, router, setSessionData, options]
+        [roomCode, router, setSessionData, options]
     );
 
     /**
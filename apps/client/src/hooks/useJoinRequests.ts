@@ -7,21 +7,11 @@ import { useWebSocket } from "@/contexts/WebSocketContext";
 import { useSession } from "@/contexts/SessionContext";
 import { getSocket } from "@/lib/socket";
 import { API_BASE } from "@/services";
-
-interface JoinRequest {
-    requesterId: string;
-    requesterName: string;
-    roomCode: string;
-    timestamp: string;
-}
-
-interface JoinRequestResponse {
-    requesterId: string;
-    accepted: boolean;
-    roomCode?: string;
-    roomId?: string;
-    message?: string;
-}
+import { getAuthHeaders, setSessionToken } from "@/lib/sessionToken";
+import type {
+    JoinRequestPayload,
+    JoinRequestResponsePayload,
+} from "@shared/types";
 
 // Track active toast IDs to dismiss them
 const activeToasts = new Map<string, string | number>();
@@ -53,7 +43,6 @@ export function useJoinRequests(isLeader: boolean, roomId: string | null) {
             const socket = getSocket();
             socket.emit("respond_join_request", {
                 roomId,
-                leaderId: userId,
                 requesterId,
                 requesterName,
                 accepted,
@@ -82,7 +71,7 @@ export function useJoinRequests(isLeader: boolean, roomId: string | null) {
 
         const socket = getSocket();
 
-        function handleJoinRequest(data: JoinRequest) {
+        function handleJoinRequest(data: JoinRequestPayload) {
             const { requesterId, requesterName } = data;
 
             // Show toast with action buttons
@@ -175,7 +164,7 @@ export function useJoinRequestResponse(
             socket.connect();
         }
 
-        function handleResponse(data: JoinRequestResponse) {
+        function handleResponse(data: JoinRequestResponsePayload) {
             // Only handle responses for this user
             if (data.requesterId !== userId) return;
 
@@ -205,17 +194,21 @@ export function useJoinRequestResponse(
 /**
  * Function to send a join request for a private room via REST API.
  * This is used from the home page where the user isn't connected to a socket yet.
+ * Requesters without a session are given one, so the returned requesterId
+ * becomes our userId once the request is accepted.
  */
 export async function sendJoinRequest(
     roomCode: string,
-    requesterId: string,
     requesterName: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; requesterId?: string; error?: string }> {
     try {
         const response = await fetch(`${API_BASE}/api/rooms/request-join`, {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ roomCode, requesterId, requesterName }),
+            headers: {
+                "Content-Type": "application/json",
+                ...getAuthHeaders(),
+            },
+            body: JSON.stringify({ roomCode, requesterName }),
         });
 
         if (!response.ok) {
@@ -226,7 +219,10 @@ export async function sendJoinRequest(
             };
         }
 
-        return { success: true };
+        const data: { requesterId: string; sessionToken: string } =
+            await response.json();
+        setSessionToken(data.sessionToken);
+        return { success: true, requesterId: data.requesterId };
     } catch (err) {
         return {
             success: false,
@@ -40,6 +40,8 @@ type UseOptimisticGameActionProps = {
     playerData: PlayerData | null;
     setGameData: (data: GameData | null) => void;
     setPlayerData: (data: PlayerData | null) => void;
+    /** Version of the last game state received from the server */
+    getServerVersion: () => number | null;
     optimisticReducer: OptimisticReducer;
     onRollback?: (reason: string) => void;
     actionTimeout?: number; // ms before considering action failed (default: 5000)
@@ -54,6 +56,7 @@ export function useOptimisticGameAction({
     playerData,
     setGameData,
     setPlayerData,
+    getServerVersion,
     optimisticReducer,
     onRollback,
     actionTimeout = 5000,
@@ -74,13 +77,14 @@ export function useOptimisticGameAction({
      * Rollback a specific action or all actions from a given point.
      * When rolling back, we restore to the snapshot of the FIRST action being rolled back,
      * since that represents the state before any of these actions were applied.
+     * Returns false if the action isn't pending (e.g. a system action).
      */
     const rollback = useCallback(
-        (actionId: string, reason: string) => {
+        (actionId: string, reason: string): boolean => {
             const queue = actionQueueRef.current;
             const actionIndex = queue.findIndex((a) => a.id === actionId);
 
-            if (actionIndex === -1) return;
+            if (actionIndex === -1) return false;
 
             const action = queue[actionIndex];
             console.warn(
@@ -104,6 +108,7 @@ export function useOptimisticGameAction({
 
             // Notify caller
             onRollback?.(reason);
+            return true;
         },
         [setGameData, setPlayerData, onRollback, syncQueueState]
     );
@@ -149,7 +154,14 @@ export function useOptimisticGameAction({
      */
     const dispatch = useCallback(
         (actionType: string, actionPayload: unknown) => {
-            if (!socket || !connected || !gameData || !playerData) {
+            const serverVersion = getServerVersion();
+            if (
+                !socket ||
+                !connected ||
+                !gameData ||
+                !playerData ||
+                serverVersion === null
+            ) {
                 console.warn(
                     "[OptimisticAction] Cannot dispatch: socket not connected or missing game data"
                 );
@@ -159,6 +171,11 @@ export function useOptimisticGameAction({
             // Generate unique action ID
             const actionId = `${userId}-${uuidv4()}`;
 
+            // The last state seen from the server. Our own pending actions
+            // move the version too, but the server doesn't count them as
+            // conflicts, so actions queued behind them expect the same version
+            const expectedVersion = serverVersion;
+
             // Deep clone the current state to create an immutable snapshot
             // This ensures rollback works correctly even if nested objects are mutated
             const snapshot = {
@@ -211,7 +228,7 @@ export function useOptimisticGameAction({
             // Emit action to server
             socket.emit("game_action", {
                 roomId,
-                action: { ...action, actionId },
+                action: { ...action, actionId, expectedVersion },
             });
 
             console.log(
@@ -225,6 +242,7 @@ export function useOptimisticGameAction({
             playerData,
             userId,
             roomId,
+            getServerVersion,
             optimisticReducer,
             setGameData,
             setPlayerData,
@@ -250,7 +268,8 @@ export function useOptimisticGameAction({
 
     return {
         dispatch,
-        rollback: rollbackAll,
+        rollback,
+        rollbackAll,
         confirm,
         hasPendingAction: hasPendingActions,
         pendingActionType: actionQueueRef.current[0]?.type ?? null,
@@ -6,7 +6,7 @@ import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import { getSocket, emitJoinRoom } from "@/lib/socket";
 import { useSession } from "@/contexts/SessionContext";
-import { RoomEventPayload, LobbyData } from "@shared/types";
+import { RoomEventPayload, LobbyData, SocketErrorPayload } from "@shared/types";
 
 interface UseRoomEventsOptions {
     /** Called when room state is synced */
@@ -94,6 +94,14 @@ export function useRoomEvents(options: UseRoomEventsOptions) {
                     toast.info(`${payload.userName} joined the room`);
                     break;
 
+                case "bot_added":
+                    toast.info(`${payload.userName} (bot) joined the room`);
+                    break;
+
+                case "bot_removed":
+                    toast.info(`${payload.userName} (bot) was removed`);
+                    break;
+
                 case "user_left":
                     if (payload.voluntary) {
                         toast.info(`${payload.userName} left the game`);
@@ -194,9 +202,16 @@ export function useRoomEvents(options: UseRoomEventsOptions) {
     );
 
     const handleError = useCallback(
-        (error: { error: string }) => {
+        (error: SocketErrorPayload) => {
             const errorMessage = error.error || "An error occurred";
 
+            // Payload rejected by server-side validation - a client bug
+            if (error.code === "INVALID_PAYLOAD") {
+                console.error(errorMessage, error.errors);
+                toast.error(errorMessage);
+                return;
+            }
+
             // Handle kicked user error - requires new identity
             if (errorMessage.includes("kicked")) {
                 toast.error(errorMessage);
@@ -284,14 +299,14 @@ export function useRoomEvents(options: UseRoomEventsOptions) {
         if (!hasJoinedRef.current) {
             if (socket.connected) {
                 console.log("🔗 Emitting join_room (already connected)");
-                emitJoinRoom(roomId, userId);
+                emitJoinRoom(roomId);
                 hasJoinedRef.current = true;
             } else {
                 // If not connected yet, wait for connect event
                 const onConnect = () => {
                     if (!hasJoinedRef.current) {
                         console.log("🔗 Emitting join_room (on connect)");
-                        emitJoinRoom(roomId, userId);
+                        emitJoinRoom(roomId);
                         hasJoinedRef.current = true;
                     }
                     socket.off("connect", onConnect);
@@ -310,7 +325,7 @@ export function useRoomEvents(options: UseRoomEventsOptions) {
     return {
         emitJoinRoom: () => {
             if (roomId && userId) {
-                emitJoinRoom(roomId, userId);
+                emitJoinRoom(roomId);
             }
         },
     };
@@ -0,0 +1,151 @@
+// src/lib/dealVerification.ts
+// Checks revealed deals: the seed against the commitment published at deal
+// time, and the hands dealt against the deal rebuilt from the seed
+
+import { DealInfo, DealtItem, GameData } from "@shared/types";
+import {
+    createSfc32Rng,
+    dealBidWhistRound,
+    dealCrazyEightsRound,
+    dealDominoesRound,
+    dealEuchreRound,
+    dealHeartsRound,
+    dealSpadesRound,
+    drawFirstDealer,
+    getDominoesHandSize,
+} from "@shared/utils";
+
+/**
+ * Outcome of checking a revealed deal:
+ * - verified: the seed matches its commitment and rebuilds the hands dealt
+ * - seed-only: the seed matches its commitment, but the hands weren't
+ *   revealed (games from before hands were kept) so the deal can't be rebuilt
+ * - seed-mismatch: the seed doesn't hash to its commitment
+ * - deal-mismatch: the seed rebuilds different hands than were dealt
+ */
+export type DealCheck =
+    | "verified"
+    | "seed-only"
+    | "seed-mismatch"
+    | "deal-mismatch";
+
+/**
+ * SHA-256 of a string. Returns null when the browser can't hash - Web
+ * Crypto is only available in secure contexts (HTTPS or localhost).
+ */
+async function sha256(text: string): Promise<Uint8Array | null> {
+    if (typeof crypto === "undefined" || !crypto.subtle) return null;
+    const digest = await crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(text)
+    );
+    return new Uint8Array(digest);
+}
+
+/**
+ * Check that a revealed seed hashes (SHA-256) to the round's commitment.
+ * Returns null when the browser can't hash.
+ */
+export async function verifyDealSeed(
+    seed: string,
+    commitment: string
+): Promise<boolean | null> {
+    const digest = await sha256(seed);
+    if (!digest) return null;
+
+    const hash = Array.from(digest)
+        .map((byte) => byte.toString(16).padStart(2, "0"))
+        .join("");
+    return hash === commitment.toLowerCase();
+}
+
+/**
+ * Deal the round again the way the API does. The first deal of a game
+ * draws the first dealer from the seed before shuffling.
+ * Returns null for games without a deal to rebuild.
+ */
+function rebuildHands(
+    game: GameData,
+    isFirstDeal: boolean,
+    rng: () => number
+): Record<string, DealtItem[]> | null {
+    const { playOrder } = game;
+    switch (game.type) {
+        case "spades":
+            if (isFirstDeal) drawFirstDealer(playOrder.length, rng);
+            return dealSpadesRound(playOrder, game.settings.jokersEnabled, rng)
+                .hands;
+        case "hearts":
+            if (isFirstDeal) drawFirstDealer(playOrder.length, rng);
+            return dealHeartsRound(playOrder, rng).hands;
+        case "bidwhist":
+            if (isFirstDeal) drawFirstDealer(playOrder.length, rng);
+            return dealBidWhistRound(playOrder, rng).hands;
+        case "euchre":
+            if (isFirstDeal) drawFirstDealer(playOrder.length, rng);
+            return dealEuchreRound(playOrder, rng).hands;
+        case "crazyeights":
+            if (isFirstDeal) drawFirstDealer(playOrder.length, rng);
+            return dealCrazyEightsRound(playOrder, rng).hands;
+        case "dominoes": {
+            const setSize = game.settings.setSize ?? 6;
+            const handSize = getDominoesHandSize(
+                setSize,
+                playOrder.length,
+                game.settings.drawFromBoneyard
+            );
+            return dealDominoesRound(playOrder, setSize, handSize, rng).hands;
+        }
+        default:
+            return null;
+    }
+}
+
+/** A hand as a sorted list of keys, so hands compare regardless of order */
+function handKeys(hand: DealtItem[] = []): string[] {
+    return hand
+        .map((item) =>
+            "suit" in item
+                ? `${item.suit}:${item.rank}`
+                : `${item.left}|${item.right}`
+        )
+        .sort();
+}
+
+function isSameHands(
+    a: Record<string, DealtItem[]>,
+    b: Record<string, DealtItem[]>
+): boolean {
+    const players = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...players].every(
+        (playerId) =>
+            handKeys(a[playerId]).join(",") === handKeys(b[playerId]).join(",")
+    );
+}
+
+/**
+ * Check one of the game's revealed deals: the seed against its commitment,
+ * then the hands dealt against the deal rebuilt from the seed.
+ * Returns null while the deal is unrevealed or the browser can't hash.
+ */
+export async function verifyDeal(
+    game: GameData,
+    dealIndex: number
+): Promise<DealCheck | null> {
+    const deals: DealInfo[] = "deals" in game ? game.deals : [];
+    const deal = deals[dealIndex];
+    if (!deal?.seed) return null;
+
+    const seedMatches = await verifyDealSeed(deal.seed, deal.commitment);
+    if (seedMatches === null) return null;
+    if (!seedMatches) return "seed-mismatch";
+    if (!deal.hands) return "seed-only";
+
+    // Same key derivation as the API's createSeededRng
+    const key = await sha256(`${deal.seed}:rng`);
+    if (!key) return null;
+    const rebuilt = rebuildHands(game, dealIndex === 0, createSfc32Rng(key));
+    if (!rebuilt) return "seed-only";
+
+    return isSameHands(rebuilt, deal.hands) ? "verified" : "deal-mismatch";
+}
@@ -7,7 +7,24 @@ import {
     DominoesData,
     DominoesPlayerData,
     Tile,
+    BoardSide,
+    HeartsData,
+    HeartsPlayerData,
+    BidWhistData,
+    BidWhistPlayerData,
+    EuchreData,
+    EuchrePlayerData,
+    CrazyEightsData,
+    CrazyEightsPlayerData,
 } from "@shared/types";
+import {
+    canPlayCrazyEightsCard,
+    getBidWhistTrickRules,
+    getCardSuit,
+    getCrazyEightsAction,
+    getEuchreTrickRules,
+    isWildEight,
+} from "@shared/validation";
 
 /**
  * Client-side optimistic reducers that mirror server logic
@@ -170,7 +187,7 @@ function optimisticDominoesPlaceTile(
     playerData: DominoesPlayerData,
     action: {
         type: string;
-        payload: { tile: Tile; side: "left" | "right" };
+        payload: { tile: Tile; side: BoardSide };
         userId: string;
     }
 ): OptimisticUpdateResult | null {
@@ -183,6 +200,11 @@ function optimisticDominoesPlaceTile(
         return null;
     }
 
+    // All Fives scores and the spinner are worked out on the server
+    if (gameData.settings.scoringMode === "allFives") {
+        return null;
+    }
+
     // Validate tile is in hand
     const tileIndex = playerData.hand.findIndex((t) => t.id === tile.id);
     if (tileIndex === -1) {
@@ -281,6 +303,409 @@ function optimisticDominoesPass(
     };
 }
 
+// =====================
+// HEARTS REDUCERS
+// =====================
+
+/**
+ * Optimistically handle PLAY_CARD action for Hearts
+ */
+function optimisticHeartsPlayCard(
+    gameData: HeartsData,
+    playerData: HeartsPlayerData,
+    action: { type: string; payload: { card: PlayingCard }; userId: string }
+): OptimisticUpdateResult | null {
+    const { card } = action.payload;
+    const { userId } = action;
+
+    // Validate it's the player's turn
+    const currentPlayerId = gameData.playOrder[gameData.currentTurnIndex];
+    if (gameData.phase !== "playing" || currentPlayerId !== userId) {
+        return null;
+    }
+
+    // Validate card is in hand
+    const cardIndex = playerData.hand.findIndex(
+        (c) => c.rank === card.rank && c.suit === card.suit
+    );
+    if (cardIndex === -1) {
+        return null;
+    }
+
+    const newHand = [...playerData.hand];
+    newHand.splice(cardIndex, 1);
+
+    // Add card to current trick (the first card leads)
+    const trick = gameData.currentTrick ?? {
+        leaderId: userId,
+        plays: [],
+        leadSuit: null,
+    };
+    const newTrick = {
+        ...trick,
+        plays: [...trick.plays, { playerId: userId, card }],
+        leadSuit: trick.leadSuit ?? card.suit,
+    };
+
+    const newHandsCounts = { ...gameData.handsCounts };
+    const previousCount = newHandsCounts[userId] ?? playerData.hand.length;
+    newHandsCounts[userId] = previousCount - 1;
+
+    return {
+        gameData: {
+            currentTrick: newTrick,
+            currentTurnIndex:
+                (gameData.currentTurnIndex + 1) % gameData.playOrder.length,
+            handsCounts: newHandsCounts,
+            heartsBroken: gameData.heartsBroken || card.suit === "Hearts",
+        } as Partial<HeartsData>,
+        playerData: {
+            hand: newHand,
+        },
+    };
+}
+
+/**
+ * Optimistically handle PASS_CARDS action for Hearts
+ */
+function optimisticHeartsPassCards(
+    gameData: HeartsData,
+    playerData: HeartsPlayerData,
+    action: { type: string; payload: { cards: PlayingCard[] }; userId: string }
+): OptimisticUpdateResult | null {
+    const { cards } = action.payload;
+    const { userId } = action;
+
+    if (
+        gameData.phase !== "passing" ||
+        gameData.passedPlayerIds.includes(userId)
+    ) {
+        return null;
+    }
+
+    const isPassed = (c: PlayingCard) =>
+        cards.some((card) => card.rank === c.rank && card.suit === c.suit);
+    const newHand = playerData.hand.filter((c) => !isPassed(c));
+    if (newHand.length !== playerData.hand.length - cards.length) {
+        return null;
+    }
+
+    return {
+        gameData: {
+            passedPlayerIds: [...gameData.passedPlayerIds, userId],
+            handsCounts: {
+                ...gameData.handsCounts,
+                [userId]: newHand.length,
+            },
+        } as Partial<HeartsData>,
+        playerData: {
+            hand: newHand,
+            passedCards: cards,
+        } as Partial<HeartsPlayerData>,
+    };
+}
+
+// =====================
+// BID WHIST REDUCERS
+// =====================
+
+/**
+ * Optimistically handle PLAY_CARD action for Bid Whist
+ */
+function optimisticBidWhistPlayCard(
+    gameData: BidWhistData,
+    playerData: BidWhistPlayerData,
+    action: { type: string; payload: { card: PlayingCard }; userId: string }
+): OptimisticUpdateResult | null {
+    const { card } = action.payload;
+    const { userId } = action;
+
+    // Validate it's the player's turn
+    const currentPlayerId = gameData.playOrder[gameData.currentTurnIndex];
+    if (gameData.phase !== "playing" || currentPlayerId !== userId) {
+        return null;
+    }
+
+    // Validate card is in hand
+    const cardIndex = playerData.hand.findIndex(
+        (c) => c.rank === card.rank && c.suit === card.suit
+    );
+    if (cardIndex === -1) {
+        return null;
+    }
+
+    const newHand = [...playerData.hand];
+    newHand.splice(cardIndex, 1);
+
+    // Add card to current trick (a joker leads the trump suit)
+    const trick = gameData.currentTrick ?? {
+        leaderId: userId,
+        plays: [],
+        leadSuit: null,
+    };
+    const rules = getBidWhistTrickRules(
+        gameData.trumpSuit,
+        gameData.ranking ?? "uptown"
+    );
+    const newTrick = {
+        ...trick,
+        plays: [...trick.plays, { playerId: userId, card }],
+        leadSuit:
+            trick.leadSuit ?? (getCardSuit(card, rules) as PlayingCard["suit"]),
+    };
+
+    const newHandsCounts = { ...gameData.handsCounts };
+    const previousCount = newHandsCounts[userId] ?? playerData.hand.length;
+    newHandsCounts[userId] = previousCount - 1;
+
+    return {
+        gameData: {
+            currentTrick: newTrick,
+            currentTurnIndex:
+                (gameData.currentTurnIndex + 1) % gameData.playOrder.length,
+            handsCounts: newHandsCounts,
+        } as Partial<BidWhistData>,
+        playerData: {
+            hand: newHand,
+        },
+    };
+}
+
+/**
+ * Optimistically handle DISCARD action for Bid Whist
+ */
+function optimisticBidWhistDiscard(
+    gameData: BidWhistData,
+    playerData: BidWhistPlayerData,
+    action: { type: string; payload: { cards: PlayingCard[] }; userId: string }
+): OptimisticUpdateResult | null {
+    const { cards } = action.payload;
+    const { userId } = action;
+
+    if (
+        gameData.phase !== "discarding" ||
+        gameData.contract?.declarerId !== userId
+    ) {
+        return null;
+    }
+
+    const isDiscarded = (c: PlayingCard) =>
+        cards.some((card) => card.rank === c.rank && card.suit === c.suit);
+    const newHand = playerData.hand.filter((c) => !isDiscarded(c));
+    if (newHand.length !== playerData.hand.length - cards.length) {
+        return null;
+    }
+
+    return {
+        gameData: {
+            phase: "declaring",
+            handsCounts: {
+                ...gameData.handsCounts,
+                [userId]: newHand.length,
+            },
+        } as Partial<BidWhistData>,
+        playerData: {
+            hand: newHand,
+            discards: cards,
+        } as Partial<BidWhistPlayerData>,
+    };
+}
+
+// =====================
+// EUCHRE REDUCERS
+// =====================
+
+/**
+ * Next seat after `index`, skipping a lone maker's partner
+ */
+function nextEuchreTurnIndex(gameData: EuchreData, index: number): number {
+    const seatCount = gameData.playOrder.length;
+    let next = (index + 1) % seatCount;
+    while (gameData.sittingOut.includes(gameData.playOrder[next])) {
+        next = (next + 1) % seatCount;
+    }
+    return next;
+}
+
+/**
+ * Optimistically handle PLAY_CARD action for Euchre
+ */
+function optimisticEuchrePlayCard(
+    gameData: EuchreData,
+    playerData: EuchrePlayerData,
+    action: { type: string; payload: { card: PlayingCard }; userId: string }
+): OptimisticUpdateResult | null {
+    const { card } = action.payload;
+    const { userId } = action;
+
+    // Validate it's the player's turn
+    const currentPlayerId = gameData.playOrder[gameData.currentTurnIndex];
+    if (gameData.phase !== "playing" || currentPlayerId !== userId) {
+        return null;
+    }
+
+    // Validate card is in hand
+    const cardIndex = playerData.hand.findIndex(
+        (c) => c.rank === card.rank && c.suit === card.suit
+    );
+    if (cardIndex === -1) {
+        return null;
+    }
+
+    const newHand = [...playerData.hand];
+    newHand.splice(cardIndex, 1);
+
+    // Add card to current trick (the left bower leads the trump suit)
+    const trick = gameData.currentTrick ?? {
+        leaderId: userId,
+        plays: [],
+        leadSuit: null,
+    };
+    const rules = getEuchreTrickRules(gameData.trumpSuit ?? "");
+    const newTrick = {
+        ...trick,
+        plays: [...trick.plays, { playerId: userId, card }],
+        leadSuit:
+            trick.leadSuit ?? (getCardSuit(card, rules) as PlayingCard["suit"]),
+    };
+
+    const newHandsCounts = { ...gameData.handsCounts };
+    const previousCount = newHandsCounts[userId] ?? playerData.hand.length;
+    newHandsCounts[userId] = previousCount - 1;
+
+    return {
+        gameData: {
+            currentTrick: newTrick,
+            currentTurnIndex: nextEuchreTurnIndex(
+                gameData,
+                gameData.currentTurnIndex
+            ),
+            handsCounts: newHandsCounts,
+        } as Partial<EuchreData>,
+        playerData: {
+            hand: newHand,
+        },
+    };
+}
+
+/**
+ * Optimistically handle DISCARD action for Euchre
+ */
+function optimisticEuchreDiscard(
+    gameData: EuchreData,
+    playerData: EuchrePlayerData,
+    action: { type: string; payload: { card: PlayingCard }; userId: string }
+): OptimisticUpdateResult | null {
+    const { card } = action.payload;
+    const { userId } = action;
+
+    const dealerId = gameData.playOrder[gameData.dealerIndex];
+    if (gameData.phase !== "discarding" || dealerId !== userId) {
+        return null;
+    }
+
+    const cardIndex = playerData.hand.findIndex(
+        (c) => c.rank === card.rank && c.suit === card.suit
+    );
+    if (cardIndex === -1) {
+        return null;
+    }
+
+    const newHand = [...playerData.hand];
+    newHand.splice(cardIndex, 1);
+
+    // The first active seat left of the dealer leads
+    return {
+        gameData: {
+            phase: "playing",
+            currentTurnIndex: nextEuchreTurnIndex(
+                gameData,
+                gameData.dealerIndex
+            ),
+            handsCounts: {
+                ...gameData.handsCounts,
+                [userId]: newHand.length,
+            },
+        } as Partial<EuchreData>,
+        playerData: {
+            hand: newHand,
+        },
+    };
+}
+
+// =====================
+// CRAZY EIGHTS REDUCERS
+// =====================
+
+/**
+ * Optimistically handle PLAY_CARD action for Crazy Eights
+ */
+function optimisticCrazyEightsPlayCard(
+    gameData: CrazyEightsData,
+    playerData: CrazyEightsPlayerData,
+    action: {
+        type: string;
+        payload: { card: PlayingCard; suit?: PlayingCard["suit"] };
+        userId: string;
+    }
+): OptimisticUpdateResult | null {
+    const { card, suit } = action.payload;
+    const { userId } = action;
+
+    // Validate it's the player's turn
+    const currentPlayerId = gameData.playOrder[gameData.currentTurnIndex];
+    if (gameData.phase !== "playing" || currentPlayerId !== userId) {
+        return null;
+    }
+
+    // Validate card is in hand and goes on the discard pile
+    const cardIndex = playerData.hand.findIndex(
+        (c) => c.rank === card.rank && c.suit === card.suit
+    );
+    if (
+        cardIndex === -1 ||
+        !canPlayCrazyEightsCard(card, gameData.topCard, gameData.currentSuit)
+    ) {
+        return null;
+    }
+    const isEight = isWildEight(card);
+    if (isEight && !suit) {
+        return null;
+    }
+
+    const newHand = [...playerData.hand];
+    newHand.splice(cardIndex, 1);
+
+    // Action cards and going out are left to the server; a plain card
+    // passes the turn on in the direction of play
+    const isPlainCard =
+        newHand.length > 0 &&
+        (isEight || !getCrazyEightsAction(card, gameData.settings));
+    const seatCount = gameData.playOrder.length;
+    const nextIndex =
+        (gameData.currentTurnIndex + gameData.direction + seatCount) %
+        seatCount;
+
+    return {
+        gameData: {
+            topCard: card,
+            currentSuit: isEight && suit ? suit : card.suit,
+            discardCount: gameData.discardCount + 1,
+            lastEffect: null,
+            currentTurnIndex: isPlainCard
+                ? nextIndex
+                : gameData.currentTurnIndex,
+            handsCounts: {
+                ...gameData.handsCounts,
+                [userId]: newHand.length,
+            },
+        } as Partial<CrazyEightsData>,
+        playerData: {
+            hand: newHand,
+        },
+    };
+}
+
 // =====================
 // MAIN REDUCER ROUTER
 // =====================
@@ -339,7 +764,7 @@ export function optimisticGameReducer(
                     dominoesPlayerData,
                     action as {
                         type: string;
-                        payload: { tile: Tile; side: "left" | "right" };
+                        payload: { tile: Tile; side: BoardSide };
                         userId: string;
                     }
                 );
@@ -357,6 +782,112 @@ export function optimisticGameReducer(
                 // No optimistic update for this action
                 return null;
         }
+    } else if (gameData.type === "hearts") {
+        const heartsData = gameData as HeartsData;
+        const heartsPlayerData = playerData as HeartsPlayerData;
+
+        switch (action.type) {
+            case "PLAY_CARD":
+                return optimisticHeartsPlayCard(
+                    heartsData,
+                    heartsPlayerData,
+                    action as {
+                        type: string;
+                        payload: { card: PlayingCard };
+                        userId: string;
+                    }
+                );
+            case "PASS_CARDS":
+                return optimisticHeartsPassCards(
+                    heartsData,
+                    heartsPlayerData,
+                    action as {
+                        type: string;
+                        payload: { cards: PlayingCard[] };
+                        userId: string;
+                    }
+                );
+            default:
+                // No optimistic update for this action
+                return null;
+        }
+    } else if (gameData.type === "bidwhist") {
+        const bidWhistData = gameData as BidWhistData;
+        const bidWhistPlayerData = playerData as BidWhistPlayerData;
+
+        switch (action.type) {
+            case "PLAY_CARD":
+                return optimisticBidWhistPlayCard(
+                    bidWhistData,
+                    bidWhistPlayerData,
+                    action as {
+                        type: string;
+                        payload: { card: PlayingCard };
+                        userId: string;
+                    }
+                );
+            case "DISCARD":
+                return optimisticBidWhistDiscard(
+                    bidWhistData,
+                    bidWhistPlayerData,
+                    action as {
+                        type: string;
+                        payload: { cards: PlayingCard[] };
+                        userId: string;
+                    }
+                );
+            default:
+                // No optimistic update for this action
+                return null;
+        }
+    } else if (gameData.type === "euchre") {
+        const euchreData = gameData as EuchreData;
+        const euchrePlayerData = playerData as EuchrePlayerData;
+
+        switch (action.type) {
+            case "PLAY_CARD":
+                return optimisticEuchrePlayCard(
+                    euchreData,
+                    euchrePlayerData,
+                    action as {
+                        type: string;
+                        payload: { card: PlayingCard };
+                        userId: string;
+                    }
+                );
+            case "DISCARD":
+                return optimisticEuchreDiscard(
+                    euchreData,
+                    euchrePlayerData,
+                    action as {
+                        type: string;
+                        payload: { card: PlayingCard };
+                        userId: string;
+                    }
+                );
+            default:
+                // No optimistic update for this action
+                return null;
+        }
+    } else if (gameData.type === "crazyeights") {
+        switch (action.type) {
+            case "PLAY_CARD":
+                return optimisticCrazyEightsPlayCard(
+                    gameData as CrazyEightsData,
+                    playerData as CrazyEightsPlayerData,
+                    action as {
+                        type: string;
+                        payload: {
+                            card: PlayingCard;
+                            suit?: PlayingCard["suit"];
+                        };
+                        userId: string;
+                    }
+                );
+            default:
+                // No optimistic update for this action
+                return null;
+        }
     }
 
     return null;
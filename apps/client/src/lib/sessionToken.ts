@@ -0,0 +1,27 @@
+// src/lib/sessionToken.ts
+// Signed session token issued by the server when creating or joining a room.
+// It proves our userId to the REST API and the socket handshake, so it lives
+// alongside userId in localStorage.
+
+const SESSION_TOKEN_KEY = "sessionToken";
+
+export function getSessionToken(): string | null {
+    if (typeof window === "undefined") return null;
+    return localStorage.getItem(SESSION_TOKEN_KEY);
+}
+
+export function setSessionToken(token: string): void {
+    localStorage.setItem(SESSION_TOKEN_KEY, token);
+}
+
+export function clearSessionToken(): void {
+    localStorage.removeItem(SESSION_TOKEN_KEY);
+}
+
+/**
+ * Authorization header for REST requests, empty when we have no session yet.
+ */
+export function getAuthHeaders(): Record<string, string> {
+    const token = getSessionToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+}
@@ -3,16 +3,21 @@
 // See: https://socket.io/how-to/use-with-react
 
 import { io, Socket } from "socket.io-client";
+import type { ClientToServerEvents, ServerToClientEvents } from "@shared/types";
 import { SOCKET_BASE } from "@/services";
+import { getSessionToken } from "./sessionToken";
+
+/** Socket.IO client typed with the shared event contracts */
+export type ClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 // Singleton socket instance - survives React re-renders and Strict Mode
-let socket: Socket | null = null;
+let socket: ClientSocket | null = null;
 
 /**
  * Get or create the Socket.IO client instance.
  * The socket is created with autoConnect: false to allow manual connection control.
  */
-export function getSocket(): Socket {
+export function getSocket(): ClientSocket {
     if (!socket) {
         socket = io(SOCKET_BASE, {
             autoConnect: false,
@@ -22,6 +27,8 @@ export function getSocket(): Socket {
             reconnectionAttempts: 10,
             reconnectionDelay: 1000,
             reconnectionDelayMax: 5000,
+            // Read on every (re)connect so the server binds the current session
+            auth: (cb) => cb({ token: getSessionToken() }),
         });
 
         // Log connection events for debugging
@@ -45,7 +52,7 @@ export function getSocket(): Socket {
  * Connect to the server with the given room and user credentials.
  * Updates the socket query parameters and initiates connection.
  */
-export function connectSocket(roomId: string, userId: string): Socket {
+export function connectSocket(roomId: string, userId: string): ClientSocket {
     const sock = getSocket();
 
     // Update query parameters for this connection
@@ -75,10 +82,10 @@ export function disconnectSocket(): void {
  * Emit join_room event to register with the server.
  * Should be called after socket connects and event listeners are set up.
  */
-export function emitJoinRoom(roomId: string, userId: string): void {
+export function emitJoinRoom(roomId: string): void {
     const sock = getSocket();
     if (sock.connected) {
-        sock.emit("join_room", { roomId, userId });
+        sock.emit("join_room", { roomId });
     }
 }
 
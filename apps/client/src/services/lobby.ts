@@ -2,6 +2,7 @@ import { CreateAndJoinRoomResponse, GameTypeMetadata } from "@shared/types";
 import type { CreateRoomRequest, JoinRoomRequest } from "@shared/validation";
 import { API_BASE } from ".";
 import { fetchWithRetry, FetchError } from "@/lib/fetchWithRetry";
+import { getAuthHeaders, setSessionToken } from "@/lib/sessionToken";
 
 // Custom error for private room access
 export class PrivateRoomError extends Error {
@@ -97,19 +98,24 @@ export async function createRoom(
         );
         throw new FetchError(message, res.status, res.statusText);
     }
-    return res.json();
+    const data: CreateAndJoinRoomResponse = await res.json();
+    setSessionToken(data.sessionToken);
+    return data;
 }
 
+/**
+ * Join a room by code. If we already have a session, the server recognises
+ * us by its token (to rejoin as the same player, or enforce kicks).
+ */
 export async function joinRoom(
     playerName: string,
-    roomCode: string,
-    userId?: string
+    roomCode: string
 ): Promise<CreateAndJoinRoomResponse> {
     const requestBody: JoinRoomRequest = { playerName, roomCode };
     const res = await fetchWithRetry(`${API_BASE}/api/rooms/join`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ ...requestBody, userId }),
+        headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+        body: JSON.stringify(requestBody),
     });
     if (!res.ok) {
         const { message, code } = await extractErrorMessage(
@@ -124,7 +130,9 @@ export async function joinRoom(
 
         throw new FetchError(message, res.status, res.statusText);
     }
-    return res.json();
+    const data: CreateAndJoinRoomResponse = await res.json();
+    setSessionToken(data.sessionToken);
+    return data;
 }
 
 export async function getAvailableGames(): Promise<{
@@ -148,12 +156,11 @@ export async function getAvailableGames(): Promise<{
  */
 export async function attemptDirectGameRejoin(
     roomCodeOrId: string,
-    userName: string,
-    userId?: string
+    userName: string
 ): Promise<CreateAndJoinRoomResponse | null> {
     try {
         // Try to join; will fail if game is active and not paused
-        return await joinRoom(userName, roomCodeOrId, userId);
+        return await joinRoom(userName, roomCodeOrId);
     } catch (error) {
         // If join fails, the game is likely active and not paused
         console.log(
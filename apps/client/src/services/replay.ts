@@ -0,0 +1,25 @@
+// src/services/replay.ts
+import type { GameData, GameReplay, PlayerData } from "@shared/types";
+import { API_BASE } from ".";
+import { fetchWithRetry, FetchError } from "@/lib/fetchWithRetry";
+
+/**
+ * Fetch the recorded replay of a game.
+ * The server only serves replays once the game is over (409 otherwise).
+ */
+export async function getGameReplay(
+    gameId: string
+): Promise<GameReplay<GameData, PlayerData>> {
+    const res = await fetchWithRetry(`${API_BASE}/api/games/${gameId}/replay`);
+    if (!res.ok) {
+        let message = "Failed to load replay";
+        try {
+            const data = await res.json();
+            message = data.error || message;
+        } catch {
+            // Keep the fallback message
+        }
+        throw new FetchError(message, res.status, res.statusText);
+    }
+    return res.json();
+}
@@ -1,8 +1,11 @@
 // packages/shared/src/types/games/base.ts
 // Base game types shared between client and API
 
-import { User } from "../user";
+import { BotDifficulty, User } from "../user";
 import { BaseGameSettings } from "../settings";
+import type { JsonPatchOperation } from "../../utils/jsonPatch";
+import type { Card } from "./cards";
+import type { Tile } from "./dominoes";
 
 // ============================================================================
 // Player Collections
@@ -35,6 +38,12 @@ export interface GameState {
     players: GamePlayers;
     history?: string[]; // Optional history for game actions
     leaderId: string;
+    /** Bumped by the GameManager on every change, starting at 0 */
+    version: number;
+    /** Open while the game waits for players to be ready to continue */
+    continueGate?: ContinueGate | null;
+    /** Open while opponents vote on taking back a play */
+    undoRequest?: UndoRequest | null;
     // ...other game-specific state is added by extending interfaces
 }
 
@@ -46,6 +55,14 @@ export type BaseGameData = {
     type: string;
     players: Players;
     leaderId: string;
+    /** State version - patches apply only on top of the version they name */
+    version: number;
+    /** Open while the game waits for players to be ready to continue */
+    continueGate?: ContinueGate | null;
+    /** Player who can still take back their last play (none once anyone else acts) */
+    undoPlayerId?: string | null;
+    /** Open while opponents vote on taking back a play */
+    undoRequest?: UndoRequest | null;
     // Add other shared fields here if needed
 };
 
@@ -67,6 +84,67 @@ export interface TurnTimerInfo {
     serverTime: number;
 }
 
+// ============================================================================
+// Continue Gate Types
+// ============================================================================
+
+/**
+ * "Ready to continue" gate between phases (e.g. trick result, round summary).
+ * Players acknowledge with the game's continue action; the game moves on
+ * once nobody is left to wait on, when the leader sends FORCE_CONTINUE,
+ * or when the server's auto-continue timer runs out.
+ */
+export interface ContinueGate {
+    /** Players who are ready */
+    acknowledged: string[];
+    /** Players the game is still waiting on (bots are never waited on) */
+    waitingOn: string[];
+    /** Unix timestamp (ms, server clock) when the server continues on its own */
+    autoContinueAt: number;
+}
+
+// ============================================================================
+// Undo Types
+// ============================================================================
+
+/**
+ * A player's request to take back their last play (REQUEST_UNDO).
+ * Opponents answer with RESPOND_UNDO; one refusal closes the request, and
+ * the play is taken back once nobody is left to wait on.
+ */
+export interface UndoRequest {
+    requesterId: string;
+    /** Opponents who agreed */
+    approvals: string[];
+    /** Opponents who haven't answered yet (bots are never asked) */
+    waitingOn: string[];
+}
+
+// ============================================================================
+// Deal Verification Types
+// ============================================================================
+
+/**
+ * A card or tile handed out in a deal.
+ */
+export type DealtItem = Card | Tile;
+
+/**
+ * A round's deal: every round is shuffled from a random seed.
+ * The commitment (SHA-256 hash of the seed) is published when the round is
+ * dealt. Once the round is over the seed and the hands dealt are revealed,
+ * so players can rebuild the deal from the seed and check it matches.
+ */
+export interface DealInfo {
+    round: number;
+    /** SHA-256 hash of the seed (hex) */
+    commitment: string;
+    /** The seed itself - only sent once the round is over */
+    seed?: string;
+    /** Each player's hand as dealt - only sent once the round is over */
+    hands?: Record<string, DealtItem[]>;
+}
+
 /**
  * Base player-specific data (private state for each player).
  * Extended by game-specific player data types.
@@ -85,6 +163,7 @@ export type BasePlayerData = {
  */
 export type BaseGameEvent = {
     event: string;
+    timestamp?: string;
 };
 
 /**
@@ -94,7 +173,13 @@ export type BaseGameEvent = {
  */
 export type GameEventPayload<T = BaseGameData, P = BasePlayerData> =
     | (BaseGameEvent & { event: "sync"; gameState: T })
-    | { event: "player_sync"; playerState: P }
+    | (BaseGameEvent & {
+          event: "patch";
+          baseVersion: number;
+          version: number;
+          patch: JsonPatchOperation[];
+      })
+    | (BaseGameEvent & { event: "player_sync"; playerState: P | null })
     | { event: "player_left"; userName: string }
     | { event: "game_aborted"; reason: string }
     | { event: "game_paused"; reason: string; timeoutAt: string }
@@ -155,5 +240,24 @@ export interface GameModule<TState extends GameState = GameState> {
     checkMinimumPlayers?(state: TState): boolean;
     handlePlayerReconnect?(state: TState, userId: string): TState;
     handlePlayerDisconnect?(state: TState, userId: string): TState;
+    /**
+     * Turn timer hook: the player whose turn is being timed,
+     * or null when no timer should run (e.g. during summaries).
+     */
+    getTimedPlayer?(state: TState): string | null;
+    /**
+     * Turn timer hook: the action to dispatch for a player who timed out.
+     * Called again while the same player still holds the turn.
+     */
+    getAutoAction?(state: TState, playerId: string): GameAction | null;
+    /**
+     * Bot hook: the action a computer-controlled player takes on its turn.
+     * Called whenever getTimedPlayer returns a bot.
+     */
+    getBotAction?(
+        state: TState,
+        playerId: string,
+        difficulty: BotDifficulty
+    ): GameAction | null;
     metadata: GameModuleMetadata;
 }
@@ -0,0 +1,246 @@
+// packages/shared/src/types/games/bidwhist.ts
+// Bid Whist game types shared between client and API
+
+import {
+    BaseGameData,
+    BasePlayerData,
+    DealInfo,
+    GameState,
+    TurnTimerInfo,
+} from "./base";
+import { Card, PlayingCard, Suit, Trick } from "./cards";
+import { BidWhistSettings } from "../settings";
+
+// ============================================================================
+// Game Phase
+// ============================================================================
+
+export type BidWhistPhase =
+    | "bidding"
+    | "discarding" // Declarer has picked up the kitty and discards into it
+    | "declaring" // Declarer names trump (or uptown/downtown for no-trump)
+    | "playing"
+    | "trick-result"
+    | "round-summary"
+    | "finished";
+
+// ============================================================================
+// Bid Types
+// ============================================================================
+
+/**
+ * Which cards rank highest: uptown plays Ace high, downtown plays low
+ * cards high (Ace, 2, 3 ... King).
+ */
+export type BidWhistRanking = "uptown" | "downtown";
+
+/**
+ * A bid names its ranking, or no-trump (ranking chosen after winning).
+ */
+export type BidWhistBidDirection = BidWhistRanking | "noTrump";
+
+/**
+ * A bid of books over the first six, e.g. 4 uptown needs 10 books.
+ */
+export interface BidWhistBid {
+    readonly amount: number;
+    readonly direction: BidWhistBidDirection;
+}
+
+/**
+ * The winning bid once the auction is over.
+ */
+export interface BidWhistContract {
+    declarerId: string;
+    teamId: number;
+    bid: BidWhistBid;
+}
+
+// ============================================================================
+// Game Actions
+// ============================================================================
+
+export interface BidWhistBidAction {
+    type: "PLACE_BID";
+    playerId: string;
+    bid: BidWhistBid;
+}
+
+export interface BidWhistPassAction {
+    type: "PASS";
+    playerId: string;
+}
+
+export interface DiscardKittyAction {
+    type: "DISCARD";
+    playerId: string;
+    cards: Card[];
+}
+
+export interface DeclareTrumpAction {
+    type: "DECLARE_TRUMP";
+    playerId: string;
+    trumpSuit?: Suit; // Uptown/downtown bids
+    ranking?: BidWhistRanking; // No-trump bids
+}
+
+// ============================================================================
+// Team Types
+// ============================================================================
+
+export interface BidWhistTeam {
+    players: string[];
+    score: number;
+}
+
+/**
+ * How a team's round score was made up (shown in the round summary).
+ */
+export interface BidWhistScoreBreakdown {
+    previousScore: number;
+    books: number; // tricks won, plus the kitty for the declaring team
+    isDeclarer: boolean;
+    booksNeeded: number; // six plus the bid (declaring team only)
+    made: boolean; // the declaring team made its bid
+    doubled: boolean; // a no-trump bid scoring double
+    roundScore: number;
+    newScore: number;
+}
+
+// ============================================================================
+// Bid Whist Game State (API - extends GameState)
+// ============================================================================
+
+export interface BidWhistState extends GameState {
+    teams: Record<number, BidWhistTeam>;
+    playOrder: string[]; // Partners sit across from each other
+    currentTurnIndex: number;
+    dealerIndex: number;
+
+    hands: Record<string, Card[]>;
+    kitty: Card[]; // Undealt until the declarer picks it up
+    discards: Card[]; // Declarer's discards - the declaring team's first book
+    bids: Record<string, BidWhistBid | null>; // null once a player passes
+
+    contract: BidWhistContract | null;
+    trumpSuit: Suit | null; // null when playing no-trump
+    ranking: BidWhistRanking | null; // null until declared
+
+    currentTrick: Trick | null;
+    completedTricks: Trick[];
+    phase: BidWhistPhase;
+    round: number;
+    deals: DealInfo[]; // Seed, commitment and hands for every round dealt so far
+    history: string[]; // Action history for debugging
+    settings: BidWhistSettings;
+    winnerTeamId?: number;
+    isTie?: boolean;
+
+    lastTrickWinnerId?: string;
+    lastTrickWinningCard?: Card;
+
+    roundTrickCounts: Record<string, number>;
+    roundTeamScores: Record<number, number>;
+    roundScoreBreakdown: Record<number, BidWhistScoreBreakdown>;
+
+    /** ISO timestamp when the current turn started (for turn timer) */
+    turnStartedAt?: string;
+}
+
+// ============================================================================
+// Bid Whist Client Data Types
+// ============================================================================
+
+/**
+ * Client-side settings interface (mirrors server settings).
+ */
+export interface BidWhistClientSettings {
+    winTarget: number;
+    roundLimit: number | null;
+    minimumBid: number;
+    noTrumpDoubles: boolean;
+    turnTimeLimit?: number | null;
+}
+
+/**
+ * Bid Whist game data sent to clients (public state).
+ */
+export type BidWhistData = BaseGameData & {
+    id: string;
+    roomId: string;
+    type: "bidwhist";
+    teams: {
+        [teamId: string]: {
+            players: string[];
+            score: number;
+        };
+    };
+    playOrder: string[];
+    dealerIndex: number;
+    currentTurnIndex: number;
+    handsCounts: Record<string, number>;
+    kittyCount: number; // Cards still in the kitty (face down)
+
+    bids: Record<string, BidWhistBid | null>;
+    contract: BidWhistContract | null;
+    trumpSuit: PlayingCard["suit"] | null;
+    ranking: BidWhistRanking | null;
+
+    currentTrick: Trick<PlayingCard> | null;
+    completedTricks: Trick<PlayingCard>[];
+    phase: BidWhistPhase;
+    round: number;
+    deals: DealInfo[]; // Current round's seed and hands are revealed once the round is over
+    settings: BidWhistClientSettings;
+    history: string[];
+    winnerTeamId?: number;
+    isTie?: boolean;
+    lastTrickWinnerId?: string;
+    lastTrickWinningCard?: PlayingCard;
+
+    roundTrickCounts: Record<string, number>;
+    roundTeamScores: Record<number, number>;
+    roundScoreBreakdown: Record<number, BidWhistScoreBreakdown>;
+    /** Turn timer info for client-side sync with latency compensation */
+    turnTimer?: TurnTimerInfo;
+};
+
+/**
+ * Player-specific Bid Whist data (private state).
+ */
+export type BidWhistPlayerData = BasePlayerData & {
+    hand: PlayingCard[];
+    discards: PlayingCard[]; // The declarer's own discards
+};
+
+// ============================================================================
+// Team Requirements
+// ============================================================================
+
+export const BID_WHIST_TEAM_REQUIREMENTS = {
+    numTeams: 2,
+    playersPerTeam: 2,
+} as const;
+
+export const BID_WHIST_TOTAL_PLAYERS =
+    BID_WHIST_TEAM_REQUIREMENTS.numTeams *
+    BID_WHIST_TEAM_REQUIREMENTS.playersPerTeam;
+
+// ============================================================================
+// Game Constants
+// ============================================================================
+
+/**
+ * A standard deck plus the Big and Little Joker: 12 cards each and a
+ * kitty of 6.
+ */
+export const BID_WHIST_DECK_SIZE = 54;
+export const BID_WHIST_HAND_SIZE = 12;
+export const BID_WHIST_KITTY_SIZE = 6;
+
+/**
+ * The first six books don't count toward a bid, so the highest bid is 7
+ * (all 13 books, counting the kitty).
+ */
+export const BID_WHIST_BOOK_TRICKS = 6;
+export const BID_WHIST_MAX_BID = 7;
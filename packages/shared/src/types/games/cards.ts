@@ -0,0 +1,127 @@
+// packages/shared/src/types/games/cards.ts
+// Playing card and trick-taking types shared by every card game
+
+// ============================================================================
+// Card Types
+// ============================================================================
+
+export enum Suit {
+    Hearts = "Hearts",
+    Diamonds = "Diamonds",
+    Clubs = "Clubs",
+    Spades = "Spades",
+}
+
+export enum Rank {
+    Ace = "A",
+    Two = "2",
+    Three = "3",
+    Four = "4",
+    Five = "5",
+    Six = "6",
+    Seven = "7",
+    Eight = "8",
+    Nine = "9",
+    Ten = "10",
+    Jack = "J",
+    Queen = "Q",
+    King = "K",
+    LittleJoker = "LJ",
+    BigJoker = "BJ",
+}
+
+/**
+ * Represents a playing card (API version with readonly).
+ */
+export interface Card {
+    readonly rank: Rank;
+    readonly suit: Suit;
+}
+
+/**
+ * Playing card interface for client-side use.
+ * Uses string for rank to allow flexible rendering.
+ */
+export interface PlayingCard {
+    readonly rank: string;
+    readonly suit: "Spades" | "Hearts" | "Diamonds" | "Clubs";
+}
+
+/**
+ * Any card the trick-taking rules can judge (a Card or a PlayingCard).
+ */
+export interface TrickCard {
+    readonly rank: string;
+    readonly suit: string;
+}
+
+/**
+ * Suits in a standard deck.
+ */
+export const STANDARD_SUITS: Suit[] = [
+    Suit.Spades,
+    Suit.Hearts,
+    Suit.Clubs,
+    Suit.Diamonds,
+];
+
+/**
+ * Ranks of a standard deck, lowest to highest (Ace high).
+ */
+export const STANDARD_RANK_ORDER: Rank[] = [
+    Rank.Two,
+    Rank.Three,
+    Rank.Four,
+    Rank.Five,
+    Rank.Six,
+    Rank.Seven,
+    Rank.Eight,
+    Rank.Nine,
+    Rank.Ten,
+    Rank.Jack,
+    Rank.Queen,
+    Rank.King,
+    Rank.Ace,
+];
+
+// ============================================================================
+// Trick Types
+// ============================================================================
+
+export interface CardPlay<C extends TrickCard = Card> {
+    playerId: string;
+    card: C;
+}
+
+export interface Trick<C extends TrickCard = Card> {
+    leaderId: string;
+    plays: CardPlay<C>[];
+    leadSuit: C["suit"] | null; // suit of the first card played
+    winnerId?: string;
+}
+
+/**
+ * How a trick-taking game decides which cards may be played and who wins
+ * a trick. Games build their rules from the current state (trump, whether
+ * a suit is broken, ...) so the API and client judge plays the same way.
+ */
+export interface TrickRules {
+    /** Suit that beats every other suit, or null to play without trump */
+    trumpSuit: string | null;
+    /** Higher values win within a suit */
+    getRankValue: (card: TrickCard) => number;
+    /** Suit a card counts as (e.g. a left bower), when not its printed suit */
+    getSuit?: (card: TrickCard) => string;
+    /** Lead restriction, e.g. trump can't lead until it's broken */
+    canLead?: (card: TrickCard, hand: TrickCard[]) => boolean;
+    /** Players must follow the led suit when they can (default true) */
+    mustFollowSuit?: boolean;
+    /** Extra restriction on every play, after the lead and follow rules */
+    canPlay?: (
+        card: TrickCard,
+        hand: TrickCard[],
+        trick: Pick<Trick<TrickCard>, "plays">
+    ) => boolean;
+    /** Replaces "highest trump, else highest card of the led suit" */
+    beats?: (a: TrickCard, b: TrickCard, ledSuit: string) => boolean;
+}
@@ -0,0 +1,205 @@
+// packages/shared/src/types/games/crazyeights.ts
+// Crazy Eights game types shared between client and API
+
+import {
+    BaseGameData,
+    BasePlayerData,
+    DealInfo,
+    GameState,
+    TurnTimerInfo,
+} from "./base";
+import { Card, PlayingCard, Rank, Suit } from "./cards";
+import { CrazyEightsSettings } from "../settings";
+
+// ============================================================================
+// Game Phase
+// ============================================================================
+
+export type CrazyEightsPhase = "playing" | "round-summary" | "finished";
+
+/**
+ * Which way play goes round the table: 1 is clockwise (to the left),
+ * -1 is back the other way after a reverse.
+ */
+export type CrazyEightsDirection = 1 | -1;
+
+/**
+ * Optional action cards, each switched on by its own setting.
+ */
+export type CrazyEightsActionType = "drawTwo" | "skip" | "reverse";
+
+/**
+ * What the last action card did, for the table to call out.
+ */
+export interface CrazyEightsActionEffect {
+    type: CrazyEightsActionType;
+    playerId: string; // Who played the card
+    targetId?: string; // Who drew two or was skipped
+}
+
+// ============================================================================
+// Game Actions
+// ============================================================================
+
+export interface CrazyEightsPlayCardAction {
+    type: "PLAY_CARD";
+    playerId: string;
+    card: Card;
+    suit?: Suit; // The suit named for an eight
+}
+
+export interface CrazyEightsDrawCardAction {
+    type: "DRAW_CARD";
+    playerId: string;
+}
+
+export interface CrazyEightsPassAction {
+    type: "PASS";
+    playerId: string;
+}
+
+// ============================================================================
+// Round Scoring
+// ============================================================================
+
+/**
+ * How a player's round score was made up (shown in the round summary).
+ */
+export interface CrazyEightsScoreBreakdown {
+    previousScore: number;
+    cardsLeft: number;
+    handPoints: number; // value of the cards left in hand
+    roundScore: number; // the round winner scores everyone else's hand points
+    newScore: number;
+}
+
+// ============================================================================
+// Crazy Eights Game State (API - extends GameState)
+// ============================================================================
+
+export interface CrazyEightsState extends GameState {
+    playOrder: string[]; // Clockwise seat order; left is the next seat
+    currentTurnIndex: number;
+    dealerIndex: number;
+    direction: CrazyEightsDirection;
+
+    hands: Record<string, Card[]>;
+    drawPile: Card[]; // Face down; drawn from the front
+    discardPile: Card[]; // Face up; the last card is on top
+    reshuffleCount: number; // Discards shuffled back into the draw pile this round
+    currentSuit: Suit; // The top card's suit, or the suit named for an eight
+    lastEffect: CrazyEightsActionEffect | null;
+    consecutivePasses: number; // Everyone passing in a row blocks the round
+
+    phase: CrazyEightsPhase;
+    round: number;
+    deals: DealInfo[]; // Seed, commitment and hands for every round dealt so far
+    history: string[]; // Action history for debugging
+    settings: CrazyEightsSettings;
+
+    scores: Record<string, number>;
+    roundWinnerId?: string | null; // Null when a blocked round is tied
+    roundScoreBreakdown: Record<string, CrazyEightsScoreBreakdown>;
+    winnerIds?: string[]; // Highest score once the game is over (ties share the win)
+
+    /** ISO timestamp when the current turn started (for turn timer) */
+    turnStartedAt?: string;
+}
+
+// ============================================================================
+// Crazy Eights Client Data Types
+// ============================================================================
+
+/**
+ * Client-side settings interface (mirrors server settings).
+ */
+export interface CrazyEightsClientSettings {
+    winTarget: number;
+    roundLimit: number | null;
+    drawTwos: boolean;
+    skips: boolean;
+    reverses: boolean;
+    turnTimeLimit?: number | null;
+}
+
+/**
+ * Crazy Eights game data sent to clients (public state).
+ */
+export type CrazyEightsData = BaseGameData & {
+    id: string;
+    roomId: string;
+    type: "crazyeights";
+
+    playOrder: string[];
+    dealerIndex: number;
+    currentTurnIndex: number;
+    direction: CrazyEightsDirection;
+    handsCounts: Record<string, number>;
+
+    drawPileCount: number;
+    discardCount: number;
+    topCard: PlayingCard;
+    currentSuit: PlayingCard["suit"];
+    lastEffect: CrazyEightsActionEffect | null;
+    consecutivePasses: number;
+
+    phase: CrazyEightsPhase;
+    round: number;
+    deals: DealInfo[]; // Current round's seed and hands are revealed once the round is over
+    settings: CrazyEightsClientSettings;
+    history: string[];
+
+    scores: Record<string, number>;
+    roundWinnerId?: string | null;
+    roundScoreBreakdown: Record<string, CrazyEightsScoreBreakdown>;
+    winnerIds?: string[];
+    /** Turn timer info for client-side sync with latency compensation */
+    turnTimer?: TurnTimerInfo;
+};
+
+/**
+ * Player-specific Crazy Eights data (private state).
+ */
+export type CrazyEightsPlayerData = BasePlayerData & {
+    hand: PlayingCard[];
+};
+
+// ============================================================================
+// Game Constants
+// ============================================================================
+
+export const CRAZY_EIGHTS_MIN_PLAYERS = 2;
+export const CRAZY_EIGHTS_MAX_PLAYERS = 8;
+
+/**
+ * Seven cards each heads-up, five each with three or more players. The
+ * rest of the 52-card deck is the draw pile, less the starter card.
+ */
+export const CRAZY_EIGHTS_HAND_SIZE = {
+    twoPlayers: 7,
+    default: 5,
+} as const;
+
+/**
+ * The rank behind each optional action card.
+ */
+export const CRAZY_EIGHTS_ACTION_RANKS: Record<CrazyEightsActionType, Rank> = {
+    drawTwo: Rank.Two,
+    skip: Rank.Queen,
+    reverse: Rank.Ace,
+};
+
+/**
+ * Cards drawn by the player after a draw-two.
+ */
+export const CRAZY_EIGHTS_DRAW_TWO_COUNT = 2;
+
+/**
+ * Hand points: 50 for an eight, 10 for a picture card or ten, 1 for an
+ * ace, and face value for the rest.
+ */
+export const CRAZY_EIGHTS_POINTS = {
+    eight: 50,
+    court: 10,
+    ace: 1,
+} as const;
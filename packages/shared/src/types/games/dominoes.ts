@@ -1,8 +1,19 @@
 // packages/shared/src/types/games/dominoes.ts
 // Dominoes game types shared between client and API
 
-import { BaseGameData, BasePlayerData, GameState } from "./base";
-import { DominoesSettings } from "../settings";
+import {
+    BaseGameData,
+    BasePlayerData,
+    DealInfo,
+    GameState,
+    TurnTimerInfo,
+} from "./base";
+import {
+    DominoesGameMode,
+    DominoesScoringMode,
+    DominoesSetSize,
+    DominoesSettings,
+} from "../settings";
 
 // ============================================================================
 // Core Tile Types
@@ -12,8 +23,8 @@ import { DominoesSettings } from "../settings";
  * Represents a domino tile.
  */
 export interface Tile {
-    left: number; // 0-6 for double-six set
-    right: number; // 0-6 for double-six set
+    left: number; // 0 up to the set's highest double (6, 9 or 12)
+    right: number; // 0 up to the set's highest double (6, 9 or 12)
     id: string; // unique identifier for the tile
 }
 
@@ -23,8 +34,15 @@ export interface Tile {
 export interface BoardEnd {
     value: number; // The pip value at this end of the board
     tileId: string; // ID of the tile at this end
+    isDouble?: boolean; // A double at an end counts both halves (All Fives)
 }
 
+/**
+ * Where a tile can be attached. "up" and "down" are the spinner's extra
+ * sides, which open once tiles sit on both its left and right.
+ */
+export type BoardSide = "left" | "right" | "up" | "down";
+
 /**
  * Represents the current state of the domino board.
  */
@@ -32,6 +50,13 @@ export interface BoardState {
     tiles: Tile[]; // Tiles placed on board in order
     leftEnd: BoardEnd | null;
     rightEnd: BoardEnd | null;
+
+    // All Fives only: the first double played, open on four sides
+    spinner?: BoardEnd | null;
+    upTiles?: Tile[]; // Tiles above the spinner, nearest first
+    downTiles?: Tile[]; // Tiles below the spinner, nearest first
+    upEnd?: BoardEnd | null; // Null until the spinner opens
+    downEnd?: BoardEnd | null;
 }
 
 // ============================================================================
@@ -40,6 +65,18 @@ export interface BoardState {
 
 export type DominoesPhase = "playing" | "round-summary" | "finished";
 
+// ============================================================================
+// Team Types
+// ============================================================================
+
+/**
+ * A partnership in team mode. Partners sit across from each other.
+ */
+export interface DominoesTeam {
+    players: string[];
+    score: number;
+}
+
 // ============================================================================
 // Game Actions
 // ============================================================================
@@ -48,7 +85,7 @@ export interface PlaceTileAction {
     type: "PLACE_TILE";
     playerId: string;
     tile: Tile;
-    side: "left" | "right"; // which end of the board to place the tile
+    side: BoardSide; // which end of the board to place the tile
 }
 
 export interface PassAction {
@@ -56,7 +93,22 @@ export interface PassAction {
     playerId: string;
 }
 
-export type DominoesAction = PlaceTileAction | PassAction;
+export interface DrawTileAction {
+    type: "DRAW_TILE";
+    playerId: string;
+}
+
+export type DominoesAction = PlaceTileAction | PassAction | DrawTileAction;
+
+/**
+ * A tile played in an All Fives round and what the open ends added up to.
+ */
+export interface DominoesPlayScore {
+    playerId: string;
+    tileId: string;
+    endsSum: number; // Sum of the open ends after the play
+    points: number; // Points scored (endsSum when it's a multiple of five)
+}
 
 // ============================================================================
 // Dominoes Game State (API - extends GameState)
@@ -69,18 +121,28 @@ export interface DominoesState extends GameState {
 
     hands: Record<string, Tile[]>;
     handsCounts?: Record<string, number>; // For public state
+    boneyard: Tile[]; // Undealt tiles (hidden; only used in draw games)
+    boneyardCount?: number; // For public state
     board: BoardState;
 
     phase: DominoesPhase;
     round: number;
     consecutivePasses: number; // Track consecutive passes to detect blocked game
+    roundPlays?: DominoesPlayScore[]; // All Fives: every play this round
 
     playerScores: Record<string, number>; // Individual scores
     roundPipCounts?: Record<string, number>; // Pip counts at end of round
     roundWinner?: string | null; // Winner of the current round
     isRoundTie?: boolean; // True if round ended in a tie (blocked game, multiple lowest pip counts)
 
+    // Team mode only
+    teams?: Record<number, DominoesTeam>;
+    roundTeamPipCounts?: Record<number, number>; // Pooled pip counts per team at end of round
+    roundWinningTeam?: number | null; // Team that won the current round
+
     gameWinner?: string; // Overall game winner
+    winningTeam?: number; // Overall winning team (team mode)
+    deals: DealInfo[]; // Seed, commitment and hands for every round dealt so far
     history: string[]; // Action history for debugging
     settings: DominoesSettings;
 }
@@ -95,6 +157,10 @@ export interface DominoesState extends GameState {
 export interface DominoesClientSettings {
     winTarget: number; // Score needed to win (default 100)
     drawFromBoneyard: boolean; // Allow drawing tiles instead of passing
+    gameMode: DominoesGameMode; // Individual or 2v2 partners
+    scoringMode?: DominoesScoringMode; // Block or All Fives
+    setSize?: DominoesSetSize; // Highest double in the set
+    turnTimeLimit?: number | null; // seconds, null or undefined means no limit
 }
 
 /**
@@ -112,24 +178,36 @@ export type DominoesData = BaseGameData & {
 
     // Game pieces (public: only tile counts, not actual tiles)
     handsCounts: Record<string, number>;
+    boneyardCount: number;
     board: BoardState;
 
     // Game flow
     phase: DominoesPhase;
     round: number;
     consecutivePasses: number;
+    roundPlays?: DominoesPlayScore[]; // All Fives: every play this round
+    deals: DealInfo[]; // Current round's seed and hands are revealed once the round is over
 
-    // Scoring (individual, not team-based)
+    // Scoring (in team mode each player mirrors their team's score)
     playerScores: Record<string, number>;
     roundPipCounts?: Record<string, number>; // Pip counts at end of round
     roundWinner?: string | null; // Winner of the current round (null if blocked tie)
     isRoundTie?: boolean; // True if round ended in a tie (Caribbean rule)
 
+    // Team scoring (team mode only)
+    teams?: Record<number, DominoesTeam>;
+    roundTeamPipCounts?: Record<number, number>;
+    roundWinningTeam?: number | null;
+
     // End game
     gameWinner?: string;
+    winningTeam?: number;
 
     // Settings
     settings: DominoesClientSettings;
+
+    /** Turn timer info for client-side sync with latency compensation */
+    turnTimer?: TurnTimerInfo;
 };
 
 /**
@@ -144,4 +222,18 @@ export type DominoesPlayerData = BasePlayerData & {
 // Game Constants
 // ============================================================================
 
-export const DOMINOES_TOTAL_PLAYERS = 4;
+export const DOMINOES_TOTAL_PLAYERS = 4; // Double-six block game and team mode
+export const DOMINOES_MIN_PLAYERS = 2;
+export const DOMINOES_MAX_PLAYERS = 8;
+// Most players each set can deal a hand to
+export const DOMINOES_SET_MAX_PLAYERS: Record<DominoesSetSize, number> = {
+    6: 4,
+    9: 8,
+    12: 8,
+};
+export const DOMINOES_TEAM_REQUIREMENTS = {
+    numTeams: 2,
+    playersPerTeam: 2,
+} as const; // Team mode only
+export const DOMINOES_HAND_SIZE = 7; // Double-six block game: all 28 tiles dealt to 4 players
+export const DOMINOES_DRAW_HAND_SIZE = 5; // Double-six draw game: 8 tiles left in the boneyard
@@ -0,0 +1,239 @@
+// packages/shared/src/types/games/euchre.ts
+// Euchre game types shared between client and API
+
+import {
+    BaseGameData,
+    BasePlayerData,
+    DealInfo,
+    GameState,
+    TurnTimerInfo,
+} from "./base";
+import { Card, PlayingCard, Rank, Suit, Trick } from "./cards";
+import { EuchreSettings } from "../settings";
+
+// ============================================================================
+// Game Phase
+// ============================================================================
+
+export type EuchrePhase =
+    | "calling" // Players order up the upcard, then name any other suit
+    | "discarding" // Dealer has picked up the upcard and discards one card
+    | "playing"
+    | "trick-result"
+    | "round-summary"
+    | "finished";
+
+/**
+ * First time round the table players may only order up the upcard's
+ * suit; once everyone passes it's turned down and any other suit can be
+ * named.
+ */
+export type EuchreCallingRound = 1 | 2;
+
+/**
+ * The suit called as trump and the team that has to take three tricks.
+ */
+export interface EuchreContract {
+    makerId: string;
+    teamId: number;
+    trumpSuit: Suit;
+    alone: boolean; // The maker's partner sits the hand out
+}
+
+// ============================================================================
+// Game Actions
+// ============================================================================
+
+export interface EuchreCallTrumpAction {
+    type: "CALL_TRUMP";
+    playerId: string;
+    trumpSuit: Suit; // The upcard's suit in the first round
+    alone?: boolean;
+}
+
+export interface EuchrePassAction {
+    type: "PASS";
+    playerId: string;
+}
+
+export interface EuchreDiscardAction {
+    type: "DISCARD";
+    playerId: string;
+    card: Card;
+}
+
+// ============================================================================
+// Team Types
+// ============================================================================
+
+export interface EuchreTeam {
+    players: string[];
+    score: number;
+}
+
+/**
+ * How a team's round score was made up (shown in the round summary).
+ */
+export interface EuchreScoreBreakdown {
+    previousScore: number;
+    tricks: number;
+    isMaker: boolean;
+    march: boolean; // The makers took all five tricks
+    euchred: boolean; // The makers took fewer than three tricks
+    roundScore: number;
+    newScore: number;
+}
+
+// ============================================================================
+// Euchre Game State (API - extends GameState)
+// ============================================================================
+
+export interface EuchreState extends GameState {
+    teams: Record<number, EuchreTeam>;
+    playOrder: string[]; // Partners sit across from each other
+    currentTurnIndex: number;
+    dealerIndex: number;
+
+    hands: Record<string, Card[]>;
+    kitty: Card[]; // The three undealt cards under the upcard
+    upcard: Card; // Turned up for the first calling round, then turned down
+    callingRound: EuchreCallingRound;
+    passes: string[]; // Players who have passed in the current calling round
+
+    contract: EuchreContract | null;
+    trumpSuit: Suit | null;
+    sittingOut: string[]; // The partner of a player going alone
+
+    currentTrick: Trick | null;
+    completedTricks: Trick[];
+    phase: EuchrePhase;
+    round: number;
+    deals: DealInfo[]; // Seed, commitment and hands for every deal, misdeals included
+    history: string[]; // Action history for debugging
+    settings: EuchreSettings;
+    winnerTeamId?: number;
+    isTie?: boolean;
+
+    lastTrickWinnerId?: string;
+    lastTrickWinningCard?: Card;
+
+    roundTrickCounts: Record<string, number>;
+    roundTeamScores: Record<number, number>;
+    roundScoreBreakdown: Record<number, EuchreScoreBreakdown>;
+
+    /** ISO timestamp when the current turn started (for turn timer) */
+    turnStartedAt?: string;
+}
+
+// ============================================================================
+// Euchre Client Data Types
+// ============================================================================
+
+/**
+ * Client-side settings interface (mirrors server settings).
+ */
+export interface EuchreClientSettings {
+    winTarget: number;
+    roundLimit: number | null;
+    stickTheDealer: boolean;
+    turnTimeLimit?: number | null;
+}
+
+/**
+ * Euchre game data sent to clients (public state).
+ */
+export type EuchreData = BaseGameData & {
+    id: string;
+    roomId: string;
+    type: "euchre";
+    teams: {
+        [teamId: string]: {
+            players: string[];
+            score: number;
+        };
+    };
+    playOrder: string[];
+    dealerIndex: number;
+    currentTurnIndex: number;
+    handsCounts: Record<string, number>;
+    upcard: PlayingCard;
+    kittyCount: number;
+    callingRound: EuchreCallingRound;
+    passes: string[];
+
+    contract: EuchreContract | null;
+    trumpSuit: PlayingCard["suit"] | null;
+    sittingOut: string[];
+
+    currentTrick: Trick<PlayingCard> | null;
+    completedTricks: Trick<PlayingCard>[];
+    phase: EuchrePhase;
+    round: number;
+    deals: DealInfo[]; // Current deal's seed and hands are revealed once the round is over
+    settings: EuchreClientSettings;
+    history: string[];
+    winnerTeamId?: number;
+    isTie?: boolean;
+    lastTrickWinnerId?: string;
+    lastTrickWinningCard?: PlayingCard;
+
+    roundTrickCounts: Record<string, number>;
+    roundTeamScores: Record<number, number>;
+    roundScoreBreakdown: Record<number, EuchreScoreBreakdown>;
+    /** Turn timer info for client-side sync with latency compensation */
+    turnTimer?: TurnTimerInfo;
+};
+
+/**
+ * Player-specific Euchre data (private state).
+ */
+export type EuchrePlayerData = BasePlayerData & {
+    hand: PlayingCard[];
+};
+
+// ============================================================================
+// Team Requirements
+// ============================================================================
+
+export const EUCHRE_TEAM_REQUIREMENTS = {
+    numTeams: 2,
+    playersPerTeam: 2,
+} as const;
+
+export const EUCHRE_TOTAL_PLAYERS =
+    EUCHRE_TEAM_REQUIREMENTS.numTeams * EUCHRE_TEAM_REQUIREMENTS.playersPerTeam;
+
+// ============================================================================
+// Game Constants
+// ============================================================================
+
+/**
+ * Nine through Ace in every suit: five cards each and a kitty of four,
+ * the top one turned up.
+ */
+export const EUCHRE_RANKS: Rank[] = [
+    Rank.Nine,
+    Rank.Ten,
+    Rank.Jack,
+    Rank.Queen,
+    Rank.King,
+    Rank.Ace,
+];
+export const EUCHRE_DECK_SIZE = 24;
+export const EUCHRE_HAND_SIZE = 5;
+
+/**
+ * The makers need three of the five tricks.
+ */
+export const EUCHRE_TRICKS_TO_MAKE = 3;
+
+/**
+ * Points for a hand: one for making it, two for a march (all five
+ * tricks), four for a march alone, and two to the defenders for a euchre.
+ */
+export const EUCHRE_POINTS = {
+    made: 1,
+    march: 2,
+    marchAlone: 4,
+    euchre: 2,
+} as const;
@@ -0,0 +1,189 @@
+// packages/shared/src/types/games/hearts.ts
+// Hearts game types shared between client and API
+
+import {
+    BaseGameData,
+    BasePlayerData,
+    DealInfo,
+    GameState,
+    TurnTimerInfo,
+} from "./base";
+import { Card, PlayingCard, Trick } from "./cards";
+import { HeartsMoonRule, HeartsSettings } from "../settings";
+
+// ============================================================================
+// Game Phase
+// ============================================================================
+
+export type HeartsPhase =
+    | "passing"
+    | "playing"
+    | "trick-result"
+    | "round-summary"
+    | "finished";
+
+/**
+ * Where each player's passed cards go this round. Hold rounds skip the pass.
+ */
+export type HeartsPassDirection = "left" | "right" | "across" | "hold";
+
+// ============================================================================
+// Game Actions
+// ============================================================================
+
+export interface PassCardsAction {
+    type: "PASS_CARDS";
+    playerId: string;
+    cards: Card[];
+}
+
+// ============================================================================
+// Round Scoring
+// ============================================================================
+
+/**
+ * How a player's round score was made up (shown in the round summary).
+ */
+export interface HeartsScoreBreakdown {
+    previousScore: number;
+    hearts: number; // hearts taken this round
+    queenOfSpades: boolean; // took the Q♠
+    points: number; // points taken in tricks
+    shotTheMoon: boolean;
+    roundScore: number; // points added this round (after shooting the moon)
+    newScore: number;
+}
+
+// ============================================================================
+// Hearts Game State (API - extends GameState)
+// ============================================================================
+
+export interface HeartsState extends GameState {
+    playOrder: string[]; // Clockwise seat order; left is the next seat
+    currentTurnIndex: number;
+    dealerIndex: number;
+
+    hands: Record<string, Card[]>;
+    passDirection: HeartsPassDirection;
+    passedCards: Record<string, Card[]>; // Cards each player has chosen to pass (private)
+    receivedCards: Record<string, Card[]>; // Cards each player was passed (private)
+
+    heartsBroken: boolean;
+    currentTrick: Trick | null;
+    completedTricks: Trick[];
+    phase: HeartsPhase;
+    round: number;
+    deals: DealInfo[]; // Seed, commitment and hands for every round dealt so far
+    history: string[]; // Action history for debugging
+    settings: HeartsSettings;
+
+    scores: Record<string, number>;
+    roundPoints: Record<string, number>; // Points taken in tricks this round
+    roundScoreBreakdown: Record<string, HeartsScoreBreakdown>;
+    moonShooterId?: string;
+    winnerIds?: string[]; // Lowest score once the game is over (ties share the win)
+
+    lastTrickWinnerId?: string;
+    lastTrickWinningCard?: Card;
+    roundTrickCounts: Record<string, number>;
+
+    /** ISO timestamp when the current turn started (for turn timer) */
+    turnStartedAt?: string;
+}
+
+// ============================================================================
+// Hearts Client Data Types
+// ============================================================================
+
+/**
+ * Client-side settings interface (mirrors server settings).
+ */
+export interface HeartsClientSettings {
+    winTarget: number;
+    roundLimit: number | null;
+    shootTheMoon: HeartsMoonRule;
+    turnTimeLimit?: number | null;
+}
+
+/**
+ * Hearts game data sent to clients (public state).
+ */
+export type HeartsData = BaseGameData & {
+    id: string;
+    roomId: string;
+    type: "hearts";
+
+    playOrder: string[];
+    dealerIndex: number;
+    currentTurnIndex: number;
+    handsCounts: Record<string, number>;
+
+    passDirection: HeartsPassDirection;
+    passedPlayerIds: string[]; // Who has chosen their cards (the cards stay private)
+
+    heartsBroken: boolean;
+    currentTrick: Trick<PlayingCard> | null;
+    completedTricks: Trick<PlayingCard>[];
+    phase: HeartsPhase;
+    round: number;
+    deals: DealInfo[]; // Current round's seed and hands are revealed once the round is over
+    settings: HeartsClientSettings;
+    history: string[];
+
+    scores: Record<string, number>;
+    roundPoints: Record<string, number>;
+    roundScoreBreakdown: Record<string, HeartsScoreBreakdown>;
+    moonShooterId?: string;
+    winnerIds?: string[];
+
+    lastTrickWinnerId?: string;
+    lastTrickWinningCard?: PlayingCard;
+    roundTrickCounts: Record<string, number>;
+    /** Turn timer info for client-side sync with latency compensation */
+    turnTimer?: TurnTimerInfo;
+};
+
+/**
+ * Player-specific Hearts data (private state).
+ */
+export type HeartsPlayerData = BasePlayerData & {
+    hand: PlayingCard[];
+    passedCards: PlayingCard[]; // Chosen for this round's pass
+    receivedCards: PlayingCard[]; // Passed to this player this round
+};
+
+// ============================================================================
+// Game Constants
+// ============================================================================
+
+export const HEARTS_TOTAL_PLAYERS = 4;
+
+/**
+ * Every deal uses the whole deck, 13 cards each.
+ */
+export const HEARTS_DECK_SIZE = 52;
+
+/**
+ * Cards each player passes before the hand.
+ */
+export const HEARTS_PASS_COUNT = 3;
+
+/**
+ * Pass direction by round, repeating: left, right, across, then hold.
+ */
+export const HEARTS_PASS_ROTATION: HeartsPassDirection[] = [
+    "left",
+    "right",
+    "across",
+    "hold",
+];
+
+/**
+ * Points for the Q♠ (every heart is worth 1).
+ */
+export const HEARTS_QUEEN_OF_SPADES_POINTS = 13;
+
+/**
+ * Every point in the deck - taking them all shoots the moon.
+ */
+export const HEARTS_MOON_POINTS = 26;
@@ -4,9 +4,20 @@
 // Base types
 export * from "./base";
 
+// Playing cards and tricks
+export * from "./cards";
+
 // Game-specific types
 export * from "./spades";
 export * from "./dominoes";
+export * from "./lrc";
+export * from "./hearts";
+export * from "./bidwhist";
+export * from "./euchre";
+export * from "./crazyeights";
+
+// Replays
+export * from "./replay";
 
 // ============================================================================
 // Union Types for Multi-Game Support
@@ -14,15 +25,34 @@ export * from "./dominoes";
 
 import { SpadesData, SpadesPlayerData } from "./spades";
 import { DominoesData, DominoesPlayerData } from "./dominoes";
+import { LRCData, LRCPlayerData } from "./lrc";
+import { HeartsData, HeartsPlayerData } from "./hearts";
+import { BidWhistData, BidWhistPlayerData } from "./bidwhist";
+import { EuchreData, EuchrePlayerData } from "./euchre";
+import { CrazyEightsData, CrazyEightsPlayerData } from "./crazyeights";
 
 /**
  * Union type for all game data types (public state).
  * Use this when handling game state generically.
  */
-export type GameData = SpadesData | DominoesData;
+export type GameData =
+    | SpadesData
+    | DominoesData
+    | LRCData
+    | HeartsData
+    | BidWhistData
+    | EuchreData
+    | CrazyEightsData;
 
 /**
  * Union type for all player data types (private state).
  * Use this when handling player-specific state generically.
  */
-export type PlayerData = SpadesPlayerData | DominoesPlayerData;
+export type PlayerData =
+    | SpadesPlayerData
+    | DominoesPlayerData
+    | LRCPlayerData
+    | HeartsPlayerData
+    | BidWhistPlayerData
+    | EuchrePlayerData
+    | CrazyEightsPlayerData;
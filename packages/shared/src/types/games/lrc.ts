@@ -0,0 +1,133 @@
+// packages/shared/src/types/games/lrc.ts
+// Left Right Center game types shared between client and API
+
+import { BaseGameData, BasePlayerData, GameState } from "./base";
+import { LRCSettings } from "../settings";
+
+// ============================================================================
+// Dice Types
+// ============================================================================
+
+/**
+ * Faces of an LRC die. A standard die maps 1-3 to DOT, 4 to L, 5 to C, 6 to R.
+ */
+export type LRCDieFace = "L" | "C" | "R" | "DOT";
+
+/**
+ * A single chip transfer produced by a roll.
+ * `toPlayerId` is "center" when the chip goes into the pot.
+ */
+export interface LRCChipMovement {
+    fromPlayerId: string;
+    toPlayerId: string | "center";
+    count: number;
+}
+
+/**
+ * The result of one player's roll (kept for animation and history).
+ */
+export interface LRCRoll {
+    rollNumber: number; // Increments every roll so clients can replay animations
+    playerId: string;
+    dice: LRCDieFace[];
+    movements: LRCChipMovement[];
+}
+
+// ============================================================================
+// Game Phase
+// ============================================================================
+
+export type LRCPhase = "playing" | "finished";
+
+// ============================================================================
+// Settlement
+// ============================================================================
+
+/**
+ * End-of-game ledger entry for a single player.
+ */
+export interface LRCSettlementEntry {
+    playerId: string;
+    startingChips: number;
+    finalChips: number; // Includes the center pot for the winner
+    netChips: number;
+    netEarnings: number; // netChips * chipValue
+}
+
+// ============================================================================
+// LRC Game State (API - extends GameState)
+// ============================================================================
+
+export interface LRCState extends GameState {
+    playOrder: string[]; // Clockwise seat order; left is the next seat, right the previous
+    currentTurnIndex: number;
+
+    chips: Record<string, number>;
+    centerPot: number;
+
+    phase: LRCPhase;
+    rollCount: number;
+    lastRoll: LRCRoll | null;
+
+    winnerId?: string;
+    settlement?: LRCSettlementEntry[];
+
+    history: string[];
+    settings: LRCSettings;
+}
+
+// ============================================================================
+// LRC Client Data Types
+// ============================================================================
+
+/**
+ * Client-side settings interface (mirrors server settings).
+ */
+export interface LRCClientSettings {
+    startingChips: number;
+    chipValue: number;
+}
+
+/**
+ * LRC game data sent to clients. All information is public.
+ */
+export type LRCData = BaseGameData & {
+    id: string;
+    roomId: string;
+    type: "lrc";
+
+    // Turn management
+    playOrder: string[];
+    currentTurnIndex: number;
+
+    // Chip ledger
+    chips: Record<string, number>;
+    centerPot: number;
+
+    // Game flow
+    phase: LRCPhase;
+    rollCount: number;
+    lastRoll: LRCRoll | null;
+
+    // End game
+    winnerId?: string;
+    settlement?: LRCSettlementEntry[];
+
+    // Settings
+    settings: LRCClientSettings;
+};
+
+/**
+ * Player-specific LRC data (private state).
+ */
+export type LRCPlayerData = BasePlayerData & {
+    localOrdering: string[];
+};
+
+// ============================================================================
+// Game Constants
+// ============================================================================
+
+export const LRC_MIN_PLAYERS = 3;
+export const LRC_MAX_PLAYERS = 8;
+export const LRC_MAX_DICE = 3;
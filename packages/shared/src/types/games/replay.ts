@@ -0,0 +1,33 @@
+// packages/shared/src/types/games/replay.ts
+// Game replay types (recorded action log, served once a game is over)
+
+import { BaseGameData, BasePlayerData, GameAction, Players } from "./base";
+
+/**
+ * One step of a replay: an action and the table it produced.
+ */
+export interface ReplayStep<T = BaseGameData, P = BasePlayerData> {
+    /** Action applied at this step (null for the opening deal) */
+    action: GameAction | null;
+    /** Unix timestamp (ms) when the action was applied on the server */
+    timestamp: number;
+    /** Public game state after the action */
+    gameState: T;
+    /** Every player's private state after the action (all hands revealed) */
+    playerStates: Record<string, P>;
+}
+
+/**
+ * A full game replay, returned by GET /api/games/:gameId/replay.
+ */
+export interface GameReplay<T = BaseGameData, P = BasePlayerData> {
+    gameId: string;
+    gameType: string;
+    roomId: string;
+    players: Players;
+    /** Unix timestamp (ms) when the game started */
+    startedAt: number;
+    /** Unix timestamp (ms) when the game left the server (null if still held) */
+    endedAt: number | null;
+    steps: ReplayStep<T, P>[];
+}
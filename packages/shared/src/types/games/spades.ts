@@ -1,54 +1,15 @@
 // packages/shared/src/types/games/spades.ts
 // Spades game types shared between client and API
 
-import { BaseGameData, BasePlayerData, GameState, TurnTimerInfo } from "./base";
-import { SpadesSettings } from "../settings";
-
-// ============================================================================
-// Card Types
-// ============================================================================
-
-export enum Suit {
-    Hearts = "Hearts",
-    Diamonds = "Diamonds",
-    Clubs = "Clubs",
-    Spades = "Spades",
-}
-
-export enum Rank {
-    Ace = "A",
-    Two = "2",
-    Three = "3",
-    Four = "4",
-    Five = "5",
-    Six = "6",
-    Seven = "7",
-    Eight = "8",
-    Nine = "9",
-    Ten = "10",
-    Jack = "J",
-    Queen = "Q",
-    King = "K",
-    LittleJoker = "LJ",
-    BigJoker = "BJ",
-}
-
-/**
- * Represents a playing card (API version with readonly).
- */
-export interface Card {
-    readonly rank: Rank;
-    readonly suit: Suit;
-}
-
-/**
- * Playing card interface for client-side use.
- * Uses string for rank to allow flexible rendering.
- */
-export interface PlayingCard {
-    readonly rank: string;
-    readonly suit: "Spades" | "Hearts" | "Diamonds" | "Clubs";
-}
+import {
+    BaseGameData,
+    BasePlayerData,
+    DealInfo,
+    GameState,
+    TurnTimerInfo,
+} from "./base";
+import { Card, PlayingCard, Trick } from "./cards";
+import { SpadesBostonRule, SpadesGameMode, SpadesSettings } from "../settings";
 
 // ============================================================================
 // Bid Types
@@ -92,18 +53,6 @@ export type SpadesAction = PlaceBidAction | PlayCardAction;
 // Trick Types
 // ============================================================================
 
-export interface CardPlay {
-    playerId: string;
-    card: Card;
-}
-
-export interface Trick {
-    leaderId: string;
-    plays: CardPlay[];
-    leadSuit: Suit | null; // suit of the first card played
-    winnerId?: string;
-}
-
 /**
  * Client-side trick representation using PlayingCard.
  */
@@ -125,6 +74,30 @@ export interface SpadesTeam {
     nil?: boolean;
 }
 
+/**
+ * How a team's round score was made up (shown in the round summary).
+ */
+export interface TeamScoreBreakdown {
+    previousScore: number;
+    tricksWon: number;
+    bid: number; // combined non-nil bids, raised to the minimum team bid
+    minimumBidApplied: boolean; // bid was raised to the minimum team bid
+    basePoints: number; // bid * 10 (or negative if failed)
+    bags: number; // overtricks this round
+    bagPoints: number; // +1 per bag
+    bagPenalty: number; // bags penalty when accumulated bags reach the threshold
+    nilBonus: number; // nil value per successful nil
+    nilPenalty: number; // nil value per failed nil
+    blindBonus: number; // Extra points from successful blind bid (2x normal)
+    blindPenalty: number; // Extra penalty from failed blind bid (2x normal)
+    blindNilBonus: number; // double the nil value for successful blind nil
+    blindNilPenalty: number; // double the nil value for failed blind nil
+    tenForTwoHundredBonus: number; // extra points for making a bid of 10+
+    bostonBonus: number; // bonus for taking every trick
+    roundScore: number; // total points gained/lost this round
+    newScore: number; // final score after round
+}
+
 // ============================================================================
 // Spades Game State (API - extends GameState)
 // ============================================================================
@@ -144,6 +117,7 @@ export interface SpadesState extends GameState {
     completedTricks: Trick[];
     phase: SpadesPhase;
     round: number;
+    deals: DealInfo[]; // Seed, commitment and hands for every round dealt so far
     history: string[]; // Action history for debugging
     settings: SpadesSettings;
     winnerTeamId?: number;
@@ -154,7 +128,7 @@ export interface SpadesState extends GameState {
 
     roundTrickCounts: Record<string, number>;
     roundTeamScores: Record<number, number>; // scores for each team for the round
-    roundScoreBreakdown: Record<number, unknown>; // detailed breakdown for each team
+    roundScoreBreakdown: Record<number, TeamScoreBreakdown>; // detailed breakdown for each team
     teamEligibleForBlind: Record<number, boolean>; // which teams are eligible for blind bids
 
     /** ISO timestamp when the current turn started (for turn timer) */
@@ -171,8 +145,15 @@ export interface SpadesState extends GameState {
  * Client-side settings interface (mirrors server settings).
  */
 export interface SpadesClientSettings {
+    gameMode?: SpadesGameMode; // Missing in games from before cutthroat (partnership)
     allowNil: boolean;
     bagsPenalty: number;
+    bagsThreshold?: number; // Missing settings below are from older games (defaults apply)
+    nilValue?: number;
+    tenForTwoHundred?: boolean;
+    bostonRule?: SpadesBostonRule;
+    minimumTeamBid?: number | null;
+    fourBidMinimum?: boolean;
     winTarget: number;
     blindNilEnabled: boolean;
     blindBidEnabled: boolean;
@@ -205,15 +186,18 @@ export type SpadesData = BaseGameData & {
     completedTricks: SpadesTrick[];
     phase: SpadesPhase;
     round: number;
+    deals: DealInfo[]; // Current round's seed and hands are revealed once the round is over
     settings: SpadesClientSettings;
     history: string[];
     handsCounts: Record<string, number>;
+    winnerTeamId?: number; // set once the game is over (may not be the top score after a Boston win)
+    isTie?: boolean;
     lastTrickWinnerId?: string;
     lastTrickWinningCard?: PlayingCard;
 
     roundTrickCounts: Record<string, number>;
     roundTeamScores: Record<number, number>; // scores for each team for the round
-    roundScoreBreakdown: Record<number, unknown>;
+    roundScoreBreakdown: Record<number, TeamScoreBreakdown>;
     teamEligibleForBlind: Record<number, boolean>; // which teams are eligible for blind bids
     /** Turn timer info for client-side sync with latency compensation */
     turnTimer?: TurnTimerInfo;
@@ -238,3 +222,20 @@ export const SPADES_TEAM_REQUIREMENTS = {
 
 export const SPADES_TOTAL_PLAYERS =
     SPADES_TEAM_REQUIREMENTS.numTeams * SPADES_TEAM_REQUIREMENTS.playersPerTeam;
+
+/**
+ * Cutthroat is played individually by 3 to 5 players.
+ */
+export const SPADES_CUTTHROAT_MIN_PLAYERS = 3;
+export const SPADES_CUTTHROAT_MAX_PLAYERS = 5;
+
+/**
+ * Every deal uses the whole deck (jokers replace 2♣ and 2♦).
+ * Hands are 52 / players, after removing the cards that don't divide evenly.
+ */
+export const SPADES_DECK_SIZE = 52;
+
+/**
+ * Combined bid partners must reach with the four-bid minimum rule.
+ */
+export const SPADES_TEAM_BID_MINIMUM = 4;
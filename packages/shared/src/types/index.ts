@@ -9,6 +9,7 @@ export * from "./user";
 export * from "./room";
 export * from "./settings";
 export * from "./lobby";
+export * from "./socket";
 
 // ============================================================================
 // Game Types
@@ -9,6 +9,11 @@ import {
     BaseGameSettings,
     SpadesSettings,
     DominoesSettings,
+    LRCSettings,
+    HeartsSettings,
+    BidWhistSettings,
+    EuchreSettings,
+    CrazyEightsSettings,
     SettingDefinition,
 } from "./settings";
 
@@ -19,6 +24,11 @@ import {
 // Re-export lobby-specific settings with alternate names for backwards compatibility
 export type LobbySpadesSettings = SpadesSettings;
 export type LobbyDominoesSettings = DominoesSettings;
+export type LobbyLRCSettings = LRCSettings;
+export type LobbyHeartsSettings = HeartsSettings;
+export type LobbyBidWhistSettings = BidWhistSettings;
+export type LobbyEuchreSettings = EuchreSettings;
+export type LobbyCrazyEightsSettings = CrazyEightsSettings;
 
 // ============================================================================
 // Game Settings Type System (Client-Side)
@@ -31,6 +41,11 @@ export type LobbyDominoesSettings = DominoesSettings;
 export type TypedGameSettings =
     | { gameType: "spades"; settings: Partial<SpadesSettings> }
     | { gameType: "dominoes"; settings: Partial<DominoesSettings> }
+    | { gameType: "lrc"; settings: Partial<LRCSettings> }
+    | { gameType: "hearts"; settings: Partial<HeartsSettings> }
+    | { gameType: "bidwhist"; settings: Partial<BidWhistSettings> }
+    | { gameType: "euchre"; settings: Partial<EuchreSettings> }
+    | { gameType: "crazyeights"; settings: Partial<CrazyEightsSettings> }
     | { gameType: null; settings: Record<string, never> }; // No game selected
 
 /**
@@ -53,6 +68,56 @@ export function isDominoesSettings(
     return gameType === "dominoes";
 }
 
+/**
+ * Type guard for LRC settings.
+ */
+export function isLRCSettings(
+    settings: PartialGameSettings,
+    gameType: string | null
+): settings is Partial<LRCSettings> {
+    return gameType === "lrc";
+}
+
+/**
+ * Type guard for Hearts settings.
+ */
+export function isHeartsSettings(
+    settings: PartialGameSettings,
+    gameType: string | null
+): settings is Partial<HeartsSettings> {
+    return gameType === "hearts";
+}
+
+/**
+ * Type guard for Bid Whist settings.
+ */
+export function isBidWhistSettings(
+    settings: PartialGameSettings,
+    gameType: string | null
+): settings is Partial<BidWhistSettings> {
+    return gameType === "bidwhist";
+}
+
+/**
+ * Type guard for Euchre settings.
+ */
+export function isEuchreSettings(
+    settings: PartialGameSettings,
+    gameType: string | null
+): settings is Partial<EuchreSettings> {
+    return gameType === "euchre";
+}
+
+/**
+ * Type guard for Crazy Eights settings.
+ */
+export function isCrazyEightsSettings(
+    settings: PartialGameSettings,
+    gameType: string | null
+): settings is Partial<CrazyEightsSettings> {
+    return gameType === "crazyeights";
+}
+
 /**
  * Convert PartialGameSettings to TypedGameSettings for type-safe operations.
  */
@@ -70,6 +135,31 @@ export function toTypedSettings(
             gameType: "dominoes",
             settings: settings as Partial<DominoesSettings>,
         };
+    } else if (gameType === "lrc") {
+        return {
+            gameType: "lrc",
+            settings: settings as Partial<LRCSettings>,
+        };
+    } else if (gameType === "hearts") {
+        return {
+            gameType: "hearts",
+            settings: settings as Partial<HeartsSettings>,
+        };
+    } else if (gameType === "bidwhist") {
+        return {
+            gameType: "bidwhist",
+            settings: settings as Partial<BidWhistSettings>,
+        };
+    } else if (gameType === "euchre") {
+        return {
+            gameType: "euchre",
+            settings: settings as Partial<EuchreSettings>,
+        };
+    } else if (gameType === "crazyeights") {
+        return {
+            gameType: "crazyeights",
+            settings: settings as Partial<CrazyEightsSettings>,
+        };
     }
     return { gameType: null, settings: {} };
 }
@@ -121,6 +211,7 @@ export type BaseRoomEvent = {
  */
 export type RoomEventPayload =
     | (BaseRoomEvent & { event: "sync" })
+    | (BaseRoomEvent & { event: "room_created" })
     | (BaseRoomEvent & {
           event: "user_joined";
           userName: string;
@@ -172,6 +263,15 @@ export type RoomEventPayload =
           userId: string;
           userName?: string;
       })
+    | (BaseRoomEvent & {
+          event: "user_ready_state_changed";
+          userId: string;
+          ready: boolean;
+      })
+    | (BaseRoomEvent & {
+          event: "game_selected";
+          gameType: string;
+      })
     | (BaseRoomEvent & {
           event: "room_settings_updated";
           settings: RoomSettings;
@@ -194,4 +294,14 @@ export type RoomEventPayload =
     | (BaseRoomEvent & {
           event: "teams_set";
           teams: string[][];
+      })
+    | (BaseRoomEvent & {
+          event: "bot_added";
+          userId: string;
+          userName: string;
+      })
+    | (BaseRoomEvent & {
+          event: "bot_removed";
+          userId: string;
+          userName: string;
       });
@@ -31,11 +31,22 @@ export interface BaseGameSettings {
 // Spades Settings
 // ============================================================================
 
+export type SpadesGameMode = "partnership" | "cutthroat";
+
+export type SpadesBostonRule = "off" | "bonus" | "win";
+
 export interface SpadesSettings extends BaseGameSettings {
+    gameMode: SpadesGameMode; // 2v2 partners or every player for themselves
     allowNil: boolean; // Standard nil bids allowed
     blindNilEnabled: boolean; // Blind nil (available when 100+ behind)
     blindBidEnabled: boolean; // Blind bids (available when 100+ behind)
-    bagsPenalty: number; // Points deducted per 10 bags
+    bagsPenalty: number; // Points deducted each time bags reach the threshold
+    bagsThreshold: number; // Bags that trigger the penalty
+    nilValue: number; // Points won/lost on nil (blind nil is double)
+    tenForTwoHundred: boolean; // Made bids of 10+ score double
+    bostonRule: SpadesBostonRule; // Taking every trick: nothing, a bonus or the game
+    minimumTeamBid: number | null; // Teams are scored as bidding at least this (null = off)
+    fourBidMinimum: boolean; // A team's bids must add up to 4 or more
     jokersEnabled: boolean; // Include Big/Little Joker in deck
     deuceOfSpadesHigh: boolean; // 2♠ ranks above A♠
 }
@@ -44,10 +55,17 @@ export const DEFAULT_SPADES_SETTINGS: SpadesSettings = {
     winTarget: 500,
     roundLimit: null,
     turnTimeLimit: null,
+    gameMode: "partnership",
     allowNil: false,
     blindNilEnabled: false,
     blindBidEnabled: true,
     bagsPenalty: -100,
+    bagsThreshold: 10,
+    nilValue: 100,
+    tenForTwoHundred: false,
+    bostonRule: "off",
+    minimumTeamBid: null,
+    fourBidMinimum: false,
     jokersEnabled: false,
     deuceOfSpadesHigh: false,
 };
@@ -58,9 +76,23 @@ export const DEFAULT_SPADES_SETTINGS: SpadesSettings = {
 
 export type DominoesGameMode = "individual" | "team";
 
+/**
+ * Block scores pips at round end only; All Fives (Muggins) also scores
+ * the open ends whenever they add up to a multiple of five.
+ */
+export type DominoesScoringMode = "block" | "allFives";
+
+/**
+ * Highest double in the set: double-six (28 tiles), double-nine (55)
+ * or double-twelve (91).
+ */
+export type DominoesSetSize = 6 | 9 | 12;
+
 export interface DominoesSettings extends BaseGameSettings {
     gameMode: DominoesGameMode; // Play mode (individual or team)
     drawFromBoneyard: boolean; // Allow drawing vs passing
+    scoringMode: DominoesScoringMode; // When points are scored
+    setSize: DominoesSetSize; // Highest double in the set
 }
 
 export const DEFAULT_DOMINOES_SETTINGS: DominoesSettings = {
@@ -69,10 +101,12 @@ export const DEFAULT_DOMINOES_SETTINGS: DominoesSettings = {
     turnTimeLimit: null,
     gameMode: "individual",
     drawFromBoneyard: false,
+    scoringMode: "block",
+    setSize: 6,
 };
 
 // ============================================================================
-// LRC Settings (placeholder for future)
+// LRC Settings
 // ============================================================================
 
 export interface LRCSettings extends BaseGameSettings {
@@ -88,16 +122,102 @@ export const DEFAULT_LRC_SETTINGS: LRCSettings = {
     chipValue: 0.25,
 };
 
+// ============================================================================
+// Hearts Settings
+// ============================================================================
+
+/**
+ * Taking every heart and the Q♠ in a round: either everyone else takes
+ * 26 points, or the shooter takes 26 off their own score.
+ */
+export type HeartsMoonRule = "addToOthers" | "subtractFromSelf";
+
+export interface HeartsSettings extends BaseGameSettings {
+    shootTheMoon: HeartsMoonRule; // How shooting the moon is scored
+}
+
+export const DEFAULT_HEARTS_SETTINGS: HeartsSettings = {
+    winTarget: 100, // Point limit - the game ends once a player reaches it
+    roundLimit: null,
+    turnTimeLimit: null,
+    shootTheMoon: "addToOthers",
+};
+
+// ============================================================================
+// Bid Whist Settings
+// ============================================================================
+
+export interface BidWhistSettings extends BaseGameSettings {
+    minimumBid: number; // Lowest opening bid in books over six
+    noTrumpDoubles: boolean; // No-trump bids score (and cost) double
+}
+
+export const DEFAULT_BID_WHIST_SETTINGS: BidWhistSettings = {
+    winTarget: 7, // First team to 7 wins; a team at -7 loses
+    roundLimit: null,
+    turnTimeLimit: null,
+    minimumBid: 3,
+    noTrumpDoubles: true,
+};
+
+// ============================================================================
+// Euchre Settings
+// ============================================================================
+
+export interface EuchreSettings extends BaseGameSettings {
+    stickTheDealer: boolean; // The dealer must call trump if everyone passes twice
+}
+
+export const DEFAULT_EUCHRE_SETTINGS: EuchreSettings = {
+    winTarget: 10, // First team to 10 wins
+    roundLimit: null,
+    turnTimeLimit: null,
+    stickTheDealer: false,
+};
+
+// ============================================================================
+// Crazy Eights Settings
+// ============================================================================
+
+export interface CrazyEightsSettings extends BaseGameSettings {
+    drawTwos: boolean; // 2s make the next player draw two and miss their turn
+    skips: boolean; // Queens skip the next player
+    reverses: boolean; // Aces reverse the direction of play
+}
+
+export const DEFAULT_CRAZY_EIGHTS_SETTINGS: CrazyEightsSettings = {
+    winTarget: 100, // First player to 100 wins
+    roundLimit: null,
+    turnTimeLimit: null,
+    drawTwos: false,
+    skips: false,
+    reverses: false,
+};
+
 // ============================================================================
 // Union Type
 // ============================================================================
 
-export type GameSettings = SpadesSettings | DominoesSettings | LRCSettings;
+export type GameSettings =
+    | SpadesSettings
+    | DominoesSettings
+    | LRCSettings
+    | HeartsSettings
+    | BidWhistSettings
+    | EuchreSettings
+    | CrazyEightsSettings;
 
 // For partial updates (all properties optional)
-export type PartialGameSettings = Partial<SpadesSettings> &
-    Partial<DominoesSettings> &
-    Partial<LRCSettings>;
+// gameMode is shared by name only - each game reads its own modes
+export type PartialGameSettings = Partial<Omit<SpadesSettings, "gameMode">> &
+    Partial<Omit<DominoesSettings, "gameMode">> &
+    Partial<LRCSettings> &
+    Partial<HeartsSettings> &
+    Partial<BidWhistSettings> &
+    Partial<EuchreSettings> &
+    Partial<CrazyEightsSettings> & {
+        gameMode?: SpadesGameMode | DominoesGameMode;
+    };
 
 // ============================================================================
 // Setting Definition (for dynamic UI generation)
@@ -154,7 +274,8 @@ export const SPADES_SETTINGS_DEFINITIONS: SettingDefinition[] = [
     {
         key: "winTarget",
         label: "Win Target",
-        description: "First team to reach this score wins the game.",
+        description:
+            "First team (or player) to reach this score wins the game.",
         type: "number",
         default: 500,
         category: "scoring",
@@ -167,7 +288,7 @@ export const SPADES_SETTINGS_DEFINITIONS: SettingDefinition[] = [
         key: "bagsPenalty",
         label: "Bags Penalty",
         description:
-            "Points deducted when a team accumulates 10 overtricks (bags). Set to 0 to disable.",
+            "Points deducted each time a team accumulates the bag threshold in overtricks (bags). Set to 0 to disable.",
         type: "number",
         default: -100,
         category: "scoring",
@@ -176,12 +297,88 @@ export const SPADES_SETTINGS_DEFINITIONS: SettingDefinition[] = [
         step: 10,
         suffix: "points",
     },
+    {
+        key: "bagsThreshold",
+        label: "Bag Threshold",
+        description:
+            "Number of accumulated bags that triggers the bags penalty. Leftover bags carry over.",
+        type: "number",
+        default: 10,
+        category: "scoring",
+        min: 5,
+        max: 15,
+        step: 1,
+        suffix: "bags",
+    },
+    {
+        key: "nilValue",
+        label: "Nil Value",
+        description:
+            "Points won for making nil, and lost for failing it. Blind nil is worth double.",
+        type: "number",
+        default: 100,
+        category: "scoring",
+        min: 50,
+        max: 200,
+        step: 25,
+        suffix: "points",
+        dependsOn: { key: "allowNil", value: true },
+    },
+    {
+        key: "tenForTwoHundred",
+        label: "10 for 200",
+        description:
+            "A team that bids 10 or more and makes it scores double (10 tricks for 200 points).",
+        type: "boolean",
+        default: false,
+        category: "scoring",
+    },
+    {
+        key: "bostonRule",
+        label: "Boston",
+        description:
+            "What a team earns for taking every trick in a round: nothing extra, a 200 point bonus, or the game.",
+        type: "select",
+        default: "off",
+        category: "scoring",
+        options: [
+            { value: "off", label: "Off" },
+            { value: "bonus", label: "+200 bonus" },
+            { value: "win", label: "Instant win" },
+        ],
+    },
+    {
+        key: "minimumTeamBid",
+        label: "Minimum Team Bid",
+        description:
+            "Partnerships that bid fewer tricks are scored as if they bid this many. Nil bids don't count toward it.",
+        type: "nullableNumber",
+        default: null,
+        category: "scoring",
+        min: 2,
+        max: 6,
+        step: 1,
+        suffix: "tricks",
+    },
     // Rules category
+    {
+        key: "gameMode",
+        label: "Game Mode",
+        description:
+            "Play in partnerships or cutthroat, where each player bids and scores alone. Cutthroat deals 3 to 5 players evenly, removing low cards as needed.",
+        type: "select",
+        default: "partnership",
+        category: "rules",
+        options: [
+            { value: "partnership", label: "Partners (2v2)" },
+            { value: "cutthroat", label: "Cutthroat (3-5 players)" },
+        ],
+    },
     {
         key: "allowNil",
         label: "Allow Nil Bids",
         description:
-            "Players can bid nil (0 tricks). Making nil earns +100 points, failing costs -100 points.",
+            "Players can bid nil (0 tricks). Making nil earns the nil value (100 points by default), failing costs the same.",
         type: "boolean",
         default: false,
         category: "rules",
@@ -190,7 +387,7 @@ export const SPADES_SETTINGS_DEFINITIONS: SettingDefinition[] = [
         key: "blindNilEnabled",
         label: "Allow Blind Nil",
         description:
-            "Players can bid blind nil before seeing their cards. Worth +200 if made, -200 if failed. Only available when team is 100+ points behind.",
+            "Players can bid blind nil before seeing their cards. Worth double the nil value, won or lost. Only available when team is 100+ points behind.",
         type: "boolean",
         default: false,
         category: "rules",
@@ -205,6 +402,15 @@ export const SPADES_SETTINGS_DEFINITIONS: SettingDefinition[] = [
         default: true,
         category: "rules",
     },
+    {
+        key: "fourBidMinimum",
+        label: "Bid at Least 4",
+        description:
+            "Partners must bid at least 4 tricks combined. The last partner to bid has to make up the difference, unless they bid nil.",
+        type: "boolean",
+        default: false,
+        category: "rules",
+    },
     // Advanced category
     {
         key: "jokersEnabled",
@@ -271,6 +477,19 @@ export const DOMINOES_SETTINGS_DEFINITIONS: SettingDefinition[] = [
         step: 25,
         suffix: "points",
     },
+    {
+        key: "scoringMode",
+        label: "Scoring",
+        description:
+            "Block scores the pips left in opponents' hands at the end of each round. All Fives also scores the open ends whenever they add up to a multiple of five, and the first double becomes a spinner open on all four sides.",
+        type: "select",
+        default: "block",
+        category: "scoring",
+        options: [
+            { value: "block", label: "Block" },
+            { value: "allFives", label: "All Fives (Muggins)" },
+        ],
+    },
     // Rules category
     {
         key: "gameMode",
@@ -280,15 +499,28 @@ export const DOMINOES_SETTINGS_DEFINITIONS: SettingDefinition[] = [
         default: "individual",
         category: "rules",
         options: [
-            { value: "individual", label: "Individual (4 players)" },
+            { value: "individual", label: "Individual (2-8 players)" },
             { value: "team", label: "Partners (2v2)" },
         ],
     },
+    {
+        key: "setSize",
+        label: "Domino Set",
+        description:
+            "Highest double in the set. Double-six suits 2-4 players; double-nine and double-twelve seat up to 8, with smaller hands as more players join.",
+        type: "number",
+        default: 6,
+        category: "rules",
+        min: 6,
+        max: 12,
+        step: 3,
+        suffix: "pips",
+    },
     {
         key: "drawFromBoneyard",
         label: "Draw from Boneyard",
         description:
-            "When enabled, players can draw tiles from the boneyard instead of passing. Caribbean block dominoes traditionally has this disabled.",
+            "When enabled, players must draw from the boneyard when they cannot play (double-six hands start at 5 tiles). Caribbean block dominoes traditionally has this disabled.",
         type: "boolean",
         default: false,
         category: "rules",
@@ -311,7 +543,7 @@ export const DOMINOES_SETTINGS_DEFINITIONS: SettingDefinition[] = [
         key: "turnTimeLimit",
         label: "Turn Time Limit",
         description:
-            "Maximum seconds allowed per turn. Player auto-passes if time expires.",
+            "Maximum seconds allowed per turn. A legal tile is played automatically (or the player draws/passes) if time expires.",
         type: "nullableNumber",
         default: null,
         category: "general",
@@ -323,7 +555,7 @@ export const DOMINOES_SETTINGS_DEFINITIONS: SettingDefinition[] = [
 ];
 
 // ============================================================================
-// LRC Settings Definitions (placeholder)
+// LRC Settings Definitions
 // ============================================================================
 
 export const LRC_SETTINGS_DEFINITIONS: SettingDefinition[] = [
@@ -352,3 +584,267 @@ export const LRC_SETTINGS_DEFINITIONS: SettingDefinition[] = [
         suffix: "$",
     },
 ];
+
+// ============================================================================
+// Hearts Settings Definitions
+// ============================================================================
+
+export const HEARTS_SETTINGS_DEFINITIONS: SettingDefinition[] = [
+    // Scoring category
+    {
+        key: "winTarget",
+        label: "Point Limit",
+        description:
+            "The game ends when a player reaches this many points. Lowest score wins.",
+        type: "number",
+        default: 100,
+        category: "scoring",
+        min: 50,
+        max: 200,
+        step: 25,
+        suffix: "points",
+    },
+    {
+        key: "shootTheMoon",
+        label: "Shooting the Moon",
+        description:
+            "Taking every heart and the Q♠ in a round either gives every other player 26 points, or takes 26 points off the shooter's score.",
+        type: "select",
+        default: "addToOthers",
+        category: "scoring",
+        options: [
+            { value: "addToOthers", label: "+26 to everyone else" },
+            { value: "subtractFromSelf", label: "-26 for the shooter" },
+        ],
+    },
+    // General category
+    {
+        key: "roundLimit",
+        label: "Round Limit",
+        description:
+            "End the game after a fixed number of rounds. Lowest score wins.",
+        type: "nullableNumber",
+        default: null,
+        category: "general",
+        min: 1,
+        max: 20,
+        step: 1,
+        suffix: "rounds",
+    },
+    {
+        key: "turnTimeLimit",
+        label: "Turn Time Limit",
+        description:
+            "Maximum seconds allowed per turn. Cards are passed or played automatically if time expires.",
+        type: "nullableNumber",
+        default: null,
+        category: "general",
+        min: 5,
+        max: 120,
+        step: 5,
+        suffix: "seconds",
+    },
+];
+
+// ============================================================================
+// Bid Whist Settings Definitions
+// ============================================================================
+
+export const BID_WHIST_SETTINGS_DEFINITIONS: SettingDefinition[] = [
+    // Scoring category
+    {
+        key: "winTarget",
+        label: "Win Target",
+        description:
+            "First team to reach this score wins. A team that falls this far below zero loses.",
+        type: "number",
+        default: 7,
+        category: "scoring",
+        min: 5,
+        max: 21,
+        step: 1,
+        suffix: "points",
+    },
+    {
+        key: "noTrumpDoubles",
+        label: "No-Trump Doubles",
+        description:
+            "No-trump bids score double when made, and cost double when set.",
+        type: "boolean",
+        default: true,
+        category: "scoring",
+    },
+    // Rules category
+    {
+        key: "minimumBid",
+        label: "Minimum Bid",
+        description:
+            "Lowest opening bid, in books over six. If everyone else passes, the dealer must bid at least this.",
+        type: "number",
+        default: 3,
+        category: "rules",
+        min: 1,
+        max: 5,
+        step: 1,
+        suffix: "books",
+    },
+    // General category
+    {
+        key: "roundLimit",
+        label: "Round Limit",
+        description:
+            "End the game after a fixed number of rounds. Highest score wins.",
+        type: "nullableNumber",
+        default: null,
+        category: "general",
+        min: 1,
+        max: 30,
+        step: 1,
+        suffix: "rounds",
+    },
+    {
+        key: "turnTimeLimit",
+        label: "Turn Time Limit",
+        description:
+            "Maximum seconds allowed per turn. Bids, discards, trump and cards are chosen automatically if time expires.",
+        type: "nullableNumber",
+        default: null,
+        category: "general",
+        min: 5,
+        max: 120,
+        step: 5,
+        suffix: "seconds",
+    },
+];
+
+// ============================================================================
+// Euchre Settings Definitions
+// ============================================================================
+
+export const EUCHRE_SETTINGS_DEFINITIONS: SettingDefinition[] = [
+    // Scoring category
+    {
+        key: "winTarget",
+        label: "Win Target",
+        description: "First team to reach this score wins the game.",
+        type: "number",
+        default: 10,
+        category: "scoring",
+        min: 5,
+        max: 15,
+        step: 1,
+        suffix: "points",
+    },
+    // Rules category
+    {
+        key: "stickTheDealer",
+        label: "Stick the Dealer",
+        description:
+            "If everyone passes twice, the dealer must name trump. Otherwise the hand is thrown in and the deal passes to the left.",
+        type: "boolean",
+        default: false,
+        category: "rules",
+    },
+    // General category
+    {
+        key: "roundLimit",
+        label: "Round Limit",
+        description:
+            "End the game after a fixed number of rounds. Highest score wins.",
+        type: "nullableNumber",
+        default: null,
+        category: "general",
+        min: 1,
+        max: 30,
+        step: 1,
+        suffix: "rounds",
+    },
+    {
+        key: "turnTimeLimit",
+        label: "Turn Time Limit",
+        description:
+            "Maximum seconds allowed per turn. Trump calls, discards and cards are chosen automatically if time expires.",
+        type: "nullableNumber",
+        default: null,
+        category: "general",
+        min: 5,
+        max: 120,
+        step: 5,
+        suffix: "seconds",
+    },
+];
+
+// ============================================================================
+// Crazy Eights Settings Definitions
+// ============================================================================
+
+export const CRAZY_EIGHTS_SETTINGS_DEFINITIONS: SettingDefinition[] = [
+    // Scoring category
+    {
+        key: "winTarget",
+        label: "Win Target",
+        description:
+            "First player to reach this score wins. Going out scores the cards left in everyone else's hands.",
+        type: "number",
+        default: 100,
+        category: "scoring",
+        min: 50,
+        max: 500,
+        step: 50,
+        suffix: "points",
+    },
+    // Rules category
+    {
+        key: "drawTwos",
+        label: "Draw Two",
+        description:
+            "Playing a 2 makes the next player draw two cards and miss their turn.",
+        type: "boolean",
+        default: false,
+        category: "rules",
+    },
+    {
+        key: "skips",
+        label: "Skip",
+        description: "Playing a Queen skips the next player.",
+        type: "boolean",
+        default: false,
+        category: "rules",
+    },
+    {
+        key: "reverses",
+        label: "Reverse",
+        description:
+            "Playing an Ace reverses the direction of play. With two players it works like a skip.",
+        type: "boolean",
+        default: false,
+        category: "rules",
+    },
+    // General category
+    {
+        key: "roundLimit",
+        label: "Round Limit",
+        description:
+            "End the game after a fixed number of rounds. Highest score wins.",
+        type: "nullableNumber",
+        default: null,
+        category: "general",
+        min: 1,
+        max: 20,
+        step: 1,
+        suffix: "rounds",
+    },
+    {
+        key: "turnTimeLimit",
+        label: "Turn Time Limit",
+        description:
+            "Maximum seconds allowed per turn. A card is played automatically (or the player draws/passes) if time expires.",
+        type: "nullableNumber",
+        default: null,
+        category: "general",
+        min: 5,
+        max: 120,
+        step: 5,
+        suffix: "seconds",
+    },
+];
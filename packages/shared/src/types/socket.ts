@@ -0,0 +1,200 @@
+// packages/shared/src/types/socket.ts
+// Socket.IO event contracts shared between client and API
+
+import type {
+    AddBotPayload,
+    ClaimPlayerSlotPayload,
+    ClockSyncPayload,
+    GameActionPayload,
+    KickUserPayload,
+    PromoteLeaderPayload,
+    RemoveBotPayload,
+    RequestJoinPayload,
+    RespondJoinRequestPayload,
+    RoomPayload,
+    SelectGamePayload,
+    SetTeamsPayload,
+    SpectateGamePayload,
+    StartGamePayload,
+    UpdateGameSettingsPayload,
+    UpdateRoomSettingsPayload,
+} from "../validation/schemas/socket";
+import type { ValidationError } from "../validation/room";
+import { GameData, GameEventPayload, PlayerData } from "./games";
+import { LobbyData, RoomEventPayload } from "./lobby";
+
+// ============================================================================
+// Server-to-Client Payloads
+// ============================================================================
+
+/**
+ * Error sent on the "error" event.
+ * Malformed payloads carry code INVALID_PAYLOAD and per-field errors.
+ */
+export interface SocketErrorPayload {
+    error: string;
+    code?: string;
+    errors?: ValidationError[];
+}
+
+/**
+ * Reply to clock_sync, used to estimate the server clock offset.
+ */
+export interface ClockSyncResponsePayload {
+    clientTime: number;
+    serverTime: number;
+}
+
+/**
+ * Sent when join_room replaced an older connection for the same user.
+ */
+export interface AlreadyJoinedPayload {
+    roomId: string;
+    userId: string;
+}
+
+/**
+ * Why an action was acknowledged without being applied normally:
+ * - duplicate: the actionId was already handled; its original outcome is repeated
+ * - stale: another player's action changed the game after expectedVersion
+ * - rejected: the game refused the action (not your turn, invalid move, ...)
+ */
+export type ActionAckReason = "duplicate" | "stale" | "rejected";
+
+/**
+ * Acknowledgement for a game_action that carried an actionId.
+ */
+export interface ActionAckPayload {
+    actionId: string;
+    success: boolean;
+    error?: string;
+    reason?: ActionAckReason;
+}
+
+/**
+ * Sent to the room when a player's turn timer ran out.
+ */
+export interface TurnTimeoutPayload {
+    playerId: string;
+    playerName: string;
+    actionType: string; // Type of the auto-dispatched action (e.g. "PLACE_BID")
+    gameId: string;
+    timestamp: string;
+}
+
+/**
+ * Initial (neutral) game view sent to a new spectator.
+ */
+export interface SpectatorStatePayload {
+    gameState: GameData;
+    room: LobbyData;
+    isSpectator: true;
+}
+
+/**
+ * A disconnected player's seat that a spectator can claim.
+ */
+export interface AvailableSlot {
+    userId: string;
+    userName: string;
+    teamIndex?: number;
+}
+
+/**
+ * Join request forwarded to a private room (shown to the leader).
+ */
+export interface JoinRequestPayload {
+    requesterId: string;
+    requesterName: string;
+    roomCode: string;
+    timestamp: string;
+}
+
+/**
+ * Result of sending a join request over the socket.
+ */
+export interface JoinRequestSentPayload {
+    success: boolean;
+    message?: string;
+    error?: string;
+}
+
+/**
+ * The leader's answer to a join request (broadcast, filtered by requesterId).
+ */
+export interface JoinRequestResponsePayload {
+    requesterId: string;
+    accepted: boolean;
+    roomCode?: string;
+    roomId?: string;
+    message?: string;
+}
+
+// ============================================================================
+// Event Maps
+// ============================================================================
+
+/**
+ * Events the client emits. Every payload is validated on the server
+ * against its schema in ClientEventSchemas.
+ */
+export interface ClientToServerEvents {
+    clock_sync: (payload: ClockSyncPayload) => void;
+    join_room: (payload: RoomPayload) => void;
+    get_game_state: (payload: RoomPayload) => void;
+    get_player_state: (payload: RoomPayload) => void;
+    toggle_ready: (payload: RoomPayload) => void;
+    promote_leader: (payload: PromoteLeaderPayload) => void;
+    select_game: (payload: SelectGamePayload) => void;
+    kick_user: (payload: KickUserPayload) => void;
+    set_teams: (payload: SetTeamsPayload) => void;
+    randomize_teams: (payload: RoomPayload) => void;
+    add_bot: (payload: AddBotPayload) => void;
+    remove_bot: (payload: RemoveBotPayload) => void;
+    update_room_settings: (payload: UpdateRoomSettingsPayload) => void;
+    update_game_settings: (payload: UpdateGameSettingsPayload) => void;
+    start_game: (payload: StartGamePayload) => void;
+    game_action: (payload: GameActionPayload) => void;
+    close_room: (payload: RoomPayload) => void;
+    leave_game: (payload: RoomPayload) => void;
+    abort_game: (payload: RoomPayload) => void;
+    spectate_game: (payload: SpectateGamePayload) => void;
+    return_to_lobby: (payload: RoomPayload) => void;
+    claim_player_slot: (payload: ClaimPlayerSlotPayload) => void;
+    get_available_slots: (payload: RoomPayload) => void;
+    request_join: (payload: RequestJoinPayload) => void;
+    respond_join_request: (payload: RespondJoinRequestPayload) => void;
+}
+
+/**
+ * Events the server emits.
+ */
+export interface ServerToClientEvents {
+    error: (payload: SocketErrorPayload) => void;
+    clock_sync_response: (payload: ClockSyncResponsePayload) => void;
+    already_joined: (payload: AlreadyJoinedPayload) => void;
+    room_event: (payload: RoomEventPayload) => void;
+    game_event: (payload: GameEventPayload<GameData, PlayerData>) => void;
+    action_ack: (payload: ActionAckPayload) => void;
+    turn_timeout: (payload: TurnTimeoutPayload) => void;
+    spectator_state: (payload: SpectatorStatePayload) => void;
+    available_slots: (payload: { slots: AvailableSlot[] }) => void;
+    join_request: (payload: JoinRequestPayload) => void;
+    join_request_sent: (payload: JoinRequestSentPayload) => void;
+    join_request_response: (payload: JoinRequestResponsePayload) => void;
+}
+
+/**
+ * Events between server instances (none - single node).
+ */
+export type InterServerEvents = Record<string, never>;
+
+/**
+ * Per-connection data the server keeps on each socket.
+ */
+export interface SocketData {
+    /** Bound from the session token during the handshake */
+    userId?: string;
+    /** Last public game state delivered to this socket (patch base) */
+    syncedGame?: GameData;
+}
@@ -9,8 +9,15 @@ export interface User {
     id: string;
     name: string;
     isConnected?: boolean; // Track connection status for rejoin logic
+    isBot?: boolean; // Computer-controlled player (no socket, always connected)
+    botDifficulty?: BotDifficulty; // Only set for bots
 }
 
+/**
+ * How strong a computer-controlled player plays.
+ */
+export type BotDifficulty = "easy" | "hard";
+
 /**
  * Metadata describing a game type's capabilities and requirements.
  * Used for game registration and lobby display.
@@ -37,4 +44,6 @@ export interface CreateAndJoinRoomResponse {
     roomId: string;
     userId: string;
     roomCode: string;
+    /** Signed token binding this client to userId (REST auth header and socket handshake) */
+    sessionToken: string;
 }
@@ -0,0 +1,326 @@
+// packages/shared/src/utils/deal.ts
+// Decks and deals for every game. The API deals with these and the client
+// rebuilds a round's deal from its revealed seed, so both must agree.
+
+import {
+    Card,
+    Rank,
+    Suit,
+    STANDARD_RANK_ORDER,
+    STANDARD_SUITS,
+    TrickCard,
+} from "../types/games/cards";
+import {
+    Tile,
+    DOMINOES_DRAW_HAND_SIZE,
+    DOMINOES_HAND_SIZE,
+} from "../types/games/dominoes";
+import { BID_WHIST_HAND_SIZE } from "../types/games/bidwhist";
+import { EUCHRE_HAND_SIZE, EUCHRE_RANKS } from "../types/games/euchre";
+import { CRAZY_EIGHTS_HAND_SIZE } from "../types/games/crazyeights";
+import { DominoesSetSize } from "../types/settings";
+import { shuffle } from "./shuffle";
+
+export interface DeckOptions {
+    /** Ranks dealt in every suit (2 through Ace by default) */
+    ranks?: Rank[];
+    /** Cards taken out of the deck */
+    without?: Card[];
+    /** Cards added to the deck, e.g. jokers */
+    extras?: Card[];
+}
+
+export interface DealOptions {
+    /** Cards per hand - the rest stay undealt (kitty, stock, ...) */
+    handSize?: number;
+    /**
+     * When dealing the whole deck, cards taken out (in this order) so
+     * every hand is the same size
+     */
+    removalOrder?: Card[];
+}
+
+export interface CardDeal {
+    hands: Record<string, Card[]>;
+    undealt: Card[];
+}
+
+export interface TileDeal {
+    hands: Record<string, Tile[]>;
+    boneyard: Tile[];
+}
+
+// ============================================================================
+// Generic Dealing
+// ============================================================================
+
+export function isSameCard(a: TrickCard, b: TrickCard): boolean {
+    return a.suit === b.suit && a.rank === b.rank;
+}
+
+/**
+ * Build a deck: every rank in every suit, less any removed cards,
+ * plus any extras.
+ */
+export function buildDeck(options: DeckOptions = {}): Card[] {
+    const { ranks = STANDARD_RANK_ORDER, without = [], extras = [] } = options;
+    const cards = STANDARD_SUITS.flatMap((suit) =>
+        ranks.map((rank) => ({ suit, rank }))
+    ).filter((card) => !without.some((c) => isSameCard(c, card)));
+    return [...cards, ...extras];
+}
+
+/**
+ * Deal round-robin. Without a hand size the whole deck is dealt, after
+ * taking out the cards that don't divide evenly.
+ */
+export function dealCards(
+    deck: Card[],
+    playerIds: string[],
+    options: DealOptions = {}
+): CardDeal {
+    if (playerIds.length === 0) throw new Error("No players to deal to.");
+
+    const { handSize, removalOrder = [] } = options;
+    let cards = deck;
+    let undealt: Card[] = [];
+
+    if (handSize === undefined) {
+        const removed = removalOrder
+            .filter((card) => deck.some((c) => isSameCard(c, card)))
+            .slice(0, deck.length % playerIds.length);
+        cards = deck.filter(
+            (card) => !removed.some((c) => isSameCard(c, card))
+        );
+        undealt = removed;
+    } else {
+        const dealCount = handSize * playerIds.length;
+        if (dealCount > deck.length) {
+            throw new Error("Not enough cards to deal.");
+        }
+        cards = deck.slice(0, dealCount);
+        undealt = deck.slice(dealCount);
+    }
+
+    const hands: Record<string, Card[]> = Object.fromEntries(
+        playerIds.map((id) => [id, []])
+    );
+    cards.forEach((card, idx) => {
+        hands[playerIds[idx % playerIds.length]].push(card);
+    });
+
+    return { hands, undealt };
+}
+
+/**
+ * Draw the first dealer's seat. Games that do this draw it from the
+ * first round's seed, before shuffling.
+ */
+export function drawFirstDealer(
+    playerCount: number,
+    rng: () => number
+): number {
+    return Math.floor(rng() * playerCount);
+}
+
+// ============================================================================
+// Game Decks and Deals
+// ============================================================================
+
+// Spades: jokers replace 2♣ and 2♦
+const SPADES_JOKER_REPLACED_CARDS: Card[] = [
+    { rank: Rank.Two, suit: Suit.Clubs },
+    { rank: Rank.Two, suit: Suit.Diamonds },
+];
+
+// Spades: cards taken out when the deck doesn't divide evenly, in order
+const SPADES_REMOVAL_ORDER: Card[] = STANDARD_RANK_ORDER.flatMap((rank) =>
+    [Suit.Diamonds, Suit.Clubs, Suit.Hearts].map((suit) => ({ rank, suit }))
+);
+
+// Bid Whist: the jokers are printed as spades
+const BID_WHIST_JOKERS: Card[] = [
+    { rank: Rank.LittleJoker, suit: Suit.Spades },
+    { rank: Rank.BigJoker, suit: Suit.Spades },
+];
+
+/**
+ * Standard 52-card deck. With jokers, 2♣ and 2♦ make way for the
+ * Big and Little Joker, which are treated as the highest-ranking spades
+ * and follow suit rules like any other spade.
+ */
+export function buildSpadesDeck(jokersEnabled: boolean = false): Card[] {
+    if (!jokersEnabled) return buildDeck();
+    return buildDeck({
+        without: SPADES_JOKER_REPLACED_CARDS,
+        extras: [
+            { rank: Rank.LittleJoker, suit: Suit.Spades },
+            { rank: Rank.BigJoker, suit: Suit.Spades },
+        ],
+    });
+}
+
+/**
+ * Shuffle the Spades deck and deal all of it round-robin. Cards that
+ * don't divide evenly (3 or 5 players) are taken out first, lowest
+ * off-suit cards first.
+ */
+export function dealSpadesRound(
+    playOrder: string[],
+    jokersEnabled: boolean,
+    rng: () => number
+): CardDeal {
+    return dealCards(shuffle(buildSpadesDeck(jokersEnabled), rng), playOrder, {
+        removalOrder: SPADES_REMOVAL_ORDER,
+    });
+}
+
+/**
+ * Shuffle a standard 52-card deck and deal all of it, 13 cards each.
+ */
+export function dealHeartsRound(
+    playOrder: string[],
+    rng: () => number
+): CardDeal {
+    return dealCards(shuffle(buildDeck(), rng), playOrder);
+}
+
+/**
+ * Standard 52-card deck plus the Big and Little Joker.
+ */
+export function buildBidWhistDeck(): Card[] {
+    return buildDeck({ extras: BID_WHIST_JOKERS });
+}
+
+/**
+ * Shuffle the 54-card deck and deal 12 cards each. The 6 left over are
+ * the kitty.
+ */
+export function dealBidWhistRound(
+    playOrder: string[],
+    rng: () => number
+): CardDeal {
+    return dealCards(shuffle(buildBidWhistDeck(), rng), playOrder, {
+        handSize: BID_WHIST_HAND_SIZE,
+    });
+}
+
+/**
+ * The 24-card Euchre deck: 9 through Ace in every suit.
+ */
+export function buildEuchreDeck(): Card[] {
+    return buildDeck({ ranks: EUCHRE_RANKS });
+}
+
+/**
+ * Shuffle the deck and deal 5 cards each. The 4 left over are the
+ * upcard (first) and the kitty.
+ */
+export function dealEuchreRound(
+    playOrder: string[],
+    rng: () => number
+): CardDeal {
+    return dealCards(shuffle(buildEuchreDeck(), rng), playOrder, {
+        handSize: EUCHRE_HAND_SIZE,
+    });
+}
+
+/**
+ * Crazy Eights: seven cards each heads-up, five each with more players.
+ */
+export function getCrazyEightsHandSize(playerCount: number): number {
+    return playerCount === 2
+        ? CRAZY_EIGHTS_HAND_SIZE.twoPlayers
+        : CRAZY_EIGHTS_HAND_SIZE.default;
+}
+
+/**
+ * Shuffle a standard 52-card deck and deal the hands. The rest become
+ * the starter card and the draw pile.
+ */
+export function dealCrazyEightsRound(
+    playOrder: string[],
+    rng: () => number
+): CardDeal {
+    return dealCards(shuffle(buildDeck(), rng), playOrder, {
+        handSize: getCrazyEightsHandSize(playOrder.length),
+    });
+}
+
+/**
+ * Generate a domino set up to the given double: double-six (28 tiles),
+ * double-nine (55) or double-twelve (91)
+ * Tiles range from [0,0] to [setSize,setSize]
+ */
+export function buildDominoSet(setSize: DominoesSetSize = 6): Tile[] {
+    const tiles: Tile[] = [];
+    let idCounter = 0;
+
+    for (let left = 0; left <= setSize; left++) {
+        for (let right = left; right <= setSize; right++) {
+            tiles.push({
+                left,
+                right,
+                id: `tile-${idCounter++}`,
+            });
+        }
+    }
+
+    return tiles;
+}
+
+/**
+ * Starting hand size for the set, table size and variant.
+ * Double-six deals 7 (5 in a draw game with 3+ players); the bigger sets
+ * deal smaller hands as more players join, always leaving a boneyard.
+ */
+export function getDominoesHandSize(
+    setSize: DominoesSetSize,
+    playerCount: number,
+    drawFromBoneyard: boolean
+): number {
+    switch (setSize) {
+        case 6:
+            return drawFromBoneyard && playerCount > 2
+                ? DOMINOES_DRAW_HAND_SIZE
+                : DOMINOES_HAND_SIZE;
+        case 9:
+            if (playerCount <= 4) return 10;
+            return playerCount <= 6 ? 8 : 6;
+        case 12:
+            if (playerCount <= 4) return 12;
+            return playerCount <= 6 ? 11 : 9;
+    }
+}
+
+/**
+ * Shuffle the set and deal `handSize` tiles each, round-robin. Anything
+ * left over goes to the boneyard.
+ */
+export function dealDominoesRound(
+    playOrder: string[],
+    setSize: DominoesSetSize,
+    handSize: number,
+    rng: () => number
+): TileDeal {
+    if (playOrder.length === 0) {
+        throw new Error("Dominoes needs players");
+    }
+
+    const tiles = shuffle(buildDominoSet(setSize), rng);
+    const dealCount = handSize * playOrder.length;
+    if (tiles.length < dealCount) {
+        throw new Error(
+            `Not enough tiles to deal to ${playOrder.length} players`
+        );
+    }
+
+    const hands: Record<string, Tile[]> = Object.fromEntries(
+        playOrder.map((id) => [id, []])
+    );
+    tiles.slice(0, dealCount).forEach((tile, idx) => {
+        hands[playOrder[idx % playOrder.length]].push(tile);
+    });
+
+    return { hands, boneyard: tiles.slice(dealCount) };
+}
@@ -4,3 +4,5 @@
 export * from "./errors";
 export * from "./player";
 export * from "./shuffle";
+export * from "./jsonPatch";
+export * from "./deal";
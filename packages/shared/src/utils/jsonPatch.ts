@@ -0,0 +1,156 @@
+// packages/shared/src/utils/jsonPatch.ts
+// Minimal JSON Patch (RFC 6902) for syncing game state
+
+/**
+ * A JSON Patch operation. Only add, remove and replace are produced.
+ */
+export type JsonPatchOperation =
+    | { op: "add"; path: string; value: unknown }
+    | { op: "remove"; path: string }
+    | { op: "replace"; path: string; value: unknown };
+
+type JsonContainer = Record<string, unknown> | unknown[];
+
+function isContainer(value: unknown): value is JsonContainer {
+    return typeof value === "object" && value !== null;
+}
+
+function escapeToken(token: string): string {
+    return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapeToken(token: string): string {
+    return token.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+function diff(
+    from: unknown,
+    to: unknown,
+    path: string,
+    ops: JsonPatchOperation[]
+): void {
+    if (from === to) return;
+
+    if (
+        !isContainer(from) ||
+        !isContainer(to) ||
+        Array.isArray(from) !== Array.isArray(to)
+    ) {
+        ops.push({ op: "replace", path, value: to });
+        return;
+    }
+
+    if (Array.isArray(from) && Array.isArray(to)) {
+        // Compare by index: append-only arrays (history, completed tricks)
+        // only produce adds for their new entries
+        const shared = Math.min(from.length, to.length);
+        for (let i = 0; i < shared; i++) {
+            diff(from[i], to[i], `${path}/${i}`, ops);
+        }
+        for (let i = shared; i < to.length; i++) {
+            ops.push({ op: "add", path: `${path}/${i}`, value: to[i] });
+        }
+        // Remove from the end so earlier indices stay valid
+        for (let i = from.length - 1; i >= to.length; i--) {
+            ops.push({ op: "remove", path: `${path}/${i}` });
+        }
+        return;
+    }
+
+    const fromObject = from as Record<string, unknown>;
+    const toObject = to as Record<string, unknown>;
+    for (const key of Object.keys(fromObject)) {
+        if (fromObject[key] === undefined) continue;
+        const childPath = `${path}/${escapeToken(key)}`;
+        if (toObject[key] === undefined) {
+            ops.push({ op: "remove", path: childPath });
+        } else {
+            diff(fromObject[key], toObject[key], childPath, ops);
+        }
+    }
+    for (const key of Object.keys(toObject)) {
+        if (toObject[key] === undefined || fromObject[key] !== undefined) {
+            continue;
+        }
+        ops.push({
+            op: "add",
+            path: `${path}/${escapeToken(key)}`,
+            value: toObject[key],
+        });
+    }
+}
+
+/**
+ * Build the patch that turns one JSON document into another.
+ * Both documents must be plain JSON (no Dates, Maps or cycles).
+ */
+export function createJsonPatch(
+    from: unknown,
+    to: unknown
+): JsonPatchOperation[] {
+    const ops: JsonPatchOperation[] = [];
+    diff(from, to, "", ops);
+    return ops;
+}
+
+/**
+ * Apply a patch without mutating the document.
+ * Containers along each changed path are copied, so untouched branches
+ * keep their identity (cheap re-renders on the client).
+ *
+ * @throws Error if a path doesn't exist in the document
+ */
+export function applyJsonPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+    let result: unknown = document;
+
+    for (const operation of patch) {
+        if (operation.path === "") {
+            if (operation.op === "remove") {
+                throw new Error("Cannot remove the document root");
+            }
+            result = operation.value;
+            continue;
+        }
+
+        const tokens = operation.path.split("/").slice(1).map(unescapeToken);
+        const root = copyContainer(result, operation.path);
+        let parent = root;
+        for (const token of tokens.slice(0, -1)) {
+            const child = copyContainer(
+                (parent as Record<string, unknown>)[token],
+                operation.path
+            );
+            (parent as Record<string, unknown>)[token] = child;
+            parent = child;
+        }
+
+        const key = tokens[tokens.length - 1];
+        if (Array.isArray(parent)) {
+            const index = key === "-" ? parent.length : Number(key);
+            if (!Number.isInteger(index) || index < 0) {
+                throw new Error(`Invalid array index in ${operation.path}`);
+            }
+            if (operation.op === "add") {
+                parent.splice(index, 0, operation.value);
+            } else if (operation.op === "remove") {
+                parent.splice(index, 1);
+            } else {
+                parent[index] = operation.value;
+            }
+        } else if (operation.op === "remove") {
+            delete parent[key];
+        } else {
+            parent[key] = operation.value;
+        }
+        result = root;
+    }
+
+    return result as T;
+}
+
+function copyContainer(value: unknown, path: string): JsonContainer {
+    if (!isContainer(value)) {
+        throw new Error(`Patch path not found: ${path}`);
+    }
+    return Array.isArray(value) ? [...value] : { ...value };
+}
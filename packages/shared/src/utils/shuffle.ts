@@ -48,3 +48,33 @@ export function pickRandomN<T>(
     const shuffled = shuffle(items, rng);
     return shuffled.slice(0, Math.min(count, items.length));
 }
+
+/**
+ * Deterministic PRNG (sfc32) keyed from the first 16 bytes of `key`.
+ * The API keys it from a round's seed; given the same key the client
+ * draws the same sequence and can rebuild the deal.
+ * @param key At least 16 bytes, read as four little-endian uint32s
+ * @returns Random number generator function (0 <= n < 1)
+ */
+export function createSfc32Rng(key: Uint8Array): () => number {
+    const word = (offset: number) =>
+        (key[offset] |
+            (key[offset + 1] << 8) |
+            (key[offset + 2] << 16) |
+            (key[offset + 3] << 24)) >>>
+        0;
+    let a = word(0);
+    let b = word(4);
+    let c = word(8);
+    let d = word(12);
+
+    return () => {
+        const t = (((a + b) | 0) + d) | 0;
+        d = (d + 1) | 0;
+        a = b ^ (b >>> 9);
+        b = (c + (c << 3)) | 0;
+        c = (c << 21) | (c >>> 11);
+        c = (c + t) | 0;
+        return (t >>> 0) / 4294967296;
+    };
+}
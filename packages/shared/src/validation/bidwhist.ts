@@ -0,0 +1,142 @@
+// packages/shared/src/validation/bidwhist.ts
+// Bid Whist game validation utilities
+
+import {
+    Rank,
+    STANDARD_RANK_ORDER,
+    TrickCard,
+    TrickRules,
+} from "../types/games/cards";
+import { BidWhistBid, BidWhistRanking } from "../types/games/bidwhist";
+
+// Named constants for special card rank values
+const RANK_VALUE_BIG_JOKER = 1000;
+const RANK_VALUE_LITTLE_JOKER = 999;
+
+// Jokers have no suit in no-trump - they can't win a trick
+const NO_TRUMP_JOKER_SUIT = "Joker";
+
+// ============================================================================
+// Card Checks
+// ============================================================================
+
+/**
+ * Check if a card is the Big or Little Joker.
+ * @param card The card to check
+ * @returns True if the card is a joker
+ */
+export function isWhistJoker(card: TrickCard): boolean {
+    return card.rank === Rank.BigJoker || card.rank === Rank.LittleJoker;
+}
+
+/**
+ * Get numerical rank value for a card (higher wins):
+ * - Jokers: Big Joker > Little Joker, above every other card
+ * - Uptown: Ace > King > ... > 2
+ * - Downtown: Ace > 2 > 3 > ... > King
+ * @param card The card to rank
+ * @param ranking Uptown or downtown
+ * @returns The card's rank value
+ */
+export function getBidWhistRankValue(
+    card: TrickCard,
+    ranking: BidWhistRanking
+): number {
+    if (card.rank === Rank.BigJoker) return RANK_VALUE_BIG_JOKER;
+    if (card.rank === Rank.LittleJoker) return RANK_VALUE_LITTLE_JOKER;
+
+    const index = STANDARD_RANK_ORDER.indexOf(card.rank as Rank);
+    if (ranking === "uptown" || card.rank === Rank.Ace) return index;
+    // Downtown: 2 (index 0) is just below the Ace, King lowest
+    return STANDARD_RANK_ORDER.length - 2 - index;
+}
+
+// ============================================================================
+// Trick Rules
+// ============================================================================
+
+/**
+ * Bid Whist trick rules. With a trump suit the jokers are its two highest
+ * cards. In no-trump the jokers are worthless: they can't lead (unless
+ * nothing else is left) and never win a trick.
+ * @param trumpSuit The declared trump suit, or null for no-trump
+ * @param ranking Uptown or downtown
+ * @returns Rules for judging plays and trick winners
+ */
+export function getBidWhistTrickRules(
+    trumpSuit: string | null,
+    ranking: BidWhistRanking
+): TrickRules {
+    const getRankValue = (card: TrickCard) =>
+        getBidWhistRankValue(card, ranking);
+
+    if (trumpSuit !== null) {
+        return {
+            trumpSuit,
+            getRankValue,
+            getSuit: (card) => (isWhistJoker(card) ? trumpSuit : card.suit),
+        };
+    }
+
+    return {
+        trumpSuit: null,
+        getRankValue,
+        getSuit: (card) =>
+            isWhistJoker(card) ? NO_TRUMP_JOKER_SUIT : card.suit,
+        canLead: (card, hand) =>
+            !isWhistJoker(card) || hand.every(isWhistJoker),
+        beats: (a, b, ledSuit) => {
+            if (isWhistJoker(a)) return false;
+            if (isWhistJoker(b)) return true;
+            if (a.suit === b.suit) return getRankValue(a) > getRankValue(b);
+            return a.suit === ledSuit;
+        },
+    };
+}
+
+// ============================================================================
+// Bidding
+// ============================================================================
+
+/**
+ * Strength of a bid: more books wins, and no-trump beats uptown or
+ * downtown for the same number of books.
+ * @param bid The bid
+ * @returns A value to compare bids with
+ */
+export function getBidWhistBidValue(bid: BidWhistBid): number {
+    return bid.amount * 2 + (bid.direction === "noTrump" ? 1 : 0);
+}
+
+/**
+ * The highest bid placed so far, or null if everyone has passed.
+ * @param bids Bids by player (null for a pass)
+ * @returns The winning player and bid
+ */
+export function getHighBid(
+    bids: Record<string, BidWhistBid | null>
+): { playerId: string; bid: BidWhistBid } | null {
+    let high: { playerId: string; bid: BidWhistBid } | null = null;
+    for (const [playerId, bid] of Object.entries(bids)) {
+        if (
+            bid &&
+            (!high || getBidWhistBidValue(bid) > getBidWhistBidValue(high.bid))
+        ) {
+            high = { playerId, bid };
+        }
+    }
+    return high;
+}
+
+/**
+ * Check if a bid beats the current high bid.
+ * @param bid The new bid
+ * @param highBid The current high bid, or null if nobody has bid
+ * @returns True if the bid can be placed
+ */
+export function isHigherBid(
+    bid: BidWhistBid,
+    highBid: BidWhistBid | null
+): boolean {
+    return !highBid || getBidWhistBidValue(bid) > getBidWhistBidValue(highBid);
+}
@@ -0,0 +1,98 @@
+// packages/shared/src/validation/crazyeights.ts
+// Crazy Eights game validation utilities
+
+import { Rank, TrickCard } from "../types/games/cards";
+import {
+    CRAZY_EIGHTS_ACTION_RANKS,
+    CRAZY_EIGHTS_POINTS,
+    CrazyEightsActionType,
+} from "../types/games/crazyeights";
+
+/**
+ * Which optional action cards are switched on.
+ */
+export interface CrazyEightsActionRules {
+    drawTwos: boolean;
+    skips: boolean;
+    reverses: boolean;
+}
+
+// ============================================================================
+// Card Checks
+// ============================================================================
+
+/**
+ * Check if a card is an eight, which is wild.
+ * @param card The card to check
+ * @returns True if the card is an eight
+ */
+export function isWildEight(card: TrickCard): boolean {
+    return card.rank === Rank.Eight;
+}
+
+/**
+ * Get the action a card triggers, if its action card is switched on.
+ * @param card The card played
+ * @param rules Which action cards are in play
+ * @returns The action type, or null for a plain card
+ */
+export function getCrazyEightsAction(
+    card: TrickCard,
+    rules: CrazyEightsActionRules
+): CrazyEightsActionType | null {
+    if (rules.drawTwos && card.rank === CRAZY_EIGHTS_ACTION_RANKS.drawTwo) {
+        return "drawTwo";
+    }
+    if (rules.skips && card.rank === CRAZY_EIGHTS_ACTION_RANKS.skip) {
+        return "skip";
+    }
+    if (rules.reverses && card.rank === CRAZY_EIGHTS_ACTION_RANKS.reverse) {
+        return "reverse";
+    }
+    return null;
+}
+
+/**
+ * Check if a card can go on the discard pile: an eight always can,
+ * otherwise it has to match the suit to follow or the top card's rank.
+ * @param card The card to play
+ * @param topCard The top card of the discard pile
+ * @param currentSuit The suit to follow (named by an eight, or the top card's)
+ * @returns True if the card can be played
+ */
+export function canPlayCrazyEightsCard(
+    card: TrickCard,
+    topCard: TrickCard,
+    currentSuit: string
+): boolean {
+    return (
+        isWildEight(card) ||
+        card.suit === currentSuit ||
+        card.rank === topCard.rank
+    );
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Points a card left in hand is worth to the player who went out.
+ * @param card The card left in hand
+ * @returns The card's point value
+ */
+export function getCrazyEightsCardPoints(card: TrickCard): number {
+    switch (card.rank) {
+        case Rank.Eight:
+            return CRAZY_EIGHTS_POINTS.eight;
+        case Rank.King:
+        case Rank.Queen:
+        case Rank.Jack:
+        case Rank.Ten:
+            return CRAZY_EIGHTS_POINTS.court;
+        case Rank.Ace:
+            return CRAZY_EIGHTS_POINTS.ace;
+        default:
+            return Number(card.rank);
+    }
+}
@@ -0,0 +1,105 @@
+// packages/shared/src/validation/euchre.ts
+// Euchre game validation utilities
+
+import {
+    Rank,
+    STANDARD_RANK_ORDER,
+    Suit,
+    TrickCard,
+    TrickRules,
+} from "../types/games/cards";
+
+// Named constants for the bowers' rank values
+const RANK_VALUE_RIGHT_BOWER = 100;
+const RANK_VALUE_LEFT_BOWER = 99;
+
+/**
+ * The other suit of the same color, whose Jack is the left bower.
+ */
+const SAME_COLOR_SUIT: Record<string, Suit> = {
+    [Suit.Spades]: Suit.Clubs,
+    [Suit.Clubs]: Suit.Spades,
+    [Suit.Hearts]: Suit.Diamonds,
+    [Suit.Diamonds]: Suit.Hearts,
+};
+
+// ============================================================================
+// Card Checks
+// ============================================================================
+
+/**
+ * Check if a card is the right bower (the Jack of trump).
+ * @param card The card to check
+ * @param trumpSuit The trump suit
+ * @returns True if the card is the right bower
+ */
+export function isRightBower(card: TrickCard, trumpSuit: string): boolean {
+    return card.rank === Rank.Jack && card.suit === trumpSuit;
+}
+
+/**
+ * Check if a card is the left bower (the Jack of the other suit of the
+ * same color, which counts as trump).
+ * @param card The card to check
+ * @param trumpSuit The trump suit
+ * @returns True if the card is the left bower
+ */
+export function isLeftBower(card: TrickCard, trumpSuit: string): boolean {
+    return card.rank === Rank.Jack && card.suit === SAME_COLOR_SUIT[trumpSuit];
+}
+
+/**
+ * Get numerical rank value for a card (higher wins):
+ * - Right bower > left bower, above every other trump
+ * - Otherwise Ace > King > Queen > (Jack) > 10 > 9
+ * @param card The card to rank
+ * @param trumpSuit The trump suit
+ * @returns The card's rank value
+ */
+export function getEuchreRankValue(card: TrickCard, trumpSuit: string): number {
+    if (isRightBower(card, trumpSuit)) return RANK_VALUE_RIGHT_BOWER;
+    if (isLeftBower(card, trumpSuit)) return RANK_VALUE_LEFT_BOWER;
+    return STANDARD_RANK_ORDER.indexOf(card.rank as Rank);
+}
+
+// ============================================================================
+// Trick Rules
+// ============================================================================
+
+/**
+ * Euchre trick rules: the left bower belongs to the trump suit, so it
+ * follows trump and can't be played to follow its printed suit.
+ * @param trumpSuit The called trump suit
+ * @returns Rules for judging plays and trick winners
+ */
+export function getEuchreTrickRules(trumpSuit: string): TrickRules {
+    return {
+        trumpSuit,
+        getRankValue: (card) => getEuchreRankValue(card, trumpSuit),
+        getSuit: (card) =>
+            isLeftBower(card, trumpSuit) ? trumpSuit : card.suit,
+    };
+}
+
+// ============================================================================
+// Calling Trump
+// ============================================================================
+
+/**
+ * Check if a suit can be called as trump. The first time round only the
+ * upcard's suit can be ordered up; after that it's turned down and any
+ * other suit can be named.
+ * @param trumpSuit The suit being called
+ * @param upcardSuit The suit of the turned-up card
+ * @param callingRound Which time round the table
+ * @returns True if the suit can be called
+ */
+export function canCallTrump(
+    trumpSuit: string,
+    upcardSuit: string,
+    callingRound: number
+): boolean {
+    return callingRound === 1
+        ? trumpSuit === upcardSuit
+        : trumpSuit !== upcardSuit;
+}
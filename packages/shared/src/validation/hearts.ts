@@ -0,0 +1,83 @@
+// packages/shared/src/validation/hearts.ts
+// Hearts game validation utilities
+
+import {
+    Rank,
+    STANDARD_RANK_ORDER,
+    Suit,
+    TrickCard,
+    TrickRules,
+} from "../types/games/cards";
+import { HEARTS_QUEEN_OF_SPADES_POINTS } from "../types/games/hearts";
+
+// ============================================================================
+// Card Points
+// ============================================================================
+
+/**
+ * Check if a card is the Q♠.
+ * @param card The card to check
+ * @returns True if the card is the queen of spades
+ */
+export function isQueenOfSpades(card: TrickCard): boolean {
+    return card.suit === Suit.Spades && card.rank === Rank.Queen;
+}
+
+/**
+ * Check if a card is the 2♣, which leads the first trick.
+ * @param card The card to check
+ * @returns True if the card is the two of clubs
+ */
+export function isTwoOfClubs(card: TrickCard): boolean {
+    return card.suit === Suit.Clubs && card.rank === Rank.Two;
+}
+
+/**
+ * Points a card is worth to whoever takes it: 1 per heart, 13 for the Q♠.
+ * @param card The card to score
+ * @returns The card's penalty points
+ */
+export function getHeartsCardPoints(card: TrickCard): number {
+    if (card.suit === Suit.Hearts) return 1;
+    if (isQueenOfSpades(card)) return HEARTS_QUEEN_OF_SPADES_POINTS;
+    return 0;
+}
+
+/**
+ * Check if a card is worth points (a heart or the Q♠).
+ * @param card The card to check
+ * @returns True if the card scores points
+ */
+export function isPointCard(card: TrickCard): boolean {
+    return getHeartsCardPoints(card) > 0;
+}
+
+// ============================================================================
+// Trick Rules
+// ============================================================================
+
+/**
+ * Hearts trick rules: no trump, aces high. The 2♣ leads the first trick,
+ * where nobody may play points unless they hold nothing else. Hearts can't
+ * lead until one has been played, unless the player holds only hearts.
+ * @param heartsBroken Whether a heart has been played this hand
+ * @param firstTrick Whether this is the hand's first trick
+ * @returns Rules for judging plays and trick winners
+ */
+export function getHeartsTrickRules(
+    heartsBroken: boolean,
+    firstTrick: boolean
+): TrickRules {
+    return {
+        trumpSuit: null,
+        getRankValue: (card) => STANDARD_RANK_ORDER.indexOf(card.rank as Rank),
+        canLead: (card, hand) =>
+            firstTrick
+                ? isTwoOfClubs(card)
+                : card.suit !== Suit.Hearts ||
+                  heartsBroken ||
+                  hand.every((c) => c.suit === Suit.Hearts),
+        canPlay: (card, hand) =>
+            !firstTrick || !isPointCard(card) || hand.every(isPointCard),
+    };
+}
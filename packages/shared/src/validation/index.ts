@@ -3,7 +3,12 @@
 
 export * from "./room";
 export * from "./teams";
+export * from "./tricks";
 export * from "./spades";
+export * from "./hearts";
+export * from "./bidwhist";
+export * from "./euchre";
+export * from "./crazyeights";
 
 // Export all Zod schemas
 export * from "./schemas";
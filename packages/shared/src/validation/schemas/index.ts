@@ -27,11 +27,15 @@ export {
     type RoomSettingsInput,
     BaseGameSettingsSchema,
     type BaseGameSettingsInput,
+    SpadesGameModeSchema,
+    SpadesBostonRuleSchema,
     SpadesSettingsSchema,
     type SpadesSettingsInput,
     PartialSpadesSettingsSchema,
     type PartialSpadesSettingsInput,
     DominoesGameModeSchema,
+    DominoesScoringModeSchema,
+    DominoesSetSizeSchema,
     DominoesSettingsSchema,
     type DominoesSettingsInput,
     PartialDominoesSettingsSchema,
@@ -40,6 +44,23 @@ export {
     type LRCSettingsInput,
     PartialLRCSettingsSchema,
     type PartialLRCSettingsInput,
+    HeartsMoonRuleSchema,
+    HeartsSettingsSchema,
+    type HeartsSettingsInput,
+    PartialHeartsSettingsSchema,
+    type PartialHeartsSettingsInput,
+    BidWhistSettingsSchema,
+    type BidWhistSettingsInput,
+    PartialBidWhistSettingsSchema,
+    type PartialBidWhistSettingsInput,
+    EuchreSettingsSchema,
+    type EuchreSettingsInput,
+    PartialEuchreSettingsSchema,
+    type PartialEuchreSettingsInput,
+    CrazyEightsSettingsSchema,
+    type CrazyEightsSettingsInput,
+    PartialCrazyEightsSettingsSchema,
+    type PartialCrazyEightsSettingsInput,
     GameSettingsZodSchema,
     type GameSettingsInput,
     PartialGameSettingsSchema,
@@ -62,6 +83,48 @@ export {
     type UserIds,
 } from "./teams";
 
+// Re-export socket payload schemas
+export {
+    RoomIdSchema,
+    BotDifficultySchema,
+    GameSettingsPayloadSchema,
+    ClockSyncPayloadSchema,
+    type ClockSyncPayload,
+    RoomPayloadSchema,
+    type RoomPayload,
+    PromoteLeaderPayloadSchema,
+    type PromoteLeaderPayload,
+    SelectGamePayloadSchema,
+    type SelectGamePayload,
+    KickUserPayloadSchema,
+    type KickUserPayload,
+    SetTeamsPayloadSchema,
+    type SetTeamsPayload,
+    AddBotPayloadSchema,
+    type AddBotPayload,
+    RemoveBotPayloadSchema,
+    type RemoveBotPayload,
+    UpdateRoomSettingsPayloadSchema,
+    type UpdateRoomSettingsPayload,
+    UpdateGameSettingsPayloadSchema,
+    type UpdateGameSettingsPayload,
+    StartGamePayloadSchema,
+    type StartGamePayload,
+    GameActionInputSchema,
+    type GameActionInput,
+    GameActionPayloadSchema,
+    type GameActionPayload,
+    SpectateGamePayloadSchema,
+    type SpectateGamePayload,
+    ClaimPlayerSlotPayloadSchema,
+    type ClaimPlayerSlotPayload,
+    RequestJoinPayloadSchema,
+    type RequestJoinPayload,
+    RespondJoinRequestPayloadSchema,
+    type RespondJoinRequestPayload,
+    ClientEventSchemas,
+} from "./socket";
+
 // Re-export utility functions and types
 export {
     formatZodError,
@@ -37,14 +37,31 @@ export type BaseGameSettingsInput = z.infer<typeof BaseGameSettingsSchema>;
 // Spades Settings Schema
 // ============================================================================
 
+/**
+ * Schema for Spades game mode.
+ */
+export const SpadesGameModeSchema = z.enum(["partnership", "cutthroat"]);
+
+/**
+ * Schema for what taking every trick (Boston) is worth.
+ */
+export const SpadesBostonRuleSchema = z.enum(["off", "bonus", "win"]);
+
 /**
  * Schema for Spades game settings.
  */
 export const SpadesSettingsSchema = BaseGameSettingsSchema.extend({
+    gameMode: SpadesGameModeSchema,
     allowNil: z.boolean(),
     blindNilEnabled: z.boolean(),
     blindBidEnabled: z.boolean(),
     bagsPenalty: z.number().int().max(0), // Should be negative or zero
+    bagsThreshold: z.number().int().min(5).max(15),
+    nilValue: z.number().int().min(50).max(200),
+    tenForTwoHundred: z.boolean(),
+    bostonRule: SpadesBostonRuleSchema,
+    minimumTeamBid: z.number().int().min(2).max(6).nullable(),
+    fourBidMinimum: z.boolean(),
     jokersEnabled: z.boolean(),
     deuceOfSpadesHigh: z.boolean(),
 });
@@ -69,12 +86,28 @@ export type PartialSpadesSettingsInput = z.infer<
  */
 export const DominoesGameModeSchema = z.enum(["individual", "team"]);
 
+/**
+ * Schema for when Dominoes points are scored.
+ */
+export const DominoesScoringModeSchema = z.enum(["block", "allFives"]);
+
+/**
+ * Schema for the Dominoes set (highest double).
+ */
+export const DominoesSetSizeSchema = z.union([
+    z.literal(6),
+    z.literal(9),
+    z.literal(12),
+]);
+
 /**
  * Schema for Dominoes game settings.
  */
 export const DominoesSettingsSchema = BaseGameSettingsSchema.extend({
     gameMode: DominoesGameModeSchema,
     drawFromBoneyard: z.boolean(),
+    scoringMode: DominoesScoringModeSchema,
+    setSize: DominoesSetSizeSchema,
 });
 
 export type DominoesSettingsInput = z.infer<typeof DominoesSettingsSchema>;
@@ -109,6 +142,105 @@ export const PartialLRCSettingsSchema = LRCSettingsSchema.partial();
 
 export type PartialLRCSettingsInput = z.infer<typeof PartialLRCSettingsSchema>;
 
+// ============================================================================
+// Hearts Settings Schema
+// ============================================================================
+
+/**
+ * Schema for how shooting the moon is scored.
+ */
+export const HeartsMoonRuleSchema = z.enum(["addToOthers", "subtractFromSelf"]);
+
+/**
+ * Schema for Hearts game settings.
+ */
+export const HeartsSettingsSchema = BaseGameSettingsSchema.extend({
+    shootTheMoon: HeartsMoonRuleSchema,
+});
+
+export type HeartsSettingsInput = z.infer<typeof HeartsSettingsSchema>;
+
+/**
+ * Partial schema for updating Hearts settings.
+ */
+export const PartialHeartsSettingsSchema = HeartsSettingsSchema.partial();
+
+export type PartialHeartsSettingsInput = z.infer<
+    typeof PartialHeartsSettingsSchema
+>;
+
+// ============================================================================
+// Bid Whist Settings Schema
+// ============================================================================
+
+/**
+ * Schema for Bid Whist game settings.
+ */
+export const BidWhistSettingsSchema = BaseGameSettingsSchema.extend({
+    minimumBid: z.number().int().min(1).max(5),
+    noTrumpDoubles: z.boolean(),
+});
+
+export type BidWhistSettingsInput = z.infer<typeof BidWhistSettingsSchema>;
+
+/**
+ * Partial schema for updating Bid Whist settings.
+ */
+export const PartialBidWhistSettingsSchema = BidWhistSettingsSchema.partial();
+
+export type PartialBidWhistSettingsInput = z.infer<
+    typeof PartialBidWhistSettingsSchema
+>;
+
+// ============================================================================
+// Euchre Settings Schema
+// ============================================================================
+
+/**
+ * Schema for Euchre game settings.
+ */
+export const EuchreSettingsSchema = BaseGameSettingsSchema.extend({
+    stickTheDealer: z.boolean(),
+});
+
+export type EuchreSettingsInput = z.infer<typeof EuchreSettingsSchema>;
+
+/**
+ * Partial schema for updating Euchre settings.
+ */
+export const PartialEuchreSettingsSchema = EuchreSettingsSchema.partial();
+
+export type PartialEuchreSettingsInput = z.infer<
+    typeof PartialEuchreSettingsSchema
+>;
+
+// ============================================================================
+// Crazy Eights Settings Schema
+// ============================================================================
+
+/**
+ * Schema for Crazy Eights game settings.
+ */
+export const CrazyEightsSettingsSchema = BaseGameSettingsSchema.extend({
+    drawTwos: z.boolean(),
+    skips: z.boolean(),
+    reverses: z.boolean(),
+});
+
+export type CrazyEightsSettingsInput = z.infer<
+    typeof CrazyEightsSettingsSchema
+>;
+
+/**
+ * Partial schema for updating Crazy Eights settings.
+ */
+export const PartialCrazyEightsSettingsSchema =
+    CrazyEightsSettingsSchema.partial();
+
+export type PartialCrazyEightsSettingsInput = z.infer<
+    typeof PartialCrazyEightsSettingsSchema
+>;
+
 // ============================================================================
 // Union Schema for Any Game Settings
 // ============================================================================
@@ -120,6 +252,10 @@ export const GameSettingsZodSchema = z.union([
     SpadesSettingsSchema,
     DominoesSettingsSchema,
     LRCSettingsSchema,
+    HeartsSettingsSchema,
+    BidWhistSettingsSchema,
+    EuchreSettingsSchema,
+    CrazyEightsSettingsSchema,
 ]);
 
 export type GameSettingsInput = z.infer<typeof GameSettingsZodSchema>;
@@ -138,14 +274,36 @@ export const PartialGameSettingsSchema = z.object({
     blindNilEnabled: z.boolean().optional(),
     blindBidEnabled: z.boolean().optional(),
     bagsPenalty: z.number().int().max(0).optional(),
+    bagsThreshold: z.number().int().min(5).max(15).optional(),
+    nilValue: z.number().int().min(50).max(200).optional(),
+    tenForTwoHundred: z.boolean().optional(),
+    bostonRule: SpadesBostonRuleSchema.optional(),
+    minimumTeamBid: z.number().int().min(2).max(6).nullable().optional(),
+    fourBidMinimum: z.boolean().optional(),
     jokersEnabled: z.boolean().optional(),
     deuceOfSpadesHigh: z.boolean().optional(),
+    // Spades and Dominoes settings (each game has its own modes)
+    gameMode: z
+        .union([SpadesGameModeSchema, DominoesGameModeSchema])
+        .optional(),
     // Dominoes settings
-    gameMode: DominoesGameModeSchema.optional(),
     drawFromBoneyard: z.boolean().optional(),
+    scoringMode: DominoesScoringModeSchema.optional(),
+    setSize: DominoesSetSizeSchema.optional(),
     // LRC settings
     startingChips: z.number().int().min(1).max(10).optional(),
     chipValue: z.number().min(0).max(10).optional(),
+    // Hearts settings
+    shootTheMoon: HeartsMoonRuleSchema.optional(),
+    // Bid Whist settings
+    minimumBid: z.number().int().min(1).max(5).optional(),
+    noTrumpDoubles: z.boolean().optional(),
+    // Euchre settings
+    stickTheDealer: z.boolean().optional(),
+    // Crazy Eights settings
+    drawTwos: z.boolean().optional(),
+    skips: z.boolean().optional(),
+    reverses: z.boolean().optional(),
 });
 
 export type PartialGameSettingsInput = z.infer<
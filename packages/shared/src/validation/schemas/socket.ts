@@ -0,0 +1,267 @@
+// packages/shared/src/validation/schemas/socket.ts
+// Zod schemas for Socket.IO client-to-server event payloads
+
+import { z } from "zod";
+import { PlayerNameSchema, RoomCodeSchema } from "./room";
+import { RoomSettingsSchema } from "./settings";
+import { TeamsSchema, UserIdSchema } from "./teams";
+import type { ClientToServerEvents } from "../../types/socket";
+
+// The acting user is never part of a payload: the server binds it to the
+// socket from its session token. Unknown keys (e.g. a legacy `userId`) are
+// stripped during parsing.
+
+// ============================================================================
+// Helper Schemas
+// ============================================================================
+
+/**
+ * Schema for a room ID (non-empty string).
+ */
+export const RoomIdSchema = z.string().min(1, { error: "Room ID is required" });
+
+/**
+ * Schema for bot difficulty levels.
+ */
+export const BotDifficultySchema = z.enum(["easy", "hard"]);
+
+/**
+ * Schema for game settings sent by the leader.
+ * Only the shape is checked here - values are validated against the
+ * selected game's settings definitions on the server.
+ */
+export const GameSettingsPayloadSchema = z.record(z.string(), z.unknown());
+
+// ============================================================================
+// Connection Payload Schemas
+// ============================================================================
+
+/**
+ * Schema for clock sync requests.
+ */
+export const ClockSyncPayloadSchema = z.object({
+    clientTime: z.number(),
+});
+
+export type ClockSyncPayload = z.infer<typeof ClockSyncPayloadSchema>;
+
+/**
+ * Schema for events that only target a room
+ * (join_room, toggle_ready, leave_game, ...).
+ */
+export const RoomPayloadSchema = z.object({
+    roomId: RoomIdSchema,
+});
+
+export type RoomPayload = z.infer<typeof RoomPayloadSchema>;
+
+// ============================================================================
+// Lobby Payload Schemas
+// ============================================================================
+
+/**
+ * Schema for promoting another user to room leader.
+ */
+export const PromoteLeaderPayloadSchema = RoomPayloadSchema.extend({
+    newLeaderId: UserIdSchema,
+});
+
+export type PromoteLeaderPayload = z.infer<typeof PromoteLeaderPayloadSchema>;
+
+/**
+ * Schema for selecting the room's game.
+ */
+export const SelectGamePayloadSchema = RoomPayloadSchema.extend({
+    gameType: z.string().min(1, { error: "Game type is required" }),
+});
+
+export type SelectGamePayload = z.infer<typeof SelectGamePayloadSchema>;
+
+/**
+ * Schema for kicking a user from the room.
+ */
+export const KickUserPayloadSchema = RoomPayloadSchema.extend({
+    targetUserId: UserIdSchema,
+});
+
+export type KickUserPayload = z.infer<typeof KickUserPayloadSchema>;
+
+/**
+ * Schema for setting team assignments.
+ */
+export const SetTeamsPayloadSchema = RoomPayloadSchema.extend({
+    teams: TeamsSchema,
+});
+
+export type SetTeamsPayload = z.infer<typeof SetTeamsPayloadSchema>;
+
+/**
+ * Schema for adding a bot to the room.
+ */
+export const AddBotPayloadSchema = RoomPayloadSchema.extend({
+    difficulty: BotDifficultySchema.optional(),
+});
+
+export type AddBotPayload = z.infer<typeof AddBotPayloadSchema>;
+
+/**
+ * Schema for removing a bot from the room.
+ */
+export const RemoveBotPayloadSchema = RoomPayloadSchema.extend({
+    botId: UserIdSchema,
+});
+
+export type RemoveBotPayload = z.infer<typeof RemoveBotPayloadSchema>;
+
+/**
+ * Schema for updating room-level settings.
+ */
+export const UpdateRoomSettingsPayloadSchema = RoomPayloadSchema.extend({
+    settings: RoomSettingsSchema,
+});
+
+export type UpdateRoomSettingsPayload = z.infer<
+    typeof UpdateRoomSettingsPayloadSchema
+>;
+
+/**
+ * Schema for updating game settings.
+ */
+export const UpdateGameSettingsPayloadSchema = RoomPayloadSchema.extend({
+    gameSettings: GameSettingsPayloadSchema,
+});
+
+export type UpdateGameSettingsPayload = z.infer<
+    typeof UpdateGameSettingsPayloadSchema
+>;
+
+/**
+ * Schema for starting a game.
+ */
+export const StartGamePayloadSchema = RoomPayloadSchema.extend({
+    gameType: z.string().min(1).optional(),
+    gameSettings: GameSettingsPayloadSchema.optional(),
+});
+
+export type StartGamePayload = z.infer<typeof StartGamePayloadSchema>;
+
+// ============================================================================
+// Game Payload Schemas
+// ============================================================================
+
+/**
+ * Schema for a game action sent by a player.
+ * The reducer validates the payload for the action type.
+ * Actions made before another player's action changed the game are rejected.
+ */
+export const GameActionInputSchema = z.object({
+    type: z.string().min(1, { error: "Action type is required" }),
+    payload: z.unknown().optional(),
+    /** Client-generated ID echoed back in action_ack and used to drop repeats */
+    actionId: z.string().min(1).optional(),
+    /** Game state version the action was made against */
+    expectedVersion: z.number().int().nonnegative(),
+});
+
+export type GameActionInput = z.infer<typeof GameActionInputSchema>;
+
+/**
+ * Schema for the game_action event.
+ */
+export const GameActionPayloadSchema = RoomPayloadSchema.extend({
+    action: GameActionInputSchema,
+});
+
+export type GameActionPayload = z.infer<typeof GameActionPayloadSchema>;
+
+// ============================================================================
+// Spectator Payload Schemas
+// ============================================================================
+
+/**
+ * Schema for joining an active game as a spectator.
+ */
+export const SpectateGamePayloadSchema = z.object({
+    roomCode: RoomCodeSchema,
+    userName: PlayerNameSchema,
+});
+
+export type SpectateGamePayload = z.infer<typeof SpectateGamePayloadSchema>;
+
+/**
+ * Schema for a spectator claiming a disconnected player's slot.
+ */
+export const ClaimPlayerSlotPayloadSchema = RoomPayloadSchema.extend({
+    targetSlotUserId: UserIdSchema,
+});
+
+export type ClaimPlayerSlotPayload = z.infer<
+    typeof ClaimPlayerSlotPayloadSchema
+>;
+
+// ============================================================================
+// Join Request Payload Schemas
+// ============================================================================
+
+/**
+ * Schema for requesting to join a private room.
+ */
+export const RequestJoinPayloadSchema = z.object({
+    roomCode: RoomCodeSchema,
+    requesterName: PlayerNameSchema,
+});
+
+export type RequestJoinPayload = z.infer<typeof RequestJoinPayloadSchema>;
+
+/**
+ * Schema for the leader's answer to a join request.
+ */
+export const RespondJoinRequestPayloadSchema = RoomPayloadSchema.extend({
+    requesterId: UserIdSchema,
+    requesterName: PlayerNameSchema,
+    accepted: z.boolean(),
+});
+
+export type RespondJoinRequestPayload = z.infer<
+    typeof RespondJoinRequestPayloadSchema
+>;
+
+// ============================================================================
+// Event Schema Map
+// ============================================================================
+
+/**
+ * Payload schema for every client-to-server event.
+ * Typed against ClientToServerEvents so the two can't drift apart.
+ */
+export const ClientEventSchemas = {
+    clock_sync: ClockSyncPayloadSchema,
+    join_room: RoomPayloadSchema,
+    get_game_state: RoomPayloadSchema,
+    get_player_state: RoomPayloadSchema,
+    toggle_ready: RoomPayloadSchema,
+    promote_leader: PromoteLeaderPayloadSchema,
+    select_game: SelectGamePayloadSchema,
+    kick_user: KickUserPayloadSchema,
+    set_teams: SetTeamsPayloadSchema,
+    randomize_teams: RoomPayloadSchema,
+    add_bot: AddBotPayloadSchema,
+    remove_bot: RemoveBotPayloadSchema,
+    update_room_settings: UpdateRoomSettingsPayloadSchema,
+    update_game_settings: UpdateGameSettingsPayloadSchema,
+    start_game: StartGamePayloadSchema,
+    game_action: GameActionPayloadSchema,
+    close_room: RoomPayloadSchema,
+    leave_game: RoomPayloadSchema,
+    abort_game: RoomPayloadSchema,
+    spectate_game: SpectateGamePayloadSchema,
+    return_to_lobby: RoomPayloadSchema,
+    claim_player_slot: ClaimPlayerSlotPayloadSchema,
+    get_available_slots: RoomPayloadSchema,
+    request_join: RequestJoinPayloadSchema,
+    respond_join_request: RespondJoinRequestPayloadSchema,
+} satisfies {
+    [E in keyof ClientToServerEvents]: z.ZodType<
+        Parameters<ClientToServerEvents[E]>[0]
+    >;
+};
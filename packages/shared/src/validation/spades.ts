@@ -1,117 +1,84 @@
 // packages/shared/src/validation/spades.ts
 // Spades game validation utilities
 
-import { PlayingCard, SpadesTrick } from "../types/games/spades";
-
-// ============================================================================
-// Suit Following Rules
-// ============================================================================
+import {
+    PlayingCard,
+    Rank,
+    STANDARD_RANK_ORDER,
+    Suit,
+    TrickCard,
+    TrickRules,
+} from "../types/games/cards";
+import { SpadesClientSettings } from "../types/games/spades";
 
 /**
- * Check if a card follows the led suit rule.
- * If a suit was led, player must follow that suit if they have it.
- * @param card The card being played
- * @param playerHand The player's current hand
- * @param ledSuit The suit that was led (null if first card)
- * @returns True if the card follows suit rules
+ * Settings that change how Spades cards rank.
  */
-function mustFollowSuit(
-    card: PlayingCard,
-    playerHand: PlayingCard[],
-    ledSuit: PlayingCard["suit"] | null
-): boolean {
-    if (!ledSuit) return true; // first card of trick – any suit allowed
-    if (card.suit === ledSuit) return true; // followed suit
-    // If player has at least one card of the led suit, they cannot slough
-    return !playerHand.some((c) => c.suit === ledSuit);
-}
+type SpadesRankSettings = Pick<
+    SpadesClientSettings,
+    "jokersEnabled" | "deuceOfSpadesHigh"
+>;
 
-/**
- * Check if a card can lead a trick based on spades-broken rule.
- * Cannot lead spades unless spades are broken OR player only has spades.
- * @param card The card being played
- * @param spadesBroken Whether spades have been broken
- * @param playerHand The player's current hand
- * @returns True if the card can lead
- */
-function canLeadSuit(
-    card: PlayingCard,
-    spadesBroken: boolean,
-    playerHand: PlayingCard[]
-): boolean {
-    if (card.suit !== "Spades") return true; // non-spade can always lead
-    if (spadesBroken) return true; // spades broken, can lead spades
-    // If player ONLY has spades, permit leading them
-    return playerHand.every((c) => c.suit === "Spades");
-}
+// Named constants for special card rank values
+const RANK_VALUE_BIG_JOKER = 1000;
+const RANK_VALUE_LITTLE_JOKER = 999;
+const RANK_VALUE_DEUCE_OF_SPADES_HIGH = 998;
 
 // ============================================================================
-// Card Play Validation
+// Trick Rules
 // ============================================================================
 
 /**
- * Check if a specific card can be legally played given the current trick state.
- * @param card The card to check
- * @param playerHand The player's current hand
- * @param currentTrick The current trick in progress (null if starting new trick)
- * @param spadesBroken Whether spades have been broken
- * @returns True if the card can be legally played
- */
-export function canPlayCard(
-    card: PlayingCard,
-    playerHand: PlayingCard[],
-    currentTrick: SpadesTrick | null,
-    spadesBroken: boolean
-): boolean {
-    // If no trick in progress, this is the first card of a new trick
-    if (!currentTrick || currentTrick.plays.length === 0) {
-        return canLeadSuit(card, spadesBroken, playerHand);
-    }
-
-    // Subsequent plays must follow suit
-    const ledSuit = currentTrick.plays[0]?.card.suit || null;
-    return mustFollowSuit(card, playerHand, ledSuit);
-}
-
-/**
- * Get indices of all cards that cannot be legally played.
- * Returns array of indices that should be disabled in the UI.
- * @param hand The player's hand
- * @param currentTrick The current trick in progress
- * @param spadesBroken Whether spades have been broken
- * @returns Array of indices for unplayable cards
+ * Get numerical rank value for a card, with settings affecting hierarchy:
+ * - Jokers (if enabled): Big Joker (highest) > Little Joker
+ * - Deuce of Spades High (if enabled): 2♠ ranks above Ace but below jokers
+ * - Standard: Ace (highest) > King > Queen > ... > 3 > 2 (lowest)
+ * @param card The card to rank
+ * @param settings The game's joker and deuce settings
+ * @returns The card's rank value (higher wins)
  */
-export function getUnplayableCardIndices(
-    hand: PlayingCard[],
-    currentTrick: SpadesTrick | null,
-    spadesBroken: boolean
-): number[] {
-    const unplayableIndices: number[] = [];
+export function getSpadesRankValue(
+    card: TrickCard,
+    settings: SpadesRankSettings
+): number {
+    const { jokersEnabled, deuceOfSpadesHigh } = settings;
 
-    hand.forEach((card, index) => {
-        if (!canPlayCard(card, hand, currentTrick, spadesBroken)) {
-            unplayableIndices.push(index);
-        }
-    });
+    if (jokersEnabled && card.rank === Rank.BigJoker) {
+        return RANK_VALUE_BIG_JOKER;
+    }
+    if (jokersEnabled && card.rank === Rank.LittleJoker) {
+        return RANK_VALUE_LITTLE_JOKER;
+    }
+    if (
+        deuceOfSpadesHigh &&
+        card.rank === Rank.Two &&
+        card.suit === Suit.Spades
+    ) {
+        return RANK_VALUE_DEUCE_OF_SPADES_HIGH;
+    }
 
-    return unplayableIndices;
+    return STANDARD_RANK_ORDER.indexOf(card.rank as Rank);
 }
 
 /**
- * Get all playable cards from a hand.
- * @param hand The player's hand
- * @param currentTrick The current trick in progress
+ * Spades trick rules: spades (and the jokers, which are spades) are trump,
+ * and can't lead until spades are broken unless the player holds nothing else.
+ * @param settings The game's joker and deuce settings
  * @param spadesBroken Whether spades have been broken
- * @returns Array of playable cards
+ * @returns Rules for judging plays and trick winners
  */
-export function getPlayableCards(
-    hand: PlayingCard[],
-    currentTrick: SpadesTrick | null,
+export function getSpadesTrickRules(
+    settings: SpadesRankSettings,
     spadesBroken: boolean
-): PlayingCard[] {
-    return hand.filter((card) =>
-        canPlayCard(card, hand, currentTrick, spadesBroken)
-    );
+): TrickRules {
+    return {
+        trumpSuit: Suit.Spades,
+        getRankValue: (card) => getSpadesRankValue(card, settings),
+        canLead: (card, hand) =>
+            card.suit !== Suit.Spades ||
+            spadesBroken ||
+            hand.every((c) => c.suit === Suit.Spades),
+    };
 }
 
 // ============================================================================
@@ -2,6 +2,9 @@
 // Team validation utilities for games requiring team-based play
 
 import { SPADES_TEAM_REQUIREMENTS } from "../types/games/spades";
+import { DOMINOES_TEAM_REQUIREMENTS } from "../types/games/dominoes";
+import { BID_WHIST_TEAM_REQUIREMENTS } from "../types/games/bidwhist";
+import { EUCHRE_TEAM_REQUIREMENTS } from "../types/games/euchre";
 
 // ============================================================================
 // Team Requirements Registry
@@ -15,9 +18,26 @@ export const TEAM_REQUIREMENTS: Record<
     string,
     { numTeams: number; playersPerTeam: number }
 > = {
-    spades: SPADES_TEAM_REQUIREMENTS,
-    // Add more games as they're implemented:
-    // dominoes: { numTeams: 2, playersPerTeam: 2 }, // Only for team mode
+    bidwhist: BID_WHIST_TEAM_REQUIREMENTS,
+    euchre: EUCHRE_TEAM_REQUIREMENTS,
+};
+
+/**
+ * Team requirements for games that only use teams in certain modes.
+ * Each entry decides from the current game settings.
+ */
+const SETTINGS_TEAM_REQUIREMENTS: Record<
+    string,
+    (
+        settings: Record<string, unknown>
+    ) => { numTeams: number; playersPerTeam: number } | undefined
+> = {
+    spades: (settings) =>
+        settings.gameMode === "cutthroat"
+            ? undefined
+            : SPADES_TEAM_REQUIREMENTS,
+    dominoes: (settings) =>
+        settings.gameMode === "team" ? DOMINOES_TEAM_REQUIREMENTS : undefined,
 };
 
 // ============================================================================
@@ -30,13 +50,15 @@ export const TEAM_REQUIREMENTS: Record<
  * @param teams Array of teams (each team is an array of userIds)
  * @param users Array of userIds in the room
  * @param requireComplete If true, requires all slots filled (for starting game). Default false.
+ * @param settings Current game settings, for games whose teams depend on a mode
  * @throws Error if teams are invalid for the game
  */
 export function validateTeamsForGame(
     gameType: string,
     teams: string[][],
     users: string[],
-    requireComplete: boolean = false
+    requireComplete: boolean = false,
+    settings?: Record<string, unknown>
 ): void {
     if (!Array.isArray(teams) || teams.length < 1) {
         throw new Error("Teams must be a non-empty array of arrays.");
@@ -58,7 +80,7 @@ export function validateTeamsForGame(
         }
     }
 
-    const req = TEAM_REQUIREMENTS[gameType];
+    const req = getTeamRequirements(gameType, settings);
     if (req) {
         // Always check team count
         if (teams.length !== req.numTeams) {
@@ -93,19 +115,28 @@ export function validateTeamsForGame(
 /**
  * Check if a game type requires teams.
  * @param gameType The game type to check
+ * @param settings Current game settings (e.g. dominoes team mode)
  * @returns True if the game requires teams
  */
-export function gameRequiresTeams(gameType: string): boolean {
-    return gameType in TEAM_REQUIREMENTS;
+export function gameRequiresTeams(
+    gameType: string,
+    settings?: Record<string, unknown>
+): boolean {
+    return getTeamRequirements(gameType, settings) !== undefined;
 }
 
 /**
  * Get team requirements for a game type.
  * @param gameType The game type
+ * @param settings Current game settings (e.g. dominoes team mode)
  * @returns Team requirements or undefined if game doesn't require teams
  */
 export function getTeamRequirements(
-    gameType: string
+    gameType: string,
+    settings?: Record<string, unknown>
 ): { numTeams: number; playersPerTeam: number } | undefined {
-    return TEAM_REQUIREMENTS[gameType];
+    return (
+        TEAM_REQUIREMENTS[gameType] ??
+        SETTINGS_TEAM_REQUIREMENTS[gameType]?.(settings ?? {})
+    );
 }
@@ -0,0 +1,160 @@
+// packages/shared/src/validation/tricks.ts
+// Trick-taking validation utilities, driven by each game's TrickRules
+
+import { CardPlay, Trick, TrickCard, TrickRules } from "../types/games/cards";
+
+type TrickInProgress<C extends TrickCard> = Pick<Trick<C>, "plays">;
+
+// ============================================================================
+// Card Checks
+// ============================================================================
+
+/**
+ * Suit a card counts as under the rules (its printed suit by default).
+ */
+export function getCardSuit<C extends TrickCard>(
+    card: C,
+    rules: TrickRules
+): C["suit"] {
+    return rules.getSuit?.(card) ?? card.suit;
+}
+
+/**
+ * Check if a card is a trump under the rules.
+ */
+export function isTrumpCard(card: TrickCard, rules: TrickRules): boolean {
+    return (
+        rules.trumpSuit !== null && getCardSuit(card, rules) === rules.trumpSuit
+    );
+}
+
+/**
+ * Suit led to a trick (the suit of its first card), or null if no card
+ * has been played yet.
+ */
+export function getLedSuit<C extends TrickCard>(
+    trick: TrickInProgress<C> | null,
+    rules: TrickRules
+): C["suit"] | null {
+    const leadCard = trick?.plays[0]?.card;
+    return leadCard ? getCardSuit(leadCard, rules) : null;
+}
+
+// ============================================================================
+// Card Play Validation
+// ============================================================================
+
+/**
+ * Check if a specific card can be legally played given the current trick state.
+ * @param card The card to check
+ * @param playerHand The player's current hand
+ * @param currentTrick The current trick in progress (null if starting new trick)
+ * @param rules The game's trick rules
+ * @returns True if the card can be legally played
+ */
+export function canPlayCard<C extends TrickCard>(
+    card: C,
+    playerHand: C[],
+    currentTrick: TrickInProgress<C> | null,
+    rules: TrickRules
+): boolean {
+    const plays = currentTrick?.plays ?? [];
+    const ledSuit = getLedSuit(currentTrick, rules);
+
+    if (ledSuit === null) {
+        // First card of a new trick
+        if (rules.canLead && !rules.canLead(card, playerHand)) return false;
+    } else if (
+        rules.mustFollowSuit !== false &&
+        getCardSuit(card, rules) !== ledSuit &&
+        playerHand.some((c) => getCardSuit(c, rules) === ledSuit)
+    ) {
+        // Holding the led suit, so the player cannot slough
+        return false;
+    }
+
+    return rules.canPlay?.(card, playerHand, { plays }) ?? true;
+}
+
+/**
+ * Get indices of all cards that cannot be legally played.
+ * Returns array of indices that should be disabled in the UI.
+ * @param hand The player's hand
+ * @param currentTrick The current trick in progress
+ * @param rules The game's trick rules
+ * @returns Array of indices for unplayable cards
+ */
+export function getUnplayableCardIndices<C extends TrickCard>(
+    hand: C[],
+    currentTrick: TrickInProgress<C> | null,
+    rules: TrickRules
+): number[] {
+    const unplayableIndices: number[] = [];
+
+    hand.forEach((card, index) => {
+        if (!canPlayCard(card, hand, currentTrick, rules)) {
+            unplayableIndices.push(index);
+        }
+    });
+
+    return unplayableIndices;
+}
+
+/**
+ * Get all playable cards from a hand.
+ * @param hand The player's hand
+ * @param currentTrick The current trick in progress
+ * @param rules The game's trick rules
+ * @returns Array of playable cards
+ */
+export function getPlayableCards<C extends TrickCard>(
+    hand: C[],
+    currentTrick: TrickInProgress<C> | null,
+    rules: TrickRules
+): C[] {
+    return hand.filter((card) => canPlayCard(card, hand, currentTrick, rules));
+}
+
+// ============================================================================
+// Trick Winner
+// ============================================================================
+
+/**
+ * True if `a` beats `b` given the led suit: trump beats every other suit,
+ * otherwise only a higher card of the led suit wins.
+ */
+export function cardBeats(
+    a: TrickCard,
+    b: TrickCard,
+    ledSuit: string,
+    rules: TrickRules
+): boolean {
+    if (rules.beats) return rules.beats(a, b, ledSuit);
+
+    const aIsTrump = isTrumpCard(a, rules);
+    if (aIsTrump !== isTrumpCard(b, rules)) return aIsTrump;
+
+    const aSuit = getCardSuit(a, rules);
+    if (aSuit === getCardSuit(b, rules)) {
+        return rules.getRankValue(a) > rules.getRankValue(b);
+    }
+
+    // Neither is trump, higher if it matches the led suit
+    return aSuit === ledSuit;
+}
+
+/**
+ * The play currently winning a trick (the winner once it's complete),
+ * or null if no card has been played.
+ */
+export function getWinningPlay<C extends TrickCard>(
+    trick: TrickInProgress<C>,
+    rules: TrickRules
+): CardPlay<C> | null {
+    const ledSuit = getLedSuit(trick, rules);
+    if (ledSuit === null) return null;
+
+    return trick.plays.reduce((winner, play) =>
+        cardBeats(play.card, winner.card, ledSuit, rules) ? play : winner
+    );
+}